@@ -0,0 +1,133 @@
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import { getUserBalanceRecord } from '@/lib/pricing/balance-service'
+import { formatCost } from '@/lib/pricing/format'
+import {
+  canFundWallet,
+  canManageBilling,
+  getOrganization,
+  getOrganizationMember,
+  getOrganizationMembers,
+  getOrganizationMemberUsage
+} from '@/lib/pricing/organization-service'
+import { getSpendingWindowStarts } from '@/lib/pricing/spending-limit-service'
+import { getStripePublishableKey } from '@/lib/stripe/stripe-client'
+
+import { AddBalanceDialog } from '@/components/balance/add-balance-dialog'
+import { OrganizationMembers } from '@/components/organizations/organization-members'
+
+export default async function OrganizationPage({
+  params
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const userId = await getCurrentUserId()
+
+  if (userId === 'anonymous') {
+    redirect('/auth/login')
+  }
+
+  const { id } = await params
+  const member = await getOrganizationMember(id, userId)
+  const organization = member ? await getOrganization(id) : null
+
+  if (!member || !organization) {
+    notFound()
+  }
+
+  const isOwner = canManageBilling(member.role)
+  const [balanceRecord, members, usage] = await Promise.all([
+    getUserBalanceRecord(organization.id),
+    getOrganizationMembers(organization.id),
+    isOwner
+      ? getOrganizationMemberUsage(
+          organization.id,
+          getSpendingWindowStarts().monthStart
+        )
+      : null
+  ])
+  const currency = balanceRecord?.currency ?? 'USD'
+
+  return (
+    <div className="container mx-auto max-w-4xl py-8 px-4">
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">
+              {organization.name}
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              You are {member.role === 'admin' ? 'an' : 'a'} {member.role}
+            </p>
+          </div>
+          <Link
+            href="/account/organizations"
+            className="text-sm font-medium hover:underline"
+          >
+            All organizations
+          </Link>
+        </div>
+
+        {/* Wallet */}
+        <div className="rounded-lg border bg-card p-6">
+          <div className="text-sm font-medium text-muted-foreground">
+            Shared Wallet
+          </div>
+          <div className="mt-2 text-3xl font-bold">
+            {formatCost(balanceRecord?.balance ?? 0, currency)}
+          </div>
+          {canFundWallet(member.role) && (
+            <div className="mt-4">
+              <AddBalanceDialog
+                currentBalance={balanceRecord?.balance ?? 0}
+                currentCurrency={currency}
+                stripePublishableKey={getStripePublishableKey()}
+                organizationId={organization.id}
+                organizationName={organization.name}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Members */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Members</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {isOwner
+                ? 'Spend from the wallet this month (UTC). A member who reaches their monthly limit is refused until the next month or until you raise it.'
+                : 'Usage in this workspace is charged to the shared wallet'}
+            </p>
+          </div>
+          <div className="p-6">
+            <OrganizationMembers
+              organizationId={organization.id}
+              currentUserId={userId}
+              role={member.role}
+              currency={currency}
+              members={members.map(m => ({
+                userId: m.userId,
+                email: m.email,
+                role: m.role,
+                spendingLimit: m.spendingLimit
+              }))}
+              usage={
+                usage
+                  ? Object.fromEntries(
+                      usage.map(u => [
+                        u.userId,
+                        { totalCost: u.totalCost, requestCount: u.requestCount }
+                      ])
+                    )
+                  : undefined
+              }
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
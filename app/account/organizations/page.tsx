@@ -0,0 +1,74 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import { getUserOrganizations } from '@/lib/pricing/organization-service'
+
+import { CreateOrganizationForm } from '@/components/organizations/create-organization-form'
+
+export default async function OrganizationsPage() {
+  const userId = await getCurrentUserId()
+
+  if (userId === 'anonymous') {
+    redirect('/auth/login')
+  }
+
+  const memberships = await getUserOrganizations(userId)
+
+  return (
+    <div className="container mx-auto max-w-4xl py-8 px-4">
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Organizations</h1>
+            <p className="text-muted-foreground mt-2">
+              Share a wallet with your team. Switch workspace in the sidebar to
+              charge your usage to an organization.
+            </p>
+          </div>
+          <Link href="/account" className="text-sm font-medium hover:underline">
+            Back to account
+          </Link>
+        </div>
+
+        {/* Organizations */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Your Organizations</h2>
+          </div>
+          <div className="p-6 space-y-2">
+            {memberships.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                You are not a member of any organization
+              </p>
+            )}
+            {memberships.map(({ organization, role }) => (
+              <Link
+                key={organization.id}
+                href={`/account/organizations/${organization.id}`}
+                className="flex items-center justify-between gap-4 p-3 border rounded-lg hover:bg-muted"
+              >
+                <span className="font-medium">{organization.name}</span>
+                <span className="text-sm text-muted-foreground">{role}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {/* Create */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">New Organization</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              You become its owner. Its wallet starts empty.
+            </p>
+          </div>
+          <div className="p-6">
+            <CreateOrganizationForm />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,30 @@
+import Link from 'next/link'
 import { redirect } from 'next/navigation'
 
 import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import { getAutoRechargeSettings } from '@/lib/pricing/auto-recharge-service'
 import { getUserBalanceRecord } from '@/lib/pricing/balance-service'
 import { formatCost } from '@/lib/pricing/format'
+import {
+  DEFAULT_WARNING_THRESHOLD,
+  getSpendingLimits,
+  getSpendingTotals
+} from '@/lib/pricing/spending-limit-service'
+import {
+  getSubscriptionPlan,
+  getSubscriptionPlans,
+  getUserSubscription,
+  isSubscriptionLive
+} from '@/lib/pricing/subscription-service'
 import { getTransactionStats } from '@/lib/pricing/transaction-service'
 import { getStripePublishableKey } from '@/lib/stripe/stripe-client'
 
 import { AddBalanceDialog } from '@/components/balance/add-balance-dialog'
+import { AutoRechargeSettings } from '@/components/balance/auto-recharge-settings'
+import { RedeemPromoCode } from '@/components/balance/redeem-promo-code'
+import { SpendingLimitsForm } from '@/components/balance/spending-limits-form'
+import { StatementDownload } from '@/components/balance/statement-download'
+import { SubscriptionCard } from '@/components/balance/subscription-card'
 import { TransactionHistory } from '@/components/balance/transaction-history'
 
 export default async function AccountPage() {
@@ -19,6 +37,24 @@ export default async function AccountPage() {
   const balanceRecord = await getUserBalanceRecord(userId)
   const stats = await getTransactionStats(userId)
   const stripePublishableKey = getStripePublishableKey()
+  const [
+    subscription,
+    subscriptionPlans,
+    spendingLimits,
+    spendingTotals,
+    autoRecharge
+  ] = await Promise.all([
+    getUserSubscription(userId),
+    getSubscriptionPlans(),
+    getSpendingLimits(userId),
+    getSpendingTotals(userId),
+    getAutoRechargeSettings(userId)
+  ])
+  const liveSubscription =
+    subscription && isSubscriptionLive(subscription) ? subscription : null
+  const subscriptionPlan = liveSubscription
+    ? await getSubscriptionPlan(liveSubscription.subscriptionPlanId)
+    : null
 
   if (!balanceRecord) {
     return (
@@ -37,11 +73,29 @@ export default async function AccountPage() {
     <div className="container mx-auto max-w-6xl py-8 px-4">
       <div className="space-y-8">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold tracking-tight">Account Balance</h1>
-          <p className="text-muted-foreground mt-2">
-            Manage your balance and view transaction history
-          </p>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">
+              Account Balance
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              Manage your balance and view transaction history
+            </p>
+          </div>
+          <div className="flex gap-4">
+            <Link
+              href="/account/usage"
+              className="text-sm font-medium hover:underline"
+            >
+              View usage analytics
+            </Link>
+            <Link
+              href="/account/organizations"
+              className="text-sm font-medium hover:underline"
+            >
+              Organizations
+            </Link>
+          </div>
         </div>
 
         {/* Balance Overview */}
@@ -99,6 +153,118 @@ export default async function AccountPage() {
           </div>
         </div>
 
+        {/* Subscription */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Subscription</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Monthly credits are spent before purchased balance
+            </p>
+          </div>
+          <div className="p-6">
+            <SubscriptionCard
+              currency={balanceRecord.currency}
+              subscription={
+                liveSubscription
+                  ? {
+                      planName:
+                        subscriptionPlan?.name ??
+                        liveSubscription.subscriptionPlanId,
+                      status: liveSubscription.status,
+                      currentPeriodEnd:
+                        liveSubscription.currentPeriodEnd?.toISOString(),
+                      cancelAtPeriodEnd: liveSubscription.cancelAtPeriodEnd
+                    }
+                  : undefined
+              }
+              allowanceBalance={balanceRecord.allowanceBalance ?? 0}
+              allowanceExpiresAt={balanceRecord.allowanceExpiresAt?.toISOString()}
+              plans={subscriptionPlans.map(plan => ({
+                id: plan.id,
+                name: plan.name,
+                description: plan.description,
+                monthlyPrice: plan.monthlyPrice,
+                monthlyAllowance: plan.monthlyAllowance
+              }))}
+            />
+          </div>
+        </div>
+
+        {/* Promo Code */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Promo Code</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Redeem a promo code or voucher for balance credit
+            </p>
+          </div>
+          <div className="p-6">
+            <RedeemPromoCode currency={balanceRecord.currency} />
+          </div>
+        </div>
+
+        {/* Automatic Top-Up */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Automatic Top-Up</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Charge your saved card when your balance runs low
+            </p>
+          </div>
+          <div className="p-6">
+            <AutoRechargeSettings
+              currency={balanceRecord.currency}
+              enabled={autoRecharge?.enabled ?? false}
+              threshold={autoRecharge?.threshold}
+              amount={autoRecharge?.amount}
+              paymentMethodLabel={
+                autoRecharge?.hasPaymentMethod
+                  ? autoRecharge.paymentMethodLabel
+                  : undefined
+              }
+              lastFailureMessage={autoRecharge?.lastFailureMessage}
+              lastFailedAt={autoRecharge?.lastFailedAt?.toISOString()}
+            />
+          </div>
+        </div>
+
+        {/* Spending Limits */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Spending Limits</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Requests that would go over a limit are refused. Requests
+              estimated above the confirmation amount are sent only after you
+              confirm. Leave a field empty to remove it.
+            </p>
+          </div>
+          <div className="p-6">
+            <SpendingLimitsForm
+              currency={balanceRecord.currency}
+              limits={
+                spendingLimits ?? {
+                  warningThreshold: DEFAULT_WARNING_THRESHOLD
+                }
+              }
+              totals={spendingTotals ?? undefined}
+            />
+          </div>
+        </div>
+
+        {/* Statements */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Statements</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Monthly statement of deposits, usage by model and refunds.
+              Receipts for deposits are in the transaction history below.
+            </p>
+          </div>
+          <div className="p-6">
+            <StatementDownload />
+          </div>
+        </div>
+
         {/* Transaction History */}
         <div className="rounded-lg border bg-card">
           <div className="border-b p-6">
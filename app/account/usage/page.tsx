@@ -0,0 +1,220 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { getChat } from '@/lib/actions/chat'
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import { getUserBalanceRecord } from '@/lib/pricing/balance-service'
+import { formatCost, formatTokens } from '@/lib/pricing/format'
+import {
+  formatUsageDateRange,
+  getDefaultUsageDateRange,
+  parseUsageDateRange,
+  summarizeUsage
+} from '@/lib/pricing/usage-analytics'
+import { getUserUsageInRange } from '@/lib/pricing/usage-tracking'
+
+import {
+  DailySpendChart,
+  ModelTokensChart
+} from '@/components/usage/usage-charts'
+import { UsageRangePicker } from '@/components/usage/usage-range-picker'
+
+export default async function UsagePage(props: {
+  searchParams: Promise<{ from?: string; to?: string }>
+}) {
+  const userId = await getCurrentUserId()
+
+  if (userId === 'anonymous') {
+    redirect('/auth/login')
+  }
+
+  const { from, to } = await props.searchParams
+  const requestedRange = parseUsageDateRange(from, to)
+  const rangeError = 'error' in requestedRange ? requestedRange.error : null
+  const range =
+    'error' in requestedRange ? getDefaultUsageDateRange() : requestedRange
+
+  const [balanceRecord, records] = await Promise.all([
+    getUserBalanceRecord(userId),
+    getUserUsageInRange(userId, range.startDate, range.endDate)
+  ])
+  const currency = balanceRecord?.currency || 'USD'
+  const summary = summarizeUsage(records, range)
+  const { from: rangeFrom, to: rangeTo } = formatUsageDateRange(range)
+
+  const chatTitles = new Map(
+    await Promise.all(
+      summary.topChats.map(async chat => {
+        const savedChat = await getChat(chat.chatId, userId).catch(() => null)
+        return [chat.chatId, savedChat?.title || 'Untitled chat'] as const
+      })
+    )
+  )
+
+  return (
+    <div className="container mx-auto max-w-6xl py-8 px-4">
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Usage</h1>
+            <p className="text-muted-foreground mt-2">
+              Spend and tokens by day and model
+            </p>
+          </div>
+          <UsageRangePicker from={rangeFrom} to={rangeTo} />
+        </div>
+
+        {rangeError && (
+          <p className="text-sm text-red-600">
+            {rangeError}. Showing the last 30 days.
+          </p>
+        )}
+
+        {/* Totals */}
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <div className="rounded-lg border bg-card p-6">
+            <div className="text-sm font-medium text-muted-foreground">
+              Spend
+            </div>
+            <div className="mt-2 text-2xl font-bold">
+              {formatCost(summary.totalCost, currency)}
+            </div>
+          </div>
+          <div className="rounded-lg border bg-card p-6">
+            <div className="text-sm font-medium text-muted-foreground">
+              Requests
+            </div>
+            <div className="mt-2 text-2xl font-bold">
+              {formatTokens(summary.totalRequests)}
+            </div>
+            <div className="mt-2 text-xs text-muted-foreground">
+              {formatTokens(summary.totalCalls)} model and tool calls
+            </div>
+          </div>
+          <div className="rounded-lg border bg-card p-6">
+            <div className="text-sm font-medium text-muted-foreground">
+              Input Tokens
+            </div>
+            <div className="mt-2 text-2xl font-bold">
+              {formatTokens(summary.totalInputTokens)}
+            </div>
+          </div>
+          <div className="rounded-lg border bg-card p-6">
+            <div className="text-sm font-medium text-muted-foreground">
+              Output Tokens
+            </div>
+            <div className="mt-2 text-2xl font-bold">
+              {formatTokens(summary.totalOutputTokens)}
+            </div>
+          </div>
+        </div>
+
+        {/* Charts */}
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="rounded-lg border bg-card p-6">
+            <h2 className="text-xl font-semibold mb-4">Daily Spend</h2>
+            <DailySpendChart daily={summary.daily} currency={currency} />
+          </div>
+          <div className="rounded-lg border bg-card p-6">
+            <h2 className="text-xl font-semibold mb-4">Tokens per Model</h2>
+            <ModelTokensChart
+              daily={summary.daily}
+              models={summary.modelBreakdown.map(model => model.model)}
+            />
+          </div>
+        </div>
+
+        {/* Model Breakdown */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Models</h2>
+          </div>
+          <div className="p-6">
+            {summary.modelBreakdown.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No usage in this period
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="pb-2 font-medium">Model</th>
+                    <th className="pb-2 text-right font-medium">Calls</th>
+                    <th className="pb-2 text-right font-medium">Tokens</th>
+                    <th className="pb-2 text-right font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.modelBreakdown.map(model => (
+                    <tr key={model.model} className="border-b last:border-0">
+                      <td className="py-2 font-mono">{model.model}</td>
+                      <td className="py-2 text-right">
+                        {formatTokens(model.calls)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatTokens(model.tokens)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatCost(model.cost, currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {/* Most Expensive Chats */}
+        <div className="rounded-lg border bg-card">
+          <div className="border-b p-6">
+            <h2 className="text-xl font-semibold">Most Expensive Chats</h2>
+          </div>
+          <div className="p-6">
+            {summary.topChats.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No chats in this period
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="pb-2 font-medium">Chat</th>
+                    <th className="pb-2 text-right font-medium">Requests</th>
+                    <th className="pb-2 text-right font-medium">Tokens</th>
+                    <th className="pb-2 text-right font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.topChats.map(chat => (
+                    <tr key={chat.chatId} className="border-b last:border-0">
+                      <td className="py-2">
+                        <Link
+                          href={`/search/${chat.chatId}`}
+                          className="hover:underline"
+                        >
+                          {chatTitles.get(chat.chatId)}
+                        </Link>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(chat.lastUsedAt).toLocaleString()}
+                        </div>
+                      </td>
+                      <td className="py-2 text-right">{chat.requests}</td>
+                      <td className="py-2 text-right">
+                        {formatTokens(chat.tokens)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatCost(chat.cost, currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { BillingConsole } from '@/components/admin/billing-console'
+
+export default function AdminBillingPage() {
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Billing</h1>
+        <p className="text-muted-foreground">
+          Look up an account&apos;s balance and ledger, refund deposits and post
+          manual adjustments or refunds
+        </p>
+      </div>
+
+      <BillingConsole />
+    </div>
+  )
+}
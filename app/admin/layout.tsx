@@ -33,6 +33,30 @@ export default async function AdminLayout({
               >
                 Pricing
               </a>
+              <a
+                href="/admin/promo-codes"
+                className="text-sm font-medium hover:underline"
+              >
+                Promo Codes
+              </a>
+              <a
+                href="/admin/reconciliation"
+                className="text-sm font-medium hover:underline"
+              >
+                Reconciliation
+              </a>
+              <a
+                href="/admin/stripe-events"
+                className="text-sm font-medium hover:underline"
+              >
+                Stripe Events
+              </a>
+              <a
+                href="/admin/billing"
+                className="text-sm font-medium hover:underline"
+              >
+                Billing
+              </a>
               <a
                 href="/"
                 className="text-sm font-medium hover:underline"
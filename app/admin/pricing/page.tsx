@@ -5,7 +5,6 @@ import { useEffect, useState } from 'react'
 import {
   Activity,
   AlertCircle,
-  Bell,
   CheckCircle2,
   Clock,
   Database,
@@ -17,6 +16,15 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 
+import { AlertRoutingCard } from '@/components/admin/alert-routing-card'
+import { ExchangeRatesTab } from '@/components/admin/exchange-rates-tab'
+import { MarkupPricingTab } from '@/components/admin/markup-pricing-tab'
+import { PricingCatalogTab } from '@/components/admin/pricing-catalog-tab'
+import { PricingReviewTab } from '@/components/admin/pricing-review-tab'
+import { PricingRollbackPanel } from '@/components/admin/pricing-rollback-panel'
+import { PricingScheduleTab } from '@/components/admin/pricing-schedule-tab'
+import { ToolPricingTab } from '@/components/admin/tool-pricing-tab'
+
 interface SystemStatus {
   status: 'healthy' | 'degraded' | 'critical'
   healthScore: number
@@ -65,10 +73,19 @@ interface PricingHistory {
   changePercentInput?: number
   changePercentOutput?: number
   changedBy: string
+  changeSource?: string
   changeReason?: string
+  metadata?: { rollback_to?: string }
   createdAt: string
 }
 
+function formatSyncProgress(progress?: { stage: string, completed?: number, total?: number }) {
+  if (!progress) return ''
+  return progress.total !== undefined
+    ? `, ${progress.stage} ${progress.completed ?? 0}/${progress.total}`
+    : `, ${progress.stage}`
+}
+
 export default function AdminPricingDashboard() {
   const [status, setStatus] = useState<SystemStatus | null>(null)
   const [history, setHistory] = useState<PricingHistory[]>([])
@@ -76,7 +93,7 @@ export default function AdminPricingDashboard() {
   const [syncing, setSyncing] = useState(false)
   const [syncResult, setSyncResult] = useState<any>(null)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'providers' | 'history' | 'config'>('providers')
+  const [activeTab, setActiveTab] = useState<'providers' | 'review' | 'schedule' | 'history' | 'tools' | 'markups' | 'exchange-rates' | 'catalog' | 'config'>('providers')
 
   useEffect(() => {
     fetchStatus()
@@ -123,6 +140,15 @@ export default function AdminPricingDashboard() {
         body: JSON.stringify({ dryRun })
       })
 
+      if (response.status === 409) {
+        const { running } = await response.json()
+        throw new Error(
+          running
+            ? `Sync already running (started ${new Date(running.startedAt).toLocaleString()} by ${running.createdBy}${formatSyncProgress(running.progress)})`
+            : 'Sync already running'
+        )
+      }
+
       if (!response.ok) {
         throw new Error('Sync failed')
       }
@@ -312,6 +338,20 @@ export default function AdminPricingDashboard() {
             >
               Providers
             </Button>
+            <Button
+              variant={activeTab === 'review' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('review')}
+            >
+              Review
+            </Button>
+            <Button
+              variant={activeTab === 'schedule' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('schedule')}
+            >
+              Scheduled
+            </Button>
             <Button
               variant={activeTab === 'history' ? 'default' : 'ghost'}
               size="sm"
@@ -319,6 +359,34 @@ export default function AdminPricingDashboard() {
             >
               Change History
             </Button>
+            <Button
+              variant={activeTab === 'tools' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('tools')}
+            >
+              Tool Pricing
+            </Button>
+            <Button
+              variant={activeTab === 'markups' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('markups')}
+            >
+              Markups
+            </Button>
+            <Button
+              variant={activeTab === 'exchange-rates' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('exchange-rates')}
+            >
+              Exchange Rates
+            </Button>
+            <Button
+              variant={activeTab === 'catalog' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('catalog')}
+            >
+              Catalog
+            </Button>
             <Button
               variant={activeTab === 'config' ? 'default' : 'ghost'}
               size="sm"
@@ -388,123 +456,126 @@ export default function AdminPricingDashboard() {
           </Card>
         )}
 
+        {activeTab === 'review' && <PricingReviewTab />}
+
+        {activeTab === 'schedule' && <PricingScheduleTab />}
+
         {activeTab === 'history' && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Recent Price Changes</CardTitle>
-              <CardDescription>
-                Last 10 pricing updates across all providers
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {history.map(change => (
-                  <div
-                    key={change.id}
-                    className="flex flex-col gap-2 p-4 border rounded-lg"
-                  >
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium">{change.modelId}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {change.providerId} • {new Date(change.createdAt).toLocaleString()}
-                        </p>
+          <div className="space-y-6">
+            <PricingRollbackPanel onRestored={fetchHistory} />
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Price Changes</CardTitle>
+                <CardDescription>
+                  Last 10 pricing updates across all providers
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {history.map(change => (
+                    <div
+                      key={change.id}
+                      className="flex flex-col gap-2 p-4 border rounded-lg"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{change.modelId}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {change.providerId} • {new Date(change.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {change.changeSource === 'pricing-rollback' && (
+                            <Badge variant="outline">Restore</Badge>
+                          )}
+                          {change.changePercentInput && (
+                            <Badge variant={change.changePercentInput > 0 ? 'destructive' : 'default'}>
+                              {change.changePercentInput > 0 ? '+' : ''}{change.changePercentInput.toFixed(1)}%
+                            </Badge>
+                          )}
+                        </div>
                       </div>
-                      <div className="text-right">
-                        {change.changePercentInput && (
-                          <Badge variant={change.changePercentInput > 0 ? 'destructive' : 'default'}>
-                            {change.changePercentInput > 0 ? '+' : ''}{change.changePercentInput.toFixed(1)}%
-                          </Badge>
+                      <div className="text-sm">
+                        <span className="text-muted-foreground">Changed by: </span>
+                        {change.changedBy}
+                        {change.changeReason && (
+                          <span className="text-muted-foreground"> • {change.changeReason}</span>
+                        )}
+                        {change.metadata?.rollback_to && (
+                          <span className="text-muted-foreground">
+                            {' '}• Restored to {new Date(change.metadata.rollback_to).toLocaleString()}
+                          </span>
                         )}
                       </div>
                     </div>
-                    <div className="text-sm">
-                      <span className="text-muted-foreground">Changed by: </span>
-                      {change.changedBy}
-                      {change.changeReason && (
-                        <span className="text-muted-foreground"> • {change.changeReason}</span>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
         )}
 
-        {activeTab === 'config' && (
-          <Card>
-            <CardHeader>
-              <CardTitle>System Configuration</CardTitle>
-              <CardDescription>
-                Current settings for pricing synchronization
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div>
-                <h3 className="font-medium mb-3 flex items-center gap-2">
-                  <Bell className="h-4 w-4" />
-                  Alert Channels
-                </h3>
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between p-3 border rounded">
-                    <span>Slack Notifications</span>
-                    <Badge variant={status?.alerts.slack.enabled ? 'default' : 'secondary'}>
-                      {status?.alerts.slack.enabled ? 'Enabled' : 'Disabled'}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center justify-between p-3 border rounded">
-                    <span>Email Notifications</span>
-                    <Badge variant={status?.alerts.email.enabled ? 'default' : 'secondary'}>
-                      {status?.alerts.email.enabled
-                        ? `${status.alerts.email.recipients} recipients`
-                        : 'Disabled'}
-                    </Badge>
-                  </div>
-                </div>
-              </div>
+        {activeTab === 'tools' && <ToolPricingTab />}
 
-              <div>
-                <h3 className="font-medium mb-3 flex items-center gap-2">
-                  <Clock className="h-4 w-4" />
-                  Sync Schedule
-                </h3>
-                <div className="p-3 border rounded">
-                  <div className="flex items-center justify-between">
-                    <span>Automated Sync</span>
-                    <Badge variant={status?.sync.enabled ? 'default' : 'secondary'}>
-                      {status?.sync.enabled ? status.sync.frequency : 'Disabled'}
-                    </Badge>
-                  </div>
-                  {status?.sync.enabled && (
-                    <p className="text-sm text-muted-foreground mt-2">
-                      Next run: {new Date(status.sync.nextRun).toLocaleString()}
-                    </p>
-                  )}
-                </div>
-              </div>
+        {activeTab === 'markups' && <MarkupPricingTab />}
+
+        {activeTab === 'exchange-rates' && <ExchangeRatesTab />}
+
+        {activeTab === 'catalog' && <PricingCatalogTab />}
 
-              {status?.database.lastSync && (
+        {activeTab === 'config' && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>System Configuration</CardTitle>
+                <CardDescription>
+                  Current settings for pricing synchronization
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
                 <div>
-                  <h3 className="font-medium mb-3">Last Sync</h3>
-                  <div className="p-3 border rounded space-y-1">
-                    <p className="text-sm">
-                      <span className="text-muted-foreground">Time: </span>
-                      {new Date(status.database.lastSync.timestamp).toLocaleString()}
-                    </p>
-                    <p className="text-sm">
-                      <span className="text-muted-foreground">Triggered by: </span>
-                      {status.database.lastSync.triggeredBy}
-                    </p>
-                    <p className="text-sm">
-                      <span className="text-muted-foreground">Source: </span>
-                      {status.database.lastSync.source}
-                    </p>
+                  <h3 className="font-medium mb-3 flex items-center gap-2">
+                    <Clock className="h-4 w-4" />
+                    Sync Schedule
+                  </h3>
+                  <div className="p-3 border rounded">
+                    <div className="flex items-center justify-between">
+                      <span>Automated Sync</span>
+                      <Badge variant={status?.sync.enabled ? 'default' : 'secondary'}>
+                        {status?.sync.enabled ? status.sync.frequency : 'Disabled'}
+                      </Badge>
+                    </div>
+                    {status?.sync.enabled && (
+                      <p className="text-sm text-muted-foreground mt-2">
+                        Next run: {new Date(status.sync.nextRun).toLocaleString()}
+                      </p>
+                    )}
                   </div>
                 </div>
-              )}
-            </CardContent>
-          </Card>
+
+                {status?.database.lastSync && (
+                  <div>
+                    <h3 className="font-medium mb-3">Last Sync</h3>
+                    <div className="p-3 border rounded space-y-1">
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Time: </span>
+                        {new Date(status.database.lastSync.timestamp).toLocaleString()}
+                      </p>
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Triggered by: </span>
+                        {status.database.lastSync.triggeredBy}
+                      </p>
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Source: </span>
+                        {status.database.lastSync.source}
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            <AlertRoutingCard />
+          </div>
         )}
       </div>
     </div>
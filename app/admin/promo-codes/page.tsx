@@ -0,0 +1,16 @@
+import { PromoCodesPanel } from '@/components/admin/promo-codes-panel'
+
+export default function AdminPromoCodesPage() {
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Promo Codes</h1>
+        <p className="text-muted-foreground">
+          Create promo codes and credit vouchers for events and beta users
+        </p>
+      </div>
+
+      <PromoCodesPanel />
+    </div>
+  )
+}
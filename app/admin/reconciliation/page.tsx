@@ -0,0 +1,17 @@
+import { ReconciliationPanel } from '@/components/admin/reconciliation-panel'
+
+export default function AdminReconciliationPage() {
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Billing Reconciliation</h1>
+        <p className="text-muted-foreground">
+          Review charges, usage records and balances that do not match, and
+          apply corrective adjustments
+        </p>
+      </div>
+
+      <ReconciliationPanel />
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { StripeEventsPanel } from '@/components/admin/stripe-events-panel'
+
+export default function AdminStripeEventsPage() {
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Stripe Events</h1>
+        <p className="text-muted-foreground">
+          Review the webhook events received from Stripe, replay the ones that
+          failed, and follow disputed deposits
+        </p>
+      </div>
+
+      <StripeEventsPanel />
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+/**
+ * GET /api/admin/billing
+ * POST /api/admin/billing
+ *
+ * Search billing accounts or view one account's balance, ledger and admin
+ * audit trail; refund a deposit through Stripe or post a manual adjustment
+ * or refund transaction
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  getAdminAuditLog,
+  getBillingAccount,
+  MANUAL_TRANSACTION_TYPES,
+  postManualTransaction,
+  refundDeposit,
+  searchBillingAccounts
+} from '@/lib/pricing/admin-billing-service'
+import { getUserTransactions } from '@/lib/pricing/transaction-service'
+
+const LEDGER_LIMIT = 100
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async req => {
+    try {
+      const params = req.nextUrl.searchParams
+      const userId = params.get('userId')
+
+      if (!userId) {
+        const query = params.get('q')?.trim()
+
+        if (!query) {
+          return NextResponse.json({ accounts: [] })
+        }
+
+        return NextResponse.json({
+          accounts: await searchBillingAccounts(query)
+        })
+      }
+
+      const account = await getBillingAccount(userId)
+
+      if (!account) {
+        return NextResponse.json(
+          { error: 'Account not found', details: userId },
+          { status: 404 }
+        )
+      }
+
+      const [transactions, audit] = await Promise.all([
+        getUserTransactions(
+          userId,
+          LEDGER_LIMIT,
+          0,
+          undefined,
+          undefined,
+          true
+        ),
+        getAdminAuditLog(userId)
+      ])
+
+      return NextResponse.json({ account, transactions, audit })
+    } catch (error) {
+      console.error('[Admin API] Billing account error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch billing account',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { userId, action, transactionId, type, amount, reason } =
+        await req.json()
+
+      if (typeof userId !== 'string' || !userId) {
+        return NextResponse.json(
+          { error: 'userId is required' },
+          { status: 400 }
+        )
+      }
+
+      if (amount !== undefined && typeof amount !== 'number') {
+        return NextResponse.json(
+          { error: 'amount must be a number' },
+          { status: 400 }
+        )
+      }
+
+      const actor = { id: user.id, email: user.email }
+      let result
+
+      if (action === 'stripe_refund') {
+        if (typeof transactionId !== 'string') {
+          return NextResponse.json(
+            { error: 'transactionId is required' },
+            { status: 400 }
+          )
+        }
+
+        result = await refundDeposit(
+          actor,
+          userId,
+          transactionId,
+          amount,
+          reason
+        )
+      } else if (action === 'manual') {
+        if (!MANUAL_TRANSACTION_TYPES.includes(type)) {
+          return NextResponse.json(
+            { error: 'Invalid transaction type', details: type },
+            { status: 400 }
+          )
+        }
+
+        if (amount === undefined) {
+          return NextResponse.json(
+            { error: 'amount is required' },
+            { status: 400 }
+          )
+        }
+
+        result = await postManualTransaction(
+          actor,
+          userId,
+          type,
+          amount,
+          reason
+        )
+      } else {
+        return NextResponse.json(
+          { error: 'Invalid action', details: action },
+          { status: 400 }
+        )
+      }
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: 'Billing action failed', details: result.error },
+          { status: 400 }
+        )
+      }
+
+      console.log(`[Admin API] Billing ${action} on ${userId} by ${user.email}`)
+
+      return NextResponse.json(result)
+    } catch (error) {
+      console.error('[Admin API] Billing action error:', error)
+      return NextResponse.json(
+        {
+          error: 'Billing action failed',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
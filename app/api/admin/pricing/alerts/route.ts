@@ -0,0 +1,141 @@
+/**
+ * GET /api/admin/pricing/alerts
+ * PUT /api/admin/pricing/alerts
+ * DELETE /api/admin/pricing/alerts?eventType=<type>
+ *
+ * List the alert channels and which channels each event type is routed to;
+ * set an event type's channels, or reset it to every configured channel
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  ALERT_EVENT_TYPES,
+  createAlertService,
+  deleteAlertRoute,
+  getAlertRoutes,
+  isAlertEventType,
+  setAlertRoute,
+  validateAlertRoute
+} from '@/lib/pricing/alert-service'
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async () => {
+    try {
+      const channels = createAlertService().getChannels()
+      const routes = await getAlertRoutes()
+
+      if (!routes) {
+        return NextResponse.json(
+          { error: 'Failed to fetch alert routes' },
+          { status: 500 }
+        )
+      }
+
+      return NextResponse.json({
+        channels,
+        routes: ALERT_EVENT_TYPES.map(eventType => {
+          const route = routes.find(r => r.eventType === eventType)
+          return {
+            eventType,
+            // Without a route, an event goes to every configured channel
+            channels: route
+              ? route.channels
+              : channels.filter(c => c.configured).map(c => c.id),
+            isDefault: !route,
+            updatedBy: route?.updatedBy,
+            updatedAt: route?.updatedAt
+          }
+        })
+      })
+    } catch (error) {
+      console.error('[Admin API] Alert routes error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch alert routes',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function PUT(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { eventType, channels } = await req.json()
+
+      const validationError = validateAlertRoute(eventType, channels)
+      if (validationError || !isAlertEventType(eventType)) {
+        return NextResponse.json(
+          { error: 'Invalid alert route', details: validationError },
+          { status: 400 }
+        )
+      }
+
+      const success = await setAlertRoute(eventType, channels, user.email)
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to save alert route' },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Alert route ${eventType} = [${channels.join(', ')}] set by ${user.email}`
+      )
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('[Admin API] Alert route update error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to save alert route',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function DELETE(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { searchParams } = new URL(req.url)
+      const eventType = searchParams.get('eventType')
+
+      if (!isAlertEventType(eventType)) {
+        return NextResponse.json(
+          { error: 'Missing or unknown eventType' },
+          { status: 400 }
+        )
+      }
+
+      const success = await deleteAlertRoute(eventType)
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to reset alert route' },
+          { status: 500 }
+        )
+      }
+
+      console.log(`[Admin API] Alert route ${eventType} reset by ${user.email}`)
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('[Admin API] Alert route reset error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to reset alert route',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
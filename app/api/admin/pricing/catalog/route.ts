@@ -0,0 +1,161 @@
+/**
+ * GET /api/admin/pricing/catalog?format=json|csv
+ * POST /api/admin/pricing/catalog
+ *
+ * Download the pricing table as a catalog file; preview (dry run) or apply
+ * an imported catalog file
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  applyCatalogImport,
+  getPricingCatalog,
+  parsePricingCatalog,
+  previewCatalogImport,
+  pricingCatalogToCsv,
+  pricingCatalogToJson
+} from '@/lib/pricing/catalog-service'
+
+const MAX_CATALOG_SIZE = 10 * 1024 * 1024 // LiteLLM's catalog is ~1MB
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async req => {
+    const format = req.nextUrl.searchParams.get('format') || 'json'
+
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { error: 'Invalid format', details: format },
+        { status: 400 }
+      )
+    }
+
+    const pricing = await getPricingCatalog()
+
+    if (!pricing) {
+      return NextResponse.json(
+        { error: 'Failed to export pricing catalog' },
+        { status: 500 }
+      )
+    }
+
+    const date = new Date().toISOString().slice(0, 10)
+
+    return new NextResponse(
+      format === 'csv'
+        ? pricingCatalogToCsv(pricing)
+        : pricingCatalogToJson(pricing),
+      {
+        status: 200,
+        headers: {
+          'content-type':
+            format === 'csv'
+              ? 'text/csv; charset=utf-8'
+              : 'application/json; charset=utf-8',
+          'content-disposition': `attachment; filename="model-pricing-${date}.${format}"`
+        }
+      }
+    )
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const {
+        content,
+        fileName,
+        apply = false,
+        force = false
+      } = await req.json()
+
+      if (typeof content !== 'string' || !content.trim()) {
+        return NextResponse.json(
+          { error: 'content is required' },
+          { status: 400 }
+        )
+      }
+
+      if (content.length > MAX_CATALOG_SIZE) {
+        return NextResponse.json(
+          { error: 'Catalog file is too large' },
+          { status: 413 }
+        )
+      }
+
+      const catalog = parsePricingCatalog(content)
+      const summary = {
+        layout: catalog.layout,
+        models: catalog.pricing.length,
+        skipped: catalog.skipped,
+        errors: catalog.errors
+      }
+
+      if (catalog.pricing.length === 0) {
+        return NextResponse.json(
+          {
+            error: 'No pricing found in catalog',
+            details: catalog.errors.join('; ') || undefined,
+            catalog: summary
+          },
+          { status: 400 }
+        )
+      }
+
+      if (!apply) {
+        return NextResponse.json({
+          catalog: summary,
+          preview: await previewCatalogImport(catalog.pricing)
+        })
+      }
+
+      if (catalog.errors.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Catalog has malformed entries',
+            details: catalog.errors.join('; '),
+            catalog: summary
+          },
+          { status: 400 }
+        )
+      }
+
+      const name =
+        typeof fileName === 'string' && fileName ? fileName : 'catalog'
+      const result = await applyCatalogImport(
+        { id: user.id, email: user.email },
+        catalog.pricing,
+        name,
+        force === true
+      )
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            error: 'Catalog import failed',
+            details: result.error,
+            catalog: summary,
+            preview: result.preview
+          },
+          { status: 400 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Pricing catalog ${name} imported by ${user.email}: ${result.applied} models applied`
+      )
+
+      return NextResponse.json({ catalog: summary, ...result })
+    } catch (error) {
+      console.error('[Admin API] Pricing catalog import error:', error)
+      return NextResponse.json(
+        {
+          error: 'Catalog import failed',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
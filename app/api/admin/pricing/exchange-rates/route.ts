@@ -0,0 +1,136 @@
+/**
+ * GET /api/admin/pricing/exchange-rates
+ * PUT /api/admin/pricing/exchange-rates
+ * DELETE /api/admin/pricing/exchange-rates?currency=<code>
+ *
+ * List the exchange rates in use and the admin-entered rates; set and remove
+ * admin-entered rates
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import { isSupportedCurrency } from '@/lib/pricing/currency-service'
+import {
+  deleteManualExchangeRate,
+  getExchangeRates,
+  getManualExchangeRates,
+  setManualExchangeRate,
+  validateExchangeRate
+} from '@/lib/pricing/exchange-rate-service'
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async () => {
+    try {
+      const [rates, manualRates] = await Promise.all([
+        getExchangeRates(),
+        getManualExchangeRates()
+      ])
+
+      return NextResponse.json({
+        configuredSource: process.env.EXCHANGE_RATE_SOURCE || 'static',
+        source: rates.source,
+        asOf: rates.asOf,
+        rates: rates.rates,
+        manualRates: manualRates || []
+      })
+    } catch (error) {
+      console.error('[Admin API] Exchange rates error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch exchange rates',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function PUT(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { currency, ratePerUsd } = await req.json()
+
+      const validationError =
+        typeof currency !== 'string' || typeof ratePerUsd !== 'number'
+          ? 'Expected currency and a numeric ratePerUsd'
+          : validateExchangeRate(currency, ratePerUsd)
+
+      if (validationError || !isSupportedCurrency(currency)) {
+        return NextResponse.json(
+          { error: 'Invalid exchange rate', details: validationError },
+          { status: 400 }
+        )
+      }
+
+      const success = await setManualExchangeRate(
+        currency,
+        ratePerUsd,
+        user.email
+      )
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to save exchange rate' },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Exchange rate ${currency} = ${ratePerUsd} per USD set by ${user.email}`
+      )
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('[Admin API] Exchange rate update error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to save exchange rate',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function DELETE(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { searchParams } = new URL(req.url)
+      const currency = searchParams.get('currency')
+
+      if (!currency || !isSupportedCurrency(currency)) {
+        return NextResponse.json(
+          { error: 'Missing or unsupported currency' },
+          { status: 400 }
+        )
+      }
+
+      const success = await deleteManualExchangeRate(currency)
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to delete exchange rate' },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Exchange rate ${currency} deleted by ${user.email}`
+      )
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('[Admin API] Exchange rate delete error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to delete exchange rate',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
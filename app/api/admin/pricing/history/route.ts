@@ -2,6 +2,7 @@
  * GET /api/admin/pricing/history
  *
  * Get pricing change history
+ * Filter by changeSource=pricing-rollback to list restores from the rollback action
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -19,6 +20,7 @@ export async function GET(request: NextRequest) {
       const offset = parseInt(url.searchParams.get('offset') || '0')
       const startDate = url.searchParams.get('startDate')
       const endDate = url.searchParams.get('endDate')
+      const changeSource = url.searchParams.get('changeSource')
 
       const supabase = createAdminClient()
 
@@ -45,6 +47,10 @@ export async function GET(request: NextRequest) {
         query = query.lte('created_at', endDate)
       }
 
+      if (changeSource) {
+        query = query.eq('change_source', changeSource)
+      }
+
       // Pagination
       query = query.range(offset, offset + limit - 1)
 
@@ -79,6 +85,7 @@ export async function GET(request: NextRequest) {
 
       if (modelId) statsQuery.eq('model_id', modelId)
       if (providerId) statsQuery.eq('provider_id', providerId)
+      if (changeSource) statsQuery.eq('change_source', changeSource)
 
       const { count: totalCount } = await statsQuery
 
@@ -94,7 +101,8 @@ export async function GET(request: NextRequest) {
           modelId,
           providerId,
           startDate,
-          endDate
+          endDate,
+          changeSource
         }
       })
     } catch (error) {
@@ -0,0 +1,142 @@
+/**
+ * GET /api/admin/pricing/markups
+ * POST /api/admin/pricing/markups
+ * DELETE /api/admin/pricing/markups?id=<ruleId>
+ *
+ * List pricing plans, markup rules and margins; create, update and delete
+ * markup rules
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  deleteMarkupRule,
+  getAllMarkupRules,
+  getAllPricingPlans,
+  getMarginReport,
+  upsertMarkupRule,
+  validateMarkupRule
+} from '@/lib/pricing/pricing-policy-service'
+import { MarkupRule } from '@/lib/pricing/types'
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async req => {
+    try {
+      const { searchParams } = new URL(req.url)
+      const days = parseInt(searchParams.get('days') || '30')
+      const since = new Date(
+        Date.now() - (Number.isFinite(days) && days > 0 ? days : 30) * 86400000
+      )
+
+      const [plans, rules, margin] = await Promise.all([
+        getAllPricingPlans(),
+        getAllMarkupRules(),
+        getMarginReport(since)
+      ])
+
+      return NextResponse.json({ plans, rules, margin })
+    } catch (error) {
+      console.error('[Admin API] Markup pricing error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch markup pricing',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const body = await req.json()
+      const rule: MarkupRule = {
+        id: typeof body.id === 'string' ? body.id : undefined,
+        planId: body.planId || null,
+        providerId: body.providerId || null,
+        modelId: body.modelId || null,
+        markupType: body.markupType,
+        markupValue: body.markupValue,
+        description: body.description || undefined,
+        isActive: body.isActive !== false
+      }
+
+      const validationError =
+        typeof rule.markupValue !== 'number'
+          ? 'Markup value must be a number'
+          : validateMarkupRule(rule)
+
+      if (validationError) {
+        return NextResponse.json(
+          { error: 'Invalid markup rule', details: validationError },
+          { status: 400 }
+        )
+      }
+
+      const success = await upsertMarkupRule(rule)
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to save markup rule' },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Markup ${rule.planId ?? '*'}/${rule.providerId ?? '*'}/${rule.modelId ?? '*'} set to ${rule.markupValue} (${rule.markupType}) by ${user.email}`
+      )
+
+      return NextResponse.json({ success: true, rule })
+    } catch (error) {
+      console.error('[Admin API] Markup rule update error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to save markup rule',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function DELETE(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { searchParams } = new URL(req.url)
+      const ruleId = searchParams.get('id')
+
+      if (!ruleId) {
+        return NextResponse.json(
+          { error: 'Missing markup rule id' },
+          { status: 400 }
+        )
+      }
+
+      const success = await deleteMarkupRule(ruleId)
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to delete markup rule' },
+          { status: 500 }
+        )
+      }
+
+      console.log(`[Admin API] Markup rule ${ruleId} deleted by ${user.email}`)
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('[Admin API] Markup rule delete error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to delete markup rule',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
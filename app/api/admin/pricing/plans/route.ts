@@ -0,0 +1,62 @@
+/**
+ * PUT /api/admin/pricing/plans
+ *
+ * Update the minimum charge per request of a pricing plan
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import { updatePricingPlan } from '@/lib/pricing/pricing-policy-service'
+
+export async function PUT(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const body = await req.json()
+      const { planId, minChargePerRequest } = body
+
+      if (
+        typeof planId !== 'string' ||
+        planId.length === 0 ||
+        typeof minChargePerRequest !== 'number' ||
+        !Number.isFinite(minChargePerRequest) ||
+        minChargePerRequest < 0
+      ) {
+        return NextResponse.json(
+          {
+            error: 'Invalid pricing plan',
+            details: 'Expected planId and a non-negative minChargePerRequest'
+          },
+          { status: 400 }
+        )
+      }
+
+      const success = await updatePricingPlan(planId, minChargePerRequest)
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to update pricing plan' },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Minimum charge of plan ${planId} set to ${minChargePerRequest} by ${user.email}`
+      )
+
+      return NextResponse.json({
+        success: true,
+        plan: { planId, minChargePerRequest }
+      })
+    } catch (error) {
+      console.error('[Admin API] Pricing plan update error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to update pricing plan',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
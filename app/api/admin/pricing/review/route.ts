@@ -0,0 +1,120 @@
+/**
+ * GET /api/admin/pricing/review?status=pending
+ * POST /api/admin/pricing/review
+ *
+ * List pricing changes queued by the sync for review; approve (optionally
+ * with edited prices) or reject one
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  approvePricingChange,
+  getPendingPricingChanges,
+  PendingPricingChangeStatus,
+  PricingEdits,
+  rejectPricingChange
+} from '@/lib/pricing/pricing-review-service'
+
+const STATUSES: PendingPricingChangeStatus[] = [
+  'pending',
+  'approved',
+  'rejected',
+  'superseded'
+]
+
+const EDITABLE_PRICES: (keyof PricingEdits)[] = [
+  'inputPricePer1kTokens',
+  'outputPricePer1kTokens',
+  'cachedInputPricePer1kTokens',
+  'cacheWritePricePer1kTokens',
+  'reasoningPricePer1kTokens',
+  'imageInputPricePer1kTokens'
+]
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async req => {
+    const status = (req.nextUrl.searchParams.get('status') ||
+      'pending') as PendingPricingChangeStatus
+
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: status },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      changes: await getPendingPricingChanges(status)
+    })
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { id, action, edits = {}, note } = await req.json()
+
+      if (typeof id !== 'string' || !id) {
+        return NextResponse.json({ error: 'id is required' }, { status: 400 })
+      }
+
+      if (note !== undefined && typeof note !== 'string') {
+        return NextResponse.json(
+          { error: 'note must be a string' },
+          { status: 400 }
+        )
+      }
+
+      const invalidEdit = Object.keys(edits).find(
+        key =>
+          !EDITABLE_PRICES.includes(key as keyof PricingEdits) ||
+          typeof edits[key] !== 'number'
+      )
+
+      if (invalidEdit) {
+        return NextResponse.json(
+          { error: 'Invalid price edit', details: invalidEdit },
+          { status: 400 }
+        )
+      }
+
+      const actor = { id: user.id, email: user.email }
+      let result
+
+      if (action === 'approve') {
+        result = await approvePricingChange(actor, id, edits, note)
+      } else if (action === 'reject') {
+        result = await rejectPricingChange(actor, id, note)
+      } else {
+        return NextResponse.json(
+          { error: 'Invalid action', details: action },
+          { status: 400 }
+        )
+      }
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: 'Review failed', details: result.error },
+          { status: 400 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Pricing change ${id} ${action === 'approve' ? 'approved' : 'rejected'} by ${user.email}`
+      )
+
+      return NextResponse.json(result)
+    } catch (error) {
+      console.error('[Admin API] Pricing review error:', error)
+      return NextResponse.json(
+        {
+          error: 'Review failed',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
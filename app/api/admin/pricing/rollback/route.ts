@@ -0,0 +1,118 @@
+/**
+ * GET /api/admin/pricing/rollback
+ * POST /api/admin/pricing/rollback
+ *
+ * List recent sync runs that changed pricing, or preview and restore one
+ * model, one provider or the whole catalog to its pricing at a chosen time
+ * or just before a sync run
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  applyPricingRollback,
+  getPricingSyncRuns,
+  getSyncRunRollbackTime,
+  previewPricingRollback
+} from '@/lib/pricing/pricing-rollback-service'
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async () => {
+    return NextResponse.json({ syncRuns: await getPricingSyncRuns() })
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const body = await req.json()
+      const { providerId, modelId, at, syncRun, apply = false, note } = body
+
+      if (
+        (providerId !== undefined && typeof providerId !== 'string') ||
+        (modelId !== undefined && typeof modelId !== 'string')
+      ) {
+        return NextResponse.json(
+          { error: 'providerId and modelId must be strings' },
+          { status: 400 }
+        )
+      }
+
+      if (modelId && !providerId) {
+        return NextResponse.json(
+          { error: 'providerId is required with modelId' },
+          { status: 400 }
+        )
+      }
+
+      if ((typeof at === 'string') === (typeof syncRun === 'string')) {
+        return NextResponse.json(
+          { error: 'Either at or syncRun is required' },
+          { status: 400 }
+        )
+      }
+
+      if (note !== undefined && typeof note !== 'string') {
+        return NextResponse.json(
+          { error: 'note must be a string' },
+          { status: 400 }
+        )
+      }
+
+      const time = at ? new Date(at) : getSyncRunRollbackTime(new Date(syncRun))
+
+      if (isNaN(time.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid date', details: at ?? syncRun },
+          { status: 400 }
+        )
+      }
+
+      if (time > new Date()) {
+        return NextResponse.json(
+          { error: 'Rollback time must be in the past' },
+          { status: 400 }
+        )
+      }
+
+      const scope = {
+        providerId: providerId || undefined,
+        modelId: modelId || undefined
+      }
+
+      if (!apply) {
+        return NextResponse.json(await previewPricingRollback(scope, time))
+      }
+
+      const result = await applyPricingRollback(
+        { id: user.id, email: user.email },
+        scope,
+        time,
+        note || undefined
+      )
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: 'Failed to roll back pricing', details: result.error },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Pricing for ${scope.providerId ?? 'all providers'}${scope.modelId ? `:${scope.modelId}` : ''} rolled back to ${time.toISOString()} by ${user.email}`
+      )
+
+      return NextResponse.json(result)
+    } catch (error) {
+      console.error('[Admin API] Pricing rollback error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to roll back pricing',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -0,0 +1,174 @@
+/**
+ * GET /api/admin/pricing/schedule
+ * POST /api/admin/pricing/schedule
+ * DELETE /api/admin/pricing/schedule?id=...
+ *
+ * List prices scheduled to take effect in the future, schedule a price for
+ * a model, or cancel a scheduled price before it takes effect
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  cancelScheduledPricing,
+  getScheduledPricing,
+  PRICING_SCHEDULE_SOURCE,
+  schedulePricingVersion
+} from '@/lib/pricing/pricing-schedule-service'
+import { ModelPricing } from '@/lib/pricing/types'
+
+const OPTIONAL_PRICES = [
+  'cachedInputPricePer1kTokens',
+  'cacheWritePricePer1kTokens',
+  'reasoningPricePer1kTokens',
+  'imageInputPricePer1kTokens'
+] as const
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async () => {
+    return NextResponse.json({ scheduled: await getScheduledPricing() })
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const body = await req.json()
+      const {
+        modelId,
+        providerId,
+        inputPricePer1kTokens,
+        outputPricePer1kTokens,
+        effectiveFrom,
+        effectiveUntil,
+        note
+      } = body
+
+      if (
+        typeof modelId !== 'string' ||
+        !modelId ||
+        typeof providerId !== 'string' ||
+        !providerId
+      ) {
+        return NextResponse.json(
+          { error: 'modelId and providerId are required' },
+          { status: 400 }
+        )
+      }
+
+      if (
+        typeof inputPricePer1kTokens !== 'number' ||
+        typeof outputPricePer1kTokens !== 'number'
+      ) {
+        return NextResponse.json(
+          { error: 'Input and output prices must be numbers' },
+          { status: 400 }
+        )
+      }
+
+      const invalidPrice = OPTIONAL_PRICES.find(
+        key => body[key] !== undefined && typeof body[key] !== 'number'
+      )
+
+      if (invalidPrice) {
+        return NextResponse.json(
+          { error: 'Invalid price', details: invalidPrice },
+          { status: 400 }
+        )
+      }
+
+      if (typeof effectiveFrom !== 'string') {
+        return NextResponse.json(
+          { error: 'effectiveFrom is required' },
+          { status: 400 }
+        )
+      }
+
+      if (effectiveUntil !== undefined && typeof effectiveUntil !== 'string') {
+        return NextResponse.json(
+          { error: 'effectiveUntil must be a date string' },
+          { status: 400 }
+        )
+      }
+
+      if (note !== undefined && typeof note !== 'string') {
+        return NextResponse.json(
+          { error: 'note must be a string' },
+          { status: 400 }
+        )
+      }
+
+      const pricing: ModelPricing = {
+        modelId,
+        providerId,
+        inputPricePer1kTokens,
+        outputPricePer1kTokens
+      }
+      for (const key of OPTIONAL_PRICES) {
+        pricing[key] = body[key]
+      }
+
+      const result = await schedulePricingVersion(
+        pricing,
+        new Date(effectiveFrom),
+        effectiveUntil ? new Date(effectiveUntil) : undefined,
+        {
+          changedBy: `admin:${user.email}`,
+          source: PRICING_SCHEDULE_SOURCE,
+          reason: note || undefined
+        }
+      )
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: 'Failed to schedule pricing', details: result.error },
+          { status: 400 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Pricing for ${providerId}:${modelId} scheduled from ${effectiveFrom} by ${user.email}`
+      )
+
+      return NextResponse.json(result)
+    } catch (error) {
+      console.error('[Admin API] Pricing schedule error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to schedule pricing',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function DELETE(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    const id = req.nextUrl.searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 })
+    }
+
+    const result = await cancelScheduledPricing(
+      { id: user.id, email: user.email },
+      id
+    )
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Failed to cancel scheduled pricing', details: result.error },
+        { status: 400 }
+      )
+    }
+
+    console.log(
+      `[Admin API] Scheduled pricing ${id} cancelled by ${user.email}`
+    )
+
+    return NextResponse.json(result)
+  })
+}
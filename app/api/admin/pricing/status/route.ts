@@ -98,6 +98,10 @@ export async function GET(request: NextRequest) {
           recipients: process.env.ALERT_EMAIL_RECIPIENTS ?
             process.env.ALERT_EMAIL_RECIPIENTS.split(',').length : 0,
           provider: process.env.EMAIL_PROVIDER || 'resend'
+        },
+        webhook: {
+          enabled: !!process.env.ALERT_WEBHOOK_URL,
+          signed: !!process.env.ALERT_WEBHOOK_SECRET
         }
       }
 
@@ -135,7 +139,11 @@ export async function GET(request: NextRequest) {
         issues.push('Automated sync not configured')
       }
 
-      if (!alertConfig.slack.enabled && !alertConfig.email.enabled) {
+      if (
+        !alertConfig.slack.enabled &&
+        !alertConfig.email.enabled &&
+        !alertConfig.webhook.enabled
+      ) {
         healthScore -= 10
         issues.push('No alert channels configured')
       }
@@ -2,6 +2,8 @@
  * POST /api/admin/pricing/sync
  *
  * Manually trigger a pricing sync
+ * Syncs that apply changes take the same lock as the cron sync; while
+ * another sync is running, responds 409 with that run's progress
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -10,7 +12,14 @@ import { withAdminAuth } from '@/lib/auth/admin-middleware'
 import { createAlertService } from '@/lib/pricing/alert-service'
 import { PricingChangeDetector } from '@/lib/pricing/change-detector'
 import { getProviderRegistry } from '@/lib/pricing/providers/registry'
-import { syncPricing } from '@/lib/pricing/sync-orchestrator'
+import { syncPricing, SyncProgress } from '@/lib/pricing/sync-orchestrator'
+import {
+  finishSyncRun,
+  PRICING_SYNC_TYPE,
+  reportSyncProgress,
+  startSyncRun,
+  SyncRunHandle
+} from '@/lib/pricing/sync-run-service'
 
 export async function POST(request: NextRequest) {
   return withAdminAuth(request, async (req, user) => {
@@ -40,13 +49,49 @@ export async function POST(request: NextRequest) {
         source: 'admin-api'
       }
 
+      // Dry runs change nothing, so they don't need the lock
+      let handle: SyncRunHandle | null = null
+      if (!options.dryRun) {
+        const start = await startSyncRun(
+          PRICING_SYNC_TYPE,
+          'manual',
+          `admin:${user.email}`
+        )
+
+        if (!start.started) {
+          console.log(
+            `[Admin API] Pricing sync by ${user.email} skipped - already running`
+          )
+          return NextResponse.json(
+            { error: 'Sync already running', running: start.running },
+            { status: 409 }
+          )
+        }
+
+        handle = start.handle
+        options.onProgress = (progress: SyncProgress) =>
+          reportSyncProgress(start.handle, progress)
+      }
+
       // Run sync
       const syncResult = await syncPricing(options)
 
-      // Send alerts if not dry run and changes were applied
-      if (!options.dryRun && syncResult.changes.applied > 0) {
+      // Record the result in sync_logs and release the lock
+      if (handle) {
+        await finishSyncRun(handle, syncResult)
+      }
+
+      // Send alerts if not dry run: changes applied, changes awaiting
+      // approval and failed providers
+      if (!options.dryRun) {
         const alertService = createAlertService()
-        await alertService.sendSyncAlert(syncResult)
+        if (syncResult.changes.applied > 0) {
+          await alertService.sendSyncAlert(syncResult)
+        }
+        await alertService.sendSyncIssueAlerts(
+          syncResult,
+          `a sync run by ${user.email}`
+        )
       }
 
       // Return result
@@ -59,6 +104,7 @@ export async function POST(request: NextRequest) {
         errors: syncResult.errors,
         warnings: syncResult.warnings,
         dryRun: options.dryRun,
+        runId: handle?.run.id,
         triggeredBy: user.email
       })
     } catch (error) {
@@ -0,0 +1,97 @@
+/**
+ * GET /api/admin/pricing/tools
+ * PUT /api/admin/pricing/tools
+ *
+ * List and update per-call prices for metered tools
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  getAllToolPricing,
+  updateToolPricing
+} from '@/lib/pricing/tool-pricing-service'
+import { ToolName, ToolSearchDepth } from '@/lib/pricing/types'
+
+const TOOL_NAMES: ToolName[] = ['search', 'retrieve', 'video_search']
+const SEARCH_DEPTHS: ToolSearchDepth[] = ['basic', 'advanced']
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async () => {
+    try {
+      const pricing = await getAllToolPricing()
+
+      return NextResponse.json({ pricing })
+    } catch (error) {
+      console.error('[Admin API] Tool pricing error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch tool pricing',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function PUT(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const body = await req.json()
+      const { toolName, provider, searchDepth = 'basic', pricePerCall } = body
+
+      if (
+        !TOOL_NAMES.includes(toolName) ||
+        !SEARCH_DEPTHS.includes(searchDepth) ||
+        typeof provider !== 'string' ||
+        provider.length === 0 ||
+        typeof pricePerCall !== 'number' ||
+        !Number.isFinite(pricePerCall) ||
+        pricePerCall < 0
+      ) {
+        return NextResponse.json(
+          {
+            error: 'Invalid tool pricing',
+            details:
+              'Expected toolName, provider, searchDepth and a non-negative pricePerCall'
+          },
+          { status: 400 }
+        )
+      }
+
+      const success = await updateToolPricing(
+        toolName,
+        provider,
+        searchDepth,
+        pricePerCall
+      )
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to update tool pricing' },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Tool pricing ${toolName}/${provider}/${searchDepth} set to ${pricePerCall} by ${user.email}`
+      )
+
+      return NextResponse.json({
+        success: true,
+        pricing: { toolName, provider, searchDepth, pricePerCall }
+      })
+    } catch (error) {
+      console.error('[Admin API] Tool pricing update error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to update tool pricing',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -0,0 +1,131 @@
+/**
+ * GET /api/admin/promo-codes
+ * POST /api/admin/promo-codes
+ * PATCH /api/admin/promo-codes
+ *
+ * List promo codes, create a code, and activate or deactivate a code
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  createPromoCode,
+  getAllPromoCodes,
+  PromoCodeInput,
+  setPromoCodeActive,
+  validatePromoCode
+} from '@/lib/pricing/promo-code-service'
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async () => {
+    try {
+      const promoCodes = await getAllPromoCodes()
+
+      return NextResponse.json({ promoCodes })
+    } catch (error) {
+      console.error('[Admin API] Promo codes error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch promo codes',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const body = await req.json()
+      const input: PromoCodeInput = {
+        code: typeof body.code === 'string' ? body.code : '',
+        amount: body.amount,
+        description: body.description || undefined,
+        maxRedemptions: body.maxRedemptions ?? undefined,
+        perUserLimit: body.perUserLimit ?? undefined,
+        expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined
+      }
+
+      const validationError =
+        typeof input.amount !== 'number'
+          ? 'Amount must be a number'
+          : validatePromoCode(input)
+
+      if (validationError) {
+        return NextResponse.json(
+          { error: 'Invalid promo code', details: validationError },
+          { status: 400 }
+        )
+      }
+
+      const promoCode = await createPromoCode(input, user.email)
+
+      if (!promoCode) {
+        return NextResponse.json(
+          {
+            error: 'Failed to create promo code',
+            details: 'The code may already exist'
+          },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Promo code ${promoCode.code} (${promoCode.amount}) created by ${user.email}`
+      )
+
+      return NextResponse.json({ success: true, promoCode })
+    } catch (error) {
+      console.error('[Admin API] Promo code create error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to create promo code',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function PATCH(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { id, isActive } = await req.json()
+
+      if (typeof id !== 'string' || typeof isActive !== 'boolean') {
+        return NextResponse.json(
+          { error: 'Missing promo code id or isActive' },
+          { status: 400 }
+        )
+      }
+
+      const success = await setPromoCodeActive(id, isActive)
+
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Failed to update promo code' },
+          { status: 500 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Promo code ${id} ${isActive ? 'activated' : 'deactivated'} by ${user.email}`
+      )
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('[Admin API] Promo code update error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to update promo code',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -0,0 +1,142 @@
+/**
+ * GET /api/admin/reconciliation
+ * POST /api/admin/reconciliation
+ * PATCH /api/admin/reconciliation
+ *
+ * Billing reconciliation report, run the reconciliation job now, and resolve
+ * a finding or retry a failed usage record
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import {
+  getReconciliationReport,
+  ReconciliationAction,
+  ReconciliationFindingStatus,
+  requeueUsageRecordRetry,
+  resolveFinding,
+  runBillingReconciliation
+} from '@/lib/pricing/reconciliation-service'
+
+const FINDING_STATUSES: ReconciliationFindingStatus[] = [
+  'open',
+  'resolved',
+  'dismissed'
+]
+const ACTIONS: ReconciliationAction[] = ['adjust', 'dismiss']
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async req => {
+    try {
+      const statusParam = req.nextUrl.searchParams.get('status') || 'open'
+      const status = FINDING_STATUSES.find(s => s === statusParam)
+
+      if (!status) {
+        return NextResponse.json(
+          { error: 'Invalid status', details: statusParam },
+          { status: 400 }
+        )
+      }
+
+      const report = await getReconciliationReport(status)
+
+      if (!report) {
+        return NextResponse.json(
+          { error: 'Failed to fetch reconciliation report' },
+          { status: 500 }
+        )
+      }
+
+      return NextResponse.json(report)
+    } catch (error) {
+      console.error('[Admin API] Reconciliation report error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch reconciliation report',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const result = await runBillingReconciliation()
+
+      console.log(
+        `[Admin API] Billing reconciliation run by ${user.email}: ${result.opened} new findings`
+      )
+
+      return NextResponse.json({ success: true, ...result })
+    } catch (error) {
+      console.error('[Admin API] Reconciliation run error:', error)
+      return NextResponse.json(
+        {
+          error: 'Reconciliation failed',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function PATCH(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { findingId, action, retryId } = await req.json()
+
+      if (typeof retryId === 'string') {
+        const success = await requeueUsageRecordRetry(retryId)
+
+        if (!success) {
+          return NextResponse.json(
+            { error: 'Failed to retry usage record' },
+            { status: 500 }
+          )
+        }
+
+        console.log(
+          `[Admin API] Usage record retry ${retryId} requeued by ${user.email}`
+        )
+
+        return NextResponse.json({ success: true })
+      }
+
+      if (typeof findingId !== 'string' || !ACTIONS.includes(action)) {
+        return NextResponse.json(
+          { error: 'Missing findingId and action, or retryId' },
+          { status: 400 }
+        )
+      }
+
+      const result = await resolveFinding(findingId, action, user.email)
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: 'Failed to resolve finding', details: result.error },
+          { status: result.finding ? 500 : 409 }
+        )
+      }
+
+      console.log(
+        `[Admin API] Reconciliation finding ${findingId} ${action === 'adjust' ? 'adjusted' : 'dismissed'} by ${user.email}`
+      )
+
+      return NextResponse.json({ success: true, finding: result.finding })
+    } catch (error) {
+      console.error('[Admin API] Reconciliation update error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to update reconciliation',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
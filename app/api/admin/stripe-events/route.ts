@@ -0,0 +1,108 @@
+/**
+ * GET /api/admin/stripe-events?status=<status>
+ * POST /api/admin/stripe-events
+ *
+ * Logged Stripe webhook events with the disputes they opened, and replay a
+ * failed event from its stored payload
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withAdminAuth } from '@/lib/auth/admin-middleware'
+import { getDisputes } from '@/lib/pricing/dispute-service'
+import {
+  getStripeEvent,
+  getStripeEvents,
+  isStripeEventStatus,
+  processStripeEvent
+} from '@/lib/stripe/event-log'
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async req => {
+    try {
+      const statusParam = req.nextUrl.searchParams.get('status')
+      const status = isStripeEventStatus(statusParam) ? statusParam : undefined
+
+      if (statusParam && !status) {
+        return NextResponse.json(
+          { error: 'Invalid status', details: statusParam },
+          { status: 400 }
+        )
+      }
+
+      const [events, disputes] = await Promise.all([
+        getStripeEvents({ status }),
+        getDisputes()
+      ])
+
+      return NextResponse.json({ events, disputes })
+    } catch (error) {
+      console.error('[Admin API] Stripe events error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch Stripe events',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req, user) => {
+    try {
+      const { eventId } = await req.json()
+
+      if (typeof eventId !== 'string') {
+        return NextResponse.json({ error: 'Missing eventId' }, { status: 400 })
+      }
+
+      const event = await getStripeEvent(eventId)
+
+      if (!event?.payload) {
+        return NextResponse.json(
+          { error: 'Stripe event not found' },
+          { status: 404 }
+        )
+      }
+
+      if (event.status !== 'failed') {
+        return NextResponse.json(
+          {
+            error: 'Only failed events can be replayed',
+            details: `Event ${eventId} is ${event.status}`
+          },
+          { status: 409 }
+        )
+      }
+
+      const result = await processStripeEvent(event.payload, user.email)
+
+      console.log(
+        `[Admin API] Stripe event ${eventId} (${event.type}) replayed by ${user.email}: ${result.status}`
+      )
+
+      if (result.status !== 'processed' && result.status !== 'ignored') {
+        return NextResponse.json(
+          {
+            error: 'Replay failed',
+            details: result.error ?? `Event ${eventId} is already being handled`
+          },
+          { status: result.status === 'failed' ? 500 : 409 }
+        )
+      }
+
+      return NextResponse.json({ success: true, status: result.status })
+    } catch (error) {
+      console.error('[Admin API] Stripe event replay error:', error)
+      return NextResponse.json(
+        {
+          error: 'Failed to replay Stripe event',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -292,13 +292,10 @@ async function advancedSearchXNGSearch(
       number_of_results: data.number_of_results || generalResults.length
     }
   } catch (error) {
+    // Rethrown so the request fails and the search is neither cached nor
+    // metered
     console.error('SearchXNG API error:', error)
-    return {
-      results: [],
-      query: query,
-      images: [],
-      number_of_results: 0
-    }
+    throw error
   }
 }
 
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import {
+  AutoRechargeSettings,
+  getAutoRechargeSettings,
+  removeAutoRechargePaymentMethod,
+  updateAutoRechargeSettings,
+  validateAutoRecharge
+} from '@/lib/pricing/auto-recharge-service'
+import { getUserBalanceRecord } from '@/lib/pricing/balance-service'
+import { getExchangeRates } from '@/lib/pricing/exchange-rate-service'
+import { detachPaymentMethod } from '@/lib/stripe/payment-service'
+
+interface UpdateAutoRechargeRequest {
+  enabled: boolean
+  threshold: number
+  amount: number
+}
+
+function toResponse(settings: AutoRechargeSettings | null) {
+  return {
+    enabled: settings?.enabled ?? false,
+    threshold: settings?.threshold,
+    amount: settings?.amount,
+    hasPaymentMethod: settings?.hasPaymentMethod ?? false,
+    paymentMethodLabel: settings?.paymentMethodLabel,
+    pending: !!settings?.pendingSince,
+    lastFailureMessage: settings?.lastFailureMessage,
+    lastFailedAt: settings?.lastFailedAt
+  }
+}
+
+/**
+ * GET /api/balance/auto-recharge
+ * Get the user's automatic top-up settings and saved card
+ */
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(toResponse(await getAutoRechargeSettings(userId)))
+  } catch (error) {
+    console.error('Error fetching auto recharge settings:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to fetch auto top-up settings' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/balance/auto-recharge
+ * Turn automatic top-up on or off and set its threshold and amount
+ * Turning it on requires a card saved with a previous deposit
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body: UpdateAutoRechargeRequest = await req.json()
+    const input = {
+      enabled: body.enabled === true,
+      threshold: body.threshold,
+      amount: body.amount
+    }
+
+    const balanceRecord = await getUserBalanceRecord(userId)
+    const currency = balanceRecord?.currency || 'USD'
+
+    const validationError = validateAutoRecharge(
+      input,
+      currency,
+      await getExchangeRates()
+    )
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const current = await getAutoRechargeSettings(userId)
+
+    if (input.enabled && !current?.hasPaymentMethod) {
+      return NextResponse.json(
+        {
+          error:
+            'Save a card first: add funds with "Save card for automatic top-ups" checked.'
+        },
+        { status: 400 }
+      )
+    }
+
+    const saved = await updateAutoRechargeSettings(userId, input, currency)
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Failed to save auto top-up settings' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(toResponse(saved))
+  } catch (error) {
+    console.error('Error saving auto recharge settings:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to save auto top-up settings' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/balance/auto-recharge
+ * Remove the saved card and turn automatic top-up off
+ */
+export async function DELETE() {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const paymentMethodId = await removeAutoRechargePaymentMethod(userId)
+
+    if (paymentMethodId) {
+      // The card is already forgotten locally; a failed detach only leaves
+      // it on the Stripe customer
+      await detachPaymentMethod(paymentMethodId).catch(() => undefined)
+    }
+
+    return NextResponse.json(toResponse(await getAutoRechargeSettings(userId)))
+  } catch (error) {
+    console.error('Error removing saved card:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to remove saved card' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import {
+  DEFAULT_WARNING_THRESHOLD,
+  evaluateSpendingLimits,
+  getSpendingLimits,
+  getSpendingTotals,
+  SpendingLimits,
+  updateSpendingLimits,
+  validateSpendingLimits
+} from '@/lib/pricing/spending-limit-service'
+
+interface UpdateSpendingLimitsRequest {
+  dailyLimit?: number | null // null removes the cap
+  monthlyLimit?: number | null
+  perRequestLimit?: number | null
+  confirmThreshold?: number | null // null turns confirmation off
+  warningThreshold?: number
+}
+
+/**
+ * GET /api/balance/limits
+ * Get the user's spending limits, spend in the current day and month, and
+ * warnings for limits past their warning threshold
+ */
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const [limits, totals] = await Promise.all([
+      getSpendingLimits(userId),
+      getSpendingTotals(userId)
+    ])
+    const effectiveLimits = limits ?? {
+      warningThreshold: DEFAULT_WARNING_THRESHOLD
+    }
+
+    return NextResponse.json({
+      limits: effectiveLimits,
+      totals,
+      warnings: totals
+        ? evaluateSpendingLimits(effectiveLimits, totals).warnings
+        : []
+    })
+  } catch (error) {
+    console.error('Error fetching spending limits:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to fetch spending limits' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/balance/limits
+ * Set the user's spending limits and pre-send confirmation threshold
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body: UpdateSpendingLimitsRequest = await req.json()
+    const limits: SpendingLimits = {
+      dailyLimit: body.dailyLimit ?? undefined,
+      monthlyLimit: body.monthlyLimit ?? undefined,
+      perRequestLimit: body.perRequestLimit ?? undefined,
+      confirmThreshold: body.confirmThreshold ?? undefined,
+      warningThreshold: body.warningThreshold ?? DEFAULT_WARNING_THRESHOLD
+    }
+
+    const validationError = validateSpendingLimits(limits)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const saved = await updateSpendingLimits(userId, limits)
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Failed to save spending limits' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ limits: saved })
+  } catch (error) {
+    console.error('Error saving spending limits:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to save spending limits' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import { redeemPromoCode } from '@/lib/pricing/balance-service'
+
+interface RedeemPromoCodeRequest {
+  code: string
+  idempotencyKey: string
+}
+
+/**
+ * POST /api/balance/redeem
+ * Redeem a promo code for balance credit
+ * Retrying with the same idempotencyKey returns the original redemption
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body: RedeemPromoCodeRequest = await req.json()
+    const { code, idempotencyKey } = body
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Promo code is required.' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      !idempotencyKey ||
+      typeof idempotencyKey !== 'string' ||
+      idempotencyKey.length > 100
+    ) {
+      return NextResponse.json(
+        { error: 'A valid idempotency key is required.' },
+        { status: 400 }
+      )
+    }
+
+    const result = await redeemPromoCode(userId, code, idempotencyKey)
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to redeem promo code' },
+        { status: 500 }
+      )
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message, status: result.status },
+        { status: result.status === 'not_found' ? 404 : 409 }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error redeeming promo code:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to redeem promo code' },
+      { status: 500 }
+    )
+  }
+}
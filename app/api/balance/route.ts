@@ -1,5 +1,14 @@
+import { cookies } from 'next/headers'
+
 import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import { getAutoRechargeSettings } from '@/lib/pricing/auto-recharge-service'
 import { getUserBalanceRecord } from '@/lib/pricing/balance-service'
+import {
+  canFundWallet,
+  getUserOrganizations,
+  resolveBillingWallet,
+  WORKSPACE_COOKIE
+} from '@/lib/pricing/organization-service'
 
 export async function GET() {
   try {
@@ -19,13 +28,35 @@ export async function GET() {
       )
     }
 
-    const balanceRecord = await getUserBalanceRecord(userId)
+    // Show the wallet of the current workspace
+    const cookieStore = await cookies()
+    const wallet = await resolveBillingWallet(
+      userId,
+      cookieStore.get(WORKSPACE_COOKIE)?.value
+    )
+
+    const [balanceRecord, autoRecharge, memberships] = await Promise.all([
+      getUserBalanceRecord(wallet.ownerId),
+      getAutoRechargeSettings(userId),
+      getUserOrganizations(userId)
+    ])
+
+    const workspaceData = {
+      organizationId: wallet.organizationId,
+      organizationName: wallet.organizationName,
+      canAddFunds: !wallet.role || canFundWallet(wallet.role),
+      workspaces: memberships.map(({ organization }) => ({
+        id: organization.id,
+        name: organization.name
+      }))
+    }
 
     if (!balanceRecord) {
       return new Response(
         JSON.stringify({
           balance: 0,
-          currency: 'USD'
+          currency: 'USD',
+          ...workspaceData
         }),
         {
           status: 200,
@@ -37,7 +68,9 @@ export async function GET() {
     return new Response(
       JSON.stringify({
         balance: balanceRecord.balance,
-        currency: balanceRecord.currency
+        currency: balanceRecord.currency,
+        autoRechargeFailure: autoRecharge?.lastFailureMessage,
+        ...workspaceData
       }),
       {
         status: 200,
@@ -0,0 +1,106 @@
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { Message } from 'ai'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import { DEFAULT_MODEL } from '@/lib/config/models'
+import { estimateRequestCost } from '@/lib/pricing/cost-estimation'
+import {
+  resolveBillingWallet,
+  WORKSPACE_COOKIE
+} from '@/lib/pricing/organization-service'
+import {
+  getPricingPolicy,
+  getUserPlanId
+} from '@/lib/pricing/pricing-policy-service'
+import {
+  getSpendingLimits,
+  needsCostConfirmation
+} from '@/lib/pricing/spending-limit-service'
+import { DEFAULT_PROVIDER } from '@/lib/tools/search/providers'
+import { Model } from '@/lib/types/models'
+
+interface EstimateRequest {
+  messages?: Message[] // Conversation so far
+  input?: string // Message about to be sent
+}
+
+/**
+ * POST /api/chat/estimate
+ * Estimate what the next chat request will be billed, using the same model,
+ * search mode and workspace cookies as the chat endpoint, and whether the
+ * user asked to confirm requests above that amount
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { messages = [], input = '' }: EstimateRequest = await req.json()
+
+    if (!Array.isArray(messages) || typeof input !== 'string') {
+      return NextResponse.json(
+        { error: 'messages must be an array and input a string' },
+        { status: 400 }
+      )
+    }
+
+    const cookieStore = await cookies()
+    const modelJson = cookieStore.get('selectedModel')?.value
+    const searchMode = cookieStore.get('search-mode')?.value === 'true'
+
+    let model = DEFAULT_MODEL
+
+    if (modelJson) {
+      try {
+        model = JSON.parse(modelJson) as Model
+      } catch (e) {
+        console.error('Failed to parse selected model:', e)
+      }
+    }
+
+    const wallet = await resolveBillingWallet(
+      userId,
+      cookieStore.get(WORKSPACE_COOKIE)?.value
+    )
+    const [policy, limits] = await Promise.all([
+      getUserPlanId(wallet.ownerId).then(getPricingPolicy),
+      getSpendingLimits(userId)
+    ])
+
+    const estimate = await estimateRequestCost(
+      input.trim()
+        ? [...messages, { id: 'pending', role: 'user', content: input }]
+        : messages,
+      model,
+      policy,
+      searchMode ? process.env.SEARCH_API || DEFAULT_PROVIDER : undefined
+    )
+    const confirmThreshold = limits?.confirmThreshold ?? null
+
+    return NextResponse.json({
+      estimate,
+      confirmThreshold,
+      requiresConfirmation: estimate
+        ? needsCostConfirmation(
+            estimate.billedCost,
+            confirmThreshold ?? undefined
+          )
+        : false
+    })
+  } catch (error) {
+    console.error('Error estimating request cost:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to estimate request cost' },
+      { status: 500 }
+    )
+  }
+}
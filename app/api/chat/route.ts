@@ -1,30 +1,49 @@
 import { cookies } from 'next/headers'
 
 import { getCurrentUserId } from '@/lib/auth/get-current-user'
-import { getUserBalance } from '@/lib/pricing/balance-service'
+import { DEFAULT_MODEL } from '@/lib/config/models'
+import { triggerAutoRecharge } from '@/lib/pricing/auto-recharge-service'
+import {
+  BalanceReservation,
+  getUserBalance,
+  reserveBalance
+} from '@/lib/pricing/balance-service'
+import { estimateConversationCost } from '@/lib/pricing/cost-estimation'
+import {
+  BillingWallet,
+  checkMemberSpendingLimit,
+  getMemberSpendingLimitMessage,
+  resolveBillingWallet,
+  WORKSPACE_COOKIE
+} from '@/lib/pricing/organization-service'
+import {
+  estimateBilledAmount,
+  getPricingPolicy,
+  getUserPlanId
+} from '@/lib/pricing/pricing-policy-service'
+import {
+  checkSpendingLimits,
+  getSpendingLimitMessage
+} from '@/lib/pricing/spending-limit-service'
 import { getRedisClient } from '@/lib/redis/config'
 import { createManualToolStreamResponse } from '@/lib/streaming/create-manual-tool-stream'
 import { createToolCallingStreamResponse } from '@/lib/streaming/create-tool-calling-stream'
 import { Model } from '@/lib/types/models'
+import { getMaxOutputTokens } from '@/lib/utils/context-window'
 import { isProviderEnabled } from '@/lib/utils/registry'
 
 export const maxDuration = 30
 
-const DEFAULT_MODEL: Model = {
-  id: 'gpt-4o-mini',
-  name: 'GPT-4o mini',
-  provider: 'OpenAI',
-  providerId: 'openai',
-  enabled: true,
-  toolCallType: 'native'
-}
-
 export async function POST(req: Request) {
   try {
     const { messages, id: chatId } = await req.json()
     const referer = req.headers.get('referer')
     const isSharePage = referer?.includes('/share/')
     const userId = await getCurrentUserId()
+    // Links the balance hold to its usage record
+    const requestId = `${chatId}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
+    let reservation: BalanceReservation | undefined
+    let wallet: BillingWallet | undefined
 
     if (isSharePage) {
       return new Response('Chat API is not available on share pages', {
@@ -88,18 +107,34 @@ export async function POST(req: Request) {
         console.error('Guest limit check failed:', e)
       }
     } else {
+      // Usage in an organization workspace is charged to its shared wallet
+      wallet = await resolveBillingWallet(
+        userId,
+        cookieStore.get(WORKSPACE_COOKIE)?.value
+      )
+      const walletId = wallet.ownerId
+      const isOrganization = wallet.ownerType === 'organization'
+      // Automatic top-up uses the user's own saved card
+      const topUp = async () =>
+        isOrganization ? false : await triggerAutoRecharge(userId)
+
       // Check balance for authenticated users
       try {
-        const balance = await getUserBalance(userId)
+        const balance = await getUserBalance(walletId)
         // Require at least $0.01 to make a request
         // This prevents users with zero balance from making requests
         if (balance < 0.01) {
+          const autoRecharging = await topUp()
           return new Response(
             JSON.stringify({
               code: 'INSUFFICIENT_BALANCE',
-              message:
-                'Insufficient balance. Please add credits to your account.',
-              balance
+              message: autoRecharging
+                ? 'Insufficient balance. An automatic top-up has started, please try again in a moment.'
+                : isOrganization
+                  ? `Insufficient balance in ${wallet.organizationName}. Ask an owner or admin to add funds.`
+                  : 'Insufficient balance. Please add credits to your account.',
+              balance,
+              autoRecharging
             }),
             {
               status: 402,
@@ -114,6 +149,90 @@ export async function POST(req: Request) {
         console.error('Balance check failed:', e)
         // Continue anyway - we don't want to block users if balance check fails
       }
+
+      // Hold the estimated maximum cost of this turn until the stream settles
+      const estimate = await estimateConversationCost(
+        messages,
+        selectedModel,
+        getMaxOutputTokens(selectedModel)
+      )
+      // Hold the billed amount: markup and minimum charge included
+      const billedEstimate = estimate
+        ? estimateBilledAmount(
+            estimate.totalCost,
+            await getPricingPolicy(await getUserPlanId(walletId)),
+            selectedModel.providerId,
+            selectedModel.id
+          )
+        : 0
+
+      // Enforce the user's spending caps before anything is held; in an
+      // organization workspace, the cap the owners set for the member
+      const spendingCheck = isOrganization
+        ? await checkMemberSpendingLimit(userId, wallet, billedEstimate)
+        : await checkSpendingLimits(userId, billedEstimate)
+      if (!spendingCheck.allowed && spendingCheck.exceeded) {
+        const { type, limit, spent, required } = spendingCheck.exceeded
+        return new Response(
+          JSON.stringify({
+            code: 'SPENDING_LIMIT_REACHED',
+            message: isOrganization
+              ? getMemberSpendingLimitMessage(
+                  wallet.organizationName ?? 'this organization',
+                  limit,
+                  spent
+                )
+              : getSpendingLimitMessage(spendingCheck.exceeded),
+            limitType: type,
+            limit,
+            spent,
+            required
+          }),
+          {
+            status: 402,
+            headers: {
+              'content-type': 'application/json',
+              'x-spending-limit': type
+            }
+          }
+        )
+      }
+
+      if (estimate) {
+        // Balances are stored in cents, so round the hold up
+        const holdAmount = Math.max(
+          Math.ceil(billedEstimate * 100) / 100,
+          0.01
+        )
+        const result = await reserveBalance(walletId, holdAmount, requestId)
+
+        if (result && !result.success) {
+          const autoRecharging = await topUp()
+          return new Response(
+            JSON.stringify({
+              code: 'INSUFFICIENT_BALANCE',
+              message: autoRecharging
+                ? 'Insufficient balance for this request. An automatic top-up has started, please try again in a moment.'
+                : isOrganization
+                  ? `Insufficient balance in ${wallet.organizationName} for this request. Ask an owner or admin to add funds.`
+                  : 'Insufficient balance for this request. Please add credits to your account.',
+              balance: result.balance,
+              required: holdAmount,
+              autoRecharging
+            }),
+            {
+              status: 402,
+              headers: {
+                'content-type': 'application/json',
+                'x-balance': result.balance.toString()
+              }
+            }
+          )
+        }
+
+        // A failed reservation falls back to deducting after the stream
+        reservation = result?.reservation
+      }
     }
 
     const supportsToolCalling = selectedModel.toolCallType === 'native'
@@ -124,14 +243,22 @@ export async function POST(req: Request) {
           model: selectedModel,
           chatId,
           searchMode,
-          userId
+          userId,
+          requestId,
+          reservation,
+          organizationId: wallet?.organizationId,
+          abortSignal: req.signal
         })
       : createManualToolStreamResponse({
           messages,
           model: selectedModel,
           chatId,
           searchMode,
-          userId
+          userId,
+          requestId,
+          reservation,
+          organizationId: wallet?.organizationId,
+          abortSignal: req.signal
         })
   } catch (error) {
     console.error('API route error:', error)
@@ -0,0 +1,104 @@
+/**
+ * GET /api/cron/billing-reconciliation
+ *
+ * Billing reconciliation endpoint
+ * Retries queued usage records and scans for billing discrepancies
+ * Should be called by a cron job scheduler (e.g., Vercel Cron, GitHub Actions, etc.)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { createAlertService } from '@/lib/pricing/alert-service'
+import { runBillingReconciliation } from '@/lib/pricing/reconciliation-service'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+export const maxDuration = 60
+
+export async function GET(request: NextRequest) {
+  const supabase = createAdminClient()
+
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('[Cron] Unauthorized access attempt')
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('[Cron] Starting billing reconciliation...')
+
+    const result = await runBillingReconciliation()
+
+    // Log to database for audit
+    await supabase.from('sync_logs').insert({
+      sync_type: 'billing_reconciliation',
+      source: 'cron',
+      success: true,
+      status: 'succeeded',
+      changes_applied: result.retries.succeeded + result.autoResolved,
+      duration_ms: result.durationMs,
+      metadata: {
+        retries: result.retries,
+        detected: result.detected,
+        opened: result.opened,
+        autoResolved: result.autoResolved,
+        truncated: result.truncated
+      }
+    })
+
+    // Alert admins about new discrepancies
+    if (result.opened > 0) {
+      await createAlertService()
+        .send({ type: 'reconciliation_discrepancy', result })
+        .catch(error =>
+          console.error('[Cron] Failed to send reconciliation alert:', error)
+        )
+    }
+
+    console.log('[Cron] Billing reconciliation completed:', {
+      retried: result.retries.processed,
+      opened: result.opened,
+      autoResolved: result.autoResolved,
+      duration: result.durationMs
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      source: 'cron'
+    })
+  } catch (error) {
+    console.error('[Cron] Billing reconciliation error:', error)
+
+    await supabase.from('sync_logs').insert({
+      sync_type: 'billing_reconciliation',
+      source: 'cron',
+      success: false,
+      status: 'failed',
+      changes_applied: 0,
+      duration_ms: 0,
+      metadata: {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+
+    return NextResponse.json(
+      {
+        error: 'Reconciliation failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/cron/billing-reconciliation
+ *
+ * Alternative method for webhooks that prefer POST
+ */
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
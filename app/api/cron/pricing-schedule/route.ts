@@ -0,0 +1,94 @@
+/**
+ * GET /api/cron/pricing-schedule
+ *
+ * Scheduled pricing endpoint
+ * Copies pricing versions that took effect (or whose temporary price
+ * expired) into model_pricing. Usage is billed with the version in effect
+ * even before this runs.
+ * Should be called by a cron job scheduler (e.g., Vercel Cron, GitHub Actions, etc.)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { applyDuePricingVersions } from '@/lib/pricing/pricing-schedule-service'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+export const maxDuration = 60
+
+export async function GET(request: NextRequest) {
+  const supabase = createAdminClient()
+  const startTime = Date.now()
+
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('[Cron] Unauthorized access attempt')
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('[Cron] Applying scheduled pricing...')
+
+    const result = await applyDuePricingVersions()
+
+    // Log to database for audit
+    await supabase.from('sync_logs').insert({
+      sync_type: 'pricing_schedule',
+      source: 'cron',
+      success: result.failed === 0,
+      status: result.failed === 0 ? 'succeeded' : 'failed',
+      changes_applied: result.applied,
+      duration_ms: Date.now() - startTime,
+      metadata: {
+        checked: result.checked,
+        failed: result.failed,
+        errors: result.errors
+      }
+    })
+
+    console.log('[Cron] Scheduled pricing applied:', {
+      checked: result.checked,
+      applied: result.applied,
+      failed: result.failed
+    })
+
+    return NextResponse.json({
+      success: result.failed === 0,
+      ...result,
+      source: 'cron'
+    })
+  } catch (error) {
+    console.error('[Cron] Scheduled pricing error:', error)
+
+    await supabase.from('sync_logs').insert({
+      sync_type: 'pricing_schedule',
+      source: 'cron',
+      success: false,
+      status: 'failed',
+      changes_applied: 0,
+      duration_ms: Date.now() - startTime,
+      metadata: {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+
+    return NextResponse.json(
+      {
+        error: 'Scheduled pricing failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/cron/pricing-schedule
+ *
+ * Alternative method for webhooks that prefer POST
+ */
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
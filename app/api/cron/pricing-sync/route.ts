@@ -7,12 +7,43 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 
-import { createAlertService } from '@/lib/pricing/alert-service'
+import {
+  AlertService,
+  createAlertService,
+  DEFAULT_MIN_MARGIN_PERCENT,
+  evaluateMargin
+} from '@/lib/pricing/alert-service'
+import { getMarginReport } from '@/lib/pricing/pricing-policy-service'
 import { syncPricing } from '@/lib/pricing/sync-orchestrator'
-import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  finishSyncRun,
+  getLastSucceededSyncRun,
+  PRICING_SYNC_TYPE,
+  reportSyncProgress,
+  startSyncRun
+} from '@/lib/pricing/sync-run-service'
 
 export const maxDuration = 60 // Allow up to 60 seconds for sync
 
+/**
+ * Alert if the platform margin over the last day fell below
+ * ALERT_MIN_MARGIN_PERCENT
+ */
+async function checkPlatformMargin(alertService: AlertService): Promise<void> {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000)
+  const report = await getMarginReport(since)
+  if (!report) return
+
+  const minMarginPercent = process.env.ALERT_MIN_MARGIN_PERCENT
+    ? parseFloat(process.env.ALERT_MIN_MARGIN_PERCENT)
+    : DEFAULT_MIN_MARGIN_PERCENT
+
+  const event = evaluateMargin(report, since, minMarginPercent)
+  if (event) {
+    await alertService.send(event)
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     // Verify cron secret to prevent unauthorized access
@@ -30,23 +61,11 @@ export async function GET(request: NextRequest) {
 
     console.log('[Cron] Starting scheduled pricing sync...')
 
-    // Check if sync is already running (prevent overlaps)
-    const lockKey = 'pricing-sync-lock'
-    const lockDuration = 5 * 60 * 1000 // 5 minutes
-
-    // Simple in-memory lock (for serverless, consider using Redis/Upstash for distributed lock)
-    const supabase = createAdminClient()
-
     // Check last sync time to prevent too frequent syncs
-    const { data: lastSync } = await supabase
-      .from('model_pricing_history')
-      .select('created_at')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single()
+    const lastSync = await getLastSucceededSyncRun(PRICING_SYNC_TYPE)
 
     if (lastSync) {
-      const lastSyncTime = new Date(lastSync.created_at).getTime()
+      const lastSyncTime = lastSync.startedAt.getTime()
       const timeSinceLastSync = Date.now() - lastSyncTime
       const minInterval = 60 * 60 * 1000 // 1 hour minimum between syncs
 
@@ -56,12 +75,25 @@ export async function GET(request: NextRequest) {
           success: true,
           skipped: true,
           reason: 'Too soon since last sync',
-          lastSync: lastSync.created_at,
+          lastSync: lastSync.startedAt.toISOString(),
           nextAllowedSync: new Date(lastSyncTime + minInterval).toISOString()
         })
       }
     }
 
+    // Take the sync lock (prevent overlaps with other cron or admin syncs)
+    const start = await startSyncRun(PRICING_SYNC_TYPE, 'cron', 'system')
+
+    if (!start.started) {
+      console.log('[Cron] Skipping sync - another sync is running')
+      return NextResponse.json({
+        success: true,
+        skipped: true,
+        reason: 'Sync already running',
+        running: start.running
+      })
+    }
+
     // Run the sync
     const syncResult = await syncPricing({
       dryRun: false,
@@ -72,32 +104,23 @@ export async function GET(request: NextRequest) {
         source: 'scheduled-cron',
         triggeredBy: 'system',
         cronTime: new Date().toISOString()
-      }
+      },
+      onProgress: progress => reportSyncProgress(start.handle, progress)
     })
 
-    // Send alerts if changes were made
-    if (syncResult.changes.applied > 0) {
-      const alertService = createAlertService()
+    // Record the result in sync_logs and release the lock
+    await finishSyncRun(start.handle, syncResult)
+
+    // Send alerts if changes were made or the sync failed, and about
+    // changes awaiting approval and failed providers
+    const alertService = createAlertService()
+    if (syncResult.changes.applied > 0 || !syncResult.success) {
       await alertService.sendSyncAlert(syncResult)
     }
+    await alertService.sendSyncIssueAlerts(syncResult, 'the scheduled sync')
 
-    // Log to database for audit
-    await supabase
-      .from('sync_logs')
-      .insert({
-        sync_type: 'pricing',
-        source: 'cron',
-        success: syncResult.success,
-        changes_applied: syncResult.changes.applied,
-        duration_ms: syncResult.duration,
-        metadata: {
-          providers: syncResult.providers,
-          changes: syncResult.changes,
-          errors: syncResult.errors,
-          warnings: syncResult.warnings
-        }
-      })
-      .select()
+    // Alert if the platform margin over the last day is low
+    await checkPlatformMargin(alertService)
 
     console.log(`[Cron] Sync completed:`, {
       success: syncResult.success,
@@ -111,6 +134,7 @@ export async function GET(request: NextRequest) {
       changes: syncResult.changes,
       providers: syncResult.providers,
       duration: syncResult.duration,
+      runId: start.handle.run.id,
       source: 'cron'
     })
   } catch (error) {
@@ -129,6 +153,7 @@ export async function GET(request: NextRequest) {
           applied: 0,
           skipped: 0,
           failed: 0,
+          queued: 0,
           newModels: 0,
           updatedModels: 0,
           removedModels: 0
@@ -0,0 +1,255 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUser } from '@/lib/auth/get-current-user'
+import {
+  addOrganizationMember,
+  canChangeMember,
+  canManageBilling,
+  canManageMembers,
+  getOrganizationMember,
+  getOrganizationMembers,
+  isOrganizationRole,
+  MemberUpdate,
+  OrganizationMember,
+  removeOrganizationMember,
+  updateOrganizationMember,
+  validateMemberSpendingLimit
+} from '@/lib/pricing/organization-service'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * The signed-in user's membership in the organization, or an error response
+ */
+async function getActor(
+  context: RouteContext
+): Promise<
+  | { organizationId: string; actor: OrganizationMember }
+  | { response: NextResponse }
+> {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+  }
+
+  const { id } = await context.params
+  const actor = await getOrganizationMember(id, user.id)
+
+  if (!actor) {
+    return {
+      response: NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+  }
+
+  return { organizationId: id, actor }
+}
+
+function forbidden(error: string) {
+  return NextResponse.json({ error }, { status: 403 })
+}
+
+/**
+ * GET /api/organizations/{id}/members
+ * Get the members of an organization (any member)
+ */
+export async function GET(_req: NextRequest, context: RouteContext) {
+  try {
+    const result = await getActor(context)
+    if ('response' in result) {
+      return result.response
+    }
+
+    const members = await getOrganizationMembers(result.organizationId)
+
+    return NextResponse.json({ members, role: result.actor.role })
+  } catch (error) {
+    console.error('Error fetching organization members:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to fetch members' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/organizations/{id}/members
+ * Add a member by email (owners and admins; only owners add owners and
+ * admins)
+ */
+export async function POST(req: NextRequest, context: RouteContext) {
+  try {
+    const result = await getActor(context)
+    if ('response' in result) {
+      return result.response
+    }
+
+    const { organizationId, actor } = result
+    const { email, role = 'member' } = await req.json()
+
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json(
+        { error: 'A valid email address is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isOrganizationRole(role)) {
+      return NextResponse.json(
+        { error: `Invalid role: ${role}` },
+        { status: 400 }
+      )
+    }
+
+    if (
+      !canManageMembers(actor.role) ||
+      !canChangeMember(actor.role, 'member', role)
+    ) {
+      return forbidden('You cannot add members with this role')
+    }
+
+    const added = await addOrganizationMember(organizationId, email, role)
+
+    if (!added.success) {
+      return NextResponse.json({ error: added.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ member: added.member }, { status: 201 })
+  } catch (error) {
+    console.error('Error adding organization member:', error)
+
+    return NextResponse.json({ error: 'Failed to add member' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/organizations/{id}/members
+ * Change a member's role, or their monthly spending cap (owners only;
+ * null removes the cap)
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  try {
+    const result = await getActor(context)
+    if ('response' in result) {
+      return result.response
+    }
+
+    const { organizationId, actor } = result
+    const { userId, role, spendingLimit } = await req.json()
+
+    if (typeof userId !== 'string') {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+
+    const target = await getOrganizationMember(organizationId, userId)
+    if (!target) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+
+    const update: MemberUpdate = {}
+
+    if (role !== undefined) {
+      if (!isOrganizationRole(role)) {
+        return NextResponse.json(
+          { error: `Invalid role: ${role}` },
+          { status: 400 }
+        )
+      }
+      if (
+        !canManageMembers(actor.role) ||
+        !canChangeMember(actor.role, target.role, role)
+      ) {
+        return forbidden('You cannot give this member that role')
+      }
+      update.role = role
+    }
+
+    if (spendingLimit !== undefined) {
+      const validationError = validateMemberSpendingLimit(spendingLimit)
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 })
+      }
+      if (!canManageBilling(actor.role)) {
+        return forbidden('Only owners can set spending limits')
+      }
+      update.spendingLimit = spendingLimit
+    }
+
+    const updated = await updateOrganizationMember(
+      organizationId,
+      userId,
+      update
+    )
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ member: updated.member })
+  } catch (error) {
+    console.error('Error updating organization member:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to update member' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/organizations/{id}/members?userId=...
+ * Remove a member (owners and admins), or leave the organization
+ */
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  try {
+    const result = await getActor(context)
+    if ('response' in result) {
+      return result.response
+    }
+
+    const { organizationId, actor } = result
+    const userId = req.nextUrl.searchParams.get('userId')
+
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+
+    const target = await getOrganizationMember(organizationId, userId)
+    if (!target) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+
+    const leaving = userId === actor.userId
+    if (
+      !leaving &&
+      (!canManageMembers(actor.role) ||
+        !canChangeMember(actor.role, target.role))
+    ) {
+      return forbidden('You cannot remove this member')
+    }
+
+    const removed = await removeOrganizationMember(organizationId, userId)
+
+    if (!removed.success) {
+      return NextResponse.json({ error: removed.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing organization member:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    )
+  }
+}
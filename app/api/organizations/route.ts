@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUser } from '@/lib/auth/get-current-user'
+import {
+  createOrganization,
+  getUserOrganizations,
+  validateOrganizationName
+} from '@/lib/pricing/organization-service'
+
+/**
+ * GET /api/organizations
+ * Get the organizations the user belongs to, with their role in each
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const organizations = await getUserOrganizations(user.id)
+
+    return NextResponse.json({ organizations })
+  } catch (error) {
+    console.error('Error fetching organizations:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to fetch organizations' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/organizations
+ * Create an organization with the user as its owner
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { name } = await req.json()
+
+    const validationError = validateOrganizationName(name)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const organization = await createOrganization(name, user.id, user.email)
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Failed to create organization' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ organization }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating organization:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to create organization' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
 
 import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import {
+  getAutoRechargeSettings,
+  setAutoRechargeCustomer
+} from '@/lib/pricing/auto-recharge-service'
 import { getUserBalanceRecord } from '@/lib/pricing/balance-service'
 import { isSupportedCurrency } from '@/lib/pricing/currency-service'
-import { createPaymentIntent } from '@/lib/stripe/payment-service'
+import {
+  canFundWallet,
+  getOrganizationMember
+} from '@/lib/pricing/organization-service'
+import { getUserSubscription } from '@/lib/pricing/subscription-service'
+import {
+  createCustomer,
+  createPaymentIntent
+} from '@/lib/stripe/payment-service'
 import { createClient } from '@/lib/supabase/server'
 
 interface CreateIntentRequest {
   amount: number
   currency: string
+  savePaymentMethod?: boolean // Save the card for automatic top-ups
+  organizationId?: string // Deposit into an organization's shared wallet
 }
 
 /**
@@ -29,7 +43,7 @@ export async function POST(req: NextRequest) {
 
     // Parse request body
     const body: CreateIntentRequest = await req.json()
-    const { amount, currency } = body
+    const { amount, currency, savePaymentMethod, organizationId } = body
 
     // Validate input
     if (!amount || typeof amount !== 'number' || amount <= 0) {
@@ -62,18 +76,48 @@ export async function POST(req: NextRequest) {
 
     const userEmail = user?.email
 
-    // Get user's balance record to verify currency matches
-    const balanceRecord = await getUserBalanceRecord(userId)
-    if (balanceRecord && balanceRecord.currency !== currency) {
+    // Owners and admins can fund their organization's wallet
+    if (organizationId !== undefined) {
+      const member =
+        typeof organizationId === 'string'
+          ? await getOrganizationMember(organizationId, userId)
+          : null
+      if (!member || !canFundWallet(member.role)) {
+        return NextResponse.json(
+          {
+            error: 'Only owners and admins can add funds to this organization'
+          },
+          { status: 403 }
+        )
+      }
+    }
+
+    // Deposits in another currency are converted into the account currency
+    const balanceRecord = await getUserBalanceRecord(organizationId ?? userId)
+    const ledgerCurrency = balanceRecord?.currency || 'USD'
+    if (!isSupportedCurrency(ledgerCurrency)) {
       return NextResponse.json(
-        {
-          error: `Currency mismatch. Your account currency is ${balanceRecord.currency}.`,
-          accountCurrency: balanceRecord.currency
-        },
+        { error: `Unsupported account currency: ${ledgerCurrency}` },
         { status: 400 }
       )
     }
 
+    // Cards are saved on a Stripe customer; reuse the user's existing one.
+    // Saved cards top up the personal balance, so not for organizations
+    let saveForCustomerId: string | undefined
+    if (savePaymentMethod === true && !organizationId) {
+      const [autoRecharge, subscription] = await Promise.all([
+        getAutoRechargeSettings(userId),
+        getUserSubscription(userId)
+      ])
+      saveForCustomerId =
+        autoRecharge?.stripeCustomerId ?? subscription?.stripeCustomerId
+      if (!saveForCustomerId) {
+        saveForCustomerId = await createCustomer(userId, userEmail)
+      }
+      await setAutoRechargeCustomer(userId, saveForCustomerId)
+    }
+
     // Create payment intent
     const paymentIntent = await createPaymentIntent({
       amount,
@@ -81,13 +125,17 @@ export async function POST(req: NextRequest) {
       userId,
       userEmail,
       metadata: {
-        source: 'balance_top_up'
-      }
+        source: 'balance_top_up',
+        ...(organizationId && { organizationId })
+      },
+      saveForCustomerId,
+      ledgerCurrency
     })
 
     return NextResponse.json({
       clientSecret: paymentIntent.clientSecret,
-      paymentIntentId: paymentIntent.paymentIntentId
+      paymentIntentId: paymentIntent.paymentIntentId,
+      conversion: paymentIntent.conversion
     })
   } catch (error) {
     console.error('Error creating payment intent:', error)
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 
 import { addBalance } from '@/lib/pricing/balance-service'
-import { getPaymentIntent } from '@/lib/stripe/payment-service'
+import {
+  getDepositCredit,
+  getDepositWalletId,
+  getPaymentIntent
+} from '@/lib/stripe/payment-service'
 
 /**
  * POST /api/payments/finalize?payment_intent_id=pi_...
@@ -33,8 +37,8 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ skipped: true, reason: 'missing_metadata' })
     }
 
-    const amount = parseFloat(originalAmount)
-    if (!amount || isNaN(amount) || amount <= 0) {
+    const credit = getDepositCredit(pi.metadata)
+    if (!credit) {
       return NextResponse.json({ skipped: true, reason: 'invalid_amount' })
     }
 
@@ -43,16 +47,18 @@ export async function POST(req: NextRequest) {
         ? pi.latest_charge
         : (pi.latest_charge as any)?.id
 
+    // Organization deposits go to the shared wallet
     const success = await addBalance(
-      userId,
-      amount,
+      getDepositWalletId(pi.metadata) ?? userId,
+      credit.amount,
       `Payment received: ${pi.id}`,
       pi.id,
       chargeId,
       {
         paymentIntentStatus: pi.status,
         paymentMethod: pi.payment_method as any,
-        receiptEmail: (pi as any).receipt_email || undefined
+        receiptEmail: (pi as any).receipt_email || undefined,
+        ...credit.metadata
       }
     )
 
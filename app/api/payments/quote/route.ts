@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import { getUserBalanceRecord } from '@/lib/pricing/balance-service'
+import { isSupportedCurrency } from '@/lib/pricing/currency-service'
+import {
+  canFundWallet,
+  getOrganizationMember
+} from '@/lib/pricing/organization-service'
+import { quoteDeposit } from '@/lib/stripe/payment-service'
+
+/**
+ * GET /api/payments/quote?amount=1000&currency=JPY[&organizationId=...]
+ * Check a deposit against the deposit limits and show what it converts to in
+ * the account currency (or the organization wallet's currency) at the
+ * current exchange rate
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const amount = parseFloat(searchParams.get('amount') || '')
+    const currency = searchParams.get('currency') || ''
+    const organizationId = searchParams.get('organizationId')
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid amount. Must be a positive number.' },
+        { status: 400 }
+      )
+    }
+
+    if (!isSupportedCurrency(currency)) {
+      return NextResponse.json(
+        { error: `Unsupported currency: ${currency}` },
+        { status: 400 }
+      )
+    }
+
+    if (organizationId) {
+      const member = await getOrganizationMember(organizationId, userId)
+      if (!member || !canFundWallet(member.role)) {
+        return NextResponse.json(
+          {
+            error: 'Only owners and admins can add funds to this organization'
+          },
+          { status: 403 }
+        )
+      }
+    }
+
+    const balanceRecord = await getUserBalanceRecord(organizationId || userId)
+    const ledgerCurrency = balanceRecord?.currency || 'USD'
+
+    if (!isSupportedCurrency(ledgerCurrency)) {
+      return NextResponse.json(
+        { error: `Unsupported account currency: ${ledgerCurrency}` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      await quoteDeposit(amount, currency, ledgerCurrency)
+    )
+  } catch (error) {
+    console.error('Error quoting deposit:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to quote deposit' },
+      { status: 500 }
+    )
+  }
+}
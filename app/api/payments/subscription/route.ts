@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import {
+  getSubscriptionPlan,
+  getUserSubscription,
+  isSubscriptionLive
+} from '@/lib/pricing/subscription-service'
+import {
+  cancelSubscriptionAtPeriodEnd,
+  createSubscriptionCheckout
+} from '@/lib/stripe/subscription-service'
+import { createClient } from '@/lib/supabase/server'
+
+interface CreateSubscriptionRequest {
+  planId: string
+}
+
+/**
+ * POST /api/payments/subscription
+ * Start a Stripe Checkout session for a subscription plan
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body: CreateSubscriptionRequest = await req.json()
+    const { planId } = body
+
+    if (!planId || typeof planId !== 'string') {
+      return NextResponse.json({ error: 'Plan is required.' }, { status: 400 })
+    }
+
+    const plan = await getSubscriptionPlan(planId)
+
+    if (!plan || !plan.isActive || !plan.stripePriceId) {
+      return NextResponse.json(
+        { error: `Subscription plan ${planId} is not available` },
+        { status: 400 }
+      )
+    }
+
+    const current = await getUserSubscription(userId)
+
+    if (current && isSubscriptionLive(current)) {
+      return NextResponse.json(
+        { error: 'You already have an active subscription.' },
+        { status: 409 }
+      )
+    }
+
+    const supabase = await createClient()
+    const {
+      data: { user }
+    } = await supabase.auth.getUser()
+
+    const checkout = await createSubscriptionCheckout({
+      plan,
+      userId,
+      userEmail: user?.email,
+      stripeCustomerId: current?.stripeCustomerId,
+      successUrl: `${req.nextUrl.origin}/account?subscription=success`,
+      cancelUrl: `${req.nextUrl.origin}/account?subscription=canceled`
+    })
+
+    return NextResponse.json(checkout)
+  } catch (error) {
+    console.error('Error creating subscription checkout:', error)
+
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create subscription checkout' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/payments/subscription
+ * Cancel the current subscription at the end of its billing period
+ */
+export async function DELETE() {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const current = await getUserSubscription(userId)
+
+    if (!current || !isSubscriptionLive(current)) {
+      return NextResponse.json(
+        { error: 'No active subscription.' },
+        { status: 404 }
+      )
+    }
+
+    const subscription = await cancelSubscriptionAtPeriodEnd(
+      current.stripeSubscriptionId
+    )
+
+    // The customer.subscription.updated webhook stores the new state
+    return NextResponse.json({
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      currentPeriodEnd: current.currentPeriodEnd
+    })
+  } catch (error) {
+    console.error('Error canceling subscription:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to cancel subscription' },
+      { status: 500 }
+    )
+  }
+}
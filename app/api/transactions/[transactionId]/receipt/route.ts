@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+
+import { getCurrentUser } from '@/lib/auth/get-current-user'
+import { renderReceiptHtml } from '@/lib/pricing/statements'
+import { getTransactionById } from '@/lib/pricing/transaction-service'
+
+/**
+ * GET /api/transactions/{transactionId}/receipt
+ * Download the receipt of a deposit as a printable HTML document
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ transactionId: string }> }
+) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { transactionId } = await params
+    const transaction = await getTransactionById(transactionId)
+
+    if (
+      !transaction ||
+      transaction.userId !== user.id ||
+      transaction.type !== 'deposit'
+    ) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 })
+    }
+
+    return new Response(renderReceiptHtml(transaction, user.email), {
+      status: 200,
+      headers: {
+        'content-type': 'text/html; charset=utf-8',
+        'content-disposition': `attachment; filename="receipt-${transaction.id}.html"`
+      }
+    })
+  } catch (error) {
+    console.error('Error generating receipt:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to generate receipt' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUser } from '@/lib/auth/get-current-user'
+import { getUserBalanceRecord } from '@/lib/pricing/balance-service'
+import {
+  buildMonthlyStatement,
+  parseStatementMonth,
+  renderStatementHtml
+} from '@/lib/pricing/statements'
+import {
+  getTransactionStats,
+  getUserTransactions,
+  Transaction
+} from '@/lib/pricing/transaction-service'
+import { getUserUsageInRange } from '@/lib/pricing/usage-tracking'
+
+// Transactions fetched per page, and the most included in one statement
+const PAGE_SIZE = 1000
+const MAX_TRANSACTIONS = 20000
+
+/**
+ * GET /api/transactions/statement?month=YYYY-MM
+ * Download a monthly statement as a printable HTML document
+ * The month defaults to the current UTC month
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const month = parseStatementMonth(req.nextUrl.searchParams.get('month'))
+
+    if ('error' in month) {
+      return NextResponse.json({ error: month.error }, { status: 400 })
+    }
+
+    const transactions: Transaction[] = []
+    while (transactions.length < MAX_TRANSACTIONS) {
+      const page = await getUserTransactions(
+        user.id,
+        PAGE_SIZE,
+        transactions.length,
+        month.startDate,
+        month.endDate
+      )
+      transactions.push(...page)
+      if (page.length < PAGE_SIZE) {
+        break
+      }
+    }
+
+    const [stats, usageRecords, previous, balanceRecord] = await Promise.all([
+      // getTransactionStats treats the end date as inclusive
+      getTransactionStats(
+        user.id,
+        month.startDate,
+        new Date(month.endDate.getTime() - 1)
+      ),
+      getUserUsageInRange(user.id, month.startDate, month.endDate),
+      getUserTransactions(user.id, 1, 0, undefined, month.startDate),
+      getUserBalanceRecord(user.id)
+    ])
+
+    const statement = buildMonthlyStatement({
+      month,
+      currency: balanceRecord?.currency || transactions[0]?.currency || 'USD',
+      transactions,
+      stats,
+      usageRecords,
+      previousBalance: previous[0]?.balanceAfter
+    })
+
+    return new Response(renderStatementHtml(statement, user.email), {
+      status: 200,
+      headers: {
+        'content-type': 'text/html; charset=utf-8',
+        'content-disposition': `attachment; filename="statement-${month.month}.html"`
+      }
+    })
+  } catch (error) {
+    console.error('Error generating statement:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to generate statement' },
+      { status: 500 }
+    )
+  }
+}
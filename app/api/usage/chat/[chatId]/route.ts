@@ -16,6 +16,7 @@ export async function GET(
           inputTokens: 0,
           outputTokens: 0,
           totalTokens: 0,
+          breakdown: [],
           messages: []
         }),
         {
@@ -40,13 +41,39 @@ export async function GET(
       0
     )
 
+    // Break the cost down by kind of model call (response, tool selection, ...)
+    const breakdownByType = new Map<
+      string,
+      { callType: string; calls: number; totalTokens: number; cost: number }
+    >()
+    for (const record of usage) {
+      const callType = record.callType ?? 'response'
+      const entry = breakdownByType.get(callType) ?? {
+        callType,
+        calls: 0,
+        totalTokens: 0,
+        cost: 0
+      }
+      entry.calls++
+      entry.totalTokens += record.totalTokens
+      entry.cost += record.totalCost
+      breakdownByType.set(callType, entry)
+    }
+    const breakdown = Array.from(breakdownByType.values()).map(entry => ({
+      ...entry,
+      cost: parseFloat(entry.cost.toFixed(6))
+    }))
+
     return new Response(
       JSON.stringify({
         totalCost: parseFloat(totalCost.toFixed(6)),
         inputTokens,
         outputTokens,
         totalTokens,
+        breakdown,
         messages: usage.map(record => ({
+          requestId: record.requestId,
+          callType: record.callType ?? 'response',
           modelId: record.modelId,
           providerId: record.providerId,
           inputTokens: record.inputTokens,
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import {
+  formatUsageDateRange,
+  parseUsageDateRange,
+  usageRecordsToCsv
+} from '@/lib/pricing/usage-analytics'
+import { getUserUsageInRange } from '@/lib/pricing/usage-tracking'
+
+/**
+ * GET /api/usage/export?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Download the raw usage records of a date range as CSV
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = req.nextUrl
+    const range = parseUsageDateRange(
+      searchParams.get('from'),
+      searchParams.get('to')
+    )
+
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 })
+    }
+
+    const records = await getUserUsageInRange(
+      userId,
+      range.startDate,
+      range.endDate
+    )
+    const { from, to } = formatUsageDateRange(range)
+
+    return new Response(usageRecordsToCsv(records), {
+      status: 200,
+      headers: {
+        'content-type': 'text/csv; charset=utf-8',
+        'content-disposition': `attachment; filename="usage-${from}-to-${to}.csv"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting usage:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to export usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getCurrentUserId } from '@/lib/auth/get-current-user'
+import {
+  parseUsageDateRange,
+  summarizeUsage
+} from '@/lib/pricing/usage-analytics'
+import { getUserUsageInRange } from '@/lib/pricing/usage-tracking'
+
+/**
+ * GET /api/usage?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Usage summary for a date range: daily spend and tokens per model, per-model
+ * totals and the most expensive chats (defaults to the last 30 days)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+
+    if (userId === 'anonymous') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = req.nextUrl
+    const range = parseUsageDateRange(
+      searchParams.get('from'),
+      searchParams.get('to')
+    )
+
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 })
+    }
+
+    const records = await getUserUsageInRange(
+      userId,
+      range.startDate,
+      range.endDate
+    )
+
+    return NextResponse.json(summarizeUsage(records, range))
+  } catch (error) {
+    console.error('Error fetching usage summary:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to fetch usage summary' },
+      { status: 500 }
+    )
+  }
+}
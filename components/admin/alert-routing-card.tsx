@@ -0,0 +1,258 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { Bell, RefreshCw, RotateCcw } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+
+interface AlertChannelRow {
+  id: string
+  name: string
+  configured: boolean
+}
+
+interface AlertRouteRow {
+  eventType: string
+  channels: string[]
+  isDefault: boolean
+  updatedBy?: string
+  updatedAt?: string
+}
+
+interface AlertRoutingData {
+  channels: AlertChannelRow[]
+  routes: AlertRouteRow[]
+}
+
+const EVENT_LABELS: Record<string, { name: string; description: string }> = {
+  sync_result: {
+    name: 'Sync result',
+    description: 'A sync applied changes or failed'
+  },
+  review_needed: {
+    name: 'Review needed',
+    description: 'Sync changes are waiting for approval'
+  },
+  provider_failure: {
+    name: 'Provider failure',
+    description: 'Pricing providers could not be fetched'
+  },
+  reconciliation_discrepancy: {
+    name: 'Reconciliation discrepancy',
+    description: 'Billing reconciliation found new discrepancies'
+  },
+  low_margin: {
+    name: 'Low platform margin',
+    description: 'The margin over the last day is below the minimum'
+  }
+}
+
+export function AlertRoutingCard() {
+  const [data, setData] = useState<AlertRoutingData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchRoutes()
+  }, [])
+
+  const fetchRoutes = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/pricing/alerts')
+      if (!response.ok) {
+        throw new Error('Failed to fetch alert routes')
+      }
+      setData(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleChannel = async (
+    route: AlertRouteRow,
+    channelId: string,
+    checked: boolean
+  ) => {
+    const channels = checked
+      ? [...route.channels, channelId]
+      : route.channels.filter(c => c !== channelId)
+
+    setSavingKey(route.eventType)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/alerts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventType: route.eventType, channels })
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.details || 'Failed to save alert route')
+      }
+
+      await fetchRoutes()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to save alert route'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const resetRoute = async (eventType: string) => {
+    setSavingKey(eventType)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/admin/pricing/alerts?eventType=${eventType}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to reset alert route')
+      }
+
+      await fetchRoutes()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to reset alert route'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Alert Routing
+        </CardTitle>
+        <CardDescription>
+          Choose the channels each alert is sent to. Alerts without a chosen set
+          go to every configured channel. Channels are configured with
+          environment variables.
+        </CardDescription>
+        {data && (
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            {data.channels.map(channel => (
+              <Badge
+                key={channel.id}
+                variant={channel.configured ? 'default' : 'secondary'}
+              >
+                {channel.name}: {channel.configured ? 'configured' : 'not set'}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {loading && !data ? (
+          <div className="flex justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          data && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left font-medium py-2 pr-4">Event</th>
+                    {data.channels.map(channel => (
+                      <th
+                        key={channel.id}
+                        className="font-medium py-2 px-3 text-center"
+                      >
+                        {channel.name}
+                      </th>
+                    ))}
+                    <th className="py-2 pl-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.routes.map(route => {
+                    const label = EVENT_LABELS[route.eventType]
+
+                    return (
+                      <tr key={route.eventType} className="border-b">
+                        <td className="py-3 pr-4">
+                          <div className="font-medium">
+                            {label?.name ?? route.eventType}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {label?.description}
+                            {route.updatedBy && ` · set by ${route.updatedBy}`}
+                          </div>
+                        </td>
+                        {data.channels.map(channel => {
+                          const checked = route.channels.includes(channel.id)
+
+                          return (
+                            <td
+                              key={channel.id}
+                              className="py-3 px-3 text-center"
+                            >
+                              <Checkbox
+                                checked={checked}
+                                disabled={
+                                  savingKey === route.eventType ||
+                                  (!channel.configured && !checked)
+                                }
+                                onCheckedChange={value =>
+                                  toggleChannel(
+                                    route,
+                                    channel.id,
+                                    value === true
+                                  )
+                                }
+                              />
+                            </td>
+                          )
+                        })}
+                        <td className="py-3 pl-3 text-right">
+                          {route.isDefault ? (
+                            <Badge variant="outline">default</Badge>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Send to every configured channel"
+                              disabled={savingKey === route.eventType}
+                              onClick={() => resetRoute(route.eventType)}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,462 @@
+'use client'
+
+import { useState } from 'react'
+
+import { RefreshCw, Search } from 'lucide-react'
+
+import { formatCost } from '@/lib/pricing/format'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+type ManualType = 'adjustment' | 'refund'
+
+interface AccountRow {
+  userId: string
+  ownerType: 'user' | 'organization'
+  label: string
+  balance?: number
+  currency?: string
+  createdAt: string
+}
+
+interface TransactionRow {
+  id: string
+  type: 'deposit' | 'usage' | 'refund' | 'adjustment'
+  amount: number
+  currency: string
+  balanceBefore: number
+  balanceAfter: number
+  description?: string
+  stripePaymentIntentId?: string
+  stripeRefundId?: string
+  metadata?: Record<string, unknown>
+  createdAt: string
+}
+
+interface AuditRow {
+  id: string
+  adminEmail?: string
+  action: 'stripe_refund' | 'balance_adjustment' | 'manual_refund'
+  amount?: number
+  currency?: string
+  reason: string
+  outcome: 'succeeded' | 'failed'
+  details?: Record<string, unknown>
+  createdAt: string
+}
+
+interface AccountData {
+  account: AccountRow
+  transactions: TransactionRow[]
+  audit: AuditRow[]
+}
+
+const ACTION_LABELS: Record<AuditRow['action'], string> = {
+  stripe_refund: 'Stripe refund',
+  balance_adjustment: 'Adjustment',
+  manual_refund: 'Manual refund'
+}
+
+// Deposits converted to the ledger currency record what was paid
+function getPaymentCurrency(transaction: TransactionRow) {
+  const depositCurrency = transaction.metadata?.depositCurrency
+  return typeof depositCurrency === 'string'
+    ? depositCurrency
+    : transaction.currency
+}
+
+export function BillingConsole() {
+  const [query, setQuery] = useState('')
+  const [accounts, setAccounts] = useState<AccountRow[] | null>(null)
+  const [selected, setSelected] = useState<AccountData | null>(null)
+  const [reason, setReason] = useState('')
+  const [manualType, setManualType] = useState<ManualType>('adjustment')
+  const [manualAmount, setManualAmount] = useState('')
+  const [refundAmounts, setRefundAmounts] = useState<Record<string, string>>({})
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const search = async () => {
+    if (!query.trim()) return
+
+    setSavingKey('search')
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/admin/billing?q=${encodeURIComponent(query.trim())}`
+      )
+      if (!response.ok) {
+        throw new Error('Failed to search accounts')
+      }
+      const data = await response.json()
+      setAccounts(data.accounts)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search accounts')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const fetchAccount = async (userId: string) => {
+    setSavingKey('account')
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/admin/billing?userId=${encodeURIComponent(userId)}`
+      )
+      if (!response.ok) {
+        throw new Error('Failed to fetch account')
+      }
+      setSelected(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load account')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const submit = async (key: string, body: Record<string, unknown>) => {
+    if (!selected) return
+
+    if (!reason.trim()) {
+      setError('Enter a reason for this action')
+      return
+    }
+
+    setSavingKey(key)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/admin/billing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...body,
+          userId: selected.account.userId,
+          reason
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Action failed')
+      }
+
+      setMessage(
+        data.error ||
+          (data.refundId ? `Refund ${data.refundId} issued` : 'Saved')
+      )
+      setReason('')
+      setManualAmount('')
+      setRefundAmounts({})
+      await fetchAccount(selected.account.userId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const refund = (transaction: TransactionRow) => {
+    const amount = refundAmounts[transaction.id]
+
+    submit(transaction.id, {
+      action: 'stripe_refund',
+      transactionId: transaction.id,
+      // Left empty to refund what is left of the deposit
+      amount: amount ? parseFloat(amount) : undefined
+    })
+  }
+
+  const postManual = () => {
+    submit('manual', {
+      action: 'manual',
+      type: manualType,
+      amount: parseFloat(manualAmount)
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+          <CardDescription>
+            Search users by email or ID and organizations by name or ID
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <form
+            className="flex gap-2"
+            onSubmit={e => {
+              e.preventDefault()
+              search()
+            }}
+          >
+            <Input
+              placeholder="Email, name or ID"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={savingKey === 'search'}
+            >
+              {savingKey === 'search' ? (
+                <RefreshCw className="h-4 w-4 animate-spin" />
+              ) : (
+                <Search className="h-4 w-4" />
+              )}
+            </Button>
+          </form>
+
+          {accounts?.length === 0 && (
+            <p className="text-sm text-muted-foreground">No accounts found</p>
+          )}
+          {accounts?.map(account => (
+            <button
+              key={account.userId}
+              className="flex w-full items-center justify-between gap-4 p-3 border rounded-lg text-left hover:bg-muted"
+              onClick={() => fetchAccount(account.userId)}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{account.label}</span>
+                  {account.ownerType === 'organization' && (
+                    <Badge variant="secondary">Organization</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground font-mono truncate">
+                  {account.userId}
+                </p>
+              </div>
+              <span className="text-sm shrink-0">
+                {account.balance !== undefined
+                  ? formatCost(account.balance, account.currency)
+                  : 'No balance'}
+              </span>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <CardTitle className="truncate">
+                    {selected.account.label}
+                  </CardTitle>
+                  <CardDescription className="font-mono truncate">
+                    {selected.account.userId}
+                  </CardDescription>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-2xl font-bold">
+                    {formatCost(
+                      selected.account.balance ?? 0,
+                      selected.account.currency
+                    )}
+                  </p>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={savingKey === 'account'}
+                    onClick={() => fetchAccount(selected.account.userId)}
+                  >
+                    <RefreshCw
+                      className={`h-4 w-4 ${savingKey === 'account' ? 'animate-spin' : ''}`}
+                    />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input
+                placeholder="Reason (required, saved to the audit trail)"
+                maxLength={500}
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                {(['adjustment', 'refund'] as ManualType[]).map(type => (
+                  <Button
+                    key={type}
+                    size="sm"
+                    variant={manualType === type ? 'default' : 'ghost'}
+                    onClick={() => setManualType(type)}
+                  >
+                    {type === 'adjustment' ? 'Adjustment' : 'Refund'}
+                  </Button>
+                ))}
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder={
+                    manualType === 'adjustment' ? '+/- Amount' : 'Amount'
+                  }
+                  className="w-32 h-8"
+                  value={manualAmount}
+                  onChange={e => setManualAmount(e.target.value)}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={savingKey === 'manual' || !manualAmount}
+                  onClick={postManual}
+                >
+                  Post transaction
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Adjustments credit a positive amount and debit a negative one;
+                refunds credit the balance without a Stripe refund. To return
+                money to the card, refund the deposit below.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Ledger</CardTitle>
+              <CardDescription>
+                Latest {selected.transactions.length} transactions. Leave the
+                refund amount empty to refund what is left of a deposit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {selected.transactions.length === 0 && (
+                <p className="text-sm text-muted-foreground">No transactions</p>
+              )}
+              {selected.transactions.map(transaction => {
+                const credit =
+                  transaction.balanceAfter >= transaction.balanceBefore
+
+                return (
+                  <div
+                    key={transaction.id}
+                    className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">{transaction.type}</Badge>
+                        <span
+                          className={`font-medium ${credit ? 'text-green-600' : 'text-red-600'}`}
+                        >
+                          {credit ? '+' : '-'}
+                          {formatCost(transaction.amount, transaction.currency)}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          Balance{' '}
+                          {formatCost(
+                            transaction.balanceAfter,
+                            transaction.currency
+                          )}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {new Date(transaction.createdAt).toLocaleString()}
+                        {transaction.description &&
+                          ` · ${transaction.description}`}
+                      </p>
+                    </div>
+                    {transaction.type === 'deposit' &&
+                      transaction.stripePaymentIntentId && (
+                        <div className="flex gap-2 shrink-0">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder={`Full (${getPaymentCurrency(transaction)})`}
+                            className="w-32 h-8"
+                            value={refundAmounts[transaction.id] ?? ''}
+                            onChange={e =>
+                              setRefundAmounts(prev => ({
+                                ...prev,
+                                [transaction.id]: e.target.value
+                              }))
+                            }
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={savingKey === transaction.id}
+                            onClick={() => refund(transaction)}
+                          >
+                            Refund
+                          </Button>
+                        </div>
+                      )}
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Audit Trail</CardTitle>
+              <CardDescription>
+                Admin refunds and balance changes on this account
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {selected.audit.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No admin actions
+                </p>
+              )}
+              {selected.audit.map(entry => (
+                <div key={entry.id} className="p-3 border rounded-lg space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline">
+                      {ACTION_LABELS[entry.action]}
+                    </Badge>
+                    <Badge
+                      variant={
+                        entry.outcome === 'failed' ? 'destructive' : 'secondary'
+                      }
+                    >
+                      {entry.outcome}
+                    </Badge>
+                    {entry.amount !== undefined && (
+                      <span className="font-medium">
+                        {formatCost(entry.amount, entry.currency)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm">{entry.reason}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.adminEmail} ·{' '}
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {typeof entry.details?.error === 'string' &&
+                      ` · ${entry.details.error}`}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { RefreshCw, Save, Trash2 } from 'lucide-react'
+
+import { getSupportedCurrencies } from '@/lib/pricing/currency-service'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface ManualRateRow {
+  currency: string
+  ratePerUsd: number
+  updatedBy?: string
+  updatedAt: string
+}
+
+interface ExchangeRatesData {
+  configuredSource: string
+  source: string
+  asOf: string
+  rates: Record<string, number>
+  manualRates: ManualRateRow[]
+}
+
+// USD is the base currency and has no rate to enter
+const CURRENCIES = getSupportedCurrencies().filter(c => c.code !== 'USD')
+
+export function ExchangeRatesTab() {
+  const [data, setData] = useState<ExchangeRatesData | null>(null)
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchRates()
+  }, [])
+
+  const fetchRates = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/pricing/exchange-rates')
+      if (!response.ok) {
+        throw new Error('Failed to fetch exchange rates')
+      }
+      setData(await response.json())
+      setDrafts({})
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load exchange rates'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveRate = async (currency: string) => {
+    const ratePerUsd = parseFloat(drafts[currency])
+
+    if (!Number.isFinite(ratePerUsd) || ratePerUsd <= 0) {
+      setError('Rate must be a positive number')
+      return
+    }
+
+    setSavingKey(currency)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/exchange-rates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency, ratePerUsd })
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.details || 'Failed to save exchange rate')
+      }
+
+      await fetchRates()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to save exchange rate'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const deleteRate = async (currency: string) => {
+    setSavingKey(currency)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/admin/pricing/exchange-rates?currency=${currency}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to delete exchange rate')
+      }
+
+      await fetchRates()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to delete exchange rate'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const manualRates = new Map(
+    (data?.manualRates || []).map(row => [row.currency, row])
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+        <CardDescription>
+          Deposits are converted into the user&apos;s balance currency at these
+          rates (units per 1 USD), and deposit limits apply to the USD
+          equivalent. Entered rates are used when EXCHANGE_RATE_SOURCE is
+          database.
+        </CardDescription>
+        {data && (
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <Badge variant="outline">configured: {data.configuredSource}</Badge>
+            <Badge
+              variant={
+                data.source === data.configuredSource
+                  ? 'secondary'
+                  : 'destructive'
+              }
+            >
+              in use: {data.source}
+            </Badge>
+            <span className="text-xs text-muted-foreground">
+              as of {new Date(data.asOf).toLocaleString()}
+            </span>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {CURRENCIES.map(({ code, name }) => {
+              const manual = manualRates.get(code)
+              const draft = drafts[code]
+              const isDirty =
+                draft !== undefined &&
+                draft !== '' &&
+                parseFloat(draft) !== manual?.ratePerUsd
+
+              return (
+                <div
+                  key={code}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-medium">{code}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {name}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      in use:{' '}
+                      {data?.rates[code] !== undefined
+                        ? data.rates[code].toPrecision(6)
+                        : 'none'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder="Not set"
+                      className="w-32 h-8"
+                      value={draft ?? manual?.ratePerUsd.toString() ?? ''}
+                      onChange={e =>
+                        setDrafts(prev => ({ ...prev, [code]: e.target.value }))
+                      }
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!isDirty || savingKey === code}
+                      onClick={() => saveRate(code)}
+                    >
+                      {savingKey === code ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Save className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={!manual || savingKey === code}
+                      onClick={() => deleteRate(code)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,483 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { Plus, RefreshCw, Save, Trash2 } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+
+interface PricingPlanRow {
+  id: string
+  name: string
+  description?: string
+  minChargePerRequest: number
+  isDefault: boolean
+}
+
+interface MarkupRuleRow {
+  id: string
+  planId: string | null
+  providerId: string | null
+  modelId: string | null
+  markupType: 'percentage' | 'fixed'
+  markupValue: number
+  description?: string
+  isActive: boolean
+}
+
+interface MarginRow {
+  providerId: string
+  providerCost: number
+  billedAmount: number
+  margin: number
+}
+
+interface MarginReport {
+  providerCost: number
+  billedAmount: number
+  margin: number
+  byProvider: MarginRow[]
+}
+
+const ALL_PLANS = 'all'
+
+const EMPTY_RULE = {
+  planId: ALL_PLANS,
+  providerId: '',
+  modelId: '',
+  markupType: 'percentage' as MarkupRuleRow['markupType'],
+  markupValue: ''
+}
+
+function formatMarkup(rule: MarkupRuleRow) {
+  return rule.markupType === 'percentage'
+    ? `${rule.markupValue > 0 ? '+' : ''}${rule.markupValue}%`
+    : `+$${rule.markupValue} / request`
+}
+
+function formatUsd(amount: number) {
+  return `$${amount.toFixed(4)}`
+}
+
+export function MarkupPricingTab() {
+  const [plans, setPlans] = useState<PricingPlanRow[]>([])
+  const [rules, setRules] = useState<MarkupRuleRow[]>([])
+  const [margin, setMargin] = useState<MarginReport | null>(null)
+  const [planDrafts, setPlanDrafts] = useState<Record<string, string>>({})
+  const [newRule, setNewRule] = useState(EMPTY_RULE)
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchMarkups()
+  }, [])
+
+  const fetchMarkups = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/pricing/markups')
+      if (!response.ok) {
+        throw new Error('Failed to fetch markup pricing')
+      }
+      const data = await response.json()
+      setPlans(data.plans || [])
+      setRules(data.rules || [])
+      setMargin(data.margin || null)
+      setPlanDrafts({})
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load markup pricing'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveMinCharge = async (plan: PricingPlanRow) => {
+    const minChargePerRequest = parseFloat(planDrafts[plan.id])
+
+    if (!Number.isFinite(minChargePerRequest) || minChargePerRequest < 0) {
+      setError('Minimum charge must be a non-negative number')
+      return
+    }
+
+    setSavingKey(`plan:${plan.id}`)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/plans', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ planId: plan.id, minChargePerRequest })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update pricing plan')
+      }
+
+      await fetchMarkups()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update pricing plan'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const saveRule = async (rule: Partial<MarkupRuleRow>, key: string) => {
+    setSavingKey(key)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/markups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule)
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details || 'Failed to save markup rule')
+      }
+
+      await fetchMarkups()
+      return true
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to save markup rule'
+      )
+      return false
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const addRule = async () => {
+    const markupValue = parseFloat(newRule.markupValue)
+
+    if (!Number.isFinite(markupValue)) {
+      setError('Markup value must be a number')
+      return
+    }
+
+    const saved = await saveRule(
+      {
+        planId: newRule.planId === ALL_PLANS ? null : newRule.planId,
+        providerId: newRule.providerId.trim() || null,
+        modelId: newRule.modelId.trim() || null,
+        markupType: newRule.markupType,
+        markupValue,
+        isActive: true
+      },
+      'new'
+    )
+
+    if (saved) {
+      setNewRule(EMPTY_RULE)
+    }
+  }
+
+  const deleteRule = async (rule: MarkupRuleRow) => {
+    setSavingKey(rule.id)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/admin/pricing/markups?id=${encodeURIComponent(rule.id)}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to delete markup rule')
+      }
+
+      await fetchMarkups()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to delete markup rule'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Margin (last 30 days)</CardTitle>
+          <CardDescription>
+            Provider cost against the amount billed to users
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {margin ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">Provider cost</p>
+                  <p className="text-lg font-medium">
+                    {formatUsd(margin.providerCost)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Billed</p>
+                  <p className="text-lg font-medium">
+                    {formatUsd(margin.billedAmount)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Margin</p>
+                  <p className="text-lg font-medium">
+                    {formatUsd(margin.margin)}
+                  </p>
+                </div>
+              </div>
+              {margin.byProvider.map(row => (
+                <div
+                  key={row.providerId}
+                  className="flex items-center justify-between p-2 border rounded text-sm"
+                >
+                  <Badge variant="outline">{row.providerId}</Badge>
+                  <span className="text-muted-foreground">
+                    {formatUsd(row.providerCost)} →{' '}
+                    {formatUsd(row.billedAmount)} ({formatUsd(row.margin)})
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Margin report unavailable
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Plans</CardTitle>
+          <CardDescription>
+            Minimum amount billed for a request on each plan
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {plans.map(plan => {
+            const draft = planDrafts[plan.id]
+            const isDirty =
+              draft !== undefined &&
+              parseFloat(draft) !== plan.minChargePerRequest
+
+            return (
+              <div
+                key={plan.id}
+                className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{plan.name}</span>
+                  {plan.isDefault && <Badge variant="secondary">default</Badge>}
+                  {plan.description && (
+                    <span className="text-xs text-muted-foreground">
+                      {plan.description}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">min $</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    className="w-28 h-8"
+                    value={draft ?? plan.minChargePerRequest.toString()}
+                    onChange={e =>
+                      setPlanDrafts(prev => ({
+                        ...prev,
+                        [plan.id]: e.target.value
+                      }))
+                    }
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    / request
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!isDirty || savingKey === `plan:${plan.id}`}
+                    onClick={() => saveMinCharge(plan)}
+                  >
+                    {savingKey === `plan:${plan.id}` ? (
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Markup Rules</CardTitle>
+          <CardDescription>
+            Markups over provider cost; the most specific active rule applies
+            (model, then provider, then plan)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No markup rules; usage is billed at provider cost
+            </p>
+          )}
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+            >
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{rule.planId ?? 'all plans'}</Badge>
+                <Badge variant="outline">
+                  {rule.providerId ?? 'all providers'}
+                </Badge>
+                {rule.modelId && (
+                  <span className="text-sm font-mono">{rule.modelId}</span>
+                )}
+                <span className="font-medium">{formatMarkup(rule)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant={rule.isActive ? 'outline' : 'ghost'}
+                  disabled={savingKey === rule.id}
+                  onClick={() =>
+                    saveRule({ ...rule, isActive: !rule.isActive }, rule.id)
+                  }
+                >
+                  {rule.isActive ? 'Active' : 'Inactive'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={savingKey === rule.id}
+                  onClick={() => deleteRule(rule)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-2 p-3 border border-dashed rounded-lg">
+            <Select
+              value={newRule.planId}
+              onValueChange={value =>
+                setNewRule(prev => ({ ...prev, planId: value }))
+              }
+            >
+              <SelectTrigger className="w-36 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PLANS}>All plans</SelectItem>
+                {plans.map(plan => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {plan.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Provider (optional)"
+              className="w-40 h-8"
+              value={newRule.providerId}
+              onChange={e =>
+                setNewRule(prev => ({ ...prev, providerId: e.target.value }))
+              }
+            />
+            <Input
+              placeholder="Model (optional)"
+              className="w-48 h-8"
+              value={newRule.modelId}
+              onChange={e =>
+                setNewRule(prev => ({ ...prev, modelId: e.target.value }))
+              }
+            />
+            <Select
+              value={newRule.markupType}
+              onValueChange={value =>
+                setNewRule(prev => ({
+                  ...prev,
+                  markupType: value as MarkupRuleRow['markupType']
+                }))
+              }
+            >
+              <SelectTrigger className="w-32 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percentage">Percent</SelectItem>
+                <SelectItem value="fixed">Fixed $</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="Value"
+              className="w-24 h-8"
+              value={newRule.markupValue}
+              onChange={e =>
+                setNewRule(prev => ({ ...prev, markupValue: e.target.value }))
+              }
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={savingKey === 'new'}
+              onClick={addRule}
+            >
+              {savingKey === 'new' ? (
+                <RefreshCw className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+'use client'
+
+import { useState } from 'react'
+
+import { Download, RefreshCw, Upload } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface CatalogPricing {
+  inputPricePer1kTokens: number
+  outputPricePer1kTokens: number
+}
+
+interface CatalogChange {
+  modelId: string
+  providerId: string
+  changeType: 'new' | 'updated' | 'removed' | 'unchanged'
+  oldPricing?: CatalogPricing
+  newPricing?: CatalogPricing
+  changePercent?: { input: number; output: number }
+  validation?: { valid: boolean; errors: string[]; warnings: string[] }
+}
+
+interface CatalogSummary {
+  layout: string
+  models: number
+  skipped: string[]
+  errors: string[]
+}
+
+interface CatalogPreview {
+  valid: boolean
+  validation: {
+    total: number
+    valid: number
+    invalid: number
+    warnings: number
+    issues: { key: string; errors: string[]; warnings: string[] }[]
+  }
+  changes: { summary: string; changes: CatalogChange[] }
+}
+
+const LAYOUT_LABELS: Record<string, string> = {
+  native: 'Pricing export (JSON)',
+  csv: 'Pricing export (CSV)',
+  litellm: 'LiteLLM',
+  openrouter: 'OpenRouter'
+}
+
+function formatPrice(pricing?: CatalogPricing) {
+  return pricing
+    ? `$${pricing.inputPricePer1kTokens} / $${pricing.outputPricePer1kTokens}`
+    : '—'
+}
+
+export function PricingCatalogTab() {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [content, setContent] = useState<string | null>(null)
+  const [catalog, setCatalog] = useState<CatalogSummary | null>(null)
+  const [preview, setPreview] = useState<CatalogPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const submit = async (text: string, apply: boolean, force = false) => {
+    setLoading(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/catalog', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: text, fileName, apply, force })
+      })
+      const data = await response.json()
+
+      setCatalog(data.catalog || null)
+      setPreview(data.preview || null)
+
+      if (!response.ok) {
+        throw new Error(
+          data.details ? `${data.error}: ${data.details}` : data.error
+        )
+      }
+
+      if (apply) {
+        setMessage(`Applied ${data.applied} pricing changes from ${fileName}`)
+        setContent(null)
+        setPreview(null)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Catalog import failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectFile = async (file?: File) => {
+    setCatalog(null)
+    setPreview(null)
+
+    if (!file) {
+      setFileName(null)
+      setContent(null)
+      return
+    }
+
+    const text = await file.text()
+    setFileName(file.name)
+    setContent(text)
+    await submit(text, false)
+  }
+
+  const changes =
+    preview?.changes.changes.filter(c => c.changeType !== 'unchanged') || []
+  const rejected = changes.filter(c => c.validation && !c.validation.valid)
+  const canApply =
+    !!content &&
+    !!preview?.valid &&
+    !catalog?.errors.length &&
+    changes.length > 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pricing Catalog</CardTitle>
+        <CardDescription>
+          Export the model pricing table, or import a catalog file (pricing
+          export, LiteLLM or OpenRouter JSON). Imports are previewed before they
+          are applied.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/admin/pricing/catalog?format=json">
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/admin/pricing/catalog?format=csv">
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+          <Input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="w-72 h-9"
+            disabled={loading}
+            onChange={e => selectFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+        {loading && (
+          <div className="flex justify-center py-4">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {catalog && (
+          <div className="space-y-1 text-sm">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">
+                {LAYOUT_LABELS[catalog.layout] ?? catalog.layout}
+              </Badge>
+              <span>{catalog.models} models</span>
+              {catalog.skipped.length > 0 && (
+                <span className="text-muted-foreground">
+                  • {catalog.skipped.length} skipped (unsupported provider,
+                  non-chat model or duplicate)
+                </span>
+              )}
+            </div>
+            {catalog.errors.map(e => (
+              <p key={e} className="text-red-600">
+                {e}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              <span className="font-medium">Dry run:</span>{' '}
+              {preview.changes.summary}
+              {preview.validation.invalid > 0 &&
+                ` • ${preview.validation.invalid} invalid`}
+              {preview.validation.warnings > 0 &&
+                ` • ${preview.validation.warnings} with warnings`}
+            </p>
+
+            {preview.validation.issues.map(issue => (
+              <div key={issue.key} className="text-sm">
+                <span className="font-medium">{issue.key}</span>
+                {issue.errors.map(e => (
+                  <p key={e} className="text-red-600">
+                    {e}
+                  </p>
+                ))}
+                {issue.warnings.map(w => (
+                  <p key={w} className="text-yellow-600">
+                    {w}
+                  </p>
+                ))}
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              {changes.map(change => (
+                <div
+                  key={`${change.providerId}:${change.modelId}`}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant={
+                        change.changeType === 'new' ? 'default' : 'secondary'
+                      }
+                    >
+                      {change.changeType}
+                    </Badge>
+                    <span className="font-medium">{change.modelId}</span>
+                    <Badge variant="outline">{change.providerId}</Badge>
+                  </div>
+                  <div className="text-right">
+                    <p>
+                      <span className="text-muted-foreground">
+                        {formatPrice(change.oldPricing)} →{' '}
+                      </span>
+                      {formatPrice(change.newPricing)}
+                    </p>
+                    {change.changePercent && (
+                      <p className="text-xs text-muted-foreground">
+                        {change.changePercent.input.toFixed(1)}% input,{' '}
+                        {change.changePercent.output.toFixed(1)}% output
+                      </p>
+                    )}
+                    {change.validation?.errors.map(e => (
+                      <p key={e} className="text-xs text-red-600">
+                        {e}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={!canApply || loading || rejected.length > 0}
+                onClick={() => content && submit(content, true)}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Apply {changes.length} changes
+              </Button>
+              {rejected.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={!canApply || loading}
+                  onClick={() => content && submit(content, true, true)}
+                >
+                  Apply anyway ({rejected.length} flagged)
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,292 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { Check, RefreshCw, X } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface ReviewPricing {
+  inputPricePer1kTokens: number
+  outputPricePer1kTokens: number
+}
+
+interface PendingChange {
+  id: string
+  modelId: string
+  providerId: string
+  changeType: 'new' | 'updated'
+  oldPricing?: ReviewPricing
+  newPricing: ReviewPricing
+  changePercent?: { input: number; output: number }
+  errors: string[]
+  warnings: string[]
+  source: string
+  createdAt: string
+}
+
+interface Draft {
+  input?: string
+  output?: string
+  note?: string
+}
+
+function formatPercent(value: number) {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`
+}
+
+export function PricingReviewTab() {
+  const [changes, setChanges] = useState<PendingChange[]>([])
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({})
+  const [loading, setLoading] = useState(true)
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchChanges()
+  }, [])
+
+  const fetchChanges = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/pricing/review')
+      if (!response.ok) {
+        throw new Error('Failed to fetch pending changes')
+      }
+      const data = await response.json()
+      setChanges(data.changes || [])
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load pending changes'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateDraft = (id: string, draft: Draft) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...draft } }))
+  }
+
+  const review = async (
+    change: PendingChange,
+    action: 'approve' | 'reject'
+  ) => {
+    const draft = drafts[change.id] || {}
+    const edits: Record<string, number> = {}
+
+    if (action === 'approve') {
+      for (const [field, value] of [
+        ['inputPricePer1kTokens', draft.input],
+        ['outputPricePer1kTokens', draft.output]
+      ] as const) {
+        if (value === undefined || value === '') continue
+
+        const price = parseFloat(value)
+        if (!Number.isFinite(price) || price < 0) {
+          setError('Prices must be non-negative numbers')
+          return
+        }
+        if (price !== change.newPricing[field]) {
+          edits[field] = price
+        }
+      }
+    }
+
+    setReviewingId(change.id)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: change.id,
+          action,
+          edits,
+          note: draft.note || undefined
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(
+          data.details ? `${data.error}: ${data.details}` : data.error
+        )
+      }
+
+      setDrafts(prev => {
+        const { [change.id]: _, ...rest } = prev
+        return rest
+      })
+      await fetchChanges()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Review failed')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pending Pricing Changes</CardTitle>
+        <CardDescription>
+          Changes the sync flagged for review. Approve them as reported, edit
+          the prices before approving, or reject them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No pricing changes awaiting review
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {changes.map(change => {
+              const draft = drafts[change.id] || {}
+              const busy = reviewingId === change.id
+
+              return (
+                <div
+                  key={change.id}
+                  className="flex flex-col gap-3 p-4 border rounded-lg"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      <Badge
+                        variant={
+                          change.changeType === 'new' ? 'default' : 'secondary'
+                        }
+                      >
+                        {change.changeType}
+                      </Badge>
+                      <span className="font-medium">{change.modelId}</span>
+                      <Badge variant="outline">{change.providerId}</Badge>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {change.source} •{' '}
+                      {new Date(change.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    {(['input', 'output'] as const).map(kind => {
+                      const field =
+                        kind === 'input'
+                          ? 'inputPricePer1kTokens'
+                          : 'outputPricePer1kTokens'
+
+                      return (
+                        <div key={kind} className="space-y-1">
+                          <p className="text-muted-foreground capitalize">
+                            {kind} / 1k tokens
+                          </p>
+                          <div className="flex items-center gap-2">
+                            <span>
+                              {change.oldPricing
+                                ? `$${change.oldPricing[field]}`
+                                : '—'}{' '}
+                              →
+                            </span>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.000001"
+                              className="w-32 h-8"
+                              value={
+                                draft[kind] ??
+                                change.newPricing[field].toString()
+                              }
+                              onChange={e =>
+                                updateDraft(change.id, {
+                                  [kind]: e.target.value
+                                })
+                              }
+                            />
+                            {change.changePercent && (
+                              <Badge
+                                variant={
+                                  change.changePercent[kind] > 0
+                                    ? 'destructive'
+                                    : 'default'
+                                }
+                              >
+                                {formatPercent(change.changePercent[kind])}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+
+                  {(change.errors.length > 0 || change.warnings.length > 0) && (
+                    <div className="text-sm">
+                      {change.errors.map(e => (
+                        <p key={e} className="text-red-600">
+                          {e}
+                        </p>
+                      ))}
+                      {change.warnings.map(w => (
+                        <p key={w} className="text-yellow-600">
+                          {w}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2">
+                    <Input
+                      placeholder="Note (optional)"
+                      className="h-8"
+                      value={draft.note ?? ''}
+                      onChange={e =>
+                        updateDraft(change.id, { note: e.target.value })
+                      }
+                    />
+                    <Button
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => review(change, 'approve')}
+                    >
+                      {busy ? (
+                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Check className="h-4 w-4 mr-2" />
+                      )}
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busy}
+                      onClick={() => review(change, 'reject')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
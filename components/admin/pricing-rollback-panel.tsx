@@ -0,0 +1,292 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { History, RefreshCw, RotateCcw } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+
+interface RollbackPricing {
+  inputPricePer1kTokens: number
+  outputPricePer1kTokens: number
+}
+
+interface RollbackChange {
+  modelId: string
+  providerId: string
+  changeType: 'new' | 'updated' | 'removed' | 'unchanged'
+  oldPricing?: RollbackPricing
+  newPricing?: RollbackPricing
+}
+
+interface RollbackPreview {
+  at: string
+  changes: { summary: string; changes: RollbackChange[] }
+  addedLater: string[]
+}
+
+interface SyncRun {
+  startedAt: string
+  changes: number
+}
+
+// Select value for restoring to a chosen time instead of a sync run
+const CHOSEN_TIME = 'time'
+
+function formatPrice(pricing?: RollbackPricing) {
+  return pricing
+    ? `$${pricing.inputPricePer1kTokens} / $${pricing.outputPricePer1kTokens}`
+    : '—'
+}
+
+export function PricingRollbackPanel({
+  onRestored
+}: {
+  onRestored?: () => void
+}) {
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([])
+  const [target, setTarget] = useState(CHOSEN_TIME)
+  const [at, setAt] = useState('')
+  const [providerId, setProviderId] = useState('')
+  const [modelId, setModelId] = useState('')
+  const [note, setNote] = useState('')
+  const [preview, setPreview] = useState<RollbackPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSyncRuns()
+  }, [])
+
+  const fetchSyncRuns = async () => {
+    try {
+      const response = await fetch('/api/admin/pricing/rollback')
+      if (!response.ok) {
+        throw new Error('Failed to fetch sync runs')
+      }
+      const data = await response.json()
+      setSyncRuns(data.syncRuns || [])
+    } catch (err) {
+      console.error('Failed to fetch sync runs:', err)
+    }
+  }
+
+  const submit = async (apply: boolean) => {
+    if (target === CHOSEN_TIME && !at) {
+      setError('Choose a time or sync run to restore to')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          providerId: providerId.trim() || undefined,
+          modelId: modelId.trim() || undefined,
+          // datetime-local values are in the admin's time zone
+          at: target === CHOSEN_TIME ? new Date(at).toISOString() : undefined,
+          syncRun: target === CHOSEN_TIME ? undefined : target,
+          note: note || undefined,
+          apply
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(
+          data.details ? `${data.error}: ${data.details}` : data.error
+        )
+      }
+
+      if (apply) {
+        setMessage(`Restored pricing of ${data.restored} models`)
+        setPreview(null)
+        setNote('')
+        onRestored?.()
+      } else {
+        setPreview(data)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Rollback failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const changes =
+    preview?.changes.changes.filter(c => c.changeType !== 'unchanged') || []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Restore Pricing</CardTitle>
+        <CardDescription>
+          Restore one model, one provider or the whole catalog to its pricing at
+          a chosen time or just before a sync run. Leave provider and model
+          empty to restore every model. Each restored model gets a new history
+          entry.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <Label>Restore to</Label>
+            <Select
+              value={target}
+              onValueChange={value => {
+                setTarget(value)
+                setPreview(null)
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CHOSEN_TIME}>A chosen time</SelectItem>
+                {syncRuns.map(run => (
+                  <SelectItem key={run.startedAt} value={run.startedAt}>
+                    Before sync of {new Date(run.startedAt).toLocaleString()} (
+                    {run.changes} changes)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {target === CHOSEN_TIME && (
+            <div className="space-y-1">
+              <Label htmlFor="rollback-at">Time</Label>
+              <Input
+                id="rollback-at"
+                type="datetime-local"
+                value={at}
+                onChange={e => {
+                  setAt(e.target.value)
+                  setPreview(null)
+                }}
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="rollback-provider">Provider ID (optional)</Label>
+            <Input
+              id="rollback-provider"
+              value={providerId}
+              onChange={e => {
+                setProviderId(e.target.value)
+                setPreview(null)
+              }}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rollback-model">Model ID (optional)</Label>
+            <Input
+              id="rollback-model"
+              value={modelId}
+              onChange={e => {
+                setModelId(e.target.value)
+                setPreview(null)
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={loading}
+            onClick={() => submit(false)}
+          >
+            {loading ? (
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <History className="h-4 w-4 mr-2" />
+            )}
+            Preview
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              <span className="font-medium">Dry run:</span>{' '}
+              {preview.changes.summary}
+            </p>
+            {preview.addedLater.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Kept as they are (first priced after this time):{' '}
+                {preview.addedLater.join(', ')}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              {changes.map(change => (
+                <div
+                  key={`${change.providerId}:${change.modelId}`}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{change.modelId}</span>
+                    <Badge variant="outline">{change.providerId}</Badge>
+                  </div>
+                  <p>
+                    <span className="text-muted-foreground">
+                      {formatPrice(change.oldPricing)} →{' '}
+                    </span>
+                    {formatPrice(change.newPricing)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {changes.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  placeholder="Reason (optional)"
+                  className="w-72 h-9"
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                />
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={loading}
+                  onClick={() => submit(true)}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore {changes.length} models
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
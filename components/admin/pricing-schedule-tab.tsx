@@ -0,0 +1,297 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { CalendarClock, RefreshCw, X } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface ScheduledPrice {
+  pricingVersionId: string
+  modelId: string
+  providerId: string
+  inputPricePer1kTokens: number
+  outputPricePer1kTokens: number
+  effectiveFrom: string
+  effectiveUntil?: string
+  source: string
+  createdBy?: string
+  note?: string
+}
+
+interface ScheduleForm {
+  modelId: string
+  providerId: string
+  input: string
+  output: string
+  effectiveFrom: string
+  effectiveUntil: string
+  note: string
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  modelId: '',
+  providerId: '',
+  input: '',
+  output: '',
+  effectiveFrom: '',
+  effectiveUntil: '',
+  note: ''
+}
+
+export function PricingScheduleTab() {
+  const [scheduled, setScheduled] = useState<ScheduledPrice[]>([])
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchScheduled()
+  }, [])
+
+  const fetchScheduled = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/pricing/schedule')
+      if (!response.ok) {
+        throw new Error('Failed to fetch scheduled pricing')
+      }
+      const data = await response.json()
+      setScheduled(data.scheduled || [])
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load scheduled pricing'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const schedule = async () => {
+    const input = parseFloat(form.input)
+    const output = parseFloat(form.output)
+
+    if (!form.modelId || !form.providerId || !form.effectiveFrom) {
+      setError('Model, provider and effective date are required')
+      return
+    }
+    if (!Number.isFinite(input) || !Number.isFinite(output)) {
+      setError('Prices must be numbers')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          modelId: form.modelId.trim(),
+          providerId: form.providerId.trim(),
+          inputPricePer1kTokens: input,
+          outputPricePer1kTokens: output,
+          // datetime-local values are in the admin's time zone
+          effectiveFrom: new Date(form.effectiveFrom).toISOString(),
+          effectiveUntil: form.effectiveUntil
+            ? new Date(form.effectiveUntil).toISOString()
+            : undefined,
+          note: form.note || undefined
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(
+          data.details ? `${data.error}: ${data.details}` : data.error
+        )
+      }
+
+      setForm(EMPTY_FORM)
+      await fetchScheduled()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const cancel = async (id: string) => {
+    setCancellingId(id)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/admin/pricing/schedule?id=${encodeURIComponent(id)}`,
+        { method: 'DELETE' }
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(
+          data.details ? `${data.error}: ${data.details}` : data.error
+        )
+      }
+
+      await fetchScheduled()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel')
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  const updateForm = (field: keyof ScheduleForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scheduled Pricing</CardTitle>
+        <CardDescription>
+          Schedule a model price to take effect at a future time, e.g. a price
+          change a provider announced. Requests are billed with the price in
+          effect when they are made; a price with an expiry reverts to the
+          previous one when it ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="schedule-model">Model ID</Label>
+            <Input
+              id="schedule-model"
+              value={form.modelId}
+              onChange={e => updateForm('modelId', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-provider">Provider ID</Label>
+            <Input
+              id="schedule-provider"
+              value={form.providerId}
+              onChange={e => updateForm('providerId', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-input">Input / 1k tokens</Label>
+            <Input
+              id="schedule-input"
+              type="number"
+              min="0"
+              step="0.000001"
+              value={form.input}
+              onChange={e => updateForm('input', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-output">Output / 1k tokens</Label>
+            <Input
+              id="schedule-output"
+              type="number"
+              min="0"
+              step="0.000001"
+              value={form.output}
+              onChange={e => updateForm('output', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-from">Effective from</Label>
+            <Input
+              id="schedule-from"
+              type="datetime-local"
+              value={form.effectiveFrom}
+              onChange={e => updateForm('effectiveFrom', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-until">Expires (optional)</Label>
+            <Input
+              id="schedule-until"
+              type="datetime-local"
+              value={form.effectiveUntil}
+              onChange={e => updateForm('effectiveUntil', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="schedule-note">Note (optional)</Label>
+            <Input
+              id="schedule-note"
+              value={form.note}
+              onChange={e => updateForm('note', e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button size="sm" disabled={saving} onClick={schedule}>
+          {saving ? (
+            <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <CalendarClock className="h-4 w-4 mr-2" />
+          )}
+          Schedule price
+        </Button>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : scheduled.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No prices scheduled</p>
+        ) : (
+          <div className="space-y-2">
+            {scheduled.map(price => (
+              <div
+                key={price.pricingVersionId}
+                className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{price.modelId}</span>
+                    <Badge variant="outline">{price.providerId}</Badge>
+                    <span>
+                      ${price.inputPricePer1kTokens} / $
+                      {price.outputPricePer1kTokens}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    From {new Date(price.effectiveFrom).toLocaleString()}
+                    {price.effectiveUntil &&
+                      ` until ${new Date(price.effectiveUntil).toLocaleString()}`}{' '}
+                    • {price.createdBy ?? price.source}
+                    {price.note && ` • ${price.note}`}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={cancellingId === price.pricingVersionId}
+                  onClick={() => cancel(price.pricingVersionId)}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
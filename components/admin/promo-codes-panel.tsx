@@ -0,0 +1,300 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { Plus, RefreshCw } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface PromoCodeRow {
+  id: string
+  code: string
+  amount: number
+  description?: string
+  maxRedemptions?: number
+  perUserLimit: number
+  redemptionCount: number
+  expiresAt?: string
+  isActive: boolean
+  createdBy?: string
+}
+
+const EMPTY_CODE = {
+  code: '',
+  amount: '',
+  maxRedemptions: '',
+  perUserLimit: '1',
+  expiresAt: '',
+  description: ''
+}
+
+function isExpired(promoCode: PromoCodeRow) {
+  return (
+    promoCode.expiresAt !== undefined &&
+    new Date(promoCode.expiresAt).getTime() <= Date.now()
+  )
+}
+
+export function PromoCodesPanel() {
+  const [promoCodes, setPromoCodes] = useState<PromoCodeRow[]>([])
+  const [newCode, setNewCode] = useState(EMPTY_CODE)
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPromoCodes()
+  }, [])
+
+  const fetchPromoCodes = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/promo-codes')
+      if (!response.ok) {
+        throw new Error('Failed to fetch promo codes')
+      }
+      const data = await response.json()
+      setPromoCodes(data.promoCodes || [])
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load promo codes'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addCode = async () => {
+    const amount = parseFloat(newCode.amount)
+
+    if (!Number.isFinite(amount)) {
+      setError('Amount must be a number')
+      return
+    }
+
+    setSavingKey('new')
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/promo-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: newCode.code,
+          amount,
+          maxRedemptions: newCode.maxRedemptions
+            ? parseInt(newCode.maxRedemptions)
+            : undefined,
+          perUserLimit: newCode.perUserLimit
+            ? parseInt(newCode.perUserLimit)
+            : undefined,
+          // End of the chosen day in the admin's timezone
+          expiresAt: newCode.expiresAt
+            ? new Date(`${newCode.expiresAt}T23:59:59`).toISOString()
+            : undefined,
+          description: newCode.description.trim() || undefined
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details || 'Failed to create promo code')
+      }
+
+      setNewCode(EMPTY_CODE)
+      await fetchPromoCodes()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to create promo code'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const toggleActive = async (promoCode: PromoCodeRow) => {
+    setSavingKey(promoCode.id)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/promo-codes', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: promoCode.id,
+          isActive: !promoCode.isActive
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update promo code')
+      }
+
+      await fetchPromoCodes()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update promo code'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Promo Codes</CardTitle>
+          <CardDescription>
+            Each redemption credits the code&apos;s amount to the user&apos;s
+            balance as an adjustment
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {promoCodes.length === 0 && (
+            <p className="text-sm text-muted-foreground">No promo codes yet</p>
+          )}
+          {promoCodes.map(promoCode => (
+            <div
+              key={promoCode.id}
+              className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono font-medium">{promoCode.code}</span>
+                <span className="font-medium">
+                  ${promoCode.amount.toFixed(2)}
+                </span>
+                <Badge variant="secondary">
+                  {promoCode.redemptionCount}
+                  {promoCode.maxRedemptions !== undefined &&
+                    ` / ${promoCode.maxRedemptions}`}{' '}
+                  redeemed
+                </Badge>
+                <Badge variant="outline">
+                  {promoCode.perUserLimit} per user
+                </Badge>
+                {promoCode.expiresAt && (
+                  <Badge
+                    variant={isExpired(promoCode) ? 'destructive' : 'outline'}
+                  >
+                    {isExpired(promoCode) ? 'expired' : 'expires'}{' '}
+                    {new Date(promoCode.expiresAt).toLocaleDateString()}
+                  </Badge>
+                )}
+                {promoCode.description && (
+                  <span className="text-xs text-muted-foreground">
+                    {promoCode.description}
+                  </span>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant={promoCode.isActive ? 'outline' : 'ghost'}
+                disabled={savingKey === promoCode.id}
+                onClick={() => toggleActive(promoCode)}
+              >
+                {promoCode.isActive ? 'Active' : 'Inactive'}
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-2 p-3 border border-dashed rounded-lg">
+            <Input
+              placeholder="CODE"
+              className="w-36 h-8 font-mono uppercase"
+              value={newCode.code}
+              onChange={e =>
+                setNewCode(prev => ({ ...prev, code: e.target.value }))
+              }
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              className="w-24 h-8"
+              value={newCode.amount}
+              onChange={e =>
+                setNewCode(prev => ({ ...prev, amount: e.target.value }))
+              }
+            />
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              placeholder="Max uses"
+              className="w-28 h-8"
+              value={newCode.maxRedemptions}
+              onChange={e =>
+                setNewCode(prev => ({
+                  ...prev,
+                  maxRedemptions: e.target.value
+                }))
+              }
+            />
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              placeholder="Per user"
+              className="w-24 h-8"
+              value={newCode.perUserLimit}
+              onChange={e =>
+                setNewCode(prev => ({ ...prev, perUserLimit: e.target.value }))
+              }
+            />
+            <Input
+              type="date"
+              className="w-40 h-8"
+              value={newCode.expiresAt}
+              onChange={e =>
+                setNewCode(prev => ({ ...prev, expiresAt: e.target.value }))
+              }
+            />
+            <Input
+              placeholder="Description (optional)"
+              className="w-48 h-8"
+              value={newCode.description}
+              onChange={e =>
+                setNewCode(prev => ({ ...prev, description: e.target.value }))
+              }
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={savingKey === 'new'}
+              onClick={addCode}
+            >
+              {savingKey === 'new' ? (
+                <RefreshCw className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
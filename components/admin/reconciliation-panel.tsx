@@ -0,0 +1,354 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { Play, RefreshCw } from 'lucide-react'
+
+import { formatCost } from '@/lib/pricing/format'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+
+type FindingKind =
+  | 'orphaned_transaction'
+  | 'orphaned_usage_record'
+  | 'balance_mismatch'
+  | 'stale_hold'
+
+type FindingStatus = 'open' | 'resolved' | 'dismissed'
+
+interface FindingRow {
+  id: string
+  kind: FindingKind
+  userId: string
+  transactionId?: string
+  usageRecordId?: string
+  amount: number
+  currency: string
+  details?: Record<string, unknown>
+  status: FindingStatus
+  resolution?: string
+  adjustmentTransactionId?: string
+  resolvedBy?: string
+  resolvedAt?: string
+  detectedAt: string
+}
+
+interface RetryRow {
+  id: string
+  userId: string
+  requestId: string
+  callIndex: number
+  transactionId?: string
+  cost: { totalCost: number; modelId: string; providerId: string }
+  attempts: number
+  lastError?: string
+  createdAt: string
+}
+
+interface ReportData {
+  findings: FindingRow[]
+  openCounts: Record<FindingKind, number>
+  pendingRetries: number
+  failedRetries: RetryRow[]
+}
+
+const KIND_LABELS: Record<FindingKind, string> = {
+  orphaned_transaction: 'Charge without usage record',
+  orphaned_usage_record: 'Usage record without charge',
+  balance_mismatch: 'Balance mismatch',
+  stale_hold: 'Hold left pending'
+}
+
+// Label of the corrective adjustment for each kind
+const ADJUST_LABELS: Record<FindingKind, string> = {
+  orphaned_transaction: 'Refund',
+  orphaned_usage_record: 'Charge',
+  balance_mismatch: 'Record adjustment',
+  stale_hold: 'Settle hold'
+}
+
+const STATUSES: FindingStatus[] = ['open', 'resolved', 'dismissed']
+
+export function ReconciliationPanel() {
+  const [status, setStatus] = useState<FindingStatus>('open')
+  const [report, setReport] = useState<ReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchReport(status)
+  }, [status])
+
+  const fetchReport = async (findingStatus: FindingStatus) => {
+    setLoading(true)
+    try {
+      const response = await fetch(
+        `/api/admin/reconciliation?status=${findingStatus}`
+      )
+      if (!response.ok) {
+        throw new Error('Failed to fetch reconciliation report')
+      }
+      setReport(await response.json())
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to load reconciliation report'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runNow = async () => {
+    setSavingKey('run')
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/admin/reconciliation', {
+        method: 'POST'
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.details || 'Reconciliation failed')
+      }
+
+      setMessage(
+        `Retried ${data.retries.processed} usage records (${data.retries.succeeded} saved), ` +
+          `${data.opened} new findings, ${data.autoResolved} closed` +
+          (data.truncated ? '. More remain; run again to continue.' : '')
+      )
+      await fetchReport(status)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Reconciliation failed')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const update = async (key: string, body: Record<string, string>) => {
+    setSavingKey(key)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/admin/reconciliation', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details || data.error || 'Failed to update')
+      }
+
+      await fetchReport(status)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  if (loading && !report) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Findings</CardTitle>
+              <CardDescription>
+                Runs hourly. Refunds and charges are adjustments to the
+                user&apos;s balance; a balance mismatch is fixed by logging the
+                missing transaction.
+              </CardDescription>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={savingKey === 'run'}
+              onClick={runNow}
+            >
+              {savingKey === 'run' ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Run now
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report && (
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(KIND_LABELS) as FindingKind[]).map(kind => (
+                <Badge
+                  key={kind}
+                  variant={
+                    report.openCounts[kind] > 0 ? 'destructive' : 'secondary'
+                  }
+                >
+                  {KIND_LABELS[kind]}: {report.openCounts[kind]}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {STATUSES.map(s => (
+              <Button
+                key={s}
+                size="sm"
+                variant={status === s ? 'default' : 'ghost'}
+                onClick={() => setStatus(s)}
+              >
+                {s.charAt(0).toUpperCase() + s.slice(1)}
+              </Button>
+            ))}
+          </div>
+
+          {report?.findings.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No {status} findings
+            </p>
+          )}
+          {report?.findings.map(finding => (
+            <div
+              key={finding.id}
+              className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+            >
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{KIND_LABELS[finding.kind]}</Badge>
+                  <span className="font-medium">
+                    {formatCost(finding.amount, finding.currency)}
+                  </span>
+                  <span className="font-mono text-xs truncate">
+                    {finding.userId}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground font-mono truncate">
+                  {finding.transactionId && `tx ${finding.transactionId} `}
+                  {finding.usageRecordId && `usage ${finding.usageRecordId} `}
+                  {finding.details && JSON.stringify(finding.details)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Detected {new Date(finding.detectedAt).toLocaleString()}
+                  {finding.resolvedAt &&
+                    ` · ${finding.resolution} by ${finding.resolvedBy} ${new Date(
+                      finding.resolvedAt
+                    ).toLocaleString()}`}
+                </p>
+              </div>
+              {finding.status === 'open' && (
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={savingKey === finding.id}
+                    onClick={() =>
+                      update(finding.id, {
+                        findingId: finding.id,
+                        action: 'adjust'
+                      })
+                    }
+                  >
+                    {ADJUST_LABELS[finding.kind]}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={savingKey === finding.id}
+                    onClick={() =>
+                      update(finding.id, {
+                        findingId: finding.id,
+                        action: 'dismiss'
+                      })
+                    }
+                  >
+                    Dismiss
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Usage Record Retries</CardTitle>
+          <CardDescription>
+            Usage records that failed to save after the charge.{' '}
+            {report?.pendingRetries ?? 0} waiting for retry; these gave up and
+            need attention
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {report?.failedRetries.length === 0 && (
+            <p className="text-sm text-muted-foreground">No failed retries</p>
+          )}
+          {report?.failedRetries.map(item => (
+            <div
+              key={item.id}
+              className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+            >
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">
+                    {formatCost(item.cost.totalCost)}
+                  </span>
+                  <Badge variant="outline">
+                    {item.cost.providerId}:{item.cost.modelId}
+                  </Badge>
+                  <span className="font-mono text-xs truncate">
+                    {item.userId}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {item.attempts} attempts · request {item.requestId} #
+                  {item.callIndex}
+                  {item.lastError && ` · ${item.lastError}`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={savingKey === item.id}
+                onClick={() => update(item.id, { retryId: item.id })}
+              >
+                Retry
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
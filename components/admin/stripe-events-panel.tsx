@@ -0,0 +1,278 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { RefreshCw, RotateCcw } from 'lucide-react'
+
+import { formatCost } from '@/lib/pricing/format'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+
+type EventStatus = 'processing' | 'processed' | 'ignored' | 'failed'
+
+type DisputeStatus = 'open' | 'won' | 'lost'
+
+interface EventRow {
+  id: string
+  type: string
+  livemode: boolean
+  status: EventStatus
+  error?: string
+  attempts: number
+  stripeCreatedAt?: string
+  processedAt?: string
+  replayedBy?: string
+  createdAt: string
+}
+
+interface DisputeRow {
+  id: string
+  chargeId: string
+  paymentIntentId?: string
+  walletId?: string
+  disputeAmount: number
+  disputeCurrency: string
+  amount: number
+  frozenAmount: number
+  currency: string
+  reason?: string
+  status: DisputeStatus
+  stripeStatus?: string
+  openedAt: string
+  closedAt?: string
+}
+
+interface EventsData {
+  events: EventRow[]
+  disputes: DisputeRow[]
+}
+
+const STATUS_VARIANTS: Record<
+  EventStatus | DisputeStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  processing: 'outline',
+  processed: 'default',
+  ignored: 'secondary',
+  failed: 'destructive',
+  open: 'destructive',
+  won: 'default',
+  lost: 'secondary'
+}
+
+const FILTERS: Array<EventStatus | 'all'> = [
+  'all',
+  'failed',
+  'processed',
+  'ignored',
+  'processing'
+]
+
+export function StripeEventsPanel() {
+  const [filter, setFilter] = useState<EventStatus | 'all'>('all')
+  const [data, setData] = useState<EventsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchEvents(filter)
+  }, [filter])
+
+  const fetchEvents = async (status: EventStatus | 'all') => {
+    setLoading(true)
+    try {
+      const query = status === 'all' ? '' : `?status=${status}`
+      const response = await fetch(`/api/admin/stripe-events${query}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch Stripe events')
+      }
+      setData(await response.json())
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load Stripe events'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const replay = async (eventId: string) => {
+    setSavingKey(eventId)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/admin/stripe-events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId })
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(body.details || body.error || 'Replay failed')
+      }
+
+      setMessage(`Replayed ${eventId}: ${body.status}`)
+      await fetchEvents(filter)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Replay failed')
+      await fetchEvents(filter)
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  if (loading && !data) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Webhook Events</CardTitle>
+              <CardDescription>
+                The latest 50 events. Stripe retries failed events on its own
+                for up to three days; replay one once its cause is fixed.
+              </CardDescription>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={loading}
+              onClick={() => fetchEvents(filter)}
+            >
+              <RefreshCw
+                className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`}
+              />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2">
+            {FILTERS.map(f => (
+              <Button
+                key={f}
+                size="sm"
+                variant={filter === f ? 'default' : 'ghost'}
+                onClick={() => setFilter(f)}
+              >
+                {f.charAt(0).toUpperCase() + f.slice(1)}
+              </Button>
+            ))}
+          </div>
+
+          {data?.events.length === 0 && (
+            <p className="text-sm text-muted-foreground">No events</p>
+          )}
+          {data?.events.map(event => (
+            <div
+              key={event.id}
+              className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+            >
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[event.status]}>
+                    {event.status}
+                  </Badge>
+                  <span className="font-medium">{event.type}</span>
+                  <span className="font-mono text-xs truncate">{event.id}</span>
+                  {!event.livemode && <Badge variant="outline">test</Badge>}
+                </div>
+                {event.error && (
+                  <p className="text-xs text-red-600 truncate">{event.error}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Received {new Date(event.createdAt).toLocaleString()} ·{' '}
+                  {event.attempts}{' '}
+                  {event.attempts === 1 ? 'attempt' : 'attempts'}
+                  {event.replayedBy && ` · replayed by ${event.replayedBy}`}
+                </p>
+              </div>
+              {event.status === 'failed' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="shrink-0"
+                  disabled={savingKey === event.id}
+                  onClick={() => replay(event.id)}
+                >
+                  {savingKey === event.id ? (
+                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                  )}
+                  Replay
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Disputes</CardTitle>
+          <CardDescription>
+            The disputed share of a deposit is frozen while its dispute is open,
+            as far as the wallet still holds it. Won disputes release it; lost
+            disputes keep it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {data?.disputes.length === 0 && (
+            <p className="text-sm text-muted-foreground">No disputes</p>
+          )}
+          {data?.disputes.map(dispute => (
+            <div key={dispute.id} className="p-3 border rounded-lg space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={STATUS_VARIANTS[dispute.status]}>
+                  {dispute.status}
+                </Badge>
+                <span className="font-medium">
+                  {formatCost(dispute.frozenAmount, dispute.currency)} frozen of{' '}
+                  {formatCost(dispute.amount, dispute.currency)}
+                </span>
+                <span className="font-mono text-xs truncate">
+                  {dispute.walletId ?? 'not a wallet deposit'}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground font-mono truncate">
+                {dispute.id} · {dispute.chargeId}
+                {dispute.reason && ` · ${dispute.reason}`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Opened {new Date(dispute.openedAt).toLocaleString()}
+                {dispute.closedAt &&
+                  ` · closed ${new Date(dispute.closedAt).toLocaleString()} (${dispute.stripeStatus})`}
+              </p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { RefreshCw, Save } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface ToolPricingRow {
+  toolName: 'search' | 'retrieve' | 'video_search'
+  provider: string
+  searchDepth: 'basic' | 'advanced'
+  pricePerCall: number
+  updatedAt?: string
+}
+
+const TOOL_LABELS: Record<ToolPricingRow['toolName'], string> = {
+  search: 'Search',
+  retrieve: 'Retrieve',
+  video_search: 'Video Search'
+}
+
+function getRowKey(row: ToolPricingRow) {
+  return `${row.toolName}:${row.provider}:${row.searchDepth}`
+}
+
+export function ToolPricingTab() {
+  const [pricing, setPricing] = useState<ToolPricingRow[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPricing()
+  }, [])
+
+  const fetchPricing = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/pricing/tools')
+      if (!response.ok) {
+        throw new Error('Failed to fetch tool pricing')
+      }
+      const data = await response.json()
+      setPricing(data.pricing || [])
+      setDrafts({})
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load tool pricing'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const savePrice = async (row: ToolPricingRow) => {
+    const key = getRowKey(row)
+    const pricePerCall = parseFloat(drafts[key])
+
+    if (!Number.isFinite(pricePerCall) || pricePerCall < 0) {
+      setError('Price must be a non-negative number')
+      return
+    }
+
+    setSavingKey(key)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing/tools', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          toolName: row.toolName,
+          provider: row.provider,
+          searchDepth: row.searchDepth,
+          pricePerCall
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update tool pricing')
+      }
+
+      await fetchPricing()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update tool pricing'
+      )
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tool Pricing</CardTitle>
+        <CardDescription>
+          Per-call prices charged for search, retrieve and video search tools
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {pricing.map(row => {
+              const key = getRowKey(row)
+              const draft = drafts[key]
+              const isDirty =
+                draft !== undefined && parseFloat(draft) !== row.pricePerCall
+
+              return (
+                <div
+                  key={key}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">
+                      {TOOL_LABELS[row.toolName]}
+                    </span>
+                    <Badge variant="outline">{row.provider}</Badge>
+                    <Badge variant="secondary">{row.searchDepth}</Badge>
+                    {!row.updatedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        default
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">$</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      className="w-28 h-8"
+                      value={draft ?? row.pricePerCall.toString()}
+                      onChange={e =>
+                        setDrafts(prev => ({ ...prev, [key]: e.target.value }))
+                      }
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      / call
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!isDirty || savingKey === key}
+                      onClick={() => savePrice(row)}
+                    >
+                      {savingKey === key ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Save className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
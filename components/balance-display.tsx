@@ -1,17 +1,29 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 
-import { Wallet } from 'lucide-react'
+import { AlertTriangle, Wallet } from 'lucide-react'
 
 import { formatCost } from '@/lib/pricing/format'
 
 import { AddBalanceDialog } from './balance/add-balance-dialog'
+import { SpendingLimitAlert } from './balance/spending-limit-alert'
+import { WorkspaceSwitcher } from './balance/workspace-switcher'
 
 interface BalanceData {
   balance: number
   currency: string
   isGuest?: boolean
+  /** Why the last automatic top-up failed and turned auto top-up off */
+  autoRechargeFailure?: string
+  /** Set when the current workspace is an organization's shared wallet */
+  organizationId?: string
+  organizationName?: string
+  /** Whether the user can add funds to the current wallet */
+  canAddFunds?: boolean
+  /** Organizations the user can switch to */
+  workspaces?: { id: string; name: string }[]
 }
 
 interface BalanceDisplayProps {
@@ -74,6 +86,14 @@ export function BalanceDisplay({
 
   return (
     <div className="space-y-2">
+      {balance.workspaces && balance.workspaces.length > 0 && (
+        <WorkspaceSwitcher
+          workspaces={balance.workspaces}
+          currentId={balance.organizationId}
+          onChange={fetchBalance}
+        />
+      )}
+
       <div
         className={`flex items-center gap-2 px-2 py-2 rounded-md text-sm ${
           isCriticalBalance
@@ -88,18 +108,45 @@ export function BalanceDisplay({
           <span className="font-medium truncate">
             {formatCost(balance.balance, balance.currency)}
           </span>
+          {balance.organizationName && (
+            <span className="text-xs opacity-80 truncate">
+              {balance.organizationName} wallet
+            </span>
+          )}
           {isLowBalance && (
             <span className="text-xs opacity-80">Low balance</span>
           )}
         </div>
       </div>
 
-      <AddBalanceDialog
-        currentBalance={balance.balance}
-        currentCurrency={balance.currency}
-        onSuccess={handleBalanceUpdate}
-        stripePublishableKey={stripePublishableKey}
-      />
+      {balance.autoRechargeFailure && (
+        <Link
+          href="/account"
+          title={balance.autoRechargeFailure}
+          className="flex items-center gap-2 px-2 py-1.5 rounded-md text-xs bg-destructive/10 text-destructive hover:underline"
+        >
+          <AlertTriangle className="size-3.5 shrink-0" />
+          <span className="truncate">
+            Auto top-up failed and was turned off
+          </span>
+        </Link>
+      )}
+
+      {/* Personal spending limits do not apply to organization wallets */}
+      {!balance.organizationId && (
+        <SpendingLimitAlert currency={balance.currency} />
+      )}
+
+      {balance.canAddFunds !== false && (
+        <AddBalanceDialog
+          currentBalance={balance.balance}
+          currentCurrency={balance.currency}
+          onSuccess={handleBalanceUpdate}
+          stripePublishableKey={stripePublishableKey}
+          organizationId={balance.organizationId}
+          organizationName={balance.organizationName}
+        />
+      )}
     </div>
   )
 }
@@ -12,9 +12,13 @@ import {
   type SupportedCurrency
 } from '@/lib/pricing/currency-service'
 import { formatCost } from '@/lib/pricing/format'
-import { getPredefinedAmounts } from '@/lib/stripe/payment-service'
+import {
+  type DepositQuote,
+  getPredefinedAmounts
+} from '@/lib/stripe/payment-service'
 
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Dialog,
   DialogContent,
@@ -47,13 +51,18 @@ interface AddBalanceDialogProps {
   onSuccess?: () => void
   /** Optional publishable key from a server component */
   stripePublishableKey?: string
+  /** Deposit into this organization's shared wallet */
+  organizationId?: string
+  organizationName?: string
 }
 
 export function AddBalanceDialog({
   currentBalance,
   currentCurrency,
   onSuccess,
-  stripePublishableKey
+  stripePublishableKey,
+  organizationId,
+  organizationName
 }: AddBalanceDialogProps) {
   const [open, setOpen] = useState(false)
   const [selectedCurrency, setSelectedCurrency] = useState<SupportedCurrency>(
@@ -61,9 +70,11 @@ export function AddBalanceDialog({
   )
   const [amount, setAmount] = useState<number>(10)
   const [customAmount, setCustomAmount] = useState<string>('')
+  const [savePaymentMethod, setSavePaymentMethod] = useState(false)
   const [isCreatingIntent, setIsCreatingIntent] = useState(false)
   const [clientSecret, setClientSecret] = useState<string>()
   const [paymentIntentId, setPaymentIntentId] = useState<string>()
+  const [quote, setQuote] = useState<DepositQuote | null>(null)
 
   const predefinedAmounts = getPredefinedAmounts(selectedCurrency)
   const supportedCurrencies = getSupportedCurrencies()
@@ -83,9 +94,34 @@ export function AddBalanceDialog({
       setClientSecret(undefined)
       setCustomAmount('')
       setAmount(predefinedAmounts[1] || 10)
+      setSavePaymentMethod(false)
     }
   }, [open, predefinedAmounts])
 
+  // Check the amount against the deposit limits and show what it converts
+  // to in the account currency
+  useEffect(() => {
+    if (!open || amount <= 0) {
+      setQuote(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/payments/quote?amount=${amount}&currency=${selectedCurrency}` +
+            (organizationId ? `&organizationId=${organizationId}` : '')
+        )
+        setQuote(response.ok ? await response.json() : null)
+      } catch (error) {
+        console.error('Failed to quote deposit:', error)
+        setQuote(null)
+      }
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [open, amount, selectedCurrency, organizationId])
+
   const handleAmountSelect = (value: number) => {
     setAmount(value)
     setCustomAmount('')
@@ -121,7 +157,9 @@ export function AddBalanceDialog({
         },
         body: JSON.stringify({
           amount,
-          currency: selectedCurrency
+          currency: selectedCurrency,
+          savePaymentMethod,
+          organizationId
         })
       })
 
@@ -163,7 +201,11 @@ export function AddBalanceDialog({
       </DialogTrigger>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Add Funds to Your Balance</DialogTitle>
+          <DialogTitle>
+            {organizationName
+              ? `Add Funds to ${organizationName}`
+              : 'Add Funds to Your Balance'}
+          </DialogTitle>
           <DialogDescription>
             Current balance: {formatCost(currentBalance, currentCurrency)}
           </DialogDescription>
@@ -236,12 +278,55 @@ export function AddBalanceDialog({
                   {formatCost(amount, selectedCurrency)}
                 </span>
               </div>
+              {quote?.conversion && selectedCurrency !== currentCurrency && (
+                <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+                  <div className="flex justify-between items-center">
+                    <span>Credited to your balance:</span>
+                    <span className="font-medium text-foreground">
+                      {formatCost(
+                        quote.conversion.toAmount,
+                        quote.conversion.toCurrency
+                      )}
+                    </span>
+                  </div>
+                  <p className="text-xs">
+                    1 {quote.conversion.fromCurrency} ={' '}
+                    {quote.conversion.rate.toPrecision(6)}{' '}
+                    {quote.conversion.toCurrency}, rate as of{' '}
+                    {new Date(quote.conversion.asOf).toLocaleDateString()}
+                  </p>
+                </div>
+              )}
+              {quote && !quote.valid && (
+                <p className="mt-2 text-sm text-destructive">{quote.error}</p>
+              )}
             </div>
 
+            {/* Save Card (automatic top-ups are for personal balances) */}
+            {!organizationId && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="save-payment-method"
+                  checked={savePaymentMethod}
+                  onCheckedChange={(checked) =>
+                    setSavePaymentMethod(checked === true)
+                  }
+                />
+                <Label htmlFor="save-payment-method" className="font-normal">
+                  Save card for automatic top-ups
+                </Label>
+              </div>
+            )}
+
             {/* Continue Button */}
             <Button
               onClick={handleContinueToPayment}
-              disabled={amount <= 0 || isCreatingIntent || !resolvedPublishableKey}
+              disabled={
+                amount <= 0 ||
+                quote?.valid === false ||
+                isCreatingIntent ||
+                !resolvedPublishableKey
+              }
               className="w-full"
             >
               {isCreatingIntent ? (
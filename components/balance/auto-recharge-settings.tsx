@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { AlertTriangle, CreditCard, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { formatCost } from '@/lib/pricing/format'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+
+interface AutoRechargeSettingsProps {
+  currency: string
+  enabled: boolean
+  threshold?: number
+  amount?: number
+  paymentMethodLabel?: string
+  lastFailureMessage?: string
+  lastFailedAt?: string
+}
+
+const DEFAULT_THRESHOLD = 5
+const DEFAULT_AMOUNT = 20
+
+export function AutoRechargeSettings({
+  currency,
+  enabled: initialEnabled,
+  threshold: initialThreshold,
+  amount: initialAmount,
+  paymentMethodLabel,
+  lastFailureMessage,
+  lastFailedAt
+}: AutoRechargeSettingsProps) {
+  const router = useRouter()
+  const [enabled, setEnabled] = useState(initialEnabled)
+  const [threshold, setThreshold] = useState(
+    (initialThreshold ?? DEFAULT_THRESHOLD).toString()
+  )
+  const [amount, setAmount] = useState(
+    (initialAmount ?? DEFAULT_AMOUNT).toString()
+  )
+  const [saving, setSaving] = useState(false)
+  const [removing, setRemoving] = useState(false)
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/balance/auto-recharge', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled,
+          threshold: parseFloat(threshold),
+          amount: parseFloat(amount)
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save auto top-up settings')
+      }
+
+      toast.success(enabled ? 'Auto top-up turned on' : 'Auto top-up saved')
+      router.refresh()
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to save auto top-up settings'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeCard = async () => {
+    setRemoving(true)
+
+    try {
+      const response = await fetch('/api/balance/auto-recharge', {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to remove saved card')
+      }
+
+      setEnabled(false)
+      toast.success('Saved card removed')
+      router.refresh()
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to remove saved card'
+      )
+    } finally {
+      setRemoving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {lastFailureMessage && (
+        <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="mt-0.5 size-4 shrink-0" />
+          <div>
+            Auto top-up was turned off because a charge failed
+            {lastFailedAt &&
+              ` on ${new Date(lastFailedAt).toLocaleString()}`}:{' '}
+            {lastFailureMessage}
+          </div>
+        </div>
+      )}
+
+      {paymentMethodLabel ? (
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <CreditCard className="size-4" />
+            <span className="capitalize">{paymentMethodLabel}</span>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={removing}
+            onClick={removeCard}
+          >
+            {removing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Remove card
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No saved card. Add funds with &quot;Save card for automatic
+          top-ups&quot; checked to save one.
+        </p>
+      )}
+
+      <form onSubmit={save} className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="auto-recharge-enabled"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            disabled={saving || !paymentMethodLabel}
+          />
+          <Label htmlFor="auto-recharge-enabled">Automatic top-up</Label>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2 max-w-lg">
+          <div className="space-y-2">
+            <Label htmlFor="auto-recharge-threshold">
+              When balance drops below
+            </Label>
+            <Input
+              id="auto-recharge-threshold"
+              type="number"
+              min="0"
+              step="0.01"
+              value={threshold}
+              onChange={e => setThreshold(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auto-recharge-amount">Charge my card</Label>
+            <Input
+              id="auto-recharge-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        </div>
+        {enabled && parseFloat(amount) > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {formatCost(parseFloat(amount), currency)} is charged whenever your
+            balance drops below{' '}
+            {formatCost(parseFloat(threshold) || 0, currency)}
+          </p>
+        )}
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={saving || !paymentMethodLabel}
+        >
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { formatCost } from '@/lib/pricing/format'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface RedeemPromoCodeProps {
+  currency: string
+}
+
+export function RedeemPromoCode({ currency }: RedeemPromoCodeProps) {
+  const router = useRouter()
+  const [code, setCode] = useState('')
+  const [redeeming, setRedeeming] = useState(false)
+  // Reused when retrying the same code so a lost response cannot credit twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() =>
+    crypto.randomUUID()
+  )
+
+  const updateCode = (value: string) => {
+    setCode(value)
+    setIdempotencyKey(crypto.randomUUID())
+  }
+
+  const redeem = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!code.trim()) {
+      return
+    }
+
+    setRedeeming(true)
+
+    try {
+      const response = await fetch('/api/balance/redeem', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, idempotencyKey })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to redeem promo code')
+      }
+
+      toast.success(
+        data.status === 'redeemed'
+          ? `${formatCost(data.amount, currency)} added to your balance`
+          : data.message
+      )
+      updateCode('')
+      router.refresh()
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to redeem promo code'
+      )
+    } finally {
+      setRedeeming(false)
+    }
+  }
+
+  return (
+    <form onSubmit={redeem} className="flex gap-2">
+      <Input
+        placeholder="Promo code"
+        className="max-w-xs font-mono uppercase"
+        value={code}
+        onChange={e => updateCode(e.target.value)}
+        disabled={redeeming}
+      />
+      <Button type="submit" variant="outline" disabled={redeeming || !code}>
+        {redeeming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Redeem
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+import { AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { formatCost } from '@/lib/pricing/format'
+
+interface SpendingLimitWarning {
+  type: 'daily' | 'monthly'
+  limit: number
+  spent: number
+  percentUsed: number
+}
+
+interface SpendingLimitAlertProps {
+  currency: string
+}
+
+function warningKey(warning: SpendingLimitWarning) {
+  return `${warning.type}:${warning.limit}`
+}
+
+/**
+ * Warns when daily or monthly spend passes the user's warning threshold
+ * Refreshes after each chat response and toasts newly crossed thresholds
+ */
+export function SpendingLimitAlert({ currency }: SpendingLimitAlertProps) {
+  const [warnings, setWarnings] = useState<SpendingLimitWarning[]>([])
+  // Undefined until the first fetch, so existing warnings are not toasted
+  const shownKeys = useRef<Set<string>>()
+
+  useEffect(() => {
+    const fetchWarnings = async () => {
+      try {
+        const response = await fetch('/api/balance/limits')
+        if (!response.ok) {
+          return
+        }
+        const data = await response.json()
+        const nextWarnings: SpendingLimitWarning[] = data.warnings || []
+
+        if (shownKeys.current) {
+          for (const warning of nextWarnings) {
+            if (!shownKeys.current.has(warningKey(warning))) {
+              toast.warning(
+                `You have used ${warning.percentUsed}% of your ${warning.type} spending limit`
+              )
+            }
+          }
+        }
+
+        shownKeys.current = new Set(nextWarnings.map(warningKey))
+        setWarnings(nextWarnings)
+      } catch (error) {
+        console.error('Failed to fetch spending limits:', error)
+      }
+    }
+
+    fetchWarnings()
+    window.addEventListener('chat-history-updated', fetchWarnings)
+    return () => {
+      window.removeEventListener('chat-history-updated', fetchWarnings)
+    }
+  }, [])
+
+  if (warnings.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-1">
+      {warnings.map(warning => (
+        <div
+          key={warning.type}
+          className={`flex items-center gap-2 px-2 py-1.5 rounded-md text-xs ${
+            warning.percentUsed >= 100
+              ? 'bg-destructive/10 text-destructive'
+              : 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-500'
+          }`}
+        >
+          <AlertTriangle className="size-3.5 shrink-0" />
+          <span className="truncate">
+            {warning.type === 'daily' ? 'Daily' : 'Monthly'} limit:{' '}
+            {formatCost(warning.spent, currency)} of{' '}
+            {formatCost(warning.limit, currency)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { formatCost } from '@/lib/pricing/format'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface SpendingLimitsFormProps {
+  currency: string
+  limits: {
+    dailyLimit?: number
+    monthlyLimit?: number
+    perRequestLimit?: number
+    confirmThreshold?: number
+    warningThreshold: number
+  }
+  totals?: {
+    dailySpend: number
+    monthlySpend: number
+  }
+}
+
+function toInputValue(limit?: number) {
+  return limit !== undefined ? limit.toString() : ''
+}
+
+function parseLimit(value: string) {
+  return value.trim() ? parseFloat(value) : null
+}
+
+export function SpendingLimitsForm({
+  currency,
+  limits,
+  totals
+}: SpendingLimitsFormProps) {
+  const router = useRouter()
+  const [dailyLimit, setDailyLimit] = useState(toInputValue(limits.dailyLimit))
+  const [monthlyLimit, setMonthlyLimit] = useState(
+    toInputValue(limits.monthlyLimit)
+  )
+  const [perRequestLimit, setPerRequestLimit] = useState(
+    toInputValue(limits.perRequestLimit)
+  )
+  const [confirmThreshold, setConfirmThreshold] = useState(
+    toInputValue(limits.confirmThreshold)
+  )
+  const [warningPercent, setWarningPercent] = useState(
+    Math.round(limits.warningThreshold * 100).toString()
+  )
+  const [saving, setSaving] = useState(false)
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/balance/limits', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dailyLimit: parseLimit(dailyLimit),
+          monthlyLimit: parseLimit(monthlyLimit),
+          perRequestLimit: parseLimit(perRequestLimit),
+          confirmThreshold: parseLimit(confirmThreshold),
+          warningThreshold: parseFloat(warningPercent) / 100
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save spending limits')
+      }
+
+      toast.success('Spending limits saved')
+      router.refresh()
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to save spending limits'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+        <div className="space-y-2">
+          <Label htmlFor="daily-limit">Daily limit</Label>
+          <Input
+            id="daily-limit"
+            type="number"
+            min="0.01"
+            step="0.01"
+            placeholder="No limit"
+            value={dailyLimit}
+            onChange={e => setDailyLimit(e.target.value)}
+            disabled={saving}
+          />
+          {totals && (
+            <p className="text-xs text-muted-foreground">
+              {formatCost(totals.dailySpend, currency)} spent today (UTC)
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="monthly-limit">Monthly limit</Label>
+          <Input
+            id="monthly-limit"
+            type="number"
+            min="0.01"
+            step="0.01"
+            placeholder="No limit"
+            value={monthlyLimit}
+            onChange={e => setMonthlyLimit(e.target.value)}
+            disabled={saving}
+          />
+          {totals && (
+            <p className="text-xs text-muted-foreground">
+              {formatCost(totals.monthlySpend, currency)} spent this month
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="per-request-limit">Per-request limit</Label>
+          <Input
+            id="per-request-limit"
+            type="number"
+            min="0.01"
+            step="0.01"
+            placeholder="No limit"
+            value={perRequestLimit}
+            onChange={e => setPerRequestLimit(e.target.value)}
+            disabled={saving}
+          />
+          <p className="text-xs text-muted-foreground">
+            Compared with the estimated maximum cost
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirm-threshold">Confirm above</Label>
+          <Input
+            id="confirm-threshold"
+            type="number"
+            min="0.01"
+            step="0.01"
+            placeholder="Never ask"
+            value={confirmThreshold}
+            onChange={e => setConfirmThreshold(e.target.value)}
+            disabled={saving}
+          />
+          <p className="text-xs text-muted-foreground">
+            Ask before sending a request estimated above this
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="warning-threshold">Warn at (%)</Label>
+          <Input
+            id="warning-threshold"
+            type="number"
+            min="1"
+            max="99"
+            step="1"
+            value={warningPercent}
+            onChange={e => setWarningPercent(e.target.value)}
+            disabled={saving}
+          />
+          <p className="text-xs text-muted-foreground">
+            Of the daily or monthly limit
+          </p>
+        </div>
+      </div>
+      <Button type="submit" variant="outline" disabled={saving}>
+        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save limits
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { useState } from 'react'
+
+import { Download } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7)
+}
+
+export function StatementDownload() {
+  const [month, setMonth] = useState(currentMonth)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        type="month"
+        className="h-8 w-44"
+        value={month}
+        max={currentMonth()}
+        onChange={e => setMonth(e.target.value)}
+      />
+      <Button size="sm" variant="outline" disabled={!month} asChild>
+        <a href={`/api/transactions/statement?month=${month}`} download>
+          <Download className="mr-2 h-4 w-4" />
+          Download statement
+        </a>
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { formatCost } from '@/lib/pricing/format'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+
+interface SubscriptionPlanOption {
+  id: string
+  name: string
+  description?: string
+  monthlyPrice: number
+  monthlyAllowance: number
+}
+
+interface SubscriptionCardProps {
+  currency: string
+  /** Current subscription, if the user has a live one */
+  subscription?: {
+    planName: string
+    status: string
+    currentPeriodEnd?: string
+    cancelAtPeriodEnd: boolean
+  }
+  allowanceBalance: number
+  allowanceExpiresAt?: string
+  plans: SubscriptionPlanOption[]
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString()
+}
+
+export function SubscriptionCard({
+  currency,
+  subscription,
+  allowanceBalance,
+  allowanceExpiresAt,
+  plans
+}: SubscriptionCardProps) {
+  const router = useRouter()
+  const [pendingPlanId, setPendingPlanId] = useState<string | null>(null)
+  const [canceling, setCanceling] = useState(false)
+
+  const subscribe = async (planId: string) => {
+    setPendingPlanId(planId)
+
+    try {
+      const response = await fetch('/api/payments/subscription', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ planId })
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.url) {
+        throw new Error(data.error || 'Failed to start checkout')
+      }
+
+      window.location.href = data.url
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to start checkout'
+      )
+      setPendingPlanId(null)
+    }
+  }
+
+  const cancel = async () => {
+    setCanceling(true)
+
+    try {
+      const response = await fetch('/api/payments/subscription', {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to cancel subscription')
+      }
+
+      toast.success(
+        'Your subscription will end at the end of the current period.'
+      )
+      router.refresh()
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to cancel subscription'
+      )
+    } finally {
+      setCanceling(false)
+    }
+  }
+
+  if (!subscription) {
+    return (
+      <div className="space-y-3">
+        {plans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No subscription plans are available right now.
+          </p>
+        ) : (
+          plans.map(plan => (
+            <div
+              key={plan.id}
+              className="flex items-center justify-between gap-4 rounded-lg border p-4"
+            >
+              <div>
+                <div className="font-medium">{plan.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {formatCost(plan.monthlyPrice, currency)} / month,{' '}
+                  {formatCost(plan.monthlyAllowance, currency)} of credits every
+                  month
+                </div>
+                {plan.description && (
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {plan.description}
+                  </div>
+                )}
+              </div>
+              <Button
+                size="sm"
+                disabled={pendingPlanId !== null}
+                onClick={() => subscribe(plan.id)}
+              >
+                {pendingPlanId === plan.id && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Subscribe
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      <div>
+        <div className="text-sm font-medium text-muted-foreground">Plan</div>
+        <div className="mt-1 flex items-center gap-2 text-base font-medium">
+          {subscription.planName}
+          {subscription.status !== 'active' && (
+            <Badge variant="secondary">{subscription.status}</Badge>
+          )}
+        </div>
+      </div>
+      <div>
+        <div className="text-sm font-medium text-muted-foreground">
+          {subscription.cancelAtPeriodEnd ? 'Ends on' : 'Renews on'}
+        </div>
+        <div className="mt-1 text-base font-medium">
+          {subscription.currentPeriodEnd
+            ? formatDate(subscription.currentPeriodEnd)
+            : '-'}
+        </div>
+      </div>
+      <div>
+        <div className="text-sm font-medium text-muted-foreground">
+          Remaining allowance
+        </div>
+        <div className="mt-1 text-base font-medium">
+          {formatCost(allowanceBalance, currency)}
+        </div>
+        {allowanceExpiresAt && (
+          <div className="text-xs text-muted-foreground">
+            Expires {formatDate(allowanceExpiresAt)}
+          </div>
+        )}
+      </div>
+      {!subscription.cancelAtPeriodEnd && (
+        <div className="md:col-span-3">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={canceling}
+            onClick={cancel}
+          >
+            {canceling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cancel subscription
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { useEffect, useState } from 'react'
 import {
   ArrowDownCircle,
   ArrowUpCircle,
+  FileText,
   Loader2,
   RefreshCw,
   Settings
@@ -27,6 +28,18 @@ interface TransactionHistoryProps {
   limit?: number
 }
 
+// Refunds and adjustments can go either way; a deposit refund is a debit
+function isCredit(transaction: Transaction) {
+  switch (transaction.type) {
+    case 'deposit':
+      return true
+    case 'usage':
+      return false
+    default:
+      return transaction.balanceAfter >= transaction.balanceBefore
+  }
+}
+
 export function TransactionHistory({
   userId,
   limit = 50
@@ -142,6 +155,9 @@ export function TransactionHistory({
               <TableHead>Date</TableHead>
               <TableHead className="text-right">Amount</TableHead>
               <TableHead className="text-right">Balance</TableHead>
+              <TableHead className="w-10">
+                <span className="sr-only">Receipt</span>
+              </TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -163,19 +179,28 @@ export function TransactionHistory({
                 </TableCell>
                 <TableCell
                   className={`text-right font-medium ${
-                    transaction.type === 'deposit' || transaction.type === 'refund'
-                      ? 'text-green-600'
-                      : 'text-red-600'
+                    isCredit(transaction) ? 'text-green-600' : 'text-red-600'
                   }`}
                 >
-                  {transaction.type === 'deposit' || transaction.type === 'refund'
-                    ? '+'
-                    : '-'}
+                  {isCredit(transaction) ? '+' : '-'}
                   {formatCost(transaction.amount, transaction.currency)}
                 </TableCell>
                 <TableCell className="text-right text-sm text-muted-foreground">
                   {formatCost(transaction.balanceAfter, transaction.currency)}
                 </TableCell>
+                <TableCell>
+                  {transaction.type === 'deposit' && (
+                    <a
+                      href={`/api/transactions/${transaction.id}/receipt`}
+                      download
+                      title="Download receipt"
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <FileText className="size-4" />
+                      <span className="sr-only">Download receipt</span>
+                    </a>
+                  )}
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
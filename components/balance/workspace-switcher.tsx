@@ -0,0 +1,69 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+
+import { Building2 } from 'lucide-react'
+
+import { WORKSPACE_COOKIE } from '@/lib/pricing/organization-constants'
+import { deleteCookie, setCookie } from '@/lib/utils/cookies'
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+
+interface Workspace {
+  id: string
+  name: string
+}
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[]
+  /** Organization id of the current workspace; undefined = personal */
+  currentId?: string
+  onChange?: () => void
+}
+
+const PERSONAL = 'personal'
+
+/**
+ * Switch between the personal balance and organization wallets
+ * Usage is charged to the wallet of the selected workspace
+ */
+export function WorkspaceSwitcher({
+  workspaces,
+  currentId,
+  onChange
+}: WorkspaceSwitcherProps) {
+  const router = useRouter()
+
+  const handleChange = (value: string) => {
+    if (value === PERSONAL) {
+      deleteCookie(WORKSPACE_COOKIE)
+    } else {
+      setCookie(WORKSPACE_COOKIE, value)
+    }
+    onChange?.()
+    router.refresh()
+  }
+
+  return (
+    <Select value={currentId ?? PERSONAL} onValueChange={handleChange}>
+      <SelectTrigger className="h-8 text-xs" aria-label="Workspace">
+        <Building2 className="size-3.5 mr-1 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PERSONAL}>Personal</SelectItem>
+        {workspaces.map(workspace => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
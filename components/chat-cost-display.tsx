@@ -6,10 +6,24 @@ import { formatCost, formatTokens } from '@/lib/pricing/cost-estimation'
 
 import { useChatCost } from '@/hooks/use-chat-cost'
 
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger
+} from '@/components/ui/tooltip'
+
 interface ChatCostDisplayProps {
   chatId: string | null
 }
 
+const CALL_TYPE_LABELS: Record<string, string> = {
+  response: 'Responses',
+  tool_selection: 'Tool selection',
+  related_questions: 'Related questions',
+  tool_call: 'Tools'
+}
+
 export function ChatCostDisplay({ chatId }: ChatCostDisplayProps) {
   const { cost, loading } = useChatCost(chatId)
 
@@ -17,23 +31,50 @@ export function ChatCostDisplay({ chatId }: ChatCostDisplayProps) {
     return null
   }
 
+  const breakdown = cost.breakdown ?? []
+
   return (
-    <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground bg-muted/50 rounded-md border border-border/50">
-      <DollarSign className="size-3" />
-      <div className="flex items-center gap-3">
-        <span className="font-medium">
-          Cost: {formatCost(cost.totalCost)}
-        </span>
-        <span className="opacity-70">|</span>
-        <span>
-          Tokens: {formatTokens(cost.totalTokens)}
-          {cost.inputTokens > 0 && cost.outputTokens > 0 && (
-            <span className="opacity-70 ml-1">
-              ({formatTokens(cost.inputTokens)} in / {formatTokens(cost.outputTokens)} out)
-            </span>
-          )}
-        </span>
-      </div>
-    </div>
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground bg-muted/50 rounded-md border border-border/50">
+            <DollarSign className="size-3" />
+            <div className="flex items-center gap-3">
+              <span className="font-medium">
+                Cost: {formatCost(cost.totalCost)}
+              </span>
+              <span className="opacity-70">|</span>
+              <span>
+                Tokens: {formatTokens(cost.totalTokens)}
+                {cost.inputTokens > 0 && cost.outputTokens > 0 && (
+                  <span className="opacity-70 ml-1">
+                    ({formatTokens(cost.inputTokens)} in /{' '}
+                    {formatTokens(cost.outputTokens)} out)
+                  </span>
+                )}
+              </span>
+            </div>
+          </div>
+        </TooltipTrigger>
+        {breakdown.length > 0 && (
+          <TooltipContent>
+            <div className="flex flex-col gap-1 text-xs">
+              {breakdown.map(entry => (
+                <div
+                  key={entry.callType}
+                  className="flex items-center justify-between gap-4"
+                >
+                  <span>
+                    {CALL_TYPE_LABELS[entry.callType] ?? entry.callType} (
+                    {entry.calls})
+                  </span>
+                  <span className="font-medium">{formatCost(entry.cost)}</span>
+                </div>
+              ))}
+            </div>
+          </TooltipContent>
+        )}
+      </Tooltip>
+    </TooltipProvider>
   )
 }
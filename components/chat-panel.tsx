@@ -7,10 +7,23 @@ import { useRouter } from 'next/navigation'
 import { Message } from 'ai'
 import { ArrowUp, ChevronDown, MessageCirclePlus, Square } from 'lucide-react'
 
+import { formatCost } from '@/lib/pricing/format'
 import { Model } from '@/lib/types/models'
 import { cn } from '@/lib/utils'
 
+import { useCostEstimate } from '@/hooks/use-cost-estimate'
+
 import { useArtifact } from './artifact/artifact-context'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
 import { Button } from './ui/button'
 import { IconLogo } from './ui/icons'
 import { EmptyScreen } from './empty-screen'
@@ -58,6 +71,18 @@ export function ChatPanel({
   const [isComposing, setIsComposing] = useState(false) // Composition state
   const [enterDisabled, setEnterDisabled] = useState(false) // Disable Enter after composition ends
   const { close: closeArtifact } = useArtifact()
+  const { result: costEstimate, getEstimate } = useCostEstimate(
+    input,
+    messages,
+    !isLocked && !isLoading
+  )
+  // Send held back until the user confirms its estimated cost
+  const [pendingSubmit, setPendingSubmit] = useState<{
+    event: React.FormEvent<HTMLFormElement>
+    cost: number
+    threshold: number
+  } | null>(null)
+  const [checkingCost, setCheckingCost] = useState(false)
 
   const handleCompositionStart = () => setIsComposing(true)
 
@@ -102,6 +127,39 @@ export function ChatPanel({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [query])
 
+  // Ask for confirmation if the request is estimated above the user's
+  // threshold; send straight away if no estimate is available
+  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (checkingCost) return
+
+    setCheckingCost(true)
+    const check = await getEstimate()
+    setCheckingCost(false)
+
+    if (
+      check?.requiresConfirmation &&
+      check.estimate &&
+      check.confirmThreshold !== null
+    ) {
+      setPendingSubmit({
+        event: e,
+        cost: check.estimate.billedCost,
+        threshold: check.confirmThreshold
+      })
+      return
+    }
+
+    handleSubmit(e)
+  }
+
+  const confirmSubmit = () => {
+    if (pendingSubmit) {
+      handleSubmit(pendingSubmit.event)
+    }
+    setPendingSubmit(null)
+  }
+
   // Scroll to the bottom of the container
   const handleScrollToBottom = () => {
     const scrollContainer = scrollContainerRef.current
@@ -129,7 +187,7 @@ export function ChatPanel({
         </div>
       )}
       <form
-        onSubmit={handleSubmit}
+        onSubmit={onSubmit}
         className={cn('max-w-3xl w-full mx-auto relative')}
       >
         {/* Scroll to bottom button - only shown when showScrollToBottomButton is true */}
@@ -199,6 +257,16 @@ export function ChatPanel({
             <div className="flex items-center gap-2">
               <ModelSelector models={models || []} />
               <SearchModeToggle />
+              {costEstimate?.estimate && (
+                <span
+                  className="text-xs text-muted-foreground"
+                  title={`Estimated cost of this request: ${formatCost(
+                    costEstimate.estimate.billedRange.min
+                  )} to ${formatCost(costEstimate.estimate.billedRange.max)}`}
+                >
+                  ~{formatCost(costEstimate.estimate.billedCost)}
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2">
               {messages.length > 0 && (
@@ -220,6 +288,7 @@ export function ChatPanel({
                 className={cn(isLoading && 'animate-pulse', 'rounded-full')}
                 disabled={
                   isLocked ||
+                  checkingCost ||
                   (input.length === 0 && !isLoading) ||
                   isToolInvocationInProgress()
                 }
@@ -242,6 +311,29 @@ export function ChatPanel({
           />
         )}
       </form>
+
+      <AlertDialog
+        open={pendingSubmit !== null}
+        onOpenChange={open => !open && setPendingSubmit(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send this request?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingSubmit &&
+                `This request is estimated to cost ${formatCost(
+                  pendingSubmit.cost
+                )}, above the ${formatCost(
+                  pendingSubmit.threshold
+                )} you asked to confirm. You can change this in your account settings.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmSubmit}>Send</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
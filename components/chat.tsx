@@ -71,6 +71,14 @@ export function Chat({
         toast.error('You have reached the free chat limit. Please sign in to continue.')
         return
       }
+      if (code === 'SPENDING_LIMIT_REACHED' || message.includes('SPENDING_LIMIT_REACHED')) {
+        let limitMessage = 'You have reached your spending limit.'
+        try {
+          limitMessage = JSON.parse(message).message || limitMessage
+        } catch {}
+        toast.error(limitMessage)
+        return
+      }
       toast.error(`Error in chat: ${message}`)
     },
     sendExtraMessageFields: false, // Disable extra message fields,
@@ -0,0 +1,64 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export function CreateOrganizationForm() {
+  const router = useRouter()
+  const [name, setName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/organizations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create organization')
+      }
+
+      toast.success(`Created ${data.organization.name}`)
+      router.push(`/account/organizations/${data.organization.id}`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to create organization'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={create} className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2 flex-1 min-w-60">
+        <Label htmlFor="organization-name">Name</Label>
+        <Input
+          id="organization-name"
+          placeholder="Acme Research"
+          maxLength={100}
+          value={name}
+          onChange={e => setName(e.target.value)}
+          disabled={saving}
+        />
+      </div>
+      <Button type="submit" disabled={saving || !name.trim()}>
+        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Create organization
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,324 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { formatCost } from '@/lib/pricing/format'
+import {
+  canChangeMember,
+  canManageBilling,
+  canManageMembers,
+  ORGANIZATION_ROLES,
+  type OrganizationRole
+} from '@/lib/pricing/organization-constants'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+
+interface MemberRow {
+  userId: string
+  email?: string
+  role: OrganizationRole
+  spendingLimit?: number
+}
+
+interface MemberUsageRow {
+  totalCost: number
+  requestCount: number
+}
+
+interface OrganizationMembersProps {
+  organizationId: string
+  currentUserId: string
+  role: OrganizationRole
+  currency: string
+  members: MemberRow[]
+  /** This month's spend per member; owners only */
+  usage?: Record<string, MemberUsageRow>
+}
+
+export function OrganizationMembers({
+  organizationId,
+  currentUserId,
+  role,
+  currency,
+  members,
+  usage
+}: OrganizationMembersProps) {
+  const router = useRouter()
+  const [email, setEmail] = useState('')
+  const [newRole, setNewRole] = useState<OrganizationRole>('member')
+  const [limits, setLimits] = useState<Record<string, string>>({})
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+
+  const assignableRoles = ORGANIZATION_ROLES.filter(r =>
+    canChangeMember(role, 'member', r)
+  )
+  const endpoint = `/api/organizations/${organizationId}/members`
+
+  const send = async (
+    key: string,
+    url: string,
+    init: RequestInit,
+    success: string
+  ) => {
+    setSavingKey(key)
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' }
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+
+      toast.success(success)
+      return true
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Request failed')
+      return false
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const added = await send(
+      'add',
+      endpoint,
+      { method: 'POST', body: JSON.stringify({ email, role: newRole }) },
+      `Added ${email}`
+    )
+    if (added) {
+      setEmail('')
+      router.refresh()
+    }
+  }
+
+  const changeRole = async (member: MemberRow, value: OrganizationRole) => {
+    if (
+      await send(
+        member.userId,
+        endpoint,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ userId: member.userId, role: value })
+        },
+        'Role updated'
+      )
+    ) {
+      router.refresh()
+    }
+  }
+
+  const saveLimit = async (member: MemberRow) => {
+    const value = limits[member.userId]?.trim()
+    if (
+      await send(
+        member.userId,
+        endpoint,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({
+            userId: member.userId,
+            spendingLimit: value ? parseFloat(value) : null
+          })
+        },
+        'Spending limit saved'
+      )
+    ) {
+      router.refresh()
+    }
+  }
+
+  const removeMember = async (member: MemberRow) => {
+    const leaving = member.userId === currentUserId
+    if (
+      await send(
+        member.userId,
+        `${endpoint}?userId=${member.userId}`,
+        { method: 'DELETE' },
+        leaving ? 'You left the organization' : 'Member removed'
+      )
+    ) {
+      if (leaving) {
+        router.push('/account/organizations')
+      }
+      router.refresh()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {canManageMembers(role) && (
+        <form onSubmit={addMember} className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 flex-1 min-w-60">
+            <Label htmlFor="member-email">Email</Label>
+            <Input
+              id="member-email"
+              type="email"
+              placeholder="teammate@example.com"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              disabled={savingKey === 'add'}
+            />
+          </div>
+          <div className="space-y-2 w-32">
+            <Label htmlFor="member-role">Role</Label>
+            <Select
+              value={newRole}
+              onValueChange={value => setNewRole(value as OrganizationRole)}
+            >
+              <SelectTrigger id="member-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assignableRoles.map(r => (
+                  <SelectItem key={r} value={r}>
+                    {r}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={savingKey === 'add' || !email}>
+            {savingKey === 'add' && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Add member
+          </Button>
+        </form>
+      )}
+
+      <div className="space-y-2">
+        {members.map(member => {
+          const canChange =
+            canManageMembers(role) && canChangeMember(role, member.role)
+          const spent = usage?.[member.userId]
+
+          return (
+            <div
+              key={member.userId}
+              className="flex flex-wrap items-center justify-between gap-4 p-3 border rounded-lg"
+            >
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium truncate">
+                    {member.email ?? member.userId}
+                  </span>
+                  {member.userId === currentUserId && (
+                    <Badge variant="secondary">you</Badge>
+                  )}
+                </div>
+                {usage && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCost(spent?.totalCost ?? 0, currency)} this month
+                    {' · '}
+                    {spent?.requestCount ?? 0} requests
+                    {member.spendingLimit !== undefined &&
+                      ` · limit ${formatCost(member.spendingLimit, currency)}`}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {canManageBilling(role) && (
+                  <>
+                    <Input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      placeholder="No limit"
+                      aria-label="Monthly spending limit"
+                      className="w-28 h-8"
+                      value={
+                        limits[member.userId] ??
+                        member.spendingLimit?.toString() ??
+                        ''
+                      }
+                      onChange={e =>
+                        setLimits(prev => ({
+                          ...prev,
+                          [member.userId]: e.target.value
+                        }))
+                      }
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={
+                        savingKey === member.userId ||
+                        limits[member.userId] === undefined
+                      }
+                      onClick={() => saveLimit(member)}
+                    >
+                      Save limit
+                    </Button>
+                  </>
+                )}
+                {canChange ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={value =>
+                      changeRole(member, value as OrganizationRole)
+                    }
+                    disabled={savingKey === member.userId}
+                  >
+                    <SelectTrigger
+                      className="w-28 h-8"
+                      aria-label="Member role"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ORGANIZATION_ROLES.filter(r =>
+                        canChangeMember(role, member.role, r)
+                      ).map(r => (
+                        <SelectItem key={r} value={r}>
+                          {r}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="outline">{member.role}</Badge>
+                )}
+                {(canChange || member.userId === currentUserId) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={savingKey === member.userId}
+                    onClick={() => removeMember(member)}
+                    title={
+                      member.userId === currentUserId
+                        ? 'Leave organization'
+                        : 'Remove member'
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { formatCompactTokens, formatCost } from '@/lib/pricing/format'
+import type { DailyUsage } from '@/lib/pricing/usage-analytics'
+
+// Models beyond this many are grouped as "Other" in the tokens chart
+const MAX_CHART_MODELS = 5
+const OTHER_MODELS = 'Other'
+
+const MODEL_COLORS = [
+  'hsl(221 83% 53%)',
+  'hsl(142 71% 45%)',
+  'hsl(38 92% 50%)',
+  'hsl(280 65% 60%)',
+  'hsl(0 72% 51%)',
+  'hsl(215 16% 47%)'
+]
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  })
+}
+
+function ChartAxis({ daily }: { daily: DailyUsage[] }) {
+  if (daily.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+      <span>{formatDay(daily[0].date)}</span>
+      <span>{formatDay(daily[daily.length - 1].date)}</span>
+    </div>
+  )
+}
+
+interface DailySpendChartProps {
+  daily: DailyUsage[]
+  currency: string
+}
+
+export function DailySpendChart({ daily, currency }: DailySpendChartProps) {
+  const maxCost = Math.max(...daily.map(day => day.cost), 0)
+
+  return (
+    <div>
+      <div className="flex h-48 items-end gap-px">
+        {daily.map(day => (
+          <div
+            key={day.date}
+            className="flex h-full flex-1 items-end"
+            title={`${formatDay(day.date)}: ${formatCost(day.cost, currency)}`}
+          >
+            <div
+              className="w-full rounded-t-sm bg-primary"
+              style={{
+                height: maxCost > 0 ? `${(day.cost / maxCost) * 100}%` : 0
+              }}
+            />
+          </div>
+        ))}
+      </div>
+      <ChartAxis daily={daily} />
+    </div>
+  )
+}
+
+interface ModelTokensChartProps {
+  daily: DailyUsage[]
+  /** Models ordered by total tokens, most first */
+  models: string[]
+}
+
+export function ModelTokensChart({ daily, models }: ModelTokensChartProps) {
+  const shownModels = models.slice(0, MAX_CHART_MODELS)
+  const series =
+    models.length > MAX_CHART_MODELS
+      ? [...shownModels, OTHER_MODELS]
+      : shownModels
+  const maxTokens = Math.max(...daily.map(day => day.tokens), 0)
+
+  const segmentsOf = (day: DailyUsage) =>
+    series.map(model =>
+      model === OTHER_MODELS
+        ? Object.entries(day.tokensByModel)
+            .filter(([key]) => !shownModels.includes(key))
+            .reduce((sum, [, tokens]) => sum + tokens, 0)
+        : (day.tokensByModel[model] ?? 0)
+    )
+
+  return (
+    <div>
+      <div className="flex h-48 items-end gap-px">
+        {daily.map(day => (
+          <div
+            key={day.date}
+            className="flex h-full flex-1 flex-col-reverse"
+            title={`${formatDay(day.date)}: ${formatCompactTokens(day.tokens)} tokens`}
+          >
+            {segmentsOf(day).map((tokens, index) =>
+              tokens > 0 ? (
+                <div
+                  key={series[index]}
+                  className="w-full"
+                  style={{
+                    height: `${(tokens / maxTokens) * 100}%`,
+                    backgroundColor: MODEL_COLORS[index]
+                  }}
+                />
+              ) : null
+            )}
+          </div>
+        ))}
+      </div>
+      <ChartAxis daily={daily} />
+      <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {series.map((model, index) => (
+          <span key={model} className="flex items-center gap-1.5">
+            <span
+              className="inline-block h-2.5 w-2.5 rounded-sm"
+              style={{ backgroundColor: MODEL_COLORS[index] }}
+            />
+            {model}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { Download } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+const PRESET_DAYS = [7, 30, 90]
+
+interface UsageRangePickerProps {
+  from: string // YYYY-MM-DD
+  to: string // YYYY-MM-DD
+}
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 86400000).toISOString().slice(0, 10)
+}
+
+export function UsageRangePicker({ from, to }: UsageRangePickerProps) {
+  const router = useRouter()
+  const [draftFrom, setDraftFrom] = useState(from)
+  const [draftTo, setDraftTo] = useState(to)
+
+  const showRange = (nextFrom: string, nextTo: string) => {
+    setDraftFrom(nextFrom)
+    setDraftTo(nextTo)
+    router.push(`/account/usage?from=${nextFrom}&to=${nextTo}`)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {PRESET_DAYS.map(days => (
+        <Button
+          key={days}
+          size="sm"
+          variant="outline"
+          onClick={() => showRange(daysAgo(days - 1), daysAgo(0))}
+        >
+          {days}d
+        </Button>
+      ))}
+      <Input
+        type="date"
+        className="h-8 w-40"
+        value={draftFrom}
+        max={draftTo}
+        onChange={e => setDraftFrom(e.target.value)}
+      />
+      <span className="text-sm text-muted-foreground">to</span>
+      <Input
+        type="date"
+        className="h-8 w-40"
+        value={draftTo}
+        min={draftFrom}
+        onChange={e => setDraftTo(e.target.value)}
+      />
+      <Button
+        size="sm"
+        disabled={!draftFrom || !draftTo}
+        onClick={() => showRange(draftFrom, draftTo)}
+      >
+        Apply
+      </Button>
+      <Button size="sm" variant="outline" asChild>
+        <a href={`/api/usage/export?from=${from}&to=${to}`} download>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </a>
+      </Button>
+    </div>
+  )
+}
@@ -2,11 +2,19 @@
 
 import { useEffect, useState } from 'react'
 
+interface ChatCostBreakdown {
+  callType: string
+  calls: number
+  totalTokens: number
+  cost: number
+}
+
 interface ChatCost {
   totalCost: number
   inputTokens: number
   outputTokens: number
   totalTokens: number
+  breakdown?: ChatCostBreakdown[]
 }
 
 /**
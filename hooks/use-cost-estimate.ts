@@ -0,0 +1,100 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { Message } from 'ai'
+
+import { WORKSPACE_COOKIE } from '@/lib/pricing/organization-constants'
+import { getCookie } from '@/lib/utils/cookies'
+
+interface RequestCostEstimate {
+  inputTokens: number
+  outputTokens: number
+  billedCost: number
+  billedRange: { min: number; max: number }
+}
+
+export interface CostEstimateResult {
+  estimate: RequestCostEstimate | null
+  confirmThreshold: number | null
+  requiresConfirmation: boolean
+}
+
+const DEBOUNCE_MS = 500
+
+// The estimate depends on the conversation, the message and the model,
+// search mode and workspace the chat endpoint reads from cookies
+function getEstimateKey(input: string, messages: Message[]) {
+  return JSON.stringify([
+    input,
+    messages.length,
+    getCookie('selectedModel'),
+    getCookie('search-mode'),
+    getCookie(WORKSPACE_COOKIE)
+  ])
+}
+
+/**
+ * Hook to estimate the cost of the next chat request while the user types
+ * `getEstimate` returns an up-to-date estimate for the moment of sending,
+ * fetching it again if the model or search mode changed since
+ */
+export function useCostEstimate(
+  input: string,
+  messages: Message[],
+  enabled: boolean = true
+) {
+  const [result, setResult] = useState<CostEstimateResult | null>(null)
+  const cache = useRef<{ key: string; result: CostEstimateResult | null }>()
+  // Guests cannot be billed, so stop asking once the endpoint refuses them
+  const unavailable = useRef(false)
+
+  const getEstimate =
+    useCallback(async (): Promise<CostEstimateResult | null> => {
+      if (unavailable.current) {
+        return null
+      }
+
+      const key = getEstimateKey(input, messages)
+      if (cache.current?.key === key) {
+        return cache.current.result
+      }
+
+      try {
+        const response = await fetch('/api/chat/estimate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ messages, input })
+        })
+
+        if (response.status === 401) {
+          unavailable.current = true
+          return null
+        }
+
+        const data: CostEstimateResult | null = response.ok
+          ? await response.json()
+          : null
+        cache.current = { key, result: data }
+        setResult(data)
+        return data
+      } catch (error) {
+        console.error('Failed to estimate request cost:', error)
+        return null
+      }
+    }, [input, messages])
+
+  useEffect(() => {
+    if (!enabled || !input.trim()) {
+      return
+    }
+
+    const timer = setTimeout(getEstimate, DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [enabled, input, getEstimate])
+
+  return {
+    result: enabled && input.trim() ? result : null,
+    getEstimate
+  }
+}
@@ -1,16 +1,18 @@
 import { CoreMessage, generateObject } from 'ai'
 
+import { UsageAccumulator } from '@/lib/pricing/usage-accumulator'
 import { relatedSchema } from '@/lib/schema/related'
 
 import {
   getModel,
-  getToolCallModel,
+  getToolCallModelId,
   isToolCallSupported
 } from '../utils/registry'
 
 export async function generateRelatedQuestions(
   messages: CoreMessage[],
-  model: string
+  model: string,
+  turnUsage?: UsageAccumulator
 ) {
   const lastMessages = messages.slice(-1).map(message => ({
     ...message,
@@ -18,12 +20,10 @@ export async function generateRelatedQuestions(
   })) as CoreMessage[]
 
   const supportedModel = isToolCallSupported(model)
-  const currentModel = supportedModel
-    ? getModel(model)
-    : getToolCallModel(model)
+  const currentModelId = supportedModel ? model : getToolCallModelId(model)
 
   const result = await generateObject({
-    model: currentModel,
+    model: getModel(currentModelId),
     system: `As a professional web researcher, your task is to generate a set of three queries that explore the subject matter more deeply, building upon the initial query and the information uncovered in its search results.
 
     For instance, if the original query was "Starship's third test flight key milestones", your output should follow this format:
@@ -34,5 +34,12 @@ export async function generateRelatedQuestions(
     schema: relatedSchema
   })
 
+  turnUsage?.add(
+    currentModelId,
+    'related_questions',
+    result.usage,
+    result.providerMetadata
+  )
+
   return result
 }
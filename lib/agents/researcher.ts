@@ -1,7 +1,8 @@
 import { CoreMessage, smoothStream, streamText } from 'ai'
 
+import { UsageAccumulator } from '../pricing/usage-accumulator'
 import { createQuestionTool } from '../tools/question'
-import { retrieveTool } from '../tools/retrieve'
+import { createRetrieveTool } from '../tools/retrieve'
 import { createSearchTool } from '../tools/search'
 import { createVideoSearchTool } from '../tools/video-search'
 import { getModel } from '../utils/registry'
@@ -39,18 +40,21 @@ type ResearcherReturn = Parameters<typeof streamText>[0]
 export function researcher({
   messages,
   model,
-  searchMode
+  searchMode,
+  turnUsage
 }: {
   messages: CoreMessage[]
   model: string
   searchMode: boolean
+  turnUsage?: UsageAccumulator
 }): ResearcherReturn {
   try {
     const currentDate = new Date().toLocaleString()
 
-    // Create model-specific tools
-    const searchTool = createSearchTool(model)
-    const videoSearchTool = createVideoSearchTool(model)
+    // Create model-specific tools, metered on the turn's usage
+    const searchTool = createSearchTool(model, turnUsage)
+    const retrieveTool = createRetrieveTool(turnUsage)
+    const videoSearchTool = createVideoSearchTool(model, turnUsage)
     const askQuestionTool = createQuestionTool(model)
 
     return {
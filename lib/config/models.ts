@@ -2,6 +2,16 @@ import { Model } from '@/lib/types/models'
 
 import defaultModels from './default-models.json'
 
+// Used when the selectedModel cookie is missing or unreadable
+export const DEFAULT_MODEL: Model = {
+  id: 'gpt-4o-mini',
+  name: 'GPT-4o mini',
+  provider: 'OpenAI',
+  providerId: 'openai',
+  enabled: true,
+  toolCallType: 'native'
+}
+
 export function validateModel(model: any): model is Model {
   return (
     typeof model.id === 'string' &&
@@ -0,0 +1,484 @@
+/**
+ * Admin Billing Service
+ *
+ * Admin console for account balances: search accounts, review their ledger,
+ * refund deposits through Stripe and post manual adjustment or refund
+ * transactions. Every refund and balance change, with the reason the admin
+ * gave, is written to admin_audit_log whether it succeeded or not.
+ */
+
+import {
+  createRefund,
+  fromMinorUnits,
+  getPaymentIntent,
+  getRefundDebit,
+  toMinorUnits
+} from '@/lib/stripe/payment-service'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import { getUserBalanceRecord, postBalanceChange } from './balance-service'
+import { getDepositRefundState, recordDepositRefund } from './refund-service'
+import { getTransactionById } from './transaction-service'
+
+export type AdminAuditAction =
+  | 'stripe_refund'
+  | 'balance_adjustment'
+  | 'manual_refund'
+
+export type ManualTransactionType = 'adjustment' | 'refund'
+
+export interface AdminActor {
+  id: string
+  email: string
+}
+
+export interface AdminAuditEntry {
+  id: string
+  adminId: string
+  adminEmail?: string
+  action: AdminAuditAction
+  targetUserId: string
+  transactionId?: string
+  amount?: number
+  currency?: string
+  reason: string
+  outcome: 'succeeded' | 'failed'
+  details?: Record<string, unknown>
+  createdAt: Date
+}
+
+export interface BillingAccount {
+  userId: string // User id, or organization id for a shared wallet
+  ownerType: 'user' | 'organization'
+  label: string // Email or organization name
+  balance?: number // Undefined if the account has no balance record yet
+  currency?: string
+  createdAt: Date
+}
+
+export interface AdminActionResult {
+  success: boolean
+  error?: string
+  transactionId?: string
+  refundId?: string
+}
+
+export const MANUAL_TRANSACTION_TYPES: ManualTransactionType[] = [
+  'adjustment',
+  'refund'
+]
+export const MAX_MANUAL_AMOUNT = 10000
+export const MAX_REASON_LENGTH = 500
+
+// Amounts are DECIMAL(10, 2); ignore float noise
+const EPSILON = 1e-9
+
+function mapAuditRow(row: any): AdminAuditEntry {
+  return {
+    id: row.id,
+    adminId: row.admin_id,
+    adminEmail: row.admin_email ?? undefined,
+    action: row.action,
+    targetUserId: row.target_user_id,
+    transactionId: row.transaction_id ?? undefined,
+    amount: row.amount !== null ? parseFloat(row.amount) : undefined,
+    currency: row.currency ?? undefined,
+    reason: row.reason,
+    outcome: row.outcome,
+    details: row.details ?? undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+function mapAccountRow(row: any): BillingAccount {
+  return {
+    userId: row.user_id,
+    ownerType: row.owner_type,
+    label: row.label,
+    balance: row.balance !== null ? parseFloat(row.balance) : undefined,
+    currency: row.currency ?? undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+/**
+ * Validate the reason an admin gives for an action
+ * @returns Error message, or null if the reason is valid
+ */
+export function validateAdminReason(reason: unknown): string | null {
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return 'A reason is required'
+  }
+
+  if (reason.length > MAX_REASON_LENGTH) {
+    return `Reason cannot be longer than ${MAX_REASON_LENGTH} characters`
+  }
+
+  return null
+}
+
+/**
+ * Validate a manual transaction before posting it
+ * Adjustments go either way; refunds credit the balance. A debit cannot take
+ * the balance below zero
+ * @param amount - Positive credits the balance, negative debits it
+ * @returns Error message, or null if the transaction is valid
+ */
+export function validateManualTransaction(
+  type: ManualTransactionType,
+  amount: number,
+  balance: number
+): string | null {
+  if (!MANUAL_TRANSACTION_TYPES.includes(type)) {
+    return `Invalid transaction type: ${type}`
+  }
+
+  if (!Number.isFinite(amount) || amount === 0) {
+    return 'Amount must be a non-zero number'
+  }
+
+  if (Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6) {
+    return 'Amount cannot have more than two decimal places'
+  }
+
+  if (Math.abs(amount) > MAX_MANUAL_AMOUNT) {
+    return `Amount cannot exceed ${MAX_MANUAL_AMOUNT}`
+  }
+
+  if (type === 'refund' && amount < 0) {
+    return 'A refund credits the balance; use a negative adjustment to debit it'
+  }
+
+  if (amount < 0 && balance + amount < -EPSILON) {
+    return `Balance is ${balance.toFixed(2)}; it cannot go below zero`
+  }
+
+  return null
+}
+
+/**
+ * Validate a Stripe refund of a deposit
+ * @param amount - In the payment currency; undefined refunds what is left
+ * @param refundable - What is left to refund, in the payment currency
+ * @returns Error message, or null if the refund is valid
+ */
+export function validateRefundAmount(
+  amount: number | undefined,
+  refundable: number,
+  currency: string
+): string | null {
+  if (refundable <= EPSILON) {
+    return 'This deposit has already been refunded in full'
+  }
+
+  if (amount === undefined) {
+    return null
+  }
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return 'Refund amount must be a positive number'
+  }
+
+  if (amount > refundable + EPSILON) {
+    return `Refund cannot exceed the ${refundable} ${currency} left on this deposit`
+  }
+
+  return null
+}
+
+/**
+ * Find users by email or id and organizations by name or id
+ */
+export async function searchBillingAccounts(
+  query: string,
+  limit: number = 20
+): Promise<BillingAccount[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.rpc('search_billing_accounts', {
+      p_query: query,
+      p_limit: limit
+    })
+
+    if (error) {
+      console.error('Failed to search billing accounts:', error)
+      return []
+    }
+
+    return (data || []).map(mapAccountRow)
+  } catch (error) {
+    console.error('Error searching billing accounts:', error)
+    return []
+  }
+}
+
+/**
+ * Get one account by its user or organization id
+ */
+export async function getBillingAccount(
+  userId: string
+): Promise<BillingAccount | null> {
+  const accounts = await searchBillingAccounts(userId, 50)
+  return accounts.find(a => a.userId === userId) ?? null
+}
+
+/**
+ * Get admin actions, newest first
+ * @param targetUserId - Only actions on this account
+ */
+export async function getAdminAuditLog(
+  targetUserId?: string,
+  limit: number = 50
+): Promise<AdminAuditEntry[]> {
+  try {
+    const supabase = createAdminClient()
+    let query = supabase
+      .from('admin_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (targetUserId) {
+      query = query.eq('target_user_id', targetUserId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch admin audit log:', error)
+      return []
+    }
+
+    return (data || []).map(mapAuditRow)
+  } catch (error) {
+    console.error('Error fetching admin audit log:', error)
+    return []
+  }
+}
+
+/**
+ * Write an admin action to the audit trail
+ * @returns Whether the entry was saved
+ */
+export async function recordAdminAction(
+  actor: AdminActor,
+  entry: Omit<AdminAuditEntry, 'id' | 'adminId' | 'adminEmail' | 'createdAt'>
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('admin_audit_log').insert({
+      admin_id: actor.id,
+      admin_email: actor.email || null,
+      action: entry.action,
+      target_user_id: entry.targetUserId,
+      transaction_id: entry.transactionId ?? null,
+      amount: entry.amount ?? null,
+      currency: entry.currency ?? null,
+      reason: entry.reason.trim(),
+      outcome: entry.outcome,
+      details: entry.details ?? null
+    })
+
+    if (error) {
+      console.error('Failed to record admin action:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error recording admin action:', error)
+    return false
+  }
+}
+
+/**
+ * Post a manual adjustment or refund transaction on an account
+ * @param amount - Positive credits the balance, negative debits it
+ */
+export async function postManualTransaction(
+  actor: AdminActor,
+  userId: string,
+  type: ManualTransactionType,
+  amount: number,
+  reason: string
+): Promise<AdminActionResult> {
+  const reasonError = validateAdminReason(reason)
+  if (reasonError) {
+    return { success: false, error: reasonError }
+  }
+
+  const balanceRecord = await getUserBalanceRecord(userId, true)
+  const validationError = validateManualTransaction(
+    type,
+    amount,
+    balanceRecord?.balance ?? 0
+  )
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const transactionId = await postBalanceChange({
+    userId,
+    amount,
+    type,
+    description: `${type === 'refund' ? 'Refund' : 'Adjustment'} by admin: ${reason.trim()}`,
+    metadata: {
+      reason: reason.trim(),
+      adminId: actor.id,
+      adminEmail: actor.email
+    }
+  })
+
+  await recordAdminAction(actor, {
+    action: type === 'refund' ? 'manual_refund' : 'balance_adjustment',
+    targetUserId: userId,
+    transactionId: transactionId ?? undefined,
+    amount,
+    currency: balanceRecord?.currency,
+    reason,
+    outcome: transactionId ? 'succeeded' : 'failed',
+    details: transactionId
+      ? undefined
+      : { error: 'Failed to update the balance' }
+  })
+
+  if (!transactionId) {
+    return { success: false, error: 'Failed to update the balance' }
+  }
+
+  console.log(
+    `Manual ${type} of ${amount} on ${userId} by ${actor.email}: ${transactionId}`
+  )
+
+  return { success: true, transactionId }
+}
+
+/**
+ * Refund a deposit through Stripe, in full or in part, and deduct the refund
+ * from the wallet the deposit credited
+ * @param amount - In the payment currency; undefined refunds what is left
+ */
+export async function refundDeposit(
+  actor: AdminActor,
+  userId: string,
+  depositTransactionId: string,
+  amount: number | undefined,
+  reason: string
+): Promise<AdminActionResult> {
+  const reasonError = validateAdminReason(reason)
+  if (reasonError) {
+    return { success: false, error: reasonError }
+  }
+
+  const deposit = await getTransactionById(depositTransactionId, true)
+
+  if (
+    !deposit ||
+    deposit.userId !== userId ||
+    deposit.type !== 'deposit' ||
+    !deposit.stripePaymentIntentId
+  ) {
+    return { success: false, error: 'Stripe deposit not found on this account' }
+  }
+
+  const audit = {
+    action: 'stripe_refund' as const,
+    targetUserId: userId,
+    reason
+  }
+
+  try {
+    const paymentIntent = await getPaymentIntent(deposit.stripePaymentIntentId)
+    const state = await getDepositRefundState(paymentIntent)
+
+    if (!state) {
+      return { success: false, error: 'This deposit was never charged' }
+    }
+
+    const validationError = validateRefundAmount(
+      amount,
+      fromMinorUnits(state.refundableAmount, state.currency),
+      state.currency
+    )
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const refundAmount =
+      amount !== undefined
+        ? toMinorUnits(amount, state.currency)
+        : state.refundableAmount
+    const debit = getRefundDebit(
+      refundAmount,
+      state.chargedAmount,
+      paymentIntent.metadata
+    )
+    const balanceRecord = await getUserBalanceRecord(userId, true)
+
+    if (debit === null) {
+      return { success: false, error: 'Deposit has no recorded amount' }
+    }
+
+    // The balance cannot go negative, so a refund of credit that has already
+    // been spent has to be settled with an adjustment first
+    if (!balanceRecord || balanceRecord.balance + EPSILON < debit) {
+      return {
+        success: false,
+        error: `The refund would deduct ${debit} ${balanceRecord?.currency ?? ''} but the balance is ${balanceRecord?.balance ?? 0}`
+      }
+    }
+
+    // Keyed on what was already refunded: a double-submitted or retried
+    // request gets the same refund back, while a later partial refund of the
+    // same deposit is a new one
+    const refund = await createRefund(
+      paymentIntent.id,
+      refundAmount,
+      'requested_by_customer',
+      { adminId: actor.id, adminEmail: actor.email, reason: reason.trim() },
+      `admin-refund-${paymentIntent.id}-${state.refundedAmount}-${refundAmount}`
+    )
+    const transactionId = await recordDepositRefund(refund, paymentIntent)
+
+    await recordAdminAction(actor, {
+      ...audit,
+      transactionId: transactionId ?? undefined,
+      amount: -debit,
+      currency: balanceRecord.currency,
+      outcome: 'succeeded',
+      details: {
+        refundId: refund.id,
+        paymentIntentId: paymentIntent.id,
+        depositTransactionId,
+        refundAmount: fromMinorUnits(refundAmount, state.currency),
+        refundCurrency: state.currency,
+        ...(!transactionId && { ledgerError: 'Refund not recorded yet' })
+      }
+    })
+
+    console.log(
+      `Refund ${refund.id} of deposit ${depositTransactionId} by ${actor.email}`
+    )
+
+    return {
+      success: true,
+      refundId: refund.id,
+      transactionId: transactionId ?? undefined,
+      // The charge.refunded webhook records it when it arrives
+      ...(!transactionId && {
+        error: 'Refund issued, but it is not in the ledger yet'
+      })
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Refund failed'
+
+    await recordAdminAction(actor, {
+      ...audit,
+      amount: amount !== undefined ? -amount : undefined,
+      outcome: 'failed',
+      details: { depositTransactionId, error: message }
+    })
+
+    return { success: false, error: message }
+  }
+}
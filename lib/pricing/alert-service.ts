@@ -1,353 +1,329 @@
 /**
  * Alert Service
  *
- * Sends notifications about pricing changes via Slack, email, etc.
+ * Renders alert events with their templates (see alerts/templates.ts) and
+ * sends them to the channels admins routed each event type to. An event type
+ * without a route goes to every configured channel.
  */
 
-import { ChangeDetectionResult, PricingChangeDetection } from './change-detector'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import { createAlertChannels } from './alerts/registry'
+import { renderAlert } from './alerts/templates'
+import {
+  AlertChannel,
+  AlertDeliveryResult,
+  AlertEvent,
+  AlertEventType,
+  ProviderMargin
+} from './alerts/types'
+import { ChangeDetectionResult } from './change-detector'
 import { SyncResult } from './sync-orchestrator'
 
-export interface AlertConfig {
-  slack?: {
-    enabled: boolean
-    webhookUrl: string
-    channel?: string
-    username?: string
-    iconEmoji?: string
-  }
-  email?: {
-    enabled: boolean
-    recipients: string[]
-    from?: string
-    provider?: 'resend' | 'sendgrid' | 'smtp'
-  }
-  console?: {
-    enabled: boolean
-  }
+export const ALERT_EVENT_TYPES: AlertEventType[] = [
+  'sync_result',
+  'review_needed',
+  'provider_failure',
+  'reconciliation_discrepancy',
+  'low_margin'
+]
+
+export const ALERT_CHANNEL_IDS = ['slack', 'email', 'webhook', 'console']
+
+// Alert when the platform margin is below this share of billed usage
+export const DEFAULT_MIN_MARGIN_PERCENT = 10
+
+export interface AlertRoute {
+  eventType: AlertEventType
+  channels: string[]
+  updatedBy?: string
+  updatedAt?: Date
 }
 
 export interface AlertResult {
   success: boolean
-  slack?: { sent: boolean; error?: string }
-  email?: { sent: boolean; error?: string }
-  console?: { sent: boolean }
+  event: AlertEventType
+  channels: Record<string, AlertDeliveryResult>
 }
 
-export class AlertService {
-  constructor(private config: AlertConfig) {}
+export interface MarginReport {
+  providerCost: number
+  billedAmount: number
+  margin: number
+  byProvider: Array<{
+    providerId: string
+    providerCost: number
+    billedAmount: number
+    margin: number
+  }>
+}
 
-  /**
-   * Send alerts about sync results
-   */
-  async sendSyncAlert(
-    syncResult: SyncResult,
-    changes?: ChangeDetectionResult
-  ): Promise<AlertResult> {
-    const result: AlertResult = { success: true }
-
-    // Generate alert message
-    const message = this.formatSyncMessage(syncResult, changes)
-
-    // Send to configured channels
-    const promises: Promise<void>[] = []
-
-    if (this.config.slack?.enabled && this.config.slack.webhookUrl) {
-      promises.push(
-        this.sendSlackAlert(message).then(
-          slackResult => {
-            result.slack = slackResult
-            if (!slackResult.sent) result.success = false
-          }
-        )
-      )
-    }
+export function isAlertEventType(value: unknown): value is AlertEventType {
+  return ALERT_EVENT_TYPES.includes(value as AlertEventType)
+}
 
-    if (this.config.email?.enabled && this.config.email.recipients.length > 0) {
-      promises.push(
-        this.sendEmailAlert(message, syncResult).then(
-          emailResult => {
-            result.email = emailResult
-            if (!emailResult.sent) result.success = false
-          }
-        )
-      )
-    }
+/**
+ * Validate an admin-chosen route
+ * @returns Error message, or null if the route is valid
+ */
+export function validateAlertRoute(
+  eventType: unknown,
+  channels: unknown
+): string | null {
+  if (!isAlertEventType(eventType)) {
+    return `Unknown alert event type: ${eventType}`
+  }
 
-    if (this.config.console?.enabled) {
-      console.log('\n📢 PRICING SYNC ALERT\n' + message)
-      result.console = { sent: true }
-    }
+  if (!Array.isArray(channels)) {
+    return 'Channels must be a list of channel ids'
+  }
 
-    await Promise.allSettled(promises)
-    return result
+  const unknown = channels.filter(c => !ALERT_CHANNEL_IDS.includes(c))
+  if (unknown.length > 0) {
+    return `Unknown alert channels: ${unknown.join(', ')}`
   }
 
-  /**
-   * Send Slack notification
-   */
-  private async sendSlackAlert(
-    message: string
-  ): Promise<{ sent: boolean; error?: string }> {
-    if (!this.config.slack?.webhookUrl) {
-      return { sent: false, error: 'No Slack webhook URL configured' }
-    }
+  return null
+}
 
-    try {
-      const payload = {
-        text: message,
-        channel: this.config.slack.channel,
-        username: this.config.slack.username || 'Pricing Bot',
-        icon_emoji: this.config.slack.iconEmoji || ':chart_with_upwards_trend:',
-        mrkdwn: true
-      }
-
-      const response = await fetch(this.config.slack.webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-      })
+/**
+ * The configured channels an event type goes to
+ */
+export function resolveAlertChannels(
+  eventType: AlertEventType,
+  routes: AlertRoute[],
+  channels: AlertChannel[]
+): AlertChannel[] {
+  const configured = channels.filter(c => c.isConfigured())
+  const route = routes.find(r => r.eventType === eventType)
+
+  if (!route) {
+    return configured
+  }
 
-      if (!response.ok) {
-        throw new Error(`Slack API error: ${response.status}`)
-      }
+  return configured.filter(c => route.channels.includes(c.id))
+}
 
-      return { sent: true }
-    } catch (error) {
-      return {
-        sent: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }
-    }
+/**
+ * The low_margin event for a margin report, or null if the margin is fine
+ * Periods without billed usage are not alerted on.
+ */
+export function evaluateMargin(
+  report: MarginReport,
+  since: Date,
+  minMarginPercent: number = DEFAULT_MIN_MARGIN_PERCENT
+): Extract<AlertEvent, { type: 'low_margin' }> | null {
+  const toMargin = (
+    providerId: string,
+    entry: { providerCost: number; billedAmount: number; margin: number }
+  ): ProviderMargin => ({
+    providerId,
+    providerCost: entry.providerCost,
+    billedAmount: entry.billedAmount,
+    marginPercent: (entry.margin / entry.billedAmount) * 100
+  })
+
+  if (report.billedAmount <= 0) {
+    return null
   }
 
-  /**
-   * Send email notification
-   */
-  private async sendEmailAlert(
-    message: string,
-    syncResult: SyncResult
-  ): Promise<{ sent: boolean; error?: string }> {
-    if (!this.config.email?.recipients || this.config.email.recipients.length === 0) {
-      return { sent: false, error: 'No email recipients configured' }
-    }
+  const overall = toMargin('all', report)
+  const providers = report.byProvider
+    .filter(p => p.billedAmount > 0)
+    .map(p => toMargin(p.providerId, p))
+    .filter(p => p.marginPercent < minMarginPercent)
 
-    try {
-      // Convert message to HTML
-      const htmlMessage = this.formatEmailHtml(message, syncResult)
-
-      // Send based on provider
-      if (this.config.email.provider === 'resend') {
-        return await this.sendViaResend(htmlMessage, syncResult)
-      } else {
-        // For now, just log that we would send email
-        console.log('Would send email to:', this.config.email.recipients.join(', '))
-        return { sent: true }
-      }
-    } catch (error) {
-      return {
-        sent: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }
-    }
+  if (overall.marginPercent >= minMarginPercent && providers.length === 0) {
+    return null
   }
 
-  /**
-   * Send email via Resend
-   */
-  private async sendViaResend(
-    htmlMessage: string,
-    syncResult: SyncResult
-  ): Promise<{ sent: boolean; error?: string }> {
-    if (!process.env.RESEND_API_KEY) {
-      return { sent: false, error: 'RESEND_API_KEY not configured' }
-    }
-
-    try {
-      const response = await fetch('https://api.resend.com/emails', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.RESEND_API_KEY}`
-        },
-        body: JSON.stringify({
-          from: this.config.email?.from || 'pricing@yourdomain.com',
-          to: this.config.email?.recipients,
-          subject: this.getEmailSubject(syncResult),
-          html: htmlMessage
-        })
-      })
+  return { type: 'low_margin', since, minMarginPercent, overall, providers }
+}
 
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`Resend API error: ${error}`)
-      }
-
-      return { sent: true }
-    } catch (error) {
-      return {
-        sent: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }
+/**
+ * Get the admin-chosen routes
+ */
+export async function getAlertRoutes(): Promise<AlertRoute[] | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.from('alert_routes').select('*')
+
+    if (error) {
+      console.error('Failed to fetch alert routes:', error)
+      return null
     }
+
+    return (data || [])
+      .filter(row => isAlertEventType(row.event_type))
+      .map(row => ({
+        eventType: row.event_type,
+        channels: row.channels || [],
+        updatedBy: row.updated_by ?? undefined,
+        updatedAt: row.updated_at ? new Date(row.updated_at) : undefined
+      }))
+  } catch (error) {
+    console.error('Error fetching alert routes:', error)
+    return null
   }
+}
 
-  /**
-   * Format sync message for alerts
-   */
-  private formatSyncMessage(
-    syncResult: SyncResult,
-    changes?: ChangeDetectionResult
-  ): string {
-    const lines: string[] = []
-
-    // Header
-    if (syncResult.success) {
-      lines.push('✅ *Pricing Sync Completed Successfully*\n')
-    } else {
-      lines.push('❌ *Pricing Sync Failed*\n')
+/**
+ * Set the channels an event type goes to; an empty list turns its alerts off
+ */
+export async function setAlertRoute(
+  eventType: AlertEventType,
+  channels: string[],
+  updatedBy: string
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('alert_routes').upsert(
+      {
+        event_type: eventType,
+        channels: Array.from(new Set(channels)),
+        updated_by: updatedBy
+      },
+      { onConflict: 'event_type' }
+    )
+
+    if (error) {
+      console.error('Failed to save alert route:', error)
+      return false
     }
 
-    // Timestamp
-    lines.push(`📅 *Time:* ${syncResult.timestamp.toISOString()}`)
-    lines.push(`⏱️ *Duration:* ${syncResult.duration}ms\n`)
+    return true
+  } catch (error) {
+    console.error('Error saving alert route:', error)
+    return false
+  }
+}
 
-    // Provider summary
-    lines.push('*📊 Providers:*')
-    lines.push(`• Total: ${syncResult.providers.total}`)
-    lines.push(`• Successful: ${syncResult.providers.successful}`)
-    if (syncResult.providers.failed > 0) {
-      lines.push(`• Failed: ${syncResult.providers.failed}`)
+/**
+ * Remove an event type's route so it goes to every configured channel again
+ */
+export async function deleteAlertRoute(
+  eventType: AlertEventType
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('alert_routes')
+      .delete()
+      .eq('event_type', eventType)
+
+    if (error) {
+      console.error('Failed to delete alert route:', error)
+      return false
     }
-    lines.push('')
 
-    // Changes summary
-    lines.push('*📈 Changes:*')
-    if (syncResult.changes.applied > 0) {
-      lines.push(`• Applied: ${syncResult.changes.applied}`)
-    }
-    if (syncResult.changes.newModels > 0) {
-      lines.push(`• New models: ${syncResult.changes.newModels}`)
-    }
-    if (syncResult.changes.updatedModels > 0) {
-      lines.push(`• Updated models: ${syncResult.changes.updatedModels}`)
-    }
-    if (syncResult.changes.removedModels > 0) {
-      lines.push(`• Removed models: ${syncResult.changes.removedModels}`)
-    }
-    if (syncResult.changes.skipped > 0) {
-      lines.push(`• Skipped: ${syncResult.changes.skipped}`)
-    }
-    if (syncResult.changes.failed > 0) {
-      lines.push(`• Failed: ${syncResult.changes.failed}`)
-    }
+    return true
+  } catch (error) {
+    console.error('Error deleting alert route:', error)
+    return false
+  }
+}
 
-    // Detailed changes if available
-    if (changes && changes.changes.length > 0) {
-      const significantChanges = changes.changes.filter(
-        c => c.changeType !== 'unchanged' && c.autoApplicable
-      )
+export class AlertService {
+  constructor(
+    private channels: AlertChannel[],
+    private loadRoutes: () => Promise<AlertRoute[] | null> = getAlertRoutes
+  ) {}
 
-      if (significantChanges.length > 0 && significantChanges.length <= 5) {
-        lines.push('\n*💡 Notable Changes:*')
-        for (const change of significantChanges.slice(0, 5)) {
-          if (change.changeType === 'updated' && change.changePercent) {
-            lines.push(
-              `• ${change.modelId}: ` +
-              `Input ${this.formatPercent(change.changePercent.input)}, ` +
-              `Output ${this.formatPercent(change.changePercent.output)}`
-            )
-          } else if (change.changeType === 'new') {
-            lines.push(`• ${change.modelId}: Added to pricing`)
-          }
-        }
-      }
-    }
+  /**
+   * Channels with whether they are configured, for the dashboard
+   */
+  getChannels(): { id: string; name: string; configured: boolean }[] {
+    return this.channels.map(c => ({
+      id: c.id,
+      name: c.name,
+      configured: c.isConfigured()
+    }))
+  }
 
-    // Errors
-    if (syncResult.errors.length > 0) {
-      lines.push('\n*⚠️ Errors:*')
-      for (const error of syncResult.errors.slice(0, 3)) {
-        lines.push(`• ${error}`)
-      }
+  /**
+   * Render an event and send it to its routed channels
+   */
+  async send(event: AlertEvent): Promise<AlertResult> {
+    const result: AlertResult = {
+      success: true,
+      event: event.type,
+      channels: {}
     }
 
-    // Warnings
-    if (syncResult.warnings.length > 0) {
-      lines.push('\n*⚠️ Warnings:*')
-      for (const warning of syncResult.warnings.slice(0, 3)) {
-        lines.push(`• ${warning}`)
-      }
+    // Without routes (e.g. the database is unavailable), alert everywhere
+    // rather than not at all
+    const routes = (await this.loadRoutes()) ?? []
+    const channels = resolveAlertChannels(event.type, routes, this.channels)
+
+    if (channels.length === 0) {
+      return result
     }
 
-    // Footer
-    lines.push('\n---')
-    lines.push('_Generated by Automated Pricing System_')
+    const message = renderAlert(event)
+
+    await Promise.allSettled(
+      channels.map(async channel => {
+        const delivery = await channel.send(message).catch(error => ({
+          sent: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }))
+
+        result.channels[channel.id] = delivery
+        if (!delivery.sent) {
+          result.success = false
+          console.error(
+            `Failed to send ${event.type} alert via ${channel.id}:`,
+            delivery.error
+          )
+        }
+      })
+    )
 
-    return lines.join('\n')
+    return result
   }
 
   /**
-   * Format percentage for display
+   * Send alerts about sync results
    */
-  private formatPercent(value: number): string {
-    const sign = value > 0 ? '+' : ''
-    return `${sign}${value.toFixed(1)}%`
+  async sendSyncAlert(
+    syncResult: SyncResult,
+    changes?: ChangeDetectionResult
+  ): Promise<AlertResult> {
+    return this.send({ type: 'sync_result', syncResult, changes })
   }
 
   /**
-   * Get email subject based on sync result
+   * Send alerts about what a sync left for admins: changes awaiting
+   * approval and providers that could not be fetched
    */
-  private getEmailSubject(syncResult: SyncResult): string {
-    if (!syncResult.success) {
-      return '❌ Pricing Sync Failed - Action Required'
+  async sendSyncIssueAlerts(
+    syncResult: SyncResult,
+    source: string
+  ): Promise<AlertResult[]> {
+    const results: AlertResult[] = []
+
+    if (syncResult.changes.queued > 0) {
+      results.push(
+        await this.send({
+          type: 'review_needed',
+          queued: syncResult.changes.queued,
+          source
+        })
+      )
     }
 
-    if (syncResult.changes.applied > 0) {
-      return `✅ Pricing Updated - ${syncResult.changes.applied} changes applied`
+    const failures = syncResult.providers.failures ?? []
+    if (failures.length > 0) {
+      results.push(
+        await this.send({
+          type: 'provider_failure',
+          failures,
+          total: syncResult.providers.total
+        })
+      )
     }
 
-    return '✅ Pricing Sync Completed - No changes'
-  }
-
-  /**
-   * Format HTML email
-   */
-  private formatEmailHtml(message: string, syncResult: SyncResult): string {
-    // Convert markdown-style formatting to HTML
-    const htmlContent = message
-      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.+?)\*/g, '<strong>$1</strong>')
-      .replace(/\n/g, '<br/>')
-      .replace(/•/g, '&bull;')
-
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background: ${syncResult.success ? '#4CAF50' : '#f44336'}; color: white; padding: 10px; border-radius: 5px; }
-    .content { background: #f9f9f9; padding: 20px; margin-top: 10px; border-radius: 5px; }
-    .footer { margin-top: 20px; color: #666; font-size: 0.9em; }
-    strong { color: #000; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h2>${this.getEmailSubject(syncResult)}</h2>
-    </div>
-    <div class="content">
-      ${htmlContent}
-    </div>
-    <div class="footer">
-      <p>This is an automated message from the Pricing System.</p>
-    </div>
-  </div>
-</body>
-</html>
-    `
+    return results
   }
 }
 
@@ -355,24 +331,5 @@ export class AlertService {
  * Create alert service from environment variables
  */
 export function createAlertService(): AlertService {
-  const config: AlertConfig = {
-    slack: {
-      enabled: !!process.env.SLACK_WEBHOOK_URL,
-      webhookUrl: process.env.SLACK_WEBHOOK_URL || '',
-      channel: process.env.SLACK_CHANNEL,
-      username: process.env.SLACK_USERNAME || 'Pricing Bot',
-      iconEmoji: process.env.SLACK_ICON_EMOJI || ':chart_with_upwards_trend:'
-    },
-    email: {
-      enabled: !!process.env.ALERT_EMAIL_RECIPIENTS,
-      recipients: process.env.ALERT_EMAIL_RECIPIENTS?.split(',').map(e => e.trim()) || [],
-      from: process.env.ALERT_EMAIL_FROM || 'pricing@yourdomain.com',
-      provider: (process.env.EMAIL_PROVIDER as any) || 'resend'
-    },
-    console: {
-      enabled: process.env.NODE_ENV === 'development' || process.env.ALERT_CONSOLE === 'true'
-    }
-  }
-
-  return new AlertService(config)
-}
\ No newline at end of file
+  return new AlertService(createAlertChannels())
+}
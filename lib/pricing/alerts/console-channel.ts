@@ -0,0 +1,23 @@
+/**
+ * Console Alert Channel
+ *
+ * Logs alerts, for development
+ */
+
+import { AlertChannel, AlertDeliveryResult, AlertMessage } from './types'
+
+export class ConsoleAlertChannel implements AlertChannel {
+  id = 'console'
+  name = 'Console'
+
+  constructor(private enabled: boolean) {}
+
+  isConfigured(): boolean {
+    return this.enabled
+  }
+
+  async send(message: AlertMessage): Promise<AlertDeliveryResult> {
+    console.log(`\n📢 PRICING ALERT (${message.event})\n` + message.text)
+    return { sent: true }
+  }
+}
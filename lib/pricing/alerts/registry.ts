@@ -0,0 +1,64 @@
+/**
+ * Alert Channel Registry
+ *
+ * Builds the alert channels from environment variables
+ */
+
+import { ConsoleAlertChannel } from './console-channel'
+import { ResendAlertChannel } from './resend-channel'
+import { SlackAlertChannel } from './slack-channel'
+import { SmtpAlertChannel } from './smtp-channel'
+import { AlertChannel } from './types'
+import { WebhookAlertChannel } from './webhook-channel'
+
+/**
+ * The email channel for EMAIL_PROVIDER ('resend' or 'smtp')
+ */
+function createEmailChannel(): AlertChannel {
+  const recipients =
+    process.env.ALERT_EMAIL_RECIPIENTS?.split(',')
+      .map(e => e.trim())
+      .filter(Boolean) || []
+  const from = process.env.ALERT_EMAIL_FROM || 'pricing@yourdomain.com'
+
+  if (process.env.EMAIL_PROVIDER === 'smtp') {
+    return new SmtpAlertChannel({
+      host: process.env.SMTP_HOST || '',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from,
+      recipients
+    })
+  }
+
+  return new ResendAlertChannel({
+    apiKey: process.env.RESEND_API_KEY,
+    from,
+    recipients
+  })
+}
+
+/**
+ * All alert channels, configured or not
+ */
+export function createAlertChannels(): AlertChannel[] {
+  return [
+    new SlackAlertChannel({
+      webhookUrl: process.env.SLACK_WEBHOOK_URL || '',
+      channel: process.env.SLACK_CHANNEL,
+      username: process.env.SLACK_USERNAME || 'Pricing Bot',
+      iconEmoji: process.env.SLACK_ICON_EMOJI || ':chart_with_upwards_trend:'
+    }),
+    createEmailChannel(),
+    new WebhookAlertChannel({
+      url: process.env.ALERT_WEBHOOK_URL || '',
+      secret: process.env.ALERT_WEBHOOK_SECRET
+    }),
+    new ConsoleAlertChannel(
+      process.env.NODE_ENV === 'development' ||
+        process.env.ALERT_CONSOLE === 'true'
+    )
+  ]
+}
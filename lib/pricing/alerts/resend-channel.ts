@@ -0,0 +1,62 @@
+/**
+ * Resend Alert Channel
+ *
+ * Emails alerts through the Resend API
+ */
+
+import { AlertChannel, AlertDeliveryResult, AlertMessage } from './types'
+
+export interface ResendChannelConfig {
+  apiKey?: string
+  from: string
+  recipients: string[]
+}
+
+export class ResendAlertChannel implements AlertChannel {
+  id = 'email'
+  name = 'Email (Resend)'
+
+  constructor(private config: ResendChannelConfig) {}
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey && this.config.recipients.length > 0
+  }
+
+  async send(message: AlertMessage): Promise<AlertDeliveryResult> {
+    if (this.config.recipients.length === 0) {
+      return { sent: false, error: 'No email recipients configured' }
+    }
+
+    if (!this.config.apiKey) {
+      return { sent: false, error: 'RESEND_API_KEY not configured' }
+    }
+
+    try {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.config.apiKey}`
+        },
+        body: JSON.stringify({
+          from: this.config.from,
+          to: this.config.recipients,
+          subject: message.subject,
+          html: message.html
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(`Resend API error: ${error}`)
+      }
+
+      return { sent: true }
+    } catch (error) {
+      return {
+        sent: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+}
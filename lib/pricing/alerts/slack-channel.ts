@@ -0,0 +1,58 @@
+/**
+ * Slack Alert Channel
+ *
+ * Posts alerts to a Slack incoming webhook
+ */
+
+import { AlertChannel, AlertDeliveryResult, AlertMessage } from './types'
+
+export interface SlackChannelConfig {
+  webhookUrl: string
+  channel?: string
+  username?: string
+  iconEmoji?: string
+}
+
+export class SlackAlertChannel implements AlertChannel {
+  id = 'slack'
+  name = 'Slack'
+
+  constructor(private config: SlackChannelConfig) {}
+
+  isConfigured(): boolean {
+    return !!this.config.webhookUrl
+  }
+
+  async send(message: AlertMessage): Promise<AlertDeliveryResult> {
+    if (!this.config.webhookUrl) {
+      return { sent: false, error: 'No Slack webhook URL configured' }
+    }
+
+    try {
+      const payload = {
+        text: message.text,
+        channel: this.config.channel,
+        username: this.config.username || 'Pricing Bot',
+        icon_emoji: this.config.iconEmoji || ':chart_with_upwards_trend:',
+        mrkdwn: true
+      }
+
+      const response = await fetch(this.config.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+
+      if (!response.ok) {
+        throw new Error(`Slack API error: ${response.status}`)
+      }
+
+      return { sent: true }
+    } catch (error) {
+      return {
+        sent: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * SMTP Alert Channel
+ *
+ * Emails alerts through an SMTP server. A small client speaks just the
+ * commands alerts need (EHLO, STARTTLS, AUTH PLAIN/LOGIN, MAIL, RCPT, DATA),
+ * so any server works, including a local sink such as MailHog or smtp4dev
+ * in development.
+ */
+
+import { randomUUID } from 'crypto'
+import net from 'net'
+import tls from 'tls'
+
+import { AlertChannel, AlertDeliveryResult, AlertMessage } from './types'
+
+export interface SmtpChannelConfig {
+  host: string
+  port: number
+  secure: boolean // TLS from the start (usually port 465); otherwise STARTTLS when offered
+  user?: string
+  pass?: string
+  from: string
+  recipients: string[]
+  timeoutMs?: number
+}
+
+export interface MimeMessage {
+  from: string
+  to: string[]
+  subject: string
+  text: string
+  html: string
+  date?: Date
+  messageId?: string
+  boundary?: string
+}
+
+interface SmtpReply {
+  code: number
+  message: string
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+
+/**
+ * Encode a header value that isn't plain ASCII (RFC 2047)
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function encodeBody(value: string): string {
+  const encoded = Buffer.from(value, 'utf8').toString('base64')
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? ''
+}
+
+/**
+ * The address in "Name <address>", or the value itself
+ */
+function envelopeAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return (match ? match[1] : value).trim()
+}
+
+/**
+ * Build a multipart/alternative email with text and HTML parts
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+  const boundary = message.boundary ?? `alert-${randomUUID()}`
+  const domain = envelopeAddress(message.from).split('@')[1] || 'localhost'
+  const messageId = message.messageId ?? `<${randomUUID()}@${domain}>`
+
+  const lines = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(message.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    ''
+  ]
+
+  return lines.join('\r\n')
+}
+
+/**
+ * A connection to an SMTP server that reads one reply at a time
+ */
+class SmtpConnection {
+  private buffer = ''
+  private replyLines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: {
+    resolve: (reply: SmtpReply) => void
+    reject: (error: Error) => void
+  } | null = null
+  private error: Error | null = null
+
+  constructor(
+    private socket: net.Socket,
+    private timeoutMs: number
+  ) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8')
+    socket.removeAllListeners('timeout')
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error('SMTP server timed out'))
+    )
+    socket.on('data', (chunk: string) => this.receive(chunk))
+    socket.on('error', error => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk
+
+    let index: number
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(index + 1)
+      this.replyLines.push(line)
+
+      // The last line of a reply has a space (or nothing) after the code
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = {
+          code: parseInt(line.slice(0, 3), 10),
+          message: this.replyLines.map(l => l.slice(4)).join('\n')
+        }
+        this.replyLines = []
+
+        if (this.waiting) {
+          const { resolve } = this.waiting
+          this.waiting = null
+          resolve(reply)
+        } else {
+          this.replies.push(reply)
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.error) return
+    this.error = error
+
+    if (this.waiting) {
+      const { reject } = this.waiting
+      this.waiting = null
+      reject(error)
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift()
+    if (reply) return Promise.resolve(reply)
+    if (this.error) return Promise.reject(this.error)
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+
+  /**
+   * Read a reply and check its code
+   */
+  async expect(codes: number | number[], command: string): Promise<SmtpReply> {
+    const reply = await this.read()
+    const expected = Array.isArray(codes) ? codes : [codes]
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${command} failed: ${reply.code} ${reply.message.split('\n')[0]}`
+      )
+    }
+
+    return reply
+  }
+
+  /**
+   * Send a command and check the reply's code
+   * @param label How to name the command in errors (hides credentials)
+   */
+  command(
+    line: string,
+    codes: number | number[],
+    label: string = line.split(' ')[0]
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(codes, label)
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('close')
+    plain.setTimeout(0)
+
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host }, () =>
+        resolve(secure)
+      )
+      secure.once('error', reject)
+    })
+    this.attach(this.socket)
+  }
+
+  close(): void {
+    this.socket.destroy()
+  }
+}
+
+function connect(config: SmtpChannelConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect(
+          { host: config.host, port: config.port, servername: config.host },
+          () => resolve(socket)
+        )
+      : net.connect({ host: config.host, port: config.port }, () =>
+          resolve(socket)
+        )
+
+    socket.once('error', reject)
+    socket.setTimeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS, () =>
+      socket.destroy(new Error('SMTP connection timed out'))
+    )
+  })
+}
+
+async function authenticate(
+  connection: SmtpConnection,
+  capabilities: string,
+  user: string,
+  pass: string
+): Promise<void> {
+  const auth = capabilities
+    .split('\n')
+    .find(line => /^AUTH[ =]/i.test(line))
+    ?.toUpperCase()
+
+  if (auth && !auth.includes('PLAIN') && auth.includes('LOGIN')) {
+    await connection.command('AUTH LOGIN', 334)
+    await connection.command(
+      Buffer.from(user).toString('base64'),
+      334,
+      'AUTH LOGIN'
+    )
+    await connection.command(
+      Buffer.from(pass).toString('base64'),
+      235,
+      'AUTH LOGIN'
+    )
+    return
+  }
+
+  const credentials = Buffer.from(`\0${user}\0${pass}`).toString('base64')
+  await connection.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH PLAIN')
+}
+
+export class SmtpAlertChannel implements AlertChannel {
+  id = 'email'
+  name = 'Email (SMTP)'
+
+  constructor(private config: SmtpChannelConfig) {}
+
+  isConfigured(): boolean {
+    return !!this.config.host && this.config.recipients.length > 0
+  }
+
+  async send(message: AlertMessage): Promise<AlertDeliveryResult> {
+    if (this.config.recipients.length === 0) {
+      return { sent: false, error: 'No email recipients configured' }
+    }
+
+    if (!this.config.host) {
+      return { sent: false, error: 'SMTP_HOST not configured' }
+    }
+
+    let connection: SmtpConnection | null = null
+
+    try {
+      const socket = await connect(this.config)
+      connection = new SmtpConnection(
+        socket,
+        this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      )
+
+      const from = envelopeAddress(this.config.from)
+      const hostname = from.split('@')[1] || 'localhost'
+
+      await connection.expect(220, 'greeting')
+      let ehlo = await connection.command(`EHLO ${hostname}`, 250)
+
+      if (!this.config.secure && /^STARTTLS$/im.test(ehlo.message)) {
+        await connection.command('STARTTLS', 220)
+        await connection.upgrade(this.config.host)
+        ehlo = await connection.command(`EHLO ${hostname}`, 250)
+      }
+
+      if (this.config.user && this.config.pass) {
+        await authenticate(
+          connection,
+          ehlo.message,
+          this.config.user,
+          this.config.pass
+        )
+      }
+
+      await connection.command(`MAIL FROM:<${from}>`, 250)
+      for (const recipient of this.config.recipients) {
+        await connection.command(
+          `RCPT TO:<${envelopeAddress(recipient)}>`,
+          [250, 251]
+        )
+      }
+
+      const mime = buildMimeMessage({
+        from: this.config.from,
+        to: this.config.recipients,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      })
+
+      await connection.command('DATA', 354)
+      // Lines starting with a dot are escaped by doubling it
+      const data = mime.replace(/(^|\r\n)\./g, '$1..')
+      await connection.command(`${data}\r\n.`, 250, 'DATA')
+      await connection.command('QUIT', 221).catch(() => undefined)
+
+      return { sent: true }
+    } catch (error) {
+      return {
+        sent: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    } finally {
+      connection?.close()
+    }
+  }
+}
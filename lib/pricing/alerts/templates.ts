@@ -0,0 +1,303 @@
+/**
+ * Alert Templates
+ *
+ * Render each alert event type as a subject, Slack-style markdown text and
+ * an HTML email
+ */
+
+import type { SyncResult } from '../sync-orchestrator'
+
+import {
+  AlertEvent,
+  AlertMessage,
+  AlertSeverity,
+  ProviderMargin
+} from './types'
+
+const FOOTER = ['\n---', '_Generated by Automated Pricing System_']
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: '#4CAF50',
+  warning: '#FF9800',
+  critical: '#f44336'
+}
+
+function formatPercent(value: number): string {
+  const sign = value > 0 ? '+' : ''
+  return `${sign}${value.toFixed(1)}%`
+}
+
+function getSyncSubject(syncResult: SyncResult): string {
+  if (!syncResult.success) {
+    return '❌ Pricing Sync Failed - Action Required'
+  }
+
+  if (syncResult.changes.applied > 0) {
+    return `✅ Pricing Updated - ${syncResult.changes.applied} changes applied`
+  }
+
+  if (syncResult.changes.queued > 0) {
+    return `⏸️ Pricing Changes Awaiting Approval - ${syncResult.changes.queued} to review`
+  }
+
+  return '✅ Pricing Sync Completed - No changes'
+}
+
+function renderSyncResult(
+  event: Extract<AlertEvent, { type: 'sync_result' }>
+): string[] {
+  const { syncResult, changes } = event
+  const lines: string[] = []
+
+  // Header
+  if (syncResult.success) {
+    lines.push('✅ *Pricing Sync Completed Successfully*\n')
+  } else {
+    lines.push('❌ *Pricing Sync Failed*\n')
+  }
+
+  // Timestamp
+  lines.push(`📅 *Time:* ${syncResult.timestamp.toISOString()}`)
+  lines.push(`⏱️ *Duration:* ${syncResult.duration}ms\n`)
+
+  // Provider summary
+  lines.push('*📊 Providers:*')
+  lines.push(`• Total: ${syncResult.providers.total}`)
+  lines.push(`• Successful: ${syncResult.providers.successful}`)
+  if (syncResult.providers.failed > 0) {
+    lines.push(`• Failed: ${syncResult.providers.failed}`)
+  }
+  lines.push('')
+
+  // Changes summary
+  lines.push('*📈 Changes:*')
+  if (syncResult.changes.applied > 0) {
+    lines.push(`• Applied: ${syncResult.changes.applied}`)
+  }
+  if (syncResult.changes.newModels > 0) {
+    lines.push(`• New models: ${syncResult.changes.newModels}`)
+  }
+  if (syncResult.changes.updatedModels > 0) {
+    lines.push(`• Updated models: ${syncResult.changes.updatedModels}`)
+  }
+  if (syncResult.changes.removedModels > 0) {
+    lines.push(`• Removed models: ${syncResult.changes.removedModels}`)
+  }
+  if (syncResult.changes.skipped > 0) {
+    lines.push(`• Skipped: ${syncResult.changes.skipped}`)
+  }
+  if (syncResult.changes.failed > 0) {
+    lines.push(`• Failed: ${syncResult.changes.failed}`)
+  }
+  if (syncResult.changes.queued > 0) {
+    lines.push(
+      `• Awaiting approval: ${syncResult.changes.queued} (review on /admin/pricing)`
+    )
+  }
+
+  // Detailed changes if available
+  if (changes && changes.changes.length > 0) {
+    const significantChanges = changes.changes.filter(
+      c => c.changeType !== 'unchanged' && c.autoApplicable
+    )
+
+    if (significantChanges.length > 0 && significantChanges.length <= 5) {
+      lines.push('\n*💡 Notable Changes:*')
+      for (const change of significantChanges.slice(0, 5)) {
+        if (change.changeType === 'updated' && change.changePercent) {
+          lines.push(
+            `• ${change.modelId}: ` +
+              `Input ${formatPercent(change.changePercent.input)}, ` +
+              `Output ${formatPercent(change.changePercent.output)}`
+          )
+        } else if (change.changeType === 'new') {
+          lines.push(`• ${change.modelId}: Added to pricing`)
+        }
+      }
+    }
+  }
+
+  // Errors
+  if (syncResult.errors.length > 0) {
+    lines.push('\n*⚠️ Errors:*')
+    for (const error of syncResult.errors.slice(0, 3)) {
+      lines.push(`• ${error}`)
+    }
+  }
+
+  // Warnings
+  if (syncResult.warnings.length > 0) {
+    lines.push('\n*⚠️ Warnings:*')
+    for (const warning of syncResult.warnings.slice(0, 3)) {
+      lines.push(`• ${warning}`)
+    }
+  }
+
+  return lines
+}
+
+function formatMargin(margin: ProviderMargin): string {
+  return (
+    `${margin.marginPercent.toFixed(1)}% ` +
+    `($${margin.billedAmount.toFixed(2)} billed, $${margin.providerCost.toFixed(2)} provider cost)`
+  )
+}
+
+/**
+ * Escape text for HTML, then convert the markdown-style formatting
+ */
+function toHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<strong>$1</strong>')
+    .replace(/\n/g, '<br/>')
+    .replace(/•/g, '&bull;')
+}
+
+function renderHtml(
+  subject: string,
+  text: string,
+  severity: AlertSeverity
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: ${SEVERITY_COLORS[severity]}; color: white; padding: 10px; border-radius: 5px; }
+    .content { background: #f9f9f9; padding: 20px; margin-top: 10px; border-radius: 5px; }
+    .footer { margin-top: 20px; color: #666; font-size: 0.9em; }
+    strong { color: #000; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>${toHtml(subject)}</h2>
+    </div>
+    <div class="content">
+      ${toHtml(text)}
+    </div>
+    <div class="footer">
+      <p>This is an automated message from the Pricing System.</p>
+    </div>
+  </div>
+</body>
+</html>
+    `
+}
+
+/**
+ * Render an alert event with its type's template
+ */
+export function renderAlert(event: AlertEvent): AlertMessage {
+  let severity: AlertSeverity
+  let subject: string
+  let lines: string[]
+  let data: Record<string, unknown>
+
+  switch (event.type) {
+    case 'sync_result':
+      severity = event.syncResult.success ? 'info' : 'critical'
+      subject = getSyncSubject(event.syncResult)
+      lines = renderSyncResult(event)
+      data = {
+        success: event.syncResult.success,
+        timestamp: event.syncResult.timestamp.toISOString(),
+        duration: event.syncResult.duration,
+        providers: event.syncResult.providers,
+        changes: event.syncResult.changes,
+        errors: event.syncResult.errors,
+        warnings: event.syncResult.warnings
+      }
+      break
+
+    case 'review_needed':
+      severity = 'warning'
+      subject = `⏸️ Pricing Changes Awaiting Approval - ${event.queued} to review`
+      lines = [
+        '⏸️ *Pricing Changes Awaiting Approval*\n',
+        `${event.queued} pricing changes from ${event.source} were flagged for review.`,
+        'Approve, edit or reject them on the Review tab of /admin/pricing.'
+      ]
+      data = { queued: event.queued, source: event.source }
+      break
+
+    case 'provider_failure':
+      severity = event.failures.length === event.total ? 'critical' : 'warning'
+      subject = `⚠️ Pricing Provider Failures - ${event.failures.length} of ${event.total} failed`
+      lines = [
+        '⚠️ *Pricing Providers Failed*\n',
+        `${event.failures.length} of ${event.total} providers could not be fetched; their models kept their current pricing.\n`,
+        ...event.failures.map(f => `• ${f.name} (${f.providerId}): ${f.error}`)
+      ]
+      data = { failures: event.failures, total: event.total }
+      break
+
+    case 'reconciliation_discrepancy': {
+      const { result } = event
+      severity = 'warning'
+      subject = `⚠️ Billing Discrepancies Found - ${result.opened} new`
+      lines = [
+        '⚠️ *Billing Reconciliation Found Discrepancies*\n',
+        `*New findings:* ${result.opened}`,
+        `• Orphaned transactions: ${result.detected.orphaned_transaction}`,
+        `• Orphaned usage records: ${result.detected.orphaned_usage_record}`,
+        `• Balance mismatches: ${result.detected.balance_mismatch}`,
+        `• Holds left pending: ${result.detected.stale_hold}`
+      ]
+      if (result.retries.failed > 0) {
+        lines.push(
+          `• Usage records given up after retries: ${result.retries.failed}`
+        )
+      }
+      lines.push('\nResolve them on /admin/reconciliation.')
+      data = {
+        opened: result.opened,
+        detected: result.detected,
+        retries: result.retries,
+        autoResolved: result.autoResolved
+      }
+      break
+    }
+
+    case 'low_margin':
+      severity = event.overall.marginPercent < 0 ? 'critical' : 'warning'
+      subject = `📉 Platform Margin Below ${event.minMarginPercent}%`
+      lines = [
+        '📉 *Platform Margin Is Low*\n',
+        `*Since:* ${event.since.toISOString()}`,
+        `*Overall:* ${formatMargin(event.overall)}\n`
+      ]
+      if (event.providers.length > 0) {
+        lines.push(`*Providers below ${event.minMarginPercent}%:*`)
+        lines.push(
+          ...event.providers.map(p => `• ${p.providerId}: ${formatMargin(p)}`)
+        )
+      }
+      lines.push('\nReview markups on the Markups tab of /admin/pricing.')
+      data = {
+        since: event.since.toISOString(),
+        minMarginPercent: event.minMarginPercent,
+        overall: event.overall,
+        providers: event.providers
+      }
+      break
+  }
+
+  const text = [...lines, ...FOOTER].join('\n')
+
+  return {
+    event: event.type,
+    severity,
+    subject,
+    text,
+    html: renderHtml(subject, text, severity),
+    data
+  }
+}
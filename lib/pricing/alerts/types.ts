@@ -0,0 +1,77 @@
+/**
+ * Alert Channel Types
+ *
+ * Common interfaces for alert events, their rendered messages and the
+ * channels that deliver them
+ */
+
+import type { ChangeDetectionResult } from '../change-detector'
+import type { ReconciliationRunResult } from '../reconciliation-service'
+import type { ProviderFailure, SyncResult } from '../sync-orchestrator'
+
+export type AlertEventType =
+  | 'sync_result'
+  | 'review_needed'
+  | 'provider_failure'
+  | 'reconciliation_discrepancy'
+  | 'low_margin'
+
+export interface ProviderMargin {
+  providerId: string
+  providerCost: number
+  billedAmount: number
+  marginPercent: number // Margin as a share of the billed amount
+}
+
+/** An event to alert about, with the data its template needs */
+export type AlertEvent =
+  | {
+      type: 'sync_result'
+      syncResult: SyncResult
+      changes?: ChangeDetectionResult
+    }
+  | { type: 'review_needed'; queued: number; source: string }
+  | {
+      type: 'provider_failure'
+      failures: ProviderFailure[]
+      total: number
+    }
+  | { type: 'reconciliation_discrepancy'; result: ReconciliationRunResult }
+  | {
+      type: 'low_margin'
+      since: Date
+      minMarginPercent: number
+      overall: ProviderMargin // providerId 'all'
+      providers: ProviderMargin[] // Below the minimum
+    }
+
+export type AlertSeverity = 'info' | 'warning' | 'critical'
+
+/** An event rendered by its template */
+export interface AlertMessage {
+  event: AlertEventType
+  severity: AlertSeverity
+  subject: string
+  text: string // Slack-style markdown (*bold*, • bullets)
+  html: string
+  data: Record<string, unknown> // Event data for webhook consumers
+}
+
+export interface AlertDeliveryResult {
+  sent: boolean
+  error?: string
+}
+
+export interface AlertChannel {
+  /** Channel id used in alert routes */
+  id: string
+
+  /** Channel name for the dashboard */
+  name: string
+
+  /** Whether the channel has the settings it needs to send */
+  isConfigured(): boolean
+
+  /** Deliver a message */
+  send(message: AlertMessage): Promise<AlertDeliveryResult>
+}
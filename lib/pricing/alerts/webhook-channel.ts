@@ -0,0 +1,98 @@
+/**
+ * Webhook Alert Channel
+ *
+ * POSTs alerts as JSON to an HTTP endpoint. When a secret is configured,
+ * each request is signed so the receiver can check it came from us:
+ *
+ *   X-Alert-Timestamp: <unix seconds>
+ *   X-Alert-Signature: sha256=<hex HMAC-SHA256(secret, "<timestamp>.<body>")>
+ *
+ * Receivers should recompute the signature over the raw body and reject
+ * requests with an old timestamp.
+ */
+
+import { createHmac } from 'crypto'
+
+import { AlertChannel, AlertDeliveryResult, AlertMessage } from './types'
+
+export interface WebhookChannelConfig {
+  url: string
+  secret?: string
+  timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 10000
+
+/**
+ * Signature of a webhook body, as sent in X-Alert-Signature
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')
+  return `sha256=${digest}`
+}
+
+export class WebhookAlertChannel implements AlertChannel {
+  id = 'webhook'
+  name = 'Webhook'
+
+  constructor(private config: WebhookChannelConfig) {}
+
+  isConfigured(): boolean {
+    return !!this.config.url
+  }
+
+  async send(message: AlertMessage): Promise<AlertDeliveryResult> {
+    if (!this.config.url) {
+      return { sent: false, error: 'No webhook URL configured' }
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000)
+    const body = JSON.stringify({
+      event: message.event,
+      severity: message.severity,
+      subject: message.subject,
+      text: message.text,
+      data: message.data,
+      sentAt: new Date(timestamp * 1000).toISOString()
+    })
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Alert-Event': message.event,
+      'X-Alert-Timestamp': String(timestamp)
+    }
+    if (this.config.secret) {
+      headers['X-Alert-Signature'] = signWebhookPayload(
+        this.config.secret,
+        timestamp,
+        body
+      )
+    }
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      })
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`)
+      }
+
+      return { sent: true }
+    } catch (error) {
+      return {
+        sent: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Auto Recharge Service
+ *
+ * Opt-in automatic top-up: when the balance drops below a threshold, the
+ * saved card is charged off-session. The charge is credited by the payments
+ * webhook like any other deposit; a failed charge turns auto top-up off.
+ */
+
+import {
+  createOffSessionPaymentIntent,
+  validateAmount
+} from '@/lib/stripe/payment-service'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import { isSupportedCurrency } from './currency-service'
+import { ExchangeRateTable, getExchangeRates } from './exchange-rate-service'
+
+export interface AutoRechargeSettings {
+  userId: string
+  enabled: boolean
+  threshold: number // Recharge when the balance drops below this
+  amount: number // Amount charged per top-up
+  currency: string
+  stripeCustomerId?: string
+  hasPaymentMethod: boolean
+  paymentMethodLabel?: string
+  pendingSince?: Date // Set while a top-up is in flight
+  lastFailureMessage?: string
+  lastFailedAt?: Date
+}
+
+export interface AutoRechargeInput {
+  enabled: boolean
+  threshold: number
+  amount: number
+}
+
+function mapAutoRechargeRow(row: any): AutoRechargeSettings {
+  return {
+    userId: row.user_id,
+    enabled: row.enabled,
+    threshold: parseFloat(row.threshold),
+    amount: parseFloat(row.amount),
+    currency: row.currency,
+    stripeCustomerId: row.stripe_customer_id ?? undefined,
+    hasPaymentMethod: !!row.stripe_payment_method_id,
+    paymentMethodLabel: row.payment_method_label ?? undefined,
+    pendingSince: row.pending_since ? new Date(row.pending_since) : undefined,
+    lastFailureMessage: row.last_failure_message ?? undefined,
+    lastFailedAt: row.last_failed_at ? new Date(row.last_failed_at) : undefined
+  }
+}
+
+/**
+ * Validate auto top-up settings before saving them
+ * @returns Error message, or null if the settings are valid
+ */
+export function validateAutoRecharge(
+  input: AutoRechargeInput,
+  currency: string,
+  rates: ExchangeRateTable
+): string | null {
+  if (!Number.isFinite(input.threshold) || input.threshold < 0) {
+    return 'Threshold must be zero or a positive number'
+  }
+
+  if (!Number.isFinite(input.amount) || input.amount <= 0) {
+    return 'Top-up amount must be a positive number'
+  }
+
+  if (!isSupportedCurrency(currency)) {
+    return `Unsupported currency: ${currency}`
+  }
+
+  const validation = validateAmount(input.amount, currency, rates)
+  if (!validation.valid) {
+    return validation.error ?? 'Invalid top-up amount'
+  }
+
+  // Otherwise one top-up could leave the balance below the threshold and
+  // the next request would charge the card again
+  if (input.amount <= input.threshold) {
+    return 'Top-up amount must be greater than the threshold'
+  }
+
+  return null
+}
+
+/**
+ * Get a user's auto top-up settings
+ * @returns The settings, or null if the user never saved a card or settings
+ */
+export async function getAutoRechargeSettings(
+  userId: string
+): Promise<AutoRechargeSettings | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('auto_recharge_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch auto recharge settings:', error)
+      return null
+    }
+
+    return data ? mapAutoRechargeRow(data) : null
+  } catch (error) {
+    console.error('Error fetching auto recharge settings:', error)
+    return null
+  }
+}
+
+/**
+ * Save auto top-up settings
+ * Turning auto top-up on clears the last failure
+ * @returns The saved settings, or null if they are invalid or saving failed
+ */
+export async function updateAutoRechargeSettings(
+  userId: string,
+  input: AutoRechargeInput,
+  currency: string
+): Promise<AutoRechargeSettings | null> {
+  const validationError = validateAutoRecharge(
+    input,
+    currency,
+    await getExchangeRates()
+  )
+  if (validationError) {
+    console.error(`Invalid auto recharge settings: ${validationError}`)
+    return null
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('auto_recharge_settings')
+      .upsert(
+        {
+          user_id: userId,
+          enabled: input.enabled,
+          threshold: input.threshold,
+          amount: input.amount,
+          currency,
+          ...(input.enabled && {
+            last_failure_message: null,
+            last_failed_at: null
+          }),
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'user_id' }
+      )
+      .select('*')
+      .single()
+
+    if (data && !error) {
+      return mapAutoRechargeRow(data)
+    }
+
+    console.error('Failed to update auto recharge settings:', error)
+    return null
+  } catch (error) {
+    console.error('Error updating auto recharge settings:', error)
+    return null
+  }
+}
+
+/**
+ * Remember the Stripe customer cards are saved on
+ */
+export async function setAutoRechargeCustomer(
+  userId: string,
+  stripeCustomerId: string
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('auto_recharge_settings').upsert(
+      {
+        user_id: userId,
+        stripe_customer_id: stripeCustomerId,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'user_id' }
+    )
+
+    if (!error) {
+      return true
+    }
+
+    console.error('Failed to save Stripe customer:', error)
+    return false
+  } catch (error) {
+    console.error('Error saving Stripe customer:', error)
+    return false
+  }
+}
+
+/**
+ * Save the card charged by automatic top-ups (payments webhook)
+ */
+export async function saveAutoRechargePaymentMethod(
+  userId: string,
+  stripeCustomerId: string,
+  paymentMethodId: string,
+  label: string,
+  currency: string
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('auto_recharge_settings').upsert(
+      {
+        user_id: userId,
+        stripe_customer_id: stripeCustomerId,
+        stripe_payment_method_id: paymentMethodId,
+        payment_method_label: label,
+        currency,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'user_id' }
+    )
+
+    if (!error) {
+      return true
+    }
+
+    console.error('Failed to save payment method:', error)
+    return false
+  } catch (error) {
+    console.error('Error saving payment method:', error)
+    return false
+  }
+}
+
+/**
+ * Mark a top-up as finished so the next one can start (payments webhook)
+ */
+export async function completeAutoRecharge(
+  userId: string,
+  paymentIntentId: string
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('auto_recharge_settings')
+      .update({
+        pending_since: null,
+        last_payment_intent_id: paymentIntentId,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+
+    if (!error) {
+      return true
+    }
+
+    console.error('Failed to complete auto recharge:', error)
+    return false
+  } catch (error) {
+    console.error('Error completing auto recharge:', error)
+    return false
+  }
+}
+
+/**
+ * Turn auto top-up off after a failed charge and record why
+ * The reason is shown to the user in the sidebar and on the account page
+ */
+export async function disableAutoRecharge(
+  userId: string,
+  failureMessage: string,
+  paymentIntentId?: string
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('auto_recharge_settings')
+      .update({
+        enabled: false,
+        pending_since: null,
+        last_failure_message: failureMessage,
+        last_failed_at: new Date().toISOString(),
+        ...(paymentIntentId && { last_payment_intent_id: paymentIntentId }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+
+    if (!error) {
+      return true
+    }
+
+    console.error('Failed to disable auto recharge:', error)
+    return false
+  } catch (error) {
+    console.error('Error disabling auto recharge:', error)
+    return false
+  }
+}
+
+/**
+ * Charge the saved card if the user's balance is below their threshold
+ * Never throws; the balance is credited later by the payments webhook
+ * @returns True if a top-up was started
+ */
+export async function triggerAutoRecharge(userId: string): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.rpc('claim_auto_recharge', {
+      p_user_id: userId
+    })
+
+    if (error) {
+      console.error('Failed to claim auto recharge:', error)
+      return false
+    }
+
+    // Auto top-up is off, the balance is above the threshold, or a top-up
+    // is already in flight
+    if (!data || data.length === 0) {
+      return false
+    }
+
+    const claim = data[0]
+    const currency = claim.currency
+
+    if (!isSupportedCurrency(currency)) {
+      await disableAutoRecharge(userId, `Unsupported currency: ${currency}`)
+      return false
+    }
+
+    const result = await createOffSessionPaymentIntent({
+      amount: parseFloat(claim.amount),
+      currency,
+      userId,
+      customerId: claim.stripe_customer_id,
+      paymentMethodId: claim.stripe_payment_method_id,
+      // One charge per claim, even if this call is retried
+      idempotencyKey: `auto-recharge-${userId}-${new Date(claim.pending_since).getTime()}`
+    })
+
+    if (!result.succeeded) {
+      await disableAutoRecharge(
+        userId,
+        result.errorMessage || 'Your card was declined',
+        result.paymentIntentId
+      )
+      return false
+    }
+
+    console.log(
+      `Started automatic top-up ${result.paymentIntentId} for user ${userId}`
+    )
+    return true
+  } catch (error) {
+    console.error('Error triggering auto recharge:', error)
+    return false
+  }
+}
+
+/**
+ * Forget the saved card and turn auto top-up off
+ * @returns The removed payment method ID, or null if none was saved
+ */
+export async function removeAutoRechargePaymentMethod(
+  userId: string
+): Promise<string | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data: existing } = await supabase
+      .from('auto_recharge_settings')
+      .select('stripe_payment_method_id')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    const { error } = await supabase
+      .from('auto_recharge_settings')
+      .update({
+        enabled: false,
+        stripe_payment_method_id: null,
+        payment_method_label: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Failed to remove payment method:', error)
+      return null
+    }
+
+    return existing?.stripe_payment_method_id ?? null
+  } catch (error) {
+    console.error('Error removing payment method:', error)
+    return null
+  }
+}
@@ -1,7 +1,12 @@
 import { createAdminClient } from '@/lib/supabase/admin'
 import { createClient } from '@/lib/supabase/server'
 
-import { createTransaction } from './transaction-service'
+import {
+  getRedemptionMessage,
+  normalizePromoCode,
+  PromoRedemptionStatus
+} from './promo-code-service'
+import { createTransaction, TransactionType } from './transaction-service'
 
 export interface UserBalance {
   userId: string
@@ -9,6 +14,8 @@ export interface UserBalance {
   currency: string
   locale?: string
   preferredCurrency?: string
+  allowanceBalance?: number // Part of balance granted by a subscription
+  allowanceExpiresAt?: Date
   createdAt?: Date
   updatedAt?: Date
 }
@@ -137,6 +144,10 @@ export async function getUserBalanceRecord(
       currency: data.currency,
       locale: data.locale,
       preferredCurrency: data.preferred_currency,
+      allowanceBalance: parseFloat(data.allowance_balance ?? '0'),
+      allowanceExpiresAt: data.allowance_expires_at
+        ? new Date(data.allowance_expires_at)
+        : undefined,
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at)
     }
@@ -180,6 +191,30 @@ export async function initializeUserBalance(
   }
 }
 
+export interface BalanceChange {
+  userId: string
+  amount: number // Positive credits the balance, negative debits it
+  type: TransactionType
+  description?: string
+  stripePaymentIntentId?: string
+  stripeChargeId?: string
+  stripeRefundId?: string
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * How increment_balance splits a balance change between subscription
+ * allowance and purchased credit: debits spend allowance first, like holds;
+ * credits are purchased credit
+ */
+export function splitBalanceChange(
+  amount: number,
+  allowanceBalance: number
+): { allowance: number; purchased: number } {
+  const allowance = amount < 0 ? -Math.min(allowanceBalance, -amount) : 0
+  return { allowance, purchased: amount - allowance }
+}
+
 /**
  * Add or deduct balance (for payments/deposits/refunds)
  * Now includes transaction logging and uses atomic operations to prevent race conditions
@@ -195,6 +230,50 @@ export async function addBalance(
   metadata?: Record<string, unknown>,
   useAdmin: boolean = true
 ): Promise<string | null> {
+  // Determine transaction type based on amount and context
+  let type: TransactionType
+  if (stripePaymentIntentId) {
+    type = amount > 0 ? 'deposit' : 'refund'
+  } else {
+    type = amount > 0 ? 'adjustment' : 'usage'
+  }
+
+  return postBalanceChange(
+    {
+      userId,
+      amount,
+      type,
+      description,
+      stripePaymentIntentId,
+      stripeChargeId,
+      metadata
+    },
+    useAdmin
+  )
+}
+
+/**
+ * Change a balance and log the transaction with the given type
+ * A Stripe payment intent or refund is only ever recorded once; recording it
+ * again returns the existing transaction
+ * @param useAdmin - Use admin client to bypass RLS (required for webhook processing)
+ * @returns Transaction ID on success, null on failure
+ */
+export async function postBalanceChange(
+  change: BalanceChange,
+  useAdmin: boolean = true
+): Promise<string | null> {
+  const {
+    userId,
+    amount,
+    type,
+    description,
+    stripePaymentIntentId,
+    stripeChargeId,
+    stripeRefundId,
+    metadata
+  } = change
+
   if (amount === 0) {
     console.error('Amount cannot be zero')
     return null
@@ -215,25 +294,24 @@ export async function addBalance(
     }
     const currency = balanceRecord.currency
 
-    // Determine transaction type based on amount and context
-    let type: 'deposit' | 'usage' | 'refund' | 'adjustment'
-    if (stripePaymentIntentId) {
-      type = amount > 0 ? 'deposit' : 'refund'
-    } else {
-      type = amount > 0 ? 'adjustment' : 'usage'
-    }
+    // For payment intents and refunds, check if transaction already exists (idempotency at DB level)
+    for (const [column, stripeId] of [
+      ['stripe_payment_intent_id', stripePaymentIntentId],
+      ['stripe_refund_id', stripeRefundId]
+    ] as const) {
+      if (!stripeId) {
+        continue
+      }
 
-    // For payment intents, check if transaction already exists (idempotency at DB level)
-    if (stripePaymentIntentId) {
       const existingTxn = await supabase
         .from('transactions')
         .select('id, balance_after')
-        .eq('stripe_payment_intent_id', stripePaymentIntentId)
-        .single()
+        .eq(column, stripeId)
+        .maybeSingle()
 
       if (existingTxn.data) {
         console.log(
-          `Transaction already exists for payment intent ${stripePaymentIntentId}, skipping balance update`
+          `Transaction already exists for ${stripeId}, skipping balance update`
         )
         return existingTxn.data.id // Return existing transaction ID
       }
@@ -270,6 +348,7 @@ export async function addBalance(
       description: description || `${type}: ${Math.abs(amount)} ${currency}`,
       stripePaymentIntentId,
       stripeChargeId,
+      stripeRefundId,
       metadata
     })
 
@@ -385,3 +464,385 @@ export async function setBalance(
     return false
   }
 }
+
+/**
+ * A hold placed on a user's balance before an API call runs.
+ * The hold is finalized exactly once, either settled to the actual cost
+ * or released back to the user.
+ */
+export interface BalanceReservation {
+  userId: string
+  requestId: string
+  transactionId: string
+  amount: number
+  status: 'held' | 'settled' | 'released'
+}
+
+export interface ReserveBalanceResult {
+  success: boolean
+  reservation?: BalanceReservation
+  balance: number
+  message: string
+}
+
+/**
+ * Reserve an estimated amount from the user's balance (hold-and-capture)
+ * Fails without touching the balance if the user cannot cover the hold
+ * @returns Reservation result, or null if the reservation could not be attempted
+ */
+export async function reserveBalance(
+  userId: string,
+  amount: number,
+  requestId: string,
+  description?: string
+): Promise<ReserveBalanceResult | null> {
+  if (amount <= 0) {
+    console.error('Reserved amount must be positive')
+    return null
+  }
+
+  try {
+    const supabase = createAdminClient()
+
+    const { data, error } = await supabase.rpc('reserve_balance', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_request_id: requestId,
+      ...(description && { p_description: description })
+    })
+
+    if (error) {
+      console.error('Failed to reserve balance:', error)
+      return null
+    }
+
+    if (!data || data.length === 0) {
+      console.error('No data returned from balance reservation')
+      return null
+    }
+
+    const result = data[0]
+    const balance = parseFloat(result.balance_after) || 0
+
+    if (!result.success) {
+      return { success: false, balance, message: result.message }
+    }
+
+    invalidateBalanceCache(userId)
+
+    return {
+      success: true,
+      reservation: {
+        userId,
+        requestId,
+        transactionId: result.transaction_id,
+        amount,
+        status: 'held'
+      },
+      balance,
+      message: result.message
+    }
+  } catch (error) {
+    console.error('Error reserving balance:', error)
+    return null
+  }
+}
+
+/**
+ * Settle a reservation to the actual cost of the call
+ * The unused part of the hold is returned to the user's balance
+ * @returns Transaction ID of the settled usage charge, null on failure
+ */
+export async function settleReservedBalance(
+  reservation: BalanceReservation,
+  actualAmount: number,
+  metadata?: Record<string, unknown>
+): Promise<string | null> {
+  if (reservation.status !== 'held') {
+    console.error(
+      `Reservation ${reservation.transactionId} already ${reservation.status}`
+    )
+    return null
+  }
+  reservation.status = 'settled'
+
+  try {
+    const supabase = createAdminClient()
+
+    const { data, error } = await supabase.rpc('settle_reserved_balance', {
+      p_user_id: reservation.userId,
+      p_transaction_id: reservation.transactionId,
+      p_actual_amount: actualAmount,
+      p_metadata: metadata ?? null
+    })
+
+    if (error || !data || data.length === 0 || !data[0].success) {
+      console.error(
+        'Failed to settle reserved balance:',
+        error ?? data?.[0]?.message
+      )
+      return null
+    }
+
+    invalidateBalanceCache(reservation.userId)
+
+    return reservation.transactionId
+  } catch (error) {
+    console.error('Error settling reserved balance:', error)
+    return null
+  }
+}
+
+/**
+ * Release a reservation in full (request failed or was aborted)
+ * @returns true if the hold was returned to the user's balance
+ */
+export async function releaseReservedBalance(
+  reservation: BalanceReservation,
+  reason: string
+): Promise<boolean> {
+  if (reservation.status !== 'held') {
+    return false
+  }
+  reservation.status = 'released'
+
+  try {
+    const supabase = createAdminClient()
+
+    const { data, error } = await supabase.rpc('refund_reserved_balance', {
+      p_user_id: reservation.userId,
+      p_amount: reservation.amount,
+      p_transaction_id: reservation.transactionId,
+      p_description: `API usage refund (${reason})`
+    })
+
+    if (error || !data || data.length === 0 || !data[0].success) {
+      console.error(
+        'Failed to release reserved balance:',
+        error ?? data?.[0]?.message
+      )
+      return false
+    }
+
+    invalidateBalanceCache(reservation.userId)
+
+    return true
+  } catch (error) {
+    console.error('Error releasing reserved balance:', error)
+    return false
+  }
+}
+
+/**
+ * Grant the credit allowance paid for by a subscription invoice
+ * Unused expiring allowance of the previous period is removed first;
+ * each invoice is granted at most once
+ * @param expiresAt - End of the billing period, or null if the allowance does not expire
+ * @returns Transaction ID of the grant (the existing one if the invoice was
+ * already granted), or null on failure
+ */
+export async function grantSubscriptionAllowance(
+  userId: string,
+  amount: number,
+  expiresAt: Date | null,
+  invoiceId: string,
+  description?: string
+): Promise<string | null> {
+  if (amount <= 0) {
+    console.error('Allowance amount must be positive')
+    return null
+  }
+
+  try {
+    const supabase = createAdminClient()
+
+    // Ensure user has a balance record
+    await initializeUserBalance(userId, 0, true)
+
+    const { data, error } = await supabase.rpc('grant_subscription_allowance', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_expires_at: expiresAt ? expiresAt.toISOString() : null,
+      p_invoice_id: invoiceId,
+      ...(description && { p_description: description })
+    })
+
+    if (error || !data || data.length === 0) {
+      console.error('Failed to grant subscription allowance:', error)
+      return null
+    }
+
+    if (!data[0].success) {
+      // A retried invoice event finds the grant of its first delivery
+      if (data[0].transaction_id) {
+        console.log(
+          `Allowance for invoice ${invoiceId} already granted (transaction ${data[0].transaction_id})`
+        )
+        return data[0].transaction_id
+      }
+
+      console.error(
+        `Allowance not granted for invoice ${invoiceId}: ${data[0].message}`
+      )
+      return null
+    }
+
+    invalidateBalanceCache(userId)
+
+    return data[0].transaction_id
+  } catch (error) {
+    console.error('Error granting subscription allowance:', error)
+    return null
+  }
+}
+
+/**
+ * Remove a user's expiring subscription allowance from their balance
+ * @param force - Expire it now instead of only once it is past its expiry date
+ * @returns Amount removed, or null on failure
+ */
+export async function expireSubscriptionAllowance(
+  userId: string,
+  force: boolean = false
+): Promise<number | null> {
+  try {
+    const supabase = createAdminClient()
+
+    const { data, error } = await supabase.rpc(
+      'expire_subscription_allowance',
+      {
+        p_user_id: userId,
+        p_force: force
+      }
+    )
+
+    if (error) {
+      console.error('Failed to expire subscription allowance:', error)
+      return null
+    }
+
+    invalidateBalanceCache(userId)
+
+    return parseFloat(data) || 0
+  } catch (error) {
+    console.error('Error expiring subscription allowance:', error)
+    return null
+  }
+}
+
+/**
+ * Freeze the disputed share of a deposit with an 'adjustment' transaction
+ * At most the current balance is frozen: freeze_dispute_funds clamps the
+ * debit under the balance row lock. Freezing the same dispute again returns
+ * the existing hold
+ * @param amount - Disputed share of the deposit, in the ledger currency
+ * @returns The hold (no transaction if nothing was left to freeze), or null
+ * on failure
+ */
+export async function freezeDisputedBalance(
+  userId: string,
+  disputeId: string,
+  amount: number,
+  chargeId: string,
+  metadata?: Record<string, unknown>
+): Promise<{ transactionId: string | null; frozenAmount: number } | null> {
+  try {
+    const supabase = createAdminClient()
+
+    const { data, error } = await supabase.rpc('freeze_dispute_funds', {
+      p_user_id: userId,
+      p_dispute_id: disputeId,
+      p_amount: amount,
+      p_charge_id: chargeId,
+      ...(metadata && { p_metadata: metadata })
+    })
+
+    if (error || !data || data.length === 0) {
+      console.error(`Failed to freeze funds for dispute ${disputeId}:`, error)
+      return null
+    }
+
+    invalidateBalanceCache(userId)
+
+    return {
+      transactionId: data[0].transaction_id,
+      frozenAmount: parseFloat(data[0].frozen_amount)
+    }
+  } catch (error) {
+    console.error('Error freezing disputed funds:', error)
+    return null
+  }
+}
+
+export interface RedeemPromoCodeResult {
+  success: boolean
+  status: PromoRedemptionStatus
+  amount?: number
+  transactionId?: string
+  message: string
+}
+
+/**
+ * Redeem a promo code and credit its amount to the user's balance
+ * The redeem_promo_code function logs the credit as an adjustment transaction
+ * with the code in its metadata, atomically with the credit
+ * @param idempotencyKey - Client-generated key; retrying with the same key
+ * returns the original redemption instead of crediting again
+ * @returns Redemption result, or null if the redemption could not be attempted
+ */
+export async function redeemPromoCode(
+  userId: string,
+  code: string,
+  idempotencyKey: string
+): Promise<RedeemPromoCodeResult | null> {
+  const normalizedCode = normalizePromoCode(code)
+
+  try {
+    const supabase = createAdminClient()
+
+    // Ensure user has a balance record
+    await initializeUserBalance(userId, 0, true)
+
+    const { data, error } = await supabase.rpc('redeem_promo_code', {
+      p_user_id: userId,
+      p_code: normalizedCode,
+      p_idempotency_key: idempotencyKey
+    })
+
+    if (error || !data || data.length === 0) {
+      console.error('Failed to redeem promo code:', error)
+      return null
+    }
+
+    const row = data[0]
+    const status = row.status as PromoRedemptionStatus
+    const amount = row.amount !== null ? parseFloat(row.amount) : undefined
+
+    if (status === 'duplicate') {
+      return {
+        success: true,
+        status,
+        amount,
+        transactionId: row.transaction_id ?? undefined,
+        message: getRedemptionMessage(status)
+      }
+    }
+
+    if (status !== 'redeemed') {
+      return { success: false, status, message: getRedemptionMessage(status) }
+    }
+
+    invalidateBalanceCache(userId)
+
+    return {
+      success: true,
+      status,
+      amount,
+      transactionId: row.transaction_id,
+      message: getRedemptionMessage(status)
+    }
+  } catch (error) {
+    console.error('Error redeeming promo code:', error)
+    return null
+  }
+}
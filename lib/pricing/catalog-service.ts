@@ -0,0 +1,705 @@
+/**
+ * Pricing Catalog Service
+ *
+ * Export the model_pricing table as a JSON or CSV catalog, and import a
+ * catalog file in one of these layouts:
+ * - native: the JSON export ({ models: ModelPricing[] } or a bare array)
+ * - csv: the CSV export, one row per model
+ * - litellm: LiteLLM's model_prices_and_context_window.json, keyed by model
+ * - openrouter: OpenRouter's /models response ({ data: [{ id, pricing }] })
+ *
+ * LiteLLM and OpenRouter prices are per token and are converted to per 1k
+ * tokens. An import is previewed first (validation and a diff against the
+ * current table); applying it upserts the changed models, and the pricing
+ * history trigger records each change with the import as its source.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import type { AdminActor } from './admin-billing-service'
+import { ChangeDetectionResult, PricingChangeDetector } from './change-detector'
+import {
+  clearPricingCache,
+  parsePricingTiers,
+  serializePricingTiers
+} from './pricing-service'
+import { validateBatchPricing } from './pricing-validator'
+import { ModelPricing, PricingTier } from './types'
+
+export type CatalogLayout = 'native' | 'csv' | 'litellm' | 'openrouter'
+
+export interface ParsedCatalog {
+  layout: CatalogLayout
+  pricing: ModelPricing[]
+  skipped: string[] // Entries that are not chat models of a supported provider
+  errors: string[] // Malformed entries
+}
+
+export interface CatalogImportPreview {
+  valid: boolean // No validation errors; changes with errors need force
+  validation: {
+    total: number
+    valid: number
+    invalid: number
+    warnings: number
+    issues: { key: string; errors: string[]; warnings: string[] }[]
+  }
+  changes: ChangeDetectionResult
+}
+
+export interface CatalogImportResult {
+  success: boolean
+  applied: number
+  skipped: number
+  preview?: CatalogImportPreview
+  error?: string
+}
+
+export const CATALOG_IMPORT_SOURCE = 'catalog-import'
+
+const CSV_COLUMNS = [
+  'model_id',
+  'provider_id',
+  'input_price_per_1k_tokens',
+  'output_price_per_1k_tokens',
+  'cached_input_price_per_1k_tokens',
+  'cache_write_price_per_1k_tokens',
+  'reasoning_price_per_1k_tokens',
+  'image_input_price_per_1k_tokens',
+  'pricing_tiers'
+] as const
+
+// LiteLLM/OpenRouter provider names → chat provider ids
+const PROVIDER_ALIASES: Record<string, string> = {
+  openai: 'openai',
+  anthropic: 'anthropic',
+  gemini: 'google',
+  google: 'google',
+  groq: 'groq',
+  deepseek: 'deepseek',
+  xai: 'xai',
+  'x-ai': 'xai',
+  fireworks_ai: 'fireworks',
+  fireworks: 'fireworks',
+  azure: 'azure',
+  ollama: 'ollama'
+}
+
+// LiteLLM modes priced per token for chat
+const LITELLM_CHAT_MODES = ['chat', 'completion', 'responses']
+
+// e.g. input_cost_per_token_above_128k_tokens
+const LITELLM_TIER_PATTERN = /^input_cost_per_token_above_(\d+)k_tokens$/
+
+// model_pricing prices have 6 decimal places
+function toPer1k(perToken: unknown): number | undefined {
+  const price = typeof perToken === 'string' ? Number(perToken) : perToken
+  if (typeof price !== 'number' || !Number.isFinite(price)) {
+    return undefined
+  }
+  return Math.round(price * 1000 * 1e6) / 1e6
+}
+
+function parseOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  const number = Number(value)
+  return Number.isFinite(number) ? number : NaN
+}
+
+/**
+ * Strip the provider prefix LiteLLM and OpenRouter put on model ids
+ * @returns The chat provider and model id, or null for unsupported providers
+ */
+function resolveModel(
+  id: string,
+  providerName?: string
+): { providerId: string; modelId: string } | null {
+  const slash = id.indexOf('/')
+  const prefix = slash > 0 ? id.slice(0, slash) : undefined
+  const providerId = PROVIDER_ALIASES[providerName ?? prefix ?? '']
+
+  if (!providerId) {
+    return null
+  }
+
+  const modelId =
+    prefix && PROVIDER_ALIASES[prefix] === providerId ? id.slice(slash + 1) : id
+
+  return modelId ? { providerId, modelId } : null
+}
+
+function getPricingKey(pricing: ModelPricing): string {
+  return `${pricing.providerId}:${pricing.modelId}`
+}
+
+/**
+ * Catalog entry of a pricing row, without timestamps
+ */
+function toCatalogEntry(pricing: ModelPricing): ModelPricing {
+  return {
+    modelId: pricing.modelId,
+    providerId: pricing.providerId,
+    inputPricePer1kTokens: pricing.inputPricePer1kTokens,
+    outputPricePer1kTokens: pricing.outputPricePer1kTokens,
+    cachedInputPricePer1kTokens: pricing.cachedInputPricePer1kTokens,
+    cacheWritePricePer1kTokens: pricing.cacheWritePricePer1kTokens,
+    reasoningPricePer1kTokens: pricing.reasoningPricePer1kTokens,
+    imageInputPricePer1kTokens: pricing.imageInputPricePer1kTokens,
+    tiers: pricing.tiers
+  }
+}
+
+/**
+ * Active model pricing, sorted by provider and model
+ * @returns The pricing, or null on failure
+ */
+export async function getPricingCatalog(): Promise<ModelPricing[] | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('model_pricing')
+      .select('*')
+      .eq('is_active', true)
+      .order('provider_id')
+      .order('model_id')
+
+    if (error) {
+      console.error('Failed to fetch pricing catalog:', error)
+      return null
+    }
+
+    return (data || []).map(row => ({
+      modelId: row.model_id,
+      providerId: row.provider_id,
+      inputPricePer1kTokens: Number(row.input_price_per_1k_tokens),
+      outputPricePer1kTokens: Number(row.output_price_per_1k_tokens),
+      cachedInputPricePer1kTokens: parseOptionalNumber(
+        row.cached_input_price_per_1k_tokens
+      ),
+      cacheWritePricePer1kTokens: parseOptionalNumber(
+        row.cache_write_price_per_1k_tokens
+      ),
+      reasoningPricePer1kTokens: parseOptionalNumber(
+        row.reasoning_price_per_1k_tokens
+      ),
+      imageInputPricePer1kTokens: parseOptionalNumber(
+        row.image_input_price_per_1k_tokens
+      ),
+      tiers: parsePricingTiers(row.pricing_tiers)
+    }))
+  } catch (error) {
+    console.error('Error fetching pricing catalog:', error)
+    return null
+  }
+}
+
+/**
+ * Serialize pricing as a native JSON catalog
+ */
+export function pricingCatalogToJson(
+  pricing: ModelPricing[],
+  exportedAt: Date = new Date()
+): string {
+  return JSON.stringify(
+    {
+      exportedAt: exportedAt.toISOString(),
+      models: pricing.map(toCatalogEntry)
+    },
+    null,
+    2
+  )
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize pricing as a CSV catalog (tiers as JSON in pricing_tiers)
+ */
+export function pricingCatalogToCsv(pricing: ModelPricing[]): string {
+  const rows = pricing.map(p =>
+    [
+      p.modelId,
+      p.providerId,
+      p.inputPricePer1kTokens,
+      p.outputPricePer1kTokens,
+      p.cachedInputPricePer1kTokens,
+      p.cacheWritePricePer1kTokens,
+      p.reasoningPricePer1kTokens,
+      p.imageInputPricePer1kTokens,
+      p.tiers ? JSON.stringify(serializePricingTiers(p.tiers)) : undefined
+    ]
+      .map(escapeCsvValue)
+      .join(',')
+  )
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
+
+/**
+ * Split CSV text into rows of fields (quoted fields may contain commas,
+ * quotes and line breaks)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''))
+}
+
+function parseCsvCatalog(text: string): ParsedCatalog {
+  const result: ParsedCatalog = {
+    layout: 'csv',
+    pricing: [],
+    skipped: [],
+    errors: []
+  }
+  const [header, ...rows] = parseCsvRows(text)
+  const columns = (header || []).map(column => column.trim())
+  const missing = CSV_COLUMNS.slice(0, 4).filter(c => !columns.includes(c))
+
+  if (missing.length > 0) {
+    result.errors.push(`Missing CSV columns: ${missing.join(', ')}`)
+    return result
+  }
+
+  rows.forEach((values, index) => {
+    const line = index + 2
+    const get = (column: (typeof CSV_COLUMNS)[number]) =>
+      values[columns.indexOf(column)]?.trim()
+
+    let tiers: PricingTier[] | undefined
+    try {
+      const tiersJson = get('pricing_tiers')
+      tiers = tiersJson ? parsePricingTiers(JSON.parse(tiersJson)) : undefined
+    } catch {
+      result.errors.push(`Line ${line}: pricing_tiers is not valid JSON`)
+      return
+    }
+
+    const pricing: ModelPricing = {
+      modelId: get('model_id') || '',
+      providerId: get('provider_id') || '',
+      inputPricePer1kTokens: Number(get('input_price_per_1k_tokens') || NaN),
+      outputPricePer1kTokens: Number(get('output_price_per_1k_tokens') || NaN),
+      cachedInputPricePer1kTokens: parseOptionalNumber(
+        get('cached_input_price_per_1k_tokens')
+      ),
+      cacheWritePricePer1kTokens: parseOptionalNumber(
+        get('cache_write_price_per_1k_tokens')
+      ),
+      reasoningPricePer1kTokens: parseOptionalNumber(
+        get('reasoning_price_per_1k_tokens')
+      ),
+      imageInputPricePer1kTokens: parseOptionalNumber(
+        get('image_input_price_per_1k_tokens')
+      ),
+      tiers
+    }
+
+    if (!pricing.modelId || !pricing.providerId) {
+      result.errors.push(`Line ${line}: model_id and provider_id are required`)
+      return
+    }
+
+    result.pricing.push(pricing)
+  })
+
+  return result
+}
+
+function parseNativeCatalog(entries: unknown[]): ParsedCatalog {
+  const result: ParsedCatalog = {
+    layout: 'native',
+    pricing: [],
+    skipped: [],
+    errors: []
+  }
+
+  entries.forEach((entry: any, index) => {
+    if (
+      typeof entry?.modelId !== 'string' ||
+      typeof entry?.providerId !== 'string'
+    ) {
+      result.errors.push(
+        `Entry ${index + 1}: modelId and providerId are required`
+      )
+      return
+    }
+
+    result.pricing.push({
+      modelId: entry.modelId,
+      providerId: entry.providerId,
+      inputPricePer1kTokens: Number(entry.inputPricePer1kTokens ?? NaN),
+      outputPricePer1kTokens: Number(entry.outputPricePer1kTokens ?? NaN),
+      cachedInputPricePer1kTokens: parseOptionalNumber(
+        entry.cachedInputPricePer1kTokens
+      ),
+      cacheWritePricePer1kTokens: parseOptionalNumber(
+        entry.cacheWritePricePer1kTokens
+      ),
+      reasoningPricePer1kTokens: parseOptionalNumber(
+        entry.reasoningPricePer1kTokens
+      ),
+      imageInputPricePer1kTokens: parseOptionalNumber(
+        entry.imageInputPricePer1kTokens
+      ),
+      tiers:
+        Array.isArray(entry.tiers) && entry.tiers.length > 0
+          ? entry.tiers
+          : undefined
+    })
+  })
+
+  return result
+}
+
+/**
+ * Prompt-size tiers from LiteLLM's *_cost_per_token_above_<N>k_tokens keys
+ */
+function parseLiteLLMTiers(
+  entry: Record<string, any>
+): PricingTier[] | undefined {
+  const tiers: PricingTier[] = []
+
+  for (const key of Object.keys(entry)) {
+    const match = key.match(LITELLM_TIER_PATTERN)
+    const inputPrice = match ? toPer1k(entry[key]) : undefined
+
+    if (!match || inputPrice === undefined) {
+      continue
+    }
+
+    const outputPrice = toPer1k(
+      entry[`output_cost_per_token_above_${match[1]}k_tokens`] ??
+        entry.output_cost_per_token
+    )
+
+    if (outputPrice !== undefined) {
+      tiers.push({
+        minTokens: Number(match[1]) * 1000 + 1,
+        inputPrice,
+        outputPrice
+      })
+    }
+  }
+
+  return tiers.length > 0
+    ? tiers.sort((a, b) => a.minTokens - b.minTokens)
+    : undefined
+}
+
+function parseLiteLLMCatalog(catalog: Record<string, any>): ParsedCatalog {
+  const result: ParsedCatalog = {
+    layout: 'litellm',
+    pricing: [],
+    skipped: [],
+    errors: []
+  }
+
+  for (const [id, entry] of Object.entries(catalog)) {
+    if (id === 'sample_spec' || typeof entry !== 'object' || !entry) {
+      continue
+    }
+
+    const model = resolveModel(id, entry.litellm_provider)
+
+    if (!model || (entry.mode && !LITELLM_CHAT_MODES.includes(entry.mode))) {
+      result.skipped.push(id)
+      continue
+    }
+
+    const input = toPer1k(entry.input_cost_per_token)
+    const output = toPer1k(entry.output_cost_per_token)
+
+    if (input === undefined || output === undefined) {
+      result.errors.push(
+        `${id}: input_cost_per_token and output_cost_per_token are required`
+      )
+      continue
+    }
+
+    result.pricing.push({
+      ...model,
+      inputPricePer1kTokens: input,
+      outputPricePer1kTokens: output,
+      cachedInputPricePer1kTokens: toPer1k(entry.cache_read_input_token_cost),
+      cacheWritePricePer1kTokens: toPer1k(
+        entry.cache_creation_input_token_cost
+      ),
+      reasoningPricePer1kTokens: toPer1k(entry.output_cost_per_reasoning_token),
+      tiers: parseLiteLLMTiers(entry)
+    })
+  }
+
+  return result
+}
+
+function parseOpenRouterCatalog(models: any[]): ParsedCatalog {
+  const result: ParsedCatalog = {
+    layout: 'openrouter',
+    pricing: [],
+    skipped: [],
+    errors: []
+  }
+
+  for (const entry of models) {
+    const id = typeof entry?.id === 'string' ? entry.id : ''
+    const model = id ? resolveModel(id) : null
+
+    if (!model) {
+      result.skipped.push(id || '(no id)')
+      continue
+    }
+
+    const input = toPer1k(entry.pricing?.prompt)
+    const output = toPer1k(entry.pricing?.completion)
+
+    if (input === undefined || output === undefined) {
+      result.errors.push(
+        `${id}: pricing.prompt and pricing.completion are required`
+      )
+      continue
+    }
+
+    result.pricing.push({
+      ...model,
+      inputPricePer1kTokens: input,
+      outputPricePer1kTokens: output,
+      cachedInputPricePer1kTokens: toPer1k(entry.pricing.input_cache_read),
+      cacheWritePricePer1kTokens: toPer1k(entry.pricing.input_cache_write),
+      reasoningPricePer1kTokens: toPer1k(entry.pricing.internal_reasoning)
+    })
+  }
+
+  return result
+}
+
+/**
+ * Parse a catalog file, detecting its layout
+ * Later entries for the same model are dropped as duplicates
+ */
+export function parsePricingCatalog(content: string): ParsedCatalog {
+  const text = content.replace(/^\uFEFF/, '').trim()
+  let parsed: ParsedCatalog
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    let json: any
+    try {
+      json = JSON.parse(text)
+    } catch {
+      return {
+        layout: 'native',
+        pricing: [],
+        skipped: [],
+        errors: ['File is not valid JSON']
+      }
+    }
+
+    if (Array.isArray(json)) {
+      parsed = parseNativeCatalog(json)
+    } else if (Array.isArray(json.models)) {
+      parsed = parseNativeCatalog(json.models)
+    } else if (Array.isArray(json.data)) {
+      parsed = parseOpenRouterCatalog(json.data)
+    } else {
+      parsed = parseLiteLLMCatalog(json)
+    }
+  } else {
+    parsed = parseCsvCatalog(text)
+  }
+
+  const seen = new Set<string>()
+  parsed.pricing = parsed.pricing.filter(pricing => {
+    const key = getPricingKey(pricing)
+    if (seen.has(key)) {
+      parsed.skipped.push(`${key} (duplicate)`)
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+
+  return parsed
+}
+
+/**
+ * Dry run of an import: validate the pricing and diff it against the
+ * current table. Models missing from the catalog are left as they are.
+ */
+export async function previewCatalogImport(
+  pricing: ModelPricing[]
+): Promise<CatalogImportPreview> {
+  const batch = validateBatchPricing(pricing)
+  const changes = await new PricingChangeDetector().detectChanges(pricing, {
+    includeRemoved: false
+  })
+
+  const issues = [...batch.results.entries()]
+    .filter(([, r]) => r.errors.length > 0 || r.warnings.length > 0)
+    .map(([key, r]) => ({ key, errors: r.errors, warnings: r.warnings }))
+
+  return {
+    valid: batch.valid,
+    validation: { ...batch.summary, issues },
+    changes
+  }
+}
+
+/**
+ * Apply an import: upsert every new or updated model
+ * Nothing is applied if any entry fails validation, or if a price change
+ * fails validation (e.g. a >200% jump) unless force is set.
+ */
+export async function applyCatalogImport(
+  actor: AdminActor,
+  pricing: ModelPricing[],
+  fileName: string,
+  force = false
+): Promise<CatalogImportResult> {
+  try {
+    const preview = await previewCatalogImport(pricing)
+
+    if (!preview.valid) {
+      return {
+        success: false,
+        applied: 0,
+        skipped: 0,
+        preview,
+        error: `${preview.validation.invalid} entries failed validation`
+      }
+    }
+
+    const toApply = preview.changes.changes.filter(
+      c =>
+        (c.changeType === 'new' || c.changeType === 'updated') && c.newPricing
+    )
+    const rejected = toApply.filter(c => c.validation && !c.validation.valid)
+
+    if (rejected.length > 0 && !force) {
+      return {
+        success: false,
+        applied: 0,
+        skipped: 0,
+        preview,
+        error: `${rejected.length} price changes failed validation; apply with force to override`
+      }
+    }
+
+    if (toApply.length === 0) {
+      return {
+        success: true,
+        applied: 0,
+        skipped: preview.changes.changes.length,
+        preview
+      }
+    }
+
+    const importedAt = new Date().toISOString()
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('model_pricing').upsert(
+      toApply.map(change => {
+        const p = change.newPricing!
+        return {
+          model_id: p.modelId,
+          provider_id: p.providerId,
+          input_price_per_1k_tokens: p.inputPricePer1kTokens,
+          output_price_per_1k_tokens: p.outputPricePer1kTokens,
+          cached_input_price_per_1k_tokens:
+            p.cachedInputPricePer1kTokens ?? null,
+          cache_write_price_per_1k_tokens: p.cacheWritePricePer1kTokens ?? null,
+          reasoning_price_per_1k_tokens: p.reasoningPricePer1kTokens ?? null,
+          image_input_price_per_1k_tokens: p.imageInputPricePer1kTokens ?? null,
+          pricing_tiers: serializePricingTiers(p.tiers),
+          last_verified_at: importedAt,
+          verified_source: CATALOG_IMPORT_SOURCE,
+          is_active: true,
+          // Read by the pricing history trigger
+          verification_metadata: {
+            changed_by: `admin:${actor.email}`,
+            change_reason: `Catalog import: ${fileName}`,
+            import_file: fileName,
+            imported_at: importedAt,
+            change_type: change.changeType,
+            change_percent: change.changePercent,
+            forced: rejected.length > 0
+          }
+        }
+      }),
+      { onConflict: 'model_id,provider_id' }
+    )
+
+    if (error) {
+      console.error('Failed to apply pricing catalog import:', error)
+      return {
+        success: false,
+        applied: 0,
+        skipped: 0,
+        preview,
+        error: error.message
+      }
+    }
+
+    clearPricingCache()
+
+    return {
+      success: true,
+      applied: toApply.length,
+      skipped: preview.changes.changes.length - toApply.length,
+      preview
+    }
+  } catch (error) {
+    console.error('Error applying pricing catalog import:', error)
+    return {
+      success: false,
+      applied: 0,
+      skipped: 0,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
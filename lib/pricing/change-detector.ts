@@ -6,8 +6,9 @@
 
 import { createAdminClient } from '@/lib/supabase/admin'
 
+import { parsePricingTiers } from './pricing-service'
 import { validatePricingChange } from './pricing-validator'
-import { ModelPricing } from './types'
+import { ModelPricing, PricingTier } from './types'
 
 export interface PricingChangeDetection {
   modelId: string
@@ -40,6 +41,35 @@ export interface ChangeDetectionResult {
   summary: string
 }
 
+const TOKEN_CLASS_PRICE_FIELDS = [
+  'cachedInputPricePer1kTokens',
+  'cacheWritePricePer1kTokens',
+  'reasoningPricePer1kTokens',
+  'imageInputPricePer1kTokens'
+] as const
+
+function parseOptionalPrice(value: any): number | undefined {
+  return value === null || value === undefined ? undefined : parseFloat(value)
+}
+
+/**
+ * Compare two tier lists independent of order
+ */
+function tiersEqual(a?: PricingTier[], b?: PricingTier[]): boolean {
+  const normalize = (tiers?: PricingTier[]) =>
+    JSON.stringify(
+      [...(tiers || [])]
+        .sort((x, y) => x.minTokens - y.minTokens)
+        .map(t => [
+          t.minTokens,
+          t.maxTokens ?? null,
+          t.inputPrice,
+          t.outputPrice
+        ])
+    )
+  return normalize(a) === normalize(b)
+}
+
 export class PricingChangeDetector {
   private threshold = {
     autoApply: 10, // Auto-apply if change is <10%
@@ -68,9 +98,12 @@ export class PricingChangeDetector {
 
   /**
    * Detect changes between database and provider pricing
+   * With includeRemoved false, models missing from the provider pricing are
+   * left out rather than reported as removed (e.g. a partial catalog import)
    */
   async detectChanges(
-    providerPricing: ModelPricing[]
+    providerPricing: ModelPricing[],
+    { includeRemoved = true }: { includeRemoved?: boolean } = {}
   ): Promise<ChangeDetectionResult> {
     const supabase = createAdminClient()
 
@@ -92,7 +125,20 @@ export class PricingChangeDetector {
         modelId: row.model_id,
         providerId: row.provider_id,
         inputPricePer1kTokens: parseFloat(row.input_price_per_1k_tokens),
-        outputPricePer1kTokens: parseFloat(row.output_price_per_1k_tokens)
+        outputPricePer1kTokens: parseFloat(row.output_price_per_1k_tokens),
+        cachedInputPricePer1kTokens: parseOptionalPrice(
+          row.cached_input_price_per_1k_tokens
+        ),
+        cacheWritePricePer1kTokens: parseOptionalPrice(
+          row.cache_write_price_per_1k_tokens
+        ),
+        reasoningPricePer1kTokens: parseOptionalPrice(
+          row.reasoning_price_per_1k_tokens
+        ),
+        imageInputPricePer1kTokens: parseOptionalPrice(
+          row.image_input_price_per_1k_tokens
+        ),
+        tiers: parsePricingTiers(row.pricing_tiers)
       })
     }
 
@@ -104,7 +150,11 @@ export class PricingChangeDetector {
 
     // Detect changes
     const changes: PricingChangeDetection[] = []
-    const allKeys = new Set([...dbMap.keys(), ...providerMap.keys()])
+    const allKeys = new Set(
+      includeRemoved
+        ? [...dbMap.keys(), ...providerMap.keys()]
+        : providerMap.keys()
+    )
 
     for (const key of allKeys) {
       const oldPricing = dbMap.get(key)
@@ -147,7 +197,8 @@ export class PricingChangeDetector {
         modelId: newPricing.modelId,
         providerId: newPricing.providerId,
         newInputPrice: newPricing.inputPricePer1kTokens,
-        newOutputPrice: newPricing.outputPricePer1kTokens
+        newOutputPrice: newPricing.outputPricePer1kTokens,
+        newTiers: newPricing.tiers
       })
 
       return {
@@ -177,9 +228,18 @@ export class PricingChangeDetector {
     if (oldPricing && newPricing) {
       const inputChanged = oldPricing.inputPricePer1kTokens !== newPricing.inputPricePer1kTokens
       const outputChanged = oldPricing.outputPricePer1kTokens !== newPricing.outputPricePer1kTokens
+      const tokenClassChanged = TOKEN_CLASS_PRICE_FIELDS.some(
+        field => oldPricing[field] !== newPricing[field]
+      )
+      const tiersChanged = !tiersEqual(oldPricing.tiers, newPricing.tiers)
 
       // No change
-      if (!inputChanged && !outputChanged) {
+      if (
+        !inputChanged &&
+        !outputChanged &&
+        !tokenClassChanged &&
+        !tiersChanged
+      ) {
         return {
           modelId: oldPricing.modelId,
           providerId: oldPricing.providerId,
@@ -208,7 +268,8 @@ export class PricingChangeDetector {
         oldInputPrice: oldPricing.inputPricePer1kTokens,
         oldOutputPrice: oldPricing.outputPricePer1kTokens,
         newInputPrice: newPricing.inputPricePer1kTokens,
-        newOutputPrice: newPricing.outputPricePer1kTokens
+        newOutputPrice: newPricing.outputPricePer1kTokens,
+        newTiers: newPricing.tiers
       })
 
       // Determine if auto-applicable
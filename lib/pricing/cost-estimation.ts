@@ -3,11 +3,30 @@ import { Message } from 'ai'
 import { Model } from '../types/models'
 
 import { formatCost } from './format'
-import { getModelPricing } from './pricing-service'
+import { applyMarkupRule, selectMarkupRule } from './pricing-policy-service'
+import { getModelPricing, selectPricingTier } from './pricing-service'
+import { getToolPricing } from './tool-pricing-service'
+import { MarkupRule, PricingPolicy } from './types'
 
 // Re-export client-safe formatting utilities
 export { formatCost, formatTokens } from './format'
 
+export type ConversationCostEstimate = NonNullable<
+  Awaited<ReturnType<typeof estimateConversationCost>>
+>
+
+/**
+ * Estimated cost of the next request, as shown before sending
+ */
+export interface RequestCostEstimate {
+  inputTokens: number
+  outputTokens: number
+  modelCost: number // Provider cost of the model call
+  toolCost: number // Provider cost of one search in search mode
+  billedCost: number // Typical billed amount, markup and minimum charge included
+  billedRange: { min: number; max: number }
+}
+
 /**
  * Estimate the number of tokens in a message
  * This is a rough estimate based on character count
@@ -72,8 +91,13 @@ export async function estimateConversationCost(
     const inputTokens = estimateMessagesTokens(messages)
     const outputTokens = estimatedCompletionTokens
 
-    const inputCost = (inputTokens / 1000) * pricing.inputPricePer1kTokens
-    const outputCost = (outputTokens / 1000) * pricing.outputPricePer1kTokens
+    // Long prompts may fall into a higher-priced tier
+    const tier = selectPricingTier(pricing, inputTokens)
+    const inputPrice = tier?.inputPrice ?? pricing.inputPricePer1kTokens
+    const outputPrice = tier?.outputPrice ?? pricing.outputPricePer1kTokens
+
+    const inputCost = (inputTokens / 1000) * inputPrice
+    const outputCost = (outputTokens / 1000) * outputPrice
     const totalCost = inputCost + outputCost
 
     return {
@@ -87,15 +111,13 @@ export async function estimateConversationCost(
         min: parseFloat(
           (
             inputCost +
-            (estimatedCompletionTokens * 0.5 * pricing.outputPricePer1kTokens) /
-              1000
+            (estimatedCompletionTokens * 0.5 * outputPrice) / 1000
           ).toFixed(6)
         ),
         max: parseFloat(
           (
             inputCost +
-            (estimatedCompletionTokens * 2 * pricing.outputPricePer1kTokens) /
-              1000
+            (estimatedCompletionTokens * 2 * outputPrice) / 1000
           ).toFixed(6)
         )
       }
@@ -130,3 +152,91 @@ export async function getPricingSummary(model: Model) {
     )} per message (estimated)`
   }
 }
+
+function billAt(
+  providerCost: number,
+  policy: PricingPolicy,
+  providerId: string,
+  modelId: string,
+  chargedFixedRules: Set<MarkupRule>
+): number {
+  return applyMarkupRule(
+    providerCost,
+    selectMarkupRule(policy, providerId, modelId),
+    chargedFixedRules
+  )
+}
+
+/**
+ * Bill a conversation estimate, plus one search in search mode, under a
+ * pricing policy: each part is marked up like the usage line it becomes, a
+ * fixed markup once per turn, and the total is raised to the plan's minimum
+ * charge
+ */
+export function billRequestEstimate(
+  conversation: ConversationCostEstimate,
+  model: Model,
+  policy: PricingPolicy,
+  search?: { provider: string; pricePerCall: number } | null
+): RequestCostEstimate {
+  const toolCost = search?.pricePerCall ?? 0
+  const bill = (modelCost: number) => {
+    const chargedFixedRules = new Set<MarkupRule>()
+    const billedModel = billAt(
+      modelCost,
+      policy,
+      model.providerId,
+      model.id,
+      chargedFixedRules
+    )
+    const billedTool = search
+      ? billAt(
+          search.pricePerCall,
+          policy,
+          search.provider,
+          'search:basic',
+          chargedFixedRules
+        )
+      : 0
+
+    return parseFloat(
+      Math.max(billedModel + billedTool, policy.minChargePerRequest).toFixed(6)
+    )
+  }
+
+  return {
+    inputTokens: conversation.inputTokens,
+    outputTokens: conversation.outputTokens,
+    modelCost: conversation.totalCost,
+    toolCost,
+    billedCost: bill(conversation.totalCost),
+    billedRange: {
+      min: bill(conversation.estimatedCostRange.min),
+      max: bill(conversation.estimatedCostRange.max)
+    }
+  }
+}
+
+/**
+ * Estimate what the next request will be billed: the conversation so far
+ * plus the new message, on the selected model, under the user's pricing plan
+ * @param searchProvider - Search provider when search mode is on
+ * @returns The estimate, or null if the model has no pricing
+ */
+export async function estimateRequestCost(
+  messages: Message[],
+  model: Model,
+  policy: PricingPolicy,
+  searchProvider?: string
+): Promise<RequestCostEstimate | null> {
+  const conversation = await estimateConversationCost(messages, model)
+  if (!conversation) {
+    return null
+  }
+
+  const search = searchProvider
+    ? await getToolPricing('search', searchProvider, 'basic')
+    : null
+
+  return billRequestEstimate(conversation, model, policy, search)
+}
@@ -0,0 +1,363 @@
+/**
+ * Dispute Service
+ *
+ * Stripe disputes of wallet deposits. When a dispute opens, the disputed
+ * share of the deposit's credit is frozen: held back from the wallet with an
+ * 'adjustment' transaction, as far as the wallet still has it. When the
+ * dispute closes, the hold is released if it was won and kept if it was lost.
+ * Deposits are found through their ledger transaction, so no Stripe API call
+ * is needed and replayed events settle the same way.
+ */
+
+import type Stripe from 'stripe'
+
+import { fromMinorUnits, toMinorUnits } from '@/lib/stripe/payment-service'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import { freezeDisputedBalance, postBalanceChange } from './balance-service'
+import {
+  getTransactionByPaymentIntent,
+  Transaction
+} from './transaction-service'
+
+export type DisputeStatus = 'open' | 'won' | 'lost'
+
+export interface Dispute {
+  id: string
+  chargeId: string
+  paymentIntentId?: string
+  walletId?: string // Unset when the charge was not a wallet deposit
+  disputeAmount: number // Smallest unit of the payment currency
+  disputeCurrency: string
+  amount: number // Disputed share of the credit, in the ledger currency
+  frozenAmount: number
+  currency: string // Ledger currency of amount and frozenAmount
+  reason?: string
+  status: DisputeStatus
+  stripeStatus?: string
+  holdTransactionId?: string
+  releaseTransactionId?: string
+  openedAt: Date
+  closedAt?: Date
+}
+
+interface DisputeRecord {
+  id: string
+  charge_id: string
+  payment_intent_id: string | null
+  wallet_id: string | null
+  dispute_amount: number
+  dispute_currency: string
+  amount: string
+  frozen_amount: string
+  currency: string
+  reason: string | null
+  status: DisputeStatus
+  stripe_status: string | null
+  hold_transaction_id: string | null
+  release_transaction_id: string | null
+  opened_at: string
+  closed_at: string | null
+}
+
+type DisputeAction = 'hold' | 'release'
+
+function mapDisputeRecord(row: DisputeRecord): Dispute {
+  return {
+    id: row.id,
+    chargeId: row.charge_id,
+    paymentIntentId: row.payment_intent_id ?? undefined,
+    walletId: row.wallet_id ?? undefined,
+    disputeAmount: row.dispute_amount,
+    disputeCurrency: row.dispute_currency,
+    amount: parseFloat(row.amount),
+    frozenAmount: parseFloat(row.frozen_amount),
+    currency: row.currency,
+    reason: row.reason ?? undefined,
+    status: row.status,
+    stripeStatus: row.stripe_status ?? undefined,
+    holdTransactionId: row.hold_transaction_id ?? undefined,
+    releaseTransactionId: row.release_transaction_id ?? undefined,
+    openedAt: new Date(row.opened_at),
+    closedAt: row.closed_at ? new Date(row.closed_at) : undefined
+  }
+}
+
+function getStripeId(value: string | { id: string } | null): string | null {
+  return typeof value === 'string' ? value : (value?.id ?? null)
+}
+
+/**
+ * Share of a deposit's credit a dispute covers, in the ledger currency
+ * Like refunds, a dispute of the full charge covers exactly the credit
+ * @param disputeAmount - Dispute in the smallest unit of the payment currency
+ * @param deposit - The deposit transaction of the disputed charge
+ */
+export function getDisputeHold(
+  disputeAmount: number,
+  deposit: Pick<Transaction, 'amount' | 'currency' | 'metadata'>
+): number {
+  // Converted deposits record what was paid; others were paid in the ledger
+  // currency
+  const paidAmount = deposit.metadata?.depositAmount
+  const paidCurrency = deposit.metadata?.depositCurrency
+  const chargedAmount =
+    typeof paidAmount === 'number' && typeof paidCurrency === 'string'
+      ? toMinorUnits(paidAmount, paidCurrency)
+      : toMinorUnits(deposit.amount, deposit.currency)
+
+  if (chargedAmount <= 0 || disputeAmount <= 0) {
+    return 0
+  }
+
+  const credit = toMinorUnits(deposit.amount, deposit.currency)
+  const hold = Math.round(credit * Math.min(disputeAmount / chargedAmount, 1))
+
+  return fromMinorUnits(hold, deposit.currency)
+}
+
+/**
+ * Outcome of a closed Stripe dispute
+ * Only a lost dispute takes the money; won disputes and closed inquiries
+ * (warning_closed) release the hold
+ */
+export function getDisputeOutcome(stripeStatus: string): DisputeStatus {
+  return stripeStatus === 'lost' ? 'lost' : 'won'
+}
+
+/**
+ * Get a dispute by its Stripe id
+ */
+export async function getDispute(disputeId: string): Promise<Dispute | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('stripe_disputes')
+      .select('*')
+      .eq('id', disputeId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch dispute:', error)
+      return null
+    }
+
+    return data ? mapDisputeRecord(data) : null
+  } catch (error) {
+    console.error('Error fetching dispute:', error)
+    return null
+  }
+}
+
+/**
+ * Get disputes, newest first
+ */
+export async function getDisputes(
+  status?: DisputeStatus,
+  limit: number = 50
+): Promise<Dispute[]> {
+  try {
+    const supabase = createAdminClient()
+    let query = supabase
+      .from('stripe_disputes')
+      .select('*')
+      .order('opened_at', { ascending: false })
+      .limit(limit)
+
+    if (status) {
+      query = query.eq('status', status)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch disputes:', error)
+      return []
+    }
+
+    return (data || []).map(mapDisputeRecord)
+  } catch (error) {
+    console.error('Error fetching disputes:', error)
+    return []
+  }
+}
+
+/**
+ * The hold or release transaction already posted for a dispute, so a
+ * retried event does not post it twice
+ */
+async function getDisputeTransaction(
+  disputeId: string,
+  action: DisputeAction
+): Promise<{ id: string; amount: number } | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id, amount')
+    .eq('metadata->>disputeId', disputeId)
+    .eq('metadata->>disputeAction', action)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up dispute ${action}: ${error.message}`)
+  }
+
+  return data ? { id: data.id, amount: parseFloat(data.amount) } : null
+}
+
+async function saveDispute(
+  values: Partial<DisputeRecord> & { id: string },
+  isNew: boolean
+): Promise<Dispute | null> {
+  const supabase = createAdminClient()
+  const query = isNew
+    ? supabase.from('stripe_disputes').insert(values)
+    : supabase.from('stripe_disputes').update(values).eq('id', values.id)
+  const { data, error } = await query.select('*').single()
+
+  if (error) {
+    console.error(`Failed to save dispute ${values.id}:`, error)
+    return null
+  }
+
+  return mapDisputeRecord(data)
+}
+
+/**
+ * Freeze the disputed share of a deposit
+ * At most what the wallet still holds is frozen; the rest was already spent.
+ * Freezing the same dispute again returns the existing record
+ * @returns The dispute, or null on failure
+ */
+export async function freezeDisputedFunds(
+  dispute: Stripe.Dispute
+): Promise<Dispute | null> {
+  try {
+    const existing = await getDispute(dispute.id)
+    if (existing) {
+      return existing
+    }
+
+    const chargeId = getStripeId(dispute.charge)
+    const paymentIntentId = getStripeId(dispute.payment_intent)
+
+    if (!chargeId) {
+      console.error(`Missing charge in dispute ${dispute.id}`)
+      return null
+    }
+
+    const record = {
+      id: dispute.id,
+      charge_id: chargeId,
+      payment_intent_id: paymentIntentId,
+      dispute_amount: dispute.amount,
+      dispute_currency: dispute.currency.toUpperCase(),
+      reason: dispute.reason,
+      status: 'open' as const,
+      stripe_status: dispute.status,
+      opened_at: new Date(dispute.created * 1000).toISOString()
+    }
+
+    const deposit = paymentIntentId
+      ? await getTransactionByPaymentIntent(paymentIntentId, true)
+      : null
+
+    // e.g. a subscription invoice: recorded, but there is nothing to freeze
+    if (!deposit || deposit.type !== 'deposit') {
+      console.log(
+        `Dispute ${dispute.id} is not for a wallet deposit. Nothing frozen.`
+      )
+      return saveDispute(record, true)
+    }
+
+    const amount = getDisputeHold(dispute.amount, deposit)
+    const hold = await freezeDisputedBalance(
+      deposit.userId,
+      dispute.id,
+      amount,
+      chargeId,
+      { paymentIntentId, disputeReason: dispute.reason }
+    )
+
+    if (!hold) {
+      return null
+    }
+
+    return saveDispute(
+      {
+        ...record,
+        wallet_id: deposit.userId,
+        amount: amount.toString(),
+        frozen_amount: hold.frozenAmount.toString(),
+        currency: deposit.currency,
+        hold_transaction_id: hold.transactionId
+      },
+      true
+    )
+  } catch (error) {
+    console.error('Error freezing disputed funds:', error)
+    return null
+  }
+}
+
+/**
+ * Settle a closed dispute: release its hold when it was won, keep it when it
+ * was lost. Settling an already closed dispute returns it unchanged
+ * @returns The dispute, or null on failure
+ */
+export async function settleDispute(
+  dispute: Stripe.Dispute
+): Promise<Dispute | null> {
+  try {
+    // The created event may have failed or arrived late
+    const record = await freezeDisputedFunds(dispute)
+
+    if (!record) {
+      return null
+    }
+
+    if (record.status !== 'open') {
+      return record
+    }
+
+    const status = getDisputeOutcome(dispute.status)
+    let releaseTransactionId: string | null = null
+
+    if (status === 'won' && record.walletId && record.frozenAmount > 0) {
+      const release = await getDisputeTransaction(dispute.id, 'release')
+
+      releaseTransactionId =
+        release?.id ??
+        (await postBalanceChange({
+          userId: record.walletId,
+          amount: record.frozenAmount,
+          type: 'adjustment',
+          description: `Dispute won, hold released: ${dispute.id}`,
+          stripeChargeId: record.chargeId,
+          metadata: {
+            disputeId: dispute.id,
+            disputeAction: 'release',
+            paymentIntentId: record.paymentIntentId
+          }
+        }))
+
+      if (!releaseTransactionId) {
+        return null
+      }
+    }
+
+    return saveDispute(
+      {
+        id: dispute.id,
+        status,
+        stripe_status: dispute.status,
+        release_transaction_id: releaseTransactionId,
+        closed_at: new Date().toISOString()
+      },
+      false
+    )
+  } catch (error) {
+    console.error('Error settling dispute:', error)
+    return null
+  }
+}
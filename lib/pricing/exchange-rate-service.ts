@@ -0,0 +1,395 @@
+/**
+ * Exchange Rate Service
+ *
+ * Rates for converting deposits into the ledger currency and checking deposit
+ * limits in USD terms. Rates come from one configured source
+ * (EXCHANGE_RATE_SOURCE):
+ * - static: public/config/exchange-rates.json (default)
+ * - database: rates entered by admins in the exchange_rates table
+ * - http: a JSON feed at EXCHANGE_RATE_FEED_URL
+ * If the configured source fails, the static file is used instead.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import {
+  CURRENCY_INFO,
+  isSupportedCurrency,
+  SupportedCurrency
+} from './currency-service'
+
+import staticRates from '@/public/config/exchange-rates.json'
+
+export type ExchangeRateSourceName = 'static' | 'database' | 'http'
+
+/**
+ * Rates as units of each currency per 1 USD
+ */
+export interface ExchangeRateTable {
+  rates: Partial<Record<SupportedCurrency, number>>
+  source: ExchangeRateSourceName
+  asOf: Date
+}
+
+export interface ExchangeRateSource {
+  name: ExchangeRateSourceName
+  getRates(): Promise<ExchangeRateTable | null>
+}
+
+export interface CurrencyConversion {
+  fromAmount: number
+  fromCurrency: SupportedCurrency
+  toAmount: number
+  toCurrency: SupportedCurrency
+  rate: number // Units of toCurrency per 1 fromCurrency
+  source: ExchangeRateSourceName
+  asOf: Date
+}
+
+export interface ManualExchangeRate {
+  currency: SupportedCurrency
+  ratePerUsd: number
+  updatedBy?: string
+  updatedAt: Date
+}
+
+type FetchFn = (url: string, init?: RequestInit) => Promise<Response>
+
+// In-memory cache for the configured source (TTL: 5 minutes)
+let ratesCache: { data: ExchangeRateTable; timestamp: number } | null = null
+const CACHE_TTL = 5 * 60 * 1000
+const FEED_TIMEOUT_MS = 10000
+
+/**
+ * Parse an exchange rate feed of the form `{ base, rates, timestamp? }`
+ * Rates are rebased to USD; currencies we do not support are dropped
+ * @returns The rate table, or null if the feed is malformed
+ */
+export function parseExchangeRateFeed(
+  data: any,
+  source: ExchangeRateSourceName,
+  fetchedAt: Date = new Date()
+): ExchangeRateTable | null {
+  if (!data || typeof data !== 'object' || typeof data.rates !== 'object') {
+    return null
+  }
+
+  const base = typeof data.base === 'string' ? data.base.toUpperCase() : 'USD'
+  const baseRates: Record<string, unknown> = { ...data.rates, [base]: 1 }
+  const usdRate = Number(baseRates.USD)
+
+  if (!Number.isFinite(usdRate) || usdRate <= 0) {
+    return null
+  }
+
+  const rates: Partial<Record<SupportedCurrency, number>> = {}
+  for (const [currency, value] of Object.entries(baseRates)) {
+    const rate = Number(value)
+    if (isSupportedCurrency(currency) && Number.isFinite(rate) && rate > 0) {
+      rates[currency] = rate / usdRate
+    }
+  }
+
+  // Feeds give Unix seconds (timestamp) or an ISO date (asOf/date)
+  const asOf =
+    typeof data.timestamp === 'number'
+      ? new Date(data.timestamp * 1000)
+      : data.asOf || data.date
+        ? new Date(data.asOf || data.date)
+        : fetchedAt
+
+  return {
+    rates,
+    source,
+    asOf: isNaN(asOf.getTime()) ? fetchedAt : asOf
+  }
+}
+
+/**
+ * Rates from public/config/exchange-rates.json
+ */
+export function getStaticExchangeRates(): ExchangeRateTable {
+  return parseExchangeRateFeed(staticRates, 'static') as ExchangeRateTable
+}
+
+export class StaticExchangeRateSource implements ExchangeRateSource {
+  name = 'static' as const
+
+  async getRates(): Promise<ExchangeRateTable | null> {
+    return getStaticExchangeRates()
+  }
+}
+
+export class DatabaseExchangeRateSource implements ExchangeRateSource {
+  name = 'database' as const
+
+  async getRates(): Promise<ExchangeRateTable | null> {
+    const entries = await getManualExchangeRates()
+    if (!entries) {
+      return null
+    }
+
+    const rates: Partial<Record<SupportedCurrency, number>> = { USD: 1 }
+    let asOf = new Date(0)
+    for (const entry of entries) {
+      rates[entry.currency] = entry.ratePerUsd
+      if (entry.updatedAt > asOf) {
+        asOf = entry.updatedAt
+      }
+    }
+
+    return { rates, source: 'database', asOf }
+  }
+}
+
+export class HttpExchangeRateSource implements ExchangeRateSource {
+  name = 'http' as const
+
+  constructor(
+    private url: string,
+    private fetchFn: FetchFn = fetch
+  ) {}
+
+  async getRates(): Promise<ExchangeRateTable | null> {
+    try {
+      const response = await this.fetchFn(this.url, {
+        signal: AbortSignal.timeout(FEED_TIMEOUT_MS)
+      })
+
+      if (!response.ok) {
+        console.error(
+          `Exchange rate feed returned ${response.status} ${response.statusText}`
+        )
+        return null
+      }
+
+      const table = parseExchangeRateFeed(await response.json(), 'http')
+      if (!table) {
+        console.error('Exchange rate feed returned malformed data')
+      }
+      return table
+    } catch (error) {
+      console.error('Error fetching exchange rate feed:', error)
+      return null
+    }
+  }
+}
+
+/**
+ * Get the exchange rate source configured by EXCHANGE_RATE_SOURCE
+ */
+export function getExchangeRateSource(
+  name: string | undefined = process.env.EXCHANGE_RATE_SOURCE
+): ExchangeRateSource {
+  switch (name) {
+    case 'database':
+      return new DatabaseExchangeRateSource()
+    case 'http':
+      if (process.env.EXCHANGE_RATE_FEED_URL) {
+        return new HttpExchangeRateSource(process.env.EXCHANGE_RATE_FEED_URL)
+      }
+      console.error(
+        'EXCHANGE_RATE_SOURCE is http but EXCHANGE_RATE_FEED_URL is not set'
+      )
+      return new StaticExchangeRateSource()
+    default:
+      return new StaticExchangeRateSource()
+  }
+}
+
+/**
+ * Get the current exchange rates, falling back to the static file if the
+ * configured source fails
+ */
+export async function getExchangeRates(): Promise<ExchangeRateTable> {
+  if (ratesCache && Date.now() - ratesCache.timestamp < CACHE_TTL) {
+    return ratesCache.data
+  }
+
+  const source = getExchangeRateSource()
+  const rates = await source.getRates()
+
+  if (!rates) {
+    console.error(
+      `Exchange rate source "${source.name}" failed, using static rates`
+    )
+    // Not cached, so the configured source is retried on the next call
+    return getStaticExchangeRates()
+  }
+
+  ratesCache = { data: rates, timestamp: Date.now() }
+  return rates
+}
+
+/**
+ * Clear the exchange rate cache (after admins change rates)
+ */
+export function clearExchangeRateCache(): void {
+  ratesCache = null
+}
+
+/**
+ * Units of `to` per 1 `from`
+ * @returns The rate, or null if either currency has no rate
+ */
+export function getCrossRate(
+  table: ExchangeRateTable,
+  from: SupportedCurrency,
+  to: SupportedCurrency
+): number | null {
+  if (from === to) {
+    return 1
+  }
+
+  const fromRate = table.rates[from]
+  const toRate = table.rates[to]
+
+  if (!fromRate || !toRate) {
+    return null
+  }
+
+  return Number((toRate / fromRate).toPrecision(10))
+}
+
+/**
+ * Convert an amount between currencies, rounded to the minor unit of the
+ * target currency
+ * @returns The conversion, or null if either currency has no rate
+ */
+export function convertAmount(
+  amount: number,
+  from: SupportedCurrency,
+  to: SupportedCurrency,
+  table: ExchangeRateTable
+): CurrencyConversion | null {
+  const rate = getCrossRate(table, from, to)
+  if (rate === null) {
+    return null
+  }
+
+  const factor = Math.pow(10, CURRENCY_INFO[to].decimalPlaces)
+
+  return {
+    fromAmount: amount,
+    fromCurrency: from,
+    toAmount: Math.round(amount * rate * factor) / factor,
+    toCurrency: to,
+    rate,
+    source: table.source,
+    asOf: table.asOf
+  }
+}
+
+/**
+ * Validate an admin-entered rate
+ * @returns Error message, or null if the rate is valid
+ */
+export function validateExchangeRate(
+  currency: string,
+  ratePerUsd: number
+): string | null {
+  if (!isSupportedCurrency(currency)) {
+    return `Unsupported currency: ${currency}`
+  }
+
+  if (currency === 'USD') {
+    return 'USD is the base currency; its rate is always 1'
+  }
+
+  if (!Number.isFinite(ratePerUsd) || ratePerUsd <= 0) {
+    return 'Rate must be a positive number'
+  }
+
+  return null
+}
+
+/**
+ * Get the admin-entered rates
+ */
+export async function getManualExchangeRates(): Promise<
+  ManualExchangeRate[] | null
+> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .order('currency', { ascending: true })
+
+    if (error) {
+      console.error('Failed to fetch exchange rates:', error)
+      return null
+    }
+
+    return (data || [])
+      .filter(row => isSupportedCurrency(row.currency))
+      .map(row => ({
+        currency: row.currency,
+        ratePerUsd: parseFloat(row.rate_per_usd),
+        updatedBy: row.updated_by ?? undefined,
+        updatedAt: new Date(row.updated_at)
+      }))
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error)
+    return null
+  }
+}
+
+/**
+ * Set an admin-entered rate
+ */
+export async function setManualExchangeRate(
+  currency: SupportedCurrency,
+  ratePerUsd: number,
+  updatedBy: string
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('exchange_rates').upsert(
+      {
+        currency,
+        rate_per_usd: ratePerUsd,
+        updated_by: updatedBy
+      },
+      { onConflict: 'currency' }
+    )
+
+    if (error) {
+      console.error('Failed to save exchange rate:', error)
+      return false
+    }
+
+    clearExchangeRateCache()
+    return true
+  } catch (error) {
+    console.error('Error saving exchange rate:', error)
+    return false
+  }
+}
+
+/**
+ * Remove an admin-entered rate; deposits in that currency are refused while
+ * the database source is active
+ */
+export async function deleteManualExchangeRate(
+  currency: SupportedCurrency
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('currency', currency)
+
+    if (error) {
+      console.error('Failed to delete exchange rate:', error)
+      return false
+    }
+
+    clearExchangeRateCache()
+    return true
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error)
+    return false
+  }
+}
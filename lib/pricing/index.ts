@@ -1,7 +1,10 @@
 // Export all pricing-related services
 export * from './balance-service'
 export * from './cost-estimation'
+export * from './pricing-policy-service'
 export * from './pricing-service'
 export * from './pricing-validator'
+export * from './tool-pricing-service'
 export * from './types'
+export * from './usage-accumulator'
 export * from './usage-tracking'
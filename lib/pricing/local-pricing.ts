@@ -0,0 +1,71 @@
+/**
+ * Local Model Pricing
+ *
+ * Ollama and OpenAI-compatible endpoints run models the operator hosts, so
+ * their prices are not published anywhere. They are free unless configured:
+ *
+ *   OLLAMA_INPUT_PRICE_PER_1K_TOKENS / OLLAMA_OUTPUT_PRICE_PER_1K_TOKENS
+ *   OPENAI_COMPATIBLE_INPUT_PRICE_PER_1K_TOKENS / OPENAI_COMPATIBLE_OUTPUT_PRICE_PER_1K_TOKENS
+ *
+ * The same price applies to every model of the provider.
+ */
+
+import { ModelPricing } from './types'
+
+export const LOCAL_PROVIDERS = ['ollama', 'openai-compatible']
+
+const ENV_PREFIXES: Record<string, string> = {
+  ollama: 'OLLAMA',
+  'openai-compatible': 'OPENAI_COMPATIBLE'
+}
+
+type Env = Record<string, string | undefined>
+
+/**
+ * Whether a provider runs operator-hosted models that may be priced at zero
+ */
+export function isLocalProvider(providerId: string): boolean {
+  return LOCAL_PROVIDERS.includes(providerId)
+}
+
+function parsePrice(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return 0
+  }
+
+  const price = Number(value)
+  return Number.isFinite(price) && price >= 0 ? price : null
+}
+
+/**
+ * Price of a local model: zero, or what the environment configures
+ * @returns The pricing, or null if the provider is not local or the
+ * configured price is invalid
+ */
+export function getLocalModelPricing(
+  modelId: string,
+  providerId: string,
+  env: Env = process.env
+): ModelPricing | null {
+  const prefix = ENV_PREFIXES[providerId]
+  if (!prefix) {
+    return null
+  }
+
+  const input = parsePrice(env[`${prefix}_INPUT_PRICE_PER_1K_TOKENS`])
+  const output = parsePrice(env[`${prefix}_OUTPUT_PRICE_PER_1K_TOKENS`])
+
+  if (input === null || output === null) {
+    console.error(
+      `Invalid ${prefix}_*_PRICE_PER_1K_TOKENS; prices must be non-negative numbers`
+    )
+    return null
+  }
+
+  return {
+    modelId,
+    providerId,
+    inputPricePer1kTokens: input,
+    outputPricePer1kTokens: output
+  }
+}
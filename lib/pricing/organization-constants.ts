@@ -0,0 +1,64 @@
+/**
+ * Client-safe organization roles, role checks and the workspace cookie
+ * These have no dependencies on server-only code
+ */
+
+export type OrganizationRole = 'owner' | 'admin' | 'member'
+export type OwnerType = 'user' | 'organization'
+
+// Cookie holding the id of the organization the user is working in
+export const WORKSPACE_COOKIE = 'workspace'
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = [
+  'owner',
+  'admin',
+  'member'
+]
+
+export function isOrganizationRole(role: unknown): role is OrganizationRole {
+  return ORGANIZATION_ROLES.includes(role as OrganizationRole)
+}
+
+/**
+ * Whether a role can add and remove members
+ */
+export function canManageMembers(role: OrganizationRole): boolean {
+  return role === 'owner' || role === 'admin'
+}
+
+/**
+ * Whether a role can add funds to the wallet
+ */
+export function canFundWallet(role: OrganizationRole): boolean {
+  return role === 'owner' || role === 'admin'
+}
+
+/**
+ * Whether a role can set member spending caps and see per-member usage
+ */
+export function canManageBilling(role: OrganizationRole): boolean {
+  return role === 'owner'
+}
+
+/**
+ * Whether a member with `actorRole` can change or remove a member with
+ * `targetRole` (and give them `newRole`, if set)
+ * Admins manage plain members only; owners manage everyone
+ */
+export function canChangeMember(
+  actorRole: OrganizationRole,
+  targetRole: OrganizationRole,
+  newRole?: OrganizationRole
+): boolean {
+  if (actorRole === 'owner') {
+    return true
+  }
+
+  if (actorRole !== 'admin') {
+    return false
+  }
+
+  return (
+    targetRole === 'member' && (newRole === undefined || newRole === 'member')
+  )
+}
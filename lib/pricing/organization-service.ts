@@ -0,0 +1,610 @@
+/**
+ * Organization Service
+ *
+ * Organization workspaces with a shared wallet. An organization's wallet is a
+ * user_balances row keyed by the organization id, so the balance service
+ * works on it as on a personal balance. While a user works in an
+ * organization's workspace (the workspace cookie), their usage is charged to
+ * that wallet, within the monthly spending cap the owners set for them.
+ *
+ * Roles:
+ * - owner: everything, including member spending caps and usage breakdown
+ * - admin: add and remove members, add funds
+ * - member: use the wallet
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import { OrganizationRole, OwnerType } from './organization-constants'
+import {
+  DEFAULT_WARNING_THRESHOLD,
+  evaluateSpendingLimits,
+  getSpendingWindowStarts,
+  MAX_SPENDING_LIMIT,
+  SpendingLimitCheck
+} from './spending-limit-service'
+
+// Re-export client-safe role constants and checks
+export {
+  canChangeMember,
+  canFundWallet,
+  canManageBilling,
+  canManageMembers,
+  isOrganizationRole,
+  ORGANIZATION_ROLES,
+  type OrganizationRole,
+  type OwnerType,
+  WORKSPACE_COOKIE
+} from './organization-constants'
+
+export interface Organization {
+  id: string
+  name: string
+  createdBy: string
+  createdAt: Date
+}
+
+export interface OrganizationMember {
+  organizationId: string
+  userId: string
+  email?: string
+  role: OrganizationRole
+  spendingLimit?: number // Monthly cap on wallet spend; undefined = no cap
+  createdAt: Date
+}
+
+export interface OrganizationMembership {
+  organization: Organization
+  role: OrganizationRole
+}
+
+export interface MemberUsage {
+  userId: string
+  totalCost: number
+  requestCount: number
+}
+
+/**
+ * The wallet a user's usage is charged to
+ */
+export interface BillingWallet {
+  ownerId: string // User id, or organization id for a shared wallet
+  ownerType: OwnerType
+  organizationId?: string
+  organizationName?: string
+  role?: OrganizationRole
+  spendingLimit?: number
+}
+
+export interface MemberUpdate {
+  role?: OrganizationRole
+  spendingLimit?: number | null // null removes the cap
+}
+
+export interface MemberChangeResult {
+  success: boolean
+  member?: OrganizationMember
+  error?: string
+}
+
+const MAX_NAME_LENGTH = 100
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function mapOrganizationRow(row: any): Organization {
+  return {
+    id: row.id,
+    name: row.name,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+function mapMemberRow(row: any): OrganizationMember {
+  return {
+    organizationId: row.organization_id,
+    userId: row.user_id,
+    email: row.email ?? undefined,
+    role: row.role,
+    spendingLimit:
+      row.monthly_spending_limit !== null
+        ? parseFloat(row.monthly_spending_limit)
+        : undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+/**
+ * Validate an organization name
+ * @returns Error message, or null if the name is valid
+ */
+export function validateOrganizationName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'Organization name is required'
+  }
+
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return `Organization name must be at most ${MAX_NAME_LENGTH} characters`
+  }
+
+  return null
+}
+
+/**
+ * Validate a member's monthly spending cap (null removes it)
+ * @returns Error message, or null if the cap is valid
+ */
+export function validateMemberSpendingLimit(limit: unknown): string | null {
+  if (limit === null) {
+    return null
+  }
+
+  if (typeof limit !== 'number' || !Number.isFinite(limit) || limit <= 0) {
+    return 'Spending limit must be a positive number'
+  }
+
+  if (limit > MAX_SPENDING_LIMIT) {
+    return `Spending limit cannot exceed $${MAX_SPENDING_LIMIT}`
+  }
+
+  return null
+}
+
+/**
+ * Check a request against a member's cap on spend from the wallet
+ * @param monthlySpend - The member's spend from the wallet this month
+ * @param requestCost - Estimated maximum billed cost of the request
+ */
+export function evaluateMemberSpendingLimit(
+  spendingLimit: number | undefined,
+  monthlySpend: number,
+  requestCost: number = 0
+): SpendingLimitCheck {
+  return evaluateSpendingLimits(
+    {
+      monthlyLimit: spendingLimit,
+      warningThreshold: DEFAULT_WARNING_THRESHOLD
+    },
+    { dailySpend: 0, monthlySpend },
+    requestCost
+  )
+}
+
+/**
+ * User-facing message for a request refused by a member's spending cap
+ */
+export function getMemberSpendingLimitMessage(
+  organizationName: string,
+  limit: number,
+  spent: number
+): string {
+  return `This request would exceed your monthly spending limit of $${limit.toFixed(2)} in ${organizationName} (spent this month: $${spent.toFixed(2)}). Ask an owner to raise it, or switch to your personal workspace.`
+}
+
+/**
+ * Get the organizations a user belongs to, with their role in each
+ */
+export async function getUserOrganizations(
+  userId: string
+): Promise<OrganizationMembership[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, organizations(*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to fetch organizations:', error)
+      return []
+    }
+
+    return (data || [])
+      .filter((row: any) => row.organizations)
+      .map((row: any) => ({
+        organization: mapOrganizationRow(row.organizations),
+        role: row.role
+      }))
+  } catch (error) {
+    console.error('Error fetching organizations:', error)
+    return []
+  }
+}
+
+/**
+ * Get an organization by id
+ */
+export async function getOrganization(
+  organizationId: string
+): Promise<Organization | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('*')
+      .eq('id', organizationId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch organization:', error)
+      return null
+    }
+
+    return data ? mapOrganizationRow(data) : null
+  } catch (error) {
+    console.error('Error fetching organization:', error)
+    return null
+  }
+}
+
+/**
+ * Get a user's membership in an organization
+ * @returns The member, or null if the user is not a member
+ */
+export async function getOrganizationMember(
+  organizationId: string,
+  userId: string
+): Promise<OrganizationMember | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch organization member:', error)
+      return null
+    }
+
+    return data ? mapMemberRow(data) : null
+  } catch (error) {
+    console.error('Error fetching organization member:', error)
+    return null
+  }
+}
+
+/**
+ * Get all members of an organization
+ */
+export async function getOrganizationMembers(
+  organizationId: string
+): Promise<OrganizationMember[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Failed to fetch organization members:', error)
+      return []
+    }
+
+    return (data || []).map(mapMemberRow)
+  } catch (error) {
+    console.error('Error fetching organization members:', error)
+    return []
+  }
+}
+
+/**
+ * Create an organization with the user as its owner and an empty wallet
+ */
+export async function createOrganization(
+  name: string,
+  ownerId: string,
+  ownerEmail?: string
+): Promise<Organization | null> {
+  const validationError = validateOrganizationName(name)
+  if (validationError) {
+    console.error(`Invalid organization: ${validationError}`)
+    return null
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.rpc('create_organization', {
+      p_name: name.trim(),
+      p_owner_id: ownerId,
+      p_owner_email: ownerEmail ?? null
+    })
+
+    if (error || !data || data.length === 0) {
+      console.error('Failed to create organization:', error)
+      return null
+    }
+
+    return mapOrganizationRow(data[0])
+  } catch (error) {
+    console.error('Error creating organization:', error)
+    return null
+  }
+}
+
+/**
+ * Add a user to an organization by email
+ */
+export async function addOrganizationMember(
+  organizationId: string,
+  email: string,
+  role: OrganizationRole = 'member'
+): Promise<MemberChangeResult> {
+  try {
+    const supabase = createAdminClient()
+    const { data: userId, error: lookupError } = await supabase.rpc(
+      'get_user_id_by_email',
+      { p_email: email }
+    )
+
+    if (lookupError) {
+      console.error('Failed to look up user by email:', lookupError)
+      return { success: false, error: 'Failed to look up user' }
+    }
+
+    if (!userId) {
+      return { success: false, error: 'No user with that email address' }
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .insert({
+        organization_id: organizationId,
+        user_id: userId,
+        email: email.trim().toLowerCase(),
+        role
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      // Unique violation: already a member
+      if (error.code === '23505') {
+        return { success: false, error: 'User is already a member' }
+      }
+      console.error('Failed to add organization member:', error)
+      return { success: false, error: 'Failed to add member' }
+    }
+
+    return { success: true, member: mapMemberRow(data) }
+  } catch (error) {
+    console.error('Error adding organization member:', error)
+    return { success: false, error: 'Failed to add member' }
+  }
+}
+
+async function countOwners(organizationId: string): Promise<number | null> {
+  const supabase = createAdminClient()
+  const { count, error } = await supabase
+    .from('organization_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('role', 'owner')
+
+  if (error) {
+    console.error('Failed to count organization owners:', error)
+    return null
+  }
+
+  return count ?? 0
+}
+
+/**
+ * Change a member's role or monthly spending cap
+ * The last owner cannot be demoted
+ */
+export async function updateOrganizationMember(
+  organizationId: string,
+  userId: string,
+  update: MemberUpdate
+): Promise<MemberChangeResult> {
+  if (update.spendingLimit !== undefined) {
+    const validationError = validateMemberSpendingLimit(update.spendingLimit)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+  }
+
+  try {
+    const current = await getOrganizationMember(organizationId, userId)
+    if (!current) {
+      return { success: false, error: 'Member not found' }
+    }
+
+    if (
+      current.role === 'owner' &&
+      update.role !== undefined &&
+      update.role !== 'owner'
+    ) {
+      const owners = await countOwners(organizationId)
+      if (owners === null) {
+        return { success: false, error: 'Failed to update member' }
+      }
+      if (owners <= 1) {
+        return {
+          success: false,
+          error: 'An organization must have at least one owner'
+        }
+      }
+    }
+
+    const changes: Record<string, unknown> = {}
+    if (update.role !== undefined) {
+      changes.role = update.role
+    }
+    if (update.spendingLimit !== undefined) {
+      changes.monthly_spending_limit = update.spendingLimit
+    }
+
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('organization_members')
+      .update(changes)
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Failed to update organization member:', error)
+      return { success: false, error: 'Failed to update member' }
+    }
+
+    return { success: true, member: mapMemberRow(data) }
+  } catch (error) {
+    console.error('Error updating organization member:', error)
+    return { success: false, error: 'Failed to update member' }
+  }
+}
+
+/**
+ * Remove a member from an organization
+ * The last owner cannot be removed
+ */
+export async function removeOrganizationMember(
+  organizationId: string,
+  userId: string
+): Promise<MemberChangeResult> {
+  try {
+    const current = await getOrganizationMember(organizationId, userId)
+    if (!current) {
+      return { success: false, error: 'Member not found' }
+    }
+
+    if (current.role === 'owner') {
+      const owners = await countOwners(organizationId)
+      if (owners === null) {
+        return { success: false, error: 'Failed to remove member' }
+      }
+      if (owners <= 1) {
+        return {
+          success: false,
+          error: 'An organization must have at least one owner'
+        }
+      }
+    }
+
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Failed to remove organization member:', error)
+      return { success: false, error: 'Failed to remove member' }
+    }
+
+    return { success: true, member: current }
+  } catch (error) {
+    console.error('Error removing organization member:', error)
+    return { success: false, error: 'Failed to remove member' }
+  }
+}
+
+/**
+ * Billed spend from an organization's wallet per member since `since`
+ */
+export async function getOrganizationMemberUsage(
+  organizationId: string,
+  since: Date
+): Promise<MemberUsage[] | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.rpc(
+      'get_organization_member_usage',
+      {
+        p_organization_id: organizationId,
+        p_since: since.toISOString()
+      }
+    )
+
+    if (error) {
+      console.error('Failed to fetch organization member usage:', error)
+      return null
+    }
+
+    return (data || []).map((row: any) => ({
+      userId: row.user_id,
+      totalCost: parseFloat(row.total_cost),
+      requestCount: Number(row.request_count)
+    }))
+  } catch (error) {
+    console.error('Error fetching organization member usage:', error)
+    return null
+  }
+}
+
+/**
+ * Resolve the wallet a user's usage is charged to
+ * @param workspaceId - Organization id from the workspace cookie, if any
+ * @returns The organization's wallet if the user is a member of it,
+ * otherwise the user's own balance
+ */
+export async function resolveBillingWallet(
+  userId: string,
+  workspaceId?: string | null
+): Promise<BillingWallet> {
+  const personal: BillingWallet = { ownerId: userId, ownerType: 'user' }
+
+  // Stale or hand-edited cookies fall back to the personal wallet
+  if (!workspaceId || !UUID_PATTERN.test(workspaceId)) {
+    return personal
+  }
+
+  const [member, organization] = await Promise.all([
+    getOrganizationMember(workspaceId, userId),
+    getOrganization(workspaceId)
+  ])
+
+  if (!member || !organization) {
+    return personal
+  }
+
+  return {
+    ownerId: organization.id,
+    ownerType: 'organization',
+    organizationId: organization.id,
+    organizationName: organization.name,
+    role: member.role,
+    spendingLimit: member.spendingLimit
+  }
+}
+
+/**
+ * Check a request against the member's cap on spend from an organization
+ * wallet. Personal wallets are checked with checkSpendingLimits instead.
+ * Requests are allowed if the member has no cap or the check fails
+ * @param requestCost - Estimated maximum billed cost of the request
+ */
+export async function checkMemberSpendingLimit(
+  userId: string,
+  wallet: BillingWallet,
+  requestCost: number = 0
+): Promise<SpendingLimitCheck> {
+  if (!wallet.organizationId || wallet.spendingLimit === undefined) {
+    return { allowed: true, warnings: [] }
+  }
+
+  const { monthStart } = getSpendingWindowStarts()
+  const usage = await getOrganizationMemberUsage(
+    wallet.organizationId,
+    monthStart
+  )
+  if (!usage) {
+    return { allowed: true, warnings: [] }
+  }
+
+  const monthlySpend = usage.find(u => u.userId === userId)?.totalCost ?? 0
+  return evaluateMemberSpendingLimit(
+    wallet.spendingLimit,
+    monthlySpend,
+    requestCost
+  )
+}
@@ -0,0 +1,502 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import {
+  CostCalculation,
+  MarkupRule,
+  MarkupType,
+  PricingPlan,
+  PricingPolicy
+} from './types'
+
+export const DEFAULT_PLAN_ID = 'free'
+
+// In-memory cache for pricing policies (TTL: 5 minutes)
+const policyCache = new Map<
+  string,
+  { data: PricingPolicy; timestamp: number }
+>()
+const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+function mapPlanRow(row: any): PricingPlan {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    minChargePerRequest: parseFloat(row.min_charge_per_request),
+    isDefault: row.is_default,
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+function mapMarkupRuleRow(row: any): MarkupRule {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    providerId: row.provider_id,
+    modelId: row.model_id,
+    markupType: row.markup_type,
+    markupValue: parseFloat(row.markup_value),
+    description: row.description ?? undefined,
+    isActive: row.is_active,
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+/**
+ * Passthrough policy: no markup, no minimum charge
+ */
+function passthroughPolicy(planId: string): PricingPolicy {
+  return { planId, rules: [], minChargePerRequest: 0 }
+}
+
+/**
+ * Get the pricing plan of a user, falling back to the default plan
+ */
+export async function getUserPlanId(userId: string): Promise<string> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('user_balances')
+      .select('plan_id')
+      .eq('user_id', userId)
+      .single()
+
+    if (data?.plan_id && !error) {
+      return data.plan_id
+    }
+  } catch (error) {
+    console.warn(`Failed to fetch pricing plan for user ${userId}:`, error)
+  }
+
+  return DEFAULT_PLAN_ID
+}
+
+/**
+ * Move a user to a pricing plan (e.g. when a subscription starts or ends)
+ */
+export async function setUserPlanId(
+  userId: string,
+  planId: string
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('user_balances')
+      .update({ plan_id: planId, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+
+    if (!error) {
+      return true
+    }
+
+    console.error('Failed to set pricing plan:', error)
+    return false
+  } catch (error) {
+    console.error('Error setting pricing plan:', error)
+    return false
+  }
+}
+
+/**
+ * Get the markup rules and minimum charge that apply to a plan
+ * Falls back to passthrough pricing if the policy cannot be loaded
+ */
+export async function getPricingPolicy(
+  planId: string = DEFAULT_PLAN_ID
+): Promise<PricingPolicy> {
+  // Check cache first
+  const cached = policyCache.get(planId)
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const [planResult, rulesResult] = await Promise.all([
+      supabase.from('pricing_plans').select('*').eq('id', planId).single(),
+      supabase
+        .from('pricing_markup_rules')
+        .select('*')
+        .eq('is_active', true)
+        .or(`plan_id.is.null,plan_id.eq.${planId}`)
+    ])
+
+    if (rulesResult.error) {
+      throw rulesResult.error
+    }
+
+    const policy: PricingPolicy = {
+      planId,
+      rules: (rulesResult.data || []).map(mapMarkupRuleRow),
+      minChargePerRequest: planResult.data
+        ? parseFloat(planResult.data.min_charge_per_request)
+        : 0
+    }
+
+    policyCache.set(planId, { data: policy, timestamp: Date.now() })
+    return policy
+  } catch (error) {
+    console.warn(`Failed to fetch pricing policy for plan ${planId}:`, error)
+    return passthroughPolicy(planId)
+  }
+}
+
+/**
+ * Pick the most specific markup rule for a call (model > provider > plan)
+ */
+export function selectMarkupRule(
+  policy: PricingPolicy,
+  providerId: string,
+  modelId: string
+): MarkupRule | null {
+  let best: MarkupRule | null = null
+  let bestScore = -1
+
+  for (const rule of policy.rules) {
+    if (!rule.isActive) continue
+    if (rule.planId !== null && rule.planId !== policy.planId) continue
+    if (rule.providerId !== null && rule.providerId !== providerId) continue
+    if (rule.modelId !== null && rule.modelId !== modelId) continue
+
+    const score =
+      (rule.modelId !== null ? 4 : 0) +
+      (rule.providerId !== null ? 2 : 0) +
+      (rule.planId !== null ? 1 : 0)
+
+    if (score > bestScore) {
+      best = rule
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+/**
+ * Apply a markup to a provider cost; the result is never negative
+ */
+export function applyMarkup(
+  providerCost: number,
+  markupType: MarkupType,
+  markupValue: number
+): number {
+  const billed =
+    markupType === 'percentage'
+      ? providerCost * (1 + markupValue / 100)
+      : providerCost + markupValue
+
+  return parseFloat(Math.max(billed, 0).toFixed(6))
+}
+
+/**
+ * Apply a markup rule, if any, to a provider cost
+ * A fixed markup is charged once per request (chat turn): pass the same set
+ * for every cost of the turn and only the first cost a fixed rule applies to
+ * is charged its markup
+ * @param chargedFixedRules - Fixed rules already charged in this turn
+ */
+export function applyMarkupRule(
+  providerCost: number,
+  rule: MarkupRule | null,
+  chargedFixedRules?: Set<MarkupRule>
+): number {
+  if (!rule) {
+    return providerCost
+  }
+
+  if (rule.markupType === 'fixed' && chargedFixedRules) {
+    if (chargedFixedRules.has(rule)) {
+      return providerCost
+    }
+    chargedFixedRules.add(rule)
+  }
+
+  return applyMarkup(providerCost, rule.markupType, rule.markupValue)
+}
+
+/**
+ * Bill a cost calculation under a pricing policy
+ * totalCost becomes the billed amount; providerCost keeps the raw cost
+ * @param chargedFixedRules - Fixed rules already charged in this turn; see
+ * applyMarkupRule
+ */
+export function applyPricingPolicy(
+  cost: CostCalculation,
+  policy: PricingPolicy,
+  chargedFixedRules?: Set<MarkupRule>
+): CostCalculation {
+  const rule = selectMarkupRule(policy, cost.providerId, cost.modelId)
+
+  return {
+    ...cost,
+    totalCost: applyMarkupRule(cost.providerCost, rule, chargedFixedRules),
+    planId: policy.planId
+  }
+}
+
+/**
+ * Estimate the billed amount of a request from its provider cost
+ * Used to size balance holds before the request runs
+ */
+export function estimateBilledAmount(
+  providerCost: number,
+  policy: PricingPolicy,
+  providerId: string,
+  modelId: string
+): number {
+  const billed = applyMarkupRule(
+    providerCost,
+    selectMarkupRule(policy, providerId, modelId)
+  )
+
+  return Math.max(billed, policy.minChargePerRequest)
+}
+
+/**
+ * Get all pricing plans (admin function)
+ */
+export async function getAllPricingPlans(): Promise<PricingPlan[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('pricing_plans')
+      .select('*')
+      .order('created_at')
+
+    if (data && !error) {
+      return data.map(mapPlanRow)
+    }
+
+    console.error('Failed to fetch pricing plans:', error)
+  } catch (error) {
+    console.error('Error fetching pricing plans:', error)
+  }
+
+  return []
+}
+
+/**
+ * Update the minimum charge per request of a plan (admin function)
+ */
+export async function updatePricingPlan(
+  planId: string,
+  minChargePerRequest: number
+): Promise<boolean> {
+  if (!Number.isFinite(minChargePerRequest) || minChargePerRequest < 0) {
+    console.error('Minimum charge must be a non-negative number')
+    return false
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('pricing_plans')
+      .update({
+        min_charge_per_request: minChargePerRequest,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', planId)
+
+    if (!error) {
+      policyCache.delete(planId)
+      return true
+    }
+
+    console.error('Failed to update pricing plan:', error)
+    return false
+  } catch (error) {
+    console.error('Error updating pricing plan:', error)
+    return false
+  }
+}
+
+/**
+ * Get all markup rules, including inactive ones (admin function)
+ */
+export async function getAllMarkupRules(): Promise<MarkupRule[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('pricing_markup_rules')
+      .select('*')
+      .order('created_at')
+
+    if (data && !error) {
+      return data.map(mapMarkupRuleRow)
+    }
+
+    console.error('Failed to fetch markup rules:', error)
+  } catch (error) {
+    console.error('Error fetching markup rules:', error)
+  }
+
+  return []
+}
+
+/**
+ * Validate a markup rule before saving it
+ * @returns Error message, or null if the rule is valid
+ */
+export function validateMarkupRule(rule: MarkupRule): string | null {
+  if (rule.markupType !== 'percentage' && rule.markupType !== 'fixed') {
+    return 'Markup type must be percentage or fixed'
+  }
+
+  if (!Number.isFinite(rule.markupValue)) {
+    return 'Markup value must be a number'
+  }
+
+  if (rule.markupType === 'percentage' && rule.markupValue < -100) {
+    return 'Percentage markup cannot be below -100%'
+  }
+
+  if (rule.markupType === 'fixed' && rule.markupValue < 0) {
+    return 'Fixed markup cannot be negative'
+  }
+
+  if (rule.modelId && !rule.providerId) {
+    return 'A model-specific markup needs a provider'
+  }
+
+  return null
+}
+
+/**
+ * Create or update a markup rule (admin function)
+ */
+export async function upsertMarkupRule(rule: MarkupRule): Promise<boolean> {
+  const validationError = validateMarkupRule(rule)
+  if (validationError) {
+    console.error(`Invalid markup rule: ${validationError}`)
+    return false
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const row = {
+      plan_id: rule.planId,
+      provider_id: rule.providerId,
+      model_id: rule.modelId,
+      markup_type: rule.markupType,
+      markup_value: rule.markupValue,
+      description: rule.description ?? null,
+      is_active: rule.isActive,
+      updated_at: new Date().toISOString()
+    }
+
+    const { error } = rule.id
+      ? await supabase
+          .from('pricing_markup_rules')
+          .update(row)
+          .eq('id', rule.id)
+      : await supabase.from('pricing_markup_rules').insert(row)
+
+    if (!error) {
+      clearPricingPolicyCache()
+      return true
+    }
+
+    console.error('Failed to save markup rule:', error)
+    return false
+  } catch (error) {
+    console.error('Error saving markup rule:', error)
+    return false
+  }
+}
+
+/**
+ * Delete a markup rule (admin function)
+ */
+export async function deleteMarkupRule(ruleId: string): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('pricing_markup_rules')
+      .delete()
+      .eq('id', ruleId)
+
+    if (!error) {
+      clearPricingPolicyCache()
+      return true
+    }
+
+    console.error('Failed to delete markup rule:', error)
+    return false
+  } catch (error) {
+    console.error('Error deleting markup rule:', error)
+    return false
+  }
+}
+
+/**
+ * Provider cost, billed amount and margin of usage since a date
+ */
+export async function getMarginReport(since: Date): Promise<{
+  providerCost: number
+  billedAmount: number
+  margin: number
+  byProvider: Array<{
+    providerId: string
+    providerCost: number
+    billedAmount: number
+    margin: number
+  }>
+} | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('usage_records')
+      .select('provider_id, provider_cost, total_cost')
+      .eq('status', 'completed')
+      .gte('created_at', since.toISOString())
+
+    if (error) {
+      console.error('Failed to fetch margin report:', error)
+      return null
+    }
+
+    const byProvider = new Map<
+      string,
+      { providerCost: number; billedAmount: number }
+    >()
+
+    for (const row of data || []) {
+      const entry = byProvider.get(row.provider_id) || {
+        providerCost: 0,
+        billedAmount: 0
+      }
+      entry.providerCost += parseFloat(row.provider_cost)
+      entry.billedAmount += parseFloat(row.total_cost)
+      byProvider.set(row.provider_id, entry)
+    }
+
+    const providers = Array.from(byProvider.entries())
+      .map(([providerId, entry]) => ({
+        providerId,
+        providerCost: parseFloat(entry.providerCost.toFixed(6)),
+        billedAmount: parseFloat(entry.billedAmount.toFixed(6)),
+        margin: parseFloat((entry.billedAmount - entry.providerCost).toFixed(6))
+      }))
+      .sort((a, b) => b.billedAmount - a.billedAmount)
+
+    const providerCost = providers.reduce((sum, p) => sum + p.providerCost, 0)
+    const billedAmount = providers.reduce((sum, p) => sum + p.billedAmount, 0)
+
+    return {
+      providerCost: parseFloat(providerCost.toFixed(6)),
+      billedAmount: parseFloat(billedAmount.toFixed(6)),
+      margin: parseFloat((billedAmount - providerCost).toFixed(6)),
+      byProvider: providers
+    }
+  } catch (error) {
+    console.error('Error building margin report:', error)
+    return null
+  }
+}
+
+/**
+ * Clear the pricing policy cache (useful for testing or force refresh)
+ */
+export function clearPricingPolicyCache() {
+  policyCache.clear()
+}
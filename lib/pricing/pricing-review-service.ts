@@ -0,0 +1,397 @@
+/**
+ * Pricing Review Service
+ *
+ * Approval queue for pricing changes the sync does not apply on its own:
+ * new models and changes that need review (large jumps, validation
+ * warnings). Admins approve, edit or reject each pending change on
+ * /admin/pricing; approved prices are applied with updateModelPricing, with
+ * the approver recorded in model_pricing_history.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import type { AdminActor } from './admin-billing-service'
+import type { PricingChangeDetection } from './change-detector'
+import { updateModelPricing } from './pricing-service'
+import { validatePricing } from './pricing-validator'
+import { ModelPricing } from './types'
+
+export type PendingPricingChangeStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'superseded'
+
+export interface PendingPricingChange {
+  id: string
+  modelId: string
+  providerId: string
+  changeType: 'new' | 'updated'
+  oldPricing?: ModelPricing
+  newPricing: ModelPricing
+  changePercent?: {
+    input: number
+    output: number
+  }
+  errors: string[]
+  warnings: string[]
+  source: string
+  status: PendingPricingChangeStatus
+  appliedPricing?: ModelPricing
+  reviewedBy?: string
+  reviewNote?: string
+  reviewedAt?: Date
+  createdAt: Date
+}
+
+/**
+ * Prices an admin can change before approving
+ */
+export type PricingEdits = Partial<
+  Pick<
+    ModelPricing,
+    | 'inputPricePer1kTokens'
+    | 'outputPricePer1kTokens'
+    | 'cachedInputPricePer1kTokens'
+    | 'cacheWritePricePer1kTokens'
+    | 'reasoningPricePer1kTokens'
+    | 'imageInputPricePer1kTokens'
+  >
+>
+
+export interface PricingReviewResult {
+  success: boolean
+  change?: PendingPricingChange
+  error?: string
+}
+
+export const PRICING_REVIEW_SOURCE = 'pricing-review'
+
+function mapPendingChangeRow(row: any): PendingPricingChange {
+  return {
+    id: row.id,
+    modelId: row.model_id,
+    providerId: row.provider_id,
+    changeType: row.change_type,
+    oldPricing: row.old_pricing ?? undefined,
+    newPricing: row.new_pricing,
+    changePercent:
+      row.change_percent_input === null ||
+      row.change_percent_input === undefined
+        ? undefined
+        : {
+            input: parseFloat(row.change_percent_input),
+            output: parseFloat(row.change_percent_output)
+          },
+    errors: row.validation_errors || [],
+    warnings: row.validation_warnings || [],
+    source: row.source,
+    status: row.status,
+    appliedPricing: row.applied_pricing ?? undefined,
+    reviewedBy: row.reviewed_by ?? undefined,
+    reviewNote: row.review_note ?? undefined,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
+/**
+ * Pricing to apply for a pending change, with the admin's edits
+ * @returns The pricing and its validation errors
+ */
+export function getReviewedPricing(
+  change: Pick<PendingPricingChange, 'newPricing'>,
+  edits: PricingEdits = {}
+): { pricing: ModelPricing; errors: string[] } {
+  const pricing: ModelPricing = { ...change.newPricing }
+
+  for (const [field, value] of Object.entries(edits) as [
+    keyof PricingEdits,
+    number | undefined
+  ][]) {
+    if (value !== undefined) {
+      pricing[field] = value
+    }
+  }
+
+  return { pricing, errors: validatePricing(pricing).errors }
+}
+
+/**
+ * Mark the pending changes of these models superseded
+ */
+async function supersedePending(
+  models: { modelId: string; providerId: string }[]
+): Promise<void> {
+  const supabase = createAdminClient()
+  const { data: pending, error } = await supabase
+    .from('pending_pricing_changes')
+    .select('id, model_id, provider_id')
+    .eq('status', 'pending')
+
+  if (error) {
+    throw new Error(`Failed to fetch pending pricing changes: ${error.message}`)
+  }
+
+  const keys = new Set(models.map(m => `${m.providerId}:${m.modelId}`))
+  const ids = (pending || [])
+    .filter(row => keys.has(`${row.provider_id}:${row.model_id}`))
+    .map(row => row.id)
+
+  if (ids.length === 0) {
+    return
+  }
+
+  const { error: updateError } = await supabase
+    .from('pending_pricing_changes')
+    .update({ status: 'superseded' })
+    .in('id', ids)
+    .eq('status', 'pending')
+
+  if (updateError) {
+    throw new Error(
+      `Failed to supersede pending pricing changes: ${updateError.message}`
+    )
+  }
+}
+
+/**
+ * Queue changes for review, replacing a model's earlier pending change
+ * Only new and updated models are queued
+ * @returns Number of changes queued
+ */
+export async function queuePricingChanges(
+  changes: PricingChangeDetection[],
+  source: string
+): Promise<number> {
+  const toQueue = changes.filter(
+    c => (c.changeType === 'new' || c.changeType === 'updated') && c.newPricing
+  )
+
+  if (toQueue.length === 0) {
+    return 0
+  }
+
+  try {
+    await supersedePending(toQueue)
+
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('pending_pricing_changes').insert(
+      toQueue.map(change => ({
+        model_id: change.modelId,
+        provider_id: change.providerId,
+        change_type: change.changeType,
+        old_pricing: change.oldPricing ?? null,
+        new_pricing: change.newPricing,
+        change_percent_input: change.changePercent?.input ?? null,
+        change_percent_output: change.changePercent?.output ?? null,
+        validation_errors: change.validation?.errors ?? [],
+        validation_warnings: change.validation?.warnings ?? [],
+        source
+      }))
+    )
+
+    if (error) {
+      console.error('Failed to queue pricing changes:', error)
+      return 0
+    }
+
+    return toQueue.length
+  } catch (error) {
+    console.error('Error queueing pricing changes:', error)
+    return 0
+  }
+}
+
+/**
+ * Drop pending changes of models a sync found unchanged or applied itself
+ */
+export async function resolvePendingPricingChanges(
+  changes: PricingChangeDetection[]
+): Promise<void> {
+  try {
+    await supersedePending(changes)
+  } catch (error) {
+    console.error('Error resolving pending pricing changes:', error)
+  }
+}
+
+/**
+ * Queued changes, newest first
+ */
+export async function getPendingPricingChanges(
+  status: PendingPricingChangeStatus = 'pending',
+  limit: number = 100
+): Promise<PendingPricingChange[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('pending_pricing_changes')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Failed to fetch pending pricing changes:', error)
+      return []
+    }
+
+    return (data || []).map(mapPendingChangeRow)
+  } catch (error) {
+    console.error('Error fetching pending pricing changes:', error)
+    return []
+  }
+}
+
+async function getPendingPricingChange(
+  id: string
+): Promise<PendingPricingChange | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('pending_pricing_changes')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to fetch pending pricing change:', error)
+    return null
+  }
+
+  return data ? mapPendingChangeRow(data) : null
+}
+
+/**
+ * Apply a pending change, with the admin's edits if any
+ * The change is claimed before the pricing is updated so it is applied
+ * once; it is returned to the queue if the update fails
+ */
+export async function approvePricingChange(
+  actor: AdminActor,
+  id: string,
+  edits: PricingEdits = {},
+  note?: string
+): Promise<PricingReviewResult> {
+  try {
+    const change = await getPendingPricingChange(id)
+
+    if (!change || change.status !== 'pending') {
+      return { success: false, error: 'Change is not pending' }
+    }
+
+    const { pricing, errors } = getReviewedPricing(change, edits)
+
+    if (errors.length > 0) {
+      return { success: false, change, error: errors.join('; ') }
+    }
+
+    const supabase = createAdminClient()
+    const { data: claimed, error } = await supabase
+      .from('pending_pricing_changes')
+      .update({
+        status: 'approved',
+        applied_pricing: pricing,
+        reviewed_by: actor.email,
+        review_note: note ?? null,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to claim pending pricing change:', error)
+      return { success: false, error: 'Failed to update change' }
+    }
+
+    if (!claimed) {
+      return { success: false, error: 'Change is not pending' }
+    }
+
+    const edited = Object.values(edits).some(v => v !== undefined)
+    const updated = await updateModelPricing(
+      pricing.modelId,
+      pricing.providerId,
+      pricing.inputPricePer1kTokens,
+      pricing.outputPricePer1kTokens,
+      {
+        cachedInputPricePer1kTokens: pricing.cachedInputPricePer1kTokens,
+        cacheWritePricePer1kTokens: pricing.cacheWritePricePer1kTokens,
+        reasoningPricePer1kTokens: pricing.reasoningPricePer1kTokens,
+        imageInputPricePer1kTokens: pricing.imageInputPricePer1kTokens,
+        tiers: pricing.tiers
+      },
+      {
+        changedBy: `admin:${actor.email}`,
+        source: PRICING_REVIEW_SOURCE,
+        reason:
+          note || `Approved ${edited ? 'with edits ' : ''}from ${change.source}`
+      }
+    )
+
+    if (!updated) {
+      await supabase
+        .from('pending_pricing_changes')
+        .update({
+          status: 'pending',
+          applied_pricing: null,
+          reviewed_by: null,
+          review_note: null,
+          reviewed_at: null
+        })
+        .eq('id', id)
+
+      return { success: false, change, error: 'Failed to update pricing' }
+    }
+
+    console.log(
+      `Pricing change ${id} (${change.providerId}:${change.modelId}) approved by ${actor.email}`
+    )
+
+    return { success: true, change: mapPendingChangeRow(claimed) }
+  } catch (error) {
+    console.error('Error approving pricing change:', error)
+    return { success: false, error: 'Failed to approve change' }
+  }
+}
+
+/**
+ * Reject a pending change, leaving the current pricing as it is
+ */
+export async function rejectPricingChange(
+  actor: AdminActor,
+  id: string,
+  note?: string
+): Promise<PricingReviewResult> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('pending_pricing_changes')
+      .update({
+        status: 'rejected',
+        reviewed_by: actor.email,
+        review_note: note ?? null,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to reject pending pricing change:', error)
+      return { success: false, error: 'Failed to update change' }
+    }
+
+    if (!data) {
+      return { success: false, error: 'Change is not pending' }
+    }
+
+    return { success: true, change: mapPendingChangeRow(data) }
+  } catch (error) {
+    console.error('Error rejecting pricing change:', error)
+    return { success: false, error: 'Failed to reject change' }
+  }
+}
@@ -0,0 +1,414 @@
+/**
+ * Pricing Rollback Service
+ *
+ * Restores one model, one provider or the whole catalog to the prices it
+ * had at a chosen time, or just before a sync run, using
+ * model_pricing_history. Rollbacks are previewed with PricingChangeDetector
+ * before they are applied; each restored model gets a new history entry
+ * with change_source 'pricing-rollback'.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import type { AdminActor } from './admin-billing-service'
+import { ChangeDetectionResult, PricingChangeDetector } from './change-detector'
+import {
+  mapModelPricingRow,
+  parsePricingTiers,
+  updateModelPricing
+} from './pricing-service'
+import { ModelPricing } from './types'
+
+/**
+ * Models to restore: one model (providerId and modelId), one provider
+ * (providerId) or every model (neither)
+ */
+export interface PricingRollbackScope {
+  providerId?: string
+  modelId?: string
+}
+
+type HistoryPrices = Partial<
+  Pick<
+    ModelPricing,
+    | 'inputPricePer1kTokens'
+    | 'outputPricePer1kTokens'
+    | 'cachedInputPricePer1kTokens'
+    | 'cacheWritePricePer1kTokens'
+    | 'reasoningPricePer1kTokens'
+    | 'imageInputPricePer1kTokens'
+    | 'tiers'
+  >
+>
+
+export interface PricingHistoryEntry {
+  id: string
+  modelId: string
+  providerId: string
+  oldPrices?: HistoryPrices // Undefined for a model's first entry
+  newPrices: HistoryPrices
+  changeSource?: string
+  createdAt: Date
+  syncStartedAt?: Date // Set for changes applied by a sync run
+}
+
+export interface PricingSyncRun {
+  startedAt: Date
+  changes: number
+}
+
+export interface PricingRollbackPreview {
+  at: Date
+  scope: PricingRollbackScope
+  changes: ChangeDetectionResult
+  addedLater: string[] // providerId:modelId of models first priced after `at`
+}
+
+export interface PricingRollbackResult {
+  success: boolean
+  restored: number
+  failed: number
+  preview?: PricingRollbackPreview
+  error?: string
+}
+
+export const PRICING_ROLLBACK_SOURCE = 'pricing-rollback'
+
+// History entries fetched per page, and the most fetched in total
+const HISTORY_PAGE_SIZE = 1000
+const HISTORY_MAX_ENTRIES = 50000
+
+const PRICE_FIELDS = [
+  'cachedInputPricePer1kTokens',
+  'cacheWritePricePer1kTokens',
+  'reasoningPricePer1kTokens',
+  'imageInputPricePer1kTokens',
+  'tiers'
+] as const
+
+// Optional prices that keep their current value when history lacks them
+type RestorableField = (typeof PRICE_FIELDS)[number]
+type RestorablePrices = Pick<ModelPricing, RestorableField>
+
+// Keys of the history trigger's token_class_prices metadata
+const TOKEN_CLASS_KEYS = [
+  ['cached_input', 'cachedInputPricePer1kTokens'],
+  ['cache_write', 'cacheWritePricePer1kTokens'],
+  ['reasoning', 'reasoningPricePer1kTokens'],
+  ['image_input', 'imageInputPricePer1kTokens']
+] as const
+
+function keepPrice<K extends RestorableField>(
+  target: RestorablePrices,
+  source: RestorablePrices,
+  field: K
+): void {
+  if (source[field] !== undefined) {
+    target[field] = source[field]
+  }
+}
+
+function parseOptionalPrice(value: any): number | undefined {
+  return value === null || value === undefined ? undefined : parseFloat(value)
+}
+
+/**
+ * One side of a history entry. Token-class prices and tiers are only set
+ * when the entry recorded them (entries from before they existed did not).
+ */
+function historyPrices(
+  row: any,
+  side: 'old' | 'new'
+): HistoryPrices | undefined {
+  const input = row[`${side}_input_price`]
+  if (input === null || input === undefined) {
+    return undefined
+  }
+
+  const prices: HistoryPrices = {
+    inputPricePer1kTokens: parseFloat(input),
+    outputPricePer1kTokens: parseFloat(row[`${side}_output_price`])
+  }
+
+  const tokenClass = row.metadata?.token_class_prices?.[side] ?? {}
+  for (const [key, field] of TOKEN_CLASS_KEYS) {
+    if (key in tokenClass) {
+      prices[field] = parseOptionalPrice(tokenClass[key])
+    }
+  }
+
+  const tiers = row.metadata?.pricing_tiers
+  if (tiers && side in tiers) {
+    prices.tiers = parsePricingTiers(tiers[side])
+  }
+
+  return prices
+}
+
+export function mapPricingHistoryRow(row: any): PricingHistoryEntry {
+  const syncStartedAt = row.metadata?.sync_started_at
+
+  return {
+    id: row.id,
+    modelId: row.model_id,
+    providerId: row.provider_id,
+    oldPrices: historyPrices(row, 'old'),
+    newPrices: historyPrices(row, 'new')!,
+    changeSource: row.change_source ?? undefined,
+    createdAt: new Date(row.created_at),
+    syncStartedAt: syncStartedAt ? new Date(syncStartedAt) : undefined
+  }
+}
+
+/**
+ * Time to restore to for a sync run: just before it started
+ */
+export function getSyncRunRollbackTime(startedAt: Date): Date {
+  return new Date(startedAt.getTime() - 1)
+}
+
+/**
+ * Pricing of each model at a time, rebuilt from its history: the prices
+ * set by its last change at or before `at`, or the old prices of its first
+ * change after it. Prices a history entry did not record keep their
+ * current value. Models first priced after `at` are listed in `addedLater`.
+ */
+export function getPricingSnapshot(
+  history: PricingHistoryEntry[],
+  current: ModelPricing[],
+  at: Date
+): { pricing: ModelPricing[]; addedLater: string[] } {
+  const byModel = new Map<string, PricingHistoryEntry[]>()
+  for (const entry of history) {
+    const key = `${entry.providerId}:${entry.modelId}`
+    byModel.set(key, [...(byModel.get(key) || []), entry])
+  }
+
+  const currentByModel = new Map(
+    current.map(p => [`${p.providerId}:${p.modelId}`, p])
+  )
+  const pricing: ModelPricing[] = []
+  const addedLater: string[] = []
+
+  for (const [key, entries] of byModel) {
+    const sorted = [...entries].sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    )
+    const before = sorted.filter(e => e.createdAt <= at).pop()
+    const prices = before
+      ? before.newPrices
+      : sorted.find(e => e.createdAt > at)?.oldPrices
+
+    if (!prices) {
+      addedLater.push(key)
+      continue
+    }
+
+    const base = currentByModel.get(key)
+    const kept: RestorablePrices = {}
+    if (base) {
+      for (const field of PRICE_FIELDS) {
+        keepPrice(kept, base, field)
+      }
+    }
+
+    pricing.push({
+      modelId: sorted[0].modelId,
+      providerId: sorted[0].providerId,
+      ...kept,
+      ...prices
+    } as ModelPricing)
+  }
+
+  return { pricing, addedLater }
+}
+
+/**
+ * Group the history entries of sync runs, most recent run first
+ */
+export function groupPricingSyncRuns(
+  history: PricingHistoryEntry[]
+): PricingSyncRun[] {
+  const runs = new Map<number, PricingSyncRun>()
+
+  for (const entry of history) {
+    if (!entry.syncStartedAt) continue
+
+    const key = entry.syncStartedAt.getTime()
+    const run = runs.get(key) ?? { startedAt: entry.syncStartedAt, changes: 0 }
+    run.changes++
+    runs.set(key, run)
+  }
+
+  return [...runs.values()].sort(
+    (a, b) => b.startedAt.getTime() - a.startedAt.getTime()
+  )
+}
+
+/**
+ * Recent sync runs that changed pricing
+ */
+export async function getPricingSyncRuns(
+  limit: number = 20
+): Promise<PricingSyncRun[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('model_pricing_history')
+      .select('*')
+      .eq('change_source', 'auto-sync')
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_PAGE_SIZE)
+
+    if (error) {
+      console.error('Failed to fetch pricing sync runs:', error)
+      return []
+    }
+
+    return groupPricingSyncRuns((data || []).map(mapPricingHistoryRow)).slice(
+      0,
+      limit
+    )
+  } catch (error) {
+    console.error('Error fetching pricing sync runs:', error)
+    return []
+  }
+}
+
+/**
+ * History entries and current pricing of the models in scope
+ */
+async function fetchScope(scope: PricingRollbackScope): Promise<{
+  history: PricingHistoryEntry[]
+  current: ModelPricing[]
+}> {
+  const supabase = createAdminClient()
+  const history: PricingHistoryEntry[] = []
+
+  while (history.length < HISTORY_MAX_ENTRIES) {
+    let query = supabase.from('model_pricing_history').select('*')
+    if (scope.providerId) query = query.eq('provider_id', scope.providerId)
+    if (scope.modelId) query = query.eq('model_id', scope.modelId)
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(history.length, history.length + HISTORY_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch pricing history: ${error.message}`)
+    }
+
+    history.push(...(data || []).map(mapPricingHistoryRow))
+
+    if (!data || data.length < HISTORY_PAGE_SIZE) {
+      break
+    }
+  }
+
+  let currentQuery = supabase.from('model_pricing').select('*')
+  if (scope.providerId) {
+    currentQuery = currentQuery.eq('provider_id', scope.providerId)
+  }
+  if (scope.modelId) currentQuery = currentQuery.eq('model_id', scope.modelId)
+
+  const { data: current, error } = await currentQuery
+
+  if (error) {
+    throw new Error(`Failed to fetch model pricing: ${error.message}`)
+  }
+
+  return { history, current: (current || []).map(mapModelPricingRow) }
+}
+
+/**
+ * Dry run of a rollback: how each model in scope would change
+ */
+export async function previewPricingRollback(
+  scope: PricingRollbackScope,
+  at: Date
+): Promise<PricingRollbackPreview> {
+  const { history, current } = await fetchScope(scope)
+  const { pricing, addedLater } = getPricingSnapshot(history, current, at)
+  const changes = await new PricingChangeDetector().detectChanges(pricing, {
+    includeRemoved: false
+  })
+
+  return { at, scope, changes, addedLater }
+}
+
+/**
+ * Restore the models in scope to their pricing at `at`
+ * Models first priced after `at` are left as they are
+ */
+export async function applyPricingRollback(
+  actor: AdminActor,
+  scope: PricingRollbackScope,
+  at: Date,
+  note?: string
+): Promise<PricingRollbackResult> {
+  try {
+    const preview = await previewPricingRollback(scope, at)
+    const result: PricingRollbackResult = {
+      success: true,
+      restored: 0,
+      failed: 0,
+      preview
+    }
+
+    for (const change of preview.changes.changes) {
+      if (
+        (change.changeType !== 'new' && change.changeType !== 'updated') ||
+        !change.newPricing
+      ) {
+        continue
+      }
+
+      const pricing = change.newPricing
+      const updated = await updateModelPricing(
+        pricing.modelId,
+        pricing.providerId,
+        pricing.inputPricePer1kTokens,
+        pricing.outputPricePer1kTokens,
+        {
+          cachedInputPricePer1kTokens: pricing.cachedInputPricePer1kTokens,
+          cacheWritePricePer1kTokens: pricing.cacheWritePricePer1kTokens,
+          reasoningPricePer1kTokens: pricing.reasoningPricePer1kTokens,
+          imageInputPricePer1kTokens: pricing.imageInputPricePer1kTokens,
+          tiers: pricing.tiers
+        },
+        {
+          changedBy: `admin:${actor.email}`,
+          source: PRICING_ROLLBACK_SOURCE,
+          reason: note || `Restored to ${at.toISOString()}`,
+          metadata: { rollback_to: at.toISOString() }
+        }
+      )
+
+      if (updated) {
+        result.restored++
+      } else {
+        result.failed++
+      }
+    }
+
+    if (result.failed > 0) {
+      result.success = false
+      result.error = `Failed to restore ${result.failed} models`
+    }
+
+    console.log(
+      `Pricing rollback to ${at.toISOString()} by ${actor.email}: ${result.restored} restored, ${result.failed} failed`
+    )
+
+    return result
+  } catch (error) {
+    console.error('Error applying pricing rollback:', error)
+    return {
+      success: false,
+      restored: 0,
+      failed: 0,
+      error: error instanceof Error ? error.message : 'Rollback failed'
+    }
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Pricing Schedule Service
+ *
+ * Future-dated model pricing. Every price a model has had or will have is a
+ * row of model_pricing_versions; getModelPricing resolves the version in
+ * effect when a request was made, so a scheduled price is billed from the
+ * moment it takes effect. The pricing-schedule cron copies versions that
+ * took effect (or whose temporary price expired) into model_pricing, which
+ * keeps the current price of each model for the admin and catalog views.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import type { AdminActor } from './admin-billing-service'
+import {
+  clearPricingCache,
+  mapModelPricingRow,
+  mapPricingVersionRow,
+  PricingChangeAudit,
+  selectPricingVersion,
+  serializePricingTiers,
+  updateModelPricing
+} from './pricing-service'
+import { validatePricing } from './pricing-validator'
+import { ModelPricing } from './types'
+
+export interface PricingVersion extends ModelPricing {
+  pricingVersionId: string
+  effectiveFrom: Date
+  source: string
+  createdBy?: string
+  note?: string
+}
+
+export interface ScheduledPricingResult {
+  success: boolean
+  version?: PricingVersion
+  error?: string
+}
+
+export interface PricingScheduleRunResult {
+  checked: number
+  applied: number
+  failed: number
+  errors: string[]
+}
+
+export const PRICING_SCHEDULE_SOURCE = 'pricing-schedule'
+
+function mapVersionRow(row: any): PricingVersion {
+  return {
+    ...mapPricingVersionRow(row),
+    pricingVersionId: row.id,
+    effectiveFrom: new Date(row.effective_from),
+    source: row.source,
+    createdBy: row.created_by ?? undefined,
+    note: row.note ?? undefined
+  }
+}
+
+/**
+ * Validate a price to schedule
+ * @returns Validation errors; empty when the price can be scheduled
+ */
+export function validateScheduledPricing(
+  pricing: ModelPricing,
+  effectiveFrom: Date,
+  effectiveUntil?: Date,
+  now: Date = new Date()
+): string[] {
+  const errors = [...validatePricing(pricing).errors]
+
+  if (isNaN(effectiveFrom.getTime())) {
+    errors.push('Effective date is invalid')
+  } else if (effectiveFrom <= now) {
+    errors.push('Effective date must be in the future')
+  }
+
+  if (effectiveUntil) {
+    if (isNaN(effectiveUntil.getTime())) {
+      errors.push('Expiry date is invalid')
+    } else if (effectiveUntil <= effectiveFrom) {
+      errors.push('Expiry date must be after the effective date')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Whether a model's current pricing differs from a version's prices
+ */
+function differsFromVersion(
+  current: ModelPricing | undefined,
+  version: ModelPricing
+): boolean {
+  if (!current) {
+    return true
+  }
+
+  return (
+    current.inputPricePer1kTokens !== version.inputPricePer1kTokens ||
+    current.outputPricePer1kTokens !== version.outputPricePer1kTokens ||
+    current.cachedInputPricePer1kTokens !==
+      version.cachedInputPricePer1kTokens ||
+    current.cacheWritePricePer1kTokens !== version.cacheWritePricePer1kTokens ||
+    current.reasoningPricePer1kTokens !== version.reasoningPricePer1kTokens ||
+    current.imageInputPricePer1kTokens !== version.imageInputPricePer1kTokens ||
+    JSON.stringify(current.tiers ?? null) !==
+      JSON.stringify(version.tiers ?? null)
+  )
+}
+
+/**
+ * Schedule a price to take effect at a future time
+ * A price scheduled for the same model and time is replaced. With
+ * `effectiveUntil`, the price is temporary and the version before it
+ * applies again once it expires.
+ */
+export async function schedulePricingVersion(
+  pricing: ModelPricing,
+  effectiveFrom: Date,
+  effectiveUntil: Date | undefined,
+  audit: PricingChangeAudit
+): Promise<ScheduledPricingResult> {
+  const errors = validateScheduledPricing(
+    pricing,
+    effectiveFrom,
+    effectiveUntil
+  )
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('; ') }
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('model_pricing_versions')
+      .upsert(
+        {
+          model_id: pricing.modelId,
+          provider_id: pricing.providerId,
+          input_price_per_1k_tokens: pricing.inputPricePer1kTokens,
+          output_price_per_1k_tokens: pricing.outputPricePer1kTokens,
+          cached_input_price_per_1k_tokens:
+            pricing.cachedInputPricePer1kTokens ?? null,
+          cache_write_price_per_1k_tokens:
+            pricing.cacheWritePricePer1kTokens ?? null,
+          reasoning_price_per_1k_tokens:
+            pricing.reasoningPricePer1kTokens ?? null,
+          image_input_price_per_1k_tokens:
+            pricing.imageInputPricePer1kTokens ?? null,
+          pricing_tiers: serializePricingTiers(pricing.tiers),
+          effective_from: effectiveFrom.toISOString(),
+          effective_until: effectiveUntil?.toISOString() ?? null,
+          source: audit.source,
+          created_by: audit.changedBy,
+          note: audit.reason ?? null
+        },
+        { onConflict: 'model_id,provider_id,effective_from' }
+      )
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Failed to schedule pricing:', error)
+      return { success: false, error: 'Failed to schedule pricing' }
+    }
+
+    // Cached versions would miss the new one
+    clearPricingCache()
+
+    return { success: true, version: mapVersionRow(data) }
+  } catch (error) {
+    console.error('Error scheduling pricing:', error)
+    return { success: false, error: 'Failed to schedule pricing' }
+  }
+}
+
+/**
+ * Prices scheduled to take effect in the future, soonest first
+ */
+export async function getScheduledPricing(
+  limit: number = 100
+): Promise<PricingVersion[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('model_pricing_versions')
+      .select('*')
+      .gt('effective_from', new Date().toISOString())
+      .order('effective_from', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Failed to fetch scheduled pricing:', error)
+      return []
+    }
+
+    return (data || []).map(mapVersionRow)
+  } catch (error) {
+    console.error('Error fetching scheduled pricing:', error)
+    return []
+  }
+}
+
+/**
+ * Cancel a scheduled price that has not taken effect yet
+ * Versions already in effect are kept; usage records refer to them
+ */
+export async function cancelScheduledPricing(
+  actor: AdminActor,
+  id: string
+): Promise<ScheduledPricingResult> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('model_pricing_versions')
+      .delete()
+      .eq('id', id)
+      .gt('effective_from', new Date().toISOString())
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to cancel scheduled pricing:', error)
+      return { success: false, error: 'Failed to cancel scheduled pricing' }
+    }
+
+    if (!data) {
+      return { success: false, error: 'Price is not scheduled' }
+    }
+
+    clearPricingCache()
+
+    const version = mapVersionRow(data)
+    console.log(
+      `Scheduled pricing ${id} (${version.providerId}:${version.modelId}) cancelled by ${actor.email}`
+    )
+
+    return { success: true, version }
+  } catch (error) {
+    console.error('Error cancelling scheduled pricing:', error)
+    return { success: false, error: 'Failed to cancel scheduled pricing' }
+  }
+}
+
+/**
+ * Copy the pricing version in effect now into model_pricing for every model
+ * whose current pricing differs from it, e.g. once a scheduled price took
+ * effect or a temporary price expired
+ */
+export async function applyDuePricingVersions(
+  now: Date = new Date()
+): Promise<PricingScheduleRunResult> {
+  const result: PricingScheduleRunResult = {
+    checked: 0,
+    applied: 0,
+    failed: 0,
+    errors: []
+  }
+
+  const supabase = createAdminClient()
+  const [versions, current] = await Promise.all([
+    supabase
+      .from('model_pricing_versions')
+      .select('*')
+      .lte('effective_from', now.toISOString()),
+    supabase.from('model_pricing').select('*')
+  ])
+
+  if (versions.error || current.error) {
+    throw new Error(
+      `Failed to fetch pricing: ${(versions.error ?? current.error)!.message}`
+    )
+  }
+
+  const byModel = new Map<string, PricingVersion[]>()
+  for (const version of (versions.data || []).map(mapVersionRow)) {
+    const key = `${version.providerId}:${version.modelId}`
+    byModel.set(key, [...(byModel.get(key) || []), version])
+  }
+
+  const currentByModel = new Map<string, ModelPricing>(
+    (current.data || []).map(row => [
+      `${row.provider_id}:${row.model_id}`,
+      mapModelPricingRow(row)
+    ])
+  )
+
+  for (const [key, modelVersions] of byModel) {
+    const inEffect = selectPricingVersion(modelVersions, now)
+    result.checked++
+
+    if (!inEffect || !differsFromVersion(currentByModel.get(key), inEffect)) {
+      continue
+    }
+
+    const updated = await updateModelPricing(
+      inEffect.modelId,
+      inEffect.providerId,
+      inEffect.inputPricePer1kTokens,
+      inEffect.outputPricePer1kTokens,
+      {
+        cachedInputPricePer1kTokens: inEffect.cachedInputPricePer1kTokens,
+        cacheWritePricePer1kTokens: inEffect.cacheWritePricePer1kTokens,
+        reasoningPricePer1kTokens: inEffect.reasoningPricePer1kTokens,
+        imageInputPricePer1kTokens: inEffect.imageInputPricePer1kTokens,
+        tiers: inEffect.tiers
+      },
+      {
+        changedBy: inEffect.createdBy ?? inEffect.source,
+        source: PRICING_SCHEDULE_SOURCE,
+        reason:
+          inEffect.note ??
+          `Scheduled price effective ${inEffect.effectiveFrom.toISOString()}`
+      }
+    )
+
+    if (updated) {
+      result.applied++
+    } else {
+      result.failed++
+      result.errors.push(`Failed to apply scheduled pricing for ${key}`)
+    }
+  }
+
+  return result
+}
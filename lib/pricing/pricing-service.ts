@@ -1,65 +1,223 @@
+import { createAdminClient } from '@/lib/supabase/admin'
 import { createClient } from '@/lib/supabase/server'
+import { ModelPricing as ConfigModelPricing } from '@/lib/types/models'
 
-import { ModelPricing } from './types'
+import { getLocalModelPricing, isLocalProvider } from './local-pricing'
+import {
+  CostCalculation,
+  ModelPricing,
+  PricingTier,
+  TokenUsageDetails
+} from './types'
 
 import modelsConfig from '@/public/config/models.json'
 
-// In-memory cache for pricing data (TTL: 5 minutes)
+// In-memory cache of each model's pricing versions and current pricing
+// (TTL: 5 minutes)
 const pricingCache = new Map<
   string,
-  { data: ModelPricing; timestamp: number }
+  { versions: ModelPricing[]; current: ModelPricing | null; timestamp: number }
 >()
 const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
 
+function parseOptionalPrice(value: any): number | undefined {
+  return value === null || value === undefined ? undefined : parseFloat(value)
+}
+
 /**
- * Get pricing for a specific model from database or config fallback
+ * Parse the pricing_tiers JSONB column into pricing tiers
  */
-export async function getModelPricing(
+export function parsePricingTiers(value: any): PricingTier[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined
+  }
+
+  return value.map(tier => ({
+    minTokens: Number(tier.min_tokens),
+    maxTokens:
+      tier.max_tokens === null || tier.max_tokens === undefined
+        ? undefined
+        : Number(tier.max_tokens),
+    inputPrice: Number(tier.input_price_per_1k_tokens),
+    outputPrice: Number(tier.output_price_per_1k_tokens)
+  }))
+}
+
+/**
+ * Serialize pricing tiers for the pricing_tiers JSONB column
+ */
+export function serializePricingTiers(tiers?: PricingTier[]) {
+  if (!tiers || tiers.length === 0) {
+    return null
+  }
+
+  return tiers.map(tier => ({
+    min_tokens: tier.minTokens,
+    max_tokens: tier.maxTokens ?? null,
+    input_price_per_1k_tokens: tier.inputPrice,
+    output_price_per_1k_tokens: tier.outputPrice
+  }))
+}
+
+export function mapModelPricingRow(row: any): ModelPricing {
+  return {
+    modelId: row.model_id,
+    providerId: row.provider_id,
+    inputPricePer1kTokens: parseFloat(row.input_price_per_1k_tokens),
+    outputPricePer1kTokens: parseFloat(row.output_price_per_1k_tokens),
+    cachedInputPricePer1kTokens: parseOptionalPrice(
+      row.cached_input_price_per_1k_tokens
+    ),
+    cacheWritePricePer1kTokens: parseOptionalPrice(
+      row.cache_write_price_per_1k_tokens
+    ),
+    reasoningPricePer1kTokens: parseOptionalPrice(
+      row.reasoning_price_per_1k_tokens
+    ),
+    imageInputPricePer1kTokens: parseOptionalPrice(
+      row.image_input_price_per_1k_tokens
+    ),
+    tiers: parsePricingTiers(row.pricing_tiers),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+/**
+ * Map a model_pricing_versions row
+ */
+export function mapPricingVersionRow(row: any): ModelPricing {
+  return {
+    ...mapModelPricingRow(row),
+    pricingVersionId: row.id,
+    effectiveFrom: new Date(row.effective_from),
+    effectiveUntil: row.effective_until
+      ? new Date(row.effective_until)
+      : undefined,
+    updatedAt: undefined
+  }
+}
+
+function mapConfigPricing(
   modelId: string,
-  providerId: string
-): Promise<ModelPricing | null> {
-  const cacheKey = `${providerId}:${modelId}`
+  providerId: string,
+  pricing: ConfigModelPricing
+): ModelPricing {
+  return {
+    modelId,
+    providerId,
+    inputPricePer1kTokens: pricing.inputPricePer1kTokens,
+    outputPricePer1kTokens: pricing.outputPricePer1kTokens,
+    cachedInputPricePer1kTokens: pricing.cachedInputPricePer1kTokens,
+    cacheWritePricePer1kTokens: pricing.cacheWritePricePer1kTokens,
+    reasoningPricePer1kTokens: pricing.reasoningPricePer1kTokens,
+    imageInputPricePer1kTokens: pricing.imageInputPricePer1kTokens,
+    tiers: pricing.tiers
+  }
+}
 
-  // Check cache first
-  const cached = pricingCache.get(cacheKey)
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return cached.data
+/**
+ * Pick the pricing version in effect at a time: the latest one that took
+ * effect at or before it and has not expired
+ * Returns null when no version applies
+ */
+export function selectPricingVersion<T extends ModelPricing>(
+  versions: T[],
+  at: Date
+): T | null {
+  let selected: T | null = null
+
+  for (const version of versions) {
+    if (!version.effectiveFrom || version.effectiveFrom > at) continue
+    if (version.effectiveUntil && version.effectiveUntil <= at) continue
+
+    if (!selected || version.effectiveFrom > selected.effectiveFrom!) {
+      selected = version
+    }
   }
 
+  return selected
+}
+
+/**
+ * Fetch a model's pricing versions and current pricing from the database
+ * Returns null when the database can't be read
+ */
+async function fetchModelPricing(modelId: string, providerId: string) {
   try {
-    // Try to fetch from database
     const supabase = await createClient()
-    const { data, error } = await supabase
-      .from('model_pricing')
-      .select('*')
-      .eq('model_id', modelId)
-      .eq('provider_id', providerId)
-      .single()
+    const [versions, current] = await Promise.all([
+      supabase
+        .from('model_pricing_versions')
+        .select('*')
+        .eq('model_id', modelId)
+        .eq('provider_id', providerId)
+        .order('effective_from', { ascending: false }),
+      supabase
+        .from('model_pricing')
+        .select('*')
+        .eq('model_id', modelId)
+        .eq('provider_id', providerId)
+        .maybeSingle()
+    ])
 
-    if (data && !error) {
-      const pricing: ModelPricing = {
-        modelId: data.model_id,
-        providerId: data.provider_id,
-        inputPricePer1kTokens: parseFloat(data.input_price_per_1k_tokens),
-        outputPricePer1kTokens: parseFloat(data.output_price_per_1k_tokens),
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      }
-
-      // Cache the result
-      pricingCache.set(cacheKey, { data: pricing, timestamp: Date.now() })
-
-      return pricing
+    if (versions.error || current.error) {
+      console.warn(
+        `Failed to fetch pricing from database for ${modelId}:`,
+        versions.error ?? current.error
+      )
+      return null
+    }
+
+    return {
+      versions: (versions.data || []).map(mapPricingVersionRow),
+      current: current.data ? mapModelPricingRow(current.data) : null,
+      timestamp: Date.now()
     }
   } catch (dbError) {
     console.warn(
       `Failed to fetch pricing from database for ${modelId}:`,
       dbError
     )
+    return null
+  }
+}
+
+/**
+ * Get pricing for a specific model from database or config fallback
+ * Returns the pricing version in effect at `at` (defaults to now); models
+ * without one use their current pricing.
+ */
+export async function getModelPricing(
+  modelId: string,
+  providerId: string,
+  at: Date = new Date()
+): Promise<ModelPricing | null> {
+  const cacheKey = `${providerId}:${modelId}`
+
+  // Check cache first
+  let cached = pricingCache.get(cacheKey)
+  if (!cached || Date.now() - cached.timestamp >= CACHE_TTL) {
+    const fetched = await fetchModelPricing(modelId, providerId)
+    if (fetched) {
+      pricingCache.set(cacheKey, fetched)
+    }
+    cached = fetched ?? undefined
   }
 
-  // Fallback to models.json
-  return getPricingFromConfig(modelId, providerId)
+  const pricing = cached
+    ? (selectPricingVersion(cached.versions, at) ?? cached.current)
+    : null
+  if (pricing) {
+    return pricing
+  }
+
+  // Fallback to models.json, then the local price of Ollama and
+  // OpenAI-compatible models that were never synced
+  return (
+    getPricingFromConfig(modelId, providerId) ??
+    getLocalModelPricing(modelId, providerId)
+  )
 }
 
 /**
@@ -74,28 +232,73 @@ function getPricingFromConfig(
   )
 
   if (!model?.pricing) {
-    console.warn(`No pricing found for model ${modelId} (${providerId})`)
+    if (!isLocalProvider(providerId)) {
+      console.warn(`No pricing found for model ${modelId} (${providerId})`)
+    }
     return null
   }
 
-  return {
-    modelId,
-    providerId,
-    inputPricePer1kTokens: model.pricing.inputPricePer1kTokens,
-    outputPricePer1kTokens: model.pricing.outputPricePer1kTokens
-  }
+  return mapConfigPricing(modelId, providerId, model.pricing)
+}
+
+/**
+ * Pick the pricing tier that applies to a prompt of the given size
+ * Returns null when the model has no tier covering it (base prices apply)
+ */
+export function selectPricingTier(
+  pricing: ModelPricing,
+  promptTokens: number
+): PricingTier | null {
+  return (
+    pricing.tiers?.find(
+      tier =>
+        promptTokens >= tier.minTokens &&
+        (tier.maxTokens === undefined || promptTokens <= tier.maxTokens)
+    ) ?? null
+  )
 }
 
 /**
  * Calculate cost for a given number of tokens
+ * inputTokens and outputTokens are totals; `details` splits off the cached,
+ * cache-write, image and reasoning tokens, which are billed at their own
+ * price when the model has one. The prompt size (inputTokens) selects the
+ * pricing tier, whose prices replace the base input/output price.
+ * The result is billed at passthrough; see applyPricingPolicy for markups.
  */
 export function calculateCost(
   inputTokens: number,
   outputTokens: number,
-  pricing: ModelPricing
-) {
-  const inputCost = (inputTokens / 1000) * pricing.inputPricePer1kTokens
-  const outputCost = (outputTokens / 1000) * pricing.outputPricePer1kTokens
+  pricing: ModelPricing,
+  details: TokenUsageDetails = {}
+): CostCalculation {
+  const tier = selectPricingTier(pricing, inputTokens)
+  const inputPrice = tier?.inputPrice ?? pricing.inputPricePer1kTokens
+  const outputPrice = tier?.outputPrice ?? pricing.outputPricePer1kTokens
+
+  const cachedInputTokens = details.cachedInputTokens ?? 0
+  const cacheWriteTokens = details.cacheWriteTokens ?? 0
+  const imageInputTokens = details.imageInputTokens ?? 0
+  const reasoningTokens = details.reasoningTokens ?? 0
+
+  const regularInputTokens = Math.max(
+    inputTokens - cachedInputTokens - cacheWriteTokens - imageInputTokens,
+    0
+  )
+  const regularOutputTokens = Math.max(outputTokens - reasoningTokens, 0)
+
+  const inputCost =
+    (regularInputTokens / 1000) * inputPrice +
+    (cachedInputTokens / 1000) *
+      (pricing.cachedInputPricePer1kTokens ?? inputPrice) +
+    (cacheWriteTokens / 1000) *
+      (pricing.cacheWritePricePer1kTokens ?? inputPrice) +
+    (imageInputTokens / 1000) *
+      (pricing.imageInputPricePer1kTokens ?? inputPrice)
+  const outputCost =
+    (regularOutputTokens / 1000) * outputPrice +
+    (reasoningTokens / 1000) *
+      (pricing.reasoningPricePer1kTokens ?? outputPrice)
   const totalCost = inputCost + outputCost
 
   return {
@@ -104,9 +307,15 @@ export function calculateCost(
     totalTokens: inputTokens + outputTokens,
     inputCost: parseFloat(inputCost.toFixed(6)),
     outputCost: parseFloat(outputCost.toFixed(6)),
+    providerCost: parseFloat(totalCost.toFixed(6)),
     totalCost: parseFloat(totalCost.toFixed(6)),
     modelId: pricing.modelId,
-    providerId: pricing.providerId
+    providerId: pricing.providerId,
+    pricingVersionId: pricing.pricingVersionId,
+    cachedInputTokens,
+    cacheWriteTokens,
+    reasoningTokens,
+    imageInputTokens
   }
 }
 
@@ -119,14 +328,7 @@ export async function getAllModelPricing(): Promise<ModelPricing[]> {
     const { data, error } = await supabase.from('model_pricing').select('*')
 
     if (data && !error) {
-      return data.map(row => ({
-        modelId: row.model_id,
-        providerId: row.provider_id,
-        inputPricePer1kTokens: parseFloat(row.input_price_per_1k_tokens),
-        outputPricePer1kTokens: parseFloat(row.output_price_per_1k_tokens),
-        createdAt: new Date(row.created_at),
-        updatedAt: new Date(row.updated_at)
-      }))
+      return data.map(mapModelPricingRow)
     }
   } catch (error) {
     console.warn('Failed to fetch all pricing from database:', error)
@@ -135,12 +337,17 @@ export async function getAllModelPricing(): Promise<ModelPricing[]> {
   // Fallback to config
   return modelsConfig.models
     .filter(m => m.pricing)
-    .map(m => ({
-      modelId: m.id,
-      providerId: m.providerId,
-      inputPricePer1kTokens: m.pricing!.inputPricePer1kTokens,
-      outputPricePer1kTokens: m.pricing!.outputPricePer1kTokens
-    }))
+    .map(m => mapConfigPricing(m.id, m.providerId, m.pricing!))
+}
+
+/**
+ * Who made a pricing update, recorded in model_pricing_history
+ */
+export interface PricingChangeAudit {
+  changedBy: string // e.g. 'admin:user@example.com'
+  source: string // e.g. 'pricing-review'
+  reason?: string
+  metadata?: Record<string, unknown> // Recorded in the history entry's metadata
 }
 
 /**
@@ -150,10 +357,19 @@ export async function updateModelPricing(
   modelId: string,
   providerId: string,
   inputPricePer1kTokens: number,
-  outputPricePer1kTokens: number
+  outputPricePer1kTokens: number,
+  extraPricing: Pick<
+    ModelPricing,
+    | 'cachedInputPricePer1kTokens'
+    | 'cacheWritePricePer1kTokens'
+    | 'reasoningPricePer1kTokens'
+    | 'imageInputPricePer1kTokens'
+    | 'tiers'
+  > = {},
+  audit?: PricingChangeAudit
 ): Promise<boolean> {
   try {
-    const supabase = await createClient()
+    const supabase = createAdminClient()
     const { error } = await supabase
       .from('model_pricing')
       .upsert(
@@ -162,7 +378,27 @@ export async function updateModelPricing(
           provider_id: providerId,
           input_price_per_1k_tokens: inputPricePer1kTokens,
           output_price_per_1k_tokens: outputPricePer1kTokens,
-          updated_at: new Date().toISOString()
+          cached_input_price_per_1k_tokens:
+            extraPricing.cachedInputPricePer1kTokens ?? null,
+          cache_write_price_per_1k_tokens:
+            extraPricing.cacheWritePricePer1kTokens ?? null,
+          reasoning_price_per_1k_tokens:
+            extraPricing.reasoningPricePer1kTokens ?? null,
+          image_input_price_per_1k_tokens:
+            extraPricing.imageInputPricePer1kTokens ?? null,
+          pricing_tiers: serializePricingTiers(extraPricing.tiers),
+          updated_at: new Date().toISOString(),
+          // Read by the pricing history trigger
+          ...(audit && {
+            is_active: true,
+            last_verified_at: new Date().toISOString(),
+            verified_source: audit.source,
+            verification_metadata: {
+              ...audit.metadata,
+              changed_by: audit.changedBy,
+              change_reason: audit.reason ?? null
+            }
+          })
         },
         {
           onConflict: 'model_id,provider_id'
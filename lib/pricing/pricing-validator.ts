@@ -5,7 +5,8 @@
  * Prevents common issues like $0 pricing, huge changes, invalid formats
  */
 
-import { ModelPricing } from './types'
+import { isLocalProvider } from './local-pricing'
+import { ModelPricing, PricingTier } from './types'
 
 export interface ValidationResult {
   valid: boolean
@@ -20,9 +21,17 @@ export interface PricingChange {
   oldOutputPrice?: number
   newInputPrice: number
   newOutputPrice: number
+  newTiers?: PricingTier[]
   source?: string
 }
 
+const TOKEN_CLASS_PRICE_LABELS = [
+  ['cachedInputPricePer1kTokens', 'Cached input'],
+  ['cacheWritePricePer1kTokens', 'Cache write'],
+  ['reasoningPricePer1kTokens', 'Reasoning'],
+  ['imageInputPricePer1kTokens', 'Image input']
+] as const
+
 /**
  * Validate a single pricing entry
  */
@@ -39,19 +48,51 @@ export function validatePricing(pricing: ModelPricing): ValidationResult {
     errors.push('Provider ID is required')
   }
 
-  // Check for zero or negative pricing
-  if (pricing.inputPricePer1kTokens <= 0) {
+  // Check for prices that are not numbers (e.g. unparseable catalog values)
+  if (!Number.isFinite(pricing.inputPricePer1kTokens)) {
     errors.push(
-      `Input price must be > 0, got ${pricing.inputPricePer1kTokens}`
+      `Input price must be a number, got ${pricing.inputPricePer1kTokens}`
     )
   }
 
-  if (pricing.outputPricePer1kTokens <= 0) {
+  if (!Number.isFinite(pricing.outputPricePer1kTokens)) {
     errors.push(
-      `Output price must be > 0, got ${pricing.outputPricePer1kTokens}`
+      `Output price must be a number, got ${pricing.outputPricePer1kTokens}`
     )
   }
 
+  for (const [field, label] of TOKEN_CLASS_PRICE_LABELS) {
+    const price = pricing[field]
+    if (price !== undefined && !(Number.isFinite(price) && price >= 0)) {
+      errors.push(`${label} price must be a non-negative number, got ${price}`)
+    }
+  }
+
+  // Check for zero or negative pricing
+  // Local models (Ollama, OpenAI-compatible) are free unless configured
+  const local = isLocalProvider(pricing.providerId)
+
+  if (local) {
+    if (
+      pricing.inputPricePer1kTokens < 0 ||
+      pricing.outputPricePer1kTokens < 0
+    ) {
+      errors.push('Local model prices cannot be negative')
+    }
+  } else {
+    if (pricing.inputPricePer1kTokens <= 0) {
+      errors.push(
+        `Input price must be > 0, got ${pricing.inputPricePer1kTokens}`
+      )
+    }
+
+    if (pricing.outputPricePer1kTokens <= 0) {
+      errors.push(
+        `Output price must be > 0, got ${pricing.outputPricePer1kTokens}`
+      )
+    }
+  }
+
   // Check for unreasonably high pricing (likely error)
   const MAX_PRICE_PER_1K = 100 // $100 per 1k tokens is absurdly high
   if (pricing.inputPricePer1kTokens > MAX_PRICE_PER_1K) {
@@ -68,13 +109,13 @@ export function validatePricing(pricing: ModelPricing): ValidationResult {
 
   // Check for unreasonably low pricing (likely parsing error)
   const MIN_PRICE_PER_1K = 0.00001 // $0.00001 per 1k tokens is suspiciously low
-  if (pricing.inputPricePer1kTokens < MIN_PRICE_PER_1K) {
+  if (!local && pricing.inputPricePer1kTokens < MIN_PRICE_PER_1K) {
     warnings.push(
       `Input price very low: $${pricing.inputPricePer1kTokens} < $${MIN_PRICE_PER_1K}`
     )
   }
 
-  if (pricing.outputPricePer1kTokens < MIN_PRICE_PER_1K) {
+  if (!local && pricing.outputPricePer1kTokens < MIN_PRICE_PER_1K) {
     warnings.push(
       `Output price very low: $${pricing.outputPricePer1kTokens} < $${MIN_PRICE_PER_1K}`
     )
@@ -87,6 +128,72 @@ export function validatePricing(pricing: ModelPricing): ValidationResult {
     )
   }
 
+  if (pricing.tiers) {
+    const tierValidation = validatePricingTiers(pricing)
+    errors.push(...tierValidation.errors)
+    warnings.push(...tierValidation.warnings)
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  }
+}
+
+/**
+ * Validate the prompt-size tiers of a pricing entry
+ * Tiers must not overlap, so every prompt size maps to at most one tier
+ */
+export function validatePricingTiers(pricing: ModelPricing): ValidationResult {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const MAX_PRICE_PER_1K = 100
+
+  const tiers = [...(pricing.tiers || [])].sort(
+    (a, b) => a.minTokens - b.minTokens
+  )
+
+  tiers.forEach((tier, index) => {
+    const label = `Tier ${index + 1} (from ${tier.minTokens} tokens)`
+
+    if (!Number.isInteger(tier.minTokens) || tier.minTokens < 0) {
+      errors.push(`${label}: minTokens must be a non-negative integer`)
+    }
+
+    if (tier.maxTokens !== undefined && tier.maxTokens < tier.minTokens) {
+      errors.push(
+        `${label}: maxTokens (${tier.maxTokens}) < minTokens (${tier.minTokens})`
+      )
+    }
+
+    if (tier.inputPrice <= 0 || tier.inputPrice > MAX_PRICE_PER_1K) {
+      errors.push(`${label}: input price out of range, got ${tier.inputPrice}`)
+    }
+
+    if (tier.outputPrice <= 0 || tier.outputPrice > MAX_PRICE_PER_1K) {
+      errors.push(
+        `${label}: output price out of range, got ${tier.outputPrice}`
+      )
+    }
+
+    const previous = tiers[index - 1]
+    if (
+      previous &&
+      (previous.maxTokens === undefined || previous.maxTokens >= tier.minTokens)
+    ) {
+      errors.push(`${label}: overlaps the previous tier`)
+    }
+
+    // Long-context bands cost more; a cheaper band is likely a parsing error
+    if (
+      tier.inputPrice < pricing.inputPricePer1kTokens ||
+      tier.outputPrice < pricing.outputPricePer1kTokens
+    ) {
+      warnings.push(`${label}: priced below the base price - please verify`)
+    }
+  })
+
   return {
     valid: errors.length === 0,
     errors,
@@ -109,7 +216,8 @@ export function validatePricingChange(
     modelId: change.modelId,
     providerId: change.providerId,
     inputPricePer1kTokens: change.newInputPrice,
-    outputPricePer1kTokens: change.newOutputPrice
+    outputPricePer1kTokens: change.newOutputPrice,
+    tiers: change.newTiers
   }
 
   const baseValidation = validatePricing(newPricing)
@@ -117,7 +225,13 @@ export function validatePricingChange(
   warnings.push(...baseValidation.warnings)
 
   // If there's old pricing, check for anomalous changes
-  if (change.oldInputPrice !== undefined && change.oldOutputPrice !== undefined) {
+  // A change from free (local models) has no meaningful percentage
+  if (
+    change.oldInputPrice !== undefined &&
+    change.oldOutputPrice !== undefined &&
+    change.oldInputPrice > 0 &&
+    change.oldOutputPrice > 0
+  ) {
     // Calculate percentage changes
     const inputChangePercent =
       ((change.newInputPrice - change.oldInputPrice) / change.oldInputPrice) *
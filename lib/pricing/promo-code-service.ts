@@ -0,0 +1,218 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+
+export interface PromoCode {
+  id: string
+  code: string
+  amount: number
+  description?: string
+  maxRedemptions?: number // Undefined = unlimited
+  perUserLimit: number
+  redemptionCount: number
+  expiresAt?: Date // Undefined = never expires
+  isActive: boolean
+  createdBy?: string
+  createdAt?: Date
+}
+
+export interface PromoCodeInput {
+  code: string
+  amount: number
+  description?: string
+  maxRedemptions?: number
+  perUserLimit?: number
+  expiresAt?: Date
+}
+
+// Result of redeem_promo_code
+export type PromoRedemptionStatus =
+  | 'redeemed'
+  | 'duplicate'
+  | 'idempotency_conflict' // Key already used to redeem another code
+  | 'not_found'
+  | 'inactive'
+  | 'expired'
+  | 'exhausted'
+  | 'limit_reached'
+
+const REDEMPTION_MESSAGES: Record<PromoRedemptionStatus, string> = {
+  redeemed: 'Promo code redeemed',
+  duplicate: 'Promo code already redeemed',
+  idempotency_conflict:
+    'This request was already used for another promo code. Please try again.',
+  not_found: 'Invalid promo code',
+  inactive: 'This promo code is no longer active',
+  expired: 'This promo code has expired',
+  exhausted: 'This promo code has been fully redeemed',
+  limit_reached: 'You have already redeemed this promo code'
+}
+
+const CODE_PATTERN = /^[A-Z0-9_-]{4,32}$/
+
+function mapPromoCodeRow(row: any): PromoCode {
+  return {
+    id: row.id,
+    code: row.code,
+    amount: parseFloat(row.amount),
+    description: row.description ?? undefined,
+    maxRedemptions: row.max_redemptions ?? undefined,
+    perUserLimit: row.per_user_limit,
+    redemptionCount: row.redemption_count,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    isActive: row.is_active,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at ? new Date(row.created_at) : undefined
+  }
+}
+
+/**
+ * Normalize a code as typed by a user or admin (codes are stored upper-case)
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * User-facing message for a redemption status
+ */
+export function getRedemptionMessage(status: PromoRedemptionStatus): string {
+  return REDEMPTION_MESSAGES[status]
+}
+
+/**
+ * Validate a promo code before creating it
+ * @returns Error message, or null if the code is valid
+ */
+export function validatePromoCode(input: PromoCodeInput): string | null {
+  if (!CODE_PATTERN.test(normalizePromoCode(input.code))) {
+    return 'Code must be 4-32 letters, digits, dashes or underscores'
+  }
+
+  if (!Number.isFinite(input.amount) || input.amount <= 0) {
+    return 'Amount must be a positive number'
+  }
+
+  if (
+    input.maxRedemptions !== undefined &&
+    (!Number.isInteger(input.maxRedemptions) || input.maxRedemptions < 1)
+  ) {
+    return 'Maximum redemptions must be a positive whole number'
+  }
+
+  if (
+    input.perUserLimit !== undefined &&
+    (!Number.isInteger(input.perUserLimit) || input.perUserLimit < 1)
+  ) {
+    return 'Per-user limit must be a positive whole number'
+  }
+
+  if (
+    input.maxRedemptions !== undefined &&
+    input.perUserLimit !== undefined &&
+    input.perUserLimit > input.maxRedemptions
+  ) {
+    return 'Per-user limit cannot exceed maximum redemptions'
+  }
+
+  if (input.expiresAt !== undefined) {
+    if (isNaN(input.expiresAt.getTime())) {
+      return 'Expiry date is invalid'
+    }
+
+    if (input.expiresAt.getTime() <= Date.now()) {
+      return 'Expiry date must be in the future'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Get all promo codes, newest first (admin function)
+ */
+export async function getAllPromoCodes(): Promise<PromoCode[]> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (data && !error) {
+      return data.map(mapPromoCodeRow)
+    }
+
+    console.error('Failed to fetch promo codes:', error)
+  } catch (error) {
+    console.error('Error fetching promo codes:', error)
+  }
+
+  return []
+}
+
+/**
+ * Create a promo code (admin function)
+ * @returns The created code, or null if it is invalid or already exists
+ */
+export async function createPromoCode(
+  input: PromoCodeInput,
+  createdBy?: string
+): Promise<PromoCode | null> {
+  const validationError = validatePromoCode(input)
+  if (validationError) {
+    console.error(`Invalid promo code: ${validationError}`)
+    return null
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .insert({
+        code: normalizePromoCode(input.code),
+        amount: input.amount,
+        description: input.description ?? null,
+        max_redemptions: input.maxRedemptions ?? null,
+        per_user_limit: input.perUserLimit ?? 1,
+        expires_at: input.expiresAt?.toISOString() ?? null,
+        created_by: createdBy ?? null
+      })
+      .select('*')
+      .single()
+
+    if (data && !error) {
+      return mapPromoCodeRow(data)
+    }
+
+    console.error('Failed to create promo code:', error)
+    return null
+  } catch (error) {
+    console.error('Error creating promo code:', error)
+    return null
+  }
+}
+
+/**
+ * Activate or deactivate a promo code (admin function)
+ */
+export async function setPromoCodeActive(
+  promoCodeId: string,
+  isActive: boolean
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('promo_codes')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', promoCodeId)
+
+    if (!error) {
+      return true
+    }
+
+    console.error('Failed to update promo code:', error)
+    return false
+  } catch (error) {
+    console.error('Error updating promo code:', error)
+    return false
+  }
+}
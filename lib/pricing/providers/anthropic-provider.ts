@@ -8,17 +8,52 @@
 import { ModelPricing } from '../types'
 
 import { BasePricingProvider } from './base-provider'
-import { PricingProviderResult, ProviderConfig } from './types'
+import {
+  PricingProviderResult,
+  ProviderConfig,
+  StaticModelPrices
+} from './types'
 
 // Static pricing data (updated as of October 2024)
-const STATIC_PRICING: Record<string, { input: number; output: number }> = {
-  'claude-3-7-sonnet-20250219': { input: 0.003, output: 0.015 },
-  'claude-3-5-sonnet-latest': { input: 0.003, output: 0.015 },
-  'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 },
-  'claude-3-5-haiku-20241022': { input: 0.0008, output: 0.004 },
-  'claude-3-opus-20240229': { input: 0.015, output: 0.075 },
+// Cache reads bill at 0.1x and cache writes at 1.25x the input price
+const STATIC_PRICING: Record<string, StaticModelPrices> = {
+  'claude-3-7-sonnet-20250219': {
+    input: 0.003,
+    output: 0.015,
+    cachedInput: 0.0003,
+    cacheWrite: 0.00375
+  },
+  'claude-3-5-sonnet-latest': {
+    input: 0.003,
+    output: 0.015,
+    cachedInput: 0.0003,
+    cacheWrite: 0.00375
+  },
+  'claude-3-5-sonnet-20241022': {
+    input: 0.003,
+    output: 0.015,
+    cachedInput: 0.0003,
+    cacheWrite: 0.00375
+  },
+  'claude-3-5-haiku-20241022': {
+    input: 0.0008,
+    output: 0.004,
+    cachedInput: 0.00008,
+    cacheWrite: 0.001
+  },
+  'claude-3-opus-20240229': {
+    input: 0.015,
+    output: 0.075,
+    cachedInput: 0.0015,
+    cacheWrite: 0.01875
+  },
   'claude-3-sonnet-20240229': { input: 0.003, output: 0.015 },
-  'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 }
+  'claude-3-haiku-20240307': {
+    input: 0.00025,
+    output: 0.00125,
+    cachedInput: 0.00003,
+    cacheWrite: 0.0003
+  }
 }
 
 export class AnthropicPricingProvider extends BasePricingProvider {
@@ -140,12 +175,7 @@ export class AnthropicPricingProvider extends BasePricingProvider {
     const pricing: ModelPricing[] = []
 
     for (const [modelId, prices] of Object.entries(STATIC_PRICING)) {
-      pricing.push({
-        modelId,
-        providerId: this.providerId,
-        inputPricePer1kTokens: prices.input,
-        outputPricePer1kTokens: prices.output
-      })
+      pricing.push(this.fromStaticPrices(modelId, prices))
     }
 
     return this.validatePricing(pricing)
@@ -0,0 +1,74 @@
+/**
+ * Azure OpenAI Pricing Provider
+ *
+ * Azure serves OpenAI models under deployment names the operator chooses.
+ * Deployments named after their model are priced directly; others are mapped
+ * to their model with AZURE_DEPLOYMENT_MODELS, e.g.
+ * "chat-prod=gpt-4o,chat-mini=gpt-4o-mini"
+ */
+
+import { ModelPricing } from '../types'
+
+import { StaticPricingProvider } from './static-provider'
+import { ProviderConfig, StaticModelPrices } from './types'
+
+// Static pricing data, global standard deployments (updated as of April 2025)
+const STATIC_PRICING: Record<string, StaticModelPrices> = {
+  'gpt-4.1': { input: 0.002, output: 0.008, cachedInput: 0.0005 },
+  'gpt-4.1-mini': { input: 0.0004, output: 0.0016, cachedInput: 0.0001 },
+  'gpt-4.1-nano': { input: 0.0001, output: 0.0004, cachedInput: 0.000025 },
+  'gpt-4o': { input: 0.0025, output: 0.01, cachedInput: 0.00125 },
+  'gpt-4o-mini': { input: 0.000165, output: 0.00066, cachedInput: 0.000083 },
+  'o3-mini': { input: 0.0011, output: 0.0044, cachedInput: 0.00055 }
+}
+
+/**
+ * Parse AZURE_DEPLOYMENT_MODELS into deployment name -> model id
+ */
+export function parseAzureDeployments(
+  value: string | undefined
+): Record<string, string> {
+  const deployments: Record<string, string> = {}
+
+  for (const entry of (value || '').split(',')) {
+    const [deployment, model] = entry.split('=').map(part => part.trim())
+    if (deployment && model) {
+      deployments[deployment] = model
+    }
+  }
+
+  return deployments
+}
+
+export class AzurePricingProvider extends StaticPricingProvider {
+  name = 'Azure OpenAI'
+  providerId = 'azure'
+
+  constructor(config?: ProviderConfig) {
+    super(
+      STATIC_PRICING,
+      'https://azure.microsoft.com/en-us/pricing/details/cognitive-services/openai-service/',
+      config
+    )
+  }
+
+  protected getPricing(): ModelPricing[] {
+    const pricing = super.getPricing()
+    const deployments = parseAzureDeployments(
+      process.env.AZURE_DEPLOYMENT_MODELS
+    )
+
+    for (const [deployment, model] of Object.entries(deployments)) {
+      const prices = this.staticPricing[model]
+
+      if (!prices) {
+        this.error(`No pricing for model ${model} of deployment ${deployment}`)
+        continue
+      }
+
+      pricing.push(this.fromStaticPrices(deployment, prices))
+    }
+
+    return this.validatePricing(pricing)
+  }
+}
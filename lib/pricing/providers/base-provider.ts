@@ -4,13 +4,16 @@
  * Common functionality for all pricing providers
  */
 
+import { isLocalProvider } from '../local-pricing'
+import { validatePricingTiers } from '../pricing-validator'
 import { ModelPricing } from '../types'
 
 import {
   PricingProvider,
   PricingProviderResult,
   PricingSourceMetadata,
-  ProviderConfig} from './types'
+  ProviderConfig,
+  StaticModelPrices} from './types'
 
 export abstract class BasePricingProvider implements PricingProvider {
   abstract name: string
@@ -113,14 +116,46 @@ export abstract class BasePricingProvider implements PricingProvider {
     return pricing.filter(p => {
       // Basic validation
       if (!p.modelId || !p.providerId) return false
-      if (p.inputPricePer1kTokens <= 0) return false
-      if (p.outputPricePer1kTokens <= 0) return false
+      // Local models may be free
+      const minPrice = isLocalProvider(p.providerId) ? 0 : Number.MIN_VALUE
+      if (p.inputPricePer1kTokens < minPrice) return false
+      if (p.outputPricePer1kTokens < minPrice) return false
       if (p.inputPricePer1kTokens > 100) return false // Sanity check
       if (p.outputPricePer1kTokens > 100) return false
+      // Optional token-class prices may be zero but never negative
+      for (const price of [
+        p.cachedInputPricePer1kTokens,
+        p.cacheWritePricePer1kTokens,
+        p.reasoningPricePer1kTokens,
+        p.imageInputPricePer1kTokens
+      ]) {
+        if (price !== undefined && (price < 0 || price > 100)) return false
+      }
+      if (p.tiers && !validatePricingTiers(p).valid) return false
       return true
     })
   }
 
+  /**
+   * Helper: Build a ModelPricing entry from static price data
+   */
+  protected fromStaticPrices(
+    modelId: string,
+    prices: StaticModelPrices
+  ): ModelPricing {
+    return {
+      modelId,
+      providerId: this.providerId,
+      inputPricePer1kTokens: prices.input,
+      outputPricePer1kTokens: prices.output,
+      cachedInputPricePer1kTokens: prices.cachedInput,
+      cacheWritePricePer1kTokens: prices.cacheWrite,
+      reasoningPricePer1kTokens: prices.reasoning,
+      imageInputPricePer1kTokens: prices.imageInput,
+      tiers: prices.tiers
+    }
+  }
+
   /**
    * Helper: Map provider model names to our standard names
    */
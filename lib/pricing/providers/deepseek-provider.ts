@@ -0,0 +1,33 @@
+/**
+ * DeepSeek Pricing Provider
+ *
+ * Static pricing for DeepSeek's API models
+ * Note: DeepSeek doesn't provide a public pricing API
+ */
+
+import { StaticPricingProvider } from './static-provider'
+import { ProviderConfig, StaticModelPrices } from './types'
+
+// Static pricing data (updated as of April 2025, standard hours)
+// Cache hits bill at the cached input price
+const STATIC_PRICING: Record<string, StaticModelPrices> = {
+  'deepseek-chat': { input: 0.00014, output: 0.00028, cachedInput: 0.000014 },
+  'deepseek-reasoner': {
+    input: 0.00055,
+    output: 0.0022,
+    cachedInput: 0.00014
+  }
+}
+
+export class DeepSeekPricingProvider extends StaticPricingProvider {
+  name = 'DeepSeek'
+  providerId = 'deepseek'
+
+  constructor(config?: ProviderConfig) {
+    super(
+      STATIC_PRICING,
+      'https://api-docs.deepseek.com/quick_start/pricing',
+      config
+    )
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Fireworks Pricing Provider
+ *
+ * Static pricing for serverless models on Fireworks AI
+ * Note: Fireworks doesn't provide a public pricing API
+ */
+
+import { StaticPricingProvider } from './static-provider'
+import { ProviderConfig, StaticModelPrices } from './types'
+
+// Static pricing data (updated as of April 2025)
+const STATIC_PRICING: Record<string, StaticModelPrices> = {
+  'accounts/fireworks/models/deepseek-r1': { input: 0.0002, output: 0.0002 },
+  'accounts/fireworks/models/llama4-maverick-instruct-basic': {
+    input: 0.0002,
+    output: 0.0002
+  },
+  'accounts/fireworks/models/deepseek-v3': { input: 0.0009, output: 0.0009 },
+  'accounts/fireworks/models/llama-v3p1-8b-instruct': {
+    input: 0.0002,
+    output: 0.0002
+  }
+}
+
+export class FireworksPricingProvider extends StaticPricingProvider {
+  name = 'Fireworks'
+  providerId = 'fireworks'
+
+  constructor(config?: ProviderConfig) {
+    super(STATIC_PRICING, 'https://fireworks.ai/pricing', config)
+  }
+}
@@ -7,16 +7,37 @@
 import { ModelPricing } from '../types'
 
 import { BasePricingProvider } from './base-provider'
-import { PricingProviderResult, ProviderConfig } from './types'
+import {
+  PricingProviderResult,
+  ProviderConfig,
+  StaticModelPrices
+} from './types'
 
 // Static pricing data (updated as of October 2024)
-const STATIC_PRICING: Record<string, { input: number; output: number }> = {
+// Prompts above the long-context threshold bill at double the rate
+const STATIC_PRICING: Record<string, StaticModelPrices> = {
   'gemini-2.0-flash': { input: 0.000075, output: 0.0003 },
   'gemini-2.0-flash-thinking-exp-01-21': { input: 0.000075, output: 0.0003 },
-  'gemini-2.5-pro-exp-03-25': { input: 0.00125, output: 0.005 },
-  'gemini-1.5-pro': { input: 0.00125, output: 0.005 },
-  'gemini-1.5-flash': { input: 0.000075, output: 0.0003 },
-  'gemini-1.5-flash-8b': { input: 0.0000375, output: 0.00015 },
+  'gemini-2.5-pro-exp-03-25': {
+    input: 0.00125,
+    output: 0.005,
+    tiers: [{ minTokens: 200_001, inputPrice: 0.0025, outputPrice: 0.01 }]
+  },
+  'gemini-1.5-pro': {
+    input: 0.00125,
+    output: 0.005,
+    tiers: [{ minTokens: 128_001, inputPrice: 0.0025, outputPrice: 0.01 }]
+  },
+  'gemini-1.5-flash': {
+    input: 0.000075,
+    output: 0.0003,
+    tiers: [{ minTokens: 128_001, inputPrice: 0.00015, outputPrice: 0.0006 }]
+  },
+  'gemini-1.5-flash-8b': {
+    input: 0.0000375,
+    output: 0.00015,
+    tiers: [{ minTokens: 128_001, inputPrice: 0.000075, outputPrice: 0.0003 }]
+  },
   'gemini-pro': { input: 0.000125, output: 0.000375 },
   'gemini-pro-vision': { input: 0.000125, output: 0.000375 }
 }
@@ -113,12 +134,7 @@ export class GooglePricingProvider extends BasePricingProvider {
     const pricing: ModelPricing[] = []
 
     for (const [modelId, prices] of Object.entries(STATIC_PRICING)) {
-      pricing.push({
-        modelId,
-        providerId: this.providerId,
-        inputPricePer1kTokens: prices.input,
-        outputPricePer1kTokens: prices.output
-      })
+      pricing.push(this.fromStaticPrices(modelId, prices))
     }
 
     return this.validatePricing(pricing)
@@ -0,0 +1,34 @@
+/**
+ * Groq Pricing Provider
+ *
+ * Static pricing for models served by Groq
+ * Note: Groq doesn't provide a public pricing API
+ */
+
+import { StaticPricingProvider } from './static-provider'
+import { ProviderConfig, StaticModelPrices } from './types'
+
+// Static pricing data (updated as of April 2025)
+const STATIC_PRICING: Record<string, StaticModelPrices> = {
+  'deepseek-r1-distill-llama-70b': { input: 0.00059, output: 0.00079 },
+  'meta-llama/llama-4-maverick-17b-128e-instruct': {
+    input: 0.0002,
+    output: 0.0002
+  },
+  'meta-llama/llama-4-scout-17b-16e-instruct': {
+    input: 0.00011,
+    output: 0.00034
+  },
+  'llama-3.3-70b-versatile': { input: 0.00059, output: 0.00079 },
+  'llama-3.1-8b-instant': { input: 0.00005, output: 0.00008 },
+  'qwen-qwq-32b': { input: 0.00029, output: 0.00039 }
+}
+
+export class GroqPricingProvider extends StaticPricingProvider {
+  name = 'Groq'
+  providerId = 'groq'
+
+  constructor(config?: ProviderConfig) {
+    super(STATIC_PRICING, 'https://groq.com/pricing/', config)
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Local Pricing Provider
+ *
+ * Base class for endpoints that run models the operator hosts. Every model
+ * the endpoint lists gets the provider's local price: zero unless configured
+ * (see lib/pricing/local-pricing.ts)
+ */
+
+import { getLocalModelPricing } from '../local-pricing'
+import { ModelPricing } from '../types'
+
+import { BasePricingProvider } from './base-provider'
+import { PricingProviderResult, ProviderConfig } from './types'
+
+export abstract class LocalPricingProvider extends BasePricingProvider {
+  constructor(config?: ProviderConfig) {
+    super(config)
+
+    this.metadata = {
+      type: 'manual',
+      failureCount: 0
+    }
+  }
+
+  /** Model ids the endpoint serves */
+  protected abstract listModels(): Promise<string[]>
+
+  async fetchPricing(): Promise<PricingProviderResult> {
+    try {
+      const models = await this.listModels()
+      const pricing: ModelPricing[] = []
+
+      for (const modelId of models) {
+        const modelPricing = getLocalModelPricing(modelId, this.providerId)
+        if (!modelPricing) {
+          throw new Error(`Invalid local pricing for ${this.name}`)
+        }
+        pricing.push(modelPricing)
+      }
+
+      this.supportedModels = models
+      this.log(`Priced ${pricing.length} local ${this.name} models`)
+      this.recordSuccess()
+
+      return {
+        success: true,
+        pricing: this.validatePricing(pricing),
+        source: `${this.providerId}-local`,
+        fetchedAt: new Date()
+      }
+    } catch (error) {
+      this.error(`Failed to fetch ${this.name} pricing`, error)
+      this.recordFailure(
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+
+      return {
+        success: false,
+        pricing: [],
+        source: `${this.providerId}-error`,
+        fetchedAt: new Date(),
+        errors: [
+          error instanceof Error ? error.message : 'Failed to fetch pricing'
+        ]
+      }
+    }
+  }
+
+  getDataFreshness(): 'realtime' | 'daily' | 'weekly' | 'static' {
+    return 'static'
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Ollama Pricing Provider
+ *
+ * Prices every model pulled on the Ollama server at the local price
+ */
+
+import { OllamaClient } from '@/lib/ollama/client'
+
+import { LocalPricingProvider } from './local-provider'
+
+export class OllamaPricingProvider extends LocalPricingProvider {
+  name = 'Ollama'
+  providerId = 'ollama'
+
+  async isAvailable(): Promise<boolean> {
+    return !!process.env.OLLAMA_BASE_URL
+  }
+
+  protected async listModels(): Promise<string[]> {
+    const client = new OllamaClient(process.env.OLLAMA_BASE_URL!)
+    const models = await client.getModels()
+    return models.map(model => model.name)
+  }
+}
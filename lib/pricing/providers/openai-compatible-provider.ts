@@ -0,0 +1,41 @@
+/**
+ * OpenAI-Compatible Pricing Provider
+ *
+ * Prices every model listed by the OpenAI-compatible endpoint
+ * (GET /models) at the local price
+ */
+
+import { LocalPricingProvider } from './local-provider'
+
+export class OpenAICompatiblePricingProvider extends LocalPricingProvider {
+  name = 'OpenAI Compatible'
+  providerId = 'openai-compatible'
+
+  async isAvailable(): Promise<boolean> {
+    return (
+      !!process.env.OPENAI_COMPATIBLE_API_KEY &&
+      !!process.env.OPENAI_COMPATIBLE_API_BASE_URL
+    )
+  }
+
+  protected async listModels(): Promise<string[]> {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_API_BASE_URL!.replace(
+      /\/$/,
+      ''
+    )
+    const response = await this.fetch(`${baseUrl}/models`, {
+      headers: {
+        Authorization: `Bearer ${process.env.OPENAI_COMPATIBLE_API_KEY}`
+      }
+    })
+
+    if (!response.ok) {
+      throw new Error(
+        `Model list request failed: ${response.status} ${response.statusText}`
+      )
+    }
+
+    const data: { data?: { id: string }[] } = await response.json()
+    return (data.data || []).map(model => model.id)
+  }
+}
@@ -8,17 +8,21 @@
 import { ModelPricing } from '../types'
 
 import { BasePricingProvider } from './base-provider'
-import { PricingProviderResult, ProviderConfig } from './types'
+import {
+  PricingProviderResult,
+  ProviderConfig,
+  StaticModelPrices
+} from './types'
 
 // Static pricing data (updated as of October 2024)
 // This serves as fallback and can be updated via automated scraping
-const STATIC_PRICING: Record<string, { input: number; output: number }> = {
-  'gpt-4.1': { input: 0.01, output: 0.03 },
-  'gpt-4.1-mini': { input: 0.0005, output: 0.0015 },
-  'gpt-4.1-nano': { input: 0.0001, output: 0.0003 },
-  'o3-mini': { input: 0.0015, output: 0.006 },
-  'gpt-4o': { input: 0.0025, output: 0.01 },
-  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+const STATIC_PRICING: Record<string, StaticModelPrices> = {
+  'gpt-4.1': { input: 0.01, output: 0.03, cachedInput: 0.0025 },
+  'gpt-4.1-mini': { input: 0.0005, output: 0.0015, cachedInput: 0.000125 },
+  'gpt-4.1-nano': { input: 0.0001, output: 0.0003, cachedInput: 0.000025 },
+  'o3-mini': { input: 0.0015, output: 0.006, cachedInput: 0.00075 },
+  'gpt-4o': { input: 0.0025, output: 0.01, cachedInput: 0.00125 },
+  'gpt-4o-mini': { input: 0.00015, output: 0.0006, cachedInput: 0.000075 },
   'gpt-4-turbo': { input: 0.01, output: 0.03 },
   'gpt-4': { input: 0.03, output: 0.06 },
   'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 }
@@ -117,12 +121,7 @@ export class OpenAIPricingProvider extends BasePricingProvider {
     const pricing: ModelPricing[] = []
 
     for (const [modelId, prices] of Object.entries(STATIC_PRICING)) {
-      pricing.push({
-        modelId,
-        providerId: this.providerId,
-        inputPricePer1kTokens: prices.input,
-        outputPricePer1kTokens: prices.output
-      })
+      pricing.push(this.fromStaticPrices(modelId, prices))
     }
 
     return this.validatePricing(pricing)
@@ -5,9 +5,16 @@
  */
 
 import { AnthropicPricingProvider } from './anthropic-provider'
+import { AzurePricingProvider } from './azure-provider'
+import { DeepSeekPricingProvider } from './deepseek-provider'
+import { FireworksPricingProvider } from './fireworks-provider'
 import { GooglePricingProvider } from './google-provider'
+import { GroqPricingProvider } from './groq-provider'
+import { OllamaPricingProvider } from './ollama-provider'
+import { OpenAICompatiblePricingProvider } from './openai-compatible-provider'
 import { OpenAIPricingProvider } from './openai-provider'
 import { PricingProvider, ProviderRegistry as IProviderRegistry } from './types'
+import { XAIPricingProvider } from './xai-provider'
 
 export class ProviderRegistry implements IProviderRegistry {
   providers: Map<string, PricingProvider>
@@ -44,8 +51,17 @@ export class ProviderRegistry implements IProviderRegistry {
       })
     )
 
-    // Add more providers here as needed
-    // DeepSeek, Groq, xAI, etc.
+    // Static pricing for the other providers in lib/utils/registry.ts
+    const config = { debug: process.env.PRICING_DEBUG === 'true' }
+    this.register(new GroqPricingProvider(config))
+    this.register(new DeepSeekPricingProvider(config))
+    this.register(new XAIPricingProvider(config))
+    this.register(new FireworksPricingProvider(config))
+    this.register(new AzurePricingProvider(config))
+
+    // Local models: free unless configured, available when the endpoint is
+    this.register(new OllamaPricingProvider(config))
+    this.register(new OpenAICompatiblePricingProvider(config))
   }
 
   /**
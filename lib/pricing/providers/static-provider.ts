@@ -0,0 +1,83 @@
+/**
+ * Static Pricing Provider
+ *
+ * Base class for providers without a pricing API or scrapeable pricing page,
+ * whose prices are kept in a static table and updated by hand
+ */
+
+import { ModelPricing } from '../types'
+
+import { BasePricingProvider } from './base-provider'
+import {
+  PricingProviderResult,
+  ProviderConfig,
+  StaticModelPrices
+} from './types'
+
+export abstract class StaticPricingProvider extends BasePricingProvider {
+  constructor(
+    protected staticPricing: Record<string, StaticModelPrices>,
+    url: string,
+    config?: ProviderConfig
+  ) {
+    super(config)
+
+    this.supportedModels = Object.keys(staticPricing)
+    this.metadata = {
+      type: 'static',
+      url,
+      failureCount: 0
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+
+  async fetchPricing(): Promise<PricingProviderResult> {
+    try {
+      const pricing = this.getPricing()
+
+      this.log(`Using static pricing for ${pricing.length} ${this.name} models`)
+      this.recordSuccess()
+
+      return {
+        success: true,
+        pricing,
+        source: `${this.providerId}-static`,
+        fetchedAt: new Date()
+      }
+    } catch (error) {
+      this.error(`Failed to fetch ${this.name} pricing`, error)
+      this.recordFailure(
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+
+      return {
+        success: false,
+        pricing: [],
+        source: `${this.providerId}-error`,
+        fetchedAt: new Date(),
+        errors: [
+          error instanceof Error ? error.message : 'Failed to fetch pricing'
+        ]
+      }
+    }
+  }
+
+  /**
+   * Pricing of every model in the static table
+   * Override to add models priced from configuration
+   */
+  protected getPricing(): ModelPricing[] {
+    return this.validatePricing(
+      Object.entries(this.staticPricing).map(([modelId, prices]) =>
+        this.fromStaticPrices(modelId, prices)
+      )
+    )
+  }
+
+  getDataFreshness(): 'realtime' | 'daily' | 'weekly' | 'static' {
+    return 'static'
+  }
+}
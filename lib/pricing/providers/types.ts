@@ -4,7 +4,7 @@
  * Common interfaces for all pricing providers
  */
 
-import { ModelPricing } from '../types'
+import { ModelPricing, PricingTier } from '../types'
 
 export interface PricingProviderResult {
   success: boolean
@@ -54,6 +54,22 @@ export interface PricingSourceMetadata {
   extra?: Record<string, any>
 }
 
+/** Static per-1k-token prices kept by providers without a pricing API */
+export interface StaticModelPrices {
+  input: number
+  output: number
+  /** Prompt cache reads */
+  cachedInput?: number
+  /** Prompt cache writes */
+  cacheWrite?: number
+  /** Reasoning/thinking output */
+  reasoning?: number
+  /** Image input */
+  imageInput?: number
+  /** Prompt-size price bands */
+  tiers?: PricingTier[]
+}
+
 /** Model pricing from provider with metadata */
 export interface ProviderPricing extends ModelPricing {
   /** Raw model name from provider */
@@ -66,12 +82,7 @@ export interface ProviderPricing extends ModelPricing {
   expiryDate?: Date
 
   /** Additional pricing tiers (if applicable) */
-  tiers?: {
-    minTokens: number
-    maxTokens?: number
-    inputPrice: number
-    outputPrice: number
-  }[]
+  tiers?: PricingTier[]
 
   /** Provider-specific metadata */
   metadata?: Record<string, any>
@@ -0,0 +1,26 @@
+/**
+ * xAI (Grok) Pricing Provider
+ *
+ * Static pricing for xAI's Grok models
+ * Note: xAI doesn't provide a public pricing API
+ */
+
+import { StaticPricingProvider } from './static-provider'
+import { ProviderConfig, StaticModelPrices } from './types'
+
+// Static pricing data (updated as of April 2025)
+const STATIC_PRICING: Record<string, StaticModelPrices> = {
+  'grok-3-beta': { input: 0.005, output: 0.015 },
+  'grok-3-mini-beta': { input: 0.0003, output: 0.0005 },
+  'grok-2-1212': { input: 0.002, output: 0.01 },
+  'grok-2-vision-1212': { input: 0.002, output: 0.01, imageInput: 0.002 }
+}
+
+export class XAIPricingProvider extends StaticPricingProvider {
+  name = 'xAI'
+  providerId = 'xai'
+
+  constructor(config?: ProviderConfig) {
+    super(STATIC_PRICING, 'https://docs.x.ai/docs/models', config)
+  }
+}
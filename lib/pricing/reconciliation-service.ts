@@ -0,0 +1,978 @@
+/**
+ * Billing Reconciliation Service
+ *
+ * Retries usage records that could not be saved after their charge, finds
+ * billing discrepancies (charges without usage records, usage records without
+ * charges, balances that differ from their transactions, holds left pending)
+ * and applies the corrective adjustments admins choose in the reconciliation
+ * report.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import {
+  addBalance,
+  BalanceReservation,
+  releaseReservedBalance,
+  settleReservedBalance
+} from './balance-service'
+import { createTransaction, Transaction } from './transaction-service'
+import { CostCalculation } from './types'
+import { UsageCallType } from './usage-accumulator'
+import { recordUsage, UsageLine } from './usage-tracking'
+
+export type ReconciliationFindingKind =
+  | 'orphaned_transaction' // Usage charge with no usage record
+  | 'orphaned_usage_record' // Charged usage record with no transaction
+  | 'balance_mismatch' // Balance differs from the sum of its transactions
+  | 'stale_hold' // Usage hold still pending long after its turn
+
+export type ReconciliationFindingStatus = 'open' | 'resolved' | 'dismissed'
+
+export type ReconciliationAction = 'adjust' | 'dismiss'
+
+export interface ReconciliationFinding {
+  id: string
+  kind: ReconciliationFindingKind
+  userId: string
+  transactionId?: string
+  usageRecordId?: string
+  amount: number // Charge, usage cost, balance minus sum of transactions or hold
+  currency: string
+  details?: Record<string, unknown>
+  status: ReconciliationFindingStatus
+  resolution?: string
+  adjustmentTransactionId?: string
+  resolvedBy?: string
+  resolvedAt?: Date
+  detectedAt: Date
+  lastSeenAt: Date
+}
+
+export interface DetectedFinding {
+  kind: ReconciliationFindingKind
+  fingerprint: string
+  userId: string
+  transactionId?: string
+  usageRecordId?: string
+  amount: number
+  currency: string
+  details: Record<string, unknown>
+}
+
+export interface UsageRetryItem {
+  id: string
+  userId: string
+  chatId: string
+  requestId: string
+  callIndex: number
+  callType: UsageCallType
+  transactionId?: string
+  organizationId?: string // Organization whose wallet was charged
+  cost: CostCalculation
+  status: 'pending' | 'succeeded' | 'failed'
+  attempts: number
+  lastError?: string
+  nextAttemptAt: Date
+  createdAt: Date
+}
+
+export interface RetryQueueResult {
+  processed: number
+  succeeded: number
+  rescheduled: number
+  failed: number // Gave up after MAX_RETRY_ATTEMPTS
+}
+
+export interface ReconciliationRunResult {
+  retries: RetryQueueResult
+  detected: Record<ReconciliationFindingKind, number>
+  opened: number
+  autoResolved: number
+  truncated: boolean // A scan hit its limit; the next run picks up the rest
+  durationMs: number
+}
+
+export interface ReconciliationReport {
+  findings: ReconciliationFinding[]
+  openCounts: Record<ReconciliationFindingKind, number>
+  pendingRetries: number
+  failedRetries: UsageRetryItem[]
+}
+
+export type StaleHoldCorrection =
+  | { action: 'settle'; amount: number }
+  | { action: 'release' }
+
+export interface ResolveFindingResult {
+  success: boolean
+  finding?: ReconciliationFinding
+  error?: string
+}
+
+export const MAX_RETRY_ATTEMPTS = 6
+
+const FINDING_KINDS: ReconciliationFindingKind[] = [
+  'orphaned_transaction',
+  'orphaned_usage_record',
+  'balance_mismatch',
+  'stale_hold'
+]
+
+// Only look at rows older than this so in-flight turns are not reported
+const DETECTION_GRACE_MS = 15 * 60 * 1000
+// Holds are settled when their turn finishes, within the chat route's 30s
+// maxDuration; one still pending after an hour will not be settled by it
+const STALE_HOLD_AGE_MS = 60 * 60 * 1000
+const DETECTION_LIMIT = 500
+const RETRY_BATCH_SIZE = 100
+const RETRY_BASE_DELAY_MS = 60 * 1000
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000
+const BALANCE_TOLERANCE = 0.005
+
+function mapFindingRow(row: any): ReconciliationFinding {
+  return {
+    id: row.id,
+    kind: row.kind,
+    userId: row.user_id,
+    transactionId: row.transaction_id ?? undefined,
+    usageRecordId: row.usage_record_id ?? undefined,
+    amount: parseFloat(row.amount),
+    currency: row.currency,
+    details: row.details ?? undefined,
+    status: row.status,
+    resolution: row.resolution ?? undefined,
+    adjustmentTransactionId: row.adjustment_transaction_id ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    detectedAt: new Date(row.detected_at),
+    lastSeenAt: new Date(row.last_seen_at)
+  }
+}
+
+function mapRetryRow(row: any): UsageRetryItem {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    chatId: row.chat_id,
+    requestId: row.request_id,
+    callIndex: row.call_index,
+    callType: row.payload?.callType ?? 'response',
+    transactionId: row.transaction_id ?? undefined,
+    organizationId: row.payload?.organizationId,
+    cost: row.payload?.cost,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error ?? undefined,
+    nextAttemptAt: new Date(row.next_attempt_at),
+    createdAt: new Date(row.created_at)
+  }
+}
+
+function emptyKindCounts(): Record<ReconciliationFindingKind, number> {
+  return {
+    orphaned_transaction: 0,
+    orphaned_usage_record: 0,
+    balance_mismatch: 0,
+    stale_hold: 0
+  }
+}
+
+/**
+ * Delay before the next attempt of a queued usage record
+ * Doubles from one minute per attempt, capped at six hours
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)),
+    RETRY_MAX_DELAY_MS
+  )
+}
+
+/**
+ * Identify a finding by what it is about, so repeated runs update the same
+ * open finding instead of reporting it again
+ */
+export function getFindingFingerprint(
+  kind: ReconciliationFindingKind,
+  subjectId: string
+): string {
+  return `${kind}:${subjectId}`
+}
+
+/**
+ * Balance change of the corrective adjustment for a finding
+ * - orphaned_transaction: refund the charge
+ * - orphaned_usage_record: charge the usage, rounded up to the cent
+ * - balance_mismatch: none; the missing change is logged as a transaction
+ * - stale_hold: none; the hold itself is settled or released
+ */
+export function getCorrectionAmount(
+  finding: Pick<ReconciliationFinding, 'kind' | 'amount'>
+): number {
+  switch (finding.kind) {
+    case 'orphaned_transaction':
+      return finding.amount
+    case 'orphaned_usage_record':
+      return -Math.max(Math.ceil(finding.amount * 100 - 1e-9) / 100, 0.01)
+    default:
+      return 0
+  }
+}
+
+/**
+ * How a stale hold is closed: settled to the cost of the usage records linked
+ * to it, or released in full when its turn recorded no usage
+ */
+export function getStaleHoldCorrection(
+  usageCosts: number[]
+): StaleHoldCorrection {
+  if (usageCosts.length === 0) {
+    return { action: 'release' }
+  }
+
+  const total = usageCosts.reduce((sum, cost) => sum + cost, 0)
+  return { action: 'settle', amount: parseFloat(total.toFixed(6)) }
+}
+
+/**
+ * Balance implied by a wallet's transactions, as find_balance_mismatches
+ * computes it: amounts are stored absolute, and a transaction that lowered
+ * the balance is a debit
+ */
+export function getLedgerBalance(
+  transactions: Pick<Transaction, 'amount' | 'balanceBefore' | 'balanceAfter'>[]
+): number {
+  const total = transactions.reduce(
+    (sum, t) => sum + (t.balanceAfter < t.balanceBefore ? -t.amount : t.amount),
+    0
+  )
+  return parseFloat(total.toFixed(6))
+}
+
+/**
+ * Queue a usage line for retry after recordUsage failed post-charge
+ * Queuing the same line twice is a no-op
+ */
+export async function enqueueUsageRecordRetry(params: {
+  userId: string
+  chatId: string
+  requestId: string
+  transactionId: string
+  organizationId?: string
+  cost: CostCalculation
+  line: UsageLine
+}): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('usage_record_retry_queue').upsert(
+      {
+        user_id: params.userId,
+        chat_id: params.chatId,
+        request_id: params.requestId,
+        call_index: params.line.callIndex,
+        transaction_id: params.transactionId,
+        payload: {
+          cost: params.cost,
+          callType: params.line.callType,
+          organizationId: params.organizationId
+        },
+        next_attempt_at: new Date(Date.now() + getRetryDelayMs(1)).toISOString()
+      },
+      { onConflict: 'request_id,call_index', ignoreDuplicates: true }
+    )
+
+    if (!error) {
+      return true
+    }
+
+    console.error('Failed to queue usage record retry:', error)
+    return false
+  } catch (error) {
+    console.error('Error queuing usage record retry:', error)
+    return false
+  }
+}
+
+/**
+ * Retry queued usage records that are due
+ * Items that still fail after MAX_RETRY_ATTEMPTS are marked failed and shown
+ * in the reconciliation report
+ */
+export async function processUsageRetryQueue(
+  limit: number = RETRY_BATCH_SIZE
+): Promise<RetryQueueResult> {
+  const result: RetryQueueResult = {
+    processed: 0,
+    succeeded: 0,
+    rescheduled: 0,
+    failed: 0
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('usage_record_retry_queue')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Failed to fetch usage record retry queue:', error)
+      return result
+    }
+
+    for (const item of (data || []).map(mapRetryRow)) {
+      result.processed++
+      const attempts = item.attempts + 1
+
+      // recordUsage is idempotent per request and call index
+      const usageRecordId = await recordUsage(
+        item.userId,
+        item.chatId,
+        item.cost,
+        item.requestId,
+        item.transactionId,
+        'completed',
+        { callIndex: item.callIndex, callType: item.callType },
+        item.organizationId
+      )
+
+      if (usageRecordId) {
+        result.succeeded++
+        await supabase
+          .from('usage_record_retry_queue')
+          .update({
+            status: 'succeeded',
+            attempts,
+            usage_record_id: usageRecordId,
+            last_error: null
+          })
+          .eq('id', item.id)
+        continue
+      }
+
+      const gaveUp = attempts >= MAX_RETRY_ATTEMPTS
+      if (gaveUp) {
+        result.failed++
+      } else {
+        result.rescheduled++
+      }
+
+      await supabase
+        .from('usage_record_retry_queue')
+        .update({
+          status: gaveUp ? 'failed' : 'pending',
+          attempts,
+          last_error: 'Failed to record usage',
+          next_attempt_at: new Date(
+            Date.now() + getRetryDelayMs(attempts)
+          ).toISOString()
+        })
+        .eq('id', item.id)
+    }
+
+    return result
+  } catch (error) {
+    console.error('Error processing usage record retry queue:', error)
+    return result
+  }
+}
+
+/**
+ * Put a failed usage record back in the retry queue (admin)
+ */
+export async function requeueUsageRecordRetry(
+  retryId: string
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('usage_record_retry_queue')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString()
+      })
+      .eq('id', retryId)
+      .eq('status', 'failed')
+      .select('id')
+
+    if (error) {
+      console.error('Failed to requeue usage record retry:', error)
+      return false
+    }
+
+    return (data?.length ?? 0) > 0
+  } catch (error) {
+    console.error('Error requeuing usage record retry:', error)
+    return false
+  }
+}
+
+/**
+ * Scan for billing discrepancies
+ * Charges and holds whose usage records are still queued for retry are skipped
+ */
+export async function detectBillingDiscrepancies(
+  now: Date = new Date()
+): Promise<{
+  findings: DetectedFinding[]
+  truncated: Record<ReconciliationFindingKind, boolean>
+} | null> {
+  try {
+    const supabase = createAdminClient()
+    const before = new Date(now.getTime() - DETECTION_GRACE_MS).toISOString()
+    const holdsBefore = new Date(
+      now.getTime() - STALE_HOLD_AGE_MS
+    ).toISOString()
+
+    const [transactions, usageRecords, mismatches, holds] = await Promise.all([
+      supabase.rpc('find_orphaned_usage_transactions', {
+        p_before: before,
+        p_limit: DETECTION_LIMIT
+      }),
+      supabase.rpc('find_orphaned_usage_records', {
+        p_before: before,
+        p_limit: DETECTION_LIMIT
+      }),
+      supabase.rpc('find_balance_mismatches', {
+        p_before: before,
+        p_tolerance: BALANCE_TOLERANCE,
+        p_limit: DETECTION_LIMIT
+      }),
+      supabase.rpc('find_stale_holds', {
+        p_before: holdsBefore,
+        p_limit: DETECTION_LIMIT
+      })
+    ])
+
+    const rpcError =
+      transactions.error ||
+      usageRecords.error ||
+      mismatches.error ||
+      holds.error
+    if (rpcError) {
+      console.error('Failed to scan for billing discrepancies:', rpcError)
+      return null
+    }
+
+    const orphanedTransactions: any[] = transactions.data || []
+    const staleHolds: any[] = holds.data || []
+    const scannedTransactionIds = [...orphanedTransactions, ...staleHolds].map(
+      row => row.transaction_id
+    )
+    const queuedTransactionIds = new Set<string>()
+
+    if (scannedTransactionIds.length > 0) {
+      const { data: queued } = await supabase
+        .from('usage_record_retry_queue')
+        .select('transaction_id')
+        .eq('status', 'pending')
+        .in('transaction_id', scannedTransactionIds)
+
+      for (const row of queued || []) {
+        queuedTransactionIds.add(row.transaction_id)
+      }
+    }
+
+    const findings: DetectedFinding[] = [
+      ...orphanedTransactions
+        .filter(row => !queuedTransactionIds.has(row.transaction_id))
+        .map(row => ({
+          kind: 'orphaned_transaction' as const,
+          fingerprint: getFindingFingerprint(
+            'orphaned_transaction',
+            row.transaction_id
+          ),
+          userId: row.user_id,
+          transactionId: row.transaction_id,
+          amount: parseFloat(row.amount),
+          currency: row.currency,
+          details: {
+            requestId: row.request_id,
+            chargedAt: row.created_at
+          }
+        })),
+      ...(usageRecords.data || []).map((row: any) => ({
+        kind: 'orphaned_usage_record' as const,
+        fingerprint: getFindingFingerprint(
+          'orphaned_usage_record',
+          row.usage_record_id
+        ),
+        userId: row.user_id,
+        usageRecordId: row.usage_record_id,
+        amount: parseFloat(row.total_cost),
+        currency: 'USD',
+        details: {
+          chatId: row.chat_id,
+          requestId: row.request_id,
+          model: `${row.provider_id}:${row.model_id}`,
+          recordedAt: row.created_at
+        }
+      })),
+      ...(mismatches.data || []).map((row: any) => ({
+        kind: 'balance_mismatch' as const,
+        fingerprint: getFindingFingerprint('balance_mismatch', row.user_id),
+        userId: row.user_id,
+        amount: parseFloat(row.difference),
+        currency: row.currency,
+        details: {
+          balance: parseFloat(row.balance),
+          ledgerBalance: parseFloat(row.ledger_balance),
+          transactionCount: Number(row.transaction_count)
+        }
+      })),
+      ...staleHolds
+        .filter(row => !queuedTransactionIds.has(row.transaction_id))
+        .map(row => ({
+          kind: 'stale_hold' as const,
+          fingerprint: getFindingFingerprint('stale_hold', row.transaction_id),
+          userId: row.user_id,
+          transactionId: row.transaction_id,
+          amount: parseFloat(row.amount),
+          currency: row.currency,
+          details: {
+            requestId: row.request_id,
+            heldAt: row.created_at,
+            usageCost:
+              row.usage_cost === null ? null : parseFloat(row.usage_cost),
+            usageRecordCount: Number(row.usage_record_count)
+          }
+        }))
+    ]
+
+    return {
+      findings,
+      truncated: {
+        orphaned_transaction: orphanedTransactions.length >= DETECTION_LIMIT,
+        orphaned_usage_record:
+          (usageRecords.data?.length ?? 0) >= DETECTION_LIMIT,
+        balance_mismatch: (mismatches.data?.length ?? 0) >= DETECTION_LIMIT,
+        stale_hold: staleHolds.length >= DETECTION_LIMIT
+      }
+    }
+  } catch (error) {
+    console.error('Error scanning for billing discrepancies:', error)
+    return null
+  }
+}
+
+/**
+ * Save detected discrepancies as findings
+ * New discrepancies open a finding, known ones refresh it, and open findings
+ * of a fully scanned kind that were not detected again are closed
+ */
+async function saveFindings(
+  detected: DetectedFinding[],
+  truncated: Record<ReconciliationFindingKind, boolean>,
+  now: Date
+): Promise<{ opened: number; autoResolved: number }> {
+  const supabase = createAdminClient()
+  const { data: open, error } = await supabase
+    .from('billing_reconciliation_findings')
+    .select('id, kind, fingerprint')
+    .eq('status', 'open')
+
+  if (error) {
+    console.error('Failed to fetch open reconciliation findings:', error)
+    return { opened: 0, autoResolved: 0 }
+  }
+
+  const openByFingerprint = new Map(
+    (open || []).map(row => [row.fingerprint as string, row])
+  )
+  const detectedFingerprints = new Set(detected.map(f => f.fingerprint))
+  const timestamp = now.toISOString()
+
+  const newFindings = detected.filter(
+    f => !openByFingerprint.has(f.fingerprint)
+  )
+  if (newFindings.length > 0) {
+    const { error: insertError } = await supabase
+      .from('billing_reconciliation_findings')
+      .insert(
+        newFindings.map(f => ({
+          kind: f.kind,
+          fingerprint: f.fingerprint,
+          user_id: f.userId,
+          transaction_id: f.transactionId ?? null,
+          usage_record_id: f.usageRecordId ?? null,
+          amount: f.amount,
+          currency: f.currency,
+          details: f.details,
+          detected_at: timestamp,
+          last_seen_at: timestamp
+        }))
+      )
+
+    if (insertError) {
+      console.error('Failed to save reconciliation findings:', insertError)
+    }
+  }
+
+  // Balance differences can change between runs
+  for (const f of detected) {
+    const existing = openByFingerprint.get(f.fingerprint)
+    if (!existing) {
+      continue
+    }
+    await supabase
+      .from('billing_reconciliation_findings')
+      .update({
+        last_seen_at: timestamp,
+        ...(f.kind === 'balance_mismatch' && {
+          amount: f.amount,
+          details: f.details
+        })
+      })
+      .eq('id', existing.id)
+  }
+
+  const resolvedIds = (open || [])
+    .filter(
+      row =>
+        !truncated[row.kind as ReconciliationFindingKind] &&
+        !detectedFingerprints.has(row.fingerprint)
+    )
+    .map(row => row.id)
+
+  if (resolvedIds.length > 0) {
+    const { error: resolveError } = await supabase
+      .from('billing_reconciliation_findings')
+      .update({
+        status: 'resolved',
+        resolution: 'no_longer_detected',
+        resolved_by: 'system',
+        resolved_at: timestamp
+      })
+      .in('id', resolvedIds)
+      .eq('status', 'open')
+
+    if (resolveError) {
+      console.error('Failed to close reconciliation findings:', resolveError)
+      return { opened: newFindings.length, autoResolved: 0 }
+    }
+  }
+
+  return { opened: newFindings.length, autoResolved: resolvedIds.length }
+}
+
+/**
+ * Run the reconciliation job: retry queued usage records, then scan for
+ * discrepancies and update the findings
+ */
+export async function runBillingReconciliation(): Promise<ReconciliationRunResult> {
+  const startedAt = Date.now()
+  const retries = await processUsageRetryQueue()
+  const now = new Date()
+  const scan = await detectBillingDiscrepancies(now)
+
+  if (!scan) {
+    throw new Error('Billing discrepancy scan failed')
+  }
+
+  const detected = emptyKindCounts()
+  for (const finding of scan.findings) {
+    detected[finding.kind]++
+  }
+
+  const { opened, autoResolved } = await saveFindings(
+    scan.findings,
+    scan.truncated,
+    now
+  )
+
+  return {
+    retries,
+    detected,
+    opened,
+    autoResolved,
+    truncated: Object.values(scan.truncated).some(Boolean),
+    durationMs: Date.now() - startedAt
+  }
+}
+
+/**
+ * Findings and retry queue state for the admin reconciliation report
+ */
+export async function getReconciliationReport(
+  status: ReconciliationFindingStatus = 'open',
+  limit: number = 200
+): Promise<ReconciliationReport | null> {
+  try {
+    const supabase = createAdminClient()
+
+    const [findings, openKinds, pending, failed] = await Promise.all([
+      supabase
+        .from('billing_reconciliation_findings')
+        .select('*')
+        .eq('status', status)
+        .order(status === 'open' ? 'detected_at' : 'resolved_at', {
+          ascending: false
+        })
+        .limit(limit),
+      supabase
+        .from('billing_reconciliation_findings')
+        .select('kind')
+        .eq('status', 'open'),
+      supabase
+        .from('usage_record_retry_queue')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'pending'),
+      supabase
+        .from('usage_record_retry_queue')
+        .select('*')
+        .eq('status', 'failed')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    ])
+
+    const error =
+      findings.error || openKinds.error || pending.error || failed.error
+    if (error) {
+      console.error('Failed to fetch reconciliation report:', error)
+      return null
+    }
+
+    const openCounts = emptyKindCounts()
+    for (const row of openKinds.data || []) {
+      if (FINDING_KINDS.includes(row.kind)) {
+        openCounts[row.kind as ReconciliationFindingKind]++
+      }
+    }
+
+    return {
+      findings: (findings.data || []).map(mapFindingRow),
+      openCounts,
+      pendingRetries: pending.count ?? 0,
+      failedRetries: (failed.data || []).map(mapRetryRow)
+    }
+  } catch (error) {
+    console.error('Error fetching reconciliation report:', error)
+    return null
+  }
+}
+
+/**
+ * Apply the corrective adjustment of a finding
+ * @returns Adjustment transaction ID, undefined when the discrepancy is gone,
+ * or null on failure
+ */
+async function applyCorrection(
+  finding: ReconciliationFinding
+): Promise<string | undefined | null> {
+  const metadata = {
+    reconciliationFindingId: finding.id,
+    reconciliationKind: finding.kind
+  }
+
+  switch (finding.kind) {
+    case 'orphaned_transaction':
+      return addBalance(
+        finding.userId,
+        getCorrectionAmount(finding),
+        'Reconciliation: refund of usage charge without usage record',
+        undefined,
+        undefined,
+        { ...metadata, originalTransactionId: finding.transactionId },
+        true
+      )
+
+    case 'orphaned_usage_record': {
+      const transactionId = await addBalance(
+        finding.userId,
+        getCorrectionAmount(finding),
+        'Reconciliation: charge for unbilled usage',
+        undefined,
+        undefined,
+        { ...metadata, usageRecordId: finding.usageRecordId },
+        true
+      )
+
+      if (transactionId && finding.usageRecordId) {
+        const supabase = createAdminClient()
+        await supabase
+          .from('usage_records')
+          .update({ transaction_id: transactionId })
+          .eq('id', finding.usageRecordId)
+      }
+
+      return transactionId
+    }
+
+    case 'balance_mismatch': {
+      // Recheck: the difference may have changed since the scan
+      const supabase = createAdminClient()
+      const { data, error } = await supabase.rpc('find_balance_mismatches', {
+        p_before: new Date().toISOString(),
+        p_tolerance: BALANCE_TOLERANCE,
+        p_user_id: finding.userId,
+        p_limit: 1
+      })
+
+      if (error) {
+        console.error('Failed to recheck balance mismatch:', error)
+        return null
+      }
+
+      if (!data || data.length === 0) {
+        return undefined
+      }
+
+      // Log the balance change that has no transaction; the balance itself
+      // is already right, only the ledger is missing the entry
+      const ledgerBalance = parseFloat(data[0].ledger_balance)
+      const balance = parseFloat(data[0].balance)
+
+      return createTransaction({
+        userId: finding.userId,
+        type: 'adjustment',
+        amount: Math.abs(balance - ledgerBalance),
+        currency: data[0].currency,
+        balanceBefore: ledgerBalance,
+        balanceAfter: balance,
+        description: 'Reconciliation: balance change without transaction',
+        metadata
+      })
+    }
+
+    case 'stale_hold': {
+      // Recheck: the turn may have settled or released the hold since the scan
+      const supabase = createAdminClient()
+      const { data: hold, error } = await supabase
+        .from('transactions')
+        .select('id, user_id, amount, metadata')
+        .eq('id', finding.transactionId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Failed to recheck stale hold:', error)
+        return null
+      }
+
+      if (!hold || hold.metadata?.status !== 'pending') {
+        return undefined
+      }
+
+      const { data: records, error: recordsError } = await supabase
+        .from('usage_records')
+        .select('total_cost')
+        .eq('transaction_id', hold.id)
+        .eq('status', 'completed')
+
+      if (recordsError) {
+        console.error('Failed to fetch usage records of hold:', recordsError)
+        return null
+      }
+
+      const reservation: BalanceReservation = {
+        userId: hold.user_id,
+        requestId: hold.metadata.request_id,
+        transactionId: hold.id,
+        amount: parseFloat(hold.amount),
+        status: 'held'
+      }
+      const correction = getStaleHoldCorrection(
+        (records || []).map(row => parseFloat(row.total_cost))
+      )
+
+      if (correction.action === 'settle') {
+        return settleReservedBalance(reservation, correction.amount, metadata)
+      }
+
+      // The refund is logged as its own transaction; the hold is the one
+      // the finding is about
+      const released = await releaseReservedBalance(reservation, 'stale hold')
+      return released ? hold.id : null
+    }
+  }
+}
+
+/**
+ * Close a finding with its corrective adjustment, or dismiss it
+ * The finding is claimed first so a double click cannot adjust twice
+ */
+export async function resolveFinding(
+  findingId: string,
+  action: ReconciliationAction,
+  resolvedBy: string
+): Promise<ResolveFindingResult> {
+  try {
+    const supabase = createAdminClient()
+    const { data: claimed, error } = await supabase
+      .from('billing_reconciliation_findings')
+      .update({
+        status: action === 'adjust' ? 'resolved' : 'dismissed',
+        resolution: action === 'adjust' ? 'adjusted' : 'dismissed',
+        resolved_by: resolvedBy,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', findingId)
+      .eq('status', 'open')
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to claim reconciliation finding:', error)
+      return { success: false, error: 'Failed to update finding' }
+    }
+
+    if (!claimed) {
+      return { success: false, error: 'Finding is not open' }
+    }
+
+    const finding = mapFindingRow(claimed)
+
+    if (action === 'dismiss') {
+      return { success: true, finding }
+    }
+
+    const adjustmentTransactionId = await applyCorrection(finding)
+
+    if (adjustmentTransactionId === null) {
+      await supabase
+        .from('billing_reconciliation_findings')
+        .update({
+          status: 'open',
+          resolution: null,
+          resolved_by: null,
+          resolved_at: null
+        })
+        .eq('id', findingId)
+
+      return {
+        success: false,
+        finding,
+        error: 'Failed to apply the adjustment'
+      }
+    }
+
+    const { data: updated } = await supabase
+      .from('billing_reconciliation_findings')
+      .update({
+        resolution: adjustmentTransactionId ? 'adjusted' : 'no_longer_detected',
+        adjustment_transaction_id: adjustmentTransactionId ?? null
+      })
+      .eq('id', findingId)
+      .select('*')
+      .single()
+
+    console.log(
+      `Reconciliation finding ${findingId} (${finding.kind}) resolved by ${resolvedBy}` +
+        (adjustmentTransactionId
+          ? ` with adjustment ${adjustmentTransactionId}`
+          : '')
+    )
+
+    return {
+      success: true,
+      finding: updated ? mapFindingRow(updated) : finding
+    }
+  } catch (error) {
+    console.error('Error resolving reconciliation finding:', error)
+    return { success: false, error: 'Failed to resolve finding' }
+  }
+}
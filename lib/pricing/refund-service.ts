@@ -0,0 +1,136 @@
+/**
+ * Refund Service
+ *
+ * Stripe refunds of deposits in the ledger. A deposit can be refunded several
+ * times, in part or in full, from the admin console or the Stripe dashboard;
+ * each refund is deducted from the wallet the deposit credited, once, keyed
+ * by its Stripe refund id.
+ */
+
+import type Stripe from 'stripe'
+
+import {
+  fromMinorUnits,
+  getDepositWalletId,
+  getRefundDebit,
+  listChargeRefunds
+} from '@/lib/stripe/payment-service'
+
+import { postBalanceChange } from './balance-service'
+
+export interface DepositRefundState {
+  chargeId: string
+  currency: string // Payment currency
+  chargedAmount: number // Smallest unit of the payment currency
+  refundedAmount: number
+  refundableAmount: number
+}
+
+// Refunds that did not or will not return money
+const VOID_REFUND_STATUSES = ['failed', 'canceled']
+
+function getChargeId(paymentIntent: Stripe.PaymentIntent): string | null {
+  const charge = paymentIntent.latest_charge
+  return typeof charge === 'string' ? charge : (charge?.id ?? null)
+}
+
+/**
+ * How much of a deposit has been refunded and how much still can be
+ * @returns The state, or null if the payment intent was never charged
+ */
+export async function getDepositRefundState(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<DepositRefundState | null> {
+  const chargeId = getChargeId(paymentIntent)
+
+  if (!chargeId || paymentIntent.status !== 'succeeded') {
+    return null
+  }
+
+  const refunds = await listChargeRefunds(chargeId)
+  const refundedAmount = refunds
+    .filter(r => !VOID_REFUND_STATUSES.includes(r.status ?? ''))
+    .reduce((sum, r) => sum + r.amount, 0)
+
+  return {
+    chargeId,
+    currency: paymentIntent.currency.toUpperCase(),
+    chargedAmount: paymentIntent.amount_received,
+    refundedAmount,
+    refundableAmount: Math.max(
+      paymentIntent.amount_received - refundedAmount,
+      0
+    )
+  }
+}
+
+/**
+ * Deduct a Stripe refund from the wallet its deposit credited
+ * Recording the same refund again returns the existing transaction
+ * @returns Transaction ID on success, null on failure
+ */
+export async function recordDepositRefund(
+  refund: Stripe.Refund,
+  paymentIntent: Stripe.PaymentIntent
+): Promise<string | null> {
+  const { metadata } = paymentIntent
+  const walletId = getDepositWalletId(metadata)
+  const debit = getRefundDebit(
+    refund.amount,
+    paymentIntent.amount_received,
+    metadata
+  )
+
+  if (!walletId || debit === null) {
+    console.error(
+      `Missing deposit metadata for refund ${refund.id} of ${paymentIntent.id}`
+    )
+    return null
+  }
+
+  return postBalanceChange({
+    userId: walletId,
+    amount: -debit,
+    type: 'refund',
+    description: `Refund processed: ${refund.id}`,
+    stripeChargeId: getChargeId(paymentIntent) ?? undefined,
+    stripeRefundId: refund.id,
+    metadata: {
+      paymentIntentId: paymentIntent.id,
+      refundAmount: fromMinorUnits(refund.amount, refund.currency),
+      refundCurrency: refund.currency.toUpperCase(),
+      refundReason: refund.reason || 'unknown',
+      refundStatus: refund.status || 'unknown',
+      // Set when the refund was issued from the admin console
+      ...(refund.metadata?.adminEmail && {
+        refundedBy: refund.metadata.adminEmail,
+        adminReason: refund.metadata.reason
+      })
+    }
+  })
+}
+
+/**
+ * Record every refund of a charge that is not in the ledger yet
+ */
+export async function recordChargeRefunds(
+  chargeId: string,
+  paymentIntent: Stripe.PaymentIntent
+): Promise<{ recorded: string[]; failed: string[] }> {
+  const recorded: string[] = []
+  const failed: string[] = []
+
+  for (const refund of await listChargeRefunds(chargeId)) {
+    if (VOID_REFUND_STATUSES.includes(refund.status ?? '')) {
+      continue
+    }
+
+    if (await recordDepositRefund(refund, paymentIntent)) {
+      recorded.push(refund.id)
+    } else {
+      failed.push(refund.id)
+    }
+  }
+
+  return { recorded, failed }
+}
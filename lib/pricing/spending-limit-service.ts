@@ -0,0 +1,368 @@
+/**
+ * Spending Limit Service
+ *
+ * User-defined daily, monthly and per-request spending caps. Spend in a window
+ * is the sum of billed usage records in that window; windows are the current
+ * UTC day and UTC calendar month. The same row holds the estimated cost above
+ * which the chat asks for confirmation before sending; it never refuses a
+ * request.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+export type SpendingLimitType = 'daily' | 'monthly' | 'per_request'
+
+export interface SpendingLimits {
+  dailyLimit?: number // Undefined = no cap
+  monthlyLimit?: number // Undefined = no cap
+  perRequestLimit?: number // Undefined = no cap
+  confirmThreshold?: number // Undefined = never ask for confirmation
+  warningThreshold: number // Share of a cap (0-1) at which to warn
+}
+
+export interface SpendingTotals {
+  dailySpend: number
+  monthlySpend: number
+}
+
+export interface SpendingLimitWarning {
+  type: Exclude<SpendingLimitType, 'per_request'>
+  limit: number
+  spent: number
+  percentUsed: number // 0-100
+}
+
+export interface SpendingLimitExceeded {
+  type: SpendingLimitType
+  limit: number
+  spent: number // Spend in the window so far (0 for per_request)
+  required: number // Estimated maximum cost of the request
+}
+
+export interface SpendingLimitCheck {
+  allowed: boolean
+  exceeded?: SpendingLimitExceeded
+  warnings: SpendingLimitWarning[]
+}
+
+export const DEFAULT_WARNING_THRESHOLD = 0.8
+export const MAX_SPENDING_LIMIT = 100000
+
+// Spend is summed from DECIMAL(10, 6) costs; ignore float noise
+const EPSILON = 1e-9
+
+const LIMIT_LABELS: Record<SpendingLimitType, string> = {
+  daily: 'Daily',
+  monthly: 'Monthly',
+  per_request: 'Per-request'
+}
+
+function mapSpendingLimitsRow(row: any): SpendingLimits {
+  return {
+    dailyLimit:
+      row.daily_limit !== null ? parseFloat(row.daily_limit) : undefined,
+    monthlyLimit:
+      row.monthly_limit !== null ? parseFloat(row.monthly_limit) : undefined,
+    perRequestLimit:
+      row.per_request_limit !== null
+        ? parseFloat(row.per_request_limit)
+        : undefined,
+    confirmThreshold:
+      row.confirm_threshold !== null && row.confirm_threshold !== undefined
+        ? parseFloat(row.confirm_threshold)
+        : undefined,
+    warningThreshold: parseFloat(row.warning_threshold)
+  }
+}
+
+function hasAnyLimit(limits: SpendingLimits): boolean {
+  return (
+    limits.dailyLimit !== undefined ||
+    limits.monthlyLimit !== undefined ||
+    limits.perRequestLimit !== undefined
+  )
+}
+
+/**
+ * Start of the current UTC day and UTC calendar month
+ */
+export function getSpendingWindowStarts(now: Date = new Date()): {
+  dayStart: Date
+  monthStart: Date
+} {
+  return {
+    dayStart: new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    ),
+    monthStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  }
+}
+
+/**
+ * Validate spending limits before saving them
+ * @returns Error message, or null if the limits are valid
+ */
+export function validateSpendingLimits(limits: SpendingLimits): string | null {
+  for (const [type, limit] of [
+    ['daily', limits.dailyLimit],
+    ['monthly', limits.monthlyLimit],
+    ['per_request', limits.perRequestLimit]
+  ] as const) {
+    if (limit === undefined) {
+      continue
+    }
+
+    if (!Number.isFinite(limit) || limit <= 0) {
+      return `${LIMIT_LABELS[type]} limit must be a positive number`
+    }
+
+    if (limit > MAX_SPENDING_LIMIT) {
+      return `${LIMIT_LABELS[type]} limit cannot exceed ${MAX_SPENDING_LIMIT}`
+    }
+  }
+
+  if (limits.confirmThreshold !== undefined) {
+    if (
+      !Number.isFinite(limits.confirmThreshold) ||
+      limits.confirmThreshold <= 0
+    ) {
+      return 'Confirmation threshold must be a positive number'
+    }
+
+    if (limits.confirmThreshold > MAX_SPENDING_LIMIT) {
+      return `Confirmation threshold cannot exceed ${MAX_SPENDING_LIMIT}`
+    }
+  }
+
+  if (
+    !Number.isFinite(limits.warningThreshold) ||
+    limits.warningThreshold <= 0 ||
+    limits.warningThreshold >= 1
+  ) {
+    return 'Warning threshold must be between 0 and 1'
+  }
+
+  if (
+    limits.dailyLimit !== undefined &&
+    limits.monthlyLimit !== undefined &&
+    limits.dailyLimit > limits.monthlyLimit
+  ) {
+    return 'Daily limit cannot exceed the monthly limit'
+  }
+
+  if (
+    limits.perRequestLimit !== undefined &&
+    limits.dailyLimit !== undefined &&
+    limits.perRequestLimit > limits.dailyLimit
+  ) {
+    return 'Per-request limit cannot exceed the daily limit'
+  }
+
+  return null
+}
+
+/**
+ * Check a request against spending limits
+ * A request is refused if its estimated maximum cost exceeds the per-request
+ * limit, or would take the day's or month's spend over its cap
+ * @param requestCost - Estimated maximum billed cost of the request
+ */
+export function evaluateSpendingLimits(
+  limits: SpendingLimits,
+  totals: SpendingTotals,
+  requestCost: number = 0
+): SpendingLimitCheck {
+  const warnings: SpendingLimitWarning[] = []
+  let exceeded: SpendingLimitExceeded | undefined
+
+  if (
+    limits.perRequestLimit !== undefined &&
+    requestCost > limits.perRequestLimit + EPSILON
+  ) {
+    exceeded = {
+      type: 'per_request',
+      limit: limits.perRequestLimit,
+      spent: 0,
+      required: requestCost
+    }
+  }
+
+  for (const [type, limit, spent] of [
+    ['daily', limits.dailyLimit, totals.dailySpend],
+    ['monthly', limits.monthlyLimit, totals.monthlySpend]
+  ] as const) {
+    if (limit === undefined) {
+      continue
+    }
+
+    if (!exceeded && spent + requestCost > limit + EPSILON) {
+      exceeded = { type, limit, spent, required: requestCost }
+    }
+
+    if (spent >= limit * limits.warningThreshold - EPSILON) {
+      warnings.push({
+        type,
+        limit,
+        spent,
+        percentUsed: Math.min(Math.round((spent / limit) * 100), 100)
+      })
+    }
+  }
+
+  return { allowed: !exceeded, exceeded, warnings }
+}
+
+/**
+ * User-facing message for a refused request
+ */
+export function getSpendingLimitMessage(
+  exceeded: SpendingLimitExceeded
+): string {
+  const limit = `$${exceeded.limit.toFixed(2)}`
+
+  if (exceeded.type === 'per_request') {
+    return `This request may cost up to $${exceeded.required.toFixed(2)}, above your per-request limit of ${limit}. Choose a cheaper model or raise the limit.`
+  }
+
+  const window = exceeded.type === 'daily' ? 'today' : 'this month'
+  return `This request would exceed your ${exceeded.type} spending limit of ${limit} (spent ${window}: $${exceeded.spent.toFixed(2)}). Raise the limit in your account settings or try again later.`
+}
+
+/**
+ * Get a user's spending limits
+ * @returns The limits, or null if the user has not set any
+ */
+export async function getSpendingLimits(
+  userId: string
+): Promise<SpendingLimits | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('user_spending_limits')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch spending limits:', error)
+      return null
+    }
+
+    return data ? mapSpendingLimitsRow(data) : null
+  } catch (error) {
+    console.error('Error fetching spending limits:', error)
+    return null
+  }
+}
+
+/**
+ * Whether a request estimated to cost `estimatedCost` needs the user's
+ * confirmation before it is sent
+ */
+export function needsCostConfirmation(
+  estimatedCost: number,
+  confirmThreshold?: number
+): boolean {
+  return (
+    confirmThreshold !== undefined && estimatedCost > confirmThreshold + EPSILON
+  )
+}
+
+/**
+ * Save a user's spending limits (undefined limits are removed)
+ * @returns The saved limits, or null if they are invalid or saving failed
+ */
+export async function updateSpendingLimits(
+  userId: string,
+  limits: SpendingLimits
+): Promise<SpendingLimits | null> {
+  const validationError = validateSpendingLimits(limits)
+  if (validationError) {
+    console.error(`Invalid spending limits: ${validationError}`)
+    return null
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('user_spending_limits')
+      .upsert(
+        {
+          user_id: userId,
+          daily_limit: limits.dailyLimit ?? null,
+          monthly_limit: limits.monthlyLimit ?? null,
+          per_request_limit: limits.perRequestLimit ?? null,
+          confirm_threshold: limits.confirmThreshold ?? null,
+          warning_threshold: limits.warningThreshold,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'user_id' }
+      )
+      .select('*')
+      .single()
+
+    if (data && !error) {
+      return mapSpendingLimitsRow(data)
+    }
+
+    console.error('Failed to update spending limits:', error)
+    return null
+  } catch (error) {
+    console.error('Error updating spending limits:', error)
+    return null
+  }
+}
+
+/**
+ * Billed spend in the current UTC day and month, from usage records
+ */
+export async function getSpendingTotals(
+  userId: string,
+  now: Date = new Date()
+): Promise<SpendingTotals | null> {
+  const { dayStart, monthStart } = getSpendingWindowStarts(now)
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.rpc('get_spending_totals', {
+      p_user_id: userId,
+      p_day_start: dayStart.toISOString(),
+      p_month_start: monthStart.toISOString()
+    })
+
+    if (error || !data || data.length === 0) {
+      console.error('Failed to fetch spending totals:', error)
+      return null
+    }
+
+    return {
+      dailySpend: parseFloat(data[0].daily_spend),
+      monthlySpend: parseFloat(data[0].monthly_spend)
+    }
+  } catch (error) {
+    console.error('Error fetching spending totals:', error)
+    return null
+  }
+}
+
+/**
+ * Check a user's request against their spending limits
+ * Requests are allowed if the user has no limits or the check fails
+ * @param requestCost - Estimated maximum billed cost of the request
+ */
+export async function checkSpendingLimits(
+  userId: string,
+  requestCost: number = 0
+): Promise<SpendingLimitCheck> {
+  const limits = await getSpendingLimits(userId)
+  if (!limits || !hasAnyLimit(limits)) {
+    return { allowed: true, warnings: [] }
+  }
+
+  const totals = await getSpendingTotals(userId)
+  if (!totals) {
+    return { allowed: true, warnings: [] }
+  }
+
+  return evaluateSpendingLimits(limits, totals, requestCost)
+}
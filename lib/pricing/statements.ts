@@ -0,0 +1,472 @@
+/**
+ * Receipts and Statements
+ *
+ * Printable HTML documents for expense reports: a receipt per deposit and a
+ * monthly statement (opening balance, deposits, usage by model, refunds,
+ * adjustments, closing balance). Months are UTC calendar months (YYYY-MM).
+ */
+
+import { formatCost } from './format'
+import type { Transaction } from './transaction-service'
+import type { UsageRecord } from './usage-tracking'
+
+export interface StatementMonth {
+  month: string // YYYY-MM
+  startDate: Date // Inclusive, first day of the month
+  endDate: Date // Exclusive, first day of the next month
+}
+
+export interface StatementModelUsage {
+  model: string // provider:model, or UNATTRIBUTED_USAGE
+  calls: number
+  amount: number
+}
+
+export interface TransactionTotals {
+  totalDeposits: number
+  totalUsage: number
+  totalRefunds: number
+  totalAdjustments: number
+  transactionCount: number
+}
+
+export interface MonthlyStatement {
+  month: string // YYYY-MM
+  currency: string
+  openingBalance: number
+  closingBalance: number
+  totalDeposits: number
+  totalUsage: number
+  totalRefunds: number // Credits minus debits
+  netAdjustments: number // Credits minus debits
+  transactionCount: number
+  usageByModel: StatementModelUsage[] // Largest amount first
+  deposits: Transaction[]
+  refunds: Transaction[]
+  adjustments: Transaction[]
+}
+
+export interface BuildStatementParams {
+  month: StatementMonth
+  currency: string
+  /** Transactions of the month, in any order */
+  transactions: Transaction[]
+  /** Totals of the month from getTransactionStats */
+  stats: TransactionTotals
+  /** Usage records of the month, linked to usage transactions */
+  usageRecords: UsageRecord[]
+  /** Balance after the last transaction before the month */
+  previousBalance?: number
+}
+
+export const UNATTRIBUTED_USAGE = 'Other usage'
+
+const ISSUER = 'Morphic'
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/
+
+// Failed and refunded lines were never charged
+const UNBILLED_STATUSES = ['failed', 'refunded']
+
+function round(value: number, decimals: number = 6): number {
+  return parseFloat(value.toFixed(decimals))
+}
+
+function toMonthKey(date: Date): string {
+  return date.toISOString().slice(0, 7)
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short'
+  }).format(new Date(date))
+}
+
+function formatMonth(month: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  }).format(new Date(`${month}-01T00:00:00.000Z`))
+}
+
+/**
+ * Signed balance change of a transaction
+ * Refunds and adjustments are stored as absolute amounts and can go either
+ * way: a refund of a deposit debits the balance, a refund of usage credits it
+ */
+function getBalanceChange(transaction: Transaction): number {
+  switch (transaction.type) {
+    case 'deposit':
+      return transaction.amount
+    case 'usage':
+      return -transaction.amount
+    default:
+      return transaction.balanceAfter < transaction.balanceBefore
+        ? -transaction.amount
+        : transaction.amount
+  }
+}
+
+/**
+ * Parse a statement month (YYYY-MM)
+ * A missing month defaults to the current month
+ * @returns The month, or an error message if it is invalid or in the future
+ */
+export function parseStatementMonth(
+  month?: string | null,
+  now: Date = new Date()
+): StatementMonth | { error: string } {
+  const value = month || toMonthKey(now)
+  const match = MONTH_PATTERN.exec(value)
+
+  if (!match) {
+    return { error: 'Invalid month, expected YYYY-MM' }
+  }
+
+  const year = parseInt(match[1], 10)
+  const monthIndex = parseInt(match[2], 10) - 1
+
+  if (monthIndex < 0 || monthIndex > 11) {
+    return { error: 'Invalid month, expected YYYY-MM' }
+  }
+
+  if (value > toMonthKey(now)) {
+    return {
+      error: 'Statements are only available for past and current months'
+    }
+  }
+
+  return {
+    month: value,
+    startDate: new Date(Date.UTC(year, monthIndex, 1)),
+    endDate: new Date(Date.UTC(year, monthIndex + 1, 1))
+  }
+}
+
+/**
+ * Split the month's usage charges by model
+ * Each usage transaction is shared among its usage records in proportion to
+ * their cost, so the breakdown adds up to the usage actually charged
+ */
+export function groupUsageByModel(
+  transactions: Transaction[],
+  usageRecords: UsageRecord[]
+): StatementModelUsage[] {
+  const recordsByTransaction = new Map<string, UsageRecord[]>()
+
+  for (const record of usageRecords) {
+    if (!record.transactionId || UNBILLED_STATUSES.includes(record.status!)) {
+      continue
+    }
+    const records = recordsByTransaction.get(record.transactionId) ?? []
+    records.push(record)
+    recordsByTransaction.set(record.transactionId, records)
+  }
+
+  const byModel = new Map<string, StatementModelUsage>()
+  const add = (model: string, calls: number, amount: number) => {
+    const entry = byModel.get(model) ?? { model, calls: 0, amount: 0 }
+    entry.calls += calls
+    entry.amount += amount
+    byModel.set(model, entry)
+  }
+
+  for (const transaction of transactions) {
+    if (transaction.type !== 'usage' || transaction.amount === 0) {
+      continue
+    }
+
+    const records = recordsByTransaction.get(transaction.id) ?? []
+    const recordsCost = records.reduce((sum, r) => sum + r.totalCost, 0)
+
+    if (recordsCost <= 0) {
+      add(UNATTRIBUTED_USAGE, 0, transaction.amount)
+      continue
+    }
+
+    for (const record of records) {
+      add(
+        `${record.providerId}:${record.modelId}`,
+        1,
+        (transaction.amount * record.totalCost) / recordsCost
+      )
+    }
+  }
+
+  return Array.from(byModel.values())
+    .map(entry => ({ ...entry, amount: round(entry.amount) }))
+    .sort((a, b) => b.amount - a.amount)
+}
+
+/**
+ * Build a monthly statement
+ * The opening balance is the balance before the month's first transaction;
+ * the closing balance is the opening balance plus the month's movements
+ */
+export function buildMonthlyStatement({
+  month,
+  currency,
+  transactions,
+  stats,
+  usageRecords,
+  previousBalance = 0
+}: BuildStatementParams): MonthlyStatement {
+  const sorted = [...transactions].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  )
+  const refunds = sorted.filter(t => t.type === 'refund')
+  const adjustments = sorted.filter(t => t.type === 'adjustment')
+  const netRefunds = round(
+    refunds.reduce((sum, t) => sum + getBalanceChange(t), 0)
+  )
+  const netAdjustments = round(
+    adjustments.reduce((sum, t) => sum + getBalanceChange(t), 0)
+  )
+  const openingBalance =
+    sorted.length > 0 ? sorted[0].balanceBefore : previousBalance
+
+  return {
+    month: month.month,
+    currency,
+    openingBalance: round(openingBalance),
+    closingBalance: round(
+      openingBalance +
+        stats.totalDeposits +
+        netRefunds -
+        stats.totalUsage +
+        netAdjustments
+    ),
+    totalDeposits: round(stats.totalDeposits),
+    totalUsage: round(stats.totalUsage),
+    totalRefunds: netRefunds,
+    netAdjustments,
+    transactionCount: stats.transactionCount,
+    usageByModel: groupUsageByModel(sorted, usageRecords),
+    deposits: sorted.filter(t => t.type === 'deposit'),
+    refunds,
+    adjustments
+  }
+}
+
+function renderDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111; max-width: 760px; margin: 40px auto; padding: 0 24px; font-size: 14px; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #111; padding-bottom: 12px; margin-bottom: 24px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 16px; margin: 28px 0 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { font-weight: 600; background: #f5f5f5; }
+  .num { text-align: right; white-space: nowrap; }
+  .total td { font-weight: 600; border-top: 2px solid #111; }
+  .muted { color: #666; }
+  .print { margin-top: 32px; padding: 8px 16px; font-size: 14px; cursor: pointer; }
+  @media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+${body}
+<button class="print" onclick="window.print()">Print or save as PDF</button>
+</body>
+</html>
+`
+}
+
+function renderRows(rows: [string, string][]): string {
+  return rows
+    .map(
+      ([label, value]) =>
+        `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+    )
+    .join('\n')
+}
+
+function renderTransactionTable(
+  transactions: Transaction[],
+  currency: string,
+  emptyText: string
+): string {
+  if (transactions.length === 0) {
+    return `<p class="muted">${escapeHtml(emptyText)}</p>`
+  }
+
+  const rows = transactions
+    .map(
+      t =>
+        `<tr><td>${escapeHtml(formatDate(t.createdAt))}</td><td>${escapeHtml(
+          t.description || '-'
+        )}</td><td class="num">${escapeHtml(
+          formatCost(getBalanceChange(t), t.currency || currency)
+        )}</td></tr>`
+    )
+    .join('\n')
+
+  return `<table>
+<thead><tr><th>Date</th><th>Description</th><th class="num">Amount</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`
+}
+
+/**
+ * Amount paid, and for deposits paid in another currency the rate they were
+ * converted at and the amount credited
+ */
+function getPaymentRows(transaction: Transaction): [string, string][] {
+  const { depositAmount, depositCurrency, exchangeRate } =
+    transaction.metadata ?? {}
+
+  if (
+    typeof depositAmount !== 'number' ||
+    typeof depositCurrency !== 'string' ||
+    typeof exchangeRate !== 'number' ||
+    depositCurrency === transaction.currency
+  ) {
+    return [
+      ['Amount paid', formatCost(transaction.amount, transaction.currency)]
+    ]
+  }
+
+  return [
+    ['Amount paid', formatCost(depositAmount, depositCurrency)],
+    [
+      'Exchange rate',
+      `1 ${depositCurrency} = ${exchangeRate.toPrecision(6)} ${transaction.currency}`
+    ],
+    ['Amount credited', formatCost(transaction.amount, transaction.currency)]
+  ]
+}
+
+/**
+ * Render the receipt of a deposit as a printable HTML document
+ */
+export function renderReceiptHtml(
+  transaction: Transaction,
+  customerEmail?: string
+): string {
+  const rows: [string, string][] = [
+    ['Receipt number', transaction.id],
+    ['Date', formatDate(transaction.createdAt)],
+    ['Description', transaction.description || 'Account balance deposit'],
+    ...(customerEmail
+      ? [['Billed to', customerEmail] as [string, string]]
+      : []),
+    ...(transaction.stripePaymentIntentId
+      ? [
+          ['Payment reference', transaction.stripePaymentIntentId] as [
+            string,
+            string
+          ]
+        ]
+      : []),
+    ...getPaymentRows(transaction),
+    [
+      'Balance after deposit',
+      formatCost(transaction.balanceAfter, transaction.currency)
+    ]
+  ]
+
+  return renderDocument(
+    `${ISSUER} receipt ${transaction.id}`,
+    `<header><h1>${ISSUER}</h1><span>Receipt</span></header>
+<table>
+${renderRows(rows)}
+</table>
+<p class="muted">Prepaid credit for AI usage. Amounts are in ${escapeHtml(transaction.currency)}.</p>`
+  )
+}
+
+/**
+ * Render a monthly statement as a printable HTML document
+ */
+export function renderStatementHtml(
+  statement: MonthlyStatement,
+  customerEmail?: string
+): string {
+  const { currency } = statement
+  const money = (amount: number) => escapeHtml(formatCost(amount, currency))
+
+  const summary: [string, number][] = [
+    ['Opening balance', statement.openingBalance],
+    ['Deposits', statement.totalDeposits],
+    ['Usage', -statement.totalUsage || 0],
+    ['Refunds', statement.totalRefunds],
+    ['Adjustments', statement.netAdjustments]
+  ]
+  const summaryRows = summary
+    .map(
+      ([label, amount]) =>
+        `<tr><td>${label}</td><td class="num">${money(amount)}</td></tr>`
+    )
+    .join('\n')
+
+  const usageRows = statement.usageByModel
+    .map(
+      usage =>
+        `<tr><td>${escapeHtml(usage.model)}</td><td class="num">${
+          usage.calls || '-'
+        }</td><td class="num">${money(usage.amount)}</td></tr>`
+    )
+    .join('\n')
+
+  const usageTable =
+    statement.usageByModel.length === 0
+      ? '<p class="muted">No usage this month.</p>'
+      : `<table>
+<thead><tr><th>Model</th><th class="num">Calls</th><th class="num">Amount</th></tr></thead>
+<tbody>
+${usageRows}
+<tr class="total"><td>Total usage</td><td></td><td class="num">${money(statement.totalUsage)}</td></tr>
+</tbody>
+</table>`
+
+  return renderDocument(
+    `${ISSUER} statement ${statement.month}`,
+    `<header><h1>${ISSUER}</h1><span>Statement for ${escapeHtml(
+      formatMonth(statement.month)
+    )}</span></header>
+${customerEmail ? `<p>Account: ${escapeHtml(customerEmail)}</p>` : ''}
+<h2>Summary</h2>
+<table>
+<tbody>
+${summaryRows}
+<tr class="total"><td>Closing balance</td><td class="num">${money(statement.closingBalance)}</td></tr>
+</tbody>
+</table>
+<h2>Deposits</h2>
+${renderTransactionTable(statement.deposits, currency, 'No deposits this month.')}
+<h2>Usage by model</h2>
+${usageTable}
+<h2>Refunds</h2>
+${renderTransactionTable(statement.refunds, currency, 'No refunds this month.')}
+${
+  statement.adjustments.length > 0
+    ? `<h2>Adjustments</h2>
+${renderTransactionTable(statement.adjustments, currency, '')}`
+    : ''
+}
+<p class="muted">${statement.transactionCount} transactions. Dates are in UTC. Amounts are in ${escapeHtml(currency)}.</p>`
+  )
+}
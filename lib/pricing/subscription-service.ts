@@ -0,0 +1,212 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { createClient } from '@/lib/supabase/server'
+
+export interface SubscriptionPlan {
+  id: string
+  name: string
+  description?: string
+  stripePriceId?: string
+  monthlyPrice: number
+  monthlyAllowance: number
+  allowanceExpires: boolean // Unused allowance expires at the end of the period
+  pricingPlanId: string
+  isActive: boolean
+}
+
+export interface UserSubscription {
+  id?: string
+  userId: string
+  subscriptionPlanId: string
+  stripeSubscriptionId: string
+  stripeCustomerId: string
+  status: string // Stripe subscription status
+  currentPeriodStart?: Date
+  currentPeriodEnd?: Date
+  cancelAtPeriodEnd: boolean
+  canceledAt?: Date
+}
+
+// Subscription statuses that still grant the plan's benefits
+const LIVE_STATUSES = ['active', 'trialing', 'past_due']
+
+function mapPlanRow(row: any): SubscriptionPlan {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    stripePriceId: row.stripe_price_id ?? undefined,
+    monthlyPrice: parseFloat(row.monthly_price),
+    monthlyAllowance: parseFloat(row.monthly_allowance),
+    allowanceExpires: row.allowance_expires,
+    pricingPlanId: row.pricing_plan_id,
+    isActive: row.is_active
+  }
+}
+
+function mapSubscriptionRow(row: any): UserSubscription {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    subscriptionPlanId: row.subscription_plan_id,
+    stripeSubscriptionId: row.stripe_subscription_id,
+    stripeCustomerId: row.stripe_customer_id,
+    status: row.status,
+    currentPeriodStart: row.current_period_start
+      ? new Date(row.current_period_start)
+      : undefined,
+    currentPeriodEnd: row.current_period_end
+      ? new Date(row.current_period_end)
+      : undefined,
+    cancelAtPeriodEnd: row.cancel_at_period_end,
+    canceledAt: row.canceled_at ? new Date(row.canceled_at) : undefined
+  }
+}
+
+/**
+ * Whether a subscription still grants its plan's benefits
+ */
+export function isSubscriptionLive(subscription: UserSubscription): boolean {
+  return LIVE_STATUSES.includes(subscription.status)
+}
+
+/**
+ * Get the subscription plans users can buy
+ */
+export async function getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .eq('is_active', true)
+      .not('stripe_price_id', 'is', null)
+      .order('monthly_price')
+
+    if (data && !error) {
+      return data.map(mapPlanRow)
+    }
+
+    console.error('Failed to fetch subscription plans:', error)
+  } catch (error) {
+    console.error('Error fetching subscription plans:', error)
+  }
+
+  return []
+}
+
+/**
+ * Get a subscription plan by ID
+ * @param useAdmin - Use admin client to bypass RLS (for server-side operations like webhooks)
+ */
+export async function getSubscriptionPlan(
+  planId: string,
+  useAdmin: boolean = false
+): Promise<SubscriptionPlan | null> {
+  try {
+    const supabase = useAdmin ? createAdminClient() : await createClient()
+    const { data, error } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .eq('id', planId)
+      .single()
+
+    if (data && !error) {
+      return mapPlanRow(data)
+    }
+  } catch (error) {
+    console.error('Error fetching subscription plan:', error)
+  }
+
+  return null
+}
+
+/**
+ * Get the subscription plan sold under a Stripe price
+ */
+export async function getSubscriptionPlanByPriceId(
+  stripePriceId: string
+): Promise<SubscriptionPlan | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .eq('stripe_price_id', stripePriceId)
+      .single()
+
+    if (data && !error) {
+      return mapPlanRow(data)
+    }
+  } catch (error) {
+    console.error('Error fetching subscription plan by price:', error)
+  }
+
+  return null
+}
+
+/**
+ * Get a user's most recent subscription
+ * @param useAdmin - Use admin client to bypass RLS (for server-side operations like webhooks)
+ */
+export async function getUserSubscription(
+  userId: string,
+  useAdmin: boolean = false
+): Promise<UserSubscription | null> {
+  try {
+    const supabase = useAdmin ? createAdminClient() : await createClient()
+    const { data, error } = await supabase
+      .from('user_subscriptions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      console.error('Failed to fetch user subscription:', error)
+      return null
+    }
+
+    return data && data.length > 0 ? mapSubscriptionRow(data[0]) : null
+  } catch (error) {
+    console.error('Error fetching user subscription:', error)
+    return null
+  }
+}
+
+/**
+ * Create or update a user's subscription from its Stripe state
+ */
+export async function upsertUserSubscription(
+  subscription: UserSubscription
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('user_subscriptions').upsert(
+      {
+        user_id: subscription.userId,
+        subscription_plan_id: subscription.subscriptionPlanId,
+        stripe_subscription_id: subscription.stripeSubscriptionId,
+        stripe_customer_id: subscription.stripeCustomerId,
+        status: subscription.status,
+        current_period_start:
+          subscription.currentPeriodStart?.toISOString() ?? null,
+        current_period_end:
+          subscription.currentPeriodEnd?.toISOString() ?? null,
+        cancel_at_period_end: subscription.cancelAtPeriodEnd,
+        canceled_at: subscription.canceledAt?.toISOString() ?? null,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'stripe_subscription_id' }
+    )
+
+    if (!error) {
+      return true
+    }
+
+    console.error('Failed to save user subscription:', error)
+    return false
+  } catch (error) {
+    console.error('Error saving user subscription:', error)
+    return false
+  }
+}
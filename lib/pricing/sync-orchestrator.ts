@@ -4,11 +4,22 @@
  * Coordinates the entire pricing synchronization process
  */
 
+import defaultModels from '@/lib/config/default-models.json'
 import { createAdminClient } from '@/lib/supabase/admin'
 
 import { getProviderRegistry } from './providers/registry'
-import { PricingChangeDetector } from './change-detector'
-import { clearPricingCache } from './pricing-service'
+import { ProviderPricing } from './providers/types'
+import {
+  PricingChangeDetection,
+  PricingChangeDetector
+} from './change-detector'
+import { getLocalModelPricing } from './local-pricing'
+import {
+  queuePricingChanges,
+  resolvePendingPricingChanges
+} from './pricing-review-service'
+import { schedulePricingVersion } from './pricing-schedule-service'
+import { clearPricingCache, serializePricingTiers } from './pricing-service'
 import { validateBatchPricing } from './pricing-validator'
 import { ModelPricing } from './types'
 
@@ -20,12 +31,14 @@ export interface SyncResult {
     total: number
     successful: number
     failed: number
+    failures?: ProviderFailure[]
   }
   changes: {
     total: number
     applied: number
     skipped: number
     failed: number
+    queued: number // Flagged for review, see pending_pricing_changes
     newModels: number
     updatedModels: number
     removedModels: number
@@ -35,6 +48,18 @@ export interface SyncResult {
   metadata?: Record<string, any>
 }
 
+export interface ProviderFailure {
+  providerId: string
+  name: string
+  error: string
+}
+
+export interface SyncProgress {
+  stage: 'fetching' | 'validating' | 'detecting' | 'applying' | 'checking'
+  completed?: number
+  total?: number
+}
+
 export interface SyncOptions {
   /** Dry run - detect changes but don't apply */
   dryRun?: boolean
@@ -63,6 +88,39 @@ export interface SyncOptions {
 
   /** Additional metadata to include with sync */
   metadata?: Record<string, any>
+
+  /** Called as the sync moves through its stages; throw to abort the sync */
+  onProgress?: (progress: SyncProgress) => void | Promise<void>
+}
+
+interface CatalogModel {
+  id: string
+  providerId: string
+  enabled: boolean
+}
+
+/**
+ * Enabled catalog models that have no price
+ * Placeholder ids such as <AZURE_DEPLOYMENT_NAME> are skipped until they are
+ * replaced; local models always have their local price
+ * @param priced - providerId:modelId keys that have a price
+ * @param providers - Only check these providers (empty = all)
+ */
+export function findUnpricedModels(
+  models: CatalogModel[],
+  priced: Set<string>,
+  providers: string[] = []
+): string[] {
+  return models
+    .filter(
+      m =>
+        m.enabled &&
+        !/^<.*>$/.test(m.id) &&
+        (providers.length === 0 || providers.includes(m.providerId)) &&
+        !priced.has(`${m.providerId}:${m.id}`) &&
+        !getLocalModelPricing(m.id, m.providerId)
+    )
+    .map(m => `${m.providerId}:${m.id}`)
 }
 
 export class PricingSyncOrchestrator {
@@ -91,6 +149,7 @@ export class PricingSyncOrchestrator {
         applied: 0,
         skipped: 0,
         failed: 0,
+        queued: 0,
         newModels: 0,
         updatedModels: 0,
         removedModels: 0
@@ -107,6 +166,7 @@ export class PricingSyncOrchestrator {
       result.providers.total = providerResults.total
       result.providers.successful = providerResults.successful
       result.providers.failed = providerResults.failed
+      result.providers.failures = providerResults.failures
 
       if (providerResults.successful === 0) {
         throw new Error('Failed to fetch pricing from any provider')
@@ -114,6 +174,7 @@ export class PricingSyncOrchestrator {
 
       // Step 2: Validate fetched pricing
       if (!this.options.skipValidation) {
+        await this.reportProgress({ stage: 'validating' })
         const validation = validateBatchPricing(providerResults.pricing)
         if (!validation.valid) {
           result.warnings.push(
@@ -129,6 +190,7 @@ export class PricingSyncOrchestrator {
       }
 
       // Step 3: Detect changes
+      await this.reportProgress({ stage: 'detecting' })
       const changes = await this.changeDetector.detectChanges(providerResults.pricing)
       result.changes.total = changes.changes.length
       result.changes.newModels = changes.newModels
@@ -143,8 +205,21 @@ export class PricingSyncOrchestrator {
         result.changes.applied = applyResult.applied
         result.changes.skipped = applyResult.skipped
         result.changes.failed = applyResult.failed
+        result.changes.queued = applyResult.queued
         result.errors.push(...applyResult.errors)
 
+        if (applyResult.scheduled > 0) {
+          result.warnings.push(
+            `${applyResult.scheduled} announced price changes scheduled for their effective date`
+          )
+        }
+
+        if (applyResult.queued > 0) {
+          result.warnings.push(
+            `${applyResult.queued} changes queued for review`
+          )
+        }
+
         // Step 5: Clear cache after successful updates
         if (applyResult.applied > 0) {
           clearPricingCache()
@@ -156,10 +231,26 @@ export class PricingSyncOrchestrator {
       }
 
       // Step 6: Send alerts
-      if (this.options.alerts?.enabled && result.changes.applied > 0) {
+      if (
+        this.options.alerts?.enabled &&
+        (result.changes.applied > 0 || result.changes.queued > 0)
+      ) {
         await this.sendAlerts(result, changes)
       }
 
+      // Step 7: Chats on a model without a price are not charged
+      await this.reportProgress({ stage: 'checking' })
+      const unpriced = findUnpricedModels(
+        defaultModels.models,
+        await this.getPricedModels(providerResults.pricing),
+        this.options.providers
+      )
+      if (unpriced.length > 0) {
+        throw new Error(
+          `No pricing for ${unpriced.length} enabled models: ${unpriced.join(', ')}`
+        )
+      }
+
       result.success = true
       result.metadata = this.options.metadata
       console.log('✅ Pricing sync completed successfully')
@@ -174,6 +265,12 @@ export class PricingSyncOrchestrator {
     return result
   }
 
+  private async reportProgress(progress: SyncProgress): Promise<void> {
+    if (this.options.onProgress) {
+      await this.options.onProgress(progress)
+    }
+  }
+
   /**
    * Fetch pricing from all configured providers
    */
@@ -181,6 +278,7 @@ export class PricingSyncOrchestrator {
     total: number
     successful: number
     failed: number
+    failures: ProviderFailure[]
     pricing: ModelPricing[]
   }> {
     const registry = getProviderRegistry()
@@ -195,11 +293,13 @@ export class PricingSyncOrchestrator {
     }
 
     console.log(`📡 Fetching from ${providers.length} providers...`)
+    await this.reportProgress({ stage: 'fetching', total: providers.length })
 
     const results = {
       total: providers.length,
       successful: 0,
       failed: 0,
+      failures: [] as ProviderFailure[],
       pricing: [] as ModelPricing[]
     }
 
@@ -215,10 +315,20 @@ export class PricingSyncOrchestrator {
           console.log(`  ✓ ${provider.name}: ${result.pricing.length} models`)
         } else {
           results.failed++
+          results.failures.push({
+            providerId: provider.providerId,
+            name: provider.name,
+            error: result.errors?.join(', ') || 'Unknown error'
+          })
           console.log(`  ✗ ${provider.name}: ${result.errors?.join(', ')}`)
         }
       } catch (error) {
         results.failed++
+        results.failures.push({
+          providerId: provider.providerId,
+          name: provider.name,
+          error: error instanceof Error ? error.message : String(error)
+        })
         console.error(`  ✗ ${provider.name}: ${error}`)
       }
     })
@@ -229,6 +339,29 @@ export class PricingSyncOrchestrator {
     return results
   }
 
+  /**
+   * providerId:modelId keys priced by the providers or active in the database
+   */
+  private async getPricedModels(pricing: ModelPricing[]): Promise<Set<string>> {
+    const priced = new Set(pricing.map(p => `${p.providerId}:${p.modelId}`))
+
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('model_pricing')
+      .select('model_id, provider_id')
+      .eq('is_active', true)
+
+    if (error) {
+      throw new Error(`Failed to fetch database pricing: ${error.message}`)
+    }
+
+    for (const row of data || []) {
+      priced.add(`${row.provider_id}:${row.model_id}`)
+    }
+
+    return priced
+  }
+
   /**
    * Apply detected changes to the database
    */
@@ -236,20 +369,38 @@ export class PricingSyncOrchestrator {
     applied: number
     skipped: number
     failed: number
+    queued: number
+    scheduled: number
     errors: string[]
   }> {
     const result = {
       applied: 0,
       skipped: 0,
       failed: 0,
+      queued: 0,
+      scheduled: 0,
       errors: [] as string[]
     }
 
     const supabase = createAdminClient()
+    const flagged: PricingChangeDetection[] = []
+    const resolved: PricingChangeDetection[] = []
+    const announced: PricingChangeDetection[] = []
 
     // Filter changes to apply
     const toApply = changes.changes.filter((c: any) => {
       if (c.changeType === 'unchanged') {
+        resolved.push(c)
+        result.skipped++
+        return false
+      }
+      // Prices a provider announced ahead of time take effect on their date
+      if (
+        (c.changeType === 'new' || c.changeType === 'updated') &&
+        c.newPricing?.effectiveDate &&
+        new Date(c.newPricing.effectiveDate) > new Date()
+      ) {
+        announced.push(c)
         result.skipped++
         return false
       }
@@ -259,6 +410,7 @@ export class PricingSyncOrchestrator {
         return false
       }
       if (!c.autoApplicable && !this.options.force) {
+        flagged.push(c)
         result.skipped++
         console.log(`  ⏭️ Skipping ${c.modelId} (requires review)`)
         return false
@@ -269,7 +421,13 @@ export class PricingSyncOrchestrator {
     console.log(`📝 Applying ${toApply.length} changes...`)
 
     // Apply changes in batches
-    for (const change of toApply) {
+    for (const [index, change] of toApply.entries()) {
+      await this.reportProgress({
+        stage: 'applying',
+        completed: index,
+        total: toApply.length
+      })
+
       try {
         if (change.changeType === 'new' || change.changeType === 'updated') {
           const { error } = await supabase
@@ -279,11 +437,18 @@ export class PricingSyncOrchestrator {
               provider_id: change.newPricing.providerId,
               input_price_per_1k_tokens: change.newPricing.inputPricePer1kTokens,
               output_price_per_1k_tokens: change.newPricing.outputPricePer1kTokens,
+              cached_input_price_per_1k_tokens: change.newPricing.cachedInputPricePer1kTokens ?? null,
+              cache_write_price_per_1k_tokens: change.newPricing.cacheWritePricePer1kTokens ?? null,
+              reasoning_price_per_1k_tokens: change.newPricing.reasoningPricePer1kTokens ?? null,
+              image_input_price_per_1k_tokens: change.newPricing.imageInputPricePer1kTokens ?? null,
+              pricing_tiers: serializePricingTiers(change.newPricing.tiers),
               last_verified_at: new Date().toISOString(),
               verified_source: 'auto-sync',
               is_active: true,
               verification_metadata: {
                 sync_timestamp: new Date().toISOString(),
+                // Groups the history entries of one sync run for rollbacks
+                sync_started_at: this.startTime?.toISOString(),
                 change_type: change.changeType,
                 change_percent: change.changePercent
               }
@@ -295,6 +460,7 @@ export class PricingSyncOrchestrator {
             console.error(`  ✗ Failed to update ${change.modelId}:`, error)
           } else {
             result.applied++
+            resolved.push(change)
             console.log(`  ✓ Updated ${change.modelId}`)
           }
         } else if (change.changeType === 'removed' && this.options.force) {
@@ -325,6 +491,32 @@ export class PricingSyncOrchestrator {
       }
     }
 
+    for (const change of announced) {
+      const newPricing = change.newPricing as ProviderPricing
+      const scheduled = await schedulePricingVersion(
+        newPricing,
+        newPricing.effectiveDate!,
+        newPricing.expiryDate ? new Date(newPricing.expiryDate) : undefined,
+        { changedBy: 'auto-sync', source: 'auto-sync', reason: 'Announced by provider' }
+      )
+
+      if (scheduled.success) {
+        result.scheduled++
+        console.log(`  🗓️ Scheduled ${change.modelId} from ${newPricing.effectiveDate!.toISOString()}`)
+      } else {
+        result.failed++
+        result.errors.push(`Failed to schedule ${change.modelId}: ${scheduled.error}`)
+      }
+    }
+
+    // Flagged changes wait for an admin; earlier ones that no longer
+    // apply are dropped
+    await resolvePendingPricingChanges(resolved)
+    result.queued = await queuePricingChanges(flagged, 'auto-sync')
+    if (result.queued > 0) {
+      console.log(`📥 Queued ${result.queued} changes for review`)
+    }
+
     return result
   }
 
@@ -0,0 +1,344 @@
+/**
+ * Sync Run Service
+ *
+ * Keeps two runs of a sync from overlapping and records each run in
+ * sync_logs. A run holds a Redis lease (see lib/redis/lease-lock.ts) while
+ * it works and renews it as it reports progress; its sync_logs row is
+ * 'running' until it sets 'succeeded' or 'failed'. A running row whose
+ * lease expired belongs to a run that died, and is marked failed the next
+ * time a run starts. If Redis is unavailable, the unique index on running
+ * rows still lets only one run start.
+ */
+
+import {
+  acquireLease,
+  Lease,
+  releaseLease,
+  renewLease
+} from '@/lib/redis/lease-lock'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import type { SyncProgress, SyncResult } from './sync-orchestrator'
+
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed'
+
+export interface SyncRun {
+  id: string
+  syncType: string
+  source: string
+  createdBy: string
+  status: SyncRunStatus
+  startedAt: Date
+  finishedAt?: Date
+  leaseExpiresAt?: Date
+  progress?: SyncProgress
+  changesApplied: number
+  errorMessage?: string
+}
+
+export interface SyncRunHandle {
+  run: SyncRun
+  lease: Lease | null // Null when Redis is unavailable
+  lastProgressAt: number
+  lastStage?: SyncProgress['stage']
+}
+
+export type StartSyncRunResult =
+  | { started: true; handle: SyncRunHandle }
+  | { started: false; running: SyncRun | null }
+
+export const PRICING_SYNC_TYPE = 'pricing'
+
+// How long a lease lasts without being renewed
+export const SYNC_LEASE_MS = 5 * 60 * 1000
+
+// Progress within a stage is saved (and the lease renewed) at most this often
+const PROGRESS_INTERVAL_MS = 5000
+
+// Postgres unique_violation: another run of the type is running
+const UNIQUE_VIOLATION = '23505'
+
+function leaseKey(syncType: string): string {
+  return `lock:sync:${syncType}`
+}
+
+function mapSyncRunRow(row: any): SyncRun {
+  return {
+    id: row.id,
+    syncType: row.sync_type,
+    source: row.source,
+    createdBy: row.created_by,
+    status: row.status,
+    startedAt: new Date(row.started_at ?? row.created_at),
+    finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+    leaseExpiresAt: row.lease_expires_at
+      ? new Date(row.lease_expires_at)
+      : undefined,
+    progress: row.progress ?? undefined,
+    changesApplied: row.changes_applied ?? 0,
+    errorMessage: row.error_message ?? undefined
+  }
+}
+
+/**
+ * Whether a running sync's lease expired, i.e. the run died without
+ * finishing
+ */
+export function isSyncRunStale(run: SyncRun, now: Date = new Date()): boolean {
+  return (
+    run.status === 'running' &&
+    (!run.leaseExpiresAt || run.leaseExpiresAt.getTime() <= now.getTime())
+  )
+}
+
+/**
+ * Mark running syncs whose lease expired as failed
+ * @returns The number of stale runs
+ */
+export async function failStaleSyncRuns(
+  syncType: string,
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('sync_logs')
+      .update({
+        status: 'failed',
+        success: false,
+        finished_at: now.toISOString(),
+        error_message: 'Sync stopped without finishing (lease expired)'
+      })
+      .eq('sync_type', syncType)
+      .eq('status', 'running')
+      .or(`lease_expires_at.is.null,lease_expires_at.lte.${now.toISOString()}`)
+      .select('id')
+
+    if (error) {
+      console.error('Failed to mark stale sync runs:', error)
+      return 0
+    }
+
+    if (data && data.length > 0) {
+      console.warn(
+        `Marked ${data.length} stale ${syncType} sync runs as failed`
+      )
+    }
+
+    return data?.length ?? 0
+  } catch (error) {
+    console.error('Error marking stale sync runs:', error)
+    return 0
+  }
+}
+
+/**
+ * The sync of a type that is running, or null if none is
+ */
+export async function getRunningSyncRun(
+  syncType: string
+): Promise<SyncRun | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('sync_logs')
+      .select('*')
+      .eq('sync_type', syncType)
+      .eq('status', 'running')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch running sync:', error)
+      return null
+    }
+
+    return data ? mapSyncRunRow(data) : null
+  } catch (error) {
+    console.error('Error fetching running sync:', error)
+    return null
+  }
+}
+
+/**
+ * The last sync of a type that succeeded
+ */
+export async function getLastSucceededSyncRun(
+  syncType: string
+): Promise<SyncRun | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('sync_logs')
+      .select('*')
+      .eq('sync_type', syncType)
+      .eq('status', 'succeeded')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch last sync:', error)
+      return null
+    }
+
+    return data ? mapSyncRunRow(data) : null
+  } catch (error) {
+    console.error('Error fetching last sync:', error)
+    return null
+  }
+}
+
+/**
+ * Take the sync's lock and record the run as running
+ * Stale runs are failed first. When another run holds the lock, returns it
+ * (null if it has not recorded its run yet).
+ */
+export async function startSyncRun(
+  syncType: string,
+  source: string,
+  createdBy: string
+): Promise<StartSyncRunResult> {
+  await failStaleSyncRuns(syncType)
+
+  const id = crypto.randomUUID()
+  let lease: Lease | null = null
+
+  try {
+    lease = await acquireLease(leaseKey(syncType), id, createdBy, SYNC_LEASE_MS)
+    if (!lease) {
+      return { started: false, running: await getRunningSyncRun(syncType) }
+    }
+  } catch (error) {
+    // The unique index on running rows still keeps runs from overlapping
+    console.error('Sync lock unavailable, relying on sync_logs:', error)
+  }
+
+  const now = new Date()
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('sync_logs')
+    .insert({
+      id,
+      sync_type: syncType,
+      source,
+      created_by: createdBy,
+      status: 'running',
+      success: false,
+      started_at: now.toISOString(),
+      lease_expires_at: new Date(now.getTime() + SYNC_LEASE_MS).toISOString()
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    if (lease) {
+      await releaseLease(lease).catch(() => false)
+    }
+
+    if (error.code === UNIQUE_VIOLATION) {
+      return { started: false, running: await getRunningSyncRun(syncType) }
+    }
+
+    throw new Error(`Failed to record sync run: ${error.message}`)
+  }
+
+  return {
+    started: true,
+    handle: { run: mapSyncRunRow(data), lease, lastProgressAt: 0 }
+  }
+}
+
+/**
+ * Save a running sync's progress and renew its lease
+ * Saves at most every few seconds within a stage. Throws if the run lost
+ * its lease, so the sync stops before another run starts applying changes.
+ */
+export async function reportSyncProgress(
+  handle: SyncRunHandle,
+  progress: SyncProgress
+): Promise<void> {
+  const now = Date.now()
+  if (
+    progress.stage === handle.lastStage &&
+    now - handle.lastProgressAt < PROGRESS_INTERVAL_MS
+  ) {
+    return
+  }
+
+  handle.lastStage = progress.stage
+  handle.lastProgressAt = now
+
+  if (handle.lease) {
+    let renewed = true
+    try {
+      renewed = await renewLease(handle.lease, SYNC_LEASE_MS)
+    } catch (error) {
+      console.error('Failed to renew sync lease:', error)
+    }
+
+    if (!renewed) {
+      throw new Error('Sync lock lease expired; another sync may be running')
+    }
+  }
+
+  const leaseExpiresAt = new Date(now + SYNC_LEASE_MS)
+  handle.run.progress = progress
+  handle.run.leaseExpiresAt = leaseExpiresAt
+
+  const supabase = createAdminClient()
+  const { error } = await supabase
+    .from('sync_logs')
+    .update({
+      progress,
+      lease_expires_at: leaseExpiresAt.toISOString()
+    })
+    .eq('id', handle.run.id)
+
+  if (error) {
+    console.error('Failed to save sync progress:', error)
+  }
+}
+
+/**
+ * Record a sync's result and release its lock
+ */
+export async function finishSyncRun(
+  handle: SyncRunHandle,
+  result: SyncResult,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('sync_logs')
+      .update({
+        status: result.success ? 'succeeded' : 'failed',
+        success: result.success,
+        finished_at: new Date().toISOString(),
+        changes_applied: result.changes.applied,
+        duration_ms: result.duration,
+        error_message:
+          result.errors.length > 0 ? result.errors.join('; ') : null,
+        metadata: {
+          providers: result.providers,
+          changes: result.changes,
+          errors: result.errors,
+          warnings: result.warnings,
+          ...metadata
+        }
+      })
+      .eq('id', handle.run.id)
+
+    if (error) {
+      console.error('Failed to record sync result:', error)
+    }
+  } catch (error) {
+    console.error('Error recording sync result:', error)
+  } finally {
+    if (handle.lease) {
+      await releaseLease(handle.lease).catch(error =>
+        console.error('Failed to release sync lease:', error)
+      )
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { createClient } from '@/lib/supabase/server'
+
+import { ToolName, ToolPricing, ToolSearchDepth } from './types'
+
+/**
+ * Default per-call prices (USD), used when the tool_pricing table has no row
+ * Mirrors the seed data in 20251019000011_create_tool_pricing_table.sql
+ */
+export const DEFAULT_TOOL_PRICING: ToolPricing[] = [
+  {
+    toolName: 'search',
+    provider: 'tavily',
+    searchDepth: 'basic',
+    pricePerCall: 0.008
+  },
+  {
+    toolName: 'search',
+    provider: 'tavily',
+    searchDepth: 'advanced',
+    pricePerCall: 0.016
+  },
+  {
+    toolName: 'search',
+    provider: 'exa',
+    searchDepth: 'basic',
+    pricePerCall: 0.005
+  },
+  {
+    toolName: 'search',
+    provider: 'exa',
+    searchDepth: 'advanced',
+    pricePerCall: 0.01
+  },
+  {
+    toolName: 'search',
+    provider: 'firecrawl',
+    searchDepth: 'basic',
+    pricePerCall: 0.005
+  },
+  {
+    toolName: 'search',
+    provider: 'firecrawl',
+    searchDepth: 'advanced',
+    pricePerCall: 0.01
+  },
+  {
+    toolName: 'search',
+    provider: 'searxng',
+    searchDepth: 'basic',
+    pricePerCall: 0
+  },
+  {
+    toolName: 'search',
+    provider: 'searxng',
+    searchDepth: 'advanced',
+    pricePerCall: 0
+  },
+  {
+    toolName: 'retrieve',
+    provider: 'jina',
+    searchDepth: 'basic',
+    pricePerCall: 0.002
+  },
+  {
+    toolName: 'retrieve',
+    provider: 'tavily',
+    searchDepth: 'basic',
+    pricePerCall: 0.002
+  },
+  {
+    toolName: 'video_search',
+    provider: 'serper',
+    searchDepth: 'basic',
+    pricePerCall: 0.001
+  }
+]
+
+// In-memory cache for tool pricing (TTL: 5 minutes)
+const toolPricingCache = new Map<
+  string,
+  { data: ToolPricing; timestamp: number }
+>()
+const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+function getCacheKey(
+  toolName: ToolName,
+  provider: string,
+  searchDepth: ToolSearchDepth
+): string {
+  return `${toolName}:${provider}:${searchDepth}`
+}
+
+function mapToolPricingRow(row: any): ToolPricing {
+  return {
+    toolName: row.tool_name,
+    provider: row.provider,
+    searchDepth: row.search_depth,
+    pricePerCall: parseFloat(row.price_per_call),
+    updatedAt: new Date(row.updated_at)
+  }
+}
+
+/**
+ * Get the per-call price of a tool from database or default fallback
+ */
+export async function getToolPricing(
+  toolName: ToolName,
+  provider: string,
+  searchDepth: ToolSearchDepth = 'basic'
+): Promise<ToolPricing | null> {
+  const cacheKey = getCacheKey(toolName, provider, searchDepth)
+
+  // Check cache first
+  const cached = toolPricingCache.get(cacheKey)
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data
+  }
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('tool_pricing')
+      .select('*')
+      .eq('tool_name', toolName)
+      .eq('provider', provider)
+      .eq('search_depth', searchDepth)
+      .single()
+
+    if (data && !error) {
+      const pricing = mapToolPricingRow(data)
+      toolPricingCache.set(cacheKey, { data: pricing, timestamp: Date.now() })
+      return pricing
+    }
+  } catch (dbError) {
+    console.warn(
+      `Failed to fetch tool pricing from database for ${cacheKey}:`,
+      dbError
+    )
+  }
+
+  // Fallback to defaults
+  const fallback = DEFAULT_TOOL_PRICING.find(
+    p =>
+      p.toolName === toolName &&
+      p.provider === provider &&
+      p.searchDepth === searchDepth
+  )
+
+  if (!fallback) {
+    console.warn(`No tool pricing found for ${cacheKey}`)
+    return null
+  }
+
+  return fallback
+}
+
+/**
+ * Get all tool pricing, with defaults filled in for rows not in the database
+ */
+export async function getAllToolPricing(): Promise<ToolPricing[]> {
+  let rows: ToolPricing[] = []
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('tool_pricing')
+      .select('*')
+      .order('tool_name')
+      .order('provider')
+      .order('search_depth')
+
+    if (data && !error) {
+      rows = data.map(mapToolPricingRow)
+    }
+  } catch (error) {
+    console.warn('Failed to fetch all tool pricing from database:', error)
+  }
+
+  const missingDefaults = DEFAULT_TOOL_PRICING.filter(
+    d =>
+      !rows.some(
+        r =>
+          r.toolName === d.toolName &&
+          r.provider === d.provider &&
+          r.searchDepth === d.searchDepth
+      )
+  )
+
+  return [...rows, ...missingDefaults]
+}
+
+/**
+ * Update the per-call price of a tool (admin function)
+ */
+export async function updateToolPricing(
+  toolName: ToolName,
+  provider: string,
+  searchDepth: ToolSearchDepth,
+  pricePerCall: number
+): Promise<boolean> {
+  if (!Number.isFinite(pricePerCall) || pricePerCall < 0) {
+    console.error('Tool price must be a non-negative number')
+    return false
+  }
+
+  try {
+    // Use admin client for writes to bypass RLS
+    const supabase = createAdminClient()
+    const { error } = await supabase.from('tool_pricing').upsert(
+      {
+        tool_name: toolName,
+        provider,
+        search_depth: searchDepth,
+        price_per_call: pricePerCall,
+        updated_at: new Date().toISOString()
+      },
+      {
+        onConflict: 'tool_name,provider,search_depth'
+      }
+    )
+
+    if (!error) {
+      // Invalidate cache
+      toolPricingCache.delete(getCacheKey(toolName, provider, searchDepth))
+      return true
+    }
+
+    console.error('Failed to update tool pricing:', error)
+    return false
+  } catch (error) {
+    console.error('Error updating tool pricing:', error)
+    return false
+  }
+}
+
+/**
+ * Clear the tool pricing cache (useful for testing or force refresh)
+ */
+export function clearToolPricingCache() {
+  toolPricingCache.clear()
+}
@@ -14,6 +14,7 @@ export interface Transaction {
   description?: string
   stripePaymentIntentId?: string
   stripeChargeId?: string
+  stripeRefundId?: string
   metadata?: Record<string, unknown>
   createdAt: Date
 }
@@ -29,6 +30,7 @@ export interface TransactionRecord {
   description?: string
   stripe_payment_intent_id?: string
   stripe_charge_id?: string
+  stripe_refund_id?: string
   metadata?: Record<string, unknown>
   created_at: string
 }
@@ -47,6 +49,7 @@ export async function createTransaction(params: {
   description?: string
   stripePaymentIntentId?: string
   stripeChargeId?: string
+  stripeRefundId?: string
   metadata?: Record<string, unknown>
 }): Promise<string | null> {
   try {
@@ -65,19 +68,28 @@ export async function createTransaction(params: {
         description: params.description,
         stripe_payment_intent_id: params.stripePaymentIntentId,
         stripe_charge_id: params.stripeChargeId,
+        stripe_refund_id: params.stripeRefundId,
         metadata: params.metadata
       })
       .select('id')
       .single()
 
     if (error) {
-      // 23505 = unique constraint violation (duplicate payment intent)
+      // 23505 = unique constraint violation (duplicate payment intent or refund)
       // This is expected during race conditions - one webhook wins, others fail gracefully
       if (error.code === '23505') {
         console.warn(
-          `Transaction already exists for payment intent ${params.stripePaymentIntentId} - skipping duplicate`
+          `Transaction already exists for ${params.stripeRefundId ?? `payment intent ${params.stripePaymentIntentId}`} - skipping duplicate`
         )
         // Try to get the existing transaction ID
+        if (params.stripeRefundId) {
+          const { data: existing } = await supabase
+            .from('transactions')
+            .select('id')
+            .eq('stripe_refund_id', params.stripeRefundId)
+            .maybeSingle()
+          return existing?.id || null
+        }
         if (params.stripePaymentIntentId) {
           const existing = await getTransactionByPaymentIntent(
             params.stripePaymentIntentId,
@@ -99,20 +111,33 @@ export async function createTransaction(params: {
 }
 
 /**
- * Get user's transaction history
+ * Get user's transaction history, newest first
+ * @param startDate - Only transactions at or after this date
+ * @param endDate - Only transactions before this date
+ * @param useAdmin - Use admin client to bypass RLS (for admin pages)
  */
 export async function getUserTransactions(
   userId: string,
   limit: number = 50,
-  offset: number = 0
+  offset: number = 0,
+  startDate?: Date,
+  endDate?: Date,
+  useAdmin: boolean = false
 ): Promise<Transaction[]> {
   try {
-    const supabase = await createClient()
+    const supabase = useAdmin ? createAdminClient() : await createClient()
 
-    const { data, error } = await supabase
-      .from('transactions')
-      .select('*')
-      .eq('user_id', userId)
+    let query = supabase.from('transactions').select('*').eq('user_id', userId)
+
+    if (startDate) {
+      query = query.gte('created_at', startDate.toISOString())
+    }
+
+    if (endDate) {
+      query = query.lt('created_at', endDate.toISOString())
+    }
+
+    const { data, error } = await query
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1)
 
@@ -130,12 +155,14 @@ export async function getUserTransactions(
 
 /**
  * Get transaction by ID
+ * @param useAdmin - Use admin client to bypass RLS (for admin pages)
  */
 export async function getTransactionById(
-  transactionId: string
+  transactionId: string,
+  useAdmin: boolean = false
 ): Promise<Transaction | null> {
   try {
-    const supabase = await createClient()
+    const supabase = useAdmin ? createAdminClient() : await createClient()
 
     const { data, error } = await supabase
       .from('transactions')
@@ -336,6 +363,7 @@ function mapTransactionRecord(record: TransactionRecord): Transaction {
     description: record.description,
     stripePaymentIntentId: record.stripe_payment_intent_id,
     stripeChargeId: record.stripe_charge_id,
+    stripeRefundId: record.stripe_refund_id,
     metadata: record.metadata,
     createdAt: new Date(record.created_at)
   }
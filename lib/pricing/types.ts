@@ -1,8 +1,30 @@
+/**
+ * Price band that applies when a call's prompt size falls within it,
+ * e.g. Gemini's long-context prompts. Prices are per 1k tokens and replace
+ * the model's base input/output price.
+ */
+export interface PricingTier {
+  minTokens: number
+  maxTokens?: number // Inclusive; open-ended when omitted
+  inputPrice: number
+  outputPrice: number
+}
+
 export interface ModelPricing {
   modelId: string
   providerId: string
   inputPricePer1kTokens: number
   outputPricePer1kTokens: number
+  // Optional token-class prices; each falls back to the input/output price
+  cachedInputPricePer1kTokens?: number // Prompt cache reads
+  cacheWritePricePer1kTokens?: number // Prompt cache writes
+  reasoningPricePer1kTokens?: number // Reasoning/thinking output
+  imageInputPricePer1kTokens?: number // Image input
+  tiers?: PricingTier[] // Prompt-size price bands
+  // Set when the price comes from model_pricing_versions
+  pricingVersionId?: string
+  effectiveFrom?: Date
+  effectiveUntil?: Date // Temporary prices; the previous version applies after
   createdAt?: Date
   updatedAt?: Date
 }
@@ -11,9 +33,82 @@ export interface CostCalculation {
   inputTokens: number
   outputTokens: number
   totalTokens: number
-  inputCost: number
-  outputCost: number
-  totalCost: number
+  inputCost: number // Provider cost of input tokens
+  outputCost: number // Provider cost of output tokens
+  providerCost: number // Raw provider cost (inputCost + outputCost)
+  totalCost: number // Billed amount: providerCost after markup
   modelId: string
   providerId: string
+  planId?: string // Pricing plan the markup was taken from
+  pricingVersionId?: string // Pricing version the cost was calculated with
+  cachedInputTokens?: number
+  cacheWriteTokens?: number
+  reasoningTokens?: number
+  imageInputTokens?: number
+}
+
+/**
+ * Breakdown of a call's token counts by billing class
+ * Each count is a subset of the call's input or output tokens
+ */
+export interface TokenUsageDetails {
+  cachedInputTokens?: number // Part of input tokens
+  cacheWriteTokens?: number // Part of input tokens
+  imageInputTokens?: number // Part of input tokens
+  reasoningTokens?: number // Part of output tokens
+}
+
+export type ToolName = 'search' | 'retrieve' | 'video_search'
+
+export type ToolSearchDepth = 'basic' | 'advanced'
+
+/**
+ * Per-call price of a metered tool (search, retrieve, video search),
+ * keyed by the backing provider and search depth
+ */
+export interface ToolPricing {
+  toolName: ToolName
+  provider: string // SearchProviderType for search, 'jina' | 'tavily' for retrieve, 'serper' for video search
+  searchDepth: ToolSearchDepth
+  pricePerCall: number
+  updatedAt?: Date
+}
+
+export type MarkupType = 'percentage' | 'fixed'
+
+/**
+ * User pricing plan (e.g. free, pro, enterprise)
+ */
+export interface PricingPlan {
+  id: string
+  name: string
+  description?: string
+  minChargePerRequest: number // USD, applied to each chat turn
+  isDefault: boolean
+  updatedAt?: Date
+}
+
+/**
+ * Markup over provider cost. A null scope field matches everything; the most
+ * specific active rule wins (model > provider > plan).
+ */
+export interface MarkupRule {
+  id?: string
+  planId: string | null
+  providerId: string | null
+  modelId: string | null
+  markupType: MarkupType
+  markupValue: number // Percent for 'percentage', USD per request for 'fixed'
+  description?: string
+  isActive: boolean
+  updatedAt?: Date
+}
+
+/**
+ * Markup rules and minimum charge that apply to one plan
+ */
+export interface PricingPolicy {
+  planId: string
+  rules: MarkupRule[]
+  minChargePerRequest: number
 }
@@ -0,0 +1,308 @@
+import { ProviderMetadata } from 'ai'
+
+import { applyPricingPolicy } from './pricing-policy-service'
+import { calculateCost, getModelPricing } from './pricing-service'
+import { getToolPricing } from './tool-pricing-service'
+import {
+  CostCalculation,
+  MarkupRule,
+  PricingPolicy,
+  TokenUsageDetails,
+  ToolName,
+  ToolSearchDepth
+} from './types'
+
+/**
+ * Kind of billable call made while answering a user turn
+ */
+export type UsageCallType =
+  | 'response'
+  | 'tool_selection'
+  | 'related_questions'
+  | 'tool_call'
+
+export interface TrackedCall {
+  model: string // "providerId:modelId", or "provider:toolName:depth" for tool calls
+  callType: UsageCallType
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  details?: TokenUsageDetails
+  tool?: {
+    name: ToolName
+    provider: string
+    searchDepth: ToolSearchDepth
+  }
+}
+
+export interface PricedCall extends TrackedCall {
+  callIndex: number
+  cost: CostCalculation
+}
+
+export interface PricedTurnUsage {
+  lines: PricedCall[]
+  unpriced: TrackedCall[]
+  providerCost: number // Raw provider cost of the turn
+  totalCost: number // Billed amount of the turn
+  minimumChargeAdjustment: number // Added to the first line to reach the plan minimum
+}
+
+/**
+ * Split a "providerId:modelId" string; model IDs may themselves contain ':'
+ */
+function parseModelString(model: string): {
+  providerId: string
+  modelId: string
+} {
+  const separator = model.indexOf(':')
+  return {
+    providerId: model.slice(0, separator),
+    modelId: model.slice(separator + 1)
+  }
+}
+
+function metadataCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0
+}
+
+/**
+ * Normalize a call's usage so prompt/completion tokens are totals and the
+ * cached, cache-write and reasoning tokens reported in the provider
+ * metadata are split out. Image input tokens are not reported by the SDK.
+ */
+function normalizeUsage(
+  usage: { promptTokens: number; completionTokens: number },
+  providerMetadata?: ProviderMetadata
+): {
+  promptTokens: number
+  completionTokens: number
+  details: TokenUsageDetails
+} {
+  let promptTokens = usage.promptTokens
+  const details: TokenUsageDetails = {}
+
+  const anthropic = providerMetadata?.anthropic
+  if (anthropic) {
+    // Anthropic reports cache reads and writes outside of input_tokens
+    details.cachedInputTokens = metadataCount(anthropic.cacheReadInputTokens)
+    details.cacheWriteTokens = metadataCount(anthropic.cacheCreationInputTokens)
+    promptTokens += details.cachedInputTokens + details.cacheWriteTokens
+  }
+
+  const openai = providerMetadata?.openai
+  if (openai) {
+    details.cachedInputTokens = metadataCount(openai.cachedPromptTokens)
+    details.reasoningTokens = metadataCount(openai.reasoningTokens)
+  }
+
+  const deepseek = providerMetadata?.deepseek
+  if (deepseek) {
+    details.cachedInputTokens = metadataCount(deepseek.promptCacheHitTokens)
+  }
+
+  return {
+    promptTokens,
+    completionTokens: usage.completionTokens,
+    details
+  }
+}
+
+/**
+ * Collects the token usage of every model call made during one user turn
+ * (tool selection, each streamText step, related questions) and every
+ * metered tool execution, so each call can be priced on its own and billed
+ * as a separate line.
+ */
+export class UsageAccumulator {
+  private calls: TrackedCall[] = []
+
+  /**
+   * @param requestedAt - When the turn was requested; its calls are priced
+   * with the model pricing in effect then
+   */
+  constructor(private readonly requestedAt: Date = new Date()) {}
+
+  /**
+   * Add a call's usage. Calls without usage data are ignored.
+   * Pass the call's provider metadata so cached and reasoning tokens are
+   * billed at their own price.
+   */
+  add(
+    model: string,
+    callType: UsageCallType,
+    usage?: {
+      promptTokens: number
+      completionTokens: number
+      totalTokens: number
+    },
+    providerMetadata?: ProviderMetadata
+  ): void {
+    if (!usage) return
+
+    // Providers that don't report usage leave NaN token counts
+    if (
+      !Number.isFinite(usage.promptTokens) ||
+      !Number.isFinite(usage.completionTokens)
+    ) {
+      console.warn(`No token usage reported for ${callType} call on ${model}`)
+      return
+    }
+
+    const { promptTokens, completionTokens, details } = normalizeUsage(
+      usage,
+      providerMetadata
+    )
+
+    this.calls.push({
+      model,
+      callType,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      details
+    })
+  }
+
+  /**
+   * Add a metered tool execution (search, retrieve, video search)
+   */
+  addToolCall(
+    name: ToolName,
+    provider: string,
+    searchDepth: ToolSearchDepth = 'basic'
+  ): void {
+    this.calls.push({
+      model: `${provider}:${name}:${searchDepth}`,
+      callType: 'tool_call',
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      tool: { name, provider, searchDepth }
+    })
+  }
+
+  getCalls(): TrackedCall[] {
+    return [...this.calls]
+  }
+
+  isEmpty(): boolean {
+    return this.calls.length === 0
+  }
+
+  /**
+   * Price each call with its own model pricing
+   * Calls without pricing are returned in `unpriced` and are not charged.
+   * With a pricing policy, each call is marked up and the turn is raised to
+   * the plan's minimum charge; without one, calls bill at passthrough.
+   * @throws Error if a call has invalid token counts
+   */
+  async price(policy?: PricingPolicy): Promise<PricedTurnUsage> {
+    const lines: PricedCall[] = []
+    const unpriced: TrackedCall[] = []
+
+    for (const call of this.calls) {
+      if (call.tool) {
+        const toolPricing = await getToolPricing(
+          call.tool.name,
+          call.tool.provider,
+          call.tool.searchDepth
+        )
+
+        if (!toolPricing) {
+          unpriced.push(call)
+          continue
+        }
+
+        lines.push({
+          ...call,
+          callIndex: lines.length,
+          cost: {
+            inputTokens: 0,
+            outputTokens: 0,
+            totalTokens: 0,
+            inputCost: 0,
+            outputCost: 0,
+            providerCost: toolPricing.pricePerCall,
+            totalCost: toolPricing.pricePerCall,
+            modelId: `${call.tool.name}:${call.tool.searchDepth}`,
+            providerId: call.tool.provider
+          }
+        })
+        continue
+      }
+
+      // Validate token counts (server-side validation)
+      if (
+        call.promptTokens < 0 ||
+        call.completionTokens < 0 ||
+        call.totalTokens !== call.promptTokens + call.completionTokens
+      ) {
+        throw new Error(
+          `Invalid token counts for ${call.model}: prompt=${call.promptTokens}, completion=${call.completionTokens}, total=${call.totalTokens}`
+        )
+      }
+
+      const { providerId, modelId } = parseModelString(call.model)
+      const pricing = await getModelPricing(
+        modelId,
+        providerId,
+        this.requestedAt
+      )
+
+      if (!pricing) {
+        unpriced.push(call)
+        continue
+      }
+
+      lines.push({
+        ...call,
+        callIndex: lines.length,
+        cost: calculateCost(
+          call.promptTokens,
+          call.completionTokens,
+          pricing,
+          call.details
+        )
+      })
+    }
+
+    let minimumChargeAdjustment = 0
+
+    if (policy) {
+      // Fixed markups are charged once per turn, on the first line they
+      // apply to, as the hold estimate assumes
+      const chargedFixedRules = new Set<MarkupRule>()
+      for (const line of lines) {
+        line.cost = applyPricingPolicy(line.cost, policy, chargedFixedRules)
+      }
+
+      const billed = lines.reduce((sum, line) => sum + line.cost.totalCost, 0)
+      if (lines.length > 0 && billed < policy.minChargePerRequest) {
+        minimumChargeAdjustment = parseFloat(
+          (policy.minChargePerRequest - billed).toFixed(6)
+        )
+        lines[0].cost = {
+          ...lines[0].cost,
+          totalCost: parseFloat(
+            (lines[0].cost.totalCost + minimumChargeAdjustment).toFixed(6)
+          )
+        }
+      }
+    }
+
+    const providerCost = lines.reduce(
+      (sum, line) => sum + line.cost.providerCost,
+      0
+    )
+    const totalCost = lines.reduce((sum, line) => sum + line.cost.totalCost, 0)
+
+    return {
+      lines,
+      unpriced,
+      providerCost: parseFloat(providerCost.toFixed(6)),
+      totalCost: parseFloat(totalCost.toFixed(6)),
+      minimumChargeAdjustment
+    }
+  }
+}
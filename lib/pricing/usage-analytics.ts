@@ -0,0 +1,315 @@
+/**
+ * Usage Analytics
+ *
+ * Aggregates usage records over a date range for the usage page: daily spend,
+ * tokens per model, most expensive chats, and CSV export of the raw records.
+ * Days are UTC calendar days (YYYY-MM-DD).
+ */
+
+import type { UsageRecord } from './usage-tracking'
+
+export interface UsageDateRange {
+  startDate: Date // Inclusive, start of the first day
+  endDate: Date // Exclusive, start of the day after the last day
+}
+
+export interface DailyUsage {
+  date: string // YYYY-MM-DD
+  cost: number
+  tokens: number
+  tokensByModel: Record<string, number>
+}
+
+export interface ModelUsage {
+  model: string // provider:model
+  providerId: string
+  modelId: string
+  calls: number
+  tokens: number
+  cost: number
+}
+
+export interface ChatUsageSummary {
+  chatId: string
+  requests: number
+  tokens: number
+  cost: number
+  lastUsedAt: string
+}
+
+export interface UsageSummary {
+  from: string // YYYY-MM-DD
+  to: string // YYYY-MM-DD, inclusive
+  totalRequests: number
+  totalCalls: number
+  totalTokens: number
+  totalInputTokens: number
+  totalOutputTokens: number
+  totalCost: number
+  daily: DailyUsage[]
+  modelBreakdown: ModelUsage[] // Most tokens first
+  topChats: ChatUsageSummary[] // Most expensive first
+}
+
+export const DEFAULT_USAGE_RANGE_DAYS = 30
+export const MAX_USAGE_RANGE_DAYS = 366
+
+const DAY_MS = 86400000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Failed and refunded lines were never charged
+const UNBILLED_STATUSES = ['failed', 'refunded']
+
+const CSV_COLUMNS = [
+  'created_at',
+  'chat_id',
+  'request_id',
+  'call_index',
+  'call_type',
+  'provider_id',
+  'model_id',
+  'input_tokens',
+  'output_tokens',
+  'total_tokens',
+  'cached_input_tokens',
+  'cache_write_tokens',
+  'reasoning_tokens',
+  'image_input_tokens',
+  'provider_cost',
+  'total_cost',
+  'status'
+] as const
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function parseDateKey(value: string): Date | null {
+  if (!DATE_PATTERN.test(value)) {
+    return null
+  }
+
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return isNaN(date.getTime()) || toDateKey(date) !== value ? null : date
+}
+
+function round(value: number, decimals: number = 6): number {
+  return parseFloat(value.toFixed(decimals))
+}
+
+/**
+ * Parse a from/to date range (YYYY-MM-DD, both inclusive)
+ * Missing dates default to the last DEFAULT_USAGE_RANGE_DAYS days up to today
+ * @returns The range, or an error message if it is invalid
+ */
+export function parseUsageDateRange(
+  from?: string | null,
+  to?: string | null,
+  now: Date = new Date()
+): UsageDateRange | { error: string } {
+  const today = parseDateKey(toDateKey(now))!
+  const last = to ? parseDateKey(to) : today
+
+  if (!last) {
+    return { error: 'Invalid end date, expected YYYY-MM-DD' }
+  }
+
+  const first = from
+    ? parseDateKey(from)
+    : new Date(last.getTime() - (DEFAULT_USAGE_RANGE_DAYS - 1) * DAY_MS)
+
+  if (!first) {
+    return { error: 'Invalid start date, expected YYYY-MM-DD' }
+  }
+
+  if (first > last) {
+    return { error: 'Start date must not be after end date' }
+  }
+
+  if ((last.getTime() - first.getTime()) / DAY_MS + 1 > MAX_USAGE_RANGE_DAYS) {
+    return { error: `Date range cannot exceed ${MAX_USAGE_RANGE_DAYS} days` }
+  }
+
+  return {
+    startDate: first,
+    endDate: new Date(last.getTime() + DAY_MS)
+  }
+}
+
+/**
+ * The last DEFAULT_USAGE_RANGE_DAYS days up to and including today
+ */
+export function getDefaultUsageDateRange(
+  now: Date = new Date()
+): UsageDateRange {
+  const endDate = new Date(parseDateKey(toDateKey(now))!.getTime() + DAY_MS)
+
+  return {
+    startDate: new Date(endDate.getTime() - DEFAULT_USAGE_RANGE_DAYS * DAY_MS),
+    endDate
+  }
+}
+
+/**
+ * First and last day of a range as YYYY-MM-DD (both inclusive)
+ */
+export function formatUsageDateRange(range: UsageDateRange): {
+  from: string
+  to: string
+} {
+  return {
+    from: toDateKey(range.startDate),
+    to: toDateKey(new Date(range.endDate.getTime() - DAY_MS))
+  }
+}
+
+/**
+ * Aggregate usage records into daily, per-model and per-chat totals
+ * Failed and refunded records are left out
+ */
+export function summarizeUsage(
+  records: UsageRecord[],
+  range: UsageDateRange,
+  topChatLimit: number = 10
+): UsageSummary {
+  const daily = new Map<string, DailyUsage>()
+  for (
+    let day = range.startDate.getTime();
+    day < range.endDate.getTime();
+    day += DAY_MS
+  ) {
+    const date = toDateKey(new Date(day))
+    daily.set(date, { date, cost: 0, tokens: 0, tokensByModel: {} })
+  }
+
+  const models = new Map<string, ModelUsage>()
+  const chats = new Map<
+    string,
+    ChatUsageSummary & { requestIds: Set<string> }
+  >()
+  const requestIds = new Set<string>()
+  let totalCalls = 0
+  let totalTokens = 0
+  let totalInputTokens = 0
+  let totalOutputTokens = 0
+  let totalCost = 0
+
+  for (const record of records) {
+    if (record.status && UNBILLED_STATUSES.includes(record.status)) {
+      continue
+    }
+
+    const createdAt = record.createdAt ?? range.startDate
+    const requestId = record.requestId ?? record.id ?? `${totalCalls}`
+    const model = `${record.providerId}:${record.modelId}`
+
+    totalCalls++
+    totalTokens += record.totalTokens
+    totalInputTokens += record.inputTokens
+    totalOutputTokens += record.outputTokens
+    totalCost += record.totalCost
+    requestIds.add(requestId)
+
+    const day = daily.get(toDateKey(createdAt))
+    if (day) {
+      day.cost += record.totalCost
+      day.tokens += record.totalTokens
+      day.tokensByModel[model] =
+        (day.tokensByModel[model] ?? 0) + record.totalTokens
+    }
+
+    const modelUsage = models.get(model) ?? {
+      model,
+      providerId: record.providerId,
+      modelId: record.modelId,
+      calls: 0,
+      tokens: 0,
+      cost: 0
+    }
+    modelUsage.calls++
+    modelUsage.tokens += record.totalTokens
+    modelUsage.cost += record.totalCost
+    models.set(model, modelUsage)
+
+    const chat = chats.get(record.chatId) ?? {
+      chatId: record.chatId,
+      requests: 0,
+      tokens: 0,
+      cost: 0,
+      lastUsedAt: createdAt.toISOString(),
+      requestIds: new Set<string>()
+    }
+    chat.requestIds.add(requestId)
+    chat.requests = chat.requestIds.size
+    chat.tokens += record.totalTokens
+    chat.cost += record.totalCost
+    if (createdAt.toISOString() > chat.lastUsedAt) {
+      chat.lastUsedAt = createdAt.toISOString()
+    }
+    chats.set(record.chatId, chat)
+  }
+
+  return {
+    ...formatUsageDateRange(range),
+    totalRequests: requestIds.size,
+    totalCalls,
+    totalTokens,
+    totalInputTokens,
+    totalOutputTokens,
+    totalCost: round(totalCost),
+    daily: Array.from(daily.values()).map(day => ({
+      ...day,
+      cost: round(day.cost)
+    })),
+    modelBreakdown: Array.from(models.values())
+      .map(model => ({ ...model, cost: round(model.cost) }))
+      .sort((a, b) => b.tokens - a.tokens),
+    topChats: Array.from(chats.values())
+      .map(({ requestIds: _requestIds, ...chat }) => ({
+        ...chat,
+        cost: round(chat.cost)
+      }))
+      .sort((a, b) => b.cost - a.cost)
+      .slice(0, topChatLimit)
+  }
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize raw usage records to CSV (one row per model or tool call)
+ */
+export function usageRecordsToCsv(records: UsageRecord[]): string {
+  const rows = records.map(record =>
+    [
+      record.createdAt,
+      record.chatId,
+      record.requestId,
+      record.callIndex,
+      record.callType,
+      record.providerId,
+      record.modelId,
+      record.inputTokens,
+      record.outputTokens,
+      record.totalTokens,
+      record.cachedInputTokens,
+      record.cacheWriteTokens,
+      record.reasoningTokens,
+      record.imageInputTokens,
+      record.providerCost,
+      record.totalCost,
+      record.status
+    ]
+      .map(escapeCsvValue)
+      .join(',')
+  )
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
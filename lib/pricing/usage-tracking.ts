@@ -2,6 +2,7 @@ import { createAdminClient } from '@/lib/supabase/admin'
 import { createClient } from '@/lib/supabase/server'
 
 import { CostCalculation } from './types'
+import { UsageCallType } from './usage-accumulator'
 
 export interface UsageRecord {
   id?: string
@@ -14,13 +15,67 @@ export interface UsageRecord {
   totalTokens: number
   inputCost: number
   outputCost: number
+  providerCost?: number
   totalCost: number
+  planId?: string
+  ownerType?: 'user' | 'organization'
+  ownerId?: string // Wallet charged: userId, or the organization id
   requestId?: string
   transactionId?: string
   status?: 'pending' | 'completed' | 'failed' | 'refunded'
+  callIndex?: number
+  callType?: UsageCallType
+  cachedInputTokens?: number
+  cacheWriteTokens?: number
+  reasoningTokens?: number
+  imageInputTokens?: number
+  pricingVersionId?: string // Pricing version the usage was billed with
   createdAt?: Date
 }
 
+/**
+ * Position of a usage line within its request (one line per model call)
+ */
+export interface UsageLine {
+  callIndex: number
+  callType: UsageCallType
+}
+
+// Records fetched per page for date-range queries, and the most fetched in total
+const RANGE_PAGE_SIZE = 1000
+const RANGE_MAX_RECORDS = 50000
+
+function mapUsageRow(row: any): UsageRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    chatId: row.chat_id,
+    modelId: row.model_id,
+    providerId: row.provider_id,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    totalTokens: row.total_tokens,
+    inputCost: parseFloat(row.input_cost),
+    outputCost: parseFloat(row.output_cost),
+    providerCost: parseFloat(row.provider_cost),
+    totalCost: parseFloat(row.total_cost),
+    planId: row.plan_id ?? undefined,
+    ownerType: row.owner_type ?? undefined,
+    ownerId: row.owner_id ?? undefined,
+    requestId: row.request_id,
+    transactionId: row.transaction_id ?? undefined,
+    status: row.status ?? undefined,
+    callIndex: row.call_index,
+    callType: row.call_type,
+    cachedInputTokens: row.cached_input_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    reasoningTokens: row.reasoning_tokens,
+    imageInputTokens: row.image_input_tokens,
+    pricingVersionId: row.pricing_version_id ?? undefined,
+    createdAt: new Date(row.created_at)
+  }
+}
+
 /**
  * Sleep helper for retry logic
  */
@@ -33,6 +88,8 @@ function sleep(ms: number): Promise<void> {
  * @param requestId - Unique identifier for idempotency (prevents duplicate billing)
  * @param transactionId - Links to the balance transaction that debited the user
  * @param status - Status of the usage record ('pending', 'completed', 'failed', 'refunded')
+ * @param line - Which model call of the request this record bills (defaults to the first)
+ * @param organizationId - Organization whose wallet was charged; omitted when the user paid
  * @returns Usage record ID on success, null on failure
  */
 export async function recordUsage(
@@ -41,7 +98,9 @@ export async function recordUsage(
   costCalculation: CostCalculation,
   requestId?: string,
   transactionId?: string,
-  status: 'pending' | 'completed' | 'failed' | 'refunded' = 'completed'
+  status: 'pending' | 'completed' | 'failed' | 'refunded' = 'completed',
+  line: UsageLine = { callIndex: 0, callType: 'response' },
+  organizationId?: string
 ): Promise<string | null> {
   const maxRetries = 3
   const baseDelay = 100 // ms
@@ -64,25 +123,37 @@ export async function recordUsage(
           input_cost: costCalculation.inputCost,
           output_cost: costCalculation.outputCost,
           total_cost: costCalculation.totalCost,
+          provider_cost: costCalculation.providerCost,
+          plan_id: costCalculation.planId ?? null,
+          owner_type: organizationId ? 'organization' : 'user',
+          owner_id: organizationId ?? userId,
           request_id: requestId,
           transaction_id: transactionId,
-          status
+          status,
+          call_index: line.callIndex,
+          call_type: line.callType,
+          cached_input_tokens: costCalculation.cachedInputTokens ?? 0,
+          cache_write_tokens: costCalculation.cacheWriteTokens ?? 0,
+          reasoning_tokens: costCalculation.reasoningTokens ?? 0,
+          image_input_tokens: costCalculation.imageInputTokens ?? 0,
+          pricing_version_id: costCalculation.pricingVersionId ?? null
         })
         .select('id')
         .single()
 
       if (error) {
-        // 23505 = unique constraint violation (duplicate request_id)
+        // 23505 = unique constraint violation (duplicate request_id + call_index)
         // This is expected for retried requests - idempotency working correctly
         if (error.code === '23505' && requestId) {
           console.log(
-            `Usage record already exists for request ${requestId} - idempotency check passed`
+            `Usage record already exists for request ${requestId} (call ${line.callIndex}) - idempotency check passed`
           )
           // Try to fetch the existing record ID
           const { data: existing } = await supabase
             .from('usage_records')
             .select('id')
             .eq('request_id', requestId)
+            .eq('call_index', line.callIndex)
             .single()
           return existing?.id || null
         }
@@ -146,28 +217,59 @@ export async function getUserUsage(
       return []
     }
 
-    return (
-      data?.map(row => ({
-        id: row.id,
-        userId: row.user_id,
-        chatId: row.chat_id,
-        modelId: row.model_id,
-        providerId: row.provider_id,
-        inputTokens: row.input_tokens,
-        outputTokens: row.output_tokens,
-        totalTokens: row.total_tokens,
-        inputCost: parseFloat(row.input_cost),
-        outputCost: parseFloat(row.output_cost),
-        totalCost: parseFloat(row.total_cost),
-        createdAt: new Date(row.created_at)
-      })) || []
-    )
+    return data?.map(mapUsageRow) || []
   } catch (error) {
     console.error('Error fetching user usage:', error)
     return []
   }
 }
 
+/**
+ * Get all usage records of a user in a time period, oldest first
+ * @param endDate - Exclusive
+ */
+export async function getUserUsageInRange(
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<UsageRecord[]> {
+  try {
+    const supabase = await createClient()
+    const records: UsageRecord[] = []
+
+    while (records.length < RANGE_MAX_RECORDS) {
+      const { data, error } = await supabase
+        .from('usage_records')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('created_at', startDate.toISOString())
+        .lt('created_at', endDate.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(records.length, records.length + RANGE_PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Failed to fetch user usage in range:', error)
+        return []
+      }
+
+      records.push(...(data?.map(mapUsageRow) || []))
+
+      if (!data || data.length < RANGE_PAGE_SIZE) {
+        return records
+      }
+    }
+
+    console.warn(
+      `Usage range for user ${userId} truncated at ${RANGE_MAX_RECORDS} records`
+    )
+    return records
+  } catch (error) {
+    console.error('Error fetching user usage in range:', error)
+    return []
+  }
+}
+
 /**
  * Get total usage cost for a user in a time period
  */
@@ -211,17 +313,32 @@ export async function getUserTotalCost(
 }
 
 /**
- * Get usage statistics for a user
+ * Get usage statistics for a user, lifetime or in a time period
+ * @param endDate - Exclusive
  */
-export async function getUserUsageStats(userId: string) {
+export async function getUserUsageStats(
+  userId: string,
+  startDate?: Date,
+  endDate?: Date
+) {
   try {
     const supabase = await createClient()
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('usage_records')
       .select('*')
       .eq('user_id', userId)
 
+    if (startDate) {
+      query = query.gte('created_at', startDate.toISOString())
+    }
+
+    if (endDate) {
+      query = query.lt('created_at', endDate.toISOString())
+    }
+
+    const { data, error } = await query
+
     if (error) {
       console.error('Failed to fetch user usage stats:', error)
       return null
@@ -295,22 +412,7 @@ export async function getChatUsage(chatId: string): Promise<UsageRecord[]> {
       return []
     }
 
-    return (
-      data?.map(row => ({
-        id: row.id,
-        userId: row.user_id,
-        chatId: row.chat_id,
-        modelId: row.model_id,
-        providerId: row.provider_id,
-        inputTokens: row.input_tokens,
-        outputTokens: row.output_tokens,
-        totalTokens: row.total_tokens,
-        inputCost: parseFloat(row.input_cost),
-        outputCost: parseFloat(row.output_cost),
-        totalCost: parseFloat(row.total_cost),
-        createdAt: new Date(row.created_at)
-      })) || []
-    )
+    return data?.map(mapUsageRow) || []
   } catch (error) {
     console.error('Error fetching chat usage:', error)
     return []
@@ -110,6 +110,41 @@ export class RedisWrapper {
     }
   }
 
+  async set(
+    key: string,
+    value: string,
+    options?: { nx?: boolean; px?: number }
+  ): Promise<boolean> {
+    const px = options?.px
+    let result: unknown
+    if (this.client instanceof Redis) {
+      result = options?.nx
+        ? await this.client.set(
+            key,
+            value,
+            px ? { nx: true, px } : { nx: true }
+          )
+        : await this.client.set(key, value, px ? { px } : undefined)
+    } else {
+      result = await (this.client as RedisClientType).set(key, value, {
+        ...(options?.nx ? { NX: true } : {}),
+        ...(px ? { PX: px } : {})
+      })
+    }
+    return result === 'OK'
+  }
+
+  async eval(script: string, keys: string[], args: string[]): Promise<unknown> {
+    if (this.client instanceof Redis) {
+      return this.client.eval(script, keys, args)
+    } else {
+      return (this.client as RedisClientType).eval(script, {
+        keys,
+        arguments: args
+      })
+    }
+  }
+
   async incr(key: string): Promise<number> {
     if (this.client instanceof Redis) {
       return this.client.incr(key)
@@ -0,0 +1,142 @@
+import { getRedisClient } from '@/lib/redis/config'
+
+// A lease is a Redis key that holds its owner and expires after the lease's
+// TTL, so a lock held by a crashed process frees itself. Owners renew the
+// lease while they work; only the owner can renew or release it.
+
+export interface Lease {
+  key: string
+  token: string // Unique per owner
+  holder: string // Who holds the lease, e.g. 'cron' or 'admin:user@example.com'
+  acquiredAt: Date
+  expiresAt: Date
+}
+
+// Owner of a lease as stored in its key
+interface LeaseOwner {
+  token: string
+  holder: string
+  acquiredAt: string // ISO timestamp
+}
+
+// Renew (PEXPIRE) or release (DEL) the key only if it still holds the value
+const RENEW_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) else return 0 end`
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`
+
+function leaseValue(lease: Pick<Lease, 'token' | 'holder' | 'acquiredAt'>) {
+  const owner: LeaseOwner = {
+    token: lease.token,
+    holder: lease.holder,
+    acquiredAt: lease.acquiredAt.toISOString()
+  }
+  return JSON.stringify(owner)
+}
+
+function isLeaseOwner(value: unknown): value is LeaseOwner {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const owner = value as Record<string, unknown>
+  return (
+    typeof owner.token === 'string' &&
+    typeof owner.holder === 'string' &&
+    typeof owner.acquiredAt === 'string'
+  )
+}
+
+/**
+ * Acquire a lease on `key` for `ttlMs`
+ * @returns The lease, or null if another owner holds it
+ */
+export async function acquireLease(
+  key: string,
+  token: string,
+  holder: string,
+  ttlMs: number
+): Promise<Lease | null> {
+  const redis = await getRedisClient()
+  const acquiredAt = new Date()
+
+  const acquired = await redis.set(
+    key,
+    leaseValue({ token, holder, acquiredAt }),
+    { nx: true, px: ttlMs }
+  )
+
+  if (!acquired) {
+    return null
+  }
+
+  return {
+    key,
+    token,
+    holder,
+    acquiredAt,
+    expiresAt: new Date(acquiredAt.getTime() + ttlMs)
+  }
+}
+
+/**
+ * Extend a lease to `ttlMs` from now
+ * @returns false if the lease expired or another owner took it
+ */
+export async function renewLease(
+  lease: Lease,
+  ttlMs: number
+): Promise<boolean> {
+  const redis = await getRedisClient()
+  const renewed = await redis.eval(
+    RENEW_SCRIPT,
+    [lease.key],
+    [leaseValue(lease), String(ttlMs)]
+  )
+
+  if (Number(renewed) !== 1) {
+    return false
+  }
+
+  lease.expiresAt = new Date(Date.now() + ttlMs)
+  return true
+}
+
+/**
+ * Release a lease if it is still held
+ */
+export async function releaseLease(lease: Lease): Promise<boolean> {
+  const redis = await getRedisClient()
+  const released = await redis.eval(
+    RELEASE_SCRIPT,
+    [lease.key],
+    [leaseValue(lease)]
+  )
+  return Number(released) === 1
+}
+
+/**
+ * The current owner of a lease, or null if it is free
+ * Throws if the key holds something other than a lease
+ */
+export async function getLeaseHolder(
+  key: string
+): Promise<Pick<Lease, 'token' | 'holder' | 'acquiredAt'> | null> {
+  const redis = await getRedisClient()
+  const value: unknown = await redis.get(key)
+
+  if (!value) {
+    return null
+  }
+
+  // Upstash returns JSON values already parsed
+  const owner: unknown = typeof value === 'string' ? JSON.parse(value) : value
+
+  if (!isLeaseOwner(owner)) {
+    throw new Error(`Key ${key} does not hold a lease`)
+  }
+
+  return {
+    token: owner.token,
+    holder: owner.holder,
+    acquiredAt: new Date(owner.acquiredAt)
+  }
+}
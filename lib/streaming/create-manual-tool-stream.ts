@@ -7,6 +7,8 @@ import {
 } from 'ai'
 
 import { manualResearcher } from '../agents/manual-researcher'
+import { releaseReservedBalance } from '../pricing/balance-service'
+import { UsageAccumulator } from '../pricing/usage-accumulator'
 import { ExtendedCoreMessage } from '../types'
 import { getMaxAllowedTokens, truncateMessages } from '../utils/context-window'
 
@@ -17,8 +19,32 @@ import { BaseStreamConfig } from './types'
 export function createManualToolStreamResponse(config: BaseStreamConfig) {
   return createDataStreamResponse({
     execute: async (dataStream: DataStreamWriter) => {
-      const { messages, model, chatId, searchMode, userId } = config
+      const {
+        messages,
+        model,
+        chatId,
+        searchMode,
+        userId,
+        requestId,
+        reservation,
+        organizationId,
+        abortSignal
+      } = config
       const modelId = `${model.providerId}:${model.id}`
+      // Collects the usage of every model call made for this turn
+      const turnUsage = new UsageAccumulator()
+      let finishing = false
+
+      // Return the hold if the client disconnects before the answer completes
+      abortSignal?.addEventListener(
+        'abort',
+        () => {
+          if (reservation && !finishing) {
+            void releaseReservedBalance(reservation, 'request aborted')
+          }
+        },
+        { once: true }
+      )
       let toolCallModelId = model.toolCallModel
         ? `${model.providerId}:${model.toolCallModel}`
         : modelId
@@ -35,7 +61,8 @@ export function createManualToolStreamResponse(config: BaseStreamConfig) {
             truncatedMessages,
             dataStream,
             toolCallModelId,
-            searchMode
+            searchMode,
+            turnUsage
           )
 
         const researcherConfig = manualResearcher({
@@ -50,7 +77,23 @@ export function createManualToolStreamResponse(config: BaseStreamConfig) {
 
         const result = streamText({
           ...researcherConfig,
+          abortSignal,
+          onError: ({ error }) => {
+            console.error('Stream error:', error)
+            if (reservation) {
+              void releaseReservedBalance(reservation, 'stream error')
+            }
+          },
           onFinish: async result => {
+            finishing = true
+            for (const step of result.steps) {
+              turnUsage.add(
+                modelId,
+                'response',
+                step.usage,
+                step.providerMetadata
+              )
+            }
             const annotations: ExtendedCoreMessage[] = [
               ...(toolCallDataAnnotation ? [toolCallDataAnnotation] : []),
               {
@@ -72,15 +115,12 @@ export function createManualToolStreamResponse(config: BaseStreamConfig) {
               chatId,
               dataStream,
               userId,
+              requestId,
+              reservation,
+              organizationId,
               skipRelatedQuestions: true,
               annotations,
-              usage: result.usage
-                ? {
-                    promptTokens: result.usage.promptTokens,
-                    completionTokens: result.usage.completionTokens,
-                    totalTokens: result.usage.totalTokens
-                  }
-                : undefined
+              turnUsage
             })
           },
           onChunk(event) {
@@ -109,9 +149,15 @@ export function createManualToolStreamResponse(config: BaseStreamConfig) {
         })
       } catch (error) {
         console.error('Stream execution error:', error)
+        if (reservation) {
+          await releaseReservedBalance(reservation, 'stream error')
+        }
       }
     },
     onError: error => {
+      if (config.reservation) {
+        void releaseReservedBalance(config.reservation, 'stream error')
+      }
       console.error('Stream error:', error)
       return error instanceof Error ? error.message : String(error)
     }
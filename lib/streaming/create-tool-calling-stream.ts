@@ -8,6 +8,8 @@ import {
 
 import { researcher } from '@/lib/agents/researcher'
 
+import { releaseReservedBalance } from '../pricing/balance-service'
+import { UsageAccumulator } from '../pricing/usage-accumulator'
 import { getMaxAllowedTokens, truncateMessages } from '../utils/context-window'
 import { isReasoningModel } from '../utils/registry'
 
@@ -30,8 +32,32 @@ function containsAskQuestionTool(message: CoreMessage) {
 export function createToolCallingStreamResponse(config: BaseStreamConfig) {
   return createDataStreamResponse({
     execute: async (dataStream: DataStreamWriter) => {
-      const { messages, model, chatId, searchMode, userId } = config
+      const {
+        messages,
+        model,
+        chatId,
+        searchMode,
+        userId,
+        requestId,
+        reservation,
+        organizationId,
+        abortSignal
+      } = config
       const modelId = `${model.providerId}:${model.id}`
+      // Collects the usage of every model call made for this turn
+      const turnUsage = new UsageAccumulator()
+      let finishing = false
+
+      // Return the hold if the client disconnects before the answer completes
+      abortSignal?.addEventListener(
+        'abort',
+        () => {
+          if (reservation && !finishing) {
+            void releaseReservedBalance(reservation, 'request aborted')
+          }
+        },
+        { once: true }
+      )
 
       try {
         const coreMessages = convertToCoreMessages(messages)
@@ -43,12 +69,29 @@ export function createToolCallingStreamResponse(config: BaseStreamConfig) {
         let researcherConfig = await researcher({
           messages: truncatedMessages,
           model: modelId,
-          searchMode
+          searchMode,
+          turnUsage
         })
 
         const result = streamText({
           ...researcherConfig,
+          abortSignal,
+          onError: ({ error }) => {
+            console.error('Stream error:', error)
+            if (reservation) {
+              void releaseReservedBalance(reservation, 'stream error')
+            }
+          },
           onFinish: async result => {
+            finishing = true
+            for (const step of result.steps) {
+              turnUsage.add(
+                modelId,
+                'response',
+                step.usage,
+                step.providerMetadata
+              )
+            }
             // Check if the last message contains an ask_question tool invocation
             const shouldSkipRelatedQuestions =
               isReasoningModel(modelId) ||
@@ -66,14 +109,11 @@ export function createToolCallingStreamResponse(config: BaseStreamConfig) {
               chatId,
               dataStream,
               userId,
+              requestId,
+              reservation,
+              organizationId,
               skipRelatedQuestions: shouldSkipRelatedQuestions,
-              usage: result.usage
-                ? {
-                    promptTokens: result.usage.promptTokens,
-                    completionTokens: result.usage.completionTokens,
-                    totalTokens: result.usage.totalTokens
-                  }
-                : undefined
+              turnUsage
             })
           }
         })
@@ -85,6 +125,9 @@ export function createToolCallingStreamResponse(config: BaseStreamConfig) {
       }
     },
     onError: error => {
+      if (config.reservation) {
+        void releaseReservedBalance(config.reservation, 'stream error')
+      }
       // console.error('Stream error:', error)
       return error instanceof Error ? error.message : String(error)
     }
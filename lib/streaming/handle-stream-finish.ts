@@ -5,11 +5,17 @@ import { CoreMessage, DataStreamWriter, JSONValue, Message } from 'ai'
 import { getChat, saveChat } from '@/lib/actions/chat'
 import { generateRelatedQuestions } from '@/lib/agents/generate-related-questions'
 import {
-  calculateCost,
+  BalanceReservation,
   deductBalance,
-  getModelPricing,
-  recordUsage
+  getPricingPolicy,
+  getUserPlanId,
+  recordUsage,
+  releaseReservedBalance,
+  settleReservedBalance,
+  UsageAccumulator
 } from '@/lib/pricing'
+import { triggerAutoRecharge } from '@/lib/pricing/auto-recharge-service'
+import { enqueueUsageRecordRetry } from '@/lib/pricing/reconciliation-service'
 import { getRedisClient } from '@/lib/redis/config'
 import { ExtendedCoreMessage } from '@/lib/types'
 import { convertToExtendedCoreMessages } from '@/lib/utils'
@@ -21,137 +27,221 @@ interface HandleStreamFinishParams {
   chatId: string
   dataStream: DataStreamWriter
   userId: string
+  requestId: string
+  reservation?: BalanceReservation
+  organizationId?: string
   skipRelatedQuestions?: boolean
   annotations?: ExtendedCoreMessage[]
-  usage?: {
-    promptTokens: number
-    completionTokens: number
-    totalTokens: number
-  }
+  turnUsage: UsageAccumulator
 }
 
-export async function handleStreamFinish({
-  responseMessages,
-  originalMessages,
-  model,
-  chatId,
-  dataStream,
+interface TrackTurnUsageParams {
+  turnUsage: UsageAccumulator
+  userId: string
+  chatId: string
+  requestId: string
+  reservation?: BalanceReservation
+  organizationId?: string
+}
+
+/**
+ * Price every model call of the turn under the wallet owner's pricing plan,
+ * charge the total once and record one usage line per call under the turn's
+ * requestId. Usage in an organization workspace is charged to its wallet.
+ */
+async function trackTurnUsage({
+  turnUsage,
   userId,
-  skipRelatedQuestions = false,
-  annotations = [],
-  usage
-}: HandleStreamFinishParams) {
-  // Track usage and deduct balance if usage data is available
-  if (usage && userId !== 'anonymous') {
-    // Generate unique request ID for idempotency
-    const requestId = `${chatId}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
+  chatId,
+  requestId,
+  reservation,
+  organizationId
+}: TrackTurnUsageParams) {
+  const walletId = organizationId ?? userId
 
-    try {
-      // Validate token counts (server-side validation)
-      if (
-        usage.promptTokens < 0 ||
-        usage.completionTokens < 0 ||
-        usage.totalTokens !== usage.promptTokens + usage.completionTokens
-      ) {
-        throw new Error(
-          `Invalid token counts: prompt=${usage.promptTokens}, completion=${usage.completionTokens}, total=${usage.totalTokens}`
-        )
-      }
+  try {
+    const policy = await getPricingPolicy(await getUserPlanId(walletId))
+    const { lines, unpriced, providerCost, totalCost } =
+      await turnUsage.price(policy)
 
-      // Parse model string (format: "providerId:modelId")
-      const [providerId, modelId] = model.split(':')
+    for (const call of unpriced) {
+      console.warn(
+        `No pricing found for ${call.callType} call on ${call.model}`
+      )
+    }
 
-      // Get pricing for this model
-      const pricing = await getModelPricing(modelId, providerId)
+    if (lines.length === 0 || totalCost === 0) {
+      if (turnUsage.isEmpty()) {
+        console.warn(`No usage reported for request ${requestId}`)
+      }
+      if (reservation) {
+        await releaseReservedBalance(reservation, 'no billable usage')
+      }
+      return
+    }
 
-      if (pricing) {
-        // Calculate cost
-        const cost = calculateCost(
-          usage.promptTokens,
-          usage.completionTokens,
-          pricing
+    // Settle the hold placed before streaming, or deduct directly when
+    // no hold could be placed (fail fast if insufficient funds)
+    // The member who made the calls, when an organization pays for them
+    const memberMetadata = organizationId ? { member_id: userId } : {}
+    const transactionId = reservation
+      ? await settleReservedBalance(reservation, totalCost, {
+          usage_lines: lines.length,
+          provider_cost: providerCost,
+          plan_id: policy.planId,
+          ...memberMetadata
+        })
+      : await deductBalance(
+          walletId,
+          totalCost,
+          undefined,
+          organizationId ? memberMetadata : undefined
         )
-
-        // Deduct cost from user balance FIRST (fail fast if insufficient funds)
-        const transactionId = await deductBalance(userId, cost.totalCost)
-        if (!transactionId) {
-          throw new Error(
-            `Failed to deduct balance for user ${userId}, cost: ${cost.totalCost}. Insufficient funds or database error.`
-          )
+    if (!transactionId) {
+      if (reservation) {
+        // The hold stays pending; queue the usage against it so the
+        // reconciliation job can settle it to what the turn used
+        for (const line of lines) {
+          await enqueueUsageRecordRetry({
+            userId,
+            chatId,
+            requestId,
+            transactionId: reservation.transactionId,
+            cost: line.cost,
+            line,
+            organizationId
+          })
         }
+      }
+      throw new Error(
+        `Failed to charge balance for ${walletId}, cost: ${totalCost}. Insufficient funds or database error.`
+      )
+    }
 
-        // Record usage to database with link to transaction
-        const usageRecordId = await recordUsage(
+    // Record one usage line per model call, linked to the same transaction
+    for (const line of lines) {
+      const usageRecordId = await recordUsage(
+        userId,
+        chatId,
+        line.cost,
+        requestId,
+        transactionId,
+        'completed',
+        { callIndex: line.callIndex, callType: line.callType },
+        organizationId
+      )
+
+      if (!usageRecordId) {
+        // CRITICAL: Balance was deducted but usage not recorded
+        // This creates an accounting discrepancy that requires manual reconciliation
+        const errorDetails = {
           userId,
           chatId,
-          cost,
-          requestId,
           transactionId,
-          'completed'
-        )
-
-        if (!usageRecordId) {
-          // CRITICAL: Balance was deducted but usage not recorded
-          // This creates an accounting discrepancy that requires manual reconciliation
-          const errorDetails = {
-            userId,
-            chatId,
-            transactionId,
-            requestId,
-            cost: cost.totalCost,
-            modelId,
-            providerId,
-            timestamp: new Date().toISOString()
-          }
-          console.error(
-            '🚨 CRITICAL: Failed to record usage after balance deduction',
-            JSON.stringify(errorDetails, null, 2)
-          )
-          // TODO: Send alert to monitoring system (e.g., Sentry, DataDog)
-          // TODO: Queue for retry or manual reconciliation
-          // Balance already deducted, so we continue rather than failing the request
+          requestId,
+          callIndex: line.callIndex,
+          callType: line.callType,
+          cost: line.cost.totalCost,
+          modelId: line.cost.modelId,
+          providerId: line.cost.providerId,
+          timestamp: new Date().toISOString()
         }
-      } else {
-        console.warn(`No pricing found for model ${modelId} (${providerId})`)
+        console.error(
+          '🚨 CRITICAL: Failed to record usage after balance deduction',
+          JSON.stringify(errorDetails, null, 2)
+        )
+        // Balance already deducted, so queue the record for the
+        // reconciliation job rather than failing the request
+        await enqueueUsageRecordRetry({
+          userId,
+          chatId,
+          requestId,
+          transactionId,
+          cost: line.cost,
+          line,
+          organizationId
+        })
       }
-    } catch (error) {
-      console.error('Error tracking usage:', error)
-      // Throw error to fail the request - we don't want to provide free service
-      throw error
     }
+
+    // Top up from the saved card if this turn took the balance below the
+    // user's auto top-up threshold (organization wallets are funded by hand)
+    if (!organizationId) {
+      await triggerAutoRecharge(userId)
+    }
+  } catch (error) {
+    console.error('Error tracking usage:', error)
+    // Usage we could not price is not charged; a failed settle keeps its
+    // hold, which reconciliation settles from the queued usage
+    if (reservation?.status === 'held') {
+      await releaseReservedBalance(reservation, 'usage tracking failed')
+    }
+    // Throw error to fail the request - we don't want to provide free service
+    throw error
   }
+}
 
+export async function handleStreamFinish({
+  responseMessages,
+  originalMessages,
+  model,
+  chatId,
+  dataStream,
+  userId,
+  requestId,
+  reservation,
+  organizationId,
+  skipRelatedQuestions = false,
+  annotations = [],
+  turnUsage
+}: HandleStreamFinishParams) {
   try {
     const extendedCoreMessages = convertToExtendedCoreMessages(originalMessages)
     let allAnnotations = [...annotations]
 
-    if (!skipRelatedQuestions) {
-      // Notify related questions loading
-      const relatedQuestionsAnnotation: JSONValue = {
-        type: 'related-questions',
-        data: { items: [] }
-      }
-      dataStream.writeMessageAnnotation(relatedQuestionsAnnotation)
+    try {
+      if (!skipRelatedQuestions) {
+        // Notify related questions loading
+        const relatedQuestionsAnnotation: JSONValue = {
+          type: 'related-questions',
+          data: { items: [] }
+        }
+        dataStream.writeMessageAnnotation(relatedQuestionsAnnotation)
 
-      // Generate related questions
-      const relatedQuestions = await generateRelatedQuestions(
-        responseMessages,
-        model
-      )
+        // Generate related questions
+        const relatedQuestions = await generateRelatedQuestions(
+          responseMessages,
+          model,
+          turnUsage
+        )
 
-      // Create and add related questions annotation
-      const updatedRelatedQuestionsAnnotation: ExtendedCoreMessage = {
-        role: 'data',
-        content: {
-          type: 'related-questions',
-          data: relatedQuestions.object
-        } as JSONValue
-      }
+        // Create and add related questions annotation
+        const updatedRelatedQuestionsAnnotation: ExtendedCoreMessage = {
+          role: 'data',
+          content: {
+            type: 'related-questions',
+            data: relatedQuestions.object
+          } as JSONValue
+        }
 
-      dataStream.writeMessageAnnotation(
-        updatedRelatedQuestionsAnnotation.content as JSONValue
-      )
-      allAnnotations.push(updatedRelatedQuestionsAnnotation)
+        dataStream.writeMessageAnnotation(
+          updatedRelatedQuestionsAnnotation.content as JSONValue
+        )
+        allAnnotations.push(updatedRelatedQuestionsAnnotation)
+      }
+    } finally {
+      // Bill the turn once all of its model calls, including related
+      // questions, have reported usage
+      if (userId !== 'anonymous') {
+        await trackTurnUsage({
+          turnUsage,
+          userId,
+          chatId,
+          requestId,
+          reservation,
+          organizationId
+        })
+      }
     }
 
     // Create the message to save
@@ -7,6 +7,7 @@ import {
 } from 'ai'
 import { z } from 'zod'
 
+import { UsageAccumulator } from '../pricing/usage-accumulator'
 import { searchSchema } from '../schema/search'
 import { search } from '../tools/search'
 import { ExtendedCoreMessage } from '../types'
@@ -23,7 +24,8 @@ export async function executeToolCall(
   coreMessages: CoreMessage[],
   dataStream: DataStreamWriter,
   model: string,
-  searchMode: boolean
+  searchMode: boolean,
+  turnUsage?: UsageAccumulator
 ): Promise<ToolExecutionResult> {
   // If search mode is disabled, return empty tool call
   if (!searchMode) {
@@ -68,6 +70,12 @@ export async function executeToolCall(
             If you don't need a tool, respond with <tool_call><tool></tool></tool_call>`,
     messages: coreMessages
   })
+  turnUsage?.add(
+    model,
+    'tool_selection',
+    toolSelectionResponse.usage,
+    toolSelectionResponse.providerMetadata
+  )
 
   // Parse the tool selection XML using the search schema
   const toolCall = parseToolCallXml(toolSelectionResponse.text, searchSchema)
@@ -93,7 +101,8 @@ export async function executeToolCall(
     toolCall.parameters?.max_results,
     toolCall.parameters?.search_depth as 'basic' | 'advanced',
     toolCall.parameters?.include_domains ?? [],
-    toolCall.parameters?.exclude_domains ?? []
+    toolCall.parameters?.exclude_domains ?? [],
+    turnUsage
   )
 
   const updatedToolCallAnnotation = {
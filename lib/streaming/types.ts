@@ -1,5 +1,6 @@
 import { Message } from 'ai'
 
+import { BalanceReservation } from '../pricing/balance-service'
 import { Model } from '../types/models'
 
 export interface BaseStreamConfig {
@@ -8,4 +9,8 @@ export interface BaseStreamConfig {
   chatId: string
   searchMode: boolean
   userId: string
+  requestId: string
+  reservation?: BalanceReservation
+  organizationId?: string // Set when usage is charged to an organization wallet
+  abortSignal?: AbortSignal
 }
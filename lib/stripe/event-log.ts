@@ -0,0 +1,295 @@
+/**
+ * Stripe Event Log
+ *
+ * Every verified Stripe event is stored with its payload before it is
+ * handled, then marked processed, ignored (no handler for its type) or
+ * failed with the handler's error. An event is claimed before handling so a
+ * redelivery of an event that is being or has been handled is skipped, while
+ * failed events can be retried by Stripe or replayed by admins.
+ */
+
+import type Stripe from 'stripe'
+
+import { createAdminClient } from '@/lib/supabase/admin'
+
+import { handleStripeEvent } from './webhook-handlers'
+
+export type StripeEventStatus =
+  | 'processing'
+  | 'processed'
+  | 'ignored'
+  | 'failed'
+
+export const STRIPE_EVENT_STATUSES: StripeEventStatus[] = [
+  'processing',
+  'processed',
+  'ignored',
+  'failed'
+]
+
+// A claim older than this is taken to have died with its server
+export const STALE_PROCESSING_MS = 5 * 60 * 1000
+
+export interface StripeEventLogEntry {
+  id: string
+  type: string
+  livemode: boolean
+  status: StripeEventStatus
+  error?: string
+  attempts: number
+  stripeCreatedAt?: Date
+  processedAt?: Date
+  replayedBy?: string
+  createdAt: Date
+  updatedAt: Date
+  payload?: Stripe.Event
+}
+
+export interface ProcessEventResult {
+  // 'duplicate' when another delivery has handled or is handling the event
+  status: StripeEventStatus | 'duplicate'
+  error?: string
+}
+
+interface StripeEventRecord {
+  id: string
+  type: string
+  livemode: boolean
+  status: StripeEventStatus
+  error: string | null
+  attempts: number
+  stripe_created_at: string | null
+  processed_at: string | null
+  replayed_by: string | null
+  created_at: string
+  updated_at: string
+  payload?: Stripe.Event
+}
+
+const LIST_COLUMNS =
+  'id, type, livemode, status, error, attempts, stripe_created_at, processed_at, replayed_by, created_at, updated_at'
+
+function mapStripeEventRecord(row: StripeEventRecord): StripeEventLogEntry {
+  return {
+    id: row.id,
+    type: row.type,
+    livemode: row.livemode,
+    status: row.status,
+    error: row.error ?? undefined,
+    attempts: row.attempts,
+    stripeCreatedAt: row.stripe_created_at
+      ? new Date(row.stripe_created_at)
+      : undefined,
+    processedAt: row.processed_at ? new Date(row.processed_at) : undefined,
+    replayedBy: row.replayed_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    payload: row.payload
+  }
+}
+
+export function isStripeEventStatus(
+  value: unknown
+): value is StripeEventStatus {
+  return STRIPE_EVENT_STATUSES.includes(value as StripeEventStatus)
+}
+
+/**
+ * Whether a logged event may be claimed for handling again: it failed, or
+ * its claim is stale
+ */
+export function canReprocessStripeEvent(
+  status: StripeEventStatus,
+  updatedAt: Date,
+  now: Date = new Date()
+): boolean {
+  if (status === 'failed') {
+    return true
+  }
+
+  return (
+    status === 'processing' &&
+    now.getTime() - updatedAt.getTime() > STALE_PROCESSING_MS
+  )
+}
+
+/**
+ * Store an event, or claim an already stored one that may be handled again
+ * @returns Whether this caller should handle the event
+ */
+async function claimStripeEvent(
+  event: Stripe.Event,
+  replayedBy?: string
+): Promise<boolean> {
+  const supabase = createAdminClient()
+  const { error } = await supabase.from('stripe_events').insert({
+    id: event.id,
+    type: event.type,
+    livemode: event.livemode,
+    payload: event,
+    status: 'processing',
+    stripe_created_at: new Date(event.created * 1000).toISOString(),
+    replayed_by: replayedBy ?? null
+  })
+
+  if (!error) {
+    return true
+  }
+
+  // Anything but a redelivery is an error Stripe should retry
+  if (error.code !== '23505') {
+    throw new Error(`Failed to log Stripe event: ${error.message}`)
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('stripe_events')
+    .select('status, attempts, updated_at')
+    .eq('id', event.id)
+    .single()
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch Stripe event: ${fetchError.message}`)
+  }
+
+  if (
+    !canReprocessStripeEvent(existing.status, new Date(existing.updated_at))
+  ) {
+    return false
+  }
+
+  // Conditional on the attempts seen, so only one delivery wins the claim
+  const { data: claimed, error: claimError } = await supabase
+    .from('stripe_events')
+    .update({
+      status: 'processing',
+      error: null,
+      attempts: existing.attempts + 1,
+      ...(replayedBy && { replayed_by: replayedBy })
+    })
+    .eq('id', event.id)
+    .eq('attempts', existing.attempts)
+    .select('id')
+    .maybeSingle()
+
+  if (claimError) {
+    throw new Error(`Failed to claim Stripe event: ${claimError.message}`)
+  }
+
+  return !!claimed
+}
+
+async function finishStripeEvent(
+  eventId: string,
+  status: StripeEventStatus,
+  error?: string
+): Promise<void> {
+  const supabase = createAdminClient()
+  const { error: updateError } = await supabase
+    .from('stripe_events')
+    .update({
+      status,
+      error: error ?? null,
+      processed_at: status === 'failed' ? null : new Date().toISOString()
+    })
+    .eq('id', eventId)
+
+  if (updateError) {
+    // The event stays 'processing' and is claimable again once stale
+    console.error(
+      `Failed to mark Stripe event ${eventId} ${status}:`,
+      updateError
+    )
+  }
+}
+
+/**
+ * Log a verified event and handle it, once
+ * @param replayedBy - Admin who replayed the event, if it is a replay
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  replayedBy?: string
+): Promise<ProcessEventResult> {
+  if (!(await claimStripeEvent(event, replayedBy))) {
+    console.log(`⏭️  Stripe event ${event.id} already handled. Skipping.`)
+    return { status: 'duplicate' }
+  }
+
+  try {
+    const handled = await handleStripeEvent(event)
+    const status = handled ? 'processed' : 'ignored'
+
+    await finishStripeEvent(event.id, status)
+    return { status }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`❌ Stripe event ${event.id} (${event.type}) failed:`, error)
+
+    await finishStripeEvent(event.id, 'failed', message)
+    return { status: 'failed', error: message }
+  }
+}
+
+/**
+ * Get logged events, newest first, without their payloads
+ */
+export async function getStripeEvents(
+  filters: { status?: StripeEventStatus; type?: string } = {},
+  limit: number = 50
+): Promise<StripeEventLogEntry[]> {
+  try {
+    const supabase = createAdminClient()
+    let query = supabase
+      .from('stripe_events')
+      .select(LIST_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (filters.status) {
+      query = query.eq('status', filters.status)
+    }
+    if (filters.type) {
+      query = query.eq('type', filters.type)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch Stripe events:', error)
+      return []
+    }
+
+    return (data || []).map(row =>
+      mapStripeEventRecord(row as StripeEventRecord)
+    )
+  } catch (error) {
+    console.error('Error fetching Stripe events:', error)
+    return []
+  }
+}
+
+/**
+ * Get a logged event with its payload
+ */
+export async function getStripeEvent(
+  eventId: string
+): Promise<StripeEventLogEntry | null> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('stripe_events')
+      .select('*')
+      .eq('id', eventId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch Stripe event:', error)
+      return null
+    }
+
+    return data ? mapStripeEventRecord(data) : null
+  } catch (error) {
+    console.error('Error fetching Stripe event:', error)
+    return null
+  }
+}
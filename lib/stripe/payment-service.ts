@@ -6,7 +6,13 @@
 import type Stripe from 'stripe'
 
 import type { SupportedCurrency } from '../pricing/currency-service'
-import { isSupportedCurrency } from '../pricing/currency-service'
+import { CURRENCY_INFO, isSupportedCurrency } from '../pricing/currency-service'
+import {
+  convertAmount,
+  CurrencyConversion,
+  ExchangeRateTable,
+  getExchangeRates
+} from '../pricing/exchange-rate-service'
 
 import { getStripeClient } from './stripe-client'
 
@@ -16,86 +22,263 @@ export interface PaymentIntentParams {
   userId: string
   userEmail?: string
   metadata?: Record<string, string>
+  /** Save the card on this customer for off-session top-ups */
+  saveForCustomerId?: string
+  /** Currency of the user's balance; defaults to the payment currency */
+  ledgerCurrency?: SupportedCurrency
+}
+
+export interface OffSessionPaymentParams {
+  amount: number
+  currency: SupportedCurrency
+  userId: string
+  customerId: string
+  paymentMethodId: string
+  /** Stripe idempotency key, one per top-up attempt */
+  idempotencyKey: string
+  metadata?: Record<string, string>
+}
+
+export interface OffSessionPaymentResult {
+  /** False when the card was declined or needs the customer to authenticate */
+  succeeded: boolean
+  paymentIntentId?: string
+  status?: Stripe.PaymentIntent.Status
+  errorMessage?: string
 }
 
 export interface PaymentIntentResult {
   clientSecret: string
   paymentIntentId: string
+  conversion: CurrencyConversion
 }
 
 // Minimum and maximum deposit amounts (in USD equivalent)
 const MIN_DEPOSIT_AMOUNT = 5
 const MAX_DEPOSIT_AMOUNT = 500
 
-// Currency-specific minimum amounts (Stripe requires minimum amounts in smallest currency unit)
-const CURRENCY_MINIMUMS: Partial<Record<SupportedCurrency, number>> = {
-  USD: 5,
-  EUR: 5,
-  GBP: 5,
-  CAD: 5,
-  AUD: 5,
-  JPY: 500, // ¥500
-  CHF: 5,
-  CNY: 30,
-  INR: 350,
-  MXN: 100,
-  BRL: 25,
-  ZAR: 75,
-  SGD: 7,
-  HKD: 40,
-  NZD: 8,
-  SEK: 50,
-  NOK: 50,
-  DKK: 35,
-  PLN: 20,
-  CZK: 120,
-  HUF: 1800,
-  RON: 25,
-  TRY: 150,
-  ILS: 18,
-  CLP: 4000,
-  PHP: 275,
-  AED: 18,
-  SAR: 19,
-  THB: 170,
-  IDR: 75000,
-  MYR: 22,
-  KRW: 6500,
-  TWD: 160,
-  VND: 120000
+export interface DepositLimits {
+  minAmount: number
+  maxAmount: number
+}
+
+export interface DepositQuote {
+  valid: boolean
+  error?: string
+  limits?: DepositLimits // In the deposit currency
+  conversion?: CurrencyConversion // Deposit currency to ledger currency
+}
+
+/**
+ * A credited deposit: the amount in the ledger currency and the transaction
+ * metadata recording the rate it was converted at
+ */
+export interface DepositCredit {
+  amount: number
+  metadata: Record<string, unknown>
+}
+
+/**
+ * Deposit limits converted into a currency, rounded inwards to its minor unit
+ * @returns The limits, or null if the currency has no exchange rate
+ */
+export function getDepositLimits(
+  currency: SupportedCurrency,
+  rates: ExchangeRateTable
+): DepositLimits | null {
+  const usdRate = rates.rates[currency]
+  if (!usdRate) {
+    return null
+  }
+
+  const factor = Math.pow(10, CURRENCY_INFO[currency].decimalPlaces)
+
+  return {
+    minAmount: Math.ceil(MIN_DEPOSIT_AMOUNT * usdRate * factor - 1e-6) / factor,
+    maxAmount: Math.floor(MAX_DEPOSIT_AMOUNT * usdRate * factor + 1e-6) / factor
+  }
 }
 
 /**
  * Validate payment amount for a given currency
+ * The limits apply to the USD equivalent at the given rates
  */
-function validateAmount(
+export function validateAmount(
   amount: number,
-  currency: SupportedCurrency
+  currency: SupportedCurrency,
+  rates: ExchangeRateTable
 ): { valid: boolean; error?: string } {
-  const minAmount = CURRENCY_MINIMUMS[currency] || MIN_DEPOSIT_AMOUNT
+  const limits = getDepositLimits(currency, rates)
 
-  if (amount < minAmount) {
+  if (!limits) {
     return {
       valid: false,
-      error: `Minimum deposit amount is ${minAmount} ${currency}`
+      error: `Deposits in ${currency} are not available right now`
     }
   }
 
-  // For USD equivalent check, we'll use a simple approximation
-  // In production, you might want to use real-time exchange rates
-  const usdEquivalent = amount // Simplified for now
+  if (amount < limits.minAmount) {
+    return {
+      valid: false,
+      error: `Minimum deposit amount is ${limits.minAmount} ${currency}`
+    }
+  }
 
-  if (usdEquivalent > MAX_DEPOSIT_AMOUNT * 2) {
-    // Allow some buffer for exchange rates
+  if (amount > limits.maxAmount) {
     return {
       valid: false,
-      error: `Maximum deposit amount is ${MAX_DEPOSIT_AMOUNT} USD equivalent`
+      error: `Maximum deposit amount is ${limits.maxAmount} ${currency} (${MAX_DEPOSIT_AMOUNT} USD equivalent)`
     }
   }
 
   return { valid: true }
 }
 
+/**
+ * Validate a deposit and convert it into the ledger currency at the current
+ * exchange rate
+ */
+export async function quoteDeposit(
+  amount: number,
+  currency: SupportedCurrency,
+  ledgerCurrency: SupportedCurrency
+): Promise<DepositQuote> {
+  const rates = await getExchangeRates()
+  const limits = getDepositLimits(currency, rates) ?? undefined
+  const validation = validateAmount(amount, currency, rates)
+
+  if (!validation.valid) {
+    return { valid: false, error: validation.error, limits }
+  }
+
+  const conversion = convertAmount(amount, currency, ledgerCurrency, rates)
+
+  if (!conversion) {
+    return {
+      valid: false,
+      error: `Deposits in ${currency} are not available right now`,
+      limits
+    }
+  }
+
+  return { valid: true, limits, conversion }
+}
+
+/**
+ * Payment intent metadata recording the conversion of a deposit
+ */
+function getConversionMetadata(
+  conversion: CurrencyConversion
+): Record<string, string> {
+  return {
+    ledgerAmount: conversion.toAmount.toString(),
+    ledgerCurrency: conversion.toCurrency,
+    exchangeRate: conversion.rate.toString(),
+    exchangeRateSource: conversion.source,
+    exchangeRateAt: conversion.asOf.toISOString()
+  }
+}
+
+/**
+ * Wallet a deposit is credited to: the organization's shared wallet when the
+ * intent was created for one, otherwise the paying user's balance
+ */
+export function getDepositWalletId(
+  metadata: Record<string, string> | null | undefined
+): string | undefined {
+  return metadata?.organizationId || metadata?.userId
+}
+
+/**
+ * Amount to credit for a succeeded payment intent, at the rate recorded when
+ * it was created. Intents created before deposits were converted are credited
+ * their original amount
+ * @returns The credit, or null if the metadata has no valid amount
+ */
+export function getDepositCredit(
+  metadata: Record<string, string> | null | undefined
+): DepositCredit | null {
+  if (!metadata?.originalAmount || !metadata.originalCurrency) {
+    return null
+  }
+
+  const converted = metadata.ledgerAmount !== undefined
+  const amount = parseFloat(
+    converted ? metadata.ledgerAmount : metadata.originalAmount
+  )
+
+  if (isNaN(amount) || amount <= 0) {
+    return null
+  }
+
+  return {
+    amount,
+    metadata: {
+      ...(converted && {
+        depositAmount: parseFloat(metadata.originalAmount),
+        depositCurrency: metadata.originalCurrency,
+        exchangeRate: parseFloat(metadata.exchangeRate),
+        exchangeRateSource: metadata.exchangeRateSource,
+        exchangeRateAt: metadata.exchangeRateAt
+      }),
+      // Member who paid into an organization wallet
+      ...(metadata.organizationId && { depositedBy: metadata.userId })
+    }
+  }
+}
+
+/**
+ * Balance to deduct for a refund of a deposit, in the ledger currency
+ * The refund takes back its share of what the deposit credited, so a full
+ * refund deducts exactly the credit even if rates have moved since
+ * @param refundAmount - Refund in the smallest unit of the payment currency
+ * @param chargedAmount - Deposit in the smallest unit of the payment currency
+ * @returns The amount, or null if the metadata has no valid deposit amount
+ */
+export function getRefundDebit(
+  refundAmount: number,
+  chargedAmount: number,
+  metadata: Record<string, string> | null | undefined
+): number | null {
+  const credit = getDepositCredit(metadata)
+
+  if (!credit || chargedAmount <= 0 || refundAmount <= 0) {
+    return null
+  }
+
+  const factor = Math.pow(
+    10,
+    getDecimalPlaces(metadata?.ledgerCurrency || metadata?.originalCurrency)
+  )
+
+  return (
+    Math.round(
+      credit.amount * Math.min(refundAmount / chargedAmount, 1) * factor
+    ) / factor
+  )
+}
+
+function getDecimalPlaces(currency?: string): number {
+  const upper = currency?.toUpperCase()
+  return upper && isSupportedCurrency(upper)
+    ? CURRENCY_INFO[upper].decimalPlaces
+    : 2
+}
+
+/**
+ * Convert an amount into the smallest unit of its currency (cents, yen)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * Math.pow(10, getDecimalPlaces(currency)))
+}
+
+/**
+ * Convert an amount from the smallest unit of its currency
+ */
+export function fromMinorUnits(amount: number, currency: string): number {
+  return amount / Math.pow(10, getDecimalPlaces(currency))
+}
+
 /**
  * Create a Stripe Payment Intent
  */
@@ -109,10 +292,14 @@ export async function createPaymentIntent(
     throw new Error(`Unsupported currency: ${currency}`)
   }
 
-  // Validate amount
-  const validation = validateAmount(amount, currency)
-  if (!validation.valid) {
-    throw new Error(validation.error)
+  // Validate amount and convert it into the ledger currency
+  const quote = await quoteDeposit(
+    amount,
+    currency,
+    params.ledgerCurrency ?? currency
+  )
+  if (!quote.valid || !quote.conversion) {
+    throw new Error(quote.error)
   }
 
   // Get Stripe client
@@ -140,8 +327,14 @@ export async function createPaymentIntent(
         type: 'balance_deposit',
         originalAmount: amount.toString(),
         originalCurrency: currency,
+        ...getConversionMetadata(quote.conversion),
+        ...(params.saveForCustomerId && { savePaymentMethod: 'true' }),
         ...metadata
       },
+      ...(params.saveForCustomerId && {
+        customer: params.saveForCustomerId,
+        setup_future_usage: 'off_session' as const
+      }),
       ...(userEmail && {
         receipt_email: userEmail
       }),
@@ -154,7 +347,8 @@ export async function createPaymentIntent(
 
     return {
       clientSecret: paymentIntent.client_secret,
-      paymentIntentId: paymentIntent.id
+      paymentIntentId: paymentIntent.id,
+      conversion: quote.conversion
     }
   } catch (error) {
     console.error('Error creating payment intent:', error)
@@ -165,6 +359,150 @@ export async function createPaymentIntent(
   }
 }
 
+/**
+ * Charge a saved card without the customer present (automatic top-up)
+ * Declined cards and cards that need authentication are reported in the
+ * result; other Stripe errors are thrown
+ */
+export async function createOffSessionPaymentIntent(
+  params: OffSessionPaymentParams
+): Promise<OffSessionPaymentResult> {
+  const {
+    amount,
+    currency,
+    userId,
+    customerId,
+    paymentMethodId,
+    idempotencyKey,
+    metadata
+  } = params
+
+  // Top-ups are charged in the ledger currency
+  const quote = await quoteDeposit(amount, currency, currency)
+  if (!quote.valid || !quote.conversion) {
+    throw new Error(quote.error)
+  }
+
+  const stripe = getStripeClient()
+  const decimalPlaces = ['JPY', 'KRW', 'CLP', 'TWD', 'VND', 'HUF', 'IDR'].includes(
+    currency
+  )
+    ? 0
+    : 2
+
+  try {
+    const paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: Math.round(amount * Math.pow(10, decimalPlaces)),
+        currency: currency.toLowerCase(),
+        customer: customerId,
+        payment_method: paymentMethodId,
+        off_session: true,
+        confirm: true,
+        metadata: {
+          userId,
+          type: 'auto_recharge',
+          originalAmount: amount.toString(),
+          originalCurrency: currency,
+          ...getConversionMetadata(quote.conversion),
+          ...metadata
+        },
+        description: `Automatic top-up: ${amount} ${currency}`
+      },
+      { idempotencyKey }
+    )
+
+    return {
+      succeeded: paymentIntent.status !== 'requires_payment_method',
+      paymentIntentId: paymentIntent.id,
+      status: paymentIntent.status,
+      errorMessage: paymentIntent.last_payment_error?.message
+    }
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      'type' in error &&
+      error.type === 'StripeCardError'
+    ) {
+      const cardError = error as Stripe.errors.StripeCardError
+      return {
+        succeeded: false,
+        paymentIntentId: cardError.payment_intent?.id,
+        status: cardError.payment_intent?.status,
+        errorMessage: cardError.message
+      }
+    }
+
+    console.error('Error creating off-session payment intent:', error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to charge saved card: ${error.message}`)
+    }
+    throw new Error('Failed to charge saved card')
+  }
+}
+
+/**
+ * Create a Stripe customer to save cards on
+ */
+export async function createCustomer(
+  userId: string,
+  email?: string
+): Promise<string> {
+  const stripe = getStripeClient()
+
+  try {
+    const customer = await stripe.customers.create({
+      metadata: { userId },
+      ...(email && { email })
+    })
+    return customer.id
+  } catch (error) {
+    console.error('Error creating customer:', error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to create customer: ${error.message}`)
+    }
+    throw new Error('Failed to create customer')
+  }
+}
+
+/**
+ * Short description of a saved payment method, e.g. "visa •••• 4242"
+ */
+export async function getPaymentMethodLabel(
+  paymentMethodId: string
+): Promise<string> {
+  const stripe = getStripeClient()
+
+  try {
+    const paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId)
+    return paymentMethod.card
+      ? `${paymentMethod.card.brand} •••• ${paymentMethod.card.last4}`
+      : paymentMethod.type
+  } catch (error) {
+    console.error('Error retrieving payment method:', error)
+    return 'saved payment method'
+  }
+}
+
+/**
+ * Detach a saved payment method from its customer
+ */
+export async function detachPaymentMethod(
+  paymentMethodId: string
+): Promise<void> {
+  const stripe = getStripeClient()
+
+  try {
+    await stripe.paymentMethods.detach(paymentMethodId)
+  } catch (error) {
+    console.error('Error detaching payment method:', error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to detach payment method: ${error.message}`)
+    }
+    throw new Error('Failed to detach payment method')
+  }
+}
+
 /**
  * Retrieve a payment intent
  */
@@ -205,20 +543,29 @@ export async function cancelPaymentIntent(
 
 /**
  * Create a refund for a payment
+ * @param amount - In the smallest currency unit; omit for a full refund
+ * @param idempotencyKey - Stripe idempotency key; retrying with the same key
+ * returns the refund already created instead of refunding twice
  */
 export async function createRefund(
   paymentIntentId: string,
   amount?: number,
-  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer'
+  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer',
+  metadata?: Record<string, string>,
+  idempotencyKey?: string
 ): Promise<Stripe.Refund> {
   const stripe = getStripeClient()
 
   try {
-    return await stripe.refunds.create({
-      payment_intent: paymentIntentId,
-      ...(amount && { amount }),
-      ...(reason && { reason })
-    })
+    return await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        ...(amount && { amount }),
+        ...(reason && { reason }),
+        ...(metadata && { metadata })
+      },
+      idempotencyKey ? { idempotencyKey } : undefined
+    )
   } catch (error) {
     console.error('Error creating refund:', error)
     if (error instanceof Error) {
@@ -228,6 +575,26 @@ export async function createRefund(
   }
 }
 
+/**
+ * List the refunds of a charge, newest first
+ */
+export async function listChargeRefunds(
+  chargeId: string
+): Promise<Stripe.Refund[]> {
+  const stripe = getStripeClient()
+
+  try {
+    const refunds = await stripe.refunds.list({ charge: chargeId, limit: 100 })
+    return refunds.data
+  } catch (error) {
+    console.error('Error listing refunds:', error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to list refunds: ${error.message}`)
+    }
+    throw new Error('Failed to list refunds')
+  }
+}
+
 /**
  * Get predefined deposit amounts for a currency
  */
@@ -0,0 +1,216 @@
+/**
+ * Stripe subscription service
+ * Handles subscription checkout, cancellation and reading subscription
+ * invoices for monthly credit allowances
+ */
+
+import type Stripe from 'stripe'
+
+import type { SubscriptionPlan } from '../pricing/subscription-service'
+
+import { getStripeClient } from './stripe-client'
+
+export interface SubscriptionCheckoutParams {
+  plan: SubscriptionPlan
+  userId: string
+  userEmail?: string
+  stripeCustomerId?: string
+  successUrl: string
+  cancelUrl: string
+}
+
+export interface SubscriptionCheckoutResult {
+  url: string
+  sessionId: string
+}
+
+export interface SubscriptionPeriod {
+  start: Date
+  end: Date
+}
+
+// Invoices that start a new billing period and grant its allowance
+const ALLOWANCE_BILLING_REASONS: Stripe.Invoice.BillingReason[] = [
+  'subscription_create',
+  'subscription_cycle'
+]
+
+/**
+ * Create a Stripe Checkout session for a subscription plan
+ */
+export async function createSubscriptionCheckout(
+  params: SubscriptionCheckoutParams
+): Promise<SubscriptionCheckoutResult> {
+  const { plan, userId, userEmail, stripeCustomerId, successUrl, cancelUrl } =
+    params
+
+  if (!plan.stripePriceId) {
+    throw new Error(`Subscription plan ${plan.id} has no Stripe price`)
+  }
+
+  const stripe = getStripeClient()
+
+  try {
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      line_items: [{ price: plan.stripePriceId, quantity: 1 }],
+      client_reference_id: userId,
+      ...(stripeCustomerId
+        ? { customer: stripeCustomerId }
+        : userEmail && { customer_email: userEmail }),
+      subscription_data: {
+        metadata: {
+          userId,
+          subscriptionPlanId: plan.id
+        }
+      },
+      metadata: {
+        userId,
+        type: 'subscription',
+        subscriptionPlanId: plan.id
+      },
+      success_url: successUrl,
+      cancel_url: cancelUrl
+    })
+
+    if (!session.url) {
+      throw new Error('Checkout session created but no URL returned')
+    }
+
+    return { url: session.url, sessionId: session.id }
+  } catch (error) {
+    console.error('Error creating subscription checkout:', error)
+    if (error instanceof Error) {
+      throw new Error(
+        `Failed to create subscription checkout: ${error.message}`
+      )
+    }
+    throw new Error('Failed to create subscription checkout')
+  }
+}
+
+/**
+ * Cancel a subscription at the end of its current period
+ * The allowance already granted stays usable until then
+ */
+export async function cancelSubscriptionAtPeriodEnd(
+  subscriptionId: string
+): Promise<Stripe.Subscription> {
+  const stripe = getStripeClient()
+
+  try {
+    return await stripe.subscriptions.update(subscriptionId, {
+      cancel_at_period_end: true
+    })
+  } catch (error) {
+    console.error('Error canceling subscription:', error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to cancel subscription: ${error.message}`)
+    }
+    throw new Error('Failed to cancel subscription')
+  }
+}
+
+/**
+ * Retrieve a subscription
+ */
+export async function getSubscription(
+  subscriptionId: string
+): Promise<Stripe.Subscription> {
+  const stripe = getStripeClient()
+
+  try {
+    return await stripe.subscriptions.retrieve(subscriptionId)
+  } catch (error) {
+    console.error('Error retrieving subscription:', error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to retrieve subscription: ${error.message}`)
+    }
+    throw new Error('Failed to retrieve subscription')
+  }
+}
+
+/**
+ * Get the subscription an invoice was created for, if any
+ */
+export function getInvoiceSubscriptionId(
+  invoice: Stripe.Invoice
+): string | null {
+  const subscription = invoice.parent?.subscription_details?.subscription
+
+  if (!subscription) {
+    return null
+  }
+
+  return typeof subscription === 'string' ? subscription : subscription.id
+}
+
+/**
+ * Whether a paid invoice starts a billing period that grants an allowance
+ * (proration and manual invoices do not)
+ */
+export function isAllowanceInvoice(invoice: Stripe.Invoice): boolean {
+  return (
+    getInvoiceSubscriptionId(invoice) !== null &&
+    invoice.billing_reason !== null &&
+    ALLOWANCE_BILLING_REASONS.includes(invoice.billing_reason)
+  )
+}
+
+/**
+ * Get the service period an invoice pays for
+ * Subscription invoices bill in advance, so this is the line item period
+ * rather than the invoice period
+ */
+export function getInvoiceServicePeriod(
+  invoice: Stripe.Invoice
+): SubscriptionPeriod | null {
+  const line = invoice.lines?.data?.[0]
+
+  if (!line?.period) {
+    return null
+  }
+
+  return {
+    start: new Date(line.period.start * 1000),
+    end: new Date(line.period.end * 1000)
+  }
+}
+
+/**
+ * Get the current period of a subscription (from its first item)
+ */
+export function getSubscriptionPeriod(
+  subscription: Stripe.Subscription
+): SubscriptionPeriod | null {
+  const item = subscription.items?.data?.[0]
+
+  if (!item) {
+    return null
+  }
+
+  return {
+    start: new Date(item.current_period_start * 1000),
+    end: new Date(item.current_period_end * 1000)
+  }
+}
+
+/**
+ * Get the price a subscription is billed at (from its first item)
+ */
+export function getSubscriptionPriceId(
+  subscription: Stripe.Subscription
+): string | null {
+  return subscription.items?.data?.[0]?.price?.id ?? null
+}
+
+/**
+ * Get the customer ID of a subscription
+ */
+export function getSubscriptionCustomerId(
+  subscription: Stripe.Subscription
+): string {
+  return typeof subscription.customer === 'string'
+    ? subscription.customer
+    : subscription.customer.id
+}
@@ -0,0 +1,521 @@
+/**
+ * Stripe Webhook Handlers
+ *
+ * What each Stripe event does to wallets, subscriptions and disputes. Called
+ * by the webhook route and by admin replays through the event log
+ * (see event-log.ts); a handler throws when the event should be retried.
+ */
+
+import type Stripe from 'stripe'
+
+import {
+  completeAutoRecharge,
+  disableAutoRecharge,
+  saveAutoRechargePaymentMethod
+} from '../pricing/auto-recharge-service'
+import {
+  addBalance,
+  expireSubscriptionAllowance,
+  grantSubscriptionAllowance
+} from '../pricing/balance-service'
+import { freezeDisputedFunds, settleDispute } from '../pricing/dispute-service'
+import {
+  DEFAULT_PLAN_ID,
+  setUserPlanId
+} from '../pricing/pricing-policy-service'
+import { recordChargeRefunds } from '../pricing/refund-service'
+import {
+  getSubscriptionPlan,
+  getSubscriptionPlanByPriceId,
+  isSubscriptionLive,
+  SubscriptionPlan,
+  upsertUserSubscription,
+  UserSubscription
+} from '../pricing/subscription-service'
+import { getTransactionByPaymentIntent } from '../pricing/transaction-service'
+
+import {
+  getDepositCredit,
+  getDepositWalletId,
+  getPaymentMethodLabel
+} from './payment-service'
+import { getStripeClient } from './stripe-client'
+import {
+  getInvoiceServicePeriod,
+  getInvoiceSubscriptionId,
+  getSubscription,
+  getSubscriptionCustomerId,
+  getSubscriptionPeriod,
+  getSubscriptionPriceId,
+  isAllowanceInvoice
+} from './subscription-service'
+
+/**
+ * Handle a verified Stripe event
+ * @returns false if the event type has no handler
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<boolean> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      console.log('💰 Processing payment_intent.succeeded...')
+      await handlePaymentIntentSucceeded(event.data.object)
+      return true
+
+    case 'payment_intent.payment_failed':
+      console.log('❌ Processing payment_intent.payment_failed...')
+      await handlePaymentIntentFailed(event.data.object)
+      return true
+
+    case 'charge.refunded':
+      console.log('💸 Processing charge.refunded...')
+      await handleChargeRefunded(event.data.object)
+      return true
+
+    case 'charge.dispute.created':
+      console.log('⚖️ Processing charge.dispute.created...')
+      await handleDisputeCreated(event.data.object)
+      return true
+
+    case 'charge.dispute.closed':
+      console.log('⚖️ Processing charge.dispute.closed...')
+      await handleDisputeClosed(event.data.object)
+      return true
+
+    case 'invoice.paid':
+      console.log('🧾 Processing invoice.paid...')
+      await handleInvoicePaid(event.data.object)
+      return true
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      console.log(`🔁 Processing ${event.type}...`)
+      await syncSubscription(event.data.object)
+      return true
+
+    case 'customer.subscription.deleted':
+      console.log('🛑 Processing customer.subscription.deleted...')
+      await handleSubscriptionDeleted(event.data.object)
+      return true
+
+    default:
+      console.log(`ℹ️  Unhandled event type: ${event.type}`)
+      return false
+  }
+}
+
+/**
+ * Handle successful payment intent
+ */
+async function handlePaymentIntentSucceeded(
+  paymentIntent: Stripe.PaymentIntent
+) {
+  console.log('💳 Payment intent succeeded:', paymentIntent.id)
+  console.log('📋 Metadata:', JSON.stringify(paymentIntent.metadata, null, 2))
+
+  // Before the idempotency check: the finalize route may have credited the
+  // payment already, but only the webhook saves cards and ends top-ups
+  await handleAutoRechargePayment(paymentIntent)
+
+  // Idempotency check: verify this payment hasn't already been processed
+  const existingTransaction = await getTransactionByPaymentIntent(
+    paymentIntent.id,
+    true // useAdmin=true for webhook context
+  )
+  if (existingTransaction) {
+    console.log(
+      `⏭️  Payment intent ${paymentIntent.id} already processed (transaction ${existingTransaction.id}). Skipping duplicate.`
+    )
+    return
+  }
+
+  const { metadata } = paymentIntent
+  const userId = metadata?.userId
+  const originalAmount = metadata?.originalAmount
+  const originalCurrency = metadata?.originalCurrency
+
+  console.log('🔍 Extracted values:', {
+    userId,
+    originalAmount,
+    originalCurrency,
+    ledgerAmount: metadata?.ledgerAmount,
+    ledgerCurrency: metadata?.ledgerCurrency
+  })
+
+  if (!userId) {
+    console.error('❌ Missing userId in payment intent metadata')
+    console.error('📋 Full metadata:', metadata)
+    return
+  }
+
+  if (!originalAmount || !originalCurrency) {
+    console.error('❌ Missing amount or currency in payment intent metadata')
+    console.error('📋 Full metadata:', metadata)
+    return
+  }
+
+  // Credited in the ledger currency at the rate recorded on the intent
+  const credit = getDepositCredit(metadata)
+
+  if (!credit) {
+    console.error('Invalid amount in payment intent metadata:', metadata)
+    return
+  }
+
+  const { amount } = credit
+  const ledgerCurrency = metadata.ledgerCurrency || originalCurrency
+  // Organization deposits go to the shared wallet
+  const walletId = getDepositWalletId(metadata) ?? userId
+
+  // Get charge ID from the payment intent
+  const chargeId =
+    typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id
+
+  // Add balance to user account (useAdmin=true for webhook context)
+  console.log(
+    `Attempting to add ${amount} ${ledgerCurrency} (paid ${originalAmount} ${originalCurrency}) to wallet ${walletId}`
+  )
+
+  const transactionId = await addBalance(
+    walletId,
+    amount,
+    `Payment received: ${paymentIntent.id}`,
+    paymentIntent.id,
+    chargeId,
+    {
+      paymentIntentStatus: paymentIntent.status,
+      paymentMethod: paymentIntent.payment_method,
+      receiptEmail: paymentIntent.receipt_email || undefined,
+      ...credit.metadata
+    },
+    true // useAdmin=true for webhook processing
+  )
+
+  if (transactionId) {
+    console.log(
+      `✅ SUCCESS: Added ${amount} ${ledgerCurrency} to wallet ${walletId} (transaction ${transactionId})`
+    )
+  } else {
+    // Failing the event lets Stripe retry it and admins replay it
+    throw new Error(
+      `Could not add balance for wallet ${walletId}, payment intent ${paymentIntent.id}`
+    )
+  }
+}
+
+/**
+ * Handle failed payment intent
+ */
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
+  console.log('Payment intent failed:', paymentIntent.id)
+
+  const { metadata } = paymentIntent
+  const userId = metadata?.userId
+
+  if (!userId) {
+    console.error('Missing userId in payment intent metadata')
+    return
+  }
+
+  // Log the failure
+  console.error(
+    `Payment failed for user ${userId}:`,
+    paymentIntent.last_payment_error?.message || 'Unknown error'
+  )
+
+  // A failed automatic top-up turns auto top-up off; the user sees why in
+  // the sidebar and on the account page
+  if (metadata.type === 'auto_recharge') {
+    await disableAutoRecharge(
+      userId,
+      paymentIntent.last_payment_error?.message || 'Your card was declined',
+      paymentIntent.id
+    )
+    console.log(`Auto top-up turned off for user ${userId}`)
+  }
+
+  // In production, you might want to:
+  // 1. Send an email notification to the user
+  // 2. Log to an error tracking service
+  // 3. Store failed payment attempt in database
+}
+
+/**
+ * Save the card of a deposit made with "save card for automatic top-ups",
+ * and end an automatic top-up so the next one can start
+ */
+async function handleAutoRechargePayment(paymentIntent: Stripe.PaymentIntent) {
+  const { metadata } = paymentIntent
+  const userId = metadata?.userId
+
+  if (!userId) {
+    return
+  }
+
+  if (metadata.type === 'auto_recharge') {
+    await completeAutoRecharge(userId, paymentIntent.id)
+    return
+  }
+
+  const customerId =
+    typeof paymentIntent.customer === 'string'
+      ? paymentIntent.customer
+      : paymentIntent.customer?.id
+  const paymentMethodId =
+    typeof paymentIntent.payment_method === 'string'
+      ? paymentIntent.payment_method
+      : paymentIntent.payment_method?.id
+
+  if (
+    metadata.savePaymentMethod !== 'true' ||
+    !customerId ||
+    !paymentMethodId
+  ) {
+    return
+  }
+
+  const saved = await saveAutoRechargePaymentMethod(
+    userId,
+    customerId,
+    paymentMethodId,
+    await getPaymentMethodLabel(paymentMethodId),
+    metadata.originalCurrency || paymentIntent.currency.toUpperCase()
+  )
+
+  if (saved) {
+    console.log(
+      `💾 Saved payment method for automatic top-ups of user ${userId}`
+    )
+  }
+}
+
+/**
+ * Handle charge refunded
+ * A charge can be refunded several times; each refund not yet in the ledger
+ * is deducted from the wallet the deposit went to
+ */
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  console.log('Charge refunded:', charge.id)
+
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id
+
+  if (!paymentIntentId) {
+    console.error('Missing payment intent in charge')
+    return
+  }
+
+  // Retrieve the payment intent to get metadata
+  const stripe = getStripeClient()
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId)
+
+  if (!getDepositCredit(paymentIntent.metadata)) {
+    console.error('Missing metadata in payment intent for refund')
+    return
+  }
+
+  const { recorded, failed } = await recordChargeRefunds(
+    charge.id,
+    paymentIntent
+  )
+  const walletId = getDepositWalletId(paymentIntent.metadata)
+
+  if (recorded.length > 0) {
+    console.log(
+      `Recorded refunds ${recorded.join(', ')} of charge ${charge.id} for wallet ${walletId}`
+    )
+  }
+  if (failed.length > 0) {
+    throw new Error(
+      `Failed to process refunds ${failed.join(', ')} for wallet ${walletId}, charge ${charge.id}`
+    )
+  }
+}
+
+/**
+ * Handle an opened dispute: freeze the disputed share of the deposit
+ */
+async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  console.log('Dispute created:', dispute.id)
+
+  const record = await freezeDisputedFunds(dispute)
+
+  if (!record) {
+    throw new Error(`Failed to freeze funds for dispute ${dispute.id}`)
+  }
+
+  if (record.walletId) {
+    console.log(
+      `Froze ${record.frozenAmount} of ${record.amount} disputed in wallet ${record.walletId} (dispute ${dispute.id})`
+    )
+  }
+}
+
+/**
+ * Handle a closed dispute: release the frozen funds if it was won
+ */
+async function handleDisputeClosed(dispute: Stripe.Dispute) {
+  console.log(`Dispute closed (${dispute.status}):`, dispute.id)
+
+  const record = await settleDispute(dispute)
+
+  if (!record) {
+    throw new Error(`Failed to settle dispute ${dispute.id}`)
+  }
+
+  if (record.walletId) {
+    console.log(
+      record.status === 'won'
+        ? `Released ${record.frozenAmount} to wallet ${record.walletId} (dispute ${dispute.id} won)`
+        : `Kept ${record.frozenAmount} frozen from wallet ${record.walletId} (dispute ${dispute.id} lost)`
+    )
+  }
+}
+
+/**
+ * Find the plan a Stripe subscription is for
+ * The price decides; the checkout metadata is a fallback for plans whose
+ * price was changed after the subscription started
+ */
+async function getPlanForSubscription(
+  subscription: Stripe.Subscription
+): Promise<SubscriptionPlan | null> {
+  const priceId = getSubscriptionPriceId(subscription)
+  const plan = priceId ? await getSubscriptionPlanByPriceId(priceId) : null
+
+  if (plan) {
+    return plan
+  }
+
+  const planId = subscription.metadata?.subscriptionPlanId
+  return planId ? getSubscriptionPlan(planId, true) : null
+}
+
+/**
+ * Store the current state of a subscription and move the user to the
+ * pricing plan it grants while it is live
+ */
+async function syncSubscription(
+  subscription: Stripe.Subscription
+): Promise<{ userId: string; plan: SubscriptionPlan } | null> {
+  const userId = subscription.metadata?.userId
+
+  if (!userId) {
+    console.error(`Missing userId in subscription ${subscription.id} metadata`)
+    return null
+  }
+
+  const plan = await getPlanForSubscription(subscription)
+
+  if (!plan) {
+    console.error(
+      `No subscription plan found for subscription ${subscription.id}`
+    )
+    return null
+  }
+
+  const period = getSubscriptionPeriod(subscription)
+  const record: UserSubscription = {
+    userId,
+    subscriptionPlanId: plan.id,
+    stripeSubscriptionId: subscription.id,
+    stripeCustomerId: getSubscriptionCustomerId(subscription),
+    status: subscription.status,
+    currentPeriodStart: period?.start,
+    currentPeriodEnd: period?.end,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    canceledAt: subscription.canceled_at
+      ? new Date(subscription.canceled_at * 1000)
+      : undefined
+  }
+
+  if (!(await upsertUserSubscription(record))) {
+    throw new Error(`Failed to save subscription ${subscription.id}`)
+  }
+
+  if (isSubscriptionLive(record)) {
+    await setUserPlanId(userId, plan.pricingPlanId)
+  }
+
+  return { userId, plan }
+}
+
+/**
+ * Handle a paid subscription invoice: grant the period's credit allowance
+ */
+async function handleInvoicePaid(invoice: Stripe.Invoice) {
+  const subscriptionId = getInvoiceSubscriptionId(invoice)
+
+  if (!subscriptionId) {
+    console.log(`Invoice ${invoice.id} is not for a subscription. Skipping.`)
+    return
+  }
+
+  const subscription = await getSubscription(subscriptionId)
+  const synced = await syncSubscription(subscription)
+
+  if (!synced) {
+    return
+  }
+
+  if (!invoice.id || !isAllowanceInvoice(invoice)) {
+    console.log(
+      `Invoice ${invoice.id} (${invoice.billing_reason}) does not start a billing period. No allowance granted.`
+    )
+    return
+  }
+
+  const { userId, plan } = synced
+
+  if (plan.monthlyAllowance <= 0) {
+    return
+  }
+
+  const period =
+    getInvoiceServicePeriod(invoice) ?? getSubscriptionPeriod(subscription)
+  const expiresAt = plan.allowanceExpires ? (period?.end ?? null) : null
+
+  const transactionId = await grantSubscriptionAllowance(
+    userId,
+    plan.monthlyAllowance,
+    expiresAt,
+    invoice.id,
+    `${plan.name} subscription allowance`
+  )
+
+  if (!transactionId) {
+    throw new Error(`Failed to grant allowance for invoice ${invoice.id}`)
+  }
+
+  console.log(
+    `✅ Granted ${plan.monthlyAllowance} allowance to user ${userId} for invoice ${invoice.id} (transaction ${transactionId})`
+  )
+}
+
+/**
+ * Handle an ended subscription: expire its allowance and return the user to
+ * the default pricing plan
+ */
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
+  const synced = await syncSubscription(subscription)
+
+  if (!synced) {
+    return
+  }
+
+  const { userId, plan } = synced
+
+  if (plan.allowanceExpires) {
+    const expired = await expireSubscriptionAllowance(userId, true)
+    if (expired) {
+      console.log(`Expired ${expired} allowance of user ${userId}`)
+    }
+  }
+
+  await setUserPlanId(userId, DEFAULT_PLAN_ID)
+
+  console.log(`Subscription ${subscription.id} of user ${userId} ended`)
+}
@@ -1,5 +1,6 @@
 import { tool } from 'ai'
 
+import { UsageAccumulator } from '@/lib/pricing/usage-accumulator'
 import { retrieveSchema } from '@/lib/schema/retrieve'
 import { SearchResults as SearchResultsType } from '@/lib/types'
 
@@ -77,24 +78,35 @@ async function fetchTavilyExtractData(
   }
 }
 
-export const retrieveTool = tool({
-  description: 'Retrieve content from the web',
-  parameters: retrieveSchema,
-  execute: async ({ url }) => {
-    let results: SearchResultsType | null
+/**
+ * Creates a retrieve tool. Successful retrievals are metered on `turnUsage`
+ * when provided.
+ */
+export function createRetrieveTool(turnUsage?: UsageAccumulator) {
+  return tool({
+    description: 'Retrieve content from the web',
+    parameters: retrieveSchema,
+    execute: async ({ url }) => {
+      let results: SearchResultsType | null
 
-    // Use Jina if the API key is set, otherwise use Tavily
-    const useJina = process.env.JINA_API_KEY
-    if (useJina) {
-      results = await fetchJinaReaderData(url)
-    } else {
-      results = await fetchTavilyExtractData(url)
-    }
+      // Use Jina if the API key is set, otherwise use Tavily
+      const useJina = process.env.JINA_API_KEY
+      if (useJina) {
+        results = await fetchJinaReaderData(url)
+      } else {
+        results = await fetchTavilyExtractData(url)
+      }
 
-    if (!results) {
-      return null
+      if (!results) {
+        return null
+      }
+
+      turnUsage?.addToolCall('retrieve', useJina ? 'jina' : 'tavily')
+
+      return results
     }
+  })
+}
 
-    return results
-  }
-})
+// Default export for backward compatibility, without metering
+export const retrieveTool = createRetrieveTool()
@@ -1,5 +1,6 @@
 import { tool } from 'ai'
 
+import { UsageAccumulator } from '@/lib/pricing/usage-accumulator'
 import { getSearchSchemaForModel } from '@/lib/schema/search'
 import { SearchResults } from '@/lib/types'
 import { getBaseUrlString } from '@/lib/utils/url'
@@ -12,8 +13,12 @@ import {
 
 /**
  * Creates a search tool with the appropriate schema for the given model.
+ * Successful searches are metered on `turnUsage` when provided.
  */
-export function createSearchTool(fullModel: string) {
+export function createSearchTool(
+  fullModel: string,
+  turnUsage?: UsageAccumulator
+) {
   return tool({
     description: 'Search the web for information',
     parameters: getSearchSchemaForModel(fullModel),
@@ -84,6 +89,7 @@ export function createSearchTool(fullModel: string) {
             exclude_domains
           )
         }
+        turnUsage?.addToolCall('search', searchAPI, effectiveSearchDepthForAPI)
       } catch (error) {
         console.error('Search API error:', error)
         searchResult = {
@@ -108,9 +114,13 @@ export async function search(
   maxResults: number = 10,
   searchDepth: 'basic' | 'advanced' = 'basic',
   includeDomains: string[] = [],
-  excludeDomains: string[] = []
+  excludeDomains: string[] = [],
+  turnUsage?: UsageAccumulator
 ): Promise<SearchResults> {
-  return searchTool.execute(
+  const meteredSearchTool = turnUsage
+    ? createSearchTool('openai:gpt-4o-mini', turnUsage)
+    : searchTool
+  return meteredSearchTool.execute(
     {
       query,
       max_results: maxResults,
@@ -1,6 +1,10 @@
 import { SearchResults } from '@/lib/types'
 
 export interface SearchProvider {
+  /**
+   * Run a search. Throws when the provider request fails, so a failed search
+   * is not metered as a tool call
+   */
   search(
     query: string,
     maxResults: number,
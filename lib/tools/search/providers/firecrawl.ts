@@ -33,6 +33,10 @@ export class FirecrawlSearchProvider extends BaseSearchProvider {
       // Note: Firecrawl Search API does not support includeDomains/excludeDomains yet...
     })
 
+    if (!response.success) {
+      throw new Error('Firecrawl search was not successful')
+    }
+
     const resources: (FirecrawlWebResult | FirecrawlNewsResult)[] = [
       ...(response.data?.web || []),
       ...(response.data?.news || [])
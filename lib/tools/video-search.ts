@@ -1,11 +1,16 @@
 import { tool } from 'ai'
 
+import { UsageAccumulator } from '@/lib/pricing/usage-accumulator'
 import { getSearchSchemaForModel } from '@/lib/schema/search'
 
 /**
  * Creates a video search tool with the appropriate schema for the model.
+ * Successful searches are metered on `turnUsage` when provided.
  */
-export function createVideoSearchTool(fullModel: string) {
+export function createVideoSearchTool(
+  fullModel: string,
+  turnUsage?: UsageAccumulator
+) {
   return tool({
     description: 'Search for videos from YouTube',
     parameters: getSearchSchemaForModel(fullModel),
@@ -24,7 +29,9 @@ export function createVideoSearchTool(fullModel: string) {
           throw new Error('Network response was not ok')
         }
 
-        return await response.json()
+        const results = await response.json()
+        turnUsage?.addToolCall('video_search', 'serper')
+        return results
       } catch (error) {
         console.error('Video Search API error:', error)
         return null
@@ -1,6 +1,16 @@
 export interface ModelPricing {
   inputPricePer1kTokens: number
   outputPricePer1kTokens: number
+  cachedInputPricePer1kTokens?: number
+  cacheWritePricePer1kTokens?: number
+  reasoningPricePer1kTokens?: number
+  imageInputPricePer1kTokens?: number
+  tiers?: {
+    minTokens: number
+    maxTokens?: number
+    inputPrice: number
+    outputPrice: number
+  }[]
 }
 
 export interface Model {
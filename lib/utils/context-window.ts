@@ -4,6 +4,7 @@ import { Model } from '../types/models'
 
 const DEFAULT_CONTEXT_WINDOW = 128_000
 const DEFAULT_RESERVE_TOKENS = 30_000
+const DEFAULT_MAX_OUTPUT_TOKENS = 8_192
 
 export function getMaxAllowedTokens(model: Model): number {
   let contextWindow: number
@@ -23,6 +24,18 @@ export function getMaxAllowedTokens(model: Model): number {
   return contextWindow - reserveTokens
 }
 
+export function getMaxOutputTokens(model: Model): number {
+  if (/^o\d/.test(model.id)) {
+    return 100_000
+  } else if (model.id.startsWith('gpt-4.1')) {
+    return 32_768
+  } else if (model.id.startsWith('gpt-4o')) {
+    return 16_384
+  }
+
+  return DEFAULT_MAX_OUTPUT_TOKENS
+}
+
 export function truncateMessages(
   messages: CoreMessage[],
   maxTokens: number
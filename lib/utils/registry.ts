@@ -119,29 +119,31 @@ export function isProviderEnabled(providerId: string): boolean {
   }
 }
 
-export function getToolCallModel(model?: string) {
+export function getToolCallModelId(model?: string): string {
   const [provider, ...modelNameParts] = model?.split(':') ?? []
   const modelName = modelNameParts.join(':')
   switch (provider) {
     case 'deepseek':
-      return getModel('deepseek:deepseek-chat')
+      return 'deepseek:deepseek-chat'
     case 'fireworks':
-      return getModel(
-        'fireworks:accounts/fireworks/models/llama-v3p1-8b-instruct'
-      )
+      return 'fireworks:accounts/fireworks/models/llama-v3p1-8b-instruct'
     case 'groq':
-      return getModel('groq:llama-3.1-8b-instant')
+      return 'groq:llama-3.1-8b-instant'
     case 'ollama':
       const ollamaModel =
         process.env.NEXT_PUBLIC_OLLAMA_TOOL_CALL_MODEL || modelName
-      return getModel(`ollama:${ollamaModel}`)
+      return `ollama:${ollamaModel}`
     case 'google':
-      return getModel('google:gemini-2.0-flash')
+      return 'google:gemini-2.0-flash'
     default:
-      return getModel('openai:gpt-4o-mini')
+      return 'openai:gpt-4o-mini'
   }
 }
 
+export function getToolCallModel(model?: string) {
+  return getModel(getToolCallModelId(model))
+}
+
 export function isToolCallSupported(model?: string) {
   const [provider, ...modelNameParts] = model?.split(':') ?? []
   const modelName = modelNameParts.join(':')
@@ -0,0 +1,188 @@
+/**
+ * Shared helpers for the billing and pricing test scripts
+ *
+ * Logging, assertions and the pass/fail summary, plus the pricing fixtures
+ * used by more than one script. Each script imports what it needs and ends
+ * with printTestSummary().
+ */
+
+import { ModelPricing, PricingPolicy } from '@/lib/pricing/types'
+
+// ANSI color codes for terminal output
+export const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m'
+}
+
+export function logTest(name: string) {
+  console.log(`\n${colors.blue}▶ ${name}${colors.reset}`)
+}
+
+export function logSuccess(message: string) {
+  console.log(`  ${colors.green}✓${colors.reset} ${message}`)
+}
+
+export function logError(message: string) {
+  console.log(`  ${colors.red}✗${colors.reset} ${message}`)
+}
+
+export function logWarning(message: string) {
+  console.log(`  ${colors.yellow}⚠${colors.reset} ${message}`)
+}
+
+export function logInfo(message: string) {
+  console.log(`  ${colors.cyan}ℹ${colors.reset} ${message}`)
+}
+
+// Test counter
+let passed = 0
+let failed = 0
+
+export function recordPass(message: string) {
+  logSuccess(message)
+  passed++
+}
+
+export function recordFailure(message: string) {
+  logError(message)
+  failed++
+}
+
+export function assertEqual(actual: any, expected: any, message: string) {
+  if (actual === expected) {
+    recordPass(`${message}: ${actual}`)
+  } else {
+    recordFailure(`${message}: expected ${expected}, got ${actual}`)
+  }
+}
+
+export function assertApproximately(
+  actual: number,
+  expected: number,
+  tolerance: number,
+  message: string
+) {
+  const diff = Math.abs(actual - expected)
+  if (diff <= tolerance) {
+    recordPass(`${message}: ${actual} (within ${tolerance} of ${expected})`)
+  } else {
+    recordFailure(
+      `${message}: expected ~${expected}, got ${actual} (diff: ${diff})`
+    )
+  }
+}
+
+/**
+ * Print the pass/fail summary and exit with a failing code if any test failed
+ */
+export function printTestSummary(): never {
+  console.log('\n' + '='.repeat(60))
+  console.log(`${colors.cyan}TEST SUMMARY${colors.reset}`)
+  console.log('='.repeat(60))
+
+  const total = passed + failed
+  const passRate = ((passed / total) * 100).toFixed(1)
+
+  if (failed === 0) {
+    console.log(
+      `${colors.green}✓ All ${passed} tests passed! (100%)${colors.reset}\n`
+    )
+    process.exit(0)
+  } else {
+    console.log(`${colors.green}✓ Passed: ${passed}${colors.reset}`)
+    console.log(`${colors.red}✗ Failed: ${failed}${colors.reset}`)
+    console.log(`${colors.yellow}Pass rate: ${passRate}%${colors.reset}\n`)
+    process.exit(1)
+  }
+}
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+// Sample pricing from real-world models
+export const gpt4Pricing: ModelPricing = {
+  modelId: 'gpt-4',
+  providerId: 'openai',
+  inputPricePer1kTokens: 0.03, // $0.03 per 1k input tokens
+  outputPricePer1kTokens: 0.06 // $0.06 per 1k output tokens
+}
+
+export const gpt35TurboPricing: ModelPricing = {
+  modelId: 'gpt-3.5-turbo',
+  providerId: 'openai',
+  inputPricePer1kTokens: 0.0005, // $0.0005 per 1k input tokens
+  outputPricePer1kTokens: 0.0015 // $0.0015 per 1k output tokens
+}
+
+export const claudeSonnetPricing: ModelPricing = {
+  modelId: 'claude-sonnet-4',
+  providerId: 'anthropic',
+  inputPricePer1kTokens: 0.003, // $0.003 per 1k input tokens
+  outputPricePer1kTokens: 0.015 // $0.015 per 1k output tokens
+}
+
+// Pro plan: global, plan-provider and fixed model markups, and a rule of
+// another plan that must not apply
+export const proPolicy: PricingPolicy = {
+  planId: 'pro',
+  minChargePerRequest: 0.001,
+  rules: [
+    {
+      planId: null,
+      providerId: null,
+      modelId: null,
+      markupType: 'percentage',
+      markupValue: 20,
+      isActive: true
+    },
+    {
+      planId: 'pro',
+      providerId: 'openai',
+      modelId: null,
+      markupType: 'percentage',
+      markupValue: 10,
+      isActive: true
+    },
+    {
+      planId: null,
+      providerId: 'openai',
+      modelId: 'gpt-4o',
+      markupType: 'fixed',
+      markupValue: 0.002,
+      isActive: true
+    },
+    {
+      planId: 'enterprise',
+      providerId: null,
+      modelId: null,
+      markupType: 'percentage',
+      markupValue: -50,
+      isActive: true
+    }
+  ]
+}
+
+// Conversation cost estimate of a gpt-4o-mini turn, before markup
+export const conversationEstimate = {
+  inputTokens: 1000,
+  outputTokens: 500,
+  totalTokens: 1500,
+  inputCost: 0.0025,
+  outputCost: 0.005,
+  totalCost: 0.0075,
+  estimatedCostRange: { min: 0.005, max: 0.01 }
+}
+
+export const miniModel = {
+  id: 'gpt-4o-mini',
+  name: 'GPT-4o mini',
+  provider: 'OpenAI',
+  providerId: 'openai',
+  enabled: true,
+  toolCallType: 'native' as const
+}
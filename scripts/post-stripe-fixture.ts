@@ -0,0 +1,109 @@
+/**
+ * Post Stripe Fixture
+ *
+ * Signs Stripe event fixtures with the webhook secret and posts them to the
+ * webhook route of a running app, so webhook handling can be exercised
+ * without the Stripe CLI. Every posted event shows up on /admin/stripe-events.
+ *
+ * Run with:
+ *   STRIPE_WEBHOOK_SECRET=whsec_... bun run scripts/post-stripe-fixture.ts <fixture>...
+ *
+ * Fixtures are the keys of scripts/fixtures/stripe-dispute-events.json and
+ * stripe-subscription-events.json, e.g. to freeze and release a dispute:
+ *   bun run scripts/post-stripe-fixture.ts payment_intent_succeeded dispute_created dispute_closed_won
+ *
+ * Options:
+ *   --url <url>  Webhook URL (default http://localhost:3000/api/payments/webhook)
+ *   --fresh      Give each event a new id, so an already handled fixture is
+ *                handled again instead of skipped as a redelivery
+ */
+
+import Stripe from 'stripe'
+
+import disputeFixtures from './fixtures/stripe-dispute-events.json'
+import subscriptionFixtures from './fixtures/stripe-subscription-events.json'
+
+const DEFAULT_URL = 'http://localhost:3000/api/payments/webhook'
+
+const fixtures: Record<string, { id: string }> = {
+  ...subscriptionFixtures,
+  ...disputeFixtures
+}
+
+function parseArgs(argv: string[]) {
+  const names: string[] = []
+  let url = DEFAULT_URL
+  let fresh = false
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--url') {
+      url = argv[++i]
+    } else if (argv[i] === '--fresh') {
+      fresh = true
+    } else {
+      names.push(argv[i])
+    }
+  }
+
+  return { names, url, fresh }
+}
+
+async function main() {
+  const { names, url, fresh } = parseArgs(process.argv.slice(2))
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set')
+    process.exit(1)
+  }
+
+  if (names.length === 0) {
+    console.error(
+      'Usage: post-stripe-fixture.ts [--url <url>] [--fresh] <fixture>...'
+    )
+    console.error(`Fixtures: ${Object.keys(fixtures).join(', ')}`)
+    process.exit(1)
+  }
+
+  const unknown = names.filter(name => !fixtures[name])
+  if (unknown.length > 0) {
+    console.error(`Unknown fixtures: ${unknown.join(', ')}`)
+    process.exit(1)
+  }
+
+  let failed = 0
+
+  for (const name of names) {
+    const fixture = fixtures[name]
+    const event = fresh
+      ? { ...fixture, id: `${fixture.id}_${Date.now()}` }
+      : fixture
+    const payload = JSON.stringify(event)
+    const signature = await Stripe.webhooks.generateTestHeaderStringAsync({
+      payload,
+      secret
+    })
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Stripe-Signature': signature
+      },
+      body: payload
+    })
+    const body = await response.text()
+
+    console.log(`${name} [${event.id}] → ${response.status} ${body}`)
+    if (!response.ok) {
+      failed++
+    }
+  }
+
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
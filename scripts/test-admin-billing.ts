@@ -0,0 +1,146 @@
+/**
+ * Test Admin Billing
+ *
+ * Validates admin refunds and manual balance adjustments
+ *
+ * Run with: bun run scripts/test-admin-billing.ts
+ */
+
+import {
+  validateAdminReason,
+  validateManualTransaction,
+  validateRefundAmount
+} from '@/lib/pricing/admin-billing-service'
+import { buildMonthlyStatement } from '@/lib/pricing/statements'
+import {
+  fromMinorUnits,
+  getRefundDebit,
+  toMinorUnits
+} from '@/lib/stripe/payment-service'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Admin Refunds and Adjustments
+// ============================================================================
+
+logTest('Test 1: Admin Refunds and Adjustments')
+
+const refundedDeposit = {
+  userId: 'user-1',
+  originalAmount: '20',
+  originalCurrency: 'USD'
+}
+assertEqual(
+  getRefundDebit(2000, 2000, refundedDeposit),
+  20,
+  'Full refund debits the whole deposit'
+)
+assertEqual(
+  getRefundDebit(500, 2000, refundedDeposit),
+  5,
+  'Partial refund debits its share of the deposit'
+)
+assertEqual(
+  getRefundDebit(1000, 3000, {
+    userId: 'user-1',
+    originalAmount: '3000',
+    originalCurrency: 'JPY',
+    ledgerAmount: '20',
+    ledgerCurrency: 'USD',
+    exchangeRate: '0.00667'
+  }),
+  6.67,
+  'Refund of a converted deposit debits its share of the credit'
+)
+assertEqual(
+  getRefundDebit(500, 2000, { userId: 'user-1' }),
+  null,
+  'Refund without deposit metadata is rejected'
+)
+assertEqual(toMinorUnits(12.34, 'usd'), 1234, 'Dollars to cents')
+assertEqual(toMinorUnits(500, 'JPY'), 500, 'Yen has no minor unit')
+assertEqual(fromMinorUnits(1234, 'USD'), 12.34, 'Cents to dollars')
+
+assertEqual(
+  validateAdminReason('  '),
+  'A reason is required',
+  'Reason required'
+)
+assertEqual(validateAdminReason('Duplicate charge'), null, 'Reason accepted')
+assertEqual(
+  validateManualTransaction('adjustment', -5, 10),
+  null,
+  'Negative adjustment within the balance accepted'
+)
+assertEqual(
+  validateManualTransaction('adjustment', -15, 10),
+  'Balance is 10.00; it cannot go below zero',
+  'Adjustment cannot overdraw the balance'
+)
+assertEqual(
+  validateManualTransaction('refund', -5, 10),
+  'A refund credits the balance; use a negative adjustment to debit it',
+  'Manual refund must be a credit'
+)
+assertEqual(
+  validateManualTransaction('adjustment', 1.234, 10),
+  'Amount cannot have more than two decimal places',
+  'Sub-cent adjustment rejected'
+)
+assertEqual(
+  validateRefundAmount(undefined, 12.5, 'USD'),
+  null,
+  'Refund of what is left accepted'
+)
+assertEqual(
+  validateRefundAmount(15, 12.5, 'USD'),
+  'Refund cannot exceed the 12.5 USD left on this deposit',
+  'Refund cannot exceed what is left'
+)
+assertEqual(
+  validateRefundAmount(undefined, 0, 'USD'),
+  'This deposit has already been refunded in full',
+  'Fully refunded deposit rejected'
+)
+
+const refundStatement = buildMonthlyStatement({
+  month: { month: '2025-09', startDate: new Date(0), endDate: new Date(0) },
+  currency: 'USD',
+  transactions: [
+    {
+      id: 'refund-2',
+      userId: 'user-1',
+      type: 'refund',
+      amount: 5,
+      currency: 'USD',
+      balanceBefore: 20,
+      balanceAfter: 15,
+      createdAt: new Date(Date.UTC(2025, 8, 5))
+    }
+  ],
+  stats: {
+    totalDeposits: 0,
+    totalUsage: 0,
+    totalRefunds: 5,
+    totalAdjustments: 0,
+    transactionCount: 1
+  },
+  usageRecords: []
+})
+assertEqual(
+  refundStatement.totalRefunds,
+  -5,
+  'Deposit refunds count as debits on statements'
+)
+assertEqual(
+  refundStatement.closingBalance,
+  15,
+  'Closing balance deducts deposit refunds'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,433 @@
+/**
+ * Test Alerts
+ *
+ * Validates alert routing, templates and the webhook and SMTP channels,
+ * against local servers started by the script
+ *
+ * Run with: bun run scripts/test-alerts.ts
+ */
+
+import { createHmac } from 'crypto'
+import http from 'http'
+import net from 'net'
+
+import {
+  AlertRoute,
+  AlertService,
+  evaluateMargin,
+  resolveAlertChannels,
+  validateAlertRoute
+} from '@/lib/pricing/alert-service'
+import {
+  buildMimeMessage,
+  SmtpAlertChannel
+} from '@/lib/pricing/alerts/smtp-channel'
+import { renderAlert } from '@/lib/pricing/alerts/templates'
+import type { AlertChannel } from '@/lib/pricing/alerts/types'
+import {
+  signWebhookPayload,
+  WebhookAlertChannel
+} from '@/lib/pricing/alerts/webhook-channel'
+import { SyncResult } from '@/lib/pricing/sync-orchestrator'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Alert Channels and Routing
+// ============================================================================
+
+logTest('Test 1: Alert Channels and Routing')
+
+const alertSyncResult: SyncResult = {
+  success: false,
+  timestamp: new Date('2025-05-01T02:00:00Z'),
+  duration: 1200,
+  providers: {
+    total: 3,
+    successful: 2,
+    failed: 1,
+    failures: [{ providerId: 'openai', name: 'OpenAI', error: 'HTTP 503' }]
+  },
+  changes: {
+    total: 4,
+    applied: 0,
+    skipped: 0,
+    failed: 0,
+    queued: 2,
+    newModels: 0,
+    updatedModels: 0,
+    removedModels: 0
+  },
+  errors: ['Validation failed for <script> models'],
+  warnings: []
+}
+
+const syncAlert = renderAlert({
+  type: 'sync_result',
+  syncResult: alertSyncResult
+})
+assertEqual(
+  syncAlert.subject,
+  '❌ Pricing Sync Failed - Action Required',
+  'Failed sync alert subject'
+)
+assertEqual(syncAlert.severity, 'critical', 'Failed sync alert is critical')
+assertEqual(
+  syncAlert.html.includes('&lt;script&gt;') &&
+    !syncAlert.html.includes('<script>'),
+  true,
+  'Alert HTML escapes message text'
+)
+assertEqual(
+  renderAlert({
+    type: 'review_needed',
+    queued: 2,
+    source: 'the scheduled sync'
+  }).subject,
+  '⏸️ Pricing Changes Awaiting Approval - 2 to review',
+  'Review needed alert subject'
+)
+assertEqual(
+  renderAlert({
+    type: 'provider_failure',
+    failures: alertSyncResult.providers.failures!,
+    total: 3
+  }).severity,
+  'warning',
+  'Some providers failing is a warning'
+)
+assertEqual(
+  renderAlert({
+    type: 'reconciliation_discrepancy',
+    result: {
+      retries: { processed: 0, succeeded: 0, rescheduled: 0, failed: 0 },
+      detected: {
+        orphaned_transaction: 1,
+        orphaned_usage_record: 0,
+        balance_mismatch: 2,
+        stale_hold: 0
+      },
+      opened: 3,
+      autoResolved: 0,
+      truncated: false,
+      durationMs: 50
+    }
+  }).subject,
+  '⚠️ Billing Discrepancies Found - 3 new',
+  'Reconciliation alert subject'
+)
+
+// Webhook signatures
+const webhookBody = '{"event":"low_margin"}'
+assertEqual(
+  signWebhookPayload('whsec', 1746064800, webhookBody),
+  'sha256=' +
+    createHmac('sha256', 'whsec')
+      .update(`1746064800.${webhookBody}`)
+      .digest('hex'),
+  'Webhook signature is HMAC-SHA256 of timestamp.body'
+)
+assertEqual(
+  signWebhookPayload('whsec', 1746064801, webhookBody) ===
+    signWebhookPayload('whsec', 1746064800, webhookBody),
+  false,
+  'Webhook signature covers the timestamp'
+)
+
+// MIME messages
+const mime = buildMimeMessage({
+  from: 'Pricing <pricing@example.com>',
+  to: ['ops@example.com'],
+  subject: '✅ Pricing Updated',
+  text: 'Plain body',
+  html: '<p>HTML body</p>',
+  date: new Date('2025-05-01T02:00:00Z'),
+  messageId: '<alert-1@example.com>',
+  boundary: 'b1'
+})
+const decodeMimePart = (message: string, type: string) => {
+  const match = message.match(
+    new RegExp(
+      `Content-Type: ${type}; charset=utf-8\\r\\nContent-Transfer-Encoding: base64\\r\\n\\r\\n([\\s\\S]*?)\\r\\n--`
+    )
+  )
+  return match ? Buffer.from(match[1], 'base64').toString('utf8') : null
+}
+assertEqual(
+  mime.includes(
+    `Subject: =?UTF-8?B?${Buffer.from('✅ Pricing Updated').toString('base64')}?=`
+  ),
+  true,
+  'Non-ASCII subject is encoded'
+)
+assertEqual(
+  mime.includes('Content-Type: multipart/alternative; boundary="b1"'),
+  true,
+  'Email is multipart/alternative'
+)
+assertEqual(decodeMimePart(mime, 'text/plain'), 'Plain body', 'Text part')
+assertEqual(decodeMimePart(mime, 'text/html'), '<p>HTML body</p>', 'HTML part')
+
+// Low margin
+const marginSince = new Date('2025-04-30T02:00:00Z')
+const lowMargin = evaluateMargin(
+  {
+    providerCost: 95,
+    billedAmount: 100,
+    margin: 5,
+    byProvider: [
+      { providerId: 'openai', providerCost: 80, billedAmount: 80, margin: 0 },
+      { providerId: 'groq', providerCost: 15, billedAmount: 20, margin: 5 }
+    ]
+  },
+  marginSince,
+  10
+)
+assertEqual(lowMargin?.overall.marginPercent, 5, 'Overall margin percent')
+assertEqual(
+  lowMargin?.providers.map(p => p.providerId).join(','),
+  'openai',
+  'Only providers below the minimum are listed'
+)
+assertEqual(
+  evaluateMargin(
+    {
+      providerCost: 70,
+      billedAmount: 100,
+      margin: 30,
+      byProvider: [
+        {
+          providerId: 'openai',
+          providerCost: 70,
+          billedAmount: 100,
+          margin: 30
+        }
+      ]
+    },
+    marginSince,
+    10
+  ),
+  null,
+  'Healthy margin is not alerted'
+)
+assertEqual(
+  evaluateMargin(
+    { providerCost: 0, billedAmount: 0, margin: 0, byProvider: [] },
+    marginSince,
+    10
+  ),
+  null,
+  'No billed usage is not alerted'
+)
+
+// Routing
+assertEqual(
+  validateAlertRoute('low_margin', ['email', 'pager']),
+  'Unknown alert channels: pager',
+  'Unknown channels are rejected'
+)
+assertEqual(
+  validateAlertRoute('sync', ['email']),
+  'Unknown alert event type: sync',
+  'Unknown event types are rejected'
+)
+assertEqual(
+  validateAlertRoute('low_margin', ['email', 'webhook']),
+  null,
+  'Valid route'
+)
+
+const deliveredAlerts: string[] = []
+const fakeChannel = (
+  id: string,
+  configured = true,
+  fails = false
+): AlertChannel => ({
+  id,
+  name: id,
+  isConfigured: () => configured,
+  send: async message => {
+    deliveredAlerts.push(`${id}:${message.event}`)
+    return fails ? { sent: false, error: 'down' } : { sent: true }
+  }
+})
+const alertChannels = [
+  fakeChannel('slack'),
+  fakeChannel('email', true, true),
+  fakeChannel('webhook', false)
+]
+const alertRoutes: AlertRoute[] = [
+  { eventType: 'low_margin', channels: ['slack', 'webhook'] },
+  { eventType: 'provider_failure', channels: [] }
+]
+
+assertEqual(
+  resolveAlertChannels('sync_result', alertRoutes, alertChannels)
+    .map(c => c.id)
+    .join(','),
+  'slack,email',
+  'Unrouted events go to every configured channel'
+)
+assertEqual(
+  resolveAlertChannels('low_margin', alertRoutes, alertChannels)
+    .map(c => c.id)
+    .join(','),
+  'slack',
+  'Routed events skip unconfigured channels'
+)
+
+const routedAlerts = new AlertService(alertChannels, async () => alertRoutes)
+const issueResults = await routedAlerts.sendSyncIssueAlerts(
+  alertSyncResult,
+  'the scheduled sync'
+)
+assertEqual(
+  issueResults.map(r => r.event).join(','),
+  'review_needed,provider_failure',
+  'Sync issues raise review and provider failure events'
+)
+assertEqual(
+  deliveredAlerts.sort().join(','),
+  'email:review_needed,slack:review_needed',
+  'Events routed to no channels are not sent'
+)
+assertEqual(issueResults[0].success, false, 'A failed channel fails the alert')
+assertEqual(
+  issueResults[0].channels.email?.error,
+  'down',
+  'Channel delivery errors are reported'
+)
+
+// Webhook delivery to a local receiver
+const webhookRequests: {
+  headers: http.IncomingHttpHeaders
+  body: string
+}[] = []
+const webhookReceiver = http.createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => (body += chunk))
+  req.on('end', () => {
+    webhookRequests.push({ headers: req.headers, body })
+    res.writeHead(204).end()
+  })
+})
+await new Promise<void>(resolve =>
+  webhookReceiver.listen(0, '127.0.0.1', resolve)
+)
+const webhookPort = (webhookReceiver.address() as net.AddressInfo).port
+
+const webhookDelivery = await new WebhookAlertChannel({
+  url: `http://127.0.0.1:${webhookPort}/alerts`,
+  secret: 'whsec'
+}).send(syncAlert)
+await new Promise(resolve => webhookReceiver.close(resolve))
+
+const webhookRequest = webhookRequests[0]
+assertEqual(webhookDelivery.sent, true, 'Webhook delivered')
+assertEqual(
+  webhookRequest?.headers['x-alert-signature'],
+  signWebhookPayload(
+    'whsec',
+    Number(webhookRequest?.headers['x-alert-timestamp']),
+    webhookRequest?.body ?? ''
+  ),
+  'Webhook request is signed'
+)
+assertEqual(
+  JSON.parse(webhookRequest?.body ?? '{}').event,
+  'sync_result',
+  'Webhook body has the event type'
+)
+
+// SMTP delivery to a local sink
+const smtpSessions: { commands: string[]; data: string }[] = []
+const smtpSink = net.createServer(socket => {
+  const session = { commands: [] as string[], data: '' }
+  let buffer = ''
+  let inData = false
+
+  socket.write('220 localhost test sink\r\n')
+  socket.on('data', chunk => {
+    buffer += chunk.toString()
+
+    let index: number
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 2)
+
+      if (inData) {
+        if (line === '.') {
+          inData = false
+          smtpSessions.push(session)
+          socket.write('250 Queued\r\n')
+        } else {
+          session.data += `${line}\r\n`
+        }
+        continue
+      }
+
+      session.commands.push(line)
+      const verb = line.split(/[ :]/)[0].toUpperCase()
+      if (verb === 'EHLO') {
+        socket.write(
+          '250-localhost\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n'
+        )
+      } else if (verb === 'AUTH') {
+        socket.write('235 Authenticated\r\n')
+      } else if (verb === 'DATA') {
+        inData = true
+        socket.write('354 End data with <CR><LF>.<CR><LF>\r\n')
+      } else if (verb === 'QUIT') {
+        socket.end('221 Bye\r\n')
+      } else {
+        socket.write('250 OK\r\n')
+      }
+    }
+  })
+})
+await new Promise<void>(resolve => smtpSink.listen(0, '127.0.0.1', resolve))
+const smtpPort = (smtpSink.address() as net.AddressInfo).port
+
+const smtpConfig = {
+  host: '127.0.0.1',
+  port: smtpPort,
+  secure: false,
+  user: 'alerts',
+  pass: 'secret',
+  from: 'Pricing <pricing@example.com>',
+  recipients: ['ops@example.com', 'finance@example.com'],
+  timeoutMs: 5000
+}
+const smtpDelivery = await new SmtpAlertChannel(smtpConfig).send(syncAlert)
+await new Promise(resolve => smtpSink.close(resolve))
+
+const smtpSession = smtpSessions[0]
+assertEqual(smtpDelivery.sent, true, 'Email delivered over SMTP')
+assertEqual(
+  smtpSession?.commands.slice(1, 5).join('\n'),
+  [
+    `AUTH PLAIN ${Buffer.from('\0alerts\0secret').toString('base64')}`,
+    'MAIL FROM:<pricing@example.com>',
+    'RCPT TO:<ops@example.com>',
+    'RCPT TO:<finance@example.com>'
+  ].join('\n'),
+  'SMTP authenticates and sets the envelope'
+)
+assertEqual(
+  decodeMimePart(smtpSession?.data ?? '', 'text/plain') === syncAlert.text,
+  true,
+  'SMTP message carries the alert text'
+)
+
+const refusedDelivery = await new SmtpAlertChannel(smtpConfig).send(syncAlert)
+assertEqual(
+  refusedDelivery.sent,
+  false,
+  'SMTP delivery fails when the server is down'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,52 @@
+/**
+ * Test Allowance Debits
+ *
+ * Validates that debits spend subscription allowance before purchased credit
+ *
+ * Run with: bun run scripts/test-allowance-debits.ts
+ */
+
+import { splitBalanceChange } from '@/lib/pricing/balance-service'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Allowance-First Debits
+// ============================================================================
+
+logTest('Test 1: Allowance-First Debits')
+
+// A 3.00 deduct from a balance holding 5.00 of allowance
+const allowanceDebit = splitBalanceChange(-3, 5)
+assertEqual(
+  allowanceDebit.allowance,
+  -3,
+  'Deduct is taken from the allowance first'
+)
+assertEqual(
+  allowanceDebit.purchased,
+  0,
+  'Purchased credit is untouched while allowance covers the deduct'
+)
+
+// A 3.00 deduct with only 1.25 of allowance left
+const mixedDebit = splitBalanceChange(-3, 1.25)
+assertEqual(mixedDebit.allowance, -1.25, 'Remaining allowance is spent first')
+assertEqual(mixedDebit.purchased, -1.75, 'The rest comes from purchased credit')
+
+const noAllowanceDebit = splitBalanceChange(-3, 0)
+assertEqual(
+  noAllowanceDebit.purchased,
+  -3,
+  'Without allowance the deduct is purchased credit'
+)
+
+const creditSplit = splitBalanceChange(10, 5)
+assertEqual(creditSplit.allowance, 0, 'Credits do not add allowance')
+assertEqual(creditSplit.purchased, 10, 'Credits are purchased credit')
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,62 @@
+/**
+ * Test Auto Recharge
+ *
+ * Validates automatic top-up settings
+ *
+ * Run with: bun run scripts/test-auto-recharge.ts
+ */
+
+import { validateAutoRecharge } from '@/lib/pricing/auto-recharge-service'
+import { getStaticExchangeRates } from '@/lib/pricing/exchange-rate-service'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Auto Recharge Settings
+// ============================================================================
+
+logTest('Test 1: Auto Recharge Settings')
+
+const autoRecharge = { enabled: true, threshold: 5, amount: 20 }
+const exchangeRates = getStaticExchangeRates()
+
+assertEqual(
+  validateAutoRecharge(autoRecharge, 'USD', exchangeRates),
+  null,
+  'Valid auto top-up settings accepted'
+)
+assertEqual(
+  validateAutoRecharge({ ...autoRecharge, amount: 5 }, 'USD', exchangeRates) !==
+    null,
+  true,
+  'Top-up amount not above threshold rejected'
+)
+assertEqual(
+  validateAutoRecharge(
+    { ...autoRecharge, threshold: 0, amount: 0.1 },
+    'USD',
+    exchangeRates
+  ) !== null,
+  true,
+  'Top-up amount below currency minimum rejected'
+)
+assertEqual(
+  validateAutoRecharge(
+    { ...autoRecharge, threshold: -1 },
+    'USD',
+    exchangeRates
+  ) !== null,
+  true,
+  'Negative threshold rejected'
+)
+assertEqual(
+  validateAutoRecharge(autoRecharge, 'XYZ', exchangeRates) !== null,
+  true,
+  'Unsupported currency rejected'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
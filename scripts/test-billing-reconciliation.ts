@@ -0,0 +1,94 @@
+/**
+ * Test Billing Reconciliation
+ *
+ * Validates retry backoff, finding fingerprints and the corrective
+ * adjustment of each finding kind
+ *
+ * Run with: bun run scripts/test-billing-reconciliation.ts
+ */
+
+import {
+  getCorrectionAmount,
+  getFindingFingerprint,
+  getRetryDelayMs,
+  getStaleHoldCorrection,
+  MAX_RETRY_ATTEMPTS
+} from '@/lib/pricing/reconciliation-service'
+
+import {
+  assertApproximately,
+  assertEqual,
+  logTest,
+  printTestSummary
+} from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Billing Reconciliation
+// ============================================================================
+
+logTest('Test 1: Billing Reconciliation')
+
+assertEqual(getRetryDelayMs(1), 60 * 1000, 'First retry waits one minute')
+assertEqual(getRetryDelayMs(3), 4 * 60 * 1000, 'Retry delay doubles')
+assertEqual(
+  getRetryDelayMs(MAX_RETRY_ATTEMPTS + 20),
+  6 * 60 * 60 * 1000,
+  'Retry delay capped at six hours'
+)
+assertEqual(
+  getFindingFingerprint('balance_mismatch', 'user-1'),
+  'balance_mismatch:user-1',
+  'Fingerprint identifies the finding subject'
+)
+assertEqual(
+  getCorrectionAmount({ kind: 'orphaned_transaction', amount: 0.42 }),
+  0.42,
+  'Charge without usage record is refunded'
+)
+assertEqual(
+  getCorrectionAmount({ kind: 'orphaned_usage_record', amount: 0.001234 }),
+  -0.01,
+  'Unbilled usage charged, rounded up to the cent'
+)
+assertEqual(
+  getCorrectionAmount({ kind: 'orphaned_usage_record', amount: 0.12 }),
+  -0.12,
+  'Unbilled usage already in cents charged as is'
+)
+assertEqual(
+  getCorrectionAmount({ kind: 'balance_mismatch', amount: 3.5 }),
+  0,
+  'Balance mismatch does not change the balance'
+)
+assertEqual(
+  getCorrectionAmount({ kind: 'stale_hold', amount: 0.5 }),
+  0,
+  'Stale hold is closed by settling or releasing the hold itself'
+)
+
+// A stale hold with usage records is settled to their cost
+const staleHoldSettlement = getStaleHoldCorrection([0.0123, 0.0045, 0.1])
+assertEqual(
+  staleHoldSettlement.action,
+  'settle',
+  'Stale hold with usage records is settled'
+)
+assertApproximately(
+  staleHoldSettlement.action === 'settle' ? staleHoldSettlement.amount : 0,
+  0.1168,
+  0.000001,
+  'Stale hold settled to the cost of its usage records'
+)
+
+// Without usage records nothing is known to have been used
+assertEqual(
+  getStaleHoldCorrection([]).action,
+  'release',
+  'Stale hold without usage records is released in full'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
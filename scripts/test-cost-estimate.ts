@@ -0,0 +1,98 @@
+/**
+ * Test Cost Estimate
+ *
+ * Validates the pre-send cost estimate and the confirmation threshold
+ *
+ * Run with: bun run scripts/test-cost-estimate.ts
+ */
+
+import { billRequestEstimate } from '@/lib/pricing/cost-estimation'
+import {
+  needsCostConfirmation,
+  validateSpendingLimits
+} from '@/lib/pricing/spending-limit-service'
+
+import {
+  assertEqual,
+  conversationEstimate,
+  logTest,
+  miniModel,
+  printTestSummary,
+  proPolicy
+} from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Pre-send Cost Estimate
+// ============================================================================
+
+logTest('Test 1: Pre-send Cost Estimate')
+
+const chatOnly = billRequestEstimate(conversationEstimate, miniModel, proPolicy)
+assertEqual(chatOnly.billedCost, 0.00825, 'Model cost marked up by plan rule')
+assertEqual(chatOnly.toolCost, 0, 'No search cost outside search mode')
+assertEqual(
+  chatOnly.billedRange.max,
+  0.011,
+  'Upper bound of the range is marked up too'
+)
+
+const withSearch = billRequestEstimate(
+  conversationEstimate,
+  miniModel,
+  proPolicy,
+  { provider: 'tavily', pricePerCall: 0.008 }
+)
+assertEqual(withSearch.toolCost, 0.008, 'Search mode adds one search call')
+assertEqual(
+  withSearch.billedCost,
+  0.01785,
+  'Search call marked up by its own rule'
+)
+
+const tinyEstimate = billRequestEstimate(
+  {
+    ...conversationEstimate,
+    totalCost: 0.0001,
+    estimatedCostRange: { min: 0.00005, max: 0.0002 }
+  },
+  miniModel,
+  proPolicy
+)
+assertEqual(tinyEstimate.billedCost, 0.001, 'Minimum charge applies')
+assertEqual(
+  tinyEstimate.billedRange.min,
+  0.001,
+  'Minimum charge applies to the range'
+)
+
+assertEqual(
+  needsCostConfirmation(0.5, undefined),
+  false,
+  'No confirmation without a threshold'
+)
+assertEqual(
+  needsCostConfirmation(0.5, 0.25),
+  true,
+  'Confirmation above the threshold'
+)
+assertEqual(
+  needsCostConfirmation(0.25, 0.25),
+  false,
+  'No confirmation at the threshold'
+)
+assertEqual(
+  validateSpendingLimits({ warningThreshold: 0.8, confirmThreshold: 0 }),
+  'Confirmation threshold must be a positive number',
+  'Zero confirmation threshold rejected'
+)
+assertEqual(
+  validateSpendingLimits({ warningThreshold: 0.8, confirmThreshold: 0.5 }),
+  null,
+  'Confirmation threshold accepted without caps'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,157 @@
+/**
+ * Test Exchange Rates
+ *
+ * Validates exchange rate feeds and deposit conversion, using the rate
+ * feed fixture in scripts/fixtures
+ *
+ * Run with: bun run scripts/test-exchange-rates.ts
+ */
+
+import http from 'http'
+
+import {
+  convertAmount,
+  ExchangeRateTable,
+  parseExchangeRateFeed
+} from '@/lib/pricing/exchange-rate-service'
+import { renderReceiptHtml } from '@/lib/pricing/statements'
+import type { Transaction } from '@/lib/pricing/transaction-service'
+import {
+  getDepositCredit,
+  getDepositLimits,
+  validateAmount
+} from '@/lib/stripe/payment-service'
+
+import exchangeRateFeed from './fixtures/exchange-rates-feed.json'
+import {
+  assertEqual,
+  logTest,
+  printTestSummary,
+  recordFailure
+} from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Exchange Rates and Deposit Conversion
+// ============================================================================
+
+logTest('Test 1: Exchange Rates and Deposit Conversion')
+
+const feedRates = parseExchangeRateFeed(exchangeRateFeed, 'http')
+
+if (!feedRates) {
+  recordFailure('Exchange rate feed fixture rejected')
+} else {
+  assertEqual(feedRates.rates.USD, 1, 'Feed rebased to USD')
+  assertEqual(
+    feedRates.rates.JPY?.toFixed(4),
+    (175.48 / 1.1652).toFixed(4),
+    'Feed rates converted to units per USD'
+  )
+  assertEqual(
+    'XAU' in feedRates.rates,
+    false,
+    'Unsupported feed currencies dropped'
+  )
+  assertEqual(
+    feedRates.asOf.toISOString(),
+    '2025-10-20T00:00:00.000Z',
+    'Feed timestamp used as the rate date'
+  )
+}
+
+assertEqual(
+  parseExchangeRateFeed({ base: 'EUR', rates: { GBP: 0.87 } }, 'http'),
+  null,
+  'Feed without a USD rate rejected'
+)
+
+const conversionRates: ExchangeRateTable = {
+  rates: { USD: 1, EUR: 0.8, JPY: 150 },
+  source: 'database',
+  asOf: new Date('2025-10-19T00:00:00.000Z')
+}
+const jpyDeposit = convertAmount(3000, 'JPY', 'EUR', conversionRates)
+
+assertEqual(jpyDeposit?.rate, 0.005333333333, 'Cross rate through USD')
+assertEqual(jpyDeposit?.toAmount, 16, 'Deposit converted into the ledger')
+assertEqual(
+  convertAmount(20, 'EUR', 'JPY', conversionRates)?.toAmount,
+  3750,
+  'Converted amount rounded to whole yen'
+)
+assertEqual(
+  convertAmount(10, 'GBP', 'USD', conversionRates),
+  null,
+  'Currency without a rate cannot be converted'
+)
+assertEqual(
+  getDepositLimits('JPY', conversionRates)?.minAmount,
+  750,
+  'Minimum deposit is 5 USD in yen'
+)
+assertEqual(
+  validateAmount(500, 'JPY', conversionRates).valid,
+  false,
+  '500 JPY is below the minimum deposit'
+)
+assertEqual(
+  validateAmount(500, 'USD', conversionRates).valid,
+  true,
+  '500 USD is within the maximum deposit'
+)
+assertEqual(
+  validateAmount(80000, 'JPY', conversionRates).valid,
+  false,
+  '80000 JPY is above the 500 USD maximum'
+)
+assertEqual(
+  validateAmount(10, 'GBP', conversionRates).valid,
+  false,
+  'Deposit in a currency without a rate rejected'
+)
+
+const depositCredit = getDepositCredit({
+  originalAmount: '3000',
+  originalCurrency: 'JPY',
+  ledgerAmount: '16',
+  ledgerCurrency: 'EUR',
+  exchangeRate: '0.005333333333',
+  exchangeRateSource: 'database',
+  exchangeRateAt: '2025-10-19T00:00:00.000Z'
+})
+
+assertEqual(depositCredit?.amount, 16, 'Deposit credited in the ledger')
+assertEqual(
+  depositCredit?.metadata.exchangeRate,
+  0.005333333333,
+  'Exchange rate recorded on the deposit'
+)
+assertEqual(
+  getDepositCredit({ originalAmount: '25', originalCurrency: 'USD' })?.amount,
+  25,
+  'Deposit without a recorded rate credited as paid'
+)
+
+const convertedDeposit: Transaction = {
+  id: 'deposit-jpy',
+  userId: 'user-1',
+  type: 'deposit',
+  amount: 16,
+  currency: 'EUR',
+  balanceBefore: 4,
+  balanceAfter: 20,
+  metadata: depositCredit?.metadata,
+  createdAt: new Date('2025-10-19T00:00:00.000Z')
+}
+
+assertEqual(
+  renderReceiptHtml(convertedDeposit).includes('1 JPY = 0.00533333 EUR'),
+  true,
+  'Receipt shows the exchange rate of a converted deposit'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,113 @@
+/**
+ * Test Organization Workspaces
+ *
+ * Validates member roles, shared wallet permissions and member spending
+ * limits
+ *
+ * Run with: bun run scripts/test-organizations.ts
+ */
+
+import {
+  canChangeMember,
+  canFundWallet,
+  canManageBilling,
+  evaluateMemberSpendingLimit,
+  validateMemberSpendingLimit,
+  validateOrganizationName
+} from '@/lib/pricing/organization-service'
+import {
+  getDepositCredit,
+  getDepositWalletId
+} from '@/lib/stripe/payment-service'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Organization Workspaces
+// ============================================================================
+
+logTest('Test 1: Organization Workspaces')
+
+assertEqual(canFundWallet('admin'), true, 'Admins can add funds')
+assertEqual(canFundWallet('member'), false, 'Members cannot add funds')
+assertEqual(
+  canManageBilling('admin'),
+  false,
+  'Only owners set member spending limits'
+)
+assertEqual(
+  canChangeMember('admin', 'member', 'member'),
+  true,
+  'Admins manage plain members'
+)
+assertEqual(
+  canChangeMember('admin', 'member', 'admin'),
+  false,
+  'Admins cannot promote members to admin'
+)
+assertEqual(
+  canChangeMember('admin', 'owner'),
+  false,
+  'Admins cannot remove owners'
+)
+assertEqual(
+  canChangeMember('member', 'member'),
+  false,
+  'Members cannot change other members'
+)
+assertEqual(
+  validateOrganizationName('  '),
+  'Organization name is required',
+  'Blank organization name rejected'
+)
+assertEqual(
+  validateMemberSpendingLimit(null),
+  null,
+  'Clearing a member spending limit allowed'
+)
+assertEqual(
+  validateMemberSpendingLimit(0),
+  'Spending limit must be a positive number',
+  'Zero member spending limit rejected'
+)
+assertEqual(
+  evaluateMemberSpendingLimit(undefined, 500, 10).allowed,
+  true,
+  'Member without a limit is not capped'
+)
+
+const memberCheck = evaluateMemberSpendingLimit(20, 18.5, 2)
+assertEqual(memberCheck.allowed, false, 'Request over the member limit refused')
+assertEqual(memberCheck.exceeded?.type, 'monthly', 'Member limit is monthly')
+assertEqual(
+  evaluateMemberSpendingLimit(20, 17, 1).warnings.length,
+  1,
+  'Warning past 80% of the member limit'
+)
+
+assertEqual(
+  getDepositWalletId({ userId: 'user-1', organizationId: 'org-1' }),
+  'org-1',
+  'Organization deposit credited to the shared wallet'
+)
+assertEqual(
+  getDepositWalletId({ userId: 'user-1' }),
+  'user-1',
+  'Personal deposit credited to the user'
+)
+assertEqual(
+  getDepositCredit({
+    originalAmount: '50',
+    originalCurrency: 'USD',
+    userId: 'user-1',
+    organizationId: 'org-1'
+  })?.metadata.depositedBy,
+  'user-1',
+  'Organization deposit records the member who paid'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,190 @@
+/**
+ * Test Pricing Catalog
+ *
+ * Validates pricing catalog import and export in CSV and JSON
+ *
+ * Run with: bun run scripts/test-pricing-catalog.ts
+ */
+
+import {
+  parsePricingCatalog,
+  pricingCatalogToCsv,
+  pricingCatalogToJson
+} from '@/lib/pricing/catalog-service'
+import { validatePricing } from '@/lib/pricing/pricing-validator'
+import { ModelPricing } from '@/lib/pricing/types'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Pricing Catalog Import and Export
+// ============================================================================
+
+logTest('Test 1: Pricing Catalog Import and Export')
+
+const litellm = parsePricingCatalog(
+  JSON.stringify({
+    sample_spec: { input_cost_per_token: 0 },
+    'gpt-4o': {
+      litellm_provider: 'openai',
+      mode: 'chat',
+      input_cost_per_token: 0.0000025,
+      output_cost_per_token: 0.00001,
+      cache_read_input_token_cost: 0.00000125
+    },
+    'gemini/gemini-1.5-pro': {
+      litellm_provider: 'gemini',
+      mode: 'chat',
+      input_cost_per_token: 0.00000125,
+      output_cost_per_token: 0.000005,
+      input_cost_per_token_above_128k_tokens: 0.0000025,
+      output_cost_per_token_above_128k_tokens: 0.00001
+    },
+    'text-embedding-3-small': {
+      litellm_provider: 'openai',
+      mode: 'embedding',
+      input_cost_per_token: 0.00000002,
+      output_cost_per_token: 0
+    },
+    'bedrock/claude-v2': {
+      litellm_provider: 'bedrock',
+      mode: 'chat',
+      input_cost_per_token: 0.000008,
+      output_cost_per_token: 0.000024
+    }
+  })
+)
+const litellmGpt = litellm.pricing.find(p => p.modelId === 'gpt-4o')
+const litellmGemini = litellm.pricing.find(p => p.modelId === 'gemini-1.5-pro')
+
+assertEqual(litellm.layout, 'litellm', 'LiteLLM layout detected')
+assertEqual(litellm.pricing.length, 2, 'LiteLLM chat models imported')
+assertEqual(
+  litellm.skipped.join(','),
+  'text-embedding-3-small,bedrock/claude-v2',
+  'Non-chat models and unsupported providers skipped'
+)
+assertEqual(
+  litellmGpt?.inputPricePer1kTokens,
+  0.0025,
+  'Per-token price converted to per 1k tokens'
+)
+assertEqual(
+  litellmGpt?.cachedInputPricePer1kTokens,
+  0.00125,
+  'Cache read price imported'
+)
+assertEqual(
+  litellmGemini?.providerId,
+  'google',
+  'Provider prefix mapped and stripped'
+)
+assertEqual(
+  JSON.stringify(litellmGemini?.tiers),
+  '[{"minTokens":128001,"inputPrice":0.0025,"outputPrice":0.01}]',
+  'Long-context prices imported as a tier'
+)
+
+const openrouter = parsePricingCatalog(
+  JSON.stringify({
+    data: [
+      {
+        id: 'anthropic/claude-3-5-haiku-20241022',
+        pricing: { prompt: '0.0000008', completion: '0.000004' }
+      },
+      { id: 'x-ai/grok-2-1212', pricing: { prompt: '0.000002' } },
+      {
+        id: 'mistralai/mistral-large',
+        pricing: { prompt: '0.000002', completion: '0.000006' }
+      }
+    ]
+  })
+)
+
+assertEqual(openrouter.layout, 'openrouter', 'OpenRouter layout detected')
+assertEqual(
+  openrouter.pricing[0]?.modelId,
+  'claude-3-5-haiku-20241022',
+  'OpenRouter model id without provider prefix'
+)
+assertEqual(
+  openrouter.pricing[0]?.outputPricePer1kTokens,
+  0.004,
+  'OpenRouter string price converted to per 1k tokens'
+)
+assertEqual(
+  openrouter.errors.length,
+  1,
+  'Entry without a completion price reported'
+)
+assertEqual(
+  openrouter.skipped.join(','),
+  'mistralai/mistral-large',
+  'Unsupported OpenRouter provider skipped'
+)
+
+const exported: ModelPricing[] = [
+  {
+    modelId: 'gemini-1.5-flash',
+    providerId: 'google',
+    inputPricePer1kTokens: 0.000075,
+    outputPricePer1kTokens: 0.0003,
+    tiers: [{ minTokens: 128001, inputPrice: 0.00015, outputPrice: 0.0006 }]
+  },
+  {
+    modelId: 'model, "quoted"',
+    providerId: 'openai',
+    inputPricePer1kTokens: 0.001,
+    outputPricePer1kTokens: 0.002,
+    reasoningPricePer1kTokens: 0.003
+  }
+]
+const csvRoundTrip = parsePricingCatalog(pricingCatalogToCsv(exported))
+const jsonRoundTrip = parsePricingCatalog(pricingCatalogToJson(exported))
+
+assertEqual(csvRoundTrip.layout, 'csv', 'CSV layout detected')
+assertEqual(
+  JSON.stringify(csvRoundTrip.pricing),
+  JSON.stringify(exported),
+  'CSV export round-trips, including quotes and tiers'
+)
+assertEqual(jsonRoundTrip.layout, 'native', 'JSON export layout detected')
+assertEqual(
+  JSON.stringify(jsonRoundTrip.pricing),
+  JSON.stringify(exported),
+  'JSON export round-trips'
+)
+
+const duplicated = parsePricingCatalog(
+  JSON.stringify([exported[1], { ...exported[1], inputPricePer1kTokens: 9 }])
+)
+assertEqual(
+  duplicated.pricing.length,
+  1,
+  'Later entry for the same model dropped as a duplicate'
+)
+
+const malformedCsv = parsePricingCatalog(
+  'model_id,provider_id,input_price_per_1k_tokens,output_price_per_1k_tokens\ngpt-4o,openai,abc,0.01\n'
+)
+assertEqual(
+  validatePricing(malformedCsv.pricing[0]).valid,
+  false,
+  'Unparseable CSV price fails validation'
+)
+assertEqual(
+  parsePricingCatalog('model_id,price\ngpt-4o,1\n').errors.length,
+  1,
+  'CSV without the price columns reported'
+)
+assertEqual(
+  parsePricingCatalog('{not json').errors[0],
+  'File is not valid JSON',
+  'Invalid JSON reported'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
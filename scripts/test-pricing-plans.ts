@@ -0,0 +1,168 @@
+/**
+ * Test Pricing Plans
+ *
+ * Validates markup rule selection, minimum charges and fixed markups charged
+ * once per turn
+ *
+ * Run with: bun run scripts/test-pricing-plans.ts
+ */
+
+import { billRequestEstimate } from '@/lib/pricing/cost-estimation'
+import {
+  applyPricingPolicy,
+  estimateBilledAmount,
+  selectMarkupRule
+} from '@/lib/pricing/pricing-policy-service'
+import { calculateCost } from '@/lib/pricing/pricing-service'
+import { MarkupRule, PricingPolicy } from '@/lib/pricing/types'
+
+import {
+  assertApproximately,
+  assertEqual,
+  conversationEstimate,
+  gpt35TurboPricing,
+  logTest,
+  miniModel,
+  printTestSummary,
+  proPolicy
+} from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Markups and Minimum Charge
+// ============================================================================
+
+logTest('Test 1: Markups and Minimum Charge')
+
+assertEqual(
+  selectMarkupRule(proPolicy, 'openai', 'gpt-4o')?.markupType,
+  'fixed',
+  'Model rule wins over provider and plan rules'
+)
+assertEqual(
+  selectMarkupRule(proPolicy, 'openai', 'gpt-4o-mini')?.markupValue,
+  10,
+  'Provider rule of the plan applies to other models'
+)
+assertEqual(
+  selectMarkupRule(proPolicy, 'anthropic', 'claude-3-5-haiku-20241022')
+    ?.markupValue,
+  20,
+  'Global rule applies when nothing more specific matches'
+)
+
+const passthroughCost = calculateCost(1000, 1000, gpt35TurboPricing)
+assertEqual(
+  passthroughCost.providerCost,
+  passthroughCost.totalCost,
+  'Unmarked cost bills at provider cost'
+)
+
+const markedUp = applyPricingPolicy(
+  { ...passthroughCost, modelId: 'gpt-4o-mini' },
+  proPolicy
+)
+assertApproximately(
+  markedUp.totalCost,
+  passthroughCost.totalCost * 1.1,
+  0.000001,
+  'Percentage markup applied to billed cost'
+)
+assertEqual(
+  markedUp.providerCost,
+  passthroughCost.providerCost,
+  'Provider cost kept after markup'
+)
+
+assertApproximately(
+  estimateBilledAmount(0.0001, proPolicy, 'anthropic', 'claude'),
+  0.001,
+  0.000001,
+  'Estimate raised to the minimum charge'
+)
+assertApproximately(
+  estimateBilledAmount(0.01, proPolicy, 'openai', 'gpt-4o'),
+  0.012,
+  0.000001,
+  'Fixed markup added to the estimate'
+)
+
+// ============================================================================
+// TEST 2: Fixed Markup Once per Turn
+// ============================================================================
+
+logTest('Test 2: Fixed Markup Once per Turn')
+
+const fixedLine = {
+  ...passthroughCost,
+  providerId: 'openai',
+  modelId: 'gpt-4o',
+  providerCost: 0.01,
+  totalCost: 0.01
+}
+const turnFixedRules = new Set<MarkupRule>()
+const fixedLines = [
+  fixedLine,
+  fixedLine,
+  { ...fixedLine, modelId: 'gpt-4o-mini' }
+].map(line => applyPricingPolicy(line, proPolicy, turnFixedRules))
+
+assertApproximately(
+  fixedLines[0].totalCost,
+  0.012,
+  0.000001,
+  'First line of the turn carries the fixed markup'
+)
+assertApproximately(
+  fixedLines[1].totalCost,
+  0.01,
+  0.000001,
+  'Later lines of the same rule are billed at provider cost'
+)
+assertApproximately(
+  fixedLines[2].totalCost,
+  0.011,
+  0.000001,
+  'Percentage rules still apply to every line'
+)
+assertApproximately(
+  fixedLines[0].totalCost + fixedLines[1].totalCost,
+  estimateBilledAmount(0.02, proPolicy, 'openai', 'gpt-4o'),
+  0.000001,
+  'Settled lines match the hold estimate'
+)
+assertApproximately(
+  applyPricingPolicy(fixedLine, proPolicy).totalCost,
+  0.012,
+  0.000001,
+  'A single cost is charged the fixed markup'
+)
+
+const flatFeePolicy: PricingPolicy = {
+  planId: 'flat',
+  minChargePerRequest: 0,
+  rules: [
+    {
+      planId: null,
+      providerId: null,
+      modelId: null,
+      markupType: 'fixed',
+      markupValue: 0.005,
+      isActive: true
+    }
+  ]
+}
+assertApproximately(
+  billRequestEstimate(conversationEstimate, miniModel, flatFeePolicy, {
+    provider: 'tavily',
+    pricePerCall: 0.008
+  }).billedCost,
+  0.0075 + 0.008 + 0.005,
+  0.000001,
+  'Estimate charges a fixed markup shared by model and search once'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,78 @@
+/**
+ * Test Pricing Review
+ *
+ * Validates approving flagged pricing changes with and without edits
+ *
+ * Run with: bun run scripts/test-pricing-review.ts
+ */
+
+import { getReviewedPricing } from '@/lib/pricing/pricing-review-service'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Pricing Change Review
+// ============================================================================
+
+logTest('Test 1: Pricing Change Review')
+
+const pendingChange = {
+  newPricing: {
+    modelId: 'gpt-4o',
+    providerId: 'openai',
+    inputPricePer1kTokens: 0.01,
+    outputPricePer1kTokens: 0.03,
+    cachedInputPricePer1kTokens: 0.005
+  }
+}
+
+const asReported = getReviewedPricing(pendingChange)
+assertEqual(
+  asReported.pricing.inputPricePer1kTokens,
+  0.01,
+  'Approved as reported without edits'
+)
+assertEqual(asReported.errors.length, 0, 'Reported pricing is valid')
+
+const edited = getReviewedPricing(pendingChange, {
+  inputPricePer1kTokens: 0.0025,
+  outputPricePer1kTokens: undefined
+})
+assertEqual(
+  edited.pricing.inputPricePer1kTokens,
+  0.0025,
+  'Edited input price applied'
+)
+assertEqual(
+  edited.pricing.outputPricePer1kTokens,
+  0.03,
+  'Prices not edited keep the reported value'
+)
+assertEqual(
+  edited.pricing.cachedInputPricePer1kTokens,
+  0.005,
+  'Token-class prices carried over'
+)
+assertEqual(
+  pendingChange.newPricing.inputPricePer1kTokens,
+  0.01,
+  'Pending change left unmodified by edits'
+)
+assertEqual(
+  getReviewedPricing(pendingChange, { outputPricePer1kTokens: 0 }).errors
+    .length > 0,
+  true,
+  'Edit to a zero price rejected'
+)
+assertEqual(
+  getReviewedPricing(pendingChange, { cachedInputPricePer1kTokens: -1 }).errors
+    .length > 0,
+  true,
+  'Edit to a negative cached input price rejected'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
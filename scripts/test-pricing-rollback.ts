@@ -0,0 +1,160 @@
+/**
+ * Test Pricing Rollback
+ *
+ * Validates pricing snapshots rebuilt from history and sync run grouping
+ *
+ * Run with: bun run scripts/test-pricing-rollback.ts
+ */
+
+import {
+  getPricingSnapshot,
+  getSyncRunRollbackTime,
+  groupPricingSyncRuns,
+  mapPricingHistoryRow
+} from '@/lib/pricing/pricing-rollback-service'
+import { ModelPricing } from '@/lib/pricing/types'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Pricing Rollback
+// ============================================================================
+
+logTest('Test 1: Pricing Rollback')
+
+const syncStartedAt = '2025-05-01T02:00:00.000Z'
+const rollbackHistory = [
+  {
+    id: 'h1',
+    model_id: 'gpt-4o',
+    provider_id: 'openai',
+    old_input_price: '0.005',
+    old_output_price: '0.015',
+    new_input_price: '0.0025',
+    new_output_price: '0.01',
+    change_source: 'manual',
+    created_at: '2025-03-01T00:00:00Z',
+    metadata: {
+      token_class_prices: {
+        old: { cached_input: null },
+        new: { cached_input: '0.00125' }
+      }
+    }
+  },
+  {
+    id: 'h2',
+    model_id: 'gpt-4o',
+    provider_id: 'openai',
+    old_input_price: '0.0025',
+    old_output_price: '0.01',
+    new_input_price: '0.025',
+    new_output_price: '0.1',
+    change_source: 'auto-sync',
+    created_at: '2025-05-01T02:00:01Z',
+    metadata: { sync_started_at: syncStartedAt }
+  },
+  {
+    id: 'h3',
+    model_id: 'claude-3-5-haiku',
+    provider_id: 'anthropic',
+    old_input_price: '0.001',
+    old_output_price: '0.005',
+    new_input_price: '0.0008',
+    new_output_price: '0.004',
+    change_source: 'auto-sync',
+    created_at: '2025-05-01T02:00:02Z',
+    metadata: { sync_started_at: syncStartedAt }
+  },
+  {
+    id: 'h4',
+    model_id: 'o3',
+    provider_id: 'openai',
+    old_input_price: null,
+    old_output_price: null,
+    new_input_price: '0.002',
+    new_output_price: '0.008',
+    change_source: 'auto-sync',
+    created_at: '2025-06-01T00:00:00Z',
+    metadata: {}
+  }
+].map(mapPricingHistoryRow)
+
+const currentPricing: ModelPricing[] = [
+  {
+    modelId: 'gpt-4o',
+    providerId: 'openai',
+    inputPricePer1kTokens: 0.025,
+    outputPricePer1kTokens: 0.1,
+    cachedInputPricePer1kTokens: 0.0125,
+    reasoningPricePer1kTokens: 0.05
+  }
+]
+
+const beforeSync = getPricingSnapshot(
+  rollbackHistory,
+  currentPricing,
+  getSyncRunRollbackTime(new Date(syncStartedAt))
+)
+const restoredGpt = beforeSync.pricing.find(p => p.modelId === 'gpt-4o')
+const restoredHaiku = beforeSync.pricing.find(
+  p => p.modelId === 'claude-3-5-haiku'
+)
+
+assertEqual(beforeSync.pricing.length, 2, 'Models restored before sync run')
+assertEqual(
+  restoredGpt?.inputPricePer1kTokens,
+  0.0025,
+  'Input price from last change before the time'
+)
+assertEqual(
+  restoredGpt?.cachedInputPricePer1kTokens,
+  0.00125,
+  'Recorded cached input price restored'
+)
+assertEqual(
+  restoredGpt?.reasoningPricePer1kTokens,
+  0.05,
+  'Unrecorded reasoning price kept'
+)
+assertEqual(
+  restoredHaiku?.inputPricePer1kTokens,
+  0.001,
+  'Old price of first change after the time'
+)
+assertEqual(
+  beforeSync.addedLater.join(','),
+  'openai:o3',
+  'Model first priced later listed'
+)
+
+const beforeAll = getPricingSnapshot(
+  rollbackHistory,
+  currentPricing,
+  new Date('2025-01-01T00:00:00Z')
+)
+assertEqual(
+  beforeAll.pricing.find(p => p.modelId === 'gpt-4o')?.inputPricePer1kTokens,
+  0.005,
+  'Snapshot before all changes uses the first old price'
+)
+assertEqual(
+  beforeAll.pricing.find(p => p.modelId === 'gpt-4o')
+    ?.cachedInputPricePer1kTokens,
+  undefined,
+  'Cached input price absent before it was set'
+)
+
+const syncRuns = groupPricingSyncRuns(rollbackHistory)
+assertEqual(syncRuns.length, 1, 'Sync runs grouped by start time')
+assertEqual(syncRuns[0].changes, 2, 'Changes in sync run')
+assertEqual(
+  syncRuns[0].startedAt.toISOString(),
+  syncStartedAt,
+  'Sync run start time'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,151 @@
+/**
+ * Test Future-Dated Pricing
+ *
+ * Validates pricing version selection and scheduled price changes
+ *
+ * Run with: bun run scripts/test-pricing-schedule.ts
+ */
+
+import { validateScheduledPricing } from '@/lib/pricing/pricing-schedule-service'
+import {
+  calculateCost,
+  selectPricingVersion
+} from '@/lib/pricing/pricing-service'
+import { ModelPricing } from '@/lib/pricing/types'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Future-Dated Pricing
+// ============================================================================
+
+logTest('Test 1: Future-Dated Pricing')
+
+const versionBase = {
+  modelId: 'gpt-4o',
+  providerId: 'openai',
+  outputPricePer1kTokens: 0.01
+}
+const pricingVersions: ModelPricing[] = [
+  {
+    ...versionBase,
+    pricingVersionId: 'v1',
+    inputPricePer1kTokens: 0.005,
+    effectiveFrom: new Date('2025-01-01T00:00:00Z')
+  },
+  {
+    ...versionBase,
+    pricingVersionId: 'v3',
+    inputPricePer1kTokens: 0.002,
+    effectiveFrom: new Date('2025-06-01T00:00:00Z')
+  },
+  {
+    ...versionBase,
+    pricingVersionId: 'v2',
+    inputPricePer1kTokens: 0.001,
+    effectiveFrom: new Date('2025-03-01T00:00:00Z'),
+    effectiveUntil: new Date('2025-04-01T00:00:00Z')
+  }
+]
+
+assertEqual(
+  selectPricingVersion(pricingVersions, new Date('2024-12-31T23:59:59Z')),
+  null,
+  'No version before the first takes effect'
+)
+assertEqual(
+  selectPricingVersion(pricingVersions, new Date('2025-01-01T00:00:00Z'))
+    ?.pricingVersionId,
+  'v1',
+  'Version applies from its effective time'
+)
+assertEqual(
+  selectPricingVersion(pricingVersions, new Date('2025-03-15T00:00:00Z'))
+    ?.pricingVersionId,
+  'v2',
+  'Temporary price applies while in effect'
+)
+assertEqual(
+  selectPricingVersion(pricingVersions, new Date('2025-04-01T00:00:00Z'))
+    ?.pricingVersionId,
+  'v1',
+  'Previous version applies again once a temporary price expires'
+)
+assertEqual(
+  selectPricingVersion(pricingVersions, new Date('2025-07-01T00:00:00Z'))
+    ?.pricingVersionId,
+  'v3',
+  'Latest version in effect wins regardless of order'
+)
+
+const versionCost = calculateCost(1000, 1000, pricingVersions[1])
+assertEqual(
+  versionCost.pricingVersionId,
+  'v3',
+  'Cost records the pricing version it was calculated with'
+)
+assertEqual(
+  calculateCost(1000, 1000, { ...versionBase, inputPricePer1kTokens: 0.005 })
+    .pricingVersionId,
+  undefined,
+  'Config pricing has no pricing version'
+)
+
+const scheduleNow = new Date('2025-05-01T00:00:00Z')
+const scheduledPrice = { ...versionBase, inputPricePer1kTokens: 0.004 }
+assertEqual(
+  validateScheduledPricing(
+    scheduledPrice,
+    new Date('2025-06-01T00:00:00Z'),
+    undefined,
+    scheduleNow
+  ).length,
+  0,
+  'Future price can be scheduled'
+)
+assertEqual(
+  validateScheduledPricing(
+    scheduledPrice,
+    new Date('2025-04-30T00:00:00Z'),
+    undefined,
+    scheduleNow
+  ).includes('Effective date must be in the future'),
+  true,
+  'Price in the past rejected'
+)
+assertEqual(
+  validateScheduledPricing(
+    scheduledPrice,
+    new Date('2025-06-01T00:00:00Z'),
+    new Date('2025-06-01T00:00:00Z'),
+    scheduleNow
+  ).includes('Expiry date must be after the effective date'),
+  true,
+  'Expiry at or before the effective date rejected'
+)
+assertEqual(
+  validateScheduledPricing(
+    scheduledPrice,
+    new Date('not a date'),
+    undefined,
+    scheduleNow
+  ).includes('Effective date is invalid'),
+  true,
+  'Invalid effective date rejected'
+)
+assertEqual(
+  validateScheduledPricing(
+    { ...scheduledPrice, outputPricePer1kTokens: -1 },
+    new Date('2025-06-01T00:00:00Z'),
+    undefined,
+    scheduleNow
+  ).length > 0,
+  true,
+  'Invalid price rejected'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -189,6 +189,7 @@ async function testAlerts() {
         applied: 8,
         skipped: 2,
         failed: 0,
+        queued: 1,
         newModels: 2,
         updatedModels: 6,
         removedModels: 0
@@ -202,9 +203,9 @@ async function testAlerts() {
 
     if (alertResult.success) {
       log(`  ✓ Alerts configured and ready`, 'green')
-      if (alertResult.console) log(`    • Console output: enabled`)
-      if (alertResult.slack) log(`    • Slack: ${alertResult.slack.sent ? 'sent' : 'failed'}`)
-      if (alertResult.email) log(`    • Email: ${alertResult.email.sent ? 'sent' : 'failed'}`)
+      for (const [channel, delivery] of Object.entries(alertResult.channels)) {
+        log(`    • ${channel}: ${delivery.sent ? 'sent' : 'failed'}`)
+      }
     } else {
       log(`  ⚠️ Alert service partially configured`, 'yellow')
     }
@@ -0,0 +1,84 @@
+/**
+ * Test Promo Codes
+ *
+ * Validates promo code normalization and redemption limits
+ *
+ * Run with: bun run scripts/test-promo-codes.ts
+ */
+
+import {
+  normalizePromoCode,
+  validatePromoCode
+} from '@/lib/pricing/promo-code-service'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Promo Code Validation
+// ============================================================================
+
+logTest('Test 1: Promo Code Validation')
+
+const tomorrow = new Date(Date.now() + 86400000)
+
+assertEqual(
+  normalizePromoCode('  launch-2025 '),
+  'LAUNCH-2025',
+  'Codes are trimmed and upper-cased'
+)
+assertEqual(
+  validatePromoCode({
+    code: 'launch-2025',
+    amount: 5,
+    maxRedemptions: 100,
+    perUserLimit: 1,
+    expiresAt: tomorrow
+  }),
+  null,
+  'Valid code accepted'
+)
+assertEqual(
+  validatePromoCode({ code: 'BETA', amount: 10 }),
+  null,
+  'Unlimited code without expiry accepted'
+)
+assertEqual(
+  validatePromoCode({ code: 'no spaces', amount: 5 }) !== null,
+  true,
+  'Code with spaces rejected'
+)
+assertEqual(
+  validatePromoCode({ code: 'FREE', amount: 0 }) !== null,
+  true,
+  'Zero amount rejected'
+)
+assertEqual(
+  validatePromoCode({ code: 'FREE', amount: 5, maxRedemptions: 0 }) !== null,
+  true,
+  'Zero maximum redemptions rejected'
+)
+assertEqual(
+  validatePromoCode({
+    code: 'FREE',
+    amount: 5,
+    maxRedemptions: 2,
+    perUserLimit: 3
+  }) !== null,
+  true,
+  'Per-user limit above maximum redemptions rejected'
+)
+assertEqual(
+  validatePromoCode({
+    code: 'FREE',
+    amount: 5,
+    expiresAt: new Date(Date.now() - 1000)
+  }) !== null,
+  true,
+  'Past expiry date rejected'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,115 @@
+/**
+ * Test Provider Registry
+ *
+ * Validates local and self-hosted model pricing and the providers added to
+ * the registry
+ *
+ * Run with: bun run scripts/test-provider-registry.ts
+ */
+
+import defaultModels from '@/lib/config/default-models.json'
+import { getLocalModelPricing } from '@/lib/pricing/local-pricing'
+import { validatePricing } from '@/lib/pricing/pricing-validator'
+import { parseAzureDeployments } from '@/lib/pricing/providers/azure-provider'
+import { getProviderRegistry } from '@/lib/pricing/providers/registry'
+import { findUnpricedModels } from '@/lib/pricing/sync-orchestrator'
+import { ModelPricing } from '@/lib/pricing/types'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Pricing Providers
+// ============================================================================
+
+logTest('Test 1: Pricing Providers')
+
+assertEqual(
+  getLocalModelPricing('llama3.2', 'ollama', {})?.inputPricePer1kTokens,
+  0,
+  'Ollama models are free by default'
+)
+assertEqual(
+  getLocalModelPricing('my-model', 'openai-compatible', {
+    OPENAI_COMPATIBLE_INPUT_PRICE_PER_1K_TOKENS: '0.0004',
+    OPENAI_COMPATIBLE_OUTPUT_PRICE_PER_1K_TOKENS: '0.0008'
+  })?.outputPricePer1kTokens,
+  0.0008,
+  'OpenAI-compatible price configured from the environment'
+)
+assertEqual(
+  getLocalModelPricing('llama3.2', 'ollama', {
+    OLLAMA_INPUT_PRICE_PER_1K_TOKENS: '-1'
+  }),
+  null,
+  'Negative local price rejected'
+)
+assertEqual(
+  getLocalModelPricing('gpt-4o', 'openai', {}),
+  null,
+  'Cloud providers have no local price'
+)
+
+const freePricing = (providerId: string): ModelPricing => ({
+  modelId: 'free-model',
+  providerId,
+  inputPricePer1kTokens: 0,
+  outputPricePer1kTokens: 0
+})
+assertEqual(
+  validatePricing(freePricing('ollama')).valid,
+  true,
+  'Zero pricing accepted for local models'
+)
+assertEqual(
+  validatePricing(freePricing('groq')).valid,
+  false,
+  'Zero pricing rejected for cloud models'
+)
+
+assertEqual(
+  JSON.stringify(
+    parseAzureDeployments(' chat-prod = gpt-4o ,bad,mini=gpt-4o-mini')
+  ),
+  '{"chat-prod":"gpt-4o","mini":"gpt-4o-mini"}',
+  'Azure deployments mapped to their models'
+)
+
+const catalog = [
+  { id: 'gpt-4o', providerId: 'openai', enabled: true },
+  { id: 'grok-9', providerId: 'xai', enabled: true },
+  { id: 'grok-8', providerId: 'xai', enabled: false },
+  { id: '<AZURE_DEPLOYMENT_NAME>', providerId: 'azure', enabled: true },
+  { id: 'llama3.2', providerId: 'ollama', enabled: true }
+]
+assertEqual(
+  findUnpricedModels(catalog, new Set(['openai:gpt-4o'])).join(','),
+  'xai:grok-9',
+  'Enabled model without a price reported'
+)
+assertEqual(
+  findUnpricedModels(catalog, new Set(), ['openai']).join(','),
+  'openai:gpt-4o',
+  'Only the synced providers are checked'
+)
+
+const staticPricing = await Promise.all(
+  (await getProviderRegistry().getAvailable()).map(provider =>
+    provider.fetchPricing()
+  )
+)
+const staticPriced = new Set(
+  staticPricing.flatMap(result =>
+    result.pricing.map(p => `${p.providerId}:${p.modelId}`)
+  )
+)
+assertEqual(
+  findUnpricedModels(defaultModels.models, staticPriced).join(','),
+  '',
+  'Every enabled default model has a provider price'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
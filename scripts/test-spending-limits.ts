@@ -0,0 +1,135 @@
+/**
+ * Test Spending Limits
+ *
+ * Validates daily and monthly spending caps and budget warnings
+ *
+ * Run with: bun run scripts/test-spending-limits.ts
+ */
+
+import {
+  evaluateSpendingLimits,
+  getSpendingWindowStarts,
+  validateSpendingLimits
+} from '@/lib/pricing/spending-limit-service'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Spending Limits
+// ============================================================================
+
+logTest('Test 1: Spending Limits')
+
+const spendingLimits = {
+  dailyLimit: 5,
+  monthlyLimit: 50,
+  perRequestLimit: 1,
+  warningThreshold: 0.8
+}
+
+assertEqual(
+  evaluateSpendingLimits(
+    spendingLimits,
+    { dailySpend: 1, monthlySpend: 10 },
+    0.5
+  ).allowed,
+  true,
+  'Request within all limits allowed'
+)
+assertEqual(
+  evaluateSpendingLimits(
+    spendingLimits,
+    { dailySpend: 0, monthlySpend: 0 },
+    1.5
+  ).exceeded?.type,
+  'per_request',
+  'Request above per-request limit refused'
+)
+assertEqual(
+  evaluateSpendingLimits(
+    spendingLimits,
+    { dailySpend: 4.8, monthlySpend: 10 },
+    0.3
+  ).exceeded?.type,
+  'daily',
+  'Request that would exceed daily limit refused'
+)
+assertEqual(
+  evaluateSpendingLimits(
+    spendingLimits,
+    { dailySpend: 1, monthlySpend: 49.9 },
+    0.2
+  ).exceeded?.type,
+  'monthly',
+  'Request that would exceed monthly limit refused'
+)
+assertEqual(
+  evaluateSpendingLimits(
+    spendingLimits,
+    { dailySpend: 4.5, monthlySpend: 4.5 },
+    0.5
+  ).allowed,
+  true,
+  'Request reaching the limit exactly allowed'
+)
+assertEqual(
+  evaluateSpendingLimits(
+    { warningThreshold: 0.8 },
+    { dailySpend: 100, monthlySpend: 1000 },
+    10
+  ).allowed,
+  true,
+  'No limits set allows any request'
+)
+
+const spendingWarnings = evaluateSpendingLimits(spendingLimits, {
+  dailySpend: 4,
+  monthlySpend: 10
+}).warnings
+assertEqual(spendingWarnings.length, 1, 'Warning only past the threshold')
+assertEqual(
+  spendingWarnings[0]?.percentUsed,
+  80,
+  'Warning reports share of the limit used'
+)
+
+assertEqual(
+  validateSpendingLimits(spendingLimits),
+  null,
+  'Valid spending limits accepted'
+)
+assertEqual(
+  validateSpendingLimits({ ...spendingLimits, dailyLimit: 0 }) !== null,
+  true,
+  'Zero limit rejected'
+)
+assertEqual(
+  validateSpendingLimits({ ...spendingLimits, dailyLimit: 60 }) !== null,
+  true,
+  'Daily limit above monthly limit rejected'
+)
+assertEqual(
+  validateSpendingLimits({ ...spendingLimits, warningThreshold: 1 }) !== null,
+  true,
+  'Warning threshold of 100% rejected'
+)
+
+const spendingWindows = getSpendingWindowStarts(
+  new Date('2025-10-19T23:30:00-05:00')
+)
+assertEqual(
+  spendingWindows.dayStart.toISOString(),
+  '2025-10-20T00:00:00.000Z',
+  'Daily window starts at UTC midnight'
+)
+assertEqual(
+  spendingWindows.monthStart.toISOString(),
+  '2025-10-01T00:00:00.000Z',
+  'Monthly window starts on the first of the UTC month'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,174 @@
+/**
+ * Test Receipts and Statements
+ *
+ * Validates deposit receipts and monthly statements
+ *
+ * Run with: bun run scripts/test-statements.ts
+ */
+
+import {
+  buildMonthlyStatement,
+  groupUsageByModel,
+  parseStatementMonth,
+  renderReceiptHtml,
+  UNATTRIBUTED_USAGE
+} from '@/lib/pricing/statements'
+import type { Transaction } from '@/lib/pricing/transaction-service'
+
+import {
+  assertEqual,
+  logTest,
+  printTestSummary,
+  recordFailure
+} from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Receipts and Monthly Statements
+// ============================================================================
+
+logTest('Test 1: Receipts and Monthly Statements')
+
+const statementNow = new Date('2025-10-19T12:00:00.000Z')
+const statementMonth = parseStatementMonth('2025-09', statementNow)
+
+if ('error' in statementMonth) {
+  recordFailure(`Statement month rejected: ${statementMonth.error}`)
+} else {
+  assertEqual(
+    statementMonth.endDate.toISOString(),
+    '2025-10-01T00:00:00.000Z',
+    'Statement month ends at the start of the next month'
+  )
+
+  const statementTransaction = (
+    id: string,
+    type: Transaction['type'],
+    amount: number,
+    balanceBefore: number,
+    balanceAfter: number,
+    day: number
+  ): Transaction => ({
+    id,
+    userId: 'user-1',
+    type,
+    amount,
+    currency: 'USD',
+    balanceBefore,
+    balanceAfter,
+    createdAt: new Date(Date.UTC(2025, 8, day))
+  })
+
+  const statementTransactions = [
+    statementTransaction('usage-1', 'usage', 0.9, 30, 29.1, 3),
+    statementTransaction('deposit-1', 'deposit', 20, 10, 30, 2),
+    statementTransaction('refund-1', 'refund', 0.1, 29.1, 29.2, 4),
+    statementTransaction('expiry-1', 'adjustment', 5, 29.2, 24.2, 30)
+  ]
+  const statementUsageLine = (
+    providerId: string,
+    modelId: string,
+    totalCost: number,
+    status: 'completed' | 'failed' = 'completed'
+  ) => ({
+    userId: 'user-1',
+    chatId: 'chat-a',
+    transactionId: 'usage-1',
+    providerId,
+    modelId,
+    inputTokens: 600,
+    outputTokens: 400,
+    totalTokens: 1000,
+    inputCost: 0,
+    outputCost: 0,
+    totalCost,
+    status
+  })
+  const statementUsage = [
+    statementUsageLine('openai', 'gpt-4o', 0.4),
+    statementUsageLine('anthropic', 'claude', 0.2),
+    statementUsageLine('openai', 'gpt-4o', 5, 'failed')
+  ]
+
+  const statement = buildMonthlyStatement({
+    month: statementMonth,
+    currency: 'USD',
+    transactions: statementTransactions,
+    stats: {
+      totalDeposits: 20,
+      totalUsage: 0.9,
+      totalRefunds: 0.1,
+      totalAdjustments: 5,
+      transactionCount: 4
+    },
+    usageRecords: statementUsage
+  })
+
+  assertEqual(
+    statement.openingBalance,
+    10,
+    'Opening balance is the balance before the first transaction'
+  )
+  assertEqual(
+    statement.netAdjustments,
+    -5,
+    'Adjustments that lower the balance count as debits'
+  )
+  assertEqual(
+    statement.closingBalance,
+    24.2,
+    'Closing balance is the opening balance plus the month'
+  )
+  assertEqual(
+    statement.usageByModel.map(u => `${u.model}=${u.amount}`).join(','),
+    'openai:gpt-4o=0.6,anthropic:claude=0.3',
+    'Usage is split by model, failed lines left out'
+  )
+  assertEqual(
+    groupUsageByModel(statementTransactions, [])[0]?.model,
+    UNATTRIBUTED_USAGE,
+    'Usage without usage records is still listed'
+  )
+  assertEqual(
+    buildMonthlyStatement({
+      month: statementMonth,
+      currency: 'USD',
+      transactions: [],
+      stats: {
+        totalDeposits: 0,
+        totalUsage: 0,
+        totalRefunds: 0,
+        totalAdjustments: 0,
+        transactionCount: 0
+      },
+      usageRecords: [],
+      previousBalance: 7.5
+    }).closingBalance,
+    7.5,
+    'A month without transactions carries the previous balance'
+  )
+  assertEqual(
+    renderReceiptHtml({
+      ...statementTransactions[1],
+      description: '<script>alert(1)</script>'
+    }).includes('<script>alert'),
+    false,
+    'Receipt escapes the transaction description'
+  )
+}
+
+assertEqual(
+  'error' in parseStatementMonth('2025-11', statementNow),
+  true,
+  'Future statement month rejected'
+)
+assertEqual(
+  'error' in parseStatementMonth('2025-13', statementNow),
+  true,
+  'Invalid statement month rejected'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
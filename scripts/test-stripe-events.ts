@@ -0,0 +1,174 @@
+/**
+ * Test Stripe Events
+ *
+ * Validates the Stripe event log and dispute holds, using the dispute
+ * event fixtures in scripts/fixtures
+ *
+ * Run with: bun run scripts/test-stripe-events.ts
+ */
+
+import Stripe from 'stripe'
+
+import {
+  getDisputeHold,
+  getDisputeOutcome
+} from '@/lib/pricing/dispute-service'
+import { getLedgerBalance } from '@/lib/pricing/reconciliation-service'
+import {
+  canReprocessStripeEvent,
+  isStripeEventStatus
+} from '@/lib/stripe/event-log'
+import { handleStripeEvent } from '@/lib/stripe/webhook-handlers'
+
+import disputeFixtures from './fixtures/stripe-dispute-events.json'
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Stripe Event Log and Disputes
+// ============================================================================
+
+logTest('Test 1: Stripe Event Log and Disputes')
+
+// Disputes freeze their share of the deposit's credit
+const usdDeposit = { amount: 50, currency: 'USD', metadata: {} }
+assertEqual(
+  getDisputeHold(2000, usdDeposit),
+  20,
+  'Partial dispute holds its share'
+)
+assertEqual(
+  getDisputeHold(5000, usdDeposit),
+  50,
+  'Full dispute holds the whole credit'
+)
+assertEqual(
+  getDisputeHold(9000, usdDeposit),
+  50,
+  'Hold never exceeds the credit'
+)
+assertEqual(getDisputeHold(0, usdDeposit), 0, 'Empty dispute holds nothing')
+
+// Paid 50 EUR, credited 54.13 USD
+const convertedDisputeDeposit = {
+  amount: 54.13,
+  currency: 'USD',
+  metadata: { depositAmount: 50, depositCurrency: 'EUR' }
+}
+assertEqual(
+  getDisputeHold(2500, convertedDisputeDeposit),
+  27.07,
+  'Converted deposit holds its share of the ledger credit'
+)
+assertEqual(
+  getDisputeHold(5000, convertedDisputeDeposit),
+  54.13,
+  'Full dispute of a converted deposit holds exactly the credit'
+)
+
+assertEqual(getDisputeOutcome('lost'), 'lost', 'Lost dispute keeps the hold')
+assertEqual(getDisputeOutcome('won'), 'won', 'Won dispute releases the hold')
+assertEqual(
+  getDisputeOutcome('warning_closed'),
+  'won',
+  'Closed inquiry releases the hold'
+)
+
+// Holds are stored like every ledger row: absolute amount, direction from
+// the balances, as freeze_dispute_funds writes them
+const disputeLedger = [
+  { amount: 50, balanceBefore: 0, balanceAfter: 50 }, // Deposit
+  { amount: 20, balanceBefore: 50, balanceAfter: 30 } // Dispute hold
+]
+assertEqual(
+  30 - getLedgerBalance(disputeLedger),
+  0,
+  'Frozen dispute leaves no balance mismatch'
+)
+disputeLedger.push({ amount: 20, balanceBefore: 30, balanceAfter: 50 }) // Won
+assertEqual(
+  50 - getLedgerBalance(disputeLedger),
+  0,
+  'Frozen then won dispute reconciles to zero mismatch'
+)
+
+// Only failed or stale events are handled again
+const eventNow = new Date('2025-11-20T12:00:00Z')
+assertEqual(
+  canReprocessStripeEvent('failed', eventNow, eventNow),
+  true,
+  'Failed event can be replayed'
+)
+assertEqual(
+  canReprocessStripeEvent('processed', new Date(0), eventNow),
+  false,
+  'Processed event is not handled again'
+)
+assertEqual(
+  canReprocessStripeEvent('ignored', new Date(0), eventNow),
+  false,
+  'Ignored event is not handled again'
+)
+assertEqual(
+  canReprocessStripeEvent(
+    'processing',
+    new Date(eventNow.getTime() - 60 * 1000),
+    eventNow
+  ),
+  false,
+  'Event being handled is not claimed twice'
+)
+assertEqual(
+  canReprocessStripeEvent(
+    'processing',
+    new Date(eventNow.getTime() - 10 * 60 * 1000),
+    eventNow
+  ),
+  true,
+  'Stale claim can be taken over'
+)
+assertEqual(isStripeEventStatus('failed'), true, 'Known event status')
+assertEqual(isStripeEventStatus('done'), false, 'Unknown event status')
+
+// Signed fixtures pass verification, as posted by post-stripe-fixture.ts
+const webhookSecret = 'whsec_test_fixture_secret'
+const fixturePayload = JSON.stringify(disputeFixtures.dispute_created)
+const fixtureSignature = await Stripe.webhooks.generateTestHeaderStringAsync({
+  payload: fixturePayload,
+  secret: webhookSecret
+})
+const verifiedEvent = await Stripe.webhooks.constructEventAsync(
+  fixturePayload,
+  fixtureSignature,
+  webhookSecret
+)
+assertEqual(
+  verifiedEvent.type,
+  'charge.dispute.created',
+  'Signed dispute fixture verifies'
+)
+
+let tamperedRejected = false
+try {
+  await Stripe.webhooks.constructEventAsync(
+    fixturePayload.replace('2000', '200'),
+    fixtureSignature,
+    webhookSecret
+  )
+} catch {
+  tamperedRejected = true
+}
+assertEqual(tamperedRejected, true, 'Tampered fixture fails verification')
+
+assertEqual(
+  await handleStripeEvent(
+    disputeFixtures.customer_created as unknown as Stripe.Event
+  ),
+  false,
+  'Event without a handler is ignored'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,164 @@
+/**
+ * Test Subscription Webhooks
+ *
+ * Validates how subscription invoice and cancellation events are read,
+ * using the Stripe event fixtures in scripts/fixtures
+ *
+ * Run with: bun run scripts/test-subscription-webhooks.ts
+ *
+ * To replay real events against a running app instead:
+ *   stripe listen --forward-to localhost:3000/api/payments/webhook
+ *   stripe trigger invoice.paid
+ */
+
+import type Stripe from 'stripe'
+
+import {
+  getInvoiceServicePeriod,
+  getInvoiceSubscriptionId,
+  getSubscriptionCustomerId,
+  getSubscriptionPeriod,
+  getSubscriptionPriceId,
+  isAllowanceInvoice
+} from '@/lib/stripe/subscription-service'
+
+import fixtures from './fixtures/stripe-subscription-events.json'
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m'
+}
+
+let passed = 0
+let failed = 0
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    console.log(`${colors.green}✓${colors.reset} ${name}`)
+    passed++
+  } catch (error) {
+    console.log(`${colors.red}✗${colors.reset} ${name}`)
+    console.log(`  ${colors.red}Error:${colors.reset} ${error}`)
+    failed++
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message)
+  }
+}
+
+function invoiceOf(fixture: { data: { object: unknown } }) {
+  return fixture.data.object as unknown as Stripe.Invoice
+}
+
+function subscriptionOf(fixture: { data: { object: unknown } }) {
+  return fixture.data.object as unknown as Stripe.Subscription
+}
+
+console.log(`${colors.cyan}Testing Subscription Webhooks...${colors.reset}\n`)
+
+// Test 1: First invoice grants the allowance
+test('First subscription invoice grants an allowance', () => {
+  const invoice = invoiceOf(fixtures.invoice_paid_create)
+
+  assert(
+    getInvoiceSubscriptionId(invoice) === 'sub_1Qtest0001',
+    'Should read the subscription from the invoice parent'
+  )
+  assert(isAllowanceInvoice(invoice), 'Should grant an allowance')
+})
+
+// Test 2: Renewal invoice grants the allowance for the new period
+test('Renewal invoice grants an allowance for the new period', () => {
+  const invoice = invoiceOf(fixtures.invoice_paid_cycle)
+  const period = getInvoiceServicePeriod(invoice)
+
+  assert(isAllowanceInvoice(invoice), 'Should grant an allowance')
+  assert(period !== null, 'Should have a service period')
+  assert(
+    period!.end.toISOString() === '2025-12-19T00:00:00.000Z',
+    `Allowance should expire at the end of the paid period, got ${period!.end.toISOString()}`
+  )
+  assert(
+    period!.start.getTime() === invoice.period_end * 1000,
+    'Service period should start where the billed period ends'
+  )
+})
+
+// Test 3: Proration invoices do not grant an allowance
+test('Proration invoice does not grant an allowance', () => {
+  const invoice = invoiceOf(fixtures.invoice_paid_proration)
+
+  assert(
+    getInvoiceSubscriptionId(invoice) === 'sub_1Qtest0001',
+    'Should still belong to the subscription'
+  )
+  assert(!isAllowanceInvoice(invoice), 'Should not grant an allowance')
+  assert(
+    getInvoiceServicePeriod(invoice) === null,
+    'Should have no service period without lines'
+  )
+})
+
+// Test 4: One-off invoices are ignored
+test('Invoice without a subscription is ignored', () => {
+  const invoice = invoiceOf(fixtures.invoice_paid_one_off)
+
+  assert(
+    getInvoiceSubscriptionId(invoice) === null,
+    'Should have no subscription'
+  )
+  assert(!isAllowanceInvoice(invoice), 'Should not grant an allowance')
+})
+
+// Test 5: Cancellation event
+test('Deleted subscription exposes its plan, customer and period', () => {
+  const subscription = subscriptionOf(fixtures.subscription_deleted)
+  const period = getSubscriptionPeriod(subscription)
+
+  assert(subscription.status === 'canceled', 'Should be canceled')
+  assert(
+    subscription.metadata.userId === 'user_123',
+    'Should carry the user from checkout'
+  )
+  assert(
+    getSubscriptionPriceId(subscription) === 'price_Qpro0001',
+    'Should read the price from the first item'
+  )
+  assert(
+    getSubscriptionCustomerId(subscription) === 'cus_Qtest0001',
+    'Should read the customer ID'
+  )
+  assert(
+    period?.end.toISOString() === '2025-12-19T00:00:00.000Z',
+    'Should read the period from the first item'
+  )
+})
+
+// Summary
+console.log(
+  `\n${colors.cyan}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${colors.reset}`
+)
+console.log(`${colors.cyan}SUMMARY${colors.reset}`)
+console.log(
+  `${colors.cyan}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${colors.reset}`
+)
+
+const total = passed + failed
+const passRate = ((passed / total) * 100).toFixed(1)
+
+console.log(`Passed: ${colors.green}${passed}${colors.reset}`)
+console.log(
+  `Failed: ${failed > 0 ? colors.red : colors.reset}${failed}${colors.reset}`
+)
+console.log(
+  `Pass rate: ${passed === total ? colors.green : colors.yellow}${passRate}%${colors.reset}\n`
+)
+
+process.exit(failed > 0 ? 1 : 0)
@@ -0,0 +1,67 @@
+/**
+ * Test Sync Runs
+ *
+ * Validates sync run leases and stale run detection
+ *
+ * Run with: bun run scripts/test-sync-runs.ts
+ */
+
+import { isSyncRunStale, SyncRun } from '@/lib/pricing/sync-run-service'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Sync Run Leases
+// ============================================================================
+
+logTest('Test 1: Sync Run Leases')
+
+const leaseNow = new Date('2025-05-01T02:10:00Z')
+const runningSync: SyncRun = {
+  id: 'run-1',
+  syncType: 'pricing',
+  source: 'cron',
+  createdBy: 'system',
+  status: 'running',
+  startedAt: new Date('2025-05-01T02:00:00Z'),
+  leaseExpiresAt: new Date('2025-05-01T02:12:00Z'),
+  progress: { stage: 'applying', completed: 3, total: 10 },
+  changesApplied: 0
+}
+
+assertEqual(
+  isSyncRunStale(runningSync, leaseNow),
+  false,
+  'Running sync with a live lease is not stale'
+)
+assertEqual(
+  isSyncRunStale(
+    { ...runningSync, leaseExpiresAt: new Date('2025-05-01T02:05:00Z') },
+    leaseNow
+  ),
+  true,
+  'Running sync whose lease expired is stale'
+)
+assertEqual(
+  isSyncRunStale({ ...runningSync, leaseExpiresAt: undefined }, leaseNow),
+  true,
+  'Running sync without a lease is stale'
+)
+assertEqual(
+  isSyncRunStale(
+    {
+      ...runningSync,
+      status: 'succeeded',
+      leaseExpiresAt: new Date('2025-05-01T02:05:00Z')
+    },
+    leaseNow
+  ),
+  false,
+  'Finished sync is never stale'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -0,0 +1,76 @@
+/**
+ * Test Tiered Pricing
+ *
+ * Validates prompt-size price bands for long-context models
+ *
+ * Run with: bun run scripts/test-tiered-pricing.ts
+ */
+
+import { calculateCost } from '@/lib/pricing/pricing-service'
+import { validatePricingTiers } from '@/lib/pricing/pricing-validator'
+import { ModelPricing } from '@/lib/pricing/types'
+
+import {
+  assertApproximately,
+  assertEqual,
+  logTest,
+  printTestSummary
+} from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Tiered (Long-Context) Pricing
+// ============================================================================
+
+logTest('Test 1: Tiered (Long-Context) Pricing')
+
+const geminiProPricing: ModelPricing = {
+  modelId: 'gemini-1.5-pro',
+  providerId: 'google',
+  inputPricePer1kTokens: 0.00125,
+  outputPricePer1kTokens: 0.005,
+  tiers: [{ minTokens: 128_001, inputPrice: 0.0025, outputPrice: 0.01 }]
+}
+
+const shortPrompt = calculateCost(128_000, 1000, geminiProPricing)
+assertApproximately(
+  shortPrompt.totalCost,
+  0.165,
+  0.000001,
+  'Prompt at the threshold uses base prices'
+)
+
+const longPrompt = calculateCost(200_000, 1000, geminiProPricing)
+assertApproximately(
+  longPrompt.totalCost,
+  0.51,
+  0.000001,
+  'Long prompt uses the long-context tier'
+)
+
+assertEqual(
+  validatePricingTiers(geminiProPricing).valid,
+  true,
+  'Valid tiers pass validation'
+)
+assertEqual(
+  validatePricingTiers({
+    ...geminiProPricing,
+    tiers: [
+      {
+        minTokens: 0,
+        maxTokens: 150_000,
+        inputPrice: 0.00125,
+        outputPrice: 0.005
+      },
+      { minTokens: 128_001, inputPrice: 0.0025, outputPrice: 0.01 }
+    ]
+  }).valid,
+  false,
+  'Overlapping tiers are rejected'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
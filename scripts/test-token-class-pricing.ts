@@ -0,0 +1,88 @@
+/**
+ * Test Token-Class Pricing
+ *
+ * Validates cached-input, cache-write and reasoning token prices
+ *
+ * Run with: bun run scripts/test-token-class-pricing.ts
+ */
+
+import { calculateCost } from '@/lib/pricing/pricing-service'
+import { ModelPricing } from '@/lib/pricing/types'
+import { UsageAccumulator } from '@/lib/pricing/usage-accumulator'
+
+import {
+  assertApproximately,
+  assertEqual,
+  claudeSonnetPricing,
+  gpt4Pricing,
+  logTest,
+  printTestSummary
+} from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Cached, Cache-Write and Reasoning Token Pricing
+// ============================================================================
+
+logTest('Test 1: Cached, Cache-Write and Reasoning Token Pricing')
+
+const claudeCachingPricing: ModelPricing = {
+  ...claudeSonnetPricing,
+  cachedInputPricePer1kTokens: 0.0003, // 0.1x input
+  cacheWritePricePer1kTokens: 0.00375 // 1.25x input
+}
+
+// 10k input tokens: 2k regular, 6k cache reads, 2k cache writes
+const test13 = calculateCost(10000, 1000, claudeCachingPricing, {
+  cachedInputTokens: 6000,
+  cacheWriteTokens: 2000
+})
+assertApproximately(test13.inputCost, 0.0153, 0.000001, 'Input cost')
+assertApproximately(test13.outputCost, 0.015, 0.000001, 'Output cost')
+assertEqual(test13.totalTokens, 11000, 'Total tokens')
+assertEqual(test13.cachedInputTokens, 6000, 'Cached input tokens recorded')
+
+// Without a reasoning price, reasoning tokens bill at the output price
+const withReasoning = calculateCost(1000, 2000, gpt4Pricing, {
+  reasoningTokens: 1500
+})
+assertEqual(
+  withReasoning.totalCost,
+  calculateCost(1000, 2000, gpt4Pricing).totalCost,
+  'Reasoning falls back to output price'
+)
+
+const cachingUsage = new UsageAccumulator()
+cachingUsage.add(
+  'anthropic:claude-3-5-sonnet-latest',
+  'response',
+  { promptTokens: 2000, completionTokens: 1000, totalTokens: 3000 },
+  {
+    anthropic: { cacheReadInputTokens: 6000, cacheCreationInputTokens: 2000 }
+  }
+)
+cachingUsage.add(
+  'openai:o3-mini',
+  'response',
+  { promptTokens: 1000, completionTokens: 2000, totalTokens: 3000 },
+  { openai: { cachedPromptTokens: 512, reasoningTokens: 1500 } }
+)
+const [anthropicCall, openaiCall] = cachingUsage.getCalls()
+assertEqual(
+  anthropicCall.promptTokens,
+  10000,
+  'Anthropic cache reads and writes count as input'
+)
+assertEqual(anthropicCall.totalTokens, 11000, 'Anthropic total tokens')
+assertEqual(
+  openaiCall.details?.cachedInputTokens,
+  512,
+  'OpenAI cached prompt tokens'
+)
+assertEqual(openaiCall.details?.reasoningTokens, 1500, 'OpenAI reasoning')
+assertEqual(openaiCall.promptTokens, 1000, 'OpenAI prompt tokens unchanged')
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
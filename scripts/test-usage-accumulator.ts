@@ -0,0 +1,70 @@
+/**
+ * Test Usage Accumulator
+ *
+ * Validates that every model call of a chat turn is priced and billed as
+ * its own usage line
+ *
+ * Run with: bun run scripts/test-usage-accumulator.ts
+ */
+
+import { UsageAccumulator } from '@/lib/pricing/usage-accumulator'
+
+import { assertEqual, logTest, printTestSummary } from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Per-Turn Usage Accumulator
+// ============================================================================
+
+logTest('Test 1: Per-Turn Usage Accumulator')
+
+const turnUsage = new UsageAccumulator()
+turnUsage.add('openai:gpt-4o-mini', 'tool_selection', {
+  promptTokens: 300,
+  completionTokens: 40,
+  totalTokens: 340
+})
+turnUsage.add('anthropic:claude-3-5-sonnet-latest', 'response', {
+  promptTokens: 1200,
+  completionTokens: 80,
+  totalTokens: 1280
+})
+turnUsage.add('anthropic:claude-3-5-sonnet-latest', 'response', {
+  promptTokens: 2500,
+  completionTokens: 600,
+  totalTokens: 3100
+})
+// Calls without usage are ignored
+turnUsage.add('openai:gpt-4o-mini', 'related_questions', undefined)
+turnUsage.add('ollama:qwen2.5', 'related_questions', {
+  promptTokens: NaN,
+  completionTokens: NaN,
+  totalTokens: NaN
+})
+
+const trackedCalls = turnUsage.getCalls()
+assertEqual(trackedCalls.length, 3, 'Calls tracked for the turn')
+assertEqual(
+  trackedCalls.filter(call => call.callType === 'response').length,
+  2,
+  'Each streamText step is its own call'
+)
+assertEqual(
+  trackedCalls[0].model,
+  'openai:gpt-4o-mini',
+  'Tool selection keeps its own model'
+)
+turnUsage.addToolCall('search', 'tavily', 'advanced')
+const toolCall = turnUsage.getCalls()[3]
+assertEqual(toolCall.callType, 'tool_call', 'Tool execution is its own line')
+assertEqual(toolCall.totalTokens, 0, 'Tool calls carry no tokens')
+assertEqual(
+  new UsageAccumulator().isEmpty(),
+  true,
+  'New accumulator starts empty'
+)
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
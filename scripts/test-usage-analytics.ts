@@ -0,0 +1,145 @@
+/**
+ * Test Usage Analytics
+ *
+ * Validates usage date ranges, summaries and CSV export
+ *
+ * Run with: bun run scripts/test-usage-analytics.ts
+ */
+
+import {
+  parseUsageDateRange,
+  summarizeUsage,
+  usageRecordsToCsv
+} from '@/lib/pricing/usage-analytics'
+
+import {
+  assertApproximately,
+  assertEqual,
+  logTest,
+  printTestSummary,
+  recordFailure
+} from './lib/test-helpers'
+
+// ============================================================================
+// TEST 1: Usage Analytics
+// ============================================================================
+
+logTest('Test 1: Usage Analytics')
+
+const analyticsNow = new Date('2025-10-19T15:00:00Z')
+const defaultRange = parseUsageDateRange(null, null, analyticsNow)
+assertEqual(
+  'error' in defaultRange
+    ? defaultRange.error
+    : defaultRange.endDate.toISOString(),
+  '2025-10-20T00:00:00.000Z',
+  'Default range ends after today'
+)
+assertEqual(
+  'error' in defaultRange
+    ? defaultRange.error
+    : defaultRange.startDate.toISOString(),
+  '2025-09-20T00:00:00.000Z',
+  'Default range covers 30 days'
+)
+assertEqual(
+  'error' in parseUsageDateRange('2025-10-10', '2025-10-01'),
+  true,
+  'Start after end rejected'
+)
+assertEqual(
+  'error' in parseUsageDateRange('2025-02-30', '2025-03-01'),
+  true,
+  'Invalid calendar date rejected'
+)
+assertEqual(
+  'error' in parseUsageDateRange('2024-01-01', '2025-10-01'),
+  true,
+  'Range over a year rejected'
+)
+
+const weekRange = parseUsageDateRange('2025-10-01', '2025-10-07')
+if ('error' in weekRange) {
+  recordFailure(`Week range rejected: ${weekRange.error}`)
+} else {
+  const usageLine = (
+    chatId: string,
+    requestId: string,
+    modelId: string,
+    totalCost: number,
+    createdAt: string,
+    status: 'completed' | 'failed' = 'completed'
+  ) => ({
+    userId: 'user_123',
+    chatId,
+    requestId,
+    providerId: 'openai',
+    modelId,
+    inputTokens: 600,
+    outputTokens: 400,
+    totalTokens: 1000,
+    inputCost: 0,
+    outputCost: 0,
+    totalCost,
+    status,
+    createdAt: new Date(createdAt)
+  })
+
+  const summary = summarizeUsage(
+    [
+      usageLine('chat-a', 'req-1', 'gpt-4o', 0.01, '2025-10-01T10:00:00Z'),
+      usageLine(
+        'chat-a',
+        'req-1',
+        'gpt-4o-mini',
+        0.001,
+        '2025-10-01T10:00:01Z'
+      ),
+      usageLine('chat-b', 'req-2', 'gpt-4o', 0.05, '2025-10-03T23:59:59Z'),
+      usageLine(
+        'chat-c',
+        'req-3',
+        'gpt-4o',
+        0.5,
+        '2025-10-04T08:00:00Z',
+        'failed'
+      )
+    ],
+    weekRange
+  )
+
+  assertEqual(summary.daily.length, 7, 'One entry per day of the range')
+  assertEqual(summary.totalRequests, 2, 'Calls grouped into requests')
+  assertEqual(summary.totalCalls, 3, 'Failed calls left out')
+  assertApproximately(summary.totalCost, 0.061, 0.000001, 'Total spend')
+  assertApproximately(summary.daily[0].cost, 0.011, 0.000001, 'First day spend')
+  assertEqual(
+    summary.daily[2].tokensByModel['openai:gpt-4o'],
+    1000,
+    'Tokens per model bucketed by UTC day'
+  )
+  assertEqual(
+    summary.modelBreakdown[0].model,
+    'openai:gpt-4o',
+    'Model with most tokens first'
+  )
+  assertEqual(summary.topChats[0].chatId, 'chat-b', 'Most expensive chat first')
+  assertEqual(summary.topChats.length, 2, 'Chats without billed usage left out')
+
+  const csv = usageRecordsToCsv([
+    usageLine('chat,"x"', 'req-1', 'gpt-4o', 0.01, '2025-10-01T10:00:00Z')
+  ])
+  const [csvHeader, csvRow] = csv.split('\n')
+  assertEqual(csvHeader.split(',')[0], 'created_at', 'CSV header row')
+  assertEqual(
+    csvRow.includes(',"chat,""x""",'),
+    true,
+    'CSV values with commas and quotes are escaped'
+  )
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+printTestSummary()
@@ -13,93 +13,18 @@
 import { calculateCost } from '@/lib/pricing/pricing-service'
 import { ModelPricing } from '@/lib/pricing/types'
 
-// ANSI color codes for terminal output
-const colors = {
-  reset: '\x1b[0m',
-  green: '\x1b[32m',
-  red: '\x1b[31m',
-  yellow: '\x1b[33m',
-  blue: '\x1b[34m',
-  cyan: '\x1b[36m'
-}
-
-function logTest(name: string) {
-  console.log(`\n${colors.blue}▶ ${name}${colors.reset}`)
-}
-
-function logSuccess(message: string) {
-  console.log(`  ${colors.green}✓${colors.reset} ${message}`)
-}
-
-function logError(message: string) {
-  console.log(`  ${colors.red}✗${colors.reset} ${message}`)
-}
-
-function logWarning(message: string) {
-  console.log(`  ${colors.yellow}⚠${colors.reset} ${message}`)
-}
-
-function logInfo(message: string) {
-  console.log(`  ${colors.cyan}ℹ${colors.reset} ${message}`)
-}
-
-// Test counter
-let passed = 0
-let failed = 0
-
-function assertEqual(actual: any, expected: any, message: string) {
-  if (actual === expected) {
-    logSuccess(`${message}: ${actual}`)
-    passed++
-  } else {
-    logError(`${message}: expected ${expected}, got ${actual}`)
-    failed++
-  }
-}
-
-function assertApproximately(
-  actual: number,
-  expected: number,
-  tolerance: number,
-  message: string
-) {
-  const diff = Math.abs(actual - expected)
-  if (diff <= tolerance) {
-    logSuccess(`${message}: ${actual} (within ${tolerance} of ${expected})`)
-    passed++
-  } else {
-    logError(
-      `${message}: expected ~${expected}, got ${actual} (diff: ${diff})`
-    )
-    failed++
-  }
-}
-
-// ============================================================================
-// TEST DATA
-// ============================================================================
-
-// Sample pricing from real-world models
-const gpt4Pricing: ModelPricing = {
-  modelId: 'gpt-4',
-  providerId: 'openai',
-  inputPricePer1kTokens: 0.03, // $0.03 per 1k input tokens
-  outputPricePer1kTokens: 0.06 // $0.06 per 1k output tokens
-}
-
-const gpt35TurboPricing: ModelPricing = {
-  modelId: 'gpt-3.5-turbo',
-  providerId: 'openai',
-  inputPricePer1kTokens: 0.0005, // $0.0005 per 1k input tokens
-  outputPricePer1kTokens: 0.0015 // $0.0015 per 1k output tokens
-}
-
-const claudeSonnetPricing: ModelPricing = {
-  modelId: 'claude-sonnet-4',
-  providerId: 'anthropic',
-  inputPricePer1kTokens: 0.003, // $0.003 per 1k input tokens
-  outputPricePer1kTokens: 0.015 // $0.015 per 1k output tokens
-}
+import {
+  assertApproximately,
+  assertEqual,
+  claudeSonnetPricing,
+  gpt4Pricing,
+  gpt35TurboPricing,
+  logInfo,
+  logTest,
+  printTestSummary,
+  recordFailure,
+  recordPass
+} from './lib/test-helpers'
 
 // ============================================================================
 // TEST 1: Basic Token Calculation
@@ -117,7 +42,7 @@ assertEqual(test1.outputCost, 0.06, 'Output cost')
 assertEqual(test1.totalCost, 0.09, 'Total cost')
 
 // ============================================================================
-// TEST 2: Fractional Token Costs (Real-world scenario)
+// TEST 2: Fractional Token Costs
 // ============================================================================
 
 logTest('Test 2: Fractional Token Costs')
@@ -233,13 +158,11 @@ const outputDecimals = test8.outputCost.toString().split('.')[1]?.length || 0
 const totalDecimals = test8.totalCost.toString().split('.')[1]?.length || 0
 
 if (inputDecimals <= 6 && outputDecimals <= 6 && totalDecimals <= 6) {
-  logSuccess('All costs rounded to max 6 decimal places')
-  passed++
+  recordPass('All costs rounded to max 6 decimal places')
 } else {
-  logError(
+  recordFailure(
     `Precision error: input=${inputDecimals}, output=${outputDecimals}, total=${totalDecimals}`
   )
-  failed++
 }
 
 // ============================================================================
@@ -248,7 +171,7 @@ if (inputDecimals <= 6 && outputDecimals <= 6 && totalDecimals <= 6) {
 
 logTest('Test 9: Token Validation Logic')
 
-// Simulate the validation from handle-stream-finish.ts
+// Simulate the validation from usage-accumulator.ts
 function validateTokenCounts(usage: {
   promptTokens: number
   completionTokens: number
@@ -383,21 +306,4 @@ assertApproximately(
 // SUMMARY
 // ============================================================================
 
-console.log('\n' + '='.repeat(60))
-console.log(`${colors.cyan}TEST SUMMARY${colors.reset}`)
-console.log('='.repeat(60))
-
-const total = passed + failed
-const passRate = ((passed / total) * 100).toFixed(1)
-
-if (failed === 0) {
-  console.log(
-    `${colors.green}✓ All ${passed} tests passed! (100%)${colors.reset}\n`
-  )
-  process.exit(0)
-} else {
-  console.log(`${colors.green}✓ Passed: ${passed}${colors.reset}`)
-  console.log(`${colors.red}✗ Failed: ${failed}${colors.reset}`)
-  console.log(`${colors.yellow}Pass rate: ${passRate}%${colors.reset}\n`)
-  process.exit(1)
-}
+printTestSummary()
@@ -0,0 +1,122 @@
+-- ============================================================================
+-- SETTLE RESERVED BALANCE FUNCTION (Hold-and-Capture)
+-- ============================================================================
+-- Completes the pre-deduction flow started by reserve_balance. A chat request
+-- reserves its estimated maximum cost up front; once the stream finishes the
+-- hold is settled to the actual cost and the unused part is released.
+-- ============================================================================
+
+-- update_transaction_status and refund_reserved_balance both touch
+-- transactions.updated_at, which the original table definition never had
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION settle_reserved_balance(
+  p_user_id TEXT,
+  p_transaction_id UUID,
+  p_actual_amount DECIMAL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  charged_amount DECIMAL,
+  released_amount DECIMAL,
+  balance_after DECIMAL,
+  message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reserved DECIMAL;
+  v_status TEXT;
+  v_balance DECIMAL;
+  v_charge DECIMAL;
+  v_release DECIMAL;
+BEGIN
+  -- Lock the pending hold
+  SELECT amount, metadata->>'status' INTO v_reserved, v_status
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = p_user_id
+    AND type = 'usage'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      'Reserved transaction not found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_status IS DISTINCT FROM 'pending' THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      format('Reservation already finalized with status %s', v_status)::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lock the user's balance row for update
+  SELECT balance INTO v_balance
+  FROM user_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      'User balance record not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Usage above the hold is only collected up to the remaining balance
+  v_charge := LEAST(p_actual_amount, v_reserved + v_balance);
+  v_release := v_reserved - v_charge;
+
+  UPDATE user_balances
+  SET
+    balance = balance + v_release,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance INTO v_balance;
+
+  -- Rewrite the hold as the final usage charge
+  UPDATE transactions
+  SET
+    amount = v_charge,
+    balance_after = balance_before - v_charge,
+    description = 'API usage',
+    metadata = COALESCE(metadata, '{}'::jsonb)
+      || jsonb_build_object(
+        'status', 'completed',
+        'reserved_amount', v_reserved,
+        'actual_amount', p_actual_amount,
+        'uncollected_amount', GREATEST(p_actual_amount - v_charge, 0),
+        'settled_at', NOW()
+      )
+      || COALESCE(p_metadata, '{}'::jsonb),
+    updated_at = NOW()
+  WHERE id = p_transaction_id;
+
+  RETURN QUERY SELECT
+    TRUE,
+    v_charge,
+    v_release,
+    v_balance,
+    'Reservation settled successfully'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION settle_reserved_balance(TEXT, UUID, DECIMAL, JSONB) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON FUNCTION settle_reserved_balance IS 'Settles a pending reserve_balance hold to the actual usage cost. Releases the unused amount and marks the hold completed.';
@@ -0,0 +1,38 @@
+-- ============================================================================
+-- PER-CALL USAGE LINES
+-- ============================================================================
+-- A single chat turn makes several model calls (tool selection, each
+-- streamText step, related questions). Each call is billed as its own
+-- usage_records line, so request_id is no longer unique on its own.
+-- ============================================================================
+
+-- Position of the call within its request
+ALTER TABLE usage_records
+ADD COLUMN IF NOT EXISTS call_index INTEGER NOT NULL DEFAULT 0;
+
+-- What the call was for
+ALTER TABLE usage_records
+ADD COLUMN IF NOT EXISTS call_type TEXT NOT NULL DEFAULT 'response';
+
+ALTER TABLE usage_records
+DROP CONSTRAINT IF EXISTS usage_records_call_type_check;
+
+ALTER TABLE usage_records
+ADD CONSTRAINT usage_records_call_type_check
+CHECK (call_type IN ('response', 'tool_selection', 'related_questions'));
+
+-- Idempotency is now per line: (request_id, call_index)
+ALTER TABLE usage_records
+DROP CONSTRAINT IF EXISTS usage_records_request_id_key;
+
+ALTER TABLE usage_records
+DROP CONSTRAINT IF EXISTS usage_records_request_id_call_index_key;
+
+ALTER TABLE usage_records
+ADD CONSTRAINT usage_records_request_id_call_index_key
+UNIQUE (request_id, call_index);
+
+-- Add comment for documentation
+COMMENT ON COLUMN usage_records.request_id IS 'Identifier of the chat turn - all model calls of one turn share it';
+COMMENT ON COLUMN usage_records.call_index IS 'Position of the model call within its request; unique together with request_id for idempotency';
+COMMENT ON COLUMN usage_records.call_type IS 'Kind of model call: response (streamText step), tool_selection, related_questions';
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- TOOL PRICING
+-- ============================================================================
+-- Search, retrieve and video search tools are billed per call. Prices are
+-- keyed by tool, backing provider and search depth, analogous to
+-- model_pricing. Each tool execution is billed as a usage_records line
+-- with call_type 'tool_call'.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS tool_pricing (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tool_name TEXT NOT NULL CHECK (tool_name IN ('search', 'retrieve', 'video_search')),
+  provider TEXT NOT NULL,
+  search_depth TEXT NOT NULL DEFAULT 'basic' CHECK (search_depth IN ('basic', 'advanced')),
+  price_per_call DECIMAL(10, 6) NOT NULL CHECK (price_per_call >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(tool_name, provider, search_depth)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_pricing_tool_name ON tool_pricing(tool_name);
+
+DROP TRIGGER IF EXISTS update_tool_pricing_updated_at ON tool_pricing;
+CREATE TRIGGER update_tool_pricing_updated_at
+  BEFORE UPDATE ON tool_pricing
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tool_pricing ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read tool pricing"
+  ON tool_pricing FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can insert tool pricing"
+  ON tool_pricing FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update tool pricing"
+  ON tool_pricing FOR UPDATE
+  TO service_role
+  USING (true);
+
+-- Seed default per-call prices (USD)
+INSERT INTO tool_pricing (tool_name, provider, search_depth, price_per_call) VALUES
+  ('search', 'tavily', 'basic', 0.008),
+  ('search', 'tavily', 'advanced', 0.016),
+  ('search', 'exa', 'basic', 0.005),
+  ('search', 'exa', 'advanced', 0.010),
+  ('search', 'firecrawl', 'basic', 0.005),
+  ('search', 'firecrawl', 'advanced', 0.010),
+  ('search', 'searxng', 'basic', 0),
+  ('search', 'searxng', 'advanced', 0),
+  ('retrieve', 'jina', 'basic', 0.002),
+  ('retrieve', 'tavily', 'basic', 0.002),
+  ('video_search', 'serper', 'basic', 0.001)
+ON CONFLICT (tool_name, provider, search_depth) DO NOTHING;
+
+-- Tool calls are billed as usage lines
+ALTER TABLE usage_records
+DROP CONSTRAINT IF EXISTS usage_records_call_type_check;
+
+ALTER TABLE usage_records
+ADD CONSTRAINT usage_records_call_type_check
+CHECK (call_type IN ('response', 'tool_selection', 'related_questions', 'tool_call'));
+
+-- Add comment for documentation
+COMMENT ON TABLE tool_pricing IS 'Per-call prices for metered tools (search, retrieve, video search) keyed by provider and search depth';
+COMMENT ON COLUMN usage_records.call_type IS 'Kind of call: response (streamText step), tool_selection, related_questions, tool_call (model_id is tool:depth, provider_id is the tool provider)';
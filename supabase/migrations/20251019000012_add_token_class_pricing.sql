@@ -0,0 +1,135 @@
+-- ============================================================================
+-- TOKEN CLASS PRICING
+-- ============================================================================
+-- Providers bill prompt cache reads, prompt cache writes, reasoning tokens
+-- and image inputs at their own rates. model_pricing carries an optional
+-- price per class (NULL falls back to the input or output price) and
+-- usage_records stores how many tokens of each class a call used.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. MODEL_PRICING TOKEN CLASS PRICES
+-- ============================================================================
+
+ALTER TABLE model_pricing
+ADD COLUMN IF NOT EXISTS cached_input_price_per_1k_tokens DECIMAL(10, 6),
+ADD COLUMN IF NOT EXISTS cache_write_price_per_1k_tokens DECIMAL(10, 6),
+ADD COLUMN IF NOT EXISTS reasoning_price_per_1k_tokens DECIMAL(10, 6),
+ADD COLUMN IF NOT EXISTS image_input_price_per_1k_tokens DECIMAL(10, 6);
+
+COMMENT ON COLUMN model_pricing.cached_input_price_per_1k_tokens IS 'Price of prompt cache reads; NULL bills them at the input price';
+COMMENT ON COLUMN model_pricing.cache_write_price_per_1k_tokens IS 'Price of prompt cache writes; NULL bills them at the input price';
+COMMENT ON COLUMN model_pricing.reasoning_price_per_1k_tokens IS 'Price of reasoning/thinking tokens; NULL bills them at the output price';
+COMMENT ON COLUMN model_pricing.image_input_price_per_1k_tokens IS 'Price of image input tokens; NULL bills them at the input price';
+
+-- Known cache prices (Anthropic: reads 0.1x, writes 1.25x input;
+-- OpenAI: reads 0.5x input, 0.25x for GPT-4.1; DeepSeek: cache hits)
+UPDATE model_pricing AS mp
+SET
+  cached_input_price_per_1k_tokens = v.cached_input,
+  cache_write_price_per_1k_tokens = v.cache_write
+FROM (VALUES
+  ('gpt-4.1', 'openai', 0.0025, NULL),
+  ('gpt-4.1-mini', 'openai', 0.000125, NULL),
+  ('gpt-4.1-nano', 'openai', 0.000025, NULL),
+  ('o3-mini', 'openai', 0.00075, NULL),
+  ('gpt-4o', 'openai', 0.00125, NULL),
+  ('gpt-4o-mini', 'openai', 0.000075, NULL),
+  ('claude-3-7-sonnet-20250219', 'anthropic', 0.0003, 0.00375),
+  ('claude-3-5-sonnet-latest', 'anthropic', 0.0003, 0.00375),
+  ('claude-3-5-haiku-20241022', 'anthropic', 0.00008, 0.001),
+  ('deepseek-reasoner', 'deepseek', 0.00014, NULL),
+  ('deepseek-chat', 'deepseek', 0.000014, NULL)
+) AS v(model_id, provider_id, cached_input, cache_write)
+WHERE mp.model_id = v.model_id
+  AND mp.provider_id = v.provider_id;
+
+-- ============================================================================
+-- 2. USAGE_RECORDS TOKEN CLASS COUNTS
+-- ============================================================================
+
+ALTER TABLE usage_records
+ADD COLUMN IF NOT EXISTS cached_input_tokens INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS image_input_tokens INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN usage_records.cached_input_tokens IS 'Prompt cache reads, included in input_tokens';
+COMMENT ON COLUMN usage_records.cache_write_tokens IS 'Prompt cache writes, included in input_tokens';
+COMMENT ON COLUMN usage_records.reasoning_tokens IS 'Reasoning/thinking tokens, included in output_tokens';
+COMMENT ON COLUMN usage_records.image_input_tokens IS 'Image input tokens, included in input_tokens';
+
+-- ============================================================================
+-- 3. HISTORY LOGGING FOR TOKEN CLASS PRICES
+-- ============================================================================
+
+-- Also log changes that only touch token class prices; the old and new
+-- class prices are kept in the history row's metadata
+CREATE OR REPLACE FUNCTION log_pricing_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only log if pricing actually changed
+  IF (OLD.input_price_per_1k_tokens != NEW.input_price_per_1k_tokens) OR
+     (OLD.output_price_per_1k_tokens != NEW.output_price_per_1k_tokens) OR
+     (OLD.cached_input_price_per_1k_tokens IS DISTINCT FROM NEW.cached_input_price_per_1k_tokens) OR
+     (OLD.cache_write_price_per_1k_tokens IS DISTINCT FROM NEW.cache_write_price_per_1k_tokens) OR
+     (OLD.reasoning_price_per_1k_tokens IS DISTINCT FROM NEW.reasoning_price_per_1k_tokens) OR
+     (OLD.image_input_price_per_1k_tokens IS DISTINCT FROM NEW.image_input_price_per_1k_tokens) THEN
+
+    INSERT INTO model_pricing_history (
+      model_id,
+      provider_id,
+      old_input_price,
+      old_output_price,
+      new_input_price,
+      new_output_price,
+      change_percent_input,
+      change_percent_output,
+      changed_by,
+      change_source,
+      change_reason,
+      metadata
+    )
+    VALUES (
+      NEW.model_id,
+      NEW.provider_id,
+      OLD.input_price_per_1k_tokens,
+      OLD.output_price_per_1k_tokens,
+      NEW.input_price_per_1k_tokens,
+      NEW.output_price_per_1k_tokens,
+      -- Calculate percentage change (handle division by zero)
+      CASE
+        WHEN OLD.input_price_per_1k_tokens > 0 THEN
+          ROUND(((NEW.input_price_per_1k_tokens - OLD.input_price_per_1k_tokens) / OLD.input_price_per_1k_tokens * 100)::numeric, 2)
+        ELSE NULL
+      END,
+      CASE
+        WHEN OLD.output_price_per_1k_tokens > 0 THEN
+          ROUND(((NEW.output_price_per_1k_tokens - OLD.output_price_per_1k_tokens) / OLD.output_price_per_1k_tokens * 100)::numeric, 2)
+        ELSE NULL
+      END,
+      COALESCE(NEW.verified_source, 'unknown'),
+      NEW.verified_source,
+      NULL, -- change_reason will be set by application if provided
+      COALESCE(NEW.verification_metadata, '{}'::jsonb) || jsonb_build_object(
+        'token_class_prices', jsonb_build_object(
+          'old', jsonb_build_object(
+            'cached_input', OLD.cached_input_price_per_1k_tokens,
+            'cache_write', OLD.cache_write_price_per_1k_tokens,
+            'reasoning', OLD.reasoning_price_per_1k_tokens,
+            'image_input', OLD.image_input_price_per_1k_tokens
+          ),
+          'new', jsonb_build_object(
+            'cached_input', NEW.cached_input_price_per_1k_tokens,
+            'cache_write', NEW.cache_write_price_per_1k_tokens,
+            'reasoning', NEW.reasoning_price_per_1k_tokens,
+            'image_input', NEW.image_input_price_per_1k_tokens
+          )
+        )
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,112 @@
+-- ============================================================================
+-- PROMPT-SIZE PRICING TIERS
+-- ============================================================================
+-- Some models (e.g. Gemini) charge more for long-context prompts. Tiers are
+-- stored as a JSONB array of price bands; the band matching the prompt size
+-- replaces the base input/output price when calculating cost:
+--   [{ "min_tokens": 128001, "max_tokens": null,
+--      "input_price_per_1k_tokens": 0.0025,
+--      "output_price_per_1k_tokens": 0.01 }]
+-- ============================================================================
+
+ALTER TABLE model_pricing
+ADD COLUMN IF NOT EXISTS pricing_tiers JSONB;
+
+ALTER TABLE model_pricing
+DROP CONSTRAINT IF EXISTS model_pricing_tiers_is_array;
+
+ALTER TABLE model_pricing
+ADD CONSTRAINT model_pricing_tiers_is_array
+CHECK (pricing_tiers IS NULL OR jsonb_typeof(pricing_tiers) = 'array');
+
+COMMENT ON COLUMN model_pricing.pricing_tiers IS 'Prompt-size price bands: [{min_tokens, max_tokens, input_price_per_1k_tokens, output_price_per_1k_tokens}]; NULL uses the base prices for every prompt size';
+
+-- Known long-context tiers
+UPDATE model_pricing AS mp
+SET pricing_tiers = v.tiers
+FROM (VALUES
+  ('gemini-2.5-pro-exp-03-25', 'google', '[{"min_tokens": 200001, "max_tokens": null, "input_price_per_1k_tokens": 0.0025, "output_price_per_1k_tokens": 0.01}]'::jsonb),
+  ('gemini-1.5-pro', 'google', '[{"min_tokens": 128001, "max_tokens": null, "input_price_per_1k_tokens": 0.0025, "output_price_per_1k_tokens": 0.01}]'::jsonb),
+  ('gemini-1.5-flash', 'google', '[{"min_tokens": 128001, "max_tokens": null, "input_price_per_1k_tokens": 0.00015, "output_price_per_1k_tokens": 0.0006}]'::jsonb),
+  ('gemini-1.5-flash-8b', 'google', '[{"min_tokens": 128001, "max_tokens": null, "input_price_per_1k_tokens": 0.000075, "output_price_per_1k_tokens": 0.0003}]'::jsonb)
+) AS v(model_id, provider_id, tiers)
+WHERE mp.model_id = v.model_id
+  AND mp.provider_id = v.provider_id;
+
+-- ============================================================================
+-- HISTORY LOGGING FOR TIER CHANGES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION log_pricing_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only log if pricing actually changed
+  IF (OLD.input_price_per_1k_tokens != NEW.input_price_per_1k_tokens) OR
+     (OLD.output_price_per_1k_tokens != NEW.output_price_per_1k_tokens) OR
+     (OLD.cached_input_price_per_1k_tokens IS DISTINCT FROM NEW.cached_input_price_per_1k_tokens) OR
+     (OLD.cache_write_price_per_1k_tokens IS DISTINCT FROM NEW.cache_write_price_per_1k_tokens) OR
+     (OLD.reasoning_price_per_1k_tokens IS DISTINCT FROM NEW.reasoning_price_per_1k_tokens) OR
+     (OLD.image_input_price_per_1k_tokens IS DISTINCT FROM NEW.image_input_price_per_1k_tokens) OR
+     (OLD.pricing_tiers IS DISTINCT FROM NEW.pricing_tiers) THEN
+
+    INSERT INTO model_pricing_history (
+      model_id,
+      provider_id,
+      old_input_price,
+      old_output_price,
+      new_input_price,
+      new_output_price,
+      change_percent_input,
+      change_percent_output,
+      changed_by,
+      change_source,
+      change_reason,
+      metadata
+    )
+    VALUES (
+      NEW.model_id,
+      NEW.provider_id,
+      OLD.input_price_per_1k_tokens,
+      OLD.output_price_per_1k_tokens,
+      NEW.input_price_per_1k_tokens,
+      NEW.output_price_per_1k_tokens,
+      -- Calculate percentage change (handle division by zero)
+      CASE
+        WHEN OLD.input_price_per_1k_tokens > 0 THEN
+          ROUND(((NEW.input_price_per_1k_tokens - OLD.input_price_per_1k_tokens) / OLD.input_price_per_1k_tokens * 100)::numeric, 2)
+        ELSE NULL
+      END,
+      CASE
+        WHEN OLD.output_price_per_1k_tokens > 0 THEN
+          ROUND(((NEW.output_price_per_1k_tokens - OLD.output_price_per_1k_tokens) / OLD.output_price_per_1k_tokens * 100)::numeric, 2)
+        ELSE NULL
+      END,
+      COALESCE(NEW.verified_source, 'unknown'),
+      NEW.verified_source,
+      NULL, -- change_reason will be set by application if provided
+      COALESCE(NEW.verification_metadata, '{}'::jsonb) || jsonb_build_object(
+        'token_class_prices', jsonb_build_object(
+          'old', jsonb_build_object(
+            'cached_input', OLD.cached_input_price_per_1k_tokens,
+            'cache_write', OLD.cache_write_price_per_1k_tokens,
+            'reasoning', OLD.reasoning_price_per_1k_tokens,
+            'image_input', OLD.image_input_price_per_1k_tokens
+          ),
+          'new', jsonb_build_object(
+            'cached_input', NEW.cached_input_price_per_1k_tokens,
+            'cache_write', NEW.cache_write_price_per_1k_tokens,
+            'reasoning', NEW.reasoning_price_per_1k_tokens,
+            'image_input', NEW.image_input_price_per_1k_tokens
+          )
+        ),
+        'pricing_tiers', jsonb_build_object(
+          'old', OLD.pricing_tiers,
+          'new', NEW.pricing_tiers
+        )
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,120 @@
+-- ============================================================================
+-- PRICING PLANS AND MARKUPS
+-- ============================================================================
+-- Adds a pricing-policy layer on top of provider passthrough pricing:
+--   * pricing_plans: user plans (free, pro, enterprise) with an optional
+--     minimum charge per request
+--   * pricing_markup_rules: percentage or fixed markups scoped to a plan,
+--     provider and/or model; the most specific active rule applies
+-- usage_records keeps the raw provider cost next to the billed total_cost
+-- so margins can be reported.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. PRICING PLANS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pricing_plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  min_charge_per_request DECIMAL(10, 6) NOT NULL DEFAULT 0 CHECK (min_charge_per_request >= 0),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one default plan
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_plans_single_default
+ON pricing_plans(is_default) WHERE is_default = true;
+
+DROP TRIGGER IF EXISTS update_pricing_plans_updated_at ON pricing_plans;
+CREATE TRIGGER update_pricing_plans_updated_at
+  BEFORE UPDATE ON pricing_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO pricing_plans (id, name, description, is_default) VALUES
+  ('free', 'Free', 'Pay-as-you-go at standard rates', true),
+  ('pro', 'Pro', 'Discounted rates for regular users', false),
+  ('enterprise', 'Enterprise', 'Negotiated rates', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Every user is on a plan; existing users start on the default plan
+ALTER TABLE user_balances
+ADD COLUMN IF NOT EXISTS plan_id TEXT NOT NULL DEFAULT 'free' REFERENCES pricing_plans(id);
+
+-- ============================================================================
+-- 2. MARKUP RULES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pricing_markup_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id TEXT REFERENCES pricing_plans(id) ON DELETE CASCADE, -- NULL = all plans
+  provider_id TEXT, -- NULL = all providers
+  model_id TEXT, -- NULL = all models of the provider
+  markup_type TEXT NOT NULL CHECK (markup_type IN ('percentage', 'fixed')),
+  markup_value DECIMAL(10, 6) NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT pricing_markup_rules_model_needs_provider CHECK (model_id IS NULL OR provider_id IS NOT NULL),
+  CONSTRAINT pricing_markup_rules_value_range CHECK (
+    (markup_type = 'percentage' AND markup_value >= -100) OR
+    (markup_type = 'fixed' AND markup_value >= 0)
+  )
+);
+
+-- One rule per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_markup_rules_scope
+ON pricing_markup_rules(COALESCE(plan_id, ''), COALESCE(provider_id, ''), COALESCE(model_id, ''));
+
+DROP TRIGGER IF EXISTS update_pricing_markup_rules_updated_at ON pricing_markup_rules;
+CREATE TRIGGER update_pricing_markup_rules_updated_at
+  BEFORE UPDATE ON pricing_markup_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. USAGE RECORDS: PROVIDER COST
+-- ============================================================================
+
+ALTER TABLE usage_records
+ADD COLUMN IF NOT EXISTS provider_cost DECIMAL(10, 6) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS plan_id TEXT;
+
+-- Usage before this migration was billed at passthrough
+UPDATE usage_records SET provider_cost = total_cost WHERE provider_cost = 0;
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE pricing_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pricing_markup_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read pricing plans"
+  ON pricing_plans FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage pricing plans"
+  ON pricing_plans FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Markups reveal margins; only the service role can read them
+CREATE POLICY "Service role can manage markup rules"
+  ON pricing_markup_rules FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE pricing_plans IS 'User pricing plans; markup rules and the minimum charge per request depend on the plan';
+COMMENT ON TABLE pricing_markup_rules IS 'Percentage or fixed markups over provider cost, scoped by plan, provider and model. The most specific active rule applies (model > provider > plan)';
+COMMENT ON COLUMN user_balances.plan_id IS 'Pricing plan of the user';
+COMMENT ON COLUMN usage_records.provider_cost IS 'Raw provider cost of the call; total_cost is the billed amount after markup and minimum charge';
+COMMENT ON COLUMN usage_records.plan_id IS 'Pricing plan the call was billed under';
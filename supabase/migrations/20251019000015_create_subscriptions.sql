@@ -0,0 +1,640 @@
+-- ============================================================================
+-- SUBSCRIPTIONS WITH MONTHLY CREDIT ALLOWANCE
+-- ============================================================================
+-- Recurring Stripe subscriptions grant a credit allowance every billing
+-- period. The allowance is part of user_balances.balance and tracked
+-- separately in allowance_balance:
+--   * holds (reserve_balance) and direct debits (increment_balance) spend
+--     allowance credits before purchased ones
+--   * allowance from an expiring plan is removed at the end of the period
+--     (on renewal, cancellation, or lazily on the next hold)
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SUBSCRIPTION PLANS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  stripe_price_id TEXT UNIQUE, -- NULL = not purchasable yet
+  monthly_price DECIMAL(10, 2) NOT NULL DEFAULT 0, -- Display only; Stripe price is authoritative
+  monthly_allowance DECIMAL(10, 2) NOT NULL CHECK (monthly_allowance >= 0),
+  allowance_expires BOOLEAN NOT NULL DEFAULT true,
+  pricing_plan_id TEXT NOT NULL DEFAULT 'free' REFERENCES pricing_plans(id),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_subscription_plans_updated_at ON subscription_plans;
+CREATE TRIGGER update_subscription_plans_updated_at
+  BEFORE UPDATE ON subscription_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Set stripe_price_id to the recurring Stripe price before selling the plan
+INSERT INTO subscription_plans (id, name, description, monthly_price, monthly_allowance, allowance_expires, pricing_plan_id) VALUES
+  ('pro_monthly', 'Pro', '$20 of credits every month at Pro rates', 20.00, 20.00, true, 'pro')
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- 2. USER SUBSCRIPTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  subscription_plan_id TEXT NOT NULL REFERENCES subscription_plans(id),
+  stripe_subscription_id TEXT NOT NULL,
+  stripe_customer_id TEXT NOT NULL,
+  status TEXT NOT NULL, -- Stripe subscription status
+  current_period_start TIMESTAMP WITH TIME ZONE,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT user_subscriptions_stripe_subscription_id_unique UNIQUE (stripe_subscription_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_user_id ON user_subscriptions(user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_user_subscriptions_updated_at ON user_subscriptions;
+CREATE TRIGGER update_user_subscriptions_updated_at
+  BEFORE UPDATE ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. ALLOWANCE BALANCE AND INVOICE IDEMPOTENCY
+-- ============================================================================
+
+ALTER TABLE user_balances
+ADD COLUMN IF NOT EXISTS allowance_balance DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (allowance_balance >= 0),
+ADD COLUMN IF NOT EXISTS allowance_expires_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS stripe_invoice_id TEXT;
+
+ALTER TABLE transactions
+DROP CONSTRAINT IF EXISTS transactions_stripe_invoice_id_unique;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_stripe_invoice_id_unique UNIQUE (stripe_invoice_id);
+
+-- ============================================================================
+-- 4. ALLOWANCE FUNCTIONS
+-- ============================================================================
+
+-- Remove a user's expiring allowance from their balance
+-- Without p_force only allowance past allowance_expires_at is removed;
+-- allowance without an expiry date is never removed
+CREATE OR REPLACE FUNCTION expire_subscription_allowance(
+  p_user_id TEXT,
+  p_force BOOLEAN DEFAULT false
+)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_balance DECIMAL;
+  v_allowance DECIMAL;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+  v_currency TEXT;
+BEGIN
+  SELECT balance, allowance_balance, allowance_expires_at, currency
+  INTO v_balance, v_allowance, v_expires_at, v_currency
+  FROM user_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR v_allowance <= 0
+     OR v_expires_at IS NULL
+     OR (NOT p_force AND v_expires_at > NOW()) THEN
+    RETURN 0;
+  END IF;
+
+  -- Never take more than the balance holds
+  v_allowance := LEAST(v_allowance, v_balance);
+
+  UPDATE user_balances
+  SET
+    balance = balance - v_allowance,
+    allowance_balance = 0,
+    allowance_expires_at = NULL,
+    updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'adjustment',
+    v_allowance,
+    v_currency,
+    v_balance,
+    v_balance - v_allowance,
+    'Subscription allowance expired',
+    jsonb_build_object(
+      'source', 'subscription_allowance',
+      'status', 'completed',
+      'expired_at', v_expires_at
+    )
+  );
+
+  RETURN v_allowance;
+END;
+$$;
+
+-- Grant the allowance paid for by a subscription invoice
+-- Unused expiring allowance of the previous period is removed first
+CREATE OR REPLACE FUNCTION grant_subscription_allowance(
+  p_user_id TEXT,
+  p_amount DECIMAL,
+  p_expires_at TIMESTAMP WITH TIME ZONE,
+  p_invoice_id TEXT,
+  p_description TEXT DEFAULT 'Subscription allowance'
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  transaction_id UUID,
+  expired_amount DECIMAL,
+  balance_after DECIMAL,
+  message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_expired DECIMAL;
+  v_balance DECIMAL;
+  v_currency TEXT;
+BEGIN
+  -- Each invoice grants its allowance once
+  SELECT id INTO v_transaction_id
+  FROM transactions
+  WHERE stripe_invoice_id = p_invoice_id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      v_transaction_id,
+      0::DECIMAL,
+      0::DECIMAL,
+      'Invoice allowance already granted'::TEXT;
+    RETURN;
+  END IF;
+
+  v_expired := expire_subscription_allowance(p_user_id, true);
+
+  UPDATE user_balances
+  SET
+    balance = balance + p_amount,
+    allowance_balance = allowance_balance + p_amount,
+    allowance_expires_at = p_expires_at,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance, currency INTO v_balance, v_currency;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      NULL::UUID,
+      0::DECIMAL,
+      0::DECIMAL,
+      'User balance record not found'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    stripe_invoice_id,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'deposit',
+    p_amount,
+    v_currency,
+    v_balance - p_amount,
+    v_balance,
+    p_description,
+    p_invoice_id,
+    jsonb_build_object(
+      'source', 'subscription_allowance',
+      'status', 'completed',
+      'expires_at', p_expires_at
+    )
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT
+    TRUE,
+    v_transaction_id,
+    v_expired,
+    v_balance,
+    'Allowance granted successfully'::TEXT;
+END;
+$$;
+
+-- ============================================================================
+-- 5. SPEND ALLOWANCE BEFORE PURCHASED CREDITS
+-- ============================================================================
+
+-- Direct debits spend allowance before purchased credits
+CREATE OR REPLACE FUNCTION increment_balance(
+  p_user_id TEXT,
+  p_amount DECIMAL
+)
+RETURNS TABLE (
+  balance_before DECIMAL,
+  balance_after DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_balance_before DECIMAL;
+  v_balance_after DECIMAL;
+BEGIN
+  -- Get current balance and update atomically
+  UPDATE user_balances
+  SET
+    balance = balance + p_amount,
+    -- Debits spend allowance first, like holds; the rest is purchased credit
+    allowance_balance = CASE
+      WHEN p_amount < 0 THEN allowance_balance - LEAST(allowance_balance, -p_amount)
+      ELSE allowance_balance
+    END,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance - p_amount, balance INTO v_balance_before, v_balance_after;
+
+  -- If no row was updated, the user doesn't have a balance record
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User balance record not found for user_id: %', p_user_id;
+  END IF;
+
+  -- Return both values
+  RETURN QUERY SELECT v_balance_before, v_balance_after;
+END;
+$$;
+
+-- Holds take allowance first and remember how much in allowance_amount
+CREATE OR REPLACE FUNCTION reserve_balance(
+  p_user_id TEXT,
+  p_amount DECIMAL,
+  p_request_id TEXT,
+  p_description TEXT DEFAULT 'API usage (pending)'
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  transaction_id UUID,
+  balance_before DECIMAL,
+  balance_after DECIMAL,
+  message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_balance DECIMAL;
+  v_currency TEXT;
+  v_allowance DECIMAL;
+  v_from_allowance DECIMAL;
+  v_transaction_id UUID;
+BEGIN
+  -- Lapsed allowance cannot be spent
+  PERFORM expire_subscription_allowance(p_user_id);
+
+  -- Lock the user's balance row for update
+  SELECT balance, currency, allowance_balance INTO v_balance, v_currency, v_allowance
+  FROM user_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Check if user has balance record
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      NULL::UUID,
+      0::DECIMAL,
+      0::DECIMAL,
+      'User balance record not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Check if user has sufficient balance
+  IF v_balance < p_amount THEN
+    RETURN QUERY SELECT
+      FALSE,
+      NULL::UUID,
+      v_balance,
+      v_balance,
+      format('Insufficient balance: have %s, need %s', v_balance, p_amount)::TEXT;
+    RETURN;
+  END IF;
+
+  v_from_allowance := LEAST(v_allowance, p_amount);
+
+  -- Deduct the amount (reserve it)
+  UPDATE user_balances
+  SET
+    balance = balance - p_amount,
+    allowance_balance = allowance_balance - v_from_allowance,
+    updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  -- Create a pending transaction record
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'usage',
+    p_amount,
+    v_currency,
+    v_balance,
+    v_balance - p_amount,
+    p_description,
+    jsonb_build_object(
+      'request_id', p_request_id,
+      'status', 'pending',
+      'allowance_amount', v_from_allowance
+    )
+  )
+  RETURNING id INTO v_transaction_id;
+
+  -- Return success with transaction details
+  RETURN QUERY SELECT
+    TRUE,
+    v_transaction_id,
+    v_balance,
+    v_balance - p_amount,
+    'Balance reserved successfully'::TEXT;
+END;
+$$;
+
+-- Released holds give their allowance part back
+CREATE OR REPLACE FUNCTION refund_reserved_balance(
+  p_user_id TEXT,
+  p_amount DECIMAL,
+  p_transaction_id UUID,
+  p_description TEXT DEFAULT 'API usage refund (failed request)'
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  balance_after DECIMAL,
+  message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_balance_after DECIMAL;
+  v_allowance_amount DECIMAL;
+BEGIN
+  SELECT COALESCE((metadata->>'allowance_amount')::DECIMAL, 0) INTO v_allowance_amount
+  FROM transactions
+  WHERE id = p_transaction_id;
+
+  -- Add the amount back to user's balance
+  UPDATE user_balances
+  SET
+    balance = balance + p_amount,
+    allowance_balance = LEAST(allowance_balance + COALESCE(v_allowance_amount, 0), balance + p_amount),
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance INTO v_balance_after;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      'User balance record not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Mark the original transaction as failed
+  UPDATE transactions
+  SET
+    metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('status', 'failed'),
+    updated_at = NOW()
+  WHERE id = p_transaction_id;
+
+  -- Create a refund transaction record
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    metadata
+  )
+  SELECT
+    p_user_id,
+    'refund',
+    p_amount,
+    currency,
+    v_balance_after - p_amount,
+    v_balance_after,
+    p_description,
+    jsonb_build_object('original_transaction_id', p_transaction_id, 'status', 'completed')
+  FROM user_balances
+  WHERE user_id = p_user_id;
+
+  -- Return success
+  RETURN QUERY SELECT
+    TRUE,
+    v_balance_after,
+    'Balance refunded successfully'::TEXT;
+END;
+$$;
+
+-- Settled usage is charged to the allowance part of the hold first; usage
+-- above the hold also spends remaining allowance first
+CREATE OR REPLACE FUNCTION settle_reserved_balance(
+  p_user_id TEXT,
+  p_transaction_id UUID,
+  p_actual_amount DECIMAL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  charged_amount DECIMAL,
+  released_amount DECIMAL,
+  balance_after DECIMAL,
+  message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reserved DECIMAL;
+  v_status TEXT;
+  v_allowance_reserved DECIMAL;
+  v_balance DECIMAL;
+  v_charge DECIMAL;
+  v_release DECIMAL;
+  v_allowance_charge DECIMAL;
+BEGIN
+  -- Lock the pending hold
+  SELECT amount, metadata->>'status', COALESCE((metadata->>'allowance_amount')::DECIMAL, 0)
+  INTO v_reserved, v_status, v_allowance_reserved
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = p_user_id
+    AND type = 'usage'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      'Reserved transaction not found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_status IS DISTINCT FROM 'pending' THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      format('Reservation already finalized with status %s', v_status)::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lock the user's balance row for update
+  SELECT balance INTO v_balance
+  FROM user_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      'User balance record not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Usage above the hold is only collected up to the remaining balance
+  v_charge := LEAST(p_actual_amount, v_reserved + v_balance);
+  v_release := v_reserved - v_charge;
+  v_allowance_charge := LEAST(v_allowance_reserved, v_charge);
+
+  UPDATE user_balances
+  SET
+    balance = balance + v_release,
+    allowance_balance = GREATEST(
+      allowance_balance
+        + (v_allowance_reserved - v_allowance_charge)
+        - GREATEST(v_charge - v_reserved, 0),
+      0
+    ),
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance INTO v_balance;
+
+  -- Rewrite the hold as the final usage charge
+  UPDATE transactions
+  SET
+    amount = v_charge,
+    balance_after = balance_before - v_charge,
+    description = 'API usage',
+    metadata = COALESCE(metadata, '{}'::jsonb)
+      || jsonb_build_object(
+        'status', 'completed',
+        'reserved_amount', v_reserved,
+        'actual_amount', p_actual_amount,
+        'uncollected_amount', GREATEST(p_actual_amount - v_charge, 0),
+        'allowance_charged', v_allowance_charge,
+        'settled_at', NOW()
+      )
+      || COALESCE(p_metadata, '{}'::jsonb),
+    updated_at = NOW()
+  WHERE id = p_transaction_id;
+
+  RETURN QUERY SELECT
+    TRUE,
+    v_charge,
+    v_release,
+    v_balance,
+    'Reservation settled successfully'::TEXT;
+END;
+$$;
+
+-- ============================================================================
+-- 6. ROW LEVEL SECURITY AND PERMISSIONS
+-- ============================================================================
+
+ALTER TABLE subscription_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read subscription plans"
+  ON subscription_plans FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage subscription plans"
+  ON subscription_plans FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can read own subscriptions"
+  ON user_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage user subscriptions"
+  ON user_subscriptions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION expire_subscription_allowance(TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION grant_subscription_allowance(TEXT, DECIMAL, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON TABLE subscription_plans IS 'Recurring Stripe plans that grant a monthly credit allowance and move the user to a pricing plan';
+COMMENT ON TABLE user_subscriptions IS 'Stripe subscriptions of users, kept in sync by the payments webhook';
+COMMENT ON COLUMN user_balances.allowance_balance IS 'Part of balance granted by a subscription; spent before purchased credits';
+COMMENT ON COLUMN user_balances.allowance_expires_at IS 'When the allowance expires; NULL for allowance that does not expire';
+COMMENT ON COLUMN transactions.stripe_invoice_id IS 'Stripe invoice that granted a subscription allowance';
+COMMENT ON FUNCTION expire_subscription_allowance IS 'Removes expired (or, with p_force, any expiring) subscription allowance from the balance and logs an adjustment';
+COMMENT ON FUNCTION reserve_balance IS 'Atomically reserves balance for API usage. Checks sufficient funds and creates pending transaction in single atomic operation. Subscription allowance is spent before purchased credits.';
+COMMENT ON FUNCTION grant_subscription_allowance IS 'Adds the allowance of a paid subscription invoice once per invoice, expiring the previous period allowance first';
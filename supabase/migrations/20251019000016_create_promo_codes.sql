@@ -0,0 +1,228 @@
+-- ============================================================================
+-- PROMO CODES AND CREDIT VOUCHERS
+-- ============================================================================
+-- Admins create codes worth a fixed amount of credit. Users redeem them from
+-- the account page; each redemption credits the balance and is logged as an
+-- 'adjustment' transaction with the code in its metadata.
+-- Redemptions are idempotent per (user, idempotency key): retrying the same
+-- redemption returns the first result instead of crediting again, and a key
+-- reused for another code is refused.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. PROMO CODES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)), -- Stored upper-case
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  max_redemptions INTEGER CHECK (max_redemptions > 0), -- NULL = unlimited
+  per_user_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_user_limit > 0),
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE, -- NULL = never expires
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_promo_codes_updated_at ON promo_codes;
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. REDEMPTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID NOT NULL REFERENCES promo_codes(id),
+  user_id TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  transaction_id UUID REFERENCES transactions(id), -- The adjustment that logged the credit
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT promo_code_redemptions_idempotency_unique UNIQUE (user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_code_user ON promo_code_redemptions(promo_code_id, user_id);
+
+-- ============================================================================
+-- 3. REDEEM FUNCTION
+-- ============================================================================
+
+-- Check a code's limits, record the redemption, credit the balance and log the
+-- adjustment in one transaction. The code row is locked so concurrent
+-- redemptions cannot exceed max_redemptions or per_user_limit.
+-- Status is one of: redeemed, duplicate, idempotency_conflict, not_found,
+-- inactive, expired, exhausted, limit_reached
+CREATE OR REPLACE FUNCTION redeem_promo_code(
+  p_user_id TEXT,
+  p_code TEXT,
+  p_idempotency_key TEXT
+)
+RETURNS TABLE (
+  status TEXT,
+  redemption_id UUID,
+  promo_code_id UUID,
+  amount DECIMAL,
+  balance_before DECIMAL,
+  balance_after DECIMAL,
+  transaction_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code promo_codes%ROWTYPE;
+  v_existing promo_code_redemptions%ROWTYPE;
+  v_user_redemptions INTEGER;
+  v_redemption_id UUID;
+  v_balance_before DECIMAL;
+  v_balance_after DECIMAL;
+  v_currency TEXT;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_code
+  FROM promo_codes
+  WHERE code = UPPER(TRIM(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::UUID, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  -- Retried redemption: return the original result. A key that already
+  -- redeemed another code is refused rather than reported as this one
+  SELECT * INTO v_existing
+  FROM promo_code_redemptions r
+  WHERE r.user_id = p_user_id
+    AND r.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.promo_code_id <> v_code.id THEN
+      RETURN QUERY SELECT 'idempotency_conflict'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+      RETURN;
+    END IF;
+
+    RETURN QUERY SELECT 'duplicate'::TEXT, v_existing.id, v_existing.promo_code_id, v_existing.amount, NULL::DECIMAL, NULL::DECIMAL, v_existing.transaction_id;
+    RETURN;
+  END IF;
+
+  IF NOT v_code.is_active THEN
+    RETURN QUERY SELECT 'inactive'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF v_code.expires_at IS NOT NULL AND v_code.expires_at <= NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF v_code.max_redemptions IS NOT NULL AND v_code.redemption_count >= v_code.max_redemptions THEN
+    RETURN QUERY SELECT 'exhausted'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_user_redemptions
+  FROM promo_code_redemptions r
+  WHERE r.promo_code_id = v_code.id
+    AND r.user_id = p_user_id;
+
+  IF v_user_redemptions >= v_code.per_user_limit THEN
+    RETURN QUERY SELECT 'limit_reached'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  UPDATE user_balances
+  SET
+    balance = balance + v_code.amount,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance - v_code.amount, balance, currency
+  INTO v_balance_before, v_balance_after, v_currency;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User balance record not found for user_id: %', p_user_id;
+  END IF;
+
+  INSERT INTO promo_code_redemptions (promo_code_id, user_id, idempotency_key, amount)
+  VALUES (v_code.id, p_user_id, p_idempotency_key, v_code.amount)
+  RETURNING id INTO v_redemption_id;
+
+  -- Log the credit in the same transaction, so it cannot go unrecorded
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'adjustment',
+    v_code.amount,
+    v_currency,
+    v_balance_before,
+    v_balance_after,
+    'Promo code ' || v_code.code,
+    jsonb_build_object(
+      'promoCode', v_code.code,
+      'promoCodeId', v_code.id,
+      'redemptionId', v_redemption_id
+    )
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE promo_code_redemptions
+  SET transaction_id = v_transaction_id
+  WHERE id = v_redemption_id;
+
+  UPDATE promo_codes
+  SET redemption_count = redemption_count + 1
+  WHERE id = v_code.id;
+
+  RETURN QUERY SELECT 'redeemed'::TEXT, v_redemption_id, v_code.id, v_code.amount, v_balance_before, v_balance_after, v_transaction_id;
+END;
+$$;
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY AND PERMISSIONS
+-- ============================================================================
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are not readable by users, so they cannot be listed or guessed
+CREATE POLICY "Service role can manage promo codes"
+  ON promo_codes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can read own promo code redemptions"
+  ON promo_code_redemptions FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage promo code redemptions"
+  ON promo_code_redemptions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION redeem_promo_code(TEXT, TEXT, TEXT) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON TABLE promo_codes IS 'Promo codes and credit vouchers created by admins';
+COMMENT ON TABLE promo_code_redemptions IS 'Promo code redemptions; one row per credited redemption';
+COMMENT ON COLUMN promo_code_redemptions.idempotency_key IS 'Client-supplied key; retries with the same key return the original redemption';
+COMMENT ON FUNCTION redeem_promo_code IS 'Atomically checks promo code limits, records the redemption, credits the balance and logs the adjustment transaction. Idempotent per user and idempotency key; a key reused for another code is refused.';
@@ -0,0 +1,80 @@
+-- ============================================================================
+-- SPENDING LIMITS AND BUDGET ALERTS
+-- ============================================================================
+-- Users can cap their spend per UTC day, per UTC calendar month and per
+-- request. The chat route checks the caps before a request starts; spend in a
+-- window is the sum of billed usage_records.total_cost in that window.
+-- warning_threshold is the share of a cap at which the user is warned.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SPENDING LIMITS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_spending_limits (
+  user_id TEXT PRIMARY KEY,
+  daily_limit DECIMAL(10, 2) CHECK (daily_limit > 0), -- NULL = no cap
+  monthly_limit DECIMAL(10, 2) CHECK (monthly_limit > 0), -- NULL = no cap
+  per_request_limit DECIMAL(10, 2) CHECK (per_request_limit > 0), -- NULL = no cap
+  warning_threshold DECIMAL(3, 2) NOT NULL DEFAULT 0.80 CHECK (warning_threshold > 0 AND warning_threshold < 1),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_user_spending_limits_updated_at ON user_spending_limits;
+CREATE TRIGGER update_user_spending_limits_updated_at
+  BEFORE UPDATE ON user_spending_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. SPENDING TOTALS FUNCTION
+-- ============================================================================
+
+-- Billed spend since the start of the day and of the month
+-- Failed and refunded usage was never charged and is left out
+CREATE OR REPLACE FUNCTION get_spending_totals(
+  p_user_id TEXT,
+  p_day_start TIMESTAMP WITH TIME ZONE,
+  p_month_start TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  daily_spend DECIMAL,
+  monthly_spend DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    COALESCE(SUM(total_cost) FILTER (WHERE created_at >= p_day_start), 0) AS daily_spend,
+    COALESCE(SUM(total_cost), 0) AS monthly_spend
+  FROM usage_records
+  WHERE user_id = p_user_id
+    AND created_at >= LEAST(p_day_start, p_month_start)
+    AND COALESCE(status, 'completed') NOT IN ('failed', 'refunded');
+$$;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY AND PERMISSIONS
+-- ============================================================================
+
+ALTER TABLE user_spending_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own spending limits"
+  ON user_spending_limits FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage spending limits"
+  ON user_spending_limits FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION get_spending_totals(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON TABLE user_spending_limits IS 'User-defined daily, monthly and per-request spending caps';
+COMMENT ON COLUMN user_spending_limits.warning_threshold IS 'Share of a cap (0-1) at which the user is warned that the cap is close';
+COMMENT ON FUNCTION get_spending_totals IS 'Billed usage since the given day and month starts, excluding failed and refunded usage';
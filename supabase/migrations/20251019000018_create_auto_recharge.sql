@@ -0,0 +1,99 @@
+-- ============================================================================
+-- AUTOMATIC TOP-UP
+-- ============================================================================
+-- Users can save a card and opt in to "when my balance drops below threshold,
+-- charge amount to the saved card". Charges are off-session Stripe
+-- PaymentIntents; the balance is credited by the payments webhook like any
+-- other deposit. A failed charge turns auto top-up off and records why.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. AUTO RECHARGE SETTINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS auto_recharge_settings (
+  user_id TEXT PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  threshold DECIMAL(10, 2) NOT NULL DEFAULT 5 CHECK (threshold >= 0),
+  amount DECIMAL(10, 2) NOT NULL DEFAULT 20 CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  stripe_customer_id TEXT,
+  stripe_payment_method_id TEXT, -- Saved card charged off-session
+  payment_method_label TEXT, -- e.g. "visa •••• 4242"
+  pending_since TIMESTAMP WITH TIME ZONE, -- Set while a charge is in flight
+  last_payment_intent_id TEXT,
+  last_failure_message TEXT, -- Why auto top-up was turned off
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_auto_recharge_settings_updated_at ON auto_recharge_settings;
+CREATE TRIGGER update_auto_recharge_settings_updated_at
+  BEFORE UPDATE ON auto_recharge_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. CLAIM FUNCTION
+-- ============================================================================
+
+-- Start a top-up if auto top-up is on, a card is saved, the balance is below
+-- the threshold and no other top-up is in flight. Claiming marks the top-up
+-- as pending so concurrent requests cannot charge twice; a claim older than
+-- p_retry_after is considered abandoned.
+-- Returns no row when no top-up should start
+CREATE OR REPLACE FUNCTION claim_auto_recharge(
+  p_user_id TEXT,
+  p_retry_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS TABLE (
+  amount DECIMAL,
+  currency TEXT,
+  stripe_customer_id TEXT,
+  stripe_payment_method_id TEXT,
+  pending_since TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE auto_recharge_settings s
+  SET pending_since = NOW()
+  FROM user_balances b
+  WHERE s.user_id = p_user_id
+    AND b.user_id = s.user_id
+    AND s.enabled
+    AND s.stripe_customer_id IS NOT NULL
+    AND s.stripe_payment_method_id IS NOT NULL
+    AND b.balance < s.threshold
+    AND (s.pending_since IS NULL OR s.pending_since < NOW() - p_retry_after)
+  RETURNING s.amount, s.currency, s.stripe_customer_id, s.stripe_payment_method_id, s.pending_since;
+END;
+$$;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY AND PERMISSIONS
+-- ============================================================================
+
+ALTER TABLE auto_recharge_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own auto recharge settings"
+  ON auto_recharge_settings FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage auto recharge settings"
+  ON auto_recharge_settings FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION claim_auto_recharge(TEXT, INTERVAL) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON TABLE auto_recharge_settings IS 'Automatic top-up settings and the saved Stripe card charged off-session';
+COMMENT ON COLUMN auto_recharge_settings.pending_since IS 'When the in-flight top-up was claimed; cleared when its PaymentIntent succeeds or fails';
+COMMENT ON COLUMN auto_recharge_settings.last_failure_message IS 'Reason the last top-up failed and auto top-up was turned off';
+COMMENT ON FUNCTION claim_auto_recharge IS 'Atomically claims a top-up when auto top-up is on and the balance is below the threshold. Returns no row otherwise.';
@@ -0,0 +1,253 @@
+-- ============================================================================
+-- BILLING RECONCILIATION
+-- ============================================================================
+-- A usage line that could not be recorded after its charge is queued for
+-- retry instead of only being logged. A reconciliation job retries the queue
+-- and looks for:
+--   * usage transactions with no linked usage record
+--   * charged usage records with no transaction
+--   * balances that differ from the sum of their transactions
+--   * usage holds still pending long after their turn
+-- Findings stay open until an admin applies a corrective adjustment or
+-- dismisses them, or the job no longer detects them.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. USAGE RECORD RETRY QUEUE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS usage_record_retry_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  chat_id TEXT NOT NULL,
+  request_id TEXT NOT NULL,
+  call_index INTEGER NOT NULL DEFAULT 0,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL, -- Cost calculation and call type of the usage line
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  usage_record_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT usage_record_retry_queue_request_call_key UNIQUE (request_id, call_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_record_retry_queue_due
+  ON usage_record_retry_queue(next_attempt_at)
+  WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_usage_record_retry_queue_updated_at ON usage_record_retry_queue;
+CREATE TRIGGER update_usage_record_retry_queue_updated_at
+  BEFORE UPDATE ON usage_record_retry_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. RECONCILIATION FINDINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS billing_reconciliation_findings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('orphaned_transaction', 'orphaned_usage_record', 'balance_mismatch', 'stale_hold')),
+  fingerprint TEXT NOT NULL, -- kind:subject, one open finding per subject
+  user_id TEXT NOT NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  usage_record_id UUID REFERENCES usage_records(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 6) NOT NULL, -- Charge, usage cost or balance difference
+  currency TEXT NOT NULL DEFAULT 'USD',
+  details JSONB,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolution TEXT, -- What closed the finding
+  adjustment_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  resolved_by TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_reconciliation_findings_open
+  ON billing_reconciliation_findings(fingerprint)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_billing_reconciliation_findings_status
+  ON billing_reconciliation_findings(status, detected_at DESC);
+
+-- ============================================================================
+-- 3. DETECTION FUNCTIONS
+-- ============================================================================
+
+-- Charged usage transactions with no linked usage record
+-- Pending holds and refunded (failed) holds are skipped; only transactions
+-- older than p_before are checked so in-flight turns are not reported
+CREATE OR REPLACE FUNCTION find_orphaned_usage_transactions(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  user_id TEXT,
+  amount DECIMAL,
+  currency TEXT,
+  request_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.id, t.user_id, t.amount, t.currency, t.metadata->>'request_id', t.created_at
+  FROM transactions t
+  WHERE t.type = 'usage'
+    AND t.amount > 0
+    AND t.created_at < p_before
+    AND COALESCE(t.metadata->>'status', 'completed') = 'completed'
+    AND NOT EXISTS (
+      SELECT 1 FROM usage_records u WHERE u.transaction_id = t.id
+    )
+  ORDER BY t.created_at
+  LIMIT p_limit;
+$$;
+
+-- Charged usage records that are not linked to any transaction
+CREATE OR REPLACE FUNCTION find_orphaned_usage_records(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  usage_record_id UUID,
+  user_id TEXT,
+  chat_id TEXT,
+  request_id TEXT,
+  provider_id TEXT,
+  model_id TEXT,
+  total_cost DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT u.id, u.user_id, u.chat_id, u.request_id, u.provider_id, u.model_id, u.total_cost, u.created_at
+  FROM usage_records u
+  WHERE u.status = 'completed'
+    AND u.total_cost > 0
+    AND u.transaction_id IS NULL
+    AND u.created_at < p_before
+  ORDER BY u.created_at
+  LIMIT p_limit;
+$$;
+
+-- Balances that differ from the sum of their transactions by more than
+-- p_tolerance. Each transaction moves the balance by its amount in the
+-- direction of balance_before -> balance_after. Balances changed after
+-- p_before are skipped so in-flight writes are not reported.
+CREATE OR REPLACE FUNCTION find_balance_mismatches(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_tolerance DECIMAL DEFAULT 0.005,
+  p_user_id TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  user_id TEXT,
+  balance DECIMAL,
+  ledger_balance DECIMAL,
+  difference DECIMAL,
+  currency TEXT,
+  transaction_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    b.user_id,
+    b.balance,
+    COALESCE(l.total, 0),
+    b.balance - COALESCE(l.total, 0),
+    b.currency,
+    COALESCE(l.count, 0)
+  FROM user_balances b
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(CASE WHEN t.balance_after < t.balance_before THEN -t.amount ELSE t.amount END) AS total,
+      COUNT(*) AS count
+    FROM transactions t
+    WHERE t.user_id = b.user_id
+  ) l ON TRUE
+  WHERE (p_user_id IS NULL OR b.user_id = p_user_id)
+    AND (p_user_id IS NOT NULL OR b.updated_at < p_before)
+    AND ABS(b.balance - COALESCE(l.total, 0)) > p_tolerance
+  ORDER BY ABS(b.balance - COALESCE(l.total, 0)) DESC
+  LIMIT p_limit;
+$$;
+
+-- Usage holds still pending long after their turn: the settle failed or the
+-- turn was cut off before it ran. usage_cost is the cost of the usage records
+-- linked to the hold, NULL when the turn recorded none
+CREATE OR REPLACE FUNCTION find_stale_holds(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  user_id TEXT,
+  amount DECIMAL,
+  currency TEXT,
+  request_id TEXT,
+  usage_cost DECIMAL,
+  usage_record_count BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.id, t.user_id, t.amount, t.currency, t.metadata->>'request_id', u.cost, COALESCE(u.count, 0), t.created_at
+  FROM transactions t
+  LEFT JOIN LATERAL (
+    SELECT SUM(r.total_cost) AS cost, COUNT(*) AS count
+    FROM usage_records r
+    WHERE r.transaction_id = t.id
+      AND r.status = 'completed'
+  ) u ON TRUE
+  WHERE t.type = 'usage'
+    AND t.metadata->>'status' = 'pending'
+    AND t.created_at < p_before
+  ORDER BY t.created_at
+  LIMIT p_limit;
+$$;
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY AND PERMISSIONS
+-- ============================================================================
+
+ALTER TABLE usage_record_retry_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_reconciliation_findings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage usage record retry queue"
+  ON usage_record_retry_queue FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage reconciliation findings"
+  ON billing_reconciliation_findings FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION find_orphaned_usage_transactions(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION find_orphaned_usage_records(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION find_balance_mismatches(TIMESTAMP WITH TIME ZONE, DECIMAL, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION find_stale_holds(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON TABLE usage_record_retry_queue IS 'Usage lines whose usage record could not be written after the charge; retried by the reconciliation job';
+COMMENT ON TABLE billing_reconciliation_findings IS 'Billing discrepancies found by the reconciliation job, resolved by admins with a corrective adjustment or dismissed';
+COMMENT ON COLUMN billing_reconciliation_findings.amount IS 'orphaned_transaction: amount charged; orphaned_usage_record: cost not charged; balance_mismatch: balance minus sum of transactions; stale_hold: amount held';
+COMMENT ON FUNCTION find_orphaned_usage_transactions IS 'Completed usage transactions older than p_before with no linked usage record';
+COMMENT ON FUNCTION find_orphaned_usage_records IS 'Completed, non-zero usage records older than p_before with no transaction';
+COMMENT ON FUNCTION find_balance_mismatches IS 'Balances that differ from the signed sum of their transactions by more than p_tolerance';
+COMMENT ON FUNCTION find_stale_holds IS 'Usage holds created before p_before that are still pending, with the cost of their usage records';
@@ -0,0 +1,38 @@
+-- ============================================================================
+-- EXCHANGE RATES
+-- ============================================================================
+-- Deposits can be paid in any supported currency. They are converted into the
+-- user's balance currency at the rate current when the payment was created,
+-- and the deposit limits apply to the USD equivalent. The rate used is stored
+-- in the deposit transaction's metadata (exchangeRate, exchangeRateSource,
+-- exchangeRateAt, depositAmount, depositCurrency).
+--
+-- Rates come from a static file, an HTTP feed, or this table of rates entered
+-- by admins (EXCHANGE_RATE_SOURCE=database).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency TEXT PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'USD'),
+  rate_per_usd DECIMAL(20, 8) NOT NULL CHECK (rate_per_usd > 0), -- Units of currency per 1 USD
+  updated_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON exchange_rates;
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage exchange rates"
+  ON exchange_rates FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE exchange_rates IS 'Exchange rates entered by admins, used for deposits when EXCHANGE_RATE_SOURCE=database. USD is the base currency';
+COMMENT ON COLUMN exchange_rates.rate_per_usd IS 'Units of the currency per 1 USD';
@@ -0,0 +1,300 @@
+-- ============================================================================
+-- ORGANIZATION WORKSPACES WITH A SHARED WALLET
+-- ============================================================================
+-- Organizations have members with a role (owner, admin, member) and one
+-- shared balance. The wallet is a user_balances row whose user_id is the
+-- organization id and whose owner_type is 'organization', so the existing
+-- balance functions (reserve, settle, refund, increment) work on it as is.
+--
+-- user_balances.user_id and transactions.user_id are the owner of the wallet:
+-- a user or an organization (owner_type). usage_records.user_id stays the
+-- user who made the call; owner_type/owner_id is the wallet that paid for it.
+-- Owners can cap each member's monthly spend from the organization wallet.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ORGANIZATIONS AND MEMBERS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  email TEXT, -- Email when the member was added, for display
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  monthly_spending_limit DECIMAL(10, 2) CHECK (monthly_spending_limit > 0), -- NULL = no cap
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+DROP TRIGGER IF EXISTS update_organizations_updated_at ON organizations;
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_organization_members_updated_at ON organization_members;
+CREATE TRIGGER update_organization_members_updated_at
+  BEFORE UPDATE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. WALLET OWNERS
+-- ============================================================================
+
+ALTER TABLE user_balances
+  ADD COLUMN IF NOT EXISTS owner_type TEXT NOT NULL DEFAULT 'user' CHECK (owner_type IN ('user', 'organization'));
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS owner_type TEXT NOT NULL DEFAULT 'user' CHECK (owner_type IN ('user', 'organization'));
+
+ALTER TABLE usage_records
+  ADD COLUMN IF NOT EXISTS owner_type TEXT NOT NULL DEFAULT 'user' CHECK (owner_type IN ('user', 'organization')),
+  ADD COLUMN IF NOT EXISTS owner_id TEXT;
+
+-- Existing usage was paid from the user's own balance
+UPDATE usage_records SET owner_id = user_id WHERE owner_id IS NULL;
+
+ALTER TABLE usage_records ALTER COLUMN owner_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_usage_records_owner_id_created_at ON usage_records(owner_id, created_at DESC);
+
+-- Transactions are written by several functions; take the owner type from
+-- the wallet so each of them does not have to pass it
+CREATE OR REPLACE FUNCTION set_transaction_owner_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT owner_type INTO NEW.owner_type
+  FROM user_balances
+  WHERE user_id = NEW.user_id;
+
+  NEW.owner_type := COALESCE(NEW.owner_type, 'user');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_transactions_owner_type ON transactions;
+CREATE TRIGGER set_transactions_owner_type
+  BEFORE INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_transaction_owner_type();
+
+-- ============================================================================
+-- 3. ORGANIZATION FUNCTIONS
+-- ============================================================================
+
+-- Create an organization with its first owner and an empty wallet
+CREATE OR REPLACE FUNCTION create_organization(
+  p_name TEXT,
+  p_owner_id TEXT,
+  p_owner_email TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD'
+)
+RETURNS SETOF organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_organization organizations;
+BEGIN
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(p_name), p_owner_id)
+  RETURNING * INTO v_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (v_organization.id, p_owner_id, p_owner_email, 'owner');
+
+  INSERT INTO user_balances (user_id, balance, currency, owner_type)
+  VALUES (v_organization.id::text, 0, p_currency, 'organization');
+
+  RETURN NEXT v_organization;
+END;
+$$;
+
+-- Look up a user by email so owners can add members
+CREATE OR REPLACE FUNCTION get_user_id_by_email(
+  p_email TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT id::text
+  FROM auth.users
+  WHERE lower(email) = lower(trim(p_email))
+  LIMIT 1;
+$$;
+
+-- Billed spend from an organization wallet per member since p_since
+CREATE OR REPLACE FUNCTION get_organization_member_usage(
+  p_organization_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  user_id TEXT,
+  total_cost DECIMAL,
+  request_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    u.user_id,
+    COALESCE(SUM(u.total_cost), 0),
+    COUNT(DISTINCT COALESCE(u.request_id, u.id::text))
+  FROM usage_records u
+  WHERE u.owner_id = p_organization_id::text
+    AND u.created_at >= p_since
+    AND COALESCE(u.status, 'completed') NOT IN ('failed', 'refunded')
+  GROUP BY u.user_id;
+$$;
+
+-- ============================================================================
+-- 4. EXISTING FUNCTIONS
+-- ============================================================================
+
+-- Personal spending limits only count spend from the user's own balance
+CREATE OR REPLACE FUNCTION get_spending_totals(
+  p_user_id TEXT,
+  p_day_start TIMESTAMP WITH TIME ZONE,
+  p_month_start TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  daily_spend DECIMAL,
+  monthly_spend DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    COALESCE(SUM(total_cost) FILTER (WHERE created_at >= p_day_start), 0) AS daily_spend,
+    COALESCE(SUM(total_cost), 0) AS monthly_spend
+  FROM usage_records
+  WHERE owner_id = p_user_id
+    AND created_at >= LEAST(p_day_start, p_month_start)
+    AND COALESCE(status, 'completed') NOT IN ('failed', 'refunded');
+$$;
+
+-- Unbilled usage is charged to the wallet that should have paid for it, so
+-- user_id is the wallet owner
+CREATE OR REPLACE FUNCTION find_orphaned_usage_records(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  usage_record_id UUID,
+  user_id TEXT,
+  chat_id TEXT,
+  request_id TEXT,
+  provider_id TEXT,
+  model_id TEXT,
+  total_cost DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT u.id, u.owner_id, u.chat_id, u.request_id, u.provider_id, u.model_id, u.total_cost, u.created_at
+  FROM usage_records u
+  WHERE u.status = 'completed'
+    AND u.total_cost > 0
+    AND u.transaction_id IS NULL
+    AND u.created_at < p_before
+  ORDER BY u.created_at
+  LIMIT p_limit;
+$$;
+
+-- ============================================================================
+-- 5. ROW LEVEL SECURITY AND PERMISSIONS
+-- ============================================================================
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organizations"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.organization_id = organizations.id
+        AND m.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Service role can manage organizations"
+  ON organizations FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can read own memberships"
+  ON organization_members FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage organization members"
+  ON organization_members FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Members can read organization balances"
+  ON user_balances FOR SELECT
+  TO authenticated
+  USING (
+    owner_type = 'organization'
+    AND EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.organization_id::text = user_balances.user_id
+        AND m.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Organization admins can read organization transactions"
+  ON transactions FOR SELECT
+  TO authenticated
+  USING (
+    owner_type = 'organization'
+    AND EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.organization_id::text = transactions.user_id
+        AND m.user_id = auth.uid()::text
+        AND m.role IN ('owner', 'admin')
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION create_organization(TEXT, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_user_id_by_email(TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION get_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_member_usage(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON TABLE organizations IS 'Organization workspaces; each has a shared wallet in user_balances keyed by the organization id';
+COMMENT ON TABLE organization_members IS 'Members of an organization and their role: owner (billing and members), admin (members and deposits), member (usage)';
+COMMENT ON COLUMN organization_members.monthly_spending_limit IS 'Most the member can spend from the organization wallet per UTC calendar month; NULL = no cap';
+COMMENT ON COLUMN user_balances.owner_type IS 'user: user_id is a user; organization: user_id is an organization id (shared wallet)';
+COMMENT ON COLUMN transactions.owner_type IS 'Owner type of the wallet in user_id, copied from user_balances on insert';
+COMMENT ON COLUMN usage_records.owner_id IS 'Wallet charged for the call: the user (owner_type user) or an organization id (owner_type organization)';
+COMMENT ON FUNCTION create_organization IS 'Creates an organization with its first owner and an empty shared wallet';
+COMMENT ON FUNCTION get_user_id_by_email IS 'User id for an email address, for adding organization members. Service role only';
+COMMENT ON FUNCTION get_spending_totals IS 'Billed usage from the user''s own balance since the given day and month starts, excluding failed and refunded usage';
+COMMENT ON FUNCTION get_organization_member_usage IS 'Billed spend and request count per member from an organization wallet since p_since';
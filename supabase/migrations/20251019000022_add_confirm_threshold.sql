@@ -0,0 +1,13 @@
+-- ============================================================================
+-- PRE-SEND CONFIRMATION THRESHOLD
+-- ============================================================================
+-- The chat panel shows an estimate of the next request's cost before it is
+-- sent. Users can set an amount above which they must confirm the request.
+-- Unlike the caps on the same row, it never refuses a request.
+-- ============================================================================
+
+ALTER TABLE user_spending_limits
+ADD COLUMN IF NOT EXISTS confirm_threshold DECIMAL(10, 2)
+CHECK (confirm_threshold > 0); -- NULL = never ask
+
+COMMENT ON COLUMN user_spending_limits.confirm_threshold IS 'Estimated request cost above which the chat asks for confirmation before sending; NULL = never ask';
@@ -0,0 +1,107 @@
+-- ============================================================================
+-- ADMIN REFUND AND BALANCE ADJUSTMENT CONSOLE
+-- ============================================================================
+-- Admins search users, review their ledger, refund deposits through Stripe
+-- (in full or in part) and post manual adjustment or refund transactions.
+-- Every action, with its reason, is written to admin_audit_log.
+--
+-- A deposit can be refunded several times, so refund transactions are keyed
+-- by the Stripe refund id rather than the payment intent, whose unique
+-- constraint belongs to the deposit.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. STRIPE REFUNDS IN THE LEDGER
+-- ============================================================================
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS stripe_refund_id TEXT;
+
+ALTER TABLE transactions
+DROP CONSTRAINT IF EXISTS transactions_stripe_refund_id_unique;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_stripe_refund_id_unique UNIQUE (stripe_refund_id);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_stripe_charge ON transactions(stripe_charge_id) WHERE stripe_charge_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. AUDIT TRAIL
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id TEXT NOT NULL,
+  admin_email TEXT,
+  action TEXT NOT NULL CHECK (action IN ('stripe_refund', 'balance_adjustment', 'manual_refund')),
+  target_user_id TEXT NOT NULL, -- Wallet acted on: a user or an organization id
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL, -- Ledger entry written, if any
+  amount DECIMAL(10, 2),
+  currency TEXT,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  outcome TEXT NOT NULL CHECK (outcome IN ('succeeded', 'failed')),
+  details JSONB, -- Stripe ids, error message
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+
+-- ============================================================================
+-- 3. ACCOUNT SEARCH
+-- ============================================================================
+
+-- Users by email or id and organizations by name or id, with their wallet
+CREATE OR REPLACE FUNCTION search_billing_accounts(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  user_id TEXT,
+  owner_type TEXT,
+  label TEXT,
+  balance DECIMAL,
+  currency TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT * FROM (
+    SELECT u.id::text, 'user', u.email::text, b.balance, b.currency, u.created_at
+    FROM auth.users u
+    LEFT JOIN user_balances b ON b.user_id = u.id::text
+    WHERE u.email ILIKE '%' || trim(p_query) || '%'
+      OR u.id::text = trim(p_query)
+    UNION ALL
+    SELECT o.id::text, 'organization', o.name, b.balance, b.currency, o.created_at
+    FROM organizations o
+    LEFT JOIN user_balances b ON b.user_id = o.id::text
+    WHERE o.name ILIKE '%' || trim(p_query) || '%'
+      OR o.id::text = trim(p_query)
+  ) accounts
+  ORDER BY created_at DESC
+  LIMIT p_limit;
+$$;
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY AND PERMISSIONS
+-- ============================================================================
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage admin audit log"
+  ON admin_audit_log FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION search_billing_accounts(TEXT, INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION search_billing_accounts(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Add comment for documentation
+COMMENT ON TABLE admin_audit_log IS 'Refunds and balance changes made by admins, with the reason given and whether they succeeded';
+COMMENT ON COLUMN transactions.stripe_refund_id IS 'Stripe Refund ID for refund transactions; a deposit can have several';
+COMMENT ON FUNCTION search_billing_accounts IS 'Users by email or id and organizations by name or id, with their balance. Service role only';
@@ -0,0 +1,129 @@
+-- ============================================================================
+-- PRICING HISTORY FOR CATALOG IMPORTS
+-- ============================================================================
+-- Admins can import a pricing catalog file. Imported prices are recorded in
+-- model_pricing_history like any other change, with:
+--   changed_by    = verification_metadata->>'changed_by' (e.g. 'admin:user@example.com')
+--   change_source = verified_source (e.g. 'catalog-import')
+--   change_reason = verification_metadata->>'change_reason'
+-- Models added by an import or sync get a first history entry, whose old
+-- prices are NULL.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION log_pricing_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- First entry for a new model
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO model_pricing_history (
+      model_id,
+      provider_id,
+      new_input_price,
+      new_output_price,
+      changed_by,
+      change_source,
+      change_reason,
+      metadata
+    )
+    VALUES (
+      NEW.model_id,
+      NEW.provider_id,
+      NEW.input_price_per_1k_tokens,
+      NEW.output_price_per_1k_tokens,
+      COALESCE(NEW.verification_metadata->>'changed_by', NEW.verified_source, 'unknown'),
+      NEW.verified_source,
+      NEW.verification_metadata->>'change_reason',
+      COALESCE(NEW.verification_metadata, '{}'::jsonb) || jsonb_build_object(
+        'token_class_prices', jsonb_build_object(
+          'new', jsonb_build_object(
+            'cached_input', NEW.cached_input_price_per_1k_tokens,
+            'cache_write', NEW.cache_write_price_per_1k_tokens,
+            'reasoning', NEW.reasoning_price_per_1k_tokens,
+            'image_input', NEW.image_input_price_per_1k_tokens
+          )
+        ),
+        'pricing_tiers', jsonb_build_object(
+          'new', NEW.pricing_tiers
+        )
+      )
+    );
+
+    RETURN NEW;
+  END IF;
+
+  -- Only log if pricing actually changed
+  IF (OLD.input_price_per_1k_tokens != NEW.input_price_per_1k_tokens) OR
+     (OLD.output_price_per_1k_tokens != NEW.output_price_per_1k_tokens) OR
+     (OLD.cached_input_price_per_1k_tokens IS DISTINCT FROM NEW.cached_input_price_per_1k_tokens) OR
+     (OLD.cache_write_price_per_1k_tokens IS DISTINCT FROM NEW.cache_write_price_per_1k_tokens) OR
+     (OLD.reasoning_price_per_1k_tokens IS DISTINCT FROM NEW.reasoning_price_per_1k_tokens) OR
+     (OLD.image_input_price_per_1k_tokens IS DISTINCT FROM NEW.image_input_price_per_1k_tokens) OR
+     (OLD.pricing_tiers IS DISTINCT FROM NEW.pricing_tiers) THEN
+
+    INSERT INTO model_pricing_history (
+      model_id,
+      provider_id,
+      old_input_price,
+      old_output_price,
+      new_input_price,
+      new_output_price,
+      change_percent_input,
+      change_percent_output,
+      changed_by,
+      change_source,
+      change_reason,
+      metadata
+    )
+    VALUES (
+      NEW.model_id,
+      NEW.provider_id,
+      OLD.input_price_per_1k_tokens,
+      OLD.output_price_per_1k_tokens,
+      NEW.input_price_per_1k_tokens,
+      NEW.output_price_per_1k_tokens,
+      -- Calculate percentage change (handle division by zero)
+      CASE
+        WHEN OLD.input_price_per_1k_tokens > 0 THEN
+          ROUND(((NEW.input_price_per_1k_tokens - OLD.input_price_per_1k_tokens) / OLD.input_price_per_1k_tokens * 100)::numeric, 2)
+        ELSE NULL
+      END,
+      CASE
+        WHEN OLD.output_price_per_1k_tokens > 0 THEN
+          ROUND(((NEW.output_price_per_1k_tokens - OLD.output_price_per_1k_tokens) / OLD.output_price_per_1k_tokens * 100)::numeric, 2)
+        ELSE NULL
+      END,
+      COALESCE(NEW.verification_metadata->>'changed_by', NEW.verified_source, 'unknown'),
+      NEW.verified_source,
+      NEW.verification_metadata->>'change_reason',
+      COALESCE(NEW.verification_metadata, '{}'::jsonb) || jsonb_build_object(
+        'token_class_prices', jsonb_build_object(
+          'old', jsonb_build_object(
+            'cached_input', OLD.cached_input_price_per_1k_tokens,
+            'cache_write', OLD.cache_write_price_per_1k_tokens,
+            'reasoning', OLD.reasoning_price_per_1k_tokens,
+            'image_input', OLD.image_input_price_per_1k_tokens
+          ),
+          'new', jsonb_build_object(
+            'cached_input', NEW.cached_input_price_per_1k_tokens,
+            'cache_write', NEW.cache_write_price_per_1k_tokens,
+            'reasoning', NEW.reasoning_price_per_1k_tokens,
+            'image_input', NEW.image_input_price_per_1k_tokens
+          )
+        ),
+        'pricing_tiers', jsonb_build_object(
+          'old', OLD.pricing_tiers,
+          'new', NEW.pricing_tiers
+        )
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_log_pricing_change ON model_pricing;
+CREATE TRIGGER trigger_log_pricing_change
+  AFTER INSERT OR UPDATE ON model_pricing
+  FOR EACH ROW
+  EXECUTE FUNCTION log_pricing_change();
@@ -0,0 +1,52 @@
+-- ============================================================================
+-- PRICING CHANGE APPROVAL QUEUE
+-- ============================================================================
+-- The pricing sync applies small changes automatically. New models and
+-- changes that need review (large jumps, validation warnings) are queued
+-- here for an admin to approve, edit or reject on /admin/pricing.
+--
+-- A model has at most one pending change; a later sync supersedes it with
+-- what the provider reports then, or when the change no longer needs review.
+-- Approved prices are applied with the approver recorded in
+-- model_pricing_history.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pending_pricing_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_id TEXT NOT NULL,
+  provider_id TEXT NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('new', 'updated')),
+  old_pricing JSONB, -- Current pricing; NULL for new models
+  new_pricing JSONB NOT NULL, -- Pricing reported by the provider
+  change_percent_input DECIMAL(10, 2),
+  change_percent_output DECIMAL(10, 2),
+  validation_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  validation_warnings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source TEXT NOT NULL, -- 'auto-sync', 'admin-api'
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+  applied_pricing JSONB, -- Pricing applied on approval, including admin edits
+  reviewed_by TEXT,
+  review_note TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_pricing_changes_model ON pending_pricing_changes(provider_id, model_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_pending_pricing_changes_status ON pending_pricing_changes(status, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_pending_pricing_changes_updated_at ON pending_pricing_changes;
+CREATE TRIGGER update_pending_pricing_changes_updated_at
+  BEFORE UPDATE ON pending_pricing_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pending_pricing_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage pending pricing changes"
+  ON pending_pricing_changes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE pending_pricing_changes IS 'Pricing changes found by the sync that wait for an admin to approve, edit or reject them';
@@ -0,0 +1,189 @@
+-- ============================================================================
+-- FUTURE-DATED MODEL PRICING
+-- ============================================================================
+-- model_pricing keeps one current row per model. Every price a model has had
+-- or will have is kept in model_pricing_versions with the time it takes
+-- effect, so:
+--   - admins (or the sync, from a provider's announcement) can schedule a
+--     price ahead of time, optionally with an expiry for temporary prices
+--   - usage is priced with the version in effect when the request was made
+--   - each usage record stores the version it was billed with
+--
+-- The version in effect at a time is the latest one whose effective_from is
+-- at or before it and that has not expired. Changes to model_pricing add a
+-- version effective immediately; the pricing-schedule cron copies versions
+-- that took effect into model_pricing.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS model_pricing_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_id TEXT NOT NULL,
+  provider_id TEXT NOT NULL,
+  input_price_per_1k_tokens DECIMAL(10, 6) NOT NULL,
+  output_price_per_1k_tokens DECIMAL(10, 6) NOT NULL,
+  cached_input_price_per_1k_tokens DECIMAL(10, 6),
+  cache_write_price_per_1k_tokens DECIMAL(10, 6),
+  reasoning_price_per_1k_tokens DECIMAL(10, 6),
+  image_input_price_per_1k_tokens DECIMAL(10, 6),
+  pricing_tiers JSONB,
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  effective_until TIMESTAMP WITH TIME ZONE, -- NULL: until replaced by a later version
+  source TEXT NOT NULL DEFAULT 'manual', -- 'auto-sync', 'pricing-schedule', 'catalog-import', ...
+  created_by TEXT, -- e.g. 'admin:user@example.com'
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT model_pricing_versions_effective_key UNIQUE (model_id, provider_id, effective_from),
+  CONSTRAINT model_pricing_versions_period_check CHECK (effective_until IS NULL OR effective_until > effective_from),
+  CONSTRAINT model_pricing_versions_tiers_is_array CHECK (pricing_tiers IS NULL OR jsonb_typeof(pricing_tiers) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_pricing_versions_model ON model_pricing_versions(provider_id, model_id, effective_from DESC);
+CREATE INDEX IF NOT EXISTS idx_model_pricing_versions_effective_from ON model_pricing_versions(effective_from);
+
+ALTER TABLE model_pricing_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read model pricing versions"
+  ON model_pricing_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage model pricing versions"
+  ON model_pricing_versions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Current prices become the first version of each model
+INSERT INTO model_pricing_versions (
+  model_id,
+  provider_id,
+  input_price_per_1k_tokens,
+  output_price_per_1k_tokens,
+  cached_input_price_per_1k_tokens,
+  cache_write_price_per_1k_tokens,
+  reasoning_price_per_1k_tokens,
+  image_input_price_per_1k_tokens,
+  pricing_tiers,
+  effective_from,
+  source
+)
+SELECT
+  model_id,
+  provider_id,
+  input_price_per_1k_tokens,
+  output_price_per_1k_tokens,
+  cached_input_price_per_1k_tokens,
+  cache_write_price_per_1k_tokens,
+  reasoning_price_per_1k_tokens,
+  image_input_price_per_1k_tokens,
+  pricing_tiers,
+  COALESCE(updated_at, created_at, NOW()),
+  'backfill'
+FROM model_pricing
+ON CONFLICT (model_id, provider_id, effective_from) DO NOTHING;
+
+-- Record a version effective immediately when model_pricing changes
+-- Skipped when the version in effect already has these prices, e.g. when
+-- the cron copies a scheduled version into model_pricing
+CREATE OR REPLACE FUNCTION record_pricing_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_version model_pricing_versions%ROWTYPE;
+  row_data JSONB := to_jsonb(NEW);
+BEGIN
+  IF TG_OP = 'UPDATE' AND
+     OLD.input_price_per_1k_tokens = NEW.input_price_per_1k_tokens AND
+     OLD.output_price_per_1k_tokens = NEW.output_price_per_1k_tokens AND
+     OLD.cached_input_price_per_1k_tokens IS NOT DISTINCT FROM NEW.cached_input_price_per_1k_tokens AND
+     OLD.cache_write_price_per_1k_tokens IS NOT DISTINCT FROM NEW.cache_write_price_per_1k_tokens AND
+     OLD.reasoning_price_per_1k_tokens IS NOT DISTINCT FROM NEW.reasoning_price_per_1k_tokens AND
+     OLD.image_input_price_per_1k_tokens IS NOT DISTINCT FROM NEW.image_input_price_per_1k_tokens AND
+     OLD.pricing_tiers IS NOT DISTINCT FROM NEW.pricing_tiers THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO current_version
+  FROM model_pricing_versions
+  WHERE model_id = NEW.model_id
+    AND provider_id = NEW.provider_id
+    AND effective_from <= NOW()
+    AND (effective_until IS NULL OR effective_until > NOW())
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  IF FOUND AND
+     current_version.input_price_per_1k_tokens = NEW.input_price_per_1k_tokens AND
+     current_version.output_price_per_1k_tokens = NEW.output_price_per_1k_tokens AND
+     current_version.cached_input_price_per_1k_tokens IS NOT DISTINCT FROM NEW.cached_input_price_per_1k_tokens AND
+     current_version.cache_write_price_per_1k_tokens IS NOT DISTINCT FROM NEW.cache_write_price_per_1k_tokens AND
+     current_version.reasoning_price_per_1k_tokens IS NOT DISTINCT FROM NEW.reasoning_price_per_1k_tokens AND
+     current_version.image_input_price_per_1k_tokens IS NOT DISTINCT FROM NEW.image_input_price_per_1k_tokens AND
+     current_version.pricing_tiers IS NOT DISTINCT FROM NEW.pricing_tiers THEN
+    RETURN NEW;
+  END IF;
+
+  -- verified_source and verification_metadata are read from the row JSON as
+  -- fresh deployments of schema.sql don't have them
+  INSERT INTO model_pricing_versions (
+    model_id,
+    provider_id,
+    input_price_per_1k_tokens,
+    output_price_per_1k_tokens,
+    cached_input_price_per_1k_tokens,
+    cache_write_price_per_1k_tokens,
+    reasoning_price_per_1k_tokens,
+    image_input_price_per_1k_tokens,
+    pricing_tiers,
+    effective_from,
+    source,
+    created_by,
+    note
+  )
+  VALUES (
+    NEW.model_id,
+    NEW.provider_id,
+    NEW.input_price_per_1k_tokens,
+    NEW.output_price_per_1k_tokens,
+    NEW.cached_input_price_per_1k_tokens,
+    NEW.cache_write_price_per_1k_tokens,
+    NEW.reasoning_price_per_1k_tokens,
+    NEW.image_input_price_per_1k_tokens,
+    NEW.pricing_tiers,
+    NOW(),
+    COALESCE(row_data->>'verified_source', 'manual'),
+    row_data->'verification_metadata'->>'changed_by',
+    row_data->'verification_metadata'->>'change_reason'
+  )
+  ON CONFLICT (model_id, provider_id, effective_from) DO UPDATE SET
+    input_price_per_1k_tokens = EXCLUDED.input_price_per_1k_tokens,
+    output_price_per_1k_tokens = EXCLUDED.output_price_per_1k_tokens,
+    cached_input_price_per_1k_tokens = EXCLUDED.cached_input_price_per_1k_tokens,
+    cache_write_price_per_1k_tokens = EXCLUDED.cache_write_price_per_1k_tokens,
+    reasoning_price_per_1k_tokens = EXCLUDED.reasoning_price_per_1k_tokens,
+    image_input_price_per_1k_tokens = EXCLUDED.image_input_price_per_1k_tokens,
+    pricing_tiers = EXCLUDED.pricing_tiers,
+    source = EXCLUDED.source,
+    created_by = EXCLUDED.created_by,
+    note = EXCLUDED.note;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_record_pricing_version ON model_pricing;
+CREATE TRIGGER trigger_record_pricing_version
+  AFTER INSERT OR UPDATE ON model_pricing
+  FOR EACH ROW
+  EXECUTE FUNCTION record_pricing_version();
+
+-- Pricing version each usage line was billed with
+ALTER TABLE usage_records
+ADD COLUMN IF NOT EXISTS pricing_version_id UUID REFERENCES model_pricing_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_usage_records_pricing_version_id
+ON usage_records(pricing_version_id) WHERE pricing_version_id IS NOT NULL;
+
+COMMENT ON TABLE model_pricing_versions IS 'Every price of each model with the period it applies to; includes prices scheduled to take effect in the future';
+COMMENT ON COLUMN model_pricing_versions.effective_from IS 'When the price takes effect; the latest version at or before a request time applies';
+COMMENT ON COLUMN model_pricing_versions.effective_until IS 'When a temporary price expires and the previous version applies again; NULL until replaced';
+COMMENT ON COLUMN usage_records.pricing_version_id IS 'model_pricing_versions row the usage was billed with; NULL for tool calls and prices from config';
@@ -0,0 +1,42 @@
+-- ============================================================================
+-- SYNC RUN TRACKING
+-- ============================================================================
+-- sync_logs rows were written once a sync finished. A pricing sync now adds
+-- its row when it starts, with status 'running', and sets 'succeeded' or
+-- 'failed' when it ends:
+--   started_at        when the run started
+--   finished_at       when it ended (NULL while running)
+--   lease_expires_at  when the run's lock lease expires; renewed as it
+--                     reports progress. A running row whose lease expired
+--                     belongs to a run that died and is marked failed
+--   progress          the run's current stage, e.g.
+--                     {"stage": "applying", "completed": 12, "total": 40}
+-- At most one run of each sync type can be running, which also guards
+-- against overlapping syncs when the Redis lock is unavailable.
+-- ============================================================================
+
+ALTER TABLE sync_logs
+  ADD COLUMN IF NOT EXISTS status TEXT
+    CHECK (status IN ('running', 'succeeded', 'failed')),
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS finished_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS progress JSONB;
+
+-- Existing rows were logged when their run finished
+UPDATE sync_logs
+SET
+  status = CASE WHEN success THEN 'succeeded' ELSE 'failed' END,
+  finished_at = created_at
+WHERE status IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_logs_one_running
+  ON sync_logs(sync_type)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_status
+  ON sync_logs(sync_type, status, created_at DESC);
+
+COMMENT ON COLUMN sync_logs.status IS 'running, succeeded or failed';
+COMMENT ON COLUMN sync_logs.lease_expires_at IS 'Expiry of a running sync''s lock lease; a running row past it is stale';
+COMMENT ON COLUMN sync_logs.progress IS 'Current stage of a running sync, e.g. {"stage": "applying", "completed": 12, "total": 40}';
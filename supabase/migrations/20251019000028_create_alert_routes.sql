@@ -0,0 +1,46 @@
+-- ============================================================================
+-- ALERT ROUTES
+-- ============================================================================
+-- Pricing and billing alerts are sent through channels configured in the
+-- environment: 'slack', 'email' (Resend or SMTP), 'webhook' and 'console'.
+-- Admins choose which channels each event type goes to:
+--   sync_result                 a pricing sync finished
+--   review_needed               sync changes are waiting for approval
+--   provider_failure            pricing providers could not be fetched
+--   reconciliation_discrepancy  billing reconciliation found discrepancies
+--   low_margin                  the platform margin fell below the minimum
+-- An event type without a row goes to every configured channel; a row with
+-- no channels turns its alerts off.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS alert_routes (
+  event_type TEXT PRIMARY KEY CHECK (event_type IN (
+    'sync_result',
+    'review_needed',
+    'provider_failure',
+    'reconciliation_discrepancy',
+    'low_margin'
+  )),
+  channels TEXT[] NOT NULL DEFAULT '{}',
+  updated_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_alert_routes_updated_at ON alert_routes;
+CREATE TRIGGER update_alert_routes_updated_at
+  BEFORE UPDATE ON alert_routes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE alert_routes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage alert routes"
+  ON alert_routes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE alert_routes IS 'Channels each alert event type is sent to; event types without a row go to every configured channel';
+COMMENT ON COLUMN alert_routes.channels IS 'Channel ids: slack, email, webhook, console. Empty turns the event''s alerts off';
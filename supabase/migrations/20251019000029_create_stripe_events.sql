@@ -0,0 +1,195 @@
+-- ============================================================================
+-- STRIPE EVENTS AND DISPUTES
+-- ============================================================================
+-- Every Stripe webhook event that passes signature verification is stored
+-- with its payload and processing status:
+--   processing  a delivery or replay is handling it now
+--   processed   its handler finished
+--   ignored     no handler for its type; kept for the record
+--   failed      its handler threw; error holds why. Stripe retries the
+--               delivery, and admins can replay it from /admin/stripe-events
+-- A delivery of an event that is already processed or ignored is skipped.
+--
+-- Disputed deposits are tracked in stripe_disputes. charge.dispute.created
+-- freezes the disputed share of the deposit's credit (as much as the wallet
+-- still holds) with an 'adjustment' transaction (freeze_dispute_funds);
+-- charge.dispute.closed releases it when the dispute is won and keeps it when
+-- it is lost.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY, -- Stripe event id (evt_...)
+  type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN (
+    'processing',
+    'processed',
+    'ignored',
+    'failed'
+  )),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  stripe_created_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  replayed_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status
+  ON stripe_events(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_type
+  ON stripe_events(type, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_stripe_events_updated_at ON stripe_events;
+CREATE TRIGGER update_stripe_events_updated_at
+  BEFORE UPDATE ON stripe_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS stripe_disputes (
+  id TEXT PRIMARY KEY, -- Stripe dispute id (dp_...)
+  charge_id TEXT NOT NULL,
+  payment_intent_id TEXT,
+  wallet_id TEXT, -- NULL when the charge was not a wallet deposit
+  dispute_amount INTEGER NOT NULL, -- Smallest unit of the payment currency
+  dispute_currency TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL DEFAULT 0, -- Disputed share of the credit, in the ledger currency
+  frozen_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'USD', -- Ledger currency of amount and frozen_amount
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'won', 'lost')),
+  stripe_status TEXT,
+  hold_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  release_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_disputes_wallet
+  ON stripe_disputes(wallet_id, opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_disputes_status
+  ON stripe_disputes(status, opened_at DESC);
+
+DROP TRIGGER IF EXISTS update_stripe_disputes_updated_at ON stripe_disputes;
+CREATE TRIGGER update_stripe_disputes_updated_at
+  BEFORE UPDATE ON stripe_disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Freeze the disputed share of a deposit: debit at most what the wallet still
+-- holds and log the hold, clamped under the balance row lock so concurrent
+-- spending cannot take the balance below zero. Each dispute is frozen once;
+-- freezing it again returns the existing hold
+CREATE OR REPLACE FUNCTION freeze_dispute_funds(
+  p_user_id TEXT,
+  p_dispute_id TEXT,
+  p_amount DECIMAL,
+  p_charge_id TEXT,
+  p_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  frozen_amount DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_balance DECIMAL;
+  v_currency TEXT;
+  v_frozen DECIMAL;
+  v_transaction_id UUID;
+BEGIN
+  SELECT balance, currency INTO v_balance, v_currency
+  FROM user_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User balance record not found for user_id: %', p_user_id;
+  END IF;
+
+  SELECT t.id, t.amount INTO v_transaction_id, v_frozen
+  FROM transactions t
+  WHERE t.metadata->>'disputeId' = p_dispute_id
+    AND t.metadata->>'disputeAction' = 'hold';
+
+  IF FOUND THEN
+    RETURN QUERY SELECT v_transaction_id, v_frozen;
+    RETURN;
+  END IF;
+
+  v_frozen := LEAST(p_amount, v_balance);
+
+  -- Nothing left to freeze: the deposit has already been spent
+  IF v_frozen <= 0 THEN
+    RETURN QUERY SELECT NULL::UUID, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  -- Allowance is spent first, as with any other debit
+  UPDATE user_balances
+  SET
+    balance = balance - v_frozen,
+    allowance_balance = allowance_balance - LEAST(allowance_balance, v_frozen),
+    updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    stripe_charge_id,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'adjustment',
+    v_frozen, -- Absolute, like every ledger row; balance_after gives the direction
+    v_currency,
+    v_balance,
+    v_balance - v_frozen,
+    'Dispute hold: ' || p_dispute_id,
+    p_charge_id,
+    COALESCE(p_metadata, '{}'::JSONB) || jsonb_build_object(
+      'disputeId', p_dispute_id,
+      'disputeAction', 'hold'
+    )
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT v_transaction_id, v_frozen;
+END;
+$$;
+
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage stripe events"
+  ON stripe_events FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage stripe disputes"
+  ON stripe_disputes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION freeze_dispute_funds(TEXT, TEXT, DECIMAL, TEXT, JSONB) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON TABLE stripe_events IS 'Verified Stripe webhook events with their processing status; failed events can be replayed';
+COMMENT ON COLUMN stripe_events.attempts IS 'Deliveries and replays that claimed the event for processing';
+COMMENT ON TABLE stripe_disputes IS 'Disputed wallet deposits and the balance frozen for them';
+COMMENT ON COLUMN stripe_disputes.frozen_amount IS 'Balance held for the dispute; less than amount when the wallet had already spent part of the deposit';
+COMMENT ON FUNCTION freeze_dispute_funds IS 'Debits the disputed share of a deposit, clamped to the balance, and logs the hold once per dispute';
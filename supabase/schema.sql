@@ -23,9 +23,84 @@ CREATE TABLE IF NOT EXISTS model_pricing (
   provider_id TEXT NOT NULL,
   input_price_per_1k_tokens DECIMAL(10, 6) NOT NULL,
   output_price_per_1k_tokens DECIMAL(10, 6) NOT NULL,
+  cached_input_price_per_1k_tokens DECIMAL(10, 6),
+  cache_write_price_per_1k_tokens DECIMAL(10, 6),
+  reasoning_price_per_1k_tokens DECIMAL(10, 6),
+  image_input_price_per_1k_tokens DECIMAL(10, 6),
+  pricing_tiers JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  UNIQUE(model_id, provider_id)
+  UNIQUE(model_id, provider_id),
+  CONSTRAINT model_pricing_tiers_is_array CHECK (pricing_tiers IS NULL OR jsonb_typeof(pricing_tiers) = 'array')
+);
+
+-- Model Pricing Versions Table
+-- Every price of each model with when it takes effect, including scheduled prices
+CREATE TABLE IF NOT EXISTS model_pricing_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_id TEXT NOT NULL,
+  provider_id TEXT NOT NULL,
+  input_price_per_1k_tokens DECIMAL(10, 6) NOT NULL,
+  output_price_per_1k_tokens DECIMAL(10, 6) NOT NULL,
+  cached_input_price_per_1k_tokens DECIMAL(10, 6),
+  cache_write_price_per_1k_tokens DECIMAL(10, 6),
+  reasoning_price_per_1k_tokens DECIMAL(10, 6),
+  image_input_price_per_1k_tokens DECIMAL(10, 6),
+  pricing_tiers JSONB,
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  effective_until TIMESTAMP WITH TIME ZONE, -- NULL: until replaced by a later version
+  source TEXT NOT NULL DEFAULT 'manual', -- 'auto-sync', 'pricing-schedule', 'catalog-import', ...
+  created_by TEXT, -- e.g. 'admin:user@example.com'
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT model_pricing_versions_effective_key UNIQUE (model_id, provider_id, effective_from),
+  CONSTRAINT model_pricing_versions_period_check CHECK (effective_until IS NULL OR effective_until > effective_from),
+  CONSTRAINT model_pricing_versions_tiers_is_array CHECK (pricing_tiers IS NULL OR jsonb_typeof(pricing_tiers) = 'array')
+);
+
+-- Tool Pricing Table
+-- Stores per-call prices for metered tools (search, retrieve, video search)
+CREATE TABLE IF NOT EXISTS tool_pricing (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tool_name TEXT NOT NULL CHECK (tool_name IN ('search', 'retrieve', 'video_search')),
+  provider TEXT NOT NULL,
+  search_depth TEXT NOT NULL DEFAULT 'basic' CHECK (search_depth IN ('basic', 'advanced')),
+  price_per_call DECIMAL(10, 6) NOT NULL CHECK (price_per_call >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(tool_name, provider, search_depth)
+);
+
+-- Pricing Plans Table
+-- User plans; markups and the minimum charge per request depend on the plan
+CREATE TABLE IF NOT EXISTS pricing_plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  min_charge_per_request DECIMAL(10, 6) NOT NULL DEFAULT 0 CHECK (min_charge_per_request >= 0),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Pricing Markup Rules Table
+-- Percentage or fixed markups over provider cost, scoped by plan, provider and model
+CREATE TABLE IF NOT EXISTS pricing_markup_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id TEXT REFERENCES pricing_plans(id) ON DELETE CASCADE,
+  provider_id TEXT,
+  model_id TEXT,
+  markup_type TEXT NOT NULL CHECK (markup_type IN ('percentage', 'fixed')),
+  markup_value DECIMAL(10, 6) NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT pricing_markup_rules_model_needs_provider CHECK (model_id IS NULL OR provider_id IS NOT NULL),
+  CONSTRAINT pricing_markup_rules_value_range CHECK (
+    (markup_type = 'percentage' AND markup_value >= -100) OR
+    (markup_type = 'fixed' AND markup_value >= 0)
+  )
 );
 
 -- Usage Records Table
@@ -42,20 +117,38 @@ CREATE TABLE IF NOT EXISTS usage_records (
   input_cost DECIMAL(10, 6) NOT NULL DEFAULT 0,
   output_cost DECIMAL(10, 6) NOT NULL DEFAULT 0,
   total_cost DECIMAL(10, 6) NOT NULL DEFAULT 0,
-  request_id TEXT UNIQUE,
+  request_id TEXT,
   transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
   status TEXT DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed', 'refunded')),
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  call_index INTEGER NOT NULL DEFAULT 0,
+  call_type TEXT NOT NULL DEFAULT 'response',
+  cached_input_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+  image_input_tokens INTEGER NOT NULL DEFAULT 0,
+  provider_cost DECIMAL(10, 6) NOT NULL DEFAULT 0,
+  plan_id TEXT,
+  owner_type TEXT NOT NULL DEFAULT 'user' CHECK (owner_type IN ('user', 'organization')),
+  owner_id TEXT NOT NULL, -- Wallet charged: the user or an organization id
+  pricing_version_id UUID REFERENCES model_pricing_versions(id) ON DELETE SET NULL, -- Pricing version the usage was billed with
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT usage_records_call_type_check CHECK (call_type IN ('response', 'tool_selection', 'related_questions', 'tool_call')),
+  CONSTRAINT usage_records_request_id_call_index_key UNIQUE (request_id, call_index)
 );
 
 -- User Balances Table
--- Stores current balance and currency preferences for each user
+-- Stores current balance and currency preferences for each user, and the
+-- shared wallet of each organization (user_id is the organization id)
 CREATE TABLE IF NOT EXISTS user_balances (
   user_id TEXT PRIMARY KEY,
   balance DECIMAL(10, 2) NOT NULL DEFAULT 0,
   currency TEXT NOT NULL DEFAULT 'USD',
   locale TEXT DEFAULT 'en-US',
   preferred_currency TEXT DEFAULT 'USD',
+  plan_id TEXT NOT NULL DEFAULT 'free' REFERENCES pricing_plans(id),
+  allowance_balance DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (allowance_balance >= 0),
+  allowance_expires_at TIMESTAMP WITH TIME ZONE,
+  owner_type TEXT NOT NULL DEFAULT 'user' CHECK (owner_type IN ('user', 'organization')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   CONSTRAINT valid_currency CHECK (
@@ -77,9 +170,275 @@ CREATE TABLE IF NOT EXISTS transactions (
   description TEXT,
   stripe_payment_intent_id TEXT,
   stripe_charge_id TEXT,
+  stripe_invoice_id TEXT,
+  stripe_refund_id TEXT,
   metadata JSONB,
+  owner_type TEXT NOT NULL DEFAULT 'user' CHECK (owner_type IN ('user', 'organization')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT transactions_stripe_payment_intent_id_unique UNIQUE (stripe_payment_intent_id),
+  CONSTRAINT transactions_stripe_invoice_id_unique UNIQUE (stripe_invoice_id),
+  CONSTRAINT transactions_stripe_refund_id_unique UNIQUE (stripe_refund_id)
+);
+
+-- Subscription Plans Table
+-- Recurring Stripe plans granting a monthly credit allowance
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  stripe_price_id TEXT UNIQUE, -- NULL = not purchasable yet
+  monthly_price DECIMAL(10, 2) NOT NULL DEFAULT 0, -- Display only; Stripe price is authoritative
+  monthly_allowance DECIMAL(10, 2) NOT NULL CHECK (monthly_allowance >= 0),
+  allowance_expires BOOLEAN NOT NULL DEFAULT true,
+  pricing_plan_id TEXT NOT NULL DEFAULT 'free' REFERENCES pricing_plans(id),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- User Subscriptions Table
+-- Stripe subscriptions of users, synced by the payments webhook
+CREATE TABLE IF NOT EXISTS user_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  subscription_plan_id TEXT NOT NULL REFERENCES subscription_plans(id),
+  stripe_subscription_id TEXT NOT NULL,
+  stripe_customer_id TEXT NOT NULL,
+  status TEXT NOT NULL, -- Stripe subscription status
+  current_period_start TIMESTAMP WITH TIME ZONE,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT user_subscriptions_stripe_subscription_id_unique UNIQUE (stripe_subscription_id)
+);
+
+-- Promo Codes Table
+-- Promo codes and credit vouchers created by admins
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)), -- Stored upper-case
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  max_redemptions INTEGER CHECK (max_redemptions > 0), -- NULL = unlimited
+  per_user_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_user_limit > 0),
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE, -- NULL = never expires
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Promo Code Redemptions Table
+-- One row per credited redemption; idempotent per user and idempotency key
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID NOT NULL REFERENCES promo_codes(id),
+  user_id TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  transaction_id UUID REFERENCES transactions(id), -- The adjustment that logged the credit
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT promo_code_redemptions_idempotency_unique UNIQUE (user_id, idempotency_key)
+);
+
+-- User Spending Limits Table
+-- Daily, monthly and per-request spending caps set by users
+CREATE TABLE IF NOT EXISTS user_spending_limits (
+  user_id TEXT PRIMARY KEY,
+  daily_limit DECIMAL(10, 2) CHECK (daily_limit > 0), -- NULL = no cap
+  monthly_limit DECIMAL(10, 2) CHECK (monthly_limit > 0), -- NULL = no cap
+  per_request_limit DECIMAL(10, 2) CHECK (per_request_limit > 0), -- NULL = no cap
+  confirm_threshold DECIMAL(10, 2) CHECK (confirm_threshold > 0), -- NULL = never ask
+  warning_threshold DECIMAL(3, 2) NOT NULL DEFAULT 0.80 CHECK (warning_threshold > 0 AND warning_threshold < 1),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Auto Recharge Settings Table
+-- Automatic top-up settings and the saved Stripe card charged off-session
+CREATE TABLE IF NOT EXISTS auto_recharge_settings (
+  user_id TEXT PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  threshold DECIMAL(10, 2) NOT NULL DEFAULT 5 CHECK (threshold >= 0),
+  amount DECIMAL(10, 2) NOT NULL DEFAULT 20 CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  stripe_customer_id TEXT,
+  stripe_payment_method_id TEXT, -- Saved card charged off-session
+  payment_method_label TEXT, -- e.g. "visa •••• 4242"
+  pending_since TIMESTAMP WITH TIME ZONE, -- Set while a charge is in flight
+  last_payment_intent_id TEXT,
+  last_failure_message TEXT, -- Why auto top-up was turned off
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Usage Record Retry Queue Table
+-- Usage lines whose usage record could not be written after the charge
+CREATE TABLE IF NOT EXISTS usage_record_retry_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  chat_id TEXT NOT NULL,
+  request_id TEXT NOT NULL,
+  call_index INTEGER NOT NULL DEFAULT 0,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL, -- Cost calculation and call type of the usage line
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  usage_record_id UUID,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  CONSTRAINT transactions_stripe_payment_intent_id_unique UNIQUE (stripe_payment_intent_id)
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT usage_record_retry_queue_request_call_key UNIQUE (request_id, call_index)
+);
+
+-- Billing Reconciliation Findings Table
+-- Discrepancies found by the reconciliation job
+CREATE TABLE IF NOT EXISTS billing_reconciliation_findings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('orphaned_transaction', 'orphaned_usage_record', 'balance_mismatch', 'stale_hold')),
+  fingerprint TEXT NOT NULL, -- kind:subject, one open finding per subject
+  user_id TEXT NOT NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  usage_record_id UUID REFERENCES usage_records(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 6) NOT NULL, -- Charge, usage cost or balance difference
+  currency TEXT NOT NULL DEFAULT 'USD',
+  details JSONB,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolution TEXT, -- What closed the finding
+  adjustment_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  resolved_by TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Exchange Rates Table
+-- Rates entered by admins for converting deposits (EXCHANGE_RATE_SOURCE=database)
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency TEXT PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'USD'),
+  rate_per_usd DECIMAL(20, 8) NOT NULL CHECK (rate_per_usd > 0), -- Units of currency per 1 USD
+  updated_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Organizations Table
+-- Workspaces whose members share one wallet
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Organization Members Table
+-- Members, their role and their monthly cap on the organization wallet
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  email TEXT, -- Email when the member was added, for display
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  monthly_spending_limit DECIMAL(10, 2) CHECK (monthly_spending_limit > 0), -- NULL = no cap
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Admin Audit Log Table
+-- Refunds and balance changes made by admins, with their reason
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id TEXT NOT NULL,
+  admin_email TEXT,
+  action TEXT NOT NULL CHECK (action IN ('stripe_refund', 'balance_adjustment', 'manual_refund')),
+  target_user_id TEXT NOT NULL, -- Wallet acted on: a user or an organization id
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL, -- Ledger entry written, if any
+  amount DECIMAL(10, 2),
+  currency TEXT,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  outcome TEXT NOT NULL CHECK (outcome IN ('succeeded', 'failed')),
+  details JSONB, -- Stripe ids, error message
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Pending Pricing Changes Table
+-- Pricing changes found by the sync that wait for admin review
+CREATE TABLE IF NOT EXISTS pending_pricing_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_id TEXT NOT NULL,
+  provider_id TEXT NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('new', 'updated')),
+  old_pricing JSONB, -- Current pricing; NULL for new models
+  new_pricing JSONB NOT NULL, -- Pricing reported by the provider
+  change_percent_input DECIMAL(10, 2),
+  change_percent_output DECIMAL(10, 2),
+  validation_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  validation_warnings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source TEXT NOT NULL, -- 'auto-sync', 'admin-api'
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+  applied_pricing JSONB, -- Pricing applied on approval, including admin edits
+  reviewed_by TEXT,
+  review_note TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Alert Routes Table
+-- Channels each alert event type is sent to
+CREATE TABLE IF NOT EXISTS alert_routes (
+  event_type TEXT PRIMARY KEY CHECK (event_type IN ('sync_result', 'review_needed', 'provider_failure', 'reconciliation_discrepancy', 'low_margin')),
+  channels TEXT[] NOT NULL DEFAULT '{}', -- 'slack', 'email', 'webhook', 'console'
+  updated_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Stripe Events Table
+-- Verified Stripe webhook events with their processing status
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY, -- Stripe event id (evt_...)
+  type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  stripe_created_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  replayed_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Stripe Disputes Table
+-- Disputed wallet deposits and the balance frozen for them
+CREATE TABLE IF NOT EXISTS stripe_disputes (
+  id TEXT PRIMARY KEY, -- Stripe dispute id (dp_...)
+  charge_id TEXT NOT NULL,
+  payment_intent_id TEXT,
+  wallet_id TEXT, -- NULL when the charge was not a wallet deposit
+  dispute_amount INTEGER NOT NULL, -- Smallest unit of the payment currency
+  dispute_currency TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL DEFAULT 0, -- Disputed share of the credit, in the ledger currency
+  frozen_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'USD', -- Ledger currency of amount and frozen_amount
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'won', 'lost')),
+  stripe_status TEXT,
+  hold_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  release_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- ============================================================================
@@ -89,6 +448,15 @@ CREATE TABLE IF NOT EXISTS transactions (
 -- Model Pricing
 CREATE INDEX IF NOT EXISTS idx_model_pricing_model_id ON model_pricing(model_id);
 CREATE INDEX IF NOT EXISTS idx_model_pricing_provider_id ON model_pricing(provider_id);
+CREATE INDEX IF NOT EXISTS idx_model_pricing_versions_model ON model_pricing_versions(provider_id, model_id, effective_from DESC);
+CREATE INDEX IF NOT EXISTS idx_model_pricing_versions_effective_from ON model_pricing_versions(effective_from);
+
+-- Tool Pricing
+CREATE INDEX IF NOT EXISTS idx_tool_pricing_tool_name ON tool_pricing(tool_name);
+
+-- Pricing Plans and Markups
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_plans_single_default ON pricing_plans(is_default) WHERE is_default = true;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_markup_rules_scope ON pricing_markup_rules(COALESCE(plan_id, ''), COALESCE(provider_id, ''), COALESCE(model_id, ''));
 
 -- Usage Records
 CREATE INDEX IF NOT EXISTS idx_usage_records_user_id ON usage_records(user_id);
@@ -100,6 +468,14 @@ CREATE INDEX IF NOT EXISTS idx_usage_records_request_id ON usage_records(request
 CREATE INDEX IF NOT EXISTS idx_usage_records_transaction_id ON usage_records(transaction_id) WHERE transaction_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_usage_records_status ON usage_records(status) WHERE status IN ('pending', 'failed');
 CREATE INDEX IF NOT EXISTS idx_usage_records_created_at_desc ON usage_records(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_records_owner_id_created_at ON usage_records(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_records_pricing_version_id ON usage_records(pricing_version_id) WHERE pricing_version_id IS NOT NULL;
+
+-- User Subscriptions
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_user_id ON user_subscriptions(user_id, created_at DESC);
+
+-- Promo Code Redemptions
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_code_user ON promo_code_redemptions(promo_code_id, user_id);
 
 -- User Balances
 CREATE INDEX IF NOT EXISTS idx_user_balances_user_id ON user_balances(user_id);
@@ -110,8 +486,31 @@ CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_user_created ON transactions(user_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
 CREATE INDEX IF NOT EXISTS idx_transactions_stripe_payment_intent ON transactions(stripe_payment_intent_id) WHERE stripe_payment_intent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_stripe_charge ON transactions(stripe_charge_id) WHERE stripe_charge_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_transactions_created_at ON transactions(created_at DESC);
 
+-- Billing Reconciliation
+CREATE INDEX IF NOT EXISTS idx_usage_record_retry_queue_due ON usage_record_retry_queue(next_attempt_at) WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_reconciliation_findings_open ON billing_reconciliation_findings(fingerprint) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_billing_reconciliation_findings_status ON billing_reconciliation_findings(status, detected_at DESC);
+
+-- Organization Members
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+-- Admin Audit Log
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+
+-- Pending pricing changes indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_pricing_changes_model ON pending_pricing_changes(provider_id, model_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_pending_pricing_changes_status ON pending_pricing_changes(status, created_at DESC);
+
+-- Stripe events and disputes indexes
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_type ON stripe_events(type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_disputes_wallet ON stripe_disputes(wallet_id, opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_disputes_status ON stripe_disputes(status, opened_at DESC);
+
 -- ============================================================================
 -- FUNCTIONS
 -- ============================================================================
@@ -179,6 +578,11 @@ BEGIN
   UPDATE user_balances
   SET
     balance = balance + p_amount,
+    -- Debits spend allowance first, like holds; the rest is purchased credit
+    allowance_balance = CASE
+      WHEN p_amount < 0 THEN allowance_balance - LEAST(allowance_balance, -p_amount)
+      ELSE allowance_balance
+    END,
     updated_at = NOW()
   WHERE user_id = p_user_id
   RETURNING balance - p_amount, balance INTO v_balance_before, v_balance_after;
@@ -213,10 +617,15 @@ AS $$
 DECLARE
   v_balance DECIMAL;
   v_currency TEXT;
+  v_allowance DECIMAL;
+  v_from_allowance DECIMAL;
   v_transaction_id UUID;
 BEGIN
+  -- Lapsed allowance cannot be spent
+  PERFORM expire_subscription_allowance(p_user_id);
+
   -- Lock the user's balance row for update
-  SELECT balance, currency INTO v_balance, v_currency
+  SELECT balance, currency, allowance_balance INTO v_balance, v_currency, v_allowance
   FROM user_balances
   WHERE user_id = p_user_id
   FOR UPDATE;
@@ -243,10 +652,13 @@ BEGIN
     RETURN;
   END IF;
 
+  v_from_allowance := LEAST(v_allowance, p_amount);
+
   -- Deduct the amount (reserve it)
   UPDATE user_balances
   SET
     balance = balance - p_amount,
+    allowance_balance = allowance_balance - v_from_allowance,
     updated_at = NOW()
   WHERE user_id = p_user_id;
 
@@ -269,7 +681,11 @@ BEGIN
     v_balance,
     v_balance - p_amount,
     p_description,
-    jsonb_build_object('request_id', p_request_id, 'status', 'pending')
+    jsonb_build_object(
+      'request_id', p_request_id,
+      'status', 'pending',
+      'allowance_amount', v_from_allowance
+    )
   )
   RETURNING id INTO v_transaction_id;
 
@@ -332,11 +748,17 @@ SECURITY DEFINER
 AS $$
 DECLARE
   v_balance_after DECIMAL;
+  v_allowance_amount DECIMAL;
 BEGIN
+  SELECT COALESCE((metadata->>'allowance_amount')::DECIMAL, 0) INTO v_allowance_amount
+  FROM transactions
+  WHERE id = p_transaction_id;
+
   -- Add the amount back to user's balance
   UPDATE user_balances
   SET
     balance = balance + p_amount,
+    allowance_balance = LEAST(allowance_balance + COALESCE(v_allowance_amount, 0), balance + p_amount),
     updated_at = NOW()
   WHERE user_id = p_user_id
   RETURNING balance INTO v_balance_after;
@@ -387,88 +809,1344 @@ BEGIN
 END;
 $$;
 
--- ============================================================================
--- TRIGGERS
--- ============================================================================
-
--- Update timestamps on model_pricing changes
-CREATE TRIGGER update_model_pricing_updated_at
-  BEFORE UPDATE ON model_pricing
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
-
--- Update timestamps on user_balances changes
-CREATE TRIGGER update_user_balances_updated_at
-  BEFORE UPDATE ON user_balances
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
-
--- Auto-create balance for new users
--- Note: This trigger assumes auth.users table exists (standard Supabase setup)
--- If auth.users doesn't exist yet, this trigger will be created but won't fire until it does
-DO $$
+-- Settle a reserved balance to the actual usage cost
+CREATE OR REPLACE FUNCTION settle_reserved_balance(
+  p_user_id TEXT,
+  p_transaction_id UUID,
+  p_actual_amount DECIMAL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  charged_amount DECIMAL,
+  released_amount DECIMAL,
+  balance_after DECIMAL,
+  message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reserved DECIMAL;
+  v_status TEXT;
+  v_allowance_reserved DECIMAL;
+  v_balance DECIMAL;
+  v_charge DECIMAL;
+  v_release DECIMAL;
+  v_allowance_charge DECIMAL;
 BEGIN
-  IF EXISTS (SELECT FROM pg_tables WHERE schemaname = 'auth' AND tablename = 'users') THEN
-    DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
-    CREATE TRIGGER on_auth_user_created
-      AFTER INSERT ON auth.users
-      FOR EACH ROW
-      EXECUTE FUNCTION handle_new_user();
+  -- Lock the pending hold
+  SELECT amount, metadata->>'status', COALESCE((metadata->>'allowance_amount')::DECIMAL, 0)
+  INTO v_reserved, v_status, v_allowance_reserved
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = p_user_id
+    AND type = 'usage'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      'Reserved transaction not found'::TEXT;
+    RETURN;
   END IF;
-END $$;
 
--- ============================================================================
--- ROW LEVEL SECURITY (RLS) POLICIES
--- ============================================================================
+  IF v_status IS DISTINCT FROM 'pending' THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      format('Reservation already finalized with status %s', v_status)::TEXT;
+    RETURN;
+  END IF;
 
--- Enable RLS on all tables
-ALTER TABLE model_pricing ENABLE ROW LEVEL SECURITY;
-ALTER TABLE usage_records ENABLE ROW LEVEL SECURITY;
-ALTER TABLE user_balances ENABLE ROW LEVEL SECURITY;
-ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+  -- Lock the user's balance row for update
+  SELECT balance INTO v_balance
+  FROM user_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
 
--- Model Pricing Policies
-CREATE POLICY "Anyone can read model pricing"
-  ON model_pricing FOR SELECT
-  TO authenticated
-  USING (true);
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      0::DECIMAL,
+      0::DECIMAL,
+      0::DECIMAL,
+      'User balance record not found'::TEXT;
+    RETURN;
+  END IF;
 
-CREATE POLICY "Service role can insert model pricing"
-  ON model_pricing FOR INSERT
-  TO service_role
-  WITH CHECK (true);
+  -- Usage above the hold is only collected up to the remaining balance
+  v_charge := LEAST(p_actual_amount, v_reserved + v_balance);
+  v_release := v_reserved - v_charge;
+  v_allowance_charge := LEAST(v_allowance_reserved, v_charge);
 
-CREATE POLICY "Service role can update model pricing"
-  ON model_pricing FOR UPDATE
-  TO service_role
-  USING (true);
+  UPDATE user_balances
+  SET
+    balance = balance + v_release,
+    allowance_balance = GREATEST(
+      allowance_balance
+        + (v_allowance_reserved - v_allowance_charge)
+        - GREATEST(v_charge - v_reserved, 0),
+      0
+    ),
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance INTO v_balance;
 
--- Usage Records Policies
-CREATE POLICY "Users can read own usage records"
-  ON usage_records FOR SELECT
-  TO authenticated
-  USING (auth.uid()::text = user_id);
+  -- Rewrite the hold as the final usage charge
+  UPDATE transactions
+  SET
+    amount = v_charge,
+    balance_after = balance_before - v_charge,
+    description = 'API usage',
+    metadata = COALESCE(metadata, '{}'::jsonb)
+      || jsonb_build_object(
+        'status', 'completed',
+        'reserved_amount', v_reserved,
+        'actual_amount', p_actual_amount,
+        'uncollected_amount', GREATEST(p_actual_amount - v_charge, 0),
+        'allowance_charged', v_allowance_charge,
+        'settled_at', NOW()
+      )
+      || COALESCE(p_metadata, '{}'::jsonb),
+    updated_at = NOW()
+  WHERE id = p_transaction_id;
 
-CREATE POLICY "Service role can insert usage records"
-  ON usage_records FOR INSERT
-  TO service_role
-  WITH CHECK (true);
+  RETURN QUERY SELECT
+    TRUE,
+    v_charge,
+    v_release,
+    v_balance,
+    'Reservation settled successfully'::TEXT;
+END;
+$$;
 
--- User Balances Policies
-CREATE POLICY "Users can read own balance"
-  ON user_balances FOR SELECT
-  TO authenticated
-  USING (auth.uid()::text = user_id);
+-- Remove expired (or, with p_force, any expiring) subscription allowance
+CREATE OR REPLACE FUNCTION expire_subscription_allowance(
+  p_user_id TEXT,
+  p_force BOOLEAN DEFAULT false
+)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_balance DECIMAL;
+  v_allowance DECIMAL;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+  v_currency TEXT;
+BEGIN
+  SELECT balance, allowance_balance, allowance_expires_at, currency
+  INTO v_balance, v_allowance, v_expires_at, v_currency
+  FROM user_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
 
-CREATE POLICY "Users can insert own balance"
-  ON user_balances FOR INSERT
-  TO authenticated
-  WITH CHECK (auth.uid()::text = user_id);
+  IF NOT FOUND
+     OR v_allowance <= 0
+     OR v_expires_at IS NULL
+     OR (NOT p_force AND v_expires_at > NOW()) THEN
+    RETURN 0;
+  END IF;
 
-CREATE POLICY "Service role can insert user balances"
-  ON user_balances FOR INSERT
-  TO service_role
-  WITH CHECK (true);
+  -- Never take more than the balance holds
+  v_allowance := LEAST(v_allowance, v_balance);
+
+  UPDATE user_balances
+  SET
+    balance = balance - v_allowance,
+    allowance_balance = 0,
+    allowance_expires_at = NULL,
+    updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'adjustment',
+    v_allowance,
+    v_currency,
+    v_balance,
+    v_balance - v_allowance,
+    'Subscription allowance expired',
+    jsonb_build_object(
+      'source', 'subscription_allowance',
+      'status', 'completed',
+      'expired_at', v_expires_at
+    )
+  );
+
+  RETURN v_allowance;
+END;
+$$;
+
+-- Grant the allowance paid for by a subscription invoice
+CREATE OR REPLACE FUNCTION grant_subscription_allowance(
+  p_user_id TEXT,
+  p_amount DECIMAL,
+  p_expires_at TIMESTAMP WITH TIME ZONE,
+  p_invoice_id TEXT,
+  p_description TEXT DEFAULT 'Subscription allowance'
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  transaction_id UUID,
+  expired_amount DECIMAL,
+  balance_after DECIMAL,
+  message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_expired DECIMAL;
+  v_balance DECIMAL;
+  v_currency TEXT;
+BEGIN
+  -- Each invoice grants its allowance once
+  SELECT id INTO v_transaction_id
+  FROM transactions
+  WHERE stripe_invoice_id = p_invoice_id;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      v_transaction_id,
+      0::DECIMAL,
+      0::DECIMAL,
+      'Invoice allowance already granted'::TEXT;
+    RETURN;
+  END IF;
+
+  v_expired := expire_subscription_allowance(p_user_id, true);
+
+  UPDATE user_balances
+  SET
+    balance = balance + p_amount,
+    allowance_balance = allowance_balance + p_amount,
+    allowance_expires_at = p_expires_at,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance, currency INTO v_balance, v_currency;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT
+      FALSE,
+      NULL::UUID,
+      0::DECIMAL,
+      0::DECIMAL,
+      'User balance record not found'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    stripe_invoice_id,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'deposit',
+    p_amount,
+    v_currency,
+    v_balance - p_amount,
+    v_balance,
+    p_description,
+    p_invoice_id,
+    jsonb_build_object(
+      'source', 'subscription_allowance',
+      'status', 'completed',
+      'expires_at', p_expires_at
+    )
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT
+    TRUE,
+    v_transaction_id,
+    v_expired,
+    v_balance,
+    'Allowance granted successfully'::TEXT;
+END;
+$$;
+
+-- Redeem a promo code
+-- Check a code's limits, record the redemption, credit the balance and log the
+-- adjustment in one transaction. The code row is locked so concurrent
+-- redemptions cannot exceed max_redemptions or per_user_limit.
+-- Status is one of: redeemed, duplicate, idempotency_conflict, not_found,
+-- inactive, expired, exhausted, limit_reached
+CREATE OR REPLACE FUNCTION redeem_promo_code(
+  p_user_id TEXT,
+  p_code TEXT,
+  p_idempotency_key TEXT
+)
+RETURNS TABLE (
+  status TEXT,
+  redemption_id UUID,
+  promo_code_id UUID,
+  amount DECIMAL,
+  balance_before DECIMAL,
+  balance_after DECIMAL,
+  transaction_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code promo_codes%ROWTYPE;
+  v_existing promo_code_redemptions%ROWTYPE;
+  v_user_redemptions INTEGER;
+  v_redemption_id UUID;
+  v_balance_before DECIMAL;
+  v_balance_after DECIMAL;
+  v_currency TEXT;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_code
+  FROM promo_codes
+  WHERE code = UPPER(TRIM(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::UUID, NULL::UUID, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  -- Retried redemption: return the original result. A key that already
+  -- redeemed another code is refused rather than reported as this one
+  SELECT * INTO v_existing
+  FROM promo_code_redemptions r
+  WHERE r.user_id = p_user_id
+    AND r.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.promo_code_id <> v_code.id THEN
+      RETURN QUERY SELECT 'idempotency_conflict'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+      RETURN;
+    END IF;
+
+    RETURN QUERY SELECT 'duplicate'::TEXT, v_existing.id, v_existing.promo_code_id, v_existing.amount, NULL::DECIMAL, NULL::DECIMAL, v_existing.transaction_id;
+    RETURN;
+  END IF;
+
+  IF NOT v_code.is_active THEN
+    RETURN QUERY SELECT 'inactive'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF v_code.expires_at IS NOT NULL AND v_code.expires_at <= NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF v_code.max_redemptions IS NOT NULL AND v_code.redemption_count >= v_code.max_redemptions THEN
+    RETURN QUERY SELECT 'exhausted'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_user_redemptions
+  FROM promo_code_redemptions r
+  WHERE r.promo_code_id = v_code.id
+    AND r.user_id = p_user_id;
+
+  IF v_user_redemptions >= v_code.per_user_limit THEN
+    RETURN QUERY SELECT 'limit_reached'::TEXT, NULL::UUID, v_code.id, NULL::DECIMAL, NULL::DECIMAL, NULL::DECIMAL, NULL::UUID;
+    RETURN;
+  END IF;
+
+  UPDATE user_balances
+  SET
+    balance = balance + v_code.amount,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING balance - v_code.amount, balance, currency
+  INTO v_balance_before, v_balance_after, v_currency;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User balance record not found for user_id: %', p_user_id;
+  END IF;
+
+  INSERT INTO promo_code_redemptions (promo_code_id, user_id, idempotency_key, amount)
+  VALUES (v_code.id, p_user_id, p_idempotency_key, v_code.amount)
+  RETURNING id INTO v_redemption_id;
+
+  -- Log the credit in the same transaction, so it cannot go unrecorded
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'adjustment',
+    v_code.amount,
+    v_currency,
+    v_balance_before,
+    v_balance_after,
+    'Promo code ' || v_code.code,
+    jsonb_build_object(
+      'promoCode', v_code.code,
+      'promoCodeId', v_code.id,
+      'redemptionId', v_redemption_id
+    )
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE promo_code_redemptions
+  SET transaction_id = v_transaction_id
+  WHERE id = v_redemption_id;
+
+  UPDATE promo_codes
+  SET redemption_count = redemption_count + 1
+  WHERE id = v_code.id;
+
+  RETURN QUERY SELECT 'redeemed'::TEXT, v_redemption_id, v_code.id, v_code.amount, v_balance_before, v_balance_after, v_transaction_id;
+END;
+$$;
+
+-- Billed spend from the user's own balance since the start of the day and
+-- of the month. Failed and refunded usage was never charged and is left out
+CREATE OR REPLACE FUNCTION get_spending_totals(
+  p_user_id TEXT,
+  p_day_start TIMESTAMP WITH TIME ZONE,
+  p_month_start TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  daily_spend DECIMAL,
+  monthly_spend DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    COALESCE(SUM(total_cost) FILTER (WHERE created_at >= p_day_start), 0) AS daily_spend,
+    COALESCE(SUM(total_cost), 0) AS monthly_spend
+  FROM usage_records
+  WHERE owner_id = p_user_id
+    AND created_at >= LEAST(p_day_start, p_month_start)
+    AND COALESCE(status, 'completed') NOT IN ('failed', 'refunded');
+$$;
+
+-- Claim an automatic top-up
+-- Start a top-up if auto top-up is on, a card is saved, the balance is below
+-- the threshold and no other top-up is in flight. Claiming marks the top-up
+-- as pending so concurrent requests cannot charge twice; a claim older than
+-- p_retry_after is considered abandoned.
+-- Returns no row when no top-up should start
+CREATE OR REPLACE FUNCTION claim_auto_recharge(
+  p_user_id TEXT,
+  p_retry_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS TABLE (
+  amount DECIMAL,
+  currency TEXT,
+  stripe_customer_id TEXT,
+  stripe_payment_method_id TEXT,
+  pending_since TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE auto_recharge_settings s
+  SET pending_since = NOW()
+  FROM user_balances b
+  WHERE s.user_id = p_user_id
+    AND b.user_id = s.user_id
+    AND s.enabled
+    AND s.stripe_customer_id IS NOT NULL
+    AND s.stripe_payment_method_id IS NOT NULL
+    AND b.balance < s.threshold
+    AND (s.pending_since IS NULL OR s.pending_since < NOW() - p_retry_after)
+  RETURNING s.amount, s.currency, s.stripe_customer_id, s.stripe_payment_method_id, s.pending_since;
+END;
+$$;
+
+-- Charged usage transactions with no linked usage record
+-- Pending holds and refunded (failed) holds are skipped; only transactions
+-- older than p_before are checked so in-flight turns are not reported
+CREATE OR REPLACE FUNCTION find_orphaned_usage_transactions(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  user_id TEXT,
+  amount DECIMAL,
+  currency TEXT,
+  request_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.id, t.user_id, t.amount, t.currency, t.metadata->>'request_id', t.created_at
+  FROM transactions t
+  WHERE t.type = 'usage'
+    AND t.amount > 0
+    AND t.created_at < p_before
+    AND COALESCE(t.metadata->>'status', 'completed') = 'completed'
+    AND NOT EXISTS (
+      SELECT 1 FROM usage_records u WHERE u.transaction_id = t.id
+    )
+  ORDER BY t.created_at
+  LIMIT p_limit;
+$$;
+
+-- Charged usage records that are not linked to any transaction
+-- user_id is the wallet owner, which is charged for the usage
+CREATE OR REPLACE FUNCTION find_orphaned_usage_records(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  usage_record_id UUID,
+  user_id TEXT,
+  chat_id TEXT,
+  request_id TEXT,
+  provider_id TEXT,
+  model_id TEXT,
+  total_cost DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT u.id, u.owner_id, u.chat_id, u.request_id, u.provider_id, u.model_id, u.total_cost, u.created_at
+  FROM usage_records u
+  WHERE u.status = 'completed'
+    AND u.total_cost > 0
+    AND u.transaction_id IS NULL
+    AND u.created_at < p_before
+  ORDER BY u.created_at
+  LIMIT p_limit;
+$$;
+
+-- Balances that differ from the sum of their transactions by more than
+-- p_tolerance. Each transaction moves the balance by its amount in the
+-- direction of balance_before -> balance_after. Balances changed after
+-- p_before are skipped so in-flight writes are not reported.
+CREATE OR REPLACE FUNCTION find_balance_mismatches(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_tolerance DECIMAL DEFAULT 0.005,
+  p_user_id TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  user_id TEXT,
+  balance DECIMAL,
+  ledger_balance DECIMAL,
+  difference DECIMAL,
+  currency TEXT,
+  transaction_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    b.user_id,
+    b.balance,
+    COALESCE(l.total, 0),
+    b.balance - COALESCE(l.total, 0),
+    b.currency,
+    COALESCE(l.count, 0)
+  FROM user_balances b
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(CASE WHEN t.balance_after < t.balance_before THEN -t.amount ELSE t.amount END) AS total,
+      COUNT(*) AS count
+    FROM transactions t
+    WHERE t.user_id = b.user_id
+  ) l ON TRUE
+  WHERE (p_user_id IS NULL OR b.user_id = p_user_id)
+    AND (p_user_id IS NOT NULL OR b.updated_at < p_before)
+    AND ABS(b.balance - COALESCE(l.total, 0)) > p_tolerance
+  ORDER BY ABS(b.balance - COALESCE(l.total, 0)) DESC
+  LIMIT p_limit;
+$$;
+
+-- Usage holds still pending long after their turn: the settle failed or the
+-- turn was cut off before it ran. usage_cost is the cost of the usage records
+-- linked to the hold, NULL when the turn recorded none
+CREATE OR REPLACE FUNCTION find_stale_holds(
+  p_before TIMESTAMP WITH TIME ZONE,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  user_id TEXT,
+  amount DECIMAL,
+  currency TEXT,
+  request_id TEXT,
+  usage_cost DECIMAL,
+  usage_record_count BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.id, t.user_id, t.amount, t.currency, t.metadata->>'request_id', u.cost, COALESCE(u.count, 0), t.created_at
+  FROM transactions t
+  LEFT JOIN LATERAL (
+    SELECT SUM(r.total_cost) AS cost, COUNT(*) AS count
+    FROM usage_records r
+    WHERE r.transaction_id = t.id
+      AND r.status = 'completed'
+  ) u ON TRUE
+  WHERE t.type = 'usage'
+    AND t.metadata->>'status' = 'pending'
+    AND t.created_at < p_before
+  ORDER BY t.created_at
+  LIMIT p_limit;
+$$;
+
+-- Copy the owner type of the wallet onto each new transaction
+CREATE OR REPLACE FUNCTION set_transaction_owner_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT owner_type INTO NEW.owner_type
+  FROM user_balances
+  WHERE user_id = NEW.user_id;
+
+  NEW.owner_type := COALESCE(NEW.owner_type, 'user');
+  RETURN NEW;
+END;
+$$;
+
+-- Create an organization with its first owner and an empty wallet
+CREATE OR REPLACE FUNCTION create_organization(
+  p_name TEXT,
+  p_owner_id TEXT,
+  p_owner_email TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD'
+)
+RETURNS SETOF organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_organization organizations;
+BEGIN
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(p_name), p_owner_id)
+  RETURNING * INTO v_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (v_organization.id, p_owner_id, p_owner_email, 'owner');
+
+  INSERT INTO user_balances (user_id, balance, currency, owner_type)
+  VALUES (v_organization.id::text, 0, p_currency, 'organization');
+
+  RETURN NEXT v_organization;
+END;
+$$;
+
+-- Look up a user by email so owners can add members
+CREATE OR REPLACE FUNCTION get_user_id_by_email(
+  p_email TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT id::text
+  FROM auth.users
+  WHERE lower(email) = lower(trim(p_email))
+  LIMIT 1;
+$$;
+
+-- Billed spend from an organization wallet per member since p_since
+CREATE OR REPLACE FUNCTION get_organization_member_usage(
+  p_organization_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  user_id TEXT,
+  total_cost DECIMAL,
+  request_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    u.user_id,
+    COALESCE(SUM(u.total_cost), 0),
+    COUNT(DISTINCT COALESCE(u.request_id, u.id::text))
+  FROM usage_records u
+  WHERE u.owner_id = p_organization_id::text
+    AND u.created_at >= p_since
+    AND COALESCE(u.status, 'completed') NOT IN ('failed', 'refunded')
+  GROUP BY u.user_id;
+$$;
+
+-- Users by email or id and organizations by name or id, with their wallet
+CREATE OR REPLACE FUNCTION search_billing_accounts(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  user_id TEXT,
+  owner_type TEXT,
+  label TEXT,
+  balance DECIMAL,
+  currency TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT * FROM (
+    SELECT u.id::text, 'user', u.email::text, b.balance, b.currency, u.created_at
+    FROM auth.users u
+    LEFT JOIN user_balances b ON b.user_id = u.id::text
+    WHERE u.email ILIKE '%' || trim(p_query) || '%'
+      OR u.id::text = trim(p_query)
+    UNION ALL
+    SELECT o.id::text, 'organization', o.name, b.balance, b.currency, o.created_at
+    FROM organizations o
+    LEFT JOIN user_balances b ON b.user_id = o.id::text
+    WHERE o.name ILIKE '%' || trim(p_query) || '%'
+      OR o.id::text = trim(p_query)
+  ) accounts
+  ORDER BY created_at DESC
+  LIMIT p_limit;
+$$;
+
+-- Record a version effective immediately when model_pricing changes
+-- Skipped when the version in effect already has these prices, e.g. when
+-- the cron copies a scheduled version into model_pricing
+CREATE OR REPLACE FUNCTION record_pricing_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_version model_pricing_versions%ROWTYPE;
+  row_data JSONB := to_jsonb(NEW);
+BEGIN
+  IF TG_OP = 'UPDATE' AND
+     OLD.input_price_per_1k_tokens = NEW.input_price_per_1k_tokens AND
+     OLD.output_price_per_1k_tokens = NEW.output_price_per_1k_tokens AND
+     OLD.cached_input_price_per_1k_tokens IS NOT DISTINCT FROM NEW.cached_input_price_per_1k_tokens AND
+     OLD.cache_write_price_per_1k_tokens IS NOT DISTINCT FROM NEW.cache_write_price_per_1k_tokens AND
+     OLD.reasoning_price_per_1k_tokens IS NOT DISTINCT FROM NEW.reasoning_price_per_1k_tokens AND
+     OLD.image_input_price_per_1k_tokens IS NOT DISTINCT FROM NEW.image_input_price_per_1k_tokens AND
+     OLD.pricing_tiers IS NOT DISTINCT FROM NEW.pricing_tiers THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO current_version
+  FROM model_pricing_versions
+  WHERE model_id = NEW.model_id
+    AND provider_id = NEW.provider_id
+    AND effective_from <= NOW()
+    AND (effective_until IS NULL OR effective_until > NOW())
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  IF FOUND AND
+     current_version.input_price_per_1k_tokens = NEW.input_price_per_1k_tokens AND
+     current_version.output_price_per_1k_tokens = NEW.output_price_per_1k_tokens AND
+     current_version.cached_input_price_per_1k_tokens IS NOT DISTINCT FROM NEW.cached_input_price_per_1k_tokens AND
+     current_version.cache_write_price_per_1k_tokens IS NOT DISTINCT FROM NEW.cache_write_price_per_1k_tokens AND
+     current_version.reasoning_price_per_1k_tokens IS NOT DISTINCT FROM NEW.reasoning_price_per_1k_tokens AND
+     current_version.image_input_price_per_1k_tokens IS NOT DISTINCT FROM NEW.image_input_price_per_1k_tokens AND
+     current_version.pricing_tiers IS NOT DISTINCT FROM NEW.pricing_tiers THEN
+    RETURN NEW;
+  END IF;
+
+  -- verified_source and verification_metadata are read from the row JSON as
+  -- fresh deployments of schema.sql don't have them
+  INSERT INTO model_pricing_versions (
+    model_id,
+    provider_id,
+    input_price_per_1k_tokens,
+    output_price_per_1k_tokens,
+    cached_input_price_per_1k_tokens,
+    cache_write_price_per_1k_tokens,
+    reasoning_price_per_1k_tokens,
+    image_input_price_per_1k_tokens,
+    pricing_tiers,
+    effective_from,
+    source,
+    created_by,
+    note
+  )
+  VALUES (
+    NEW.model_id,
+    NEW.provider_id,
+    NEW.input_price_per_1k_tokens,
+    NEW.output_price_per_1k_tokens,
+    NEW.cached_input_price_per_1k_tokens,
+    NEW.cache_write_price_per_1k_tokens,
+    NEW.reasoning_price_per_1k_tokens,
+    NEW.image_input_price_per_1k_tokens,
+    NEW.pricing_tiers,
+    NOW(),
+    COALESCE(row_data->>'verified_source', 'manual'),
+    row_data->'verification_metadata'->>'changed_by',
+    row_data->'verification_metadata'->>'change_reason'
+  )
+  ON CONFLICT (model_id, provider_id, effective_from) DO UPDATE SET
+    input_price_per_1k_tokens = EXCLUDED.input_price_per_1k_tokens,
+    output_price_per_1k_tokens = EXCLUDED.output_price_per_1k_tokens,
+    cached_input_price_per_1k_tokens = EXCLUDED.cached_input_price_per_1k_tokens,
+    cache_write_price_per_1k_tokens = EXCLUDED.cache_write_price_per_1k_tokens,
+    reasoning_price_per_1k_tokens = EXCLUDED.reasoning_price_per_1k_tokens,
+    image_input_price_per_1k_tokens = EXCLUDED.image_input_price_per_1k_tokens,
+    pricing_tiers = EXCLUDED.pricing_tiers,
+    source = EXCLUDED.source,
+    created_by = EXCLUDED.created_by,
+    note = EXCLUDED.note;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Freeze the disputed share of a deposit: debit at most what the wallet still
+-- holds and log the hold, clamped under the balance row lock so concurrent
+-- spending cannot take the balance below zero. Each dispute is frozen once;
+-- freezing it again returns the existing hold
+CREATE OR REPLACE FUNCTION freeze_dispute_funds(
+  p_user_id TEXT,
+  p_dispute_id TEXT,
+  p_amount DECIMAL,
+  p_charge_id TEXT,
+  p_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  frozen_amount DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_balance DECIMAL;
+  v_currency TEXT;
+  v_frozen DECIMAL;
+  v_transaction_id UUID;
+BEGIN
+  SELECT balance, currency INTO v_balance, v_currency
+  FROM user_balances
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User balance record not found for user_id: %', p_user_id;
+  END IF;
+
+  SELECT t.id, t.amount INTO v_transaction_id, v_frozen
+  FROM transactions t
+  WHERE t.metadata->>'disputeId' = p_dispute_id
+    AND t.metadata->>'disputeAction' = 'hold';
+
+  IF FOUND THEN
+    RETURN QUERY SELECT v_transaction_id, v_frozen;
+    RETURN;
+  END IF;
+
+  v_frozen := LEAST(p_amount, v_balance);
+
+  -- Nothing left to freeze: the deposit has already been spent
+  IF v_frozen <= 0 THEN
+    RETURN QUERY SELECT NULL::UUID, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  -- Allowance is spent first, as with any other debit
+  UPDATE user_balances
+  SET
+    balance = balance - v_frozen,
+    allowance_balance = allowance_balance - LEAST(allowance_balance, v_frozen),
+    updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO transactions (
+    user_id,
+    type,
+    amount,
+    currency,
+    balance_before,
+    balance_after,
+    description,
+    stripe_charge_id,
+    metadata
+  )
+  VALUES (
+    p_user_id,
+    'adjustment',
+    v_frozen, -- Absolute, like every ledger row; balance_after gives the direction
+    v_currency,
+    v_balance,
+    v_balance - v_frozen,
+    'Dispute hold: ' || p_dispute_id,
+    p_charge_id,
+    COALESCE(p_metadata, '{}'::JSONB) || jsonb_build_object(
+      'disputeId', p_dispute_id,
+      'disputeAction', 'hold'
+    )
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT v_transaction_id, v_frozen;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- Update timestamps on model_pricing changes
+CREATE TRIGGER update_model_pricing_updated_at
+  BEFORE UPDATE ON model_pricing
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Record a pricing version when model_pricing changes
+CREATE TRIGGER trigger_record_pricing_version
+  AFTER INSERT OR UPDATE ON model_pricing
+  FOR EACH ROW
+  EXECUTE FUNCTION record_pricing_version();
+
+-- Update timestamps on tool_pricing changes
+CREATE TRIGGER update_tool_pricing_updated_at
+  BEFORE UPDATE ON tool_pricing
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on pricing_plans changes
+CREATE TRIGGER update_pricing_plans_updated_at
+  BEFORE UPDATE ON pricing_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on pricing_markup_rules changes
+CREATE TRIGGER update_pricing_markup_rules_updated_at
+  BEFORE UPDATE ON pricing_markup_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on subscription_plans changes
+CREATE TRIGGER update_subscription_plans_updated_at
+  BEFORE UPDATE ON subscription_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on user_subscriptions changes
+CREATE TRIGGER update_user_subscriptions_updated_at
+  BEFORE UPDATE ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on promo_codes changes
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on user_spending_limits changes
+CREATE TRIGGER update_user_spending_limits_updated_at
+  BEFORE UPDATE ON user_spending_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on auto_recharge_settings changes
+CREATE TRIGGER update_auto_recharge_settings_updated_at
+  BEFORE UPDATE ON auto_recharge_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on usage_record_retry_queue changes
+CREATE TRIGGER update_usage_record_retry_queue_updated_at
+  BEFORE UPDATE ON usage_record_retry_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on exchange_rates changes
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on organizations changes
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on organization_members changes
+CREATE TRIGGER update_organization_members_updated_at
+  BEFORE UPDATE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on pending_pricing_changes changes
+CREATE TRIGGER update_pending_pricing_changes_updated_at
+  BEFORE UPDATE ON pending_pricing_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on alert_routes changes
+CREATE TRIGGER update_alert_routes_updated_at
+  BEFORE UPDATE ON alert_routes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on stripe_events changes
+CREATE TRIGGER update_stripe_events_updated_at
+  BEFORE UPDATE ON stripe_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Update timestamps on stripe_disputes changes
+CREATE TRIGGER update_stripe_disputes_updated_at
+  BEFORE UPDATE ON stripe_disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Record whether a transaction is on a user or an organization wallet
+CREATE TRIGGER set_transactions_owner_type
+  BEFORE INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_transaction_owner_type();
+
+-- Update timestamps on user_balances changes
+CREATE TRIGGER update_user_balances_updated_at
+  BEFORE UPDATE ON user_balances
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Auto-create balance for new users
+-- Note: This trigger assumes auth.users table exists (standard Supabase setup)
+-- If auth.users doesn't exist yet, this trigger will be created but won't fire until it does
+DO $$
+BEGIN
+  IF EXISTS (SELECT FROM pg_tables WHERE schemaname = 'auth' AND tablename = 'users') THEN
+    DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+    CREATE TRIGGER on_auth_user_created
+      AFTER INSERT ON auth.users
+      FOR EACH ROW
+      EXECUTE FUNCTION handle_new_user();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Enable RLS on all tables
+ALTER TABLE model_pricing ENABLE ROW LEVEL SECURITY;
+ALTER TABLE model_pricing_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tool_pricing ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pricing_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pricing_markup_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_spending_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auto_recharge_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_record_retry_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_reconciliation_findings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pending_pricing_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+
+-- Model Pricing Policies
+CREATE POLICY "Anyone can read model pricing"
+  ON model_pricing FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can insert model pricing"
+  ON model_pricing FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update model pricing"
+  ON model_pricing FOR UPDATE
+  TO service_role
+  USING (true);
+
+-- Model Pricing Versions Policies
+CREATE POLICY "Anyone can read model pricing versions"
+  ON model_pricing_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage model pricing versions"
+  ON model_pricing_versions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Tool Pricing Policies
+CREATE POLICY "Anyone can read tool pricing"
+  ON tool_pricing FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can insert tool pricing"
+  ON tool_pricing FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update tool pricing"
+  ON tool_pricing FOR UPDATE
+  TO service_role
+  USING (true);
+
+-- Pricing Plan Policies
+CREATE POLICY "Anyone can read pricing plans"
+  ON pricing_plans FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage pricing plans"
+  ON pricing_plans FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Markup Rule Policies (markups reveal margins; service role only)
+CREATE POLICY "Service role can manage markup rules"
+  ON pricing_markup_rules FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Subscription Policies
+CREATE POLICY "Anyone can read subscription plans"
+  ON subscription_plans FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage subscription plans"
+  ON subscription_plans FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can read own subscriptions"
+  ON user_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage user subscriptions"
+  ON user_subscriptions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Promo Code Policies (codes are not readable by users, so they cannot be listed or guessed)
+CREATE POLICY "Service role can manage promo codes"
+  ON promo_codes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can read own promo code redemptions"
+  ON promo_code_redemptions FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage promo code redemptions"
+  ON promo_code_redemptions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Spending Limit Policies
+CREATE POLICY "Users can read own spending limits"
+  ON user_spending_limits FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage spending limits"
+  ON user_spending_limits FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Auto Recharge Policies
+CREATE POLICY "Users can read own auto recharge settings"
+  ON auto_recharge_settings FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage auto recharge settings"
+  ON auto_recharge_settings FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Billing Reconciliation Policies
+CREATE POLICY "Service role can manage usage record retry queue"
+  ON usage_record_retry_queue FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage reconciliation findings"
+  ON billing_reconciliation_findings FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Exchange Rates Policies
+CREATE POLICY "Service role can manage exchange rates"
+  ON exchange_rates FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Organization Policies
+CREATE POLICY "Members can read their organizations"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.organization_id = organizations.id
+        AND m.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Service role can manage organizations"
+  ON organizations FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can read own memberships"
+  ON organization_members FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage organization members"
+  ON organization_members FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Admin Audit Log Policies
+CREATE POLICY "Service role can manage admin audit log"
+  ON admin_audit_log FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Pending Pricing Changes Policies
+CREATE POLICY "Service role can manage pending pricing changes"
+  ON pending_pricing_changes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Alert Routes Policies
+CREATE POLICY "Service role can manage alert routes"
+  ON alert_routes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Stripe Events and Disputes Policies
+CREATE POLICY "Service role can manage stripe events"
+  ON stripe_events FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage stripe disputes"
+  ON stripe_disputes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Usage Records Policies
+CREATE POLICY "Users can read own usage records"
+  ON usage_records FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can insert usage records"
+  ON usage_records FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+-- User Balances Policies
+CREATE POLICY "Users can read own balance"
+  ON user_balances FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Members can read organization balances"
+  ON user_balances FOR SELECT
+  TO authenticated
+  USING (
+    owner_type = 'organization'
+    AND EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.organization_id::text = user_balances.user_id
+        AND m.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Users can insert own balance"
+  ON user_balances FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can insert user balances"
+  ON user_balances FOR INSERT
+  TO service_role
+  WITH CHECK (true);
 
 CREATE POLICY "Service role can update user balances"
   ON user_balances FOR UPDATE
@@ -481,6 +2159,19 @@ CREATE POLICY "Users can read own transactions"
   TO authenticated
   USING (auth.uid()::text = user_id);
 
+CREATE POLICY "Organization admins can read organization transactions"
+  ON transactions FOR SELECT
+  TO authenticated
+  USING (
+    owner_type = 'organization'
+    AND EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.organization_id::text = transactions.user_id
+        AND m.user_id = auth.uid()::text
+        AND m.role IN ('owner', 'admin')
+    )
+  );
+
 CREATE POLICY "Service role can insert transactions"
   ON transactions FOR INSERT
   TO service_role
@@ -504,30 +2195,134 @@ GRANT EXECUTE ON FUNCTION increment_balance(TEXT, DECIMAL) TO service_role;
 GRANT EXECUTE ON FUNCTION reserve_balance(TEXT, DECIMAL, TEXT, TEXT) TO service_role;
 GRANT EXECUTE ON FUNCTION update_transaction_status(UUID, TEXT, JSONB) TO service_role;
 GRANT EXECUTE ON FUNCTION refund_reserved_balance(TEXT, DECIMAL, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_reserved_balance(TEXT, UUID, DECIMAL, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_subscription_allowance(TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION grant_subscription_allowance(TEXT, DECIMAL, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION redeem_promo_code(TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_spending_totals(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_auto_recharge(TEXT, INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION find_orphaned_usage_transactions(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION find_orphaned_usage_records(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION find_balance_mismatches(TIMESTAMP WITH TIME ZONE, DECIMAL, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION find_stale_holds(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION create_organization(TEXT, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_user_id_by_email(TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION get_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_member_usage(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION search_billing_accounts(TEXT, INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION search_billing_accounts(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION freeze_dispute_funds(TEXT, TEXT, DECIMAL, TEXT, JSONB) TO service_role;
 
 -- ============================================================================
 -- COMMENTS (Documentation)
 -- ============================================================================
 
 COMMENT ON TABLE transactions IS 'Audit trail for all user balance changes including deposits, usage, refunds, and adjustments';
+COMMENT ON TABLE tool_pricing IS 'Per-call prices for metered tools (search, retrieve, video search) keyed by provider and search depth';
+COMMENT ON TABLE pricing_plans IS 'User pricing plans; markup rules and the minimum charge per request depend on the plan';
+COMMENT ON TABLE pricing_markup_rules IS 'Percentage or fixed markups over provider cost, scoped by plan, provider and model. The most specific active rule applies (model > provider > plan)';
 COMMENT ON TABLE usage_records IS 'Tracks all API usage with token counts, costs, and links to balance transactions for reconciliation';
 COMMENT ON COLUMN transactions.type IS 'Transaction type: deposit (payment), usage (API costs), refund (payment refund), adjustment (admin correction)';
 COMMENT ON COLUMN transactions.stripe_payment_intent_id IS 'Stripe Payment Intent ID for deposit transactions';
 COMMENT ON COLUMN transactions.metadata IS 'Extensible JSON field for additional transaction data including status for reconciliation';
 COMMENT ON COLUMN user_balances.locale IS 'User locale for number and currency formatting (e.g., en-US, fr-FR, de-DE)';
 COMMENT ON COLUMN user_balances.preferred_currency IS 'User preferred currency code (ISO 4217 format)';
-COMMENT ON COLUMN usage_records.request_id IS 'Unique identifier for idempotency - prevents duplicate billing for retried requests';
+COMMENT ON COLUMN usage_records.request_id IS 'Identifier of the chat turn - all model calls of one turn share it';
+COMMENT ON COLUMN usage_records.call_index IS 'Position of the model call within its request; unique together with request_id for idempotency';
+COMMENT ON COLUMN usage_records.call_type IS 'Kind of call: response (streamText step), tool_selection, related_questions, tool_call (model_id is tool:depth, provider_id is the tool provider)';
+COMMENT ON COLUMN usage_records.cached_input_tokens IS 'Prompt cache reads, included in input_tokens';
+COMMENT ON COLUMN usage_records.cache_write_tokens IS 'Prompt cache writes, included in input_tokens';
+COMMENT ON COLUMN usage_records.reasoning_tokens IS 'Reasoning/thinking tokens, included in output_tokens';
+COMMENT ON COLUMN usage_records.image_input_tokens IS 'Image input tokens, included in input_tokens';
+COMMENT ON COLUMN model_pricing.cached_input_price_per_1k_tokens IS 'Price of prompt cache reads; NULL bills them at the input price';
+COMMENT ON COLUMN model_pricing.cache_write_price_per_1k_tokens IS 'Price of prompt cache writes; NULL bills them at the input price';
+COMMENT ON COLUMN model_pricing.reasoning_price_per_1k_tokens IS 'Price of reasoning/thinking tokens; NULL bills them at the output price';
+COMMENT ON COLUMN model_pricing.image_input_price_per_1k_tokens IS 'Price of image input tokens; NULL bills them at the input price';
+COMMENT ON COLUMN model_pricing.pricing_tiers IS 'Prompt-size price bands: [{min_tokens, max_tokens, input_price_per_1k_tokens, output_price_per_1k_tokens}]; NULL uses the base prices for every prompt size';
+COMMENT ON COLUMN user_balances.plan_id IS 'Pricing plan of the user';
+COMMENT ON COLUMN usage_records.provider_cost IS 'Raw provider cost of the call; total_cost is the billed amount after markup and minimum charge';
+COMMENT ON COLUMN usage_records.plan_id IS 'Pricing plan the call was billed under';
 COMMENT ON COLUMN usage_records.transaction_id IS 'Links usage record to the balance transaction that debited the user account';
 COMMENT ON COLUMN usage_records.status IS 'Lifecycle status: pending (reserved), completed (charged), failed (refunded), refunded (manually refunded)';
 COMMENT ON FUNCTION increment_balance IS 'Atomically increment user balance and return before/after values. Prevents race conditions in concurrent balance updates.';
 COMMENT ON FUNCTION update_user_currency_preference IS 'Updates user currency and locale preferences';
-COMMENT ON FUNCTION reserve_balance IS 'Atomically reserves balance for API usage. Checks sufficient funds and creates pending transaction in single atomic operation.';
+COMMENT ON FUNCTION reserve_balance IS 'Atomically reserves balance for API usage. Checks sufficient funds and creates pending transaction in single atomic operation. Subscription allowance is spent before purchased credits.';
 COMMENT ON FUNCTION update_transaction_status IS 'Updates transaction status for reconciliation. Merges new metadata with existing metadata.';
 COMMENT ON FUNCTION refund_reserved_balance IS 'Refunds a previously reserved balance when API call fails. Creates refund transaction and marks original as failed.';
+COMMENT ON FUNCTION settle_reserved_balance IS 'Settles a pending reserve_balance hold to the actual usage cost. Releases the unused amount and marks the hold completed.';
+COMMENT ON TABLE subscription_plans IS 'Recurring Stripe plans that grant a monthly credit allowance and move the user to a pricing plan';
+COMMENT ON TABLE user_subscriptions IS 'Stripe subscriptions of users, kept in sync by the payments webhook';
+COMMENT ON COLUMN user_balances.allowance_balance IS 'Part of balance granted by a subscription; spent before purchased credits';
+COMMENT ON COLUMN user_balances.allowance_expires_at IS 'When the allowance expires; NULL for allowance that does not expire';
+COMMENT ON COLUMN transactions.stripe_invoice_id IS 'Stripe invoice that granted a subscription allowance';
+COMMENT ON FUNCTION expire_subscription_allowance IS 'Removes expired (or, with p_force, any expiring) subscription allowance from the balance and logs an adjustment';
+COMMENT ON FUNCTION grant_subscription_allowance IS 'Adds the allowance of a paid subscription invoice once per invoice, expiring the previous period allowance first';
+COMMENT ON TABLE promo_codes IS 'Promo codes and credit vouchers created by admins';
+COMMENT ON TABLE promo_code_redemptions IS 'Promo code redemptions; one row per credited redemption';
+COMMENT ON COLUMN promo_code_redemptions.idempotency_key IS 'Client-supplied key; retries with the same key return the original redemption';
+COMMENT ON FUNCTION redeem_promo_code IS 'Atomically checks promo code limits, records the redemption, credits the balance and logs the adjustment transaction. Idempotent per user and idempotency key; a key reused for another code is refused.';
+COMMENT ON TABLE user_spending_limits IS 'User-defined daily, monthly and per-request spending caps';
+COMMENT ON COLUMN user_spending_limits.warning_threshold IS 'Share of a cap (0-1) at which the user is warned that the cap is close';
+COMMENT ON COLUMN user_spending_limits.confirm_threshold IS 'Estimated request cost above which the chat asks for confirmation before sending; NULL = never ask';
+COMMENT ON FUNCTION get_spending_totals IS 'Billed usage from the user''s own balance since the given day and month starts, excluding failed and refunded usage';
+COMMENT ON TABLE auto_recharge_settings IS 'Automatic top-up settings and the saved Stripe card charged off-session';
+COMMENT ON COLUMN auto_recharge_settings.pending_since IS 'When the in-flight top-up was claimed; cleared when its PaymentIntent succeeds or fails';
+COMMENT ON COLUMN auto_recharge_settings.last_failure_message IS 'Reason the last top-up failed and auto top-up was turned off';
+COMMENT ON FUNCTION claim_auto_recharge IS 'Atomically claims a top-up when auto top-up is on and the balance is below the threshold. Returns no row otherwise.';
+COMMENT ON TABLE usage_record_retry_queue IS 'Usage lines whose usage record could not be written after the charge; retried by the reconciliation job';
+COMMENT ON TABLE billing_reconciliation_findings IS 'Billing discrepancies found by the reconciliation job, resolved by admins with a corrective adjustment or dismissed';
+COMMENT ON COLUMN billing_reconciliation_findings.amount IS 'orphaned_transaction: amount charged; orphaned_usage_record: cost not charged; balance_mismatch: balance minus sum of transactions; stale_hold: amount held';
+COMMENT ON FUNCTION find_orphaned_usage_transactions IS 'Completed usage transactions older than p_before with no linked usage record';
+COMMENT ON FUNCTION find_orphaned_usage_records IS 'Completed, non-zero usage records older than p_before with no transaction';
+COMMENT ON FUNCTION find_balance_mismatches IS 'Balances that differ from the signed sum of their transactions by more than p_tolerance';
+COMMENT ON FUNCTION find_stale_holds IS 'Usage holds created before p_before that are still pending, with the cost of their usage records';
+COMMENT ON TABLE exchange_rates IS 'Exchange rates entered by admins, used for deposits when EXCHANGE_RATE_SOURCE=database. USD is the base currency';
+COMMENT ON COLUMN exchange_rates.rate_per_usd IS 'Units of the currency per 1 USD';
+COMMENT ON TABLE organizations IS 'Organization workspaces; each has a shared wallet in user_balances keyed by the organization id';
+COMMENT ON TABLE organization_members IS 'Members of an organization and their role: owner (billing and members), admin (members and deposits), member (usage)';
+COMMENT ON COLUMN organization_members.monthly_spending_limit IS 'Most the member can spend from the organization wallet per UTC calendar month; NULL = no cap';
+COMMENT ON COLUMN user_balances.owner_type IS 'user: user_id is a user; organization: user_id is an organization id (shared wallet)';
+COMMENT ON COLUMN transactions.owner_type IS 'Owner type of the wallet in user_id, copied from user_balances on insert';
+COMMENT ON COLUMN usage_records.owner_id IS 'Wallet charged for the call: the user (owner_type user) or an organization id (owner_type organization)';
+COMMENT ON FUNCTION create_organization IS 'Creates an organization with its first owner and an empty shared wallet';
+COMMENT ON FUNCTION get_user_id_by_email IS 'User id for an email address, for adding organization members. Service role only';
+COMMENT ON FUNCTION get_organization_member_usage IS 'Billed spend and request count per member from an organization wallet since p_since';
+COMMENT ON TABLE admin_audit_log IS 'Refunds and balance changes made by admins, with the reason given and whether they succeeded';
+COMMENT ON COLUMN transactions.stripe_refund_id IS 'Stripe Refund ID for refund transactions; a deposit can have several';
+COMMENT ON FUNCTION search_billing_accounts IS 'Users by email or id and organizations by name or id, with their balance. Service role only';
+COMMENT ON TABLE pending_pricing_changes IS 'Pricing changes found by the sync that wait for an admin to approve, edit or reject them';
+COMMENT ON TABLE model_pricing_versions IS 'Every price of each model with the period it applies to; includes prices scheduled to take effect in the future';
+COMMENT ON COLUMN model_pricing_versions.effective_from IS 'When the price takes effect; the latest version at or before a request time applies';
+COMMENT ON COLUMN model_pricing_versions.effective_until IS 'When a temporary price expires and the previous version applies again; NULL until replaced';
+COMMENT ON COLUMN usage_records.pricing_version_id IS 'model_pricing_versions row the usage was billed with; NULL for tool calls and prices from config';
+COMMENT ON TABLE alert_routes IS 'Channels each alert event type is sent to; event types without a row go to every configured channel';
+COMMENT ON TABLE stripe_events IS 'Verified Stripe webhook events with their processing status; failed events can be replayed';
+COMMENT ON TABLE stripe_disputes IS 'Disputed wallet deposits and the balance frozen for them';
+COMMENT ON FUNCTION freeze_dispute_funds IS 'Debits the disputed share of a deposit, clamped to the balance, and logs the hold once per dispute';
 COMMENT ON CONSTRAINT transactions_stripe_payment_intent_id_unique ON transactions IS 'Ensures each Stripe payment intent can only create one transaction, preventing race conditions in webhook processing';
 
+-- ============================================================================
+-- SEED DATA (Required - Pricing and Subscription Plans)
+-- ============================================================================
+-- user_balances.plan_id defaults to 'free'. No markup rules are seeded, so
+-- billing stays at provider passthrough until rules are added.
+
+INSERT INTO pricing_plans (id, name, description, is_default) VALUES
+  ('free', 'Free', 'Pay-as-you-go at standard rates', true),
+  ('pro', 'Pro', 'Discounted rates for regular users', false),
+  ('enterprise', 'Enterprise', 'Negotiated rates', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Subscription plans are not purchasable until stripe_price_id is set
+INSERT INTO subscription_plans (id, name, description, monthly_price, monthly_allowance, allowance_expires, pricing_plan_id) VALUES
+  ('pro_monthly', 'Pro', '$20 of credits every month at Pro rates', 20.00, 20.00, true, 'pro')
+ON CONFLICT (id) DO NOTHING;
+
 -- ============================================================================
 -- SEED DATA (Optional - Model Pricing)
 -- ============================================================================
 -- Uncomment and run the migration file 20251018000002_seed_model_pricing.sql
 -- if you need initial model pricing data
+--
+-- Default tool pricing is seeded by 20251019000011_create_tool_pricing_table.sql;
+-- without rows the app falls back to the defaults in lib/pricing/tool-pricing-service.ts